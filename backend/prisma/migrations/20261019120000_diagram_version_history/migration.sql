@@ -0,0 +1,9 @@
+-- CreateEnum
+CREATE TYPE "public"."DiagramVersionKind" AS ENUM ('MANUAL', 'AUTO', 'RESTORE');
+
+-- AlterTable
+ALTER TABLE "public"."DiagramVersion" ADD COLUMN     "kind" "public"."DiagramVersionKind" NOT NULL DEFAULT 'MANUAL',
+ADD COLUMN     "label" TEXT;
+
+-- AddForeignKey
+ALTER TABLE "public"."DiagramVersion" ADD CONSTRAINT "DiagramVersion_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "public"."User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
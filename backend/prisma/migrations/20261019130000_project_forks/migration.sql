@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "public"."Project" ADD COLUMN     "forkBase" JSONB,
+ADD COLUMN     "forkedAt" TIMESTAMP(3),
+ADD COLUMN     "forkedFromId" TEXT,
+ADD COLUMN     "forkedFromVersionId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Project_forkedFromId_idx" ON "public"."Project"("forkedFromId");
+
+-- AddForeignKey
+ALTER TABLE "public"."Project" ADD CONSTRAINT "Project_forkedFromId_fkey" FOREIGN KEY ("forkedFromId") REFERENCES "public"."Project"("id") ON DELETE SET NULL ON UPDATE CASCADE;
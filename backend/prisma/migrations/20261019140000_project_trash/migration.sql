@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "public"."Project" ADD COLUMN     "deletedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "Project_deletedAt_idx" ON "public"."Project"("deletedAt");
@@ -0,0 +1,10 @@
+-- AlterEnum
+ALTER TYPE "public"."EditRequestStatus" ADD VALUE 'EXPIRED';
+
+-- AlterTable
+ALTER TABLE "public"."EditRequest" ADD COLUMN     "decidedAt" TIMESTAMP(3),
+ADD COLUMN     "expiresAt" TIMESTAMP(3),
+ADD COLUMN     "reason" TEXT;
+
+-- CreateIndex
+CREATE INDEX "EditRequest_status_expiresAt_idx" ON "public"."EditRequest"("status", "expiresAt");
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "public"."ProjectShareLink" ADD COLUMN     "accessCount" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "lastUsedAt" TIMESTAMP(3),
+ADD COLUMN     "maxUses" INTEGER,
+ADD COLUMN     "name" TEXT,
+ADD COLUMN     "passwordHash" TEXT,
+ADD COLUMN     "revokedAt" TIMESTAMP(3);
@@ -0,0 +1,49 @@
+-- CreateEnum
+CREATE TYPE "public"."InvitationStatus" AS ENUM ('PENDING', 'ACCEPTED', 'CANCELLED', 'EXPIRED');
+
+-- CreateTable
+CREATE TABLE "public"."ProjectInvitation" (
+    "id" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "role" "public"."ProjectRole" NOT NULL DEFAULT 'EDITOR',
+    "tokenHash" TEXT NOT NULL,
+    "status" "public"."InvitationStatus" NOT NULL DEFAULT 'PENDING',
+    "invitedById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "acceptedAt" TIMESTAMP(3),
+    "acceptedById" TEXT,
+
+    CONSTRAINT "ProjectInvitation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."MailOutbox" (
+    "id" TEXT NOT NULL,
+    "to" TEXT NOT NULL,
+    "subject" TEXT NOT NULL,
+    "text" TEXT NOT NULL,
+    "html" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "MailOutbox_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ProjectInvitation_tokenHash_key" ON "public"."ProjectInvitation"("tokenHash");
+
+-- CreateIndex
+CREATE INDEX "ProjectInvitation_projectId_status_idx" ON "public"."ProjectInvitation"("projectId", "status");
+
+-- CreateIndex
+CREATE INDEX "ProjectInvitation_email_idx" ON "public"."ProjectInvitation"("email");
+
+-- CreateIndex
+CREATE INDEX "MailOutbox_to_createdAt_idx" ON "public"."MailOutbox"("to", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."ProjectInvitation" ADD CONSTRAINT "ProjectInvitation_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "public"."Project"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."ProjectInvitation" ADD CONSTRAINT "ProjectInvitation_invitedById_fkey" FOREIGN KEY ("invitedById") REFERENCES "public"."User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,30 @@
+-- CreateEnum
+CREATE TYPE "public"."OwnershipTransferStatus" AS ENUM ('PENDING', 'ACCEPTED', 'DECLINED', 'CANCELLED');
+
+-- CreateTable
+CREATE TABLE "public"."OwnershipTransfer" (
+    "id" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+    "fromUserId" TEXT NOT NULL,
+    "toUserId" TEXT NOT NULL,
+    "status" "public"."OwnershipTransferStatus" NOT NULL DEFAULT 'PENDING',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "decidedAt" TIMESTAMP(3),
+
+    CONSTRAINT "OwnershipTransfer_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "OwnershipTransfer_projectId_status_idx" ON "public"."OwnershipTransfer"("projectId", "status");
+
+-- CreateIndex
+CREATE INDEX "OwnershipTransfer_toUserId_status_idx" ON "public"."OwnershipTransfer"("toUserId", "status");
+
+-- AddForeignKey
+ALTER TABLE "public"."OwnershipTransfer" ADD CONSTRAINT "OwnershipTransfer_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "public"."Project"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."OwnershipTransfer" ADD CONSTRAINT "OwnershipTransfer_fromUserId_fkey" FOREIGN KEY ("fromUserId") REFERENCES "public"."User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."OwnershipTransfer" ADD CONSTRAINT "OwnershipTransfer_toUserId_fkey" FOREIGN KEY ("toUserId") REFERENCES "public"."User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,25 @@
+-- CreateEnum
+CREATE TYPE "public"."ActivityAction" AS ENUM ('PROJECT_CREATED', 'PROJECT_DELETED', 'PROJECT_RESTORED', 'SHARE_LINK_CREATED', 'SHARE_LINK_REVOKED', 'EDIT_REQUEST_APPROVED', 'EDIT_REQUEST_REJECTED', 'MEMBER_JOINED', 'MEMBER_ROLE_CHANGED', 'MEMBER_REMOVED', 'OWNERSHIP_TRANSFERRED', 'DIAGRAM_SAVED', 'CODE_GENERATED');
+
+-- CreateTable
+CREATE TABLE "public"."ProjectActivity" (
+    "id" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+    "actorId" TEXT,
+    "action" "public"."ActivityAction" NOT NULL,
+    "targetType" TEXT,
+    "targetId" TEXT,
+    "metadata" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ProjectActivity_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ProjectActivity_projectId_createdAt_idx" ON "public"."ProjectActivity"("projectId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."ProjectActivity" ADD CONSTRAINT "ProjectActivity_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "public"."Project"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."ProjectActivity" ADD CONSTRAINT "ProjectActivity_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "public"."User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
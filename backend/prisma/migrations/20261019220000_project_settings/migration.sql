@@ -0,0 +1,25 @@
+-- CreateEnum
+CREATE TYPE "public"."DatabaseVendor" AS ENUM ('POSTGRESQL', 'MYSQL', 'H2');
+
+-- AlterEnum
+ALTER TYPE "public"."ActivityAction" ADD VALUE 'PROJECT_UPDATED';
+
+-- CreateTable
+CREATE TABLE "public"."ProjectSettings" (
+    "projectId" TEXT NOT NULL,
+    "javaPackage" TEXT NOT NULL DEFAULT 'com.example',
+    "groupId" TEXT NOT NULL DEFAULT 'com.example',
+    "artifactId" TEXT NOT NULL DEFAULT 'spring-boot-project',
+    "springBootVersion" TEXT NOT NULL DEFAULT '3.2.0',
+    "javaVersion" TEXT NOT NULL DEFAULT '17',
+    "database" "public"."DatabaseVendor" NOT NULL DEFAULT 'POSTGRESQL',
+    "flutterAppName" TEXT NOT NULL DEFAULT 'UmlCrudApp',
+    "flutterPackage" TEXT NOT NULL DEFAULT 'com.example.umlcrud',
+    "apiBaseUrl" TEXT NOT NULL DEFAULT 'http://localhost:8080',
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ProjectSettings_pkey" PRIMARY KEY ("projectId")
+);
+
+-- AddForeignKey
+ALTER TABLE "public"."ProjectSettings" ADD CONSTRAINT "ProjectSettings_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "public"."Project"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "public"."ProjectPreference" (
+    "userId" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+    "starred" BOOLEAN NOT NULL DEFAULT false,
+    "tags" TEXT[],
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ProjectPreference_pkey" PRIMARY KEY ("userId","projectId")
+);
+
+-- CreateIndex
+CREATE INDEX "ProjectPreference_projectId_idx" ON "public"."ProjectPreference"("projectId");
+
+-- AddForeignKey
+ALTER TABLE "public"."ProjectPreference" ADD CONSTRAINT "ProjectPreference_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."ProjectPreference" ADD CONSTRAINT "ProjectPreference_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "public"."Project"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."Diagram" ADD COLUMN     "revision" INTEGER NOT NULL DEFAULT 0;
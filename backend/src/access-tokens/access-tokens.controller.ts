@@ -0,0 +1,45 @@
+// src/access-tokens/access-tokens.controller.ts
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import { JwtAuthGuard } from '../auth/jwt.guard';
+import { AccessTokensService } from './access-tokens.service';
+import { CreateAccessTokenDto } from './dto/create-access-token.dto';
+
+// Sin RequireCapability: un token de acceso no puede gestionar tokens
+@UseGuards(JwtAuthGuard)
+@Controller('access-tokens')
+export class AccessTokensController {
+  constructor(private readonly tokens: AccessTokensService) {}
+
+  // GET /api/access-tokens
+  @Get()
+  async list(@Req() req: any) {
+    const userId: string = req.user.id;
+    return this.tokens.list(userId);
+  }
+
+  // POST /api/access-tokens  { name, projectId, scopes, expiresInDays? }
+  @Post()
+  async create(@Req() req: any, @Body() dto: CreateAccessTokenDto) {
+    const userId: string = req.user.id;
+    return this.tokens.create(userId, dto);
+  }
+
+  // DELETE /api/access-tokens/:id
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async revoke(@Req() req: any, @Param('id') id: string) {
+    const userId: string = req.user.id;
+    await this.tokens.revoke(userId, id);
+  }
+}
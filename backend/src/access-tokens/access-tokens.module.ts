@@ -0,0 +1,13 @@
+// src/access-tokens/access-tokens.module.ts
+import { Global, Module } from '@nestjs/common';
+import { AccessTokensController } from './access-tokens.controller';
+import { AccessTokensService } from './access-tokens.service';
+
+// Global: JwtAuthGuard (usado en todos los módulos) valida los tokens
+@Global()
+@Module({
+  controllers: [AccessTokensController],
+  providers: [AccessTokensService],
+  exports: [AccessTokensService],
+})
+export class AccessTokensModule {}
@@ -0,0 +1,139 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  ForbiddenException,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { createHash } from 'crypto';
+import {
+  ACCESS_TOKEN_PREFIX,
+  AccessTokensService,
+  isAccessToken,
+} from './access-tokens.service';
+import { PrismaService } from '../common/prisma.service';
+import { PolicyService } from '../policy/policy.service';
+
+const hash = (t: string) => createHash('sha256').update(t).digest('hex');
+
+describe('AccessTokensService', () => {
+  let service: AccessTokensService;
+  const prisma = {
+    personalAccessToken: {
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+  };
+  const policy = { assert: jest.fn() };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AccessTokensService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: PolicyService, useValue: policy },
+      ],
+    }).compile();
+    service = module.get(AccessTokensService);
+  });
+
+  it('crea el token con alcances que el usuario tiene y guarda solo el hash', async () => {
+    prisma.personalAccessToken.create.mockImplementation(({ data }) => ({
+      id: 't1',
+      prefix: data.prefix,
+    }));
+
+    const res = await service.create('u1', {
+      name: ' CI ',
+      projectId: 'p1',
+      scopes: ['DIAGRAM_READ', 'CODE_GENERATE', 'DIAGRAM_READ'],
+      expiresInDays: 30,
+    });
+
+    expect(policy.assert.mock.calls).toEqual([
+      ['u1', 'p1', 'project:view'],
+      ['u1', 'p1', 'code:generate'],
+    ]);
+    expect(isAccessToken(res.token)).toBe(true);
+    const { data } = prisma.personalAccessToken.create.mock.calls[0][0];
+    expect(data).toMatchObject({
+      userId: 'u1',
+      projectId: 'p1',
+      name: 'CI',
+      scopes: ['DIAGRAM_READ', 'CODE_GENERATE'],
+      tokenHash: hash(res.token),
+    });
+    expect(res.token.startsWith(data.prefix)).toBe(true);
+    expect(data.expiresAt.getTime()).toBeGreaterThan(Date.now());
+  });
+
+  it('no crea un token de escritura si el rol no edita', async () => {
+    policy.assert.mockRejectedValue(new ForbiddenException());
+    await expect(
+      service.create('u1', {
+        name: 'CI',
+        projectId: 'p1',
+        scopes: ['DIAGRAM_WRITE'],
+      }),
+    ).rejects.toThrow(ForbiddenException);
+    expect(prisma.personalAccessToken.create).not.toHaveBeenCalled();
+  });
+
+  describe('authenticate', () => {
+    const raw = `${ACCESS_TOKEN_PREFIX}abc`;
+    const row = (over: Record<string, unknown> = {}) => ({
+      id: 't1',
+      projectId: 'p1',
+      scopes: ['DIAGRAM_READ'],
+      expiresAt: null,
+      revokedAt: null,
+      user: { id: 'u1', email: 'ana@test.com', role: 'USER' },
+      ...over,
+    });
+
+    it('devuelve el usuario con el proyecto y los alcances del token', async () => {
+      prisma.personalAccessToken.findUnique.mockResolvedValue(row());
+
+      await expect(service.authenticate(raw)).resolves.toEqual({
+        id: 'u1',
+        email: 'ana@test.com',
+        role: 'USER',
+        sessionId: null,
+        accessToken: { id: 't1', projectId: 'p1', scopes: ['DIAGRAM_READ'] },
+      });
+      expect(prisma.personalAccessToken.findUnique).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { tokenHash: hash(raw) } }),
+      );
+      expect(prisma.personalAccessToken.update).toHaveBeenCalledWith({
+        where: { id: 't1' },
+        data: { lastUsedAt: expect.any(Date) },
+      });
+    });
+
+    it('rechaza tokens revocados, vencidos o desconocidos', async () => {
+      for (const r of [
+        row({ revokedAt: new Date() }),
+        row({ expiresAt: new Date(Date.now() - 1000) }),
+        null,
+      ]) {
+        prisma.personalAccessToken.findUnique.mockResolvedValueOnce(r);
+        await expect(service.authenticate(raw)).rejects.toThrow(
+          UnauthorizedException,
+        );
+      }
+      expect(prisma.personalAccessToken.update).not.toHaveBeenCalled();
+    });
+  });
+
+  it('solo revoca tokens propios', async () => {
+    prisma.personalAccessToken.updateMany.mockResolvedValue({ count: 0 });
+    await expect(service.revoke('u2', 't1')).rejects.toThrow(NotFoundException);
+    expect(prisma.personalAccessToken.updateMany).toHaveBeenCalledWith({
+      where: { id: 't1', userId: 'u2', revokedAt: null },
+      data: { revokedAt: expect.any(Date) },
+    });
+  });
+});
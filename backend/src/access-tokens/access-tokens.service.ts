@@ -0,0 +1,139 @@
+// src/access-tokens/access-tokens.service.ts
+import {
+  Injectable,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { createHash, randomBytes } from 'crypto';
+import { PrismaService } from '../common/prisma.service';
+import { PolicyService } from '../policy/policy.service';
+import { ACCESS_TOKEN_SCOPE_CAPABILITY } from '../policy/capabilities';
+import { CreateAccessTokenDto } from './dto/create-access-token.dto';
+
+// Prefijo fijo: distingue el token de un JWT en el header Authorization
+export const ACCESS_TOKEN_PREFIX = 'umlpat_';
+
+export const isAccessToken = (raw: string | undefined): raw is string =>
+  !!raw && raw.startsWith(ACCESS_TOKEN_PREFIX);
+
+const hashToken = (token: string) =>
+  createHash('sha256').update(token).digest('hex');
+
+// Caracteres que se guardan en claro para reconocer el token en la lista
+const VISIBLE_PREFIX_LENGTH = ACCESS_TOKEN_PREFIX.length + 6;
+
+const TOKEN_SELECT = {
+  id: true,
+  name: true,
+  scopes: true,
+  prefix: true,
+  createdAt: true,
+  expiresAt: true,
+  lastUsedAt: true,
+  project: { select: { id: true, name: true } },
+} as const;
+
+@Injectable()
+export class AccessTokensService {
+  constructor(
+    private prisma: PrismaService,
+    private policy: PolicyService,
+  ) {}
+
+  /** Mis tokens sin revocar (los vencidos se muestran como tales) */
+  async list(userId: string) {
+    const now = new Date();
+    const tokens = await this.prisma.personalAccessToken.findMany({
+      where: { userId, revokedAt: null },
+      orderBy: { createdAt: 'desc' },
+      select: TOKEN_SELECT,
+    });
+    return tokens.map((t) => ({
+      ...t,
+      expired: !!t.expiresAt && t.expiresAt <= now,
+    }));
+  }
+
+  /**
+   * Crea un token; hay que tener hoy cada capacidad que se pide. El token en
+   * claro solo viaja en esta respuesta.
+   */
+  async create(userId: string, dto: CreateAccessTokenDto) {
+    const scopes = [...new Set(dto.scopes)];
+    for (const scope of scopes) {
+      await this.policy.assert(
+        userId,
+        dto.projectId,
+        ACCESS_TOKEN_SCOPE_CAPABILITY[scope],
+      );
+    }
+
+    const token = ACCESS_TOKEN_PREFIX + randomBytes(32).toString('base64url');
+    const created = await this.prisma.personalAccessToken.create({
+      data: {
+        userId,
+        projectId: dto.projectId,
+        name: dto.name.trim(),
+        scopes,
+        tokenHash: hashToken(token),
+        prefix: token.slice(0, VISIBLE_PREFIX_LENGTH),
+        expiresAt: dto.expiresInDays
+          ? new Date(Date.now() + dto.expiresInDays * 86_400_000)
+          : null,
+      },
+      select: TOKEN_SELECT,
+    });
+    return { ...created, expired: false, token };
+  }
+
+  async revoke(userId: string, id: string) {
+    const { count } = await this.prisma.personalAccessToken.updateMany({
+      where: { id, userId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+    if (!count) throw new NotFoundException('Token no encontrado');
+  }
+
+  /**
+   * Lo usa JwtAuthGuard: devuelve el mismo req.user que una sesión, más
+   * `accessToken` con el proyecto y los alcances (ProjectCapabilityGuard los
+   * hace cumplir).
+   */
+  async authenticate(raw: string) {
+    const now = new Date();
+    const token = await this.prisma.personalAccessToken.findUnique({
+      where: { tokenHash: hashToken(raw) },
+      select: {
+        id: true,
+        projectId: true,
+        scopes: true,
+        expiresAt: true,
+        revokedAt: true,
+        user: { select: { id: true, email: true, role: true } },
+      },
+    });
+    if (
+      !token ||
+      token.revokedAt ||
+      (token.expiresAt && token.expiresAt <= now)
+    ) {
+      throw new UnauthorizedException('Token de acceso inválido o vencido');
+    }
+
+    await this.prisma.personalAccessToken.update({
+      where: { id: token.id },
+      data: { lastUsedAt: now },
+    });
+    return {
+      id: token.user.id,
+      email: token.user.email,
+      role: token.user.role,
+      sessionId: null,
+      accessToken: {
+        id: token.id,
+        projectId: token.projectId,
+        scopes: token.scopes,
+      },
+    };
+  }
+}
@@ -0,0 +1,37 @@
+// src/access-tokens/dto/create-access-token.dto.ts
+import { AccessTokenScope } from '@prisma/client';
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+
+// POST /api/access-tokens  { name, projectId, scopes, expiresInDays? }
+export class CreateAccessTokenDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(80)
+  name: string; // ej: "CI backend"
+
+  @IsUUID()
+  projectId: string;
+
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsEnum(AccessTokenScope, { each: true, message: 'scope inválido' })
+  scopes: AccessTokenScope[];
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(365)
+  expiresInDays?: number; // sin valor = no vence
+}
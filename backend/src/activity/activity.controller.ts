@@ -0,0 +1,56 @@
+// src/activity/activity.controller.ts
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  Post,
+  Query,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import { JwtAuthGuard } from '../auth/jwt.guard';
+import { RequireCapability } from '../policy/require-capability.decorator';
+import { ActivityService } from './activity.service';
+import { CodeGeneratedDto } from './dto/code-generated.dto';
+
+@UseGuards(JwtAuthGuard)
+@Controller('projects/:projectId/activity')
+export class ActivityController {
+  constructor(private readonly activity: ActivityService) {}
+
+  // GET /api/projects/:projectId/activity?cursor=<id>&limit=30
+  @Get()
+  @RequireCapability('project:view')
+  async list(
+    @Req() req: any,
+    @Param('projectId') projectId: string,
+    @Query('cursor') cursor?: string,
+    @Query('limit') limit?: string,
+  ) {
+    const userId: string = req.user.id;
+    return this.activity.list(userId, projectId, {
+      cursor: cursor || undefined,
+      limit: limit ? Number(limit) || undefined : undefined,
+    });
+  }
+
+  // POST /api/projects/:projectId/activity/code-generated  { generator }
+  // El código se genera en el navegador; el editor avisa para el registro
+  @Post('code-generated')
+  @RequireCapability('code:generate', { accessToken: true })
+  async codeGenerated(
+    @Req() req: any,
+    @Param('projectId') projectId: string,
+    @Body() dto: CodeGeneratedDto,
+  ) {
+    const userId: string = req.user.id;
+    await this.activity.record({
+      projectId,
+      actorId: userId,
+      action: 'CODE_GENERATED',
+      metadata: { generator: dto.generator },
+    });
+    return { ok: true };
+  }
+}
@@ -0,0 +1,13 @@
+// src/activity/activity.module.ts
+import { Global, Module } from '@nestjs/common';
+import { ActivityController } from './activity.controller';
+import { ActivityService } from './activity.service';
+
+// Global: proyectos, share, diagramas y el gateway registran actividad
+@Global()
+@Module({
+  controllers: [ActivityController],
+  providers: [ActivityService],
+  exports: [ActivityService],
+})
+export class ActivityModule {}
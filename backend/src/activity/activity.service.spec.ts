@@ -0,0 +1,130 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ActivityService } from './activity.service';
+import { PrismaService } from '../common/prisma.service';
+import { PolicyService } from '../policy/policy.service';
+
+describe('ActivityService', () => {
+  let service: ActivityService;
+  const prisma = {
+    projectActivity: {
+      create: jest.fn(),
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+      update: jest.fn(),
+    },
+    user: { findMany: jest.fn() },
+  };
+  const policy = { assert: jest.fn() };
+
+  const row = (id: string, over: Record<string, unknown> = {}) => ({
+    id,
+    action: 'PROJECT_CREATED',
+    targetType: null,
+    targetId: null,
+    metadata: null,
+    createdAt: new Date(),
+    actor: { id: 'u1', name: 'Olga', email: 'olga@test.com' },
+    ...over,
+  });
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ActivityService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: PolicyService, useValue: policy },
+      ],
+    }).compile();
+
+    service = module.get<ActivityService>(ActivityService);
+  });
+
+  it('registrar nunca rompe la acción auditada', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    prisma.projectActivity.create.mockRejectedValue(new Error('db caída'));
+
+    await expect(
+      service.record({
+        projectId: 'p1',
+        actorId: 'u1',
+        action: 'PROJECT_DELETED',
+      }),
+    ).resolves.toBeUndefined();
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+
+  describe('recordDiagramSave', () => {
+    it('crea una entrada si no hubo guardados recientes del usuario', async () => {
+      prisma.projectActivity.findFirst.mockResolvedValue(null);
+
+      await service.recordDiagramSave('p1', 'u1', 'realtime');
+
+      expect(prisma.projectActivity.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          projectId: 'p1',
+          actorId: 'u1',
+          action: 'DIAGRAM_SAVED',
+          metadata: expect.objectContaining({ saves: 1, source: 'realtime' }),
+        }),
+      });
+    });
+
+    it('agrupa los guardados dentro de la ventana', async () => {
+      prisma.projectActivity.findFirst.mockResolvedValue({
+        id: 'a1',
+        metadata: { saves: 4, source: 'realtime' },
+      });
+
+      await service.recordDiagramSave('p1', 'u1', 'realtime');
+
+      expect(prisma.projectActivity.create).not.toHaveBeenCalled();
+      expect(prisma.projectActivity.update).toHaveBeenCalledWith({
+        where: { id: 'a1' },
+        data: {
+          metadata: expect.objectContaining({ saves: 5, source: 'realtime' }),
+        },
+      });
+    });
+  });
+
+  describe('list', () => {
+    it('pagina con cursor y resuelve los usuarios objetivo', async () => {
+      prisma.projectActivity.findMany.mockResolvedValue([
+        row('a3', { targetType: 'user', targetId: 'u2' }),
+        row('a2'),
+        row('a1'),
+      ]);
+      prisma.user.findMany.mockResolvedValue([
+        { id: 'u2', name: 'Ana', email: 'ana@test.com' },
+      ]);
+
+      const page = await service.list('u1', 'p1', { limit: 2 });
+
+      expect(policy.assert).toHaveBeenCalledWith('u1', 'p1', 'project:view');
+      expect(prisma.projectActivity.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { projectId: 'p1' }, take: 3 }),
+      );
+      expect(page.items.map((i) => i.id)).toEqual(['a3', 'a2']);
+      expect(page.items[0].targetUser).toEqual({
+        id: 'u2',
+        name: 'Ana',
+        email: 'ana@test.com',
+      });
+      expect(page.nextCursor).toBe('a2');
+    });
+
+    it('la última página no tiene cursor', async () => {
+      prisma.projectActivity.findMany.mockResolvedValue([row('a1')]);
+
+      const page = await service.list('u1', 'p1', { cursor: 'a2' });
+
+      expect(prisma.projectActivity.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ cursor: { id: 'a2' }, skip: 1 }),
+      );
+      expect(prisma.user.findMany).not.toHaveBeenCalled();
+      expect(page.nextCursor).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,142 @@
+// src/activity/activity.service.ts
+import { Injectable } from '@nestjs/common';
+import { ActivityAction, Prisma } from '@prisma/client';
+import { PrismaService } from '../common/prisma.service';
+import { PolicyService } from '../policy/policy.service';
+
+// Los guardados del mismo usuario dentro de esta ventana se agrupan en una
+// sola entrada DIAGRAM_SAVED (el tiempo real guarda cada ~700ms)
+export const ACTIVITY_SAVE_WINDOW_MS =
+  Number(process.env.ACTIVITY_SAVE_WINDOW_MINUTES ?? 10) * 60_000;
+
+export const ACTIVITY_PAGE_SIZE = 30;
+
+export type ActivityEntry = {
+  projectId: string;
+  actorId: string | null;
+  action: ActivityAction;
+  targetType?: string;
+  targetId?: string;
+  metadata?: Prisma.InputJsonObject;
+};
+
+const ACTIVITY_SELECT = {
+  id: true,
+  action: true,
+  targetType: true,
+  targetId: true,
+  metadata: true,
+  createdAt: true,
+  actor: { select: { id: true, name: true, email: true } },
+} satisfies Prisma.ProjectActivitySelect;
+
+/**
+ * Registro de actividad de los proyectos. Registrar nunca hace fallar la
+ * acción que se audita: los errores se loguean y se siguen de largo.
+ */
+@Injectable()
+export class ActivityService {
+  constructor(
+    private prisma: PrismaService,
+    private policy: PolicyService,
+  ) {}
+
+  async record(entry: ActivityEntry) {
+    try {
+      await this.prisma.projectActivity.create({ data: entry });
+    } catch (e) {
+      console.warn('[activity] no se pudo registrar', entry.action, e);
+    }
+  }
+
+  /**
+   * Guardado del diagrama (REST o Y.js). Extiende la última entrada del mismo
+   * usuario si está dentro de la ventana, así el log no se llena de guardados.
+   */
+  async recordDiagramSave(
+    projectId: string,
+    actorId: string,
+    source: 'realtime' | 'rest',
+  ) {
+    try {
+      const now = new Date();
+      const last = await this.prisma.projectActivity.findFirst({
+        where: {
+          projectId,
+          actorId,
+          action: 'DIAGRAM_SAVED',
+          createdAt: { gte: new Date(now.getTime() - ACTIVITY_SAVE_WINDOW_MS) },
+        },
+        orderBy: { createdAt: 'desc' },
+        select: { id: true, metadata: true },
+      });
+      if (!last) {
+        await this.prisma.projectActivity.create({
+          data: {
+            projectId,
+            actorId,
+            action: 'DIAGRAM_SAVED',
+            metadata: { saves: 1, source, lastSavedAt: now.toISOString() },
+          },
+        });
+        return;
+      }
+      const meta = (last.metadata ?? {}) as Record<string, unknown>;
+      await this.prisma.projectActivity.update({
+        where: { id: last.id },
+        data: {
+          metadata: {
+            ...meta,
+            saves: (Number(meta.saves) || 0) + 1,
+            lastSavedAt: now.toISOString(),
+          } as Prisma.InputJsonObject,
+        },
+      });
+    } catch (e) {
+      console.warn('[activity] no se pudo registrar DIAGRAM_SAVED', e);
+    }
+  }
+
+  /** Página de actividad (más reciente primero); `cursor` = id del último visto */
+  async list(
+    userId: string,
+    projectId: string,
+    { cursor, limit = ACTIVITY_PAGE_SIZE }: { cursor?: string; limit?: number },
+  ) {
+    await this.policy.assert(userId, projectId, 'project:view');
+    const take = Math.min(Math.max(limit, 1), 100);
+    const rows = await this.prisma.projectActivity.findMany({
+      where: { projectId },
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take: take + 1,
+      ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+      select: ACTIVITY_SELECT,
+    });
+    const page = rows.slice(0, take);
+
+    // Usuarios objetivo (miembros, solicitantes) para mostrar su nombre
+    const userIds = [
+      ...new Set(
+        page
+          .filter((r) => r.targetType === 'user' && r.targetId)
+          .map((r) => r.targetId!),
+      ),
+    ];
+    const users = userIds.length
+      ? await this.prisma.user.findMany({
+          where: { id: { in: userIds } },
+          select: { id: true, name: true, email: true },
+        })
+      : [];
+    const byId = new Map(users.map((u) => [u.id, u]));
+
+    return {
+      items: page.map((r) => ({
+        ...r,
+        targetUser:
+          r.targetType === 'user' ? (byId.get(r.targetId!) ?? null) : null,
+      })),
+      nextCursor: rows.length > take ? page[page.length - 1].id : null,
+    };
+  }
+}
@@ -0,0 +1,9 @@
+// src/activity/dto/code-generated.dto.ts
+import { IsIn } from 'class-validator';
+
+export const CODE_GENERATORS = ['spring-boot', 'flutter'] as const;
+
+export class CodeGeneratedDto {
+  @IsIn(CODE_GENERATORS)
+  generator: (typeof CODE_GENERATORS)[number];
+}
@@ -14,7 +14,9 @@ import {
   AiAssistantService,
   DiagramContext,
   AssistantResponse,
+  contextFromModel,
 } from './asistente';
+import type { UmlModel } from '../diagrams/uml-model';
 import {
   DiagramScannerService,
   DiagramScanResult,
@@ -134,16 +136,27 @@ export class AiController {
 
   @Post('asistente')
   async getAssistantHelp(
-    @Body() body: { context: DiagramContext; message?: string },
+    @Body()
+    body: {
+      model?: UmlModel;
+      context?: DiagramContext;
+      message?: string;
+    },
   ): Promise<AssistantResponse> {
+    // Con `model` (modelo canónico) el contexto sale de ahí; `context` suelto
+    // queda por compatibilidad con clientes viejos
+    const context = body.model
+      ? contextFromModel(body.model, body.context)
+      : body.context!;
+
     // 🔍 DEBUG: Log para verificar que llega el contexto
     console.log('[AI Controller] Petición recibida:', {
-      hasContext: !!body.context,
-      nodeCount: body.context?.nodes?.length || 0,
-      edgeCount: body.context?.edges?.length || 0,
+      hasContext: !!context,
+      nodeCount: context?.nodes?.length || 0,
+      edgeCount: context?.edges?.length || 0,
       message: body.message || '(sin mensaje)',
     });
 
-    return this.assistantService.getContextualHelp(body.context, body.message);
+    return this.assistantService.getContextualHelp(context, body.message);
   }
 }
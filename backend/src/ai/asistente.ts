@@ -1,5 +1,6 @@
 import { Injectable } from '@nestjs/common';
 import { AiService } from './ai.service';
+import { formatAttribute, formatMethod, UmlModel } from '../diagrams/uml-model';
 
 export interface DiagramContext {
   nodes: Array<{
@@ -13,13 +14,49 @@ export interface DiagramContext {
     id: string;
     source: string; // normalmente IDs de nodos
     target: string;
-    type: string; // 'assoc' | 'inherit' | 'comp' | 'aggr' | 'dep' | 'many-to-many' | ...
+    type: string; // 'assoc' | 'assoc_direct' | 'inherit' | 'comp' | 'aggr' | 'dep' | 'many-to-many' | ...
     labels?: string[];
   }>;
   lastAction?: string;
   userLevel: 'beginner' | 'intermediate' | 'advanced';
 }
 
+/**
+ * Contexto del asistente a partir del modelo canónico: el front manda el
+ * modelo y no sus propias lecturas de las celdas X6.
+ */
+export function contextFromModel(
+  model: UmlModel,
+  extra?: Partial<Pick<DiagramContext, 'lastAction' | 'userLevel'>>,
+): DiagramContext {
+  const relations = (model.relations ?? []).map((r) => ({
+    id: r.id,
+    source: r.source.classId ?? '',
+    target: r.target.classId ?? '',
+    type: r.kind,
+    labels: [r.source.multiplicityText, r.name, r.target.multiplicityText]
+      .map((l) => l?.trim())
+      .filter(Boolean),
+  }));
+  const generalizations = (model.generalizations ?? []).map((g) => ({
+    id: g.id,
+    source: g.childId ?? '',
+    target: g.parentId ?? '',
+    type: 'inherit',
+  }));
+  return {
+    nodes: (model.classes ?? []).map((c) => ({
+      id: c.id,
+      name: c.name || 'Unnamed',
+      attributes: c.attributes.map(formatAttribute),
+      methods: c.methods.map(formatMethod),
+    })),
+    edges: [...relations, ...generalizations],
+    lastAction: extra?.lastAction,
+    userLevel: extra?.userLevel ?? 'beginner',
+  };
+}
+
 export interface AssistantSuggestion {
   action: string;
   description: string;
@@ -160,7 +197,10 @@ export class AiAssistantService {
     const relTypes = new Set(edges.map((e) => e.type));
     const flags = {
       hasInheritance: relTypes.has('inherit'),
-      hasAssociations: relTypes.has('assoc') || relTypes.has('nav'),
+      hasAssociations:
+        relTypes.has('assoc') ||
+        relTypes.has('assoc_direct') ||
+        relTypes.has('nav'),
       hasAggregation: relTypes.has('aggr'),
       hasComposition: relTypes.has('comp'),
       hasDependency: relTypes.has('dep'),
@@ -8,14 +8,26 @@ import { DiagramsModule } from './diagrams/diagrams.module';
 import { DiagramRealtimeModule } from './diagram-realtime/diagram-realtime.module';
 import { ShareModule } from './share/share.module';
 import { AiModule } from './ai/ai.module';
+import { PolicyModule } from './policy/policy.module';
+import { MailModule } from './mail/mail.module';
+import { ActivityModule } from './activity/activity.module';
+import { NotificationsModule } from './notifications/notifications.module';
+import { WorkspacesModule } from './workspaces/workspaces.module';
+import { AccessTokensModule } from './access-tokens/access-tokens.module';
 
 @Module({
   imports: [
     ConfigModule.forRoot({ isGlobal: true }),
     PrismaModule,
+    PolicyModule,
+    MailModule,
+    ActivityModule,
+    NotificationsModule,
     UsersModule,
     AuthModule,
+    AccessTokensModule,
     ProjectsModule,
+    WorkspacesModule,
     DiagramsModule,
     ShareModule,
     DiagramRealtimeModule,
@@ -1,13 +1,105 @@
-import { Body, Controller, Post } from '@nestjs/common';
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Req,
+  Res,
+  UseGuards,
+} from '@nestjs/common';
+import type { Response } from 'express';
 import { AuthService } from './auth.service';
+import { SessionMeta, SessionsService } from './sessions.service';
+import { JwtAuthGuard } from './jwt.guard';
+import { LoginLockedException } from './login-throttle.service';
 import { LoginDto } from './dto/login.dto';
+import { RefreshTokenDto } from './dto/refresh-token.dto';
+import { TwoFactorLoginDto } from './dto/two-factor.dto';
+
+/** Navegador e IP del pedido, para reconocer la sesión en el listado */
+const sessionMeta = (req: any): SessionMeta => ({
+  userAgent: String(req.headers?.['user-agent'] ?? '').slice(0, 255) || null,
+  ip: req.ip ?? null,
+});
+
+/** Bloqueo por intentos fallidos: 429 con el header `Retry-After` */
+async function withRetryAfter<T>(res: Response, action: Promise<T>) {
+  try {
+    return await action;
+  } catch (e) {
+    if (e instanceof LoginLockedException) {
+      res.setHeader('Retry-After', String(e.retryAfter));
+    }
+    throw e;
+  }
+}
 
 @Controller('auth')
 export class AuthController {
-  constructor(private readonly auth: AuthService) {}
+  constructor(
+    private readonly auth: AuthService,
+    private readonly sessions: SessionsService,
+  ) {}
 
+  // POST /api/auth/login  { email, password } → tokens, o challenge si hay 2FA
   @Post('login')
-  async login(@Body() dto: LoginDto) {
-    return this.auth.login(dto.email, dto.password);
+  async login(
+    @Req() req: any,
+    @Res({ passthrough: true }) res: Response,
+    @Body() dto: LoginDto,
+  ) {
+    return withRetryAfter(
+      res,
+      this.auth.login(dto.email, dto.password, sessionMeta(req)),
+    );
+  }
+
+  // POST /api/auth/login/2fa  { challengeToken, code } → tokens
+  @Post('login/2fa')
+  @HttpCode(HttpStatus.OK)
+  async loginTwoFactor(
+    @Req() req: any,
+    @Res({ passthrough: true }) res: Response,
+    @Body() dto: TwoFactorLoginDto,
+  ) {
+    return withRetryAfter(
+      res,
+      this.auth.loginTwoFactor(dto.challengeToken, dto.code, sessionMeta(req)),
+    );
+  }
+
+  // POST /api/auth/refresh  { refreshToken } → tokens nuevos (el viejo deja de servir)
+  @Post('refresh')
+  @HttpCode(HttpStatus.OK)
+  async refresh(@Req() req: any, @Body() dto: RefreshTokenDto) {
+    return this.auth.refresh(dto.refreshToken, sessionMeta(req));
+  }
+
+  // POST /api/auth/logout  { refreshToken }
+  @Post('logout')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async logout(@Body() dto: RefreshTokenDto) {
+    await this.auth.logout(dto.refreshToken);
+  }
+
+  // GET /api/auth/sessions → mis dispositivos con sesión abierta
+  @UseGuards(JwtAuthGuard)
+  @Get('sessions')
+  async listSessions(@Req() req: any) {
+    const userId: string = req.user.id;
+    return this.sessions.list(userId, req.user.sessionId);
+  }
+
+  // DELETE /api/auth/sessions/:id
+  @UseGuards(JwtAuthGuard)
+  @Delete('sessions/:id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async revokeSession(@Req() req: any, @Param('id') id: string) {
+    const userId: string = req.user.id;
+    await this.sessions.revoke(userId, id);
   }
 }
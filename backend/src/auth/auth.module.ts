@@ -5,21 +5,34 @@ import { UsersModule } from '../users/users.module';
 import { JwtModule } from '@nestjs/jwt';
 import { ConfigModule, ConfigService } from '@nestjs/config';
 import { JwtStrategy } from './jwt.strategy';
+import { SessionsService } from './sessions.service';
+import { LoginThrottleService } from './login-throttle.service';
+import { RedisModule } from '../redis/redis.module';
+import { TwoFactorService } from './two-factor.service';
+import { TwoFactorController } from './two-factor.controller';
 
 @Module({
   imports: [
     UsersModule,
+    RedisModule,
     ConfigModule,
     JwtModule.registerAsync({
       imports: [ConfigModule],
       inject: [ConfigService],
       useFactory: (cfg: ConfigService) => ({
         secret: cfg.get<string>('JWT_SECRET'),
-        signOptions: { expiresIn: cfg.get<string>('JWT_EXPIRES') || '1h' },
+        // Corto: la sesión se mantiene con el refresh token
+        signOptions: { expiresIn: cfg.get<string>('JWT_EXPIRES') || '15m' },
       }),
     }),
   ],
-  providers: [AuthService, JwtStrategy],
-  controllers: [AuthController],
+  providers: [
+    AuthService,
+    SessionsService,
+    LoginThrottleService,
+    TwoFactorService,
+    JwtStrategy,
+  ],
+  controllers: [AuthController, TwoFactorController],
 })
 export class AuthModule {}
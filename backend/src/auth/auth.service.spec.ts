@@ -0,0 +1,196 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  HttpStatus,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { JwtModule, JwtService } from '@nestjs/jwt';
+import * as bcrypt from 'bcrypt';
+import { createHash } from 'crypto';
+import { AuthService } from './auth.service';
+import { SessionsService } from './sessions.service';
+import {
+  LoginLockedException,
+  LoginThrottleService,
+} from './login-throttle.service';
+import { TwoFactorService } from './two-factor.service';
+import { base32Decode, hotp, totpStep } from './totp';
+import { UsersService } from '../users/users.service';
+import { PrismaService } from '../common/prisma.service';
+
+const hash = (t: string) => createHash('sha256').update(t).digest('hex');
+
+describe('AuthService · sesiones', () => {
+  let service: AuthService;
+  let sessions: SessionsService;
+  let jwt: JwtService;
+  const prisma = {
+    user: { findUnique: jest.fn(), updateMany: jest.fn() },
+    authSession: {
+      create: jest.fn(),
+      deleteMany: jest.fn(),
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      updateMany: jest.fn(),
+    },
+  };
+  const user = {
+    id: 'u1',
+    email: 'ana@test.com',
+    name: 'Ana',
+    role: 'USER',
+    passwordHash: bcrypt.hashSync('secreto1', 4),
+  };
+  const activeSession = (over: Record<string, unknown> = {}) => ({
+    id: 's1',
+    userId: 'u1',
+    revokedAt: null,
+    expiresAt: new Date(Date.now() + 86_400_000),
+    ...over,
+  });
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    const module: TestingModule = await Test.createTestingModule({
+      imports: [JwtModule.register({ secret: 'test' })],
+      providers: [
+        AuthService,
+        SessionsService,
+        UsersService,
+        LoginThrottleService,
+        TwoFactorService,
+        { provide: PrismaService, useValue: prisma },
+        // Redis caído: el throttle usa su fallback en memoria
+        { provide: 'REDIS_PUB', useValue: { status: 'end' } },
+      ],
+    }).compile();
+
+    service = module.get(AuthService);
+    sessions = module.get(SessionsService);
+    jwt = module.get(JwtService);
+    prisma.user.findUnique.mockResolvedValue(user);
+    prisma.authSession.create.mockResolvedValue({ id: 's1', userId: 'u1' });
+  });
+
+  it('el login abre una sesión y guarda solo el hash del refresh token', async () => {
+    const res = await service.login('ana@test.com', 'secreto1', {
+      userAgent: 'Firefox',
+      ip: '10.0.0.1',
+    });
+    if (!('access_token' in res)) throw new Error('No debía pedir 2FA');
+
+    const { data } = prisma.authSession.create.mock.calls[0][0];
+    expect(data.tokenHash).toBe(hash(res.refresh_token));
+    expect(data).toEqual(
+      expect.objectContaining({ userId: 'u1', userAgent: 'Firefox' }),
+    );
+    expect(jwt.verify(res.access_token)).toEqual(
+      expect.objectContaining({ sub: 'u1', sid: 's1' }),
+    );
+  });
+
+  it('tras 5 fallos bloquea el email con 429, incluso con la contraseña correcta', async () => {
+    for (let i = 0; i < 4; i++) {
+      await expect(service.login('ana@test.com', 'mala')).rejects.toThrow(
+        UnauthorizedException,
+      );
+    }
+    const locked = await service
+      .login('Ana@Test.com', 'mala')
+      .catch((e: unknown) => e);
+    expect(locked).toBeInstanceOf(LoginLockedException);
+    expect((locked as LoginLockedException).getStatus()).toBe(
+      HttpStatus.TOO_MANY_REQUESTS,
+    );
+    expect((locked as LoginLockedException).retryAfter).toBe(30);
+
+    await expect(service.login('ana@test.com', 'secreto1')).rejects.toThrow(
+      LoginLockedException,
+    );
+    expect(prisma.authSession.create).not.toHaveBeenCalled();
+  });
+
+  it('con 2FA la contraseña solo da un challenge que se canjea con el código', async () => {
+    const secret = 'JBSWY3DPEHPK3PXP';
+    prisma.user.findUnique.mockResolvedValue({
+      ...user,
+      totpSecret: secret,
+      totpEnabledAt: new Date(),
+    });
+    prisma.user.updateMany.mockResolvedValue({ count: 1 });
+
+    const first = await service.login('ana@test.com', 'secreto1');
+    if (!('challengeToken' in first)) throw new Error('Debía pedir 2FA');
+    expect(first.twoFactorRequired).toBe(true);
+    expect(prisma.authSession.create).not.toHaveBeenCalled();
+    // El challenge no sirve como access token
+    expect(() => jwt.verify(first.challengeToken)).toThrow();
+
+    await expect(
+      service.loginTwoFactor(first.challengeToken, '000000'),
+    ).rejects.toThrow(UnauthorizedException);
+
+    const code = hotp(base32Decode(secret), totpStep());
+    const res = await service.loginTwoFactor(first.challengeToken, code);
+    expect(jwt.verify(res.access_token).sub).toBe('u1');
+    expect(prisma.authSession.create).toHaveBeenCalledTimes(1);
+  });
+
+  it('refresh rota el token: el nuevo reemplaza al viejo en la misma sesión', async () => {
+    prisma.authSession.findUnique.mockResolvedValue(activeSession());
+    prisma.authSession.updateMany.mockResolvedValue({ count: 1 });
+
+    const res = await service.refresh('viejo');
+
+    expect(res.refresh_token).not.toBe('viejo');
+    expect(prisma.authSession.updateMany).toHaveBeenCalledWith({
+      where: { id: 's1', tokenHash: hash('viejo'), revokedAt: null },
+      data: expect.objectContaining({ tokenHash: hash(res.refresh_token) }),
+    });
+    expect(jwt.verify(res.access_token).sid).toBe('s1');
+  });
+
+  it('refresh rechaza tokens revocados, vencidos o ya rotados', async () => {
+    prisma.authSession.findUnique.mockResolvedValue(
+      activeSession({ revokedAt: new Date() }),
+    );
+    await expect(service.refresh('t')).rejects.toThrow(UnauthorizedException);
+
+    prisma.authSession.findUnique.mockResolvedValue(
+      activeSession({ expiresAt: new Date(Date.now() - 1000) }),
+    );
+    await expect(service.refresh('t')).rejects.toThrow(UnauthorizedException);
+
+    // Carrera: otro pedido rotó el mismo token primero
+    prisma.authSession.findUnique.mockResolvedValue(activeSession());
+    prisma.authSession.updateMany.mockResolvedValue({ count: 0 });
+    await expect(service.refresh('t')).rejects.toThrow(UnauthorizedException);
+  });
+
+  it('logout revoca la sesión del token', async () => {
+    prisma.authSession.updateMany.mockResolvedValue({ count: 1 });
+    await service.logout('tok');
+    expect(prisma.authSession.updateMany).toHaveBeenCalledWith({
+      where: { tokenHash: hash('tok'), revokedAt: null },
+      data: { revokedAt: expect.any(Date) },
+    });
+  });
+
+  it('lista mis sesiones marcando la actual y solo revoca las propias', async () => {
+    prisma.authSession.findMany.mockResolvedValue([{ id: 's1' }, { id: 's2' }]);
+    await expect(sessions.list('u1', 's2')).resolves.toEqual([
+      { id: 's1', current: false },
+      { id: 's2', current: true },
+    ]);
+
+    prisma.authSession.updateMany.mockResolvedValue({ count: 0 });
+    await expect(sessions.revoke('u1', 'ajena')).rejects.toThrow(
+      NotFoundException,
+    );
+    expect(prisma.authSession.updateMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { id: 'ajena', userId: 'u1', revokedAt: null },
+      }),
+    );
+  });
+});
@@ -2,12 +2,26 @@ import { Injectable, UnauthorizedException } from '@nestjs/common';
 import { UsersService } from '../users/users.service';
 import * as bcrypt from 'bcrypt';
 import { JwtService } from '@nestjs/jwt';
+import { SessionMeta, SessionsService } from './sessions.service';
+import { LoginThrottleService } from './login-throttle.service';
+import { TwoFactorService } from './two-factor.service';
+
+type TokenUser = { id: string; email: string; name: string; role: string };
+
+// Segundos para completar el segundo paso después de la contraseña
+const TWO_FACTOR_CHALLENGE_TTL = 300;
+
+// Firma aparte: un challenge nunca pasa por access token (ni al revés)
+const challengeSecret = () => `${process.env.JWT_SECRET ?? ''}:2fa-challenge`;
 
 @Injectable()
 export class AuthService {
   constructor(
     private users: UsersService,
     private jwt: JwtService,
+    private sessions: SessionsService,
+    private throttle: LoginThrottleService,
+    private twoFactor: TwoFactorService,
   ) {}
 
   async validateUser(email: string, pass: string) {
@@ -18,11 +32,88 @@ export class AuthService {
     return user;
   }
 
-  async login(email: string, password: string) {
-    const user = await this.validateUser(email, password);
-    const payload = { sub: user.id, email: user.email, role: user.role };
+  /**
+   * Con 2FA activa, la contraseña correcta no abre sesión: devuelve un
+   * challenge corto que se canjea en `loginTwoFactor` junto con el código.
+   */
+  async login(email: string, password: string, meta?: SessionMeta) {
+    await this.throttle.assertAllowed(email, meta?.ip);
+    const user = await this.validateUser(email, password).catch(async (e) => {
+      if (e instanceof UnauthorizedException) {
+        await this.throttle.recordFailure(email, meta?.ip);
+      }
+      throw e;
+    });
+    if (user.totpEnabledAt) {
+      const challengeToken = await this.jwt.signAsync(
+        { sub: user.id, typ: '2fa' },
+        { secret: challengeSecret(), expiresIn: TWO_FACTOR_CHALLENGE_TTL },
+      );
+      return { twoFactorRequired: true as const, challengeToken };
+    }
+    await this.throttle.recordSuccess(email);
+    const { session, refreshToken } = await this.sessions.create(user.id, meta);
+    return this.issueTokens(user, session.id, refreshToken);
+  }
+
+  /** Segundo paso: código TOTP o de respaldo; los fallos cuentan como login */
+  async loginTwoFactor(
+    challengeToken: string,
+    code: string,
+    meta?: SessionMeta,
+  ) {
+    const payload = await this.jwt
+      .verifyAsync<{ sub: string; typ: string }>(challengeToken, {
+        secret: challengeSecret(),
+      })
+      .catch(() => null);
+    if (payload?.typ !== '2fa') {
+      throw new UnauthorizedException(
+        'La verificación venció, volvé a iniciar sesión',
+      );
+    }
+    const user = await this.users.findById(payload.sub);
+    if (!user) throw new UnauthorizedException('Credenciales inválidas');
+
+    await this.throttle.assertAllowed(user.email, meta?.ip);
+    if (!(await this.twoFactor.verifyCode(user.id, code))) {
+      await this.throttle.recordFailure(user.email, meta?.ip);
+      throw new UnauthorizedException('Código de verificación inválido');
+    }
+    await this.throttle.recordSuccess(user.email);
+    const { session, refreshToken } = await this.sessions.create(user.id, meta);
+    return this.issueTokens(user, session.id, refreshToken);
+  }
+
+  /** Rota el refresh token y entrega un access token nuevo */
+  async refresh(refreshToken: string, meta?: SessionMeta) {
+    const { session, refreshToken: next } = await this.sessions.rotate(
+      refreshToken,
+      meta,
+    );
+    const user = await this.users.findById(session.userId);
+    if (!user) throw new UnauthorizedException('Sesión vencida o cerrada');
+    return this.issueTokens(user, session.id, next);
+  }
+
+  async logout(refreshToken: string) {
+    await this.sessions.revokeByToken(refreshToken);
+  }
+
+  private async issueTokens(
+    user: TokenUser,
+    sessionId: string,
+    refreshToken: string,
+  ) {
+    const payload = {
+      sub: user.id,
+      email: user.email,
+      role: user.role,
+      sid: sessionId,
+    };
     return {
       access_token: await this.jwt.signAsync(payload),
+      refresh_token: refreshToken,
       user: {
         id: user.id,
         email: user.email,
@@ -0,0 +1,24 @@
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+
+// Código de la app (6 dígitos) o de respaldo (XXXXX-XXXXX)
+export class TwoFactorCodeDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(20)
+  code: string;
+}
+
+// POST /api/auth/login/2fa  { challengeToken, code }
+export class TwoFactorLoginDto extends TwoFactorCodeDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(1000)
+  challengeToken: string;
+}
+
+// POST /api/auth/2fa/disable  { password, code }
+export class DisableTwoFactorDto extends TwoFactorCodeDto {
+  @IsString()
+  @IsNotEmpty()
+  password: string;
+}
@@ -1,5 +1,49 @@
-import { Injectable } from '@nestjs/common';
+import {
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
 import { AuthGuard } from '@nestjs/passport';
+import {
+  AccessTokensService,
+  isAccessToken,
+} from '../access-tokens/access-tokens.service';
+import { CAPABILITY_KEY, CapabilityRequirement } from '../policy/capabilities';
 
+/**
+ * JWT de sesión (JwtStrategy) o token de acceso personal. Los tokens solo
+ * entran a rutas marcadas con RequireCapability(..., { accessToken: true });
+ * el proyecto y los alcances los controla ProjectCapabilityGuard.
+ */
 @Injectable()
-export class JwtAuthGuard extends AuthGuard('jwt') {}
+export class JwtAuthGuard extends AuthGuard('jwt') {
+  constructor(
+    private reflector: Reflector,
+    private accessTokens: AccessTokensService,
+  ) {
+    super();
+  }
+
+  async canActivate(ctx: ExecutionContext): Promise<boolean> {
+    const req = ctx.switchToHttp().getRequest();
+    const bearer = /^Bearer (\S+)$/i.exec(
+      req.headers?.authorization ?? '',
+    )?.[1];
+    if (!isAccessToken(bearer)) {
+      return super.canActivate(ctx) as Promise<boolean>;
+    }
+
+    req.user = await this.accessTokens.authenticate(bearer);
+    const requirement = this.reflector.getAllAndOverride<CapabilityRequirement>(
+      CAPABILITY_KEY,
+      [ctx.getHandler(), ctx.getClass()],
+    );
+    if (!requirement?.accessToken) {
+      throw new ForbiddenException(
+        'Esta ruta no acepta tokens de acceso personal',
+      );
+    }
+    return true;
+  }
+}
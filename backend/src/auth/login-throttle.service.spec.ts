@@ -0,0 +1,112 @@
+import {
+  LoginLockedException,
+  LoginThrottleService,
+  lockoutMs,
+} from './login-throttle.service';
+
+describe('LoginThrottleService', () => {
+  const fail = (s: LoginThrottleService, email: string, ip?: string) =>
+    s.recordFailure(email, ip).catch((e: unknown) => e);
+
+  afterEach(() => jest.useRealTimers());
+
+  it('duplica el bloqueo con cada fallo extra hasta el tope', () => {
+    expect(lockoutMs(4, 5)).toBe(0);
+    expect(lockoutMs(5, 5)).toBe(30_000);
+    expect(lockoutMs(6, 5)).toBe(60_000);
+    expect(lockoutMs(7, 5)).toBe(120_000);
+    expect(lockoutMs(50, 5)).toBe(15 * 60_000);
+  });
+
+  describe('sin Redis (memoria)', () => {
+    let throttle: LoginThrottleService;
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+      throttle = new LoginThrottleService({ status: 'reconnecting' } as never);
+    });
+
+    it('bloquea el email al quinto fallo y libera cuando vence', async () => {
+      for (let i = 0; i < 4; i++) {
+        await expect(
+          throttle.recordFailure('ana@test.com'),
+        ).resolves.toBeUndefined();
+      }
+      expect(await fail(throttle, 'ana@test.com')).toBeInstanceOf(
+        LoginLockedException,
+      );
+      await expect(throttle.assertAllowed('ANA@test.com')).rejects.toThrow(
+        LoginLockedException,
+      );
+
+      jest.advanceTimersByTime(30_000);
+      await expect(throttle.assertAllowed('ana@test.com')).resolves.toBe(
+        undefined,
+      );
+
+      // El siguiente fallo ya bloquea el doble
+      const locked = (await fail(
+        throttle,
+        'ana@test.com',
+      )) as LoginLockedException;
+      expect(locked.retryAfter).toBe(60);
+    });
+
+    it('un login correcto limpia el email pero no la IP', async () => {
+      for (let i = 0; i < 4; i++)
+        await fail(throttle, 'ana@test.com', '1.1.1.1');
+      await throttle.recordSuccess('ana@test.com');
+
+      await expect(
+        throttle.recordFailure('ana@test.com', '1.1.1.1'),
+      ).resolves.toBeUndefined();
+
+      // 20 fallos desde la misma IP (con emails distintos) la bloquean
+      for (let i = 0; i < 15; i++)
+        await fail(throttle, `u${i}@test.com`, '1.1.1.1');
+      await expect(
+        throttle.assertAllowed('otro@test.com', '1.1.1.1'),
+      ).rejects.toThrow(LoginLockedException);
+      await expect(
+        throttle.assertAllowed('otro@test.com', '2.2.2.2'),
+      ).resolves.toBeUndefined();
+    });
+  });
+
+  it('con Redis listo guarda contadores y bloqueos allí', async () => {
+    const exec = jest.fn().mockResolvedValue([[null, 5]]);
+    const redis = {
+      status: 'ready',
+      multi: jest.fn(() => ({
+        incr: jest.fn().mockReturnThis(),
+        pexpire: jest.fn().mockReturnThis(),
+        exec,
+      })),
+      set: jest.fn(),
+      pttl: jest.fn().mockResolvedValue(12_300),
+      del: jest.fn(),
+    };
+    const throttle = new LoginThrottleService(redis as never);
+
+    expect(await fail(throttle, 'ana@test.com')).toBeInstanceOf(
+      LoginLockedException,
+    );
+    expect(redis.set).toHaveBeenCalledWith(
+      'login:email:ana@test.com:lock',
+      '1',
+      'PX',
+      30_000,
+    );
+
+    const locked = await throttle
+      .assertAllowed('ana@test.com')
+      .catch((e: LoginLockedException) => e);
+    expect(locked?.retryAfter).toBe(13);
+
+    await throttle.recordSuccess('ana@test.com');
+    expect(redis.del).toHaveBeenCalledWith(
+      'login:email:ana@test.com:fails',
+      'login:email:ana@test.com:lock',
+    );
+  });
+});
@@ -0,0 +1,75 @@
+// src/auth/login-throttle.service.ts
+import { Inject, Injectable } from '@nestjs/common';
+import type Redis from 'ioredis';
+import {
+  AttemptThrottle,
+  TooManyAttemptsException,
+  type ThrottleScope,
+  type ThrottleTimes,
+  backoffMs,
+} from '../common/attempt-throttle';
+
+// Fallos libres antes de bloquear (por email y por IP)
+const MAX_ATTEMPTS = Number(process.env.LOGIN_MAX_ATTEMPTS ?? 5);
+const IP_MAX_ATTEMPTS = Number(process.env.LOGIN_IP_MAX_ATTEMPTS ?? 20);
+// Primer bloqueo; cada fallo extra lo duplica hasta el tope
+const LOCKOUT_BASE_MS =
+  Number(process.env.LOGIN_LOCKOUT_BASE_SECONDS ?? 30) * 1000;
+const LOCKOUT_MAX_MS =
+  Number(process.env.LOGIN_LOCKOUT_MAX_MINUTES ?? 15) * 60_000;
+// Cuánto se recuerdan los fallos sin actividad
+const ATTEMPT_WINDOW_MS =
+  Number(process.env.LOGIN_ATTEMPT_WINDOW_MINUTES ?? 60) * 60_000;
+
+const LOGIN_TIMES: ThrottleTimes = {
+  baseMs: LOCKOUT_BASE_MS,
+  maxMs: LOCKOUT_MAX_MS,
+  windowMs: ATTEMPT_WINDOW_MS,
+};
+
+/** 429 del login (el controller agrega `Retry-After`) */
+export class LoginLockedException extends TooManyAttemptsException {}
+
+/** Bloqueo tras `max` fallos: base, 2×base, 4×base… hasta el tope */
+export const lockoutMs = (failures: number, max: number) =>
+  backoffMs(failures, max, LOGIN_TIMES);
+
+/**
+ * Frena la fuerza bruta sobre POST /auth/login contando fallos por email y
+ * por IP (ver AttemptThrottle).
+ */
+@Injectable()
+export class LoginThrottleService extends AttemptThrottle {
+  constructor(@Inject('REDIS_PUB') redis: Redis) {
+    super(redis, LOGIN_TIMES);
+  }
+
+  /** Tira 429 si el email o la IP están bloqueados */
+  async assertAllowed(email: string, ip?: string | null) {
+    const wait = await this.remaining(this.scopes(email, ip));
+    if (wait > 0) throw new LoginLockedException(Math.ceil(wait / 1000));
+  }
+
+  /**
+   * Suma un fallo. Si con este se pasa del límite, bloquea y tira el 429
+   * en el acto (así el cliente ve la cuenta regresiva sin otro intento).
+   */
+  async recordFailure(email: string, ip?: string | null) {
+    const wait = await this.fail(this.scopes(email, ip));
+    if (wait > 0) throw new LoginLockedException(Math.ceil(wait / 1000));
+  }
+
+  /** Login correcto: se olvidan los fallos del email (los de la IP siguen) */
+  async recordSuccess(email: string) {
+    await this.reset(this.emailKey(email));
+  }
+
+  private emailKey = (email: string) =>
+    `login:email:${email.trim().toLowerCase()}`;
+
+  private scopes(email: string, ip?: string | null): ThrottleScope[] {
+    const scopes = [{ key: this.emailKey(email), max: MAX_ATTEMPTS }];
+    if (ip) scopes.push({ key: `login:ip:${ip}`, max: IP_MAX_ATTEMPTS });
+    return scopes;
+  }
+}
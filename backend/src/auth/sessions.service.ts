@@ -0,0 +1,127 @@
+// src/auth/sessions.service.ts
+import {
+  Injectable,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { createHash, randomBytes } from 'crypto';
+import { PrismaService } from '../common/prisma.service';
+
+// Días que dura un refresh token sin usarse (cada uso lo renueva)
+export const REFRESH_TOKEN_TTL_MS =
+  Number(process.env.REFRESH_TOKEN_TTL_DAYS ?? 30) * 86_400_000;
+
+const hashToken = (token: string) =>
+  createHash('sha256').update(token).digest('hex');
+
+/** Dispositivo desde el que se inicia o renueva la sesión */
+export type SessionMeta = { userAgent?: string | null; ip?: string | null };
+
+const SESSION_SELECT = {
+  id: true,
+  userAgent: true,
+  ip: true,
+  createdAt: true,
+  lastUsedAt: true,
+  expiresAt: true,
+} as const;
+
+@Injectable()
+export class SessionsService {
+  constructor(private prisma: PrismaService) {}
+
+  /** Nueva sesión (login); el token en claro solo viaja en la respuesta */
+  async create(userId: string, meta: SessionMeta = {}) {
+    const now = new Date();
+    // Limpieza oportunista de las sesiones muertas del usuario
+    await this.prisma.authSession.deleteMany({
+      where: {
+        userId,
+        OR: [{ expiresAt: { lte: now } }, { revokedAt: { not: null } }],
+      },
+    });
+
+    const refreshToken = randomBytes(32).toString('base64url');
+    const session = await this.prisma.authSession.create({
+      data: {
+        userId,
+        tokenHash: hashToken(refreshToken),
+        userAgent: meta.userAgent ?? null,
+        ip: meta.ip ?? null,
+        expiresAt: new Date(now.getTime() + REFRESH_TOKEN_TTL_MS),
+      },
+      select: { id: true, userId: true },
+    });
+    return { session, refreshToken };
+  }
+
+  /**
+   * Cambia el refresh token por uno nuevo en la misma sesión. El update es
+   * condicional al hash viejo: si dos pedidos usan el mismo token, gana uno.
+   */
+  async rotate(refreshToken: string, meta: SessionMeta = {}) {
+    const now = new Date();
+    const tokenHash = hashToken(refreshToken);
+    const session = await this.prisma.authSession.findUnique({
+      where: { tokenHash },
+      select: { id: true, userId: true, revokedAt: true, expiresAt: true },
+    });
+    if (!session || session.revokedAt || session.expiresAt <= now) {
+      throw new UnauthorizedException('Sesión vencida o cerrada');
+    }
+
+    const next = randomBytes(32).toString('base64url');
+    const { count } = await this.prisma.authSession.updateMany({
+      where: { id: session.id, tokenHash, revokedAt: null },
+      data: {
+        tokenHash: hashToken(next),
+        lastUsedAt: now,
+        expiresAt: new Date(now.getTime() + REFRESH_TOKEN_TTL_MS),
+        ...(meta.userAgent && { userAgent: meta.userAgent }),
+        ...(meta.ip && { ip: meta.ip }),
+      },
+    });
+    if (!count) throw new UnauthorizedException('Sesión vencida o cerrada');
+
+    return {
+      session: { id: session.id, userId: session.userId },
+      refreshToken: next,
+    };
+  }
+
+  /** Logout: cierra la sesión del token (idempotente) */
+  async revokeByToken(refreshToken: string) {
+    await this.prisma.authSession.updateMany({
+      where: { tokenHash: hashToken(refreshToken), revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+  }
+
+  /** Sesiones abiertas del usuario (más reciente primero) */
+  async list(userId: string, currentSessionId?: string) {
+    const sessions = await this.prisma.authSession.findMany({
+      where: { userId, revokedAt: null, expiresAt: { gt: new Date() } },
+      orderBy: { lastUsedAt: 'desc' },
+      select: SESSION_SELECT,
+    });
+    return sessions.map((s) => ({ ...s, current: s.id === currentSessionId }));
+  }
+
+  /** Cierra una sesión propia (p. ej. un dispositivo perdido) */
+  async revoke(userId: string, sessionId: string) {
+    const { count } = await this.prisma.authSession.updateMany({
+      where: { id: sessionId, userId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+    if (!count) throw new NotFoundException('Sesión no encontrada');
+  }
+
+  /** Lo consulta el JwtStrategy en cada request con `sid` */
+  async isActive(sessionId: string) {
+    const s = await this.prisma.authSession.findUnique({
+      where: { id: sessionId },
+      select: { revokedAt: true, expiresAt: true },
+    });
+    return !!s && !s.revokedAt && s.expiresAt > new Date();
+  }
+}
@@ -0,0 +1,52 @@
+import {
+  base32Decode,
+  base32Encode,
+  hotp,
+  otpauthUrl,
+  totpStep,
+  verifyTotp,
+} from './totp';
+
+// Semilla SHA1 del apéndice B de la RFC 6238 ("12345678901234567890")
+const RFC_SEED = Buffer.from('12345678901234567890');
+const RFC_SECRET = base32Encode(RFC_SEED);
+
+describe('TOTP (RFC 6238)', () => {
+  it.each([
+    [59, '94287082'],
+    [1111111109, '07081804'],
+    [1111111111, '14050471'],
+    [1234567890, '89005924'],
+    [2000000000, '69279037'],
+    [20000000000, '65353130'],
+  ])('vector de prueba T=%i → %s', (seconds, expected) => {
+    expect(hotp(RFC_SEED, totpStep(seconds * 1000), 8)).toBe(expected);
+  });
+
+  it('base32 ida y vuelta (con espacios y minúsculas)', () => {
+    expect(RFC_SECRET).toBe('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+    expect(base32Decode('gezd gnbv gy3t qojq gezd gnbv gy3t qojq')).toEqual(
+      RFC_SEED,
+    );
+  });
+
+  it('acepta un paso de desfase y devuelve el paso que coincidió', () => {
+    const now = 1111111109 * 1000;
+    const step = totpStep(now);
+    const prev = hotp(RFC_SEED, step - 1);
+
+    expect(verifyTotp(RFC_SECRET, '081804', now)).toBe(step);
+    expect(verifyTotp(RFC_SECRET, prev, now)).toBe(step - 1);
+    expect(verifyTotp(RFC_SECRET, hotp(RFC_SEED, step - 2), now)).toBeNull();
+    expect(verifyTotp(RFC_SECRET, '12345', now)).toBeNull();
+  });
+
+  it('arma la URI otpauth para la app', () => {
+    const url = otpauthUrl(RFC_SECRET, 'ana@test.com', 'UML Editor');
+    expect(url).toMatch(/^otpauth:\/\/totp\/UML%20Editor%3Aana%40test\.com\?/);
+    const params = new URL(url).searchParams;
+    expect(params.get('secret')).toBe(RFC_SECRET);
+    expect(params.get('issuer')).toBe('UML Editor');
+    expect(params.get('digits')).toBe('6');
+  });
+});
@@ -0,0 +1,93 @@
+// src/auth/totp.ts
+// TOTP (RFC 6238) sobre HOTP (RFC 4226) con HMAC-SHA1, 6 dígitos y pasos de
+// 30 s: lo que esperan Google Authenticator, 1Password, Authy, etc.
+import { createHmac, randomBytes } from 'crypto';
+
+export const TOTP_PERIOD_SECONDS = 30;
+export const TOTP_DIGITS = 6;
+
+const BASE32 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export function base32Encode(buf: Buffer) {
+  let bits = 0;
+  let value = 0;
+  let out = '';
+  for (const byte of buf) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      out += BASE32[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) out += BASE32[(value << (5 - bits)) & 31];
+  return out;
+}
+
+export function base32Decode(input: string) {
+  const clean = input.toUpperCase().replace(/[\s=-]/g, '');
+  let bits = 0;
+  let value = 0;
+  const out: number[] = [];
+  for (const ch of clean) {
+    const idx = BASE32.indexOf(ch);
+    if (idx < 0) throw new Error(`Carácter base32 inválido: ${ch}`);
+    value = (value << 5) | idx;
+    bits += 5;
+    if (bits >= 8) {
+      out.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(out);
+}
+
+/** Secreto nuevo en base32 (160 bits, lo que recomienda la RFC 4226) */
+export const generateTotpSecret = () => base32Encode(randomBytes(20));
+
+/** HOTP: código de `digits` dígitos para un contador */
+export function hotp(key: Buffer, counter: number, digits = TOTP_DIGITS) {
+  const msg = Buffer.alloc(8);
+  msg.writeBigUInt64BE(BigInt(counter));
+  const mac = createHmac('sha1', key).update(msg).digest();
+  const offset = mac[mac.length - 1] & 0xf;
+  const bin = mac.readUInt32BE(offset) & 0x7fffffff;
+  return String(bin % 10 ** digits).padStart(digits, '0');
+}
+
+/** Paso de 30 s al que corresponde un instante */
+export const totpStep = (now = Date.now()) =>
+  Math.floor(now / 1000 / TOTP_PERIOD_SECONDS);
+
+/**
+ * Verifica un código aceptando `window` pasos de desfase de reloj a cada
+ * lado. Devuelve el paso que coincidió (para no aceptarlo dos veces) o null.
+ */
+export function verifyTotp(
+  secret: string,
+  code: string,
+  now = Date.now(),
+  window = 1,
+): number | null {
+  const clean = code.replace(/\s/g, '');
+  if (!new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(clean)) return null;
+  const key = base32Decode(secret);
+  const current = totpStep(now);
+  for (let delta = -window; delta <= window; delta++) {
+    if (hotp(key, current + delta) === clean) return current + delta;
+  }
+  return null;
+}
+
+/** URI para dar de alta la cuenta en la app (QR o link directo) */
+export function otpauthUrl(secret: string, account: string, issuer: string) {
+  const label = encodeURIComponent(`${issuer}:${account}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
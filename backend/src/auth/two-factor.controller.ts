@@ -0,0 +1,57 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Post,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import { JwtAuthGuard } from './jwt.guard';
+import { TwoFactorService } from './two-factor.service';
+import { DisableTwoFactorDto, TwoFactorCodeDto } from './dto/two-factor.dto';
+
+@UseGuards(JwtAuthGuard)
+@Controller('auth/2fa')
+export class TwoFactorController {
+  constructor(private readonly twoFactor: TwoFactorService) {}
+
+  // GET /api/auth/2fa → { enabled, enabledAt, backupCodesLeft }
+  @Get()
+  async status(@Req() req: any) {
+    const userId: string = req.user.id;
+    return this.twoFactor.status(userId);
+  }
+
+  // POST /api/auth/2fa/setup → { secret, otpauthUrl } (queda pendiente)
+  @Post('setup')
+  async setup(@Req() req: any) {
+    const userId: string = req.user.id;
+    return this.twoFactor.setup(userId);
+  }
+
+  // POST /api/auth/2fa/enable  { code } → { backupCodes }
+  @Post('enable')
+  @HttpCode(HttpStatus.OK)
+  async enable(@Req() req: any, @Body() dto: TwoFactorCodeDto) {
+    const userId: string = req.user.id;
+    return this.twoFactor.enable(userId, dto.code);
+  }
+
+  // POST /api/auth/2fa/disable  { password, code }
+  @Post('disable')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async disable(@Req() req: any, @Body() dto: DisableTwoFactorDto) {
+    const userId: string = req.user.id;
+    await this.twoFactor.disable(userId, dto.password, dto.code);
+  }
+
+  // POST /api/auth/2fa/backup-codes  { code } → { backupCodes } nuevos
+  @Post('backup-codes')
+  @HttpCode(HttpStatus.OK)
+  async regenerateBackupCodes(@Req() req: any, @Body() dto: TwoFactorCodeDto) {
+    const userId: string = req.user.id;
+    return this.twoFactor.regenerateBackupCodes(userId, dto.code);
+  }
+}
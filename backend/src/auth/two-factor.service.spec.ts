@@ -0,0 +1,170 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import * as bcrypt from 'bcrypt';
+import { createHash } from 'crypto';
+import { TwoFactorService } from './two-factor.service';
+import { base32Decode, hotp, totpStep } from './totp';
+import { PrismaService } from '../common/prisma.service';
+
+const hash = (t: string) => createHash('sha256').update(t).digest('hex');
+
+describe('TwoFactorService', () => {
+  let service: TwoFactorService;
+  const prisma = {
+    user: { findUnique: jest.fn(), update: jest.fn(), updateMany: jest.fn() },
+    twoFactorBackupCode: {
+      count: jest.fn(),
+      createMany: jest.fn(),
+      deleteMany: jest.fn(),
+      updateMany: jest.fn(),
+    },
+  };
+  // Reloj fijo: los códigos salen del mismo instante que usa el servicio
+  const NOW = Date.UTC(2026, 9, 20, 12, 0, 0);
+  const SECRET = 'JBSWY3DPEHPK3PXP';
+  const codeAt = (now: number) => hotp(base32Decode(SECRET), totpStep(now));
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TwoFactorService,
+        { provide: PrismaService, useValue: prisma },
+      ],
+    }).compile();
+    service = module.get(TwoFactorService);
+  });
+
+  it('setup genera un secreto pendiente y la URI otpauth', async () => {
+    prisma.user.findUnique.mockResolvedValue({
+      email: 'ana@test.com',
+      totpEnabledAt: null,
+    });
+
+    const { secret, otpauthUrl } = await service.setup('u1');
+
+    expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+    expect(otpauthUrl).toContain(`secret=${secret}`);
+    expect(prisma.user.update).toHaveBeenCalledWith({
+      where: { id: 'u1' },
+      data: { totpSecret: secret, totpLastStep: null },
+    });
+  });
+
+  it('enable exige un código válido y entrega 10 códigos de respaldo', async () => {
+    prisma.user.findUnique.mockResolvedValue({
+      totpSecret: SECRET,
+      totpEnabledAt: null,
+    });
+
+    await expect(service.enable('u1', '000000', NOW)).rejects.toThrow(
+      BadRequestException,
+    );
+
+    const { backupCodes } = await service.enable('u1', codeAt(NOW), NOW);
+
+    expect(prisma.user.update).toHaveBeenCalledWith({
+      where: { id: 'u1' },
+      data: { totpEnabledAt: new Date(NOW), totpLastStep: totpStep(NOW) },
+    });
+    expect(backupCodes).toHaveLength(10);
+    expect(backupCodes[0]).toMatch(/^[A-Z2-7]{5}-[A-Z2-7]{5}$/);
+    const { data } = prisma.twoFactorBackupCode.createMany.mock.calls[0][0];
+    expect(data[0]).toEqual({
+      userId: 'u1',
+      codeHash: hash(backupCodes[0].replace('-', '')),
+    });
+  });
+
+  describe('verifyCode', () => {
+    beforeEach(() => {
+      prisma.user.findUnique.mockResolvedValue({
+        totpSecret: SECRET,
+        totpEnabledAt: new Date(NOW),
+      });
+    });
+
+    it('no acepta dos veces el mismo paso', async () => {
+      prisma.user.updateMany.mockResolvedValue({ count: 1 });
+      await expect(service.verifyCode('u1', codeAt(NOW), NOW)).resolves.toBe(
+        true,
+      );
+      expect(prisma.user.updateMany).toHaveBeenCalledWith({
+        where: {
+          id: 'u1',
+          OR: [{ totpLastStep: null }, { totpLastStep: { lt: totpStep(NOW) } }],
+        },
+        data: { totpLastStep: totpStep(NOW) },
+      });
+
+      // Ya usado: el update condicional no encuentra la fila
+      prisma.user.updateMany.mockResolvedValue({ count: 0 });
+      await expect(service.verifyCode('u1', codeAt(NOW), NOW)).resolves.toBe(
+        false,
+      );
+    });
+
+    it('acepta un código de respaldo normalizado, una sola vez', async () => {
+      prisma.twoFactorBackupCode.updateMany.mockResolvedValue({ count: 1 });
+      await expect(
+        service.verifyCode('u1', ' abcde-fghij ', NOW),
+      ).resolves.toBe(true);
+      expect(prisma.twoFactorBackupCode.updateMany).toHaveBeenCalledWith({
+        where: { userId: 'u1', codeHash: hash('ABCDEFGHIJ'), usedAt: null },
+        data: { usedAt: new Date(NOW) },
+      });
+
+      prisma.twoFactorBackupCode.updateMany.mockResolvedValue({ count: 0 });
+      await expect(service.verifyCode('u1', 'ABCDE-FGHIJ', NOW)).resolves.toBe(
+        false,
+      );
+    });
+
+    it('sin 2FA activa no valida nada', async () => {
+      prisma.user.findUnique.mockResolvedValue({
+        totpSecret: SECRET,
+        totpEnabledAt: null,
+      });
+      await expect(service.verifyCode('u1', codeAt(NOW), NOW)).resolves.toBe(
+        false,
+      );
+      expect(prisma.user.updateMany).not.toHaveBeenCalled();
+    });
+  });
+
+  it('disable pide la contraseña además del código', async () => {
+    prisma.user.findUnique.mockResolvedValue({
+      passwordHash: bcrypt.hashSync('secreto1', 4),
+      totpSecret: SECRET,
+      totpEnabledAt: new Date(),
+    });
+    prisma.twoFactorBackupCode.updateMany.mockResolvedValue({ count: 1 });
+
+    await expect(
+      service.disable('u1', 'incorrecta', 'ABCDE-FGHIJ'),
+    ).rejects.toThrow(BadRequestException);
+    expect(prisma.user.update).not.toHaveBeenCalled();
+
+    await service.disable('u1', 'secreto1', 'ABCDE-FGHIJ');
+    expect(prisma.user.update).toHaveBeenCalledWith({
+      where: { id: 'u1' },
+      data: { totpSecret: null, totpEnabledAt: null, totpLastStep: null },
+    });
+    expect(prisma.twoFactorBackupCode.deleteMany).toHaveBeenCalledWith({
+      where: { userId: 'u1' },
+    });
+  });
+
+  it('un código incorrecto con sesión válida es 400, no 401', async () => {
+    prisma.user.findUnique.mockResolvedValue({
+      totpSecret: SECRET,
+      totpEnabledAt: new Date(),
+    });
+    prisma.twoFactorBackupCode.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(
+      service.regenerateBackupCodes('u1', 'ZZZZZ-ZZZZZ'),
+    ).rejects.toThrow(BadRequestException);
+    expect(prisma.twoFactorBackupCode.createMany).not.toHaveBeenCalled();
+  });
+});
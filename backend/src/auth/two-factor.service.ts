@@ -0,0 +1,188 @@
+// src/auth/two-factor.service.ts
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import * as bcrypt from 'bcrypt';
+import { createHash, randomBytes } from 'crypto';
+import { PrismaService } from '../common/prisma.service';
+import {
+  base32Encode,
+  generateTotpSecret,
+  otpauthUrl,
+  verifyTotp,
+} from './totp';
+
+// Nombre con el que aparece la cuenta en la app autenticadora
+const TOTP_ISSUER = process.env.TOTP_ISSUER ?? 'UML Editor';
+const BACKUP_CODE_COUNT = 10;
+
+const hashCode = (code: string) =>
+  createHash('sha256').update(code).digest('hex');
+
+/** "abcde-12345" y "ABCDE12345" son el mismo código de respaldo */
+const normalizeBackupCode = (code: string) =>
+  code.toUpperCase().replace(/[\s-]/g, '');
+
+const newBackupCode = () => {
+  const raw = base32Encode(randomBytes(7)).slice(0, 10);
+  return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+};
+
+const INVALID_CODE = 'Código de verificación inválido';
+
+/**
+ * Verificación en dos pasos opcional: TOTP con app autenticadora y códigos
+ * de respaldo de un solo uso. El alta es en dos pasos (setup → enable) para
+ * no activarla hasta comprobar que la app genera códigos correctos.
+ */
+@Injectable()
+export class TwoFactorService {
+  constructor(private prisma: PrismaService) {}
+
+  async status(userId: string) {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { totpEnabledAt: true },
+    });
+    if (!user) throw new NotFoundException('Usuario no encontrado');
+    const backupCodesLeft = user.totpEnabledAt
+      ? await this.prisma.twoFactorBackupCode.count({
+          where: { userId, usedAt: null },
+        })
+      : 0;
+    return {
+      enabled: !!user.totpEnabledAt,
+      enabledAt: user.totpEnabledAt,
+      backupCodesLeft,
+    };
+  }
+
+  /** Secreto nuevo (pendiente); rehacer el setup reemplaza el anterior */
+  async setup(userId: string) {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { email: true, totpEnabledAt: true },
+    });
+    if (!user) throw new NotFoundException('Usuario no encontrado');
+    if (user.totpEnabledAt) {
+      throw new BadRequestException(
+        'La verificación en dos pasos ya está activa',
+      );
+    }
+
+    const secret = generateTotpSecret();
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: { totpSecret: secret, totpLastStep: null },
+    });
+    return { secret, otpauthUrl: otpauthUrl(secret, user.email, TOTP_ISSUER) };
+  }
+
+  /** Confirma el setup con un código de la app y entrega los de respaldo */
+  async enable(userId: string, code: string, now = Date.now()) {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { totpSecret: true, totpEnabledAt: true },
+    });
+    if (!user?.totpSecret || user.totpEnabledAt) {
+      throw new BadRequestException(
+        'No hay una configuración de 2FA pendiente',
+      );
+    }
+    const step = verifyTotp(user.totpSecret, code, now);
+    if (step === null) throw new BadRequestException(INVALID_CODE);
+
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: { totpEnabledAt: new Date(now), totpLastStep: step },
+    });
+    return { backupCodes: await this.replaceBackupCodes(userId) };
+  }
+
+  /** Apagar 2FA pide contraseña y un código (TOTP o de respaldo) */
+  async disable(userId: string, password: string, code: string) {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { passwordHash: true, totpEnabledAt: true },
+    });
+    if (!user) throw new NotFoundException('Usuario no encontrado');
+    if (!user.totpEnabledAt) {
+      throw new BadRequestException(
+        'La verificación en dos pasos no está activa',
+      );
+    }
+    // 400 y no 401: con sesión válida, un 401 haría que el cliente renueve
+    // el token y reintente con los mismos datos
+    if (!(await bcrypt.compare(password, user.passwordHash))) {
+      throw new BadRequestException('La contraseña no coincide');
+    }
+    if (!(await this.verifyCode(userId, code))) {
+      throw new BadRequestException(INVALID_CODE);
+    }
+
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: { totpSecret: null, totpEnabledAt: null, totpLastStep: null },
+    });
+    await this.prisma.twoFactorBackupCode.deleteMany({ where: { userId } });
+  }
+
+  /** Códigos de respaldo nuevos (los anteriores dejan de servir) */
+  async regenerateBackupCodes(userId: string, code: string) {
+    if (!(await this.verifyCode(userId, code))) {
+      throw new BadRequestException(INVALID_CODE);
+    }
+    return { backupCodes: await this.replaceBackupCodes(userId) };
+  }
+
+  /**
+   * Valida un código del segundo paso: 6 dígitos = TOTP, si no, código de
+   * respaldo. Ambos se consumen con un update condicional (un código no se
+   * acepta dos veces, ni siquiera en pedidos simultáneos).
+   */
+  async verifyCode(userId: string, code: string, now = Date.now()) {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { totpSecret: true, totpEnabledAt: true },
+    });
+    if (!user?.totpSecret || !user.totpEnabledAt) return false;
+
+    const clean = code.trim();
+    if (/^\d{6}$/.test(clean)) {
+      const step = verifyTotp(user.totpSecret, clean, now);
+      if (step === null) return false;
+      const { count } = await this.prisma.user.updateMany({
+        where: {
+          id: userId,
+          OR: [{ totpLastStep: null }, { totpLastStep: { lt: step } }],
+        },
+        data: { totpLastStep: step },
+      });
+      return count > 0;
+    }
+
+    const { count } = await this.prisma.twoFactorBackupCode.updateMany({
+      where: {
+        userId,
+        codeHash: hashCode(normalizeBackupCode(clean)),
+        usedAt: null,
+      },
+      data: { usedAt: new Date(now) },
+    });
+    return count > 0;
+  }
+
+  private async replaceBackupCodes(userId: string) {
+    const codes = Array.from({ length: BACKUP_CODE_COUNT }, newBackupCode);
+    await this.prisma.twoFactorBackupCode.deleteMany({ where: { userId } });
+    await this.prisma.twoFactorBackupCode.createMany({
+      data: codes.map((c) => ({
+        userId,
+        codeHash: hashCode(normalizeBackupCode(c)),
+      })),
+    });
+    return codes;
+  }
+}
@@ -0,0 +1,164 @@
+// src/common/attempt-throttle.ts
+import { HttpException, HttpStatus } from '@nestjs/common';
+import type Redis from 'ioredis';
+
+/** Contador de fallos: `max` libres antes del primer bloqueo */
+export type ThrottleScope = { key: string; max: number };
+
+export type ThrottleTimes = {
+  baseMs: number; // primer bloqueo; cada fallo extra lo duplica
+  maxMs: number; // tope del bloqueo
+  windowMs: number; // cuánto se recuerdan los fallos sin actividad
+};
+
+const MEMORY_SWEEP_SIZE = 10_000;
+
+/** 429 con los segundos que faltan (también van en `Retry-After`) */
+export class TooManyAttemptsException extends HttpException {
+  constructor(
+    readonly retryAfter: number,
+    code?: string,
+  ) {
+    super(
+      {
+        statusCode: HttpStatus.TOO_MANY_REQUESTS,
+        ...(code && { code }),
+        message: `Demasiados intentos fallidos. Intentá de nuevo en ${formatWait(retryAfter)}.`,
+        retryAfter,
+      },
+      HttpStatus.TOO_MANY_REQUESTS,
+    );
+  }
+}
+
+function formatWait(seconds: number) {
+  if (seconds < 60) return `${seconds} s`;
+  const minutes = Math.ceil(seconds / 60);
+  return minutes === 1 ? '1 minuto' : `${minutes} minutos`;
+}
+
+/** Bloqueo tras `max` fallos: base, 2×base, 4×base… hasta el tope */
+export const backoffMs = (
+  failures: number,
+  max: number,
+  { baseMs, maxMs }: ThrottleTimes,
+) => (failures < max ? 0 : Math.min(baseMs * 2 ** (failures - max), maxMs));
+
+/**
+ * Base de los frenos contra fuerza bruta (login, contraseñas de links).
+ * El estado vive en Redis (compartido entre instancias); si Redis no está
+ * listo se usa memoria local, que alcanza para una sola instancia.
+ */
+export abstract class AttemptThrottle {
+  private memory = new Map<string, { value: number; expiresAt: number }>();
+
+  protected constructor(
+    private redis: Redis,
+    private times: ThrottleTimes,
+  ) {}
+
+  /** Milisegundos de bloqueo que quedan en el scope más castigado */
+  protected async remaining(scopes: ThrottleScope[]) {
+    const waits = await Promise.all(
+      scopes.map((s) => this.lockRemaining(s.key)),
+    );
+    return Math.max(0, ...waits);
+  }
+
+  /** Suma un fallo en cada scope; devuelve el bloqueo que dispara (0 = ninguno) */
+  protected async fail(scopes: ThrottleScope[]) {
+    let wait = 0;
+    for (const { key, max } of scopes) {
+      const failures = await this.increment(`${key}:fails`);
+      const ms = backoffMs(failures, max, this.times);
+      if (ms > 0) {
+        await this.lock(key, ms);
+        wait = Math.max(wait, ms);
+      }
+    }
+    return wait;
+  }
+
+  /** Olvida los fallos y el bloqueo de un scope */
+  protected async reset(key: string) {
+    await this.clear([`${key}:fails`, `${key}:lock`]);
+  }
+
+  /** Marca `key` por `ms`; true solo para quien la marca primero */
+  protected async claim(key: string, ms: number) {
+    if (this.useRedis) {
+      return (await this.redis.set(key, '1', 'PX', ms, 'NX')) === 'OK';
+    }
+    const now = Date.now();
+    const entry = this.memory.get(key);
+    if (entry && entry.expiresAt > now) return false;
+    this.remember(key, 1, now + ms);
+    return true;
+  }
+
+  /** Si `key` sigue marcada (ver claim) */
+  protected async claimed(key: string) {
+    if (this.useRedis) return (await this.redis.exists(key)) > 0;
+    const entry = this.memory.get(key);
+    return !!entry && entry.expiresAt > Date.now();
+  }
+
+  // Con `maxRetriesPerRequest: null` ioredis encola sin fin mientras está
+  // caído: solo se le habla si la conexión está lista
+  private get useRedis() {
+    return this.redis?.status === 'ready';
+  }
+
+  private async increment(key: string) {
+    const { windowMs } = this.times;
+    if (this.useRedis) {
+      const res = await this.redis
+        .multi()
+        .incr(key)
+        .pexpire(key, windowMs)
+        .exec();
+      return Number(res?.[0]?.[1] ?? 0);
+    }
+    const now = Date.now();
+    const entry = this.memory.get(key);
+    const value = entry && entry.expiresAt > now ? entry.value + 1 : 1;
+    this.remember(key, value, now + windowMs);
+    return value;
+  }
+
+  private async lock(key: string, ms: number) {
+    if (this.useRedis) {
+      await this.redis.set(`${key}:lock`, '1', 'PX', ms);
+      return;
+    }
+    this.remember(`${key}:lock`, 1, Date.now() + ms);
+  }
+
+  /** Milisegundos de bloqueo que quedan (0 si no hay) */
+  private async lockRemaining(key: string) {
+    if (this.useRedis) {
+      return Math.max(0, await this.redis.pttl(`${key}:lock`));
+    }
+    const entry = this.memory.get(`${key}:lock`);
+    return entry ? Math.max(0, entry.expiresAt - Date.now()) : 0;
+  }
+
+  private async clear(keys: string[]) {
+    if (this.useRedis) {
+      await this.redis.del(...keys);
+      return;
+    }
+    keys.forEach((k) => this.memory.delete(k));
+  }
+
+  private remember(key: string, value: number, expiresAt: number) {
+    if (this.memory.size > MEMORY_SWEEP_SIZE) this.sweep(Date.now());
+    this.memory.set(key, { value, expiresAt });
+  }
+
+  private sweep(now: number) {
+    for (const [k, v] of this.memory) {
+      if (v.expiresAt <= now) this.memory.delete(k);
+    }
+  }
+}
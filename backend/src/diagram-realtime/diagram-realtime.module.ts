@@ -1,16 +1,20 @@
 // src/diagram-realtime/diagram-realtime.module.ts
-import { Module } from '@nestjs/common';
+import { Module, forwardRef } from '@nestjs/common';
 import { DiagramGateway } from './diagram.gateway';
 import { ShareModule } from '../share/share.module';
 import { PrismaService } from '../common/prisma.service';
 import { RealtimeService } from './realtime.service';
 import { JwtModule } from '@nestjs/jwt';
 import { RedisModule } from '../redis/redis.module';
+import { ProjectsModule } from '../projects/projects.module';
 
 @Module({
   imports: [
     ShareModule,
     RedisModule,
+    // Ciclo: ProjectsModule usa el gateway y el gateway aprueba solicitudes
+    // con ProjectsService
+    forwardRef(() => ProjectsModule),
     JwtModule.register({ secret: process.env.JWT_SECRET }),
   ],
   providers: [DiagramGateway, PrismaService, RealtimeService],
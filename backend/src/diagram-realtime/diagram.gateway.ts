@@ -8,10 +8,30 @@ import {
   OnGatewayInit,
 } from '@nestjs/websockets';
 import type { Server, Namespace, Socket } from 'socket.io';
-import { Inject } from '@nestjs/common';
-import { ShareService } from '../share/share.service';
+import { HttpException, Inject } from '@nestjs/common';
+import { ProjectRole } from '@prisma/client';
+import { ShareService, type ShareLinkCheck } from '../share/share.service';
 import { PrismaService } from '../common/prisma.service';
 import { RealtimeService } from './realtime.service';
+import { PolicyService } from '../policy/policy.service';
+import { ActivityService } from '../activity/activity.service';
+import {
+  NotificationsService,
+  type NotificationInput,
+} from '../notifications/notifications.service';
+import {
+  WORKSPACE_MANAGER_ROLES,
+  can,
+  rolesWith,
+  shareLinkRole,
+} from '../policy/capabilities';
+import { RequireSocketCapability } from '../policy/require-capability.decorator';
+import {
+  EDIT_REQUEST_SELECT,
+  ProjectsService,
+  pendingEditRequestData,
+  toEditRequestView,
+} from '../projects/projects.service';
 import { JwtService } from '@nestjs/jwt';
 import { createAdapter } from '@socket.io/redis-adapter';
 import type { Redis } from 'ioredis';
@@ -23,14 +43,44 @@ import type {
   ApproveEditPayload,
   YSyncPullPayload,
   YSyncPushPayload,
+  DiagramCommandPayload,
   AwarenessUpdatePayload,
   PresenceHeartbeatPayload,
   PresenceJoinAck,
+  MemberRoleChange,
+  EditRequestNotice,
+  OwnershipTransferNotice,
 } from './dto/events';
 import { toBase64, fromBase64 } from 'lib0/buffer';
+import {
+  snapshotIssuesMessage,
+  upgradeSnapshot,
+} from '../diagrams/snapshot-schema';
 
 type Snapshot = { nodes: any[]; edges: any[] };
 
+// Evento entre instancias (adapter Redis) para sincronizar roles de sockets
+const MEMBER_ROLE_EVENT = 'member:role';
+// Link de compartir revocado: cada instancia saca a los que entraron con él
+const SHARE_LINK_REVOKED_EVENT = 'share:revoked';
+// Proyecto a la papelera: cada instancia vacía su sala
+const PROJECT_DELETED_EVENT = 'project:deleted';
+
+/** Motivo de `joinDenied` para un link rechazado */
+function shareJoinDenial(link: Exclude<ShareLinkCheck, { ok: true }>) {
+  switch (link.reason) {
+    case 'password_required':
+    case 'wrong_password':
+      return { reason: 'share_password_required' };
+    case 'locked':
+      return { reason: 'share_password_locked', retryAfter: link.retryAfter };
+    case 'exhausted':
+      return { reason: 'share_link_exhausted' };
+    default:
+      return { reason: 'invalid_share_link' };
+  }
+}
+
 @WebSocketGateway({
   namespace: '/diagram',
   path: '/socket.io',
@@ -56,6 +106,10 @@ export class DiagramGateway implements OnGatewayInit {
     private prisma: PrismaService,
     private realtime: RealtimeService,
     private jwt: JwtService,
+    private policy: PolicyService,
+    private activity: ActivityService,
+    private notifications: NotificationsService,
+    private projects: ProjectsService,
   ) {}
 
   afterInit(server: Server | Namespace) {
@@ -64,16 +118,42 @@ export class DiagramGateway implements OnGatewayInit {
       r.status === 'ready'
         ? Promise.resolve()
         : new Promise<void>((res) => r.once('ready', () => res()));
-    Promise.all([waitReady(this.pub), waitReady(this.sub)]).then(() => {
-      io.adapter(createAdapter(this.pub, this.sub));
-      console.log('[Socket.IO] Redis adapter attached');
-    });
+    Promise.all([waitReady(this.pub), waitReady(this.sub)])
+      .then(() => {
+        io.adapter(createAdapter(this.pub, this.sub));
+        console.log('[Socket.IO] Redis adapter attached');
+      })
+      .catch((e) =>
+        console.error('[Socket.IO] no se pudo conectar el adapter Redis', e),
+      );
+
+    // Cambios de rol emitidos por otras instancias
+    (server as Namespace).on(MEMBER_ROLE_EVENT, (change: MemberRoleChange) =>
+      this.applyLocalMemberRole(change),
+    );
+    (server as Namespace).on(
+      PROJECT_DELETED_EVENT,
+      (projectId: string) => void this.closeLocalRoom(projectId),
+    );
+    (server as Namespace).on(
+      SHARE_LINK_REVOKED_EVENT,
+      ({ projectId, linkId }: { projectId: string; linkId: string }) =>
+        this.evictLocalShareLink(projectId, linkId),
+    );
   }
 
   private async parseUserIdFromToken(token?: string): Promise<string | null> {
     if (!token) return null;
     try {
       const payload: any = this.jwt.verify(token);
+      // Igual que en REST: la sesión revocada invalida sus tokens
+      if (payload?.sid) {
+        const session = await this.prisma.authSession.findUnique({
+          where: { id: payload.sid },
+          select: { revokedAt: true },
+        });
+        if (!session || session.revokedAt) return null;
+      }
       return payload?.id || payload?.sub || null;
     } catch {
       return null;
@@ -97,7 +177,9 @@ export class DiagramGateway implements OnGatewayInit {
         where: { projectId },
         select: { snapshot: true },
       });
-      const persisted: Snapshot = (diagram?.snapshot as Snapshot) ?? {
+      const persisted: Snapshot = upgradeSnapshot(
+        diagram?.snapshot as Snapshot,
+      ) ?? {
         nodes: [],
         edges: [],
       };
@@ -118,51 +200,73 @@ export class DiagramGateway implements OnGatewayInit {
   ) {
     const { projectId, shareToken, authToken } = data;
 
-    // 1) Asegurar sala y snapshot desde BD si está vacío
-    await this.realtime.ensureRoom(projectId);
-    const hydrated = await this.hydrateRoomSnapshotFromDB(projectId);
+    // 0) Proyectos inexistentes o en la papelera no admiten joins
+    const project = await this.prisma.project.findUnique({
+      where: { id: projectId },
+      select: { deletedAt: true },
+    });
+    if (!project || project.deletedAt) {
+      client.emit('joinDenied', {
+        reason: project ? 'project_deleted' : 'not_found',
+      });
+      return;
+    }
 
-    // 2) Resolver identidad y rol
+    // 1) Resolver identidad y rol: miembro → su rol; si no, el del link
     const userId = await this.parseUserIdFromToken(authToken);
-    let role: 'VIEWER' | 'EDITOR' | 'OWNER' = 'VIEWER';
-    let displayName = 'Invitado';
-
-    if (userId) {
-      const p = await this.prisma.project.findUnique({
-        where: { id: projectId },
-        select: {
-          ownerId: true,
-          members: { where: { userId }, select: { role: true }, take: 1 },
-        },
+    let role: ProjectRole | null = userId
+      ? await this.policy.getRole(userId, projectId)
+      : null;
+    // Si el rol sale del link, revocarlo corta el acceso de este socket
+    let shareLinkId: string | null = null;
+
+    if (!role && shareToken) {
+      // El primer join del socket por link cuenta un uso (como el GET público)
+      const joined = client.data as {
+        projectId?: string;
+        shareLinkId?: string;
+      };
+      const link = await this.share.checkLink(projectId, shareToken, {
+        password: data.sharePassword,
+        consume: joined?.projectId !== projectId || !joined.shareLinkId,
+        ip: client.handshake.address,
       });
-      if (p?.ownerId === userId) role = 'OWNER';
-      else if (p?.members?.length) role = 'EDITOR';
+      if (!link.ok) {
+        client.emit('joinDenied', shareJoinDenial(link));
+        return;
+      }
+      // Anónimos solo leen; editar por link requiere sesión
+      role = userId ? shareLinkRole(link.role) : 'VIEWER';
+      shareLinkId = link.linkId;
+    }
+    if (!role) {
+      client.emit('joinDenied', {
+        reason: userId ? 'no_access' : 'unauthorized',
+      });
+      return;
+    }
 
+    let displayName = 'Invitado';
+    if (userId) {
       const u = await this.prisma.user.findUnique({
         where: { id: userId },
         select: { name: true, email: true },
       });
       displayName = u?.name || u?.email || 'Usuario';
-    } else if (shareToken) {
-      const r = await this.share.validateShareToken(projectId, shareToken);
-      if (!r) {
-        client.emit('joinDenied', { reason: 'invalid_share_link' });
-        return;
-      }
-      role = 'VIEWER';
-      displayName = 'Invitado';
-    } else {
-      client.emit('joinDenied', { reason: 'unauthorized' });
-      return;
     }
 
+    // 2) Asegurar sala y snapshot desde BD si está vacío
+    await this.realtime.ensureRoom(projectId);
+    const hydrated = await this.hydrateRoomSnapshotFromDB(projectId);
+
     // 3) Join + estado del cliente
-    client.join(projectId);
+    await client.join(projectId);
     (client.data as any) = {
       ...(client.data as any),
       projectId,
       userId,
       role,
+      shareLinkId,
     };
 
     // 4) Presencia
@@ -197,19 +301,19 @@ export class DiagramGateway implements OnGatewayInit {
   ) {
     const userId = await this.parseUserIdFromToken(data?.authToken);
     if (!userId) return;
-    client.join(`user:${userId}`);
+    await client.join(`user:${userId}`);
     (client.data as any) = { ...(client.data as any), userId };
     console.log('[joinOwner] socket', client.id, 'userId', userId);
   }
 
   // ===== Heartbeat de presencia =====
   @SubscribeMessage('presence:heartbeat')
-  async heartbeat(
+  @RequireSocketCapability('project:view')
+  heartbeat(
     @MessageBody() data: PresenceHeartbeatPayload,
     @ConnectedSocket() client: Socket,
   ) {
     const { projectId } = data;
-    if ((client.data as any)?.projectId !== projectId) return;
     const st = this.realtime.touchPresence(projectId, client.id);
     if (!st) return;
     client.emit('presence:pong', { ts: Date.now() });
@@ -217,21 +321,12 @@ export class DiagramGateway implements OnGatewayInit {
 
   // ===== Parches “legacy” JSON =====
   @SubscribeMessage('patch')
-  async handlePatch(
+  @RequireSocketCapability('diagram:edit', { deniedEvent: 'editDenied' })
+  handlePatch(
     @MessageBody() data: { projectId: string; patch: Patch },
     @ConnectedSocket() client: Socket,
   ) {
     const { projectId, patch } = data;
-    if ((client.data as any)?.projectId !== projectId) return;
-    const role = (client.data as any)?.role;
-    if (role !== 'EDITOR' && role !== 'OWNER') {
-      client.emit('editDenied', {
-        reason: (client.data as any)?.userId
-          ? 'no_permission'
-          : 'login_required',
-      });
-      return;
-    }
     client.to(projectId).emit('remotePatch', patch);
   }
 
@@ -247,33 +342,24 @@ export class DiagramGateway implements OnGatewayInit {
       client.emit('editDenied', { reason: 'login_required' });
       return;
     }
-    const member = await this.prisma.projectMember.findUnique({
-      where: { projectId_userId: { projectId, userId } },
-    });
-    if (member) {
-      client.emit('editGranted', { role: member.role });
-      (client.data as any).role = 'EDITOR';
+    const role = await this.policy.getRole(userId, projectId);
+    if (can(role, 'diagram:edit')) {
+      client.emit('editGranted', { role });
+      (client.data as any).role = role;
       return;
     }
 
     const req = await this.prisma.editRequest.upsert({
       where: { projectId_requesterId: { projectId, requesterId: userId } },
-      update: { status: 'PENDING', message: message ?? null },
-      create: { projectId, requesterId: userId, message: message ?? null },
-    });
-
-    const owner = await this.prisma.project.findUnique({
-      where: { id: projectId },
-      select: { ownerId: true },
-    });
-    if (owner?.ownerId) {
-      this.server.to(`user:${owner.ownerId}`).emit('editRequest', {
+      update: pendingEditRequestData(message),
+      create: {
         projectId,
         requesterId: userId,
-        requestId: req.id,
-        message: req.message,
-      });
-    }
+        ...pendingEditRequestData(message),
+      },
+      select: EDIT_REQUEST_SELECT,
+    });
+    await this.notifyEditRequest(toEditRequestView(req));
     client.emit('requestQueued');
   }
 
@@ -286,109 +372,349 @@ export class DiagramGateway implements OnGatewayInit {
     const { projectId, userId, role = 'EDITOR' } = data;
 
     const me = (client.data as any)?.userId;
-    console.log(
-      '[approveEdit] by',
-      me,
-      'for user',
-      userId,
-      'project',
-      projectId,
-    );
     if (!me) {
       console.warn('[approveEdit] rejected: missing client.data.userId');
       return;
     }
 
-    const p = await this.prisma.project.findUnique({
-      where: { id: projectId },
-      select: { ownerId: true },
-    });
-    if (!p || p.ownerId !== me) {
-      console.warn('[approveEdit] rejected: not owner or project missing');
+    // Mismas reglas que el REST: solicitud pendiente y vigente, sin tocar
+    // al owner ni a los admins
+    let approved: { requestId: string; role: ProjectRole };
+    try {
+      approved = await this.projects.approveEditRequest(
+        me,
+        projectId,
+        userId,
+        role === 'EDITOR' ? 'EDITOR' : 'VIEWER',
+      );
+    } catch (e) {
+      if (!(e instanceof HttpException)) throw e;
+      console.warn('[approveEdit] rejected:', e.message);
       return;
     }
 
-    await this.prisma.projectMember.upsert({
-      where: { projectId_userId: { projectId, userId } },
-      update: { role: role === 'EDITOR' ? 'EDITOR' : 'VIEWER' },
-      create: {
-        projectId,
-        userId,
-        role: role === 'EDITOR' ? 'EDITOR' : 'VIEWER',
-      },
-    });
+    const change = { projectId, userId, role: approved.role };
+    this.pushMemberRole(change, { requestIds: [approved.requestId] });
+    await this.notifyEditRequestApproved(change, me, [approved.requestId]);
+  }
 
-    const pending = await this.prisma.editRequest.findMany({
-      where: { projectId, requesterId: userId, status: 'PENDING' },
-      select: { id: true },
-    });
+  /**
+   * Aplica un cambio de membresía a los sockets conectados de ese usuario
+   * (en todas las instancias) y lo avisa con `memberUpdated` a la sala y a
+   * `user:<id>`. Un usuario degradado a VIEWER pierde y:sync:push al instante.
+   */
+  pushMemberRole(
+    change: MemberRoleChange,
+    extra: Record<string, unknown> = {},
+  ) {
+    this.applyLocalMemberRole(change);
+    try {
+      this.server.serverSideEmit(MEMBER_ROLE_EVENT, change);
+    } catch {
+      // adapter en memoria (sin Redis): no hay otras instancias
+    }
+    this.server
+      .to(change.projectId)
+      .to(`user:${change.userId}`)
+      .emit('memberUpdated', {
+        ...change,
+        removed: change.role === null,
+        ...extra,
+      });
+  }
 
-    await this.prisma.editRequest.updateMany({
-      where: { projectId, requesterId: userId, status: 'PENDING' },
-      data: { status: 'APPROVED' },
-    });
+  private applyLocalMemberRole({ projectId, userId, role }: MemberRoleChange) {
+    for (const socket of this.server.sockets.values()) {
+      const data = socket.data as any;
+      if (data?.projectId !== projectId || data?.userId !== userId) continue;
+      data.role = role;
+      // Ya es miembro: el rol deja de depender del link
+      if (role !== null) data.shareLinkId = null;
+      if (role === null) {
+        // Removido: sale de la sala (deja de recibir updates)
+        void socket.leave(projectId);
+        data.projectId = null;
+      }
+    }
+  }
 
-    console.log(
-      '[approveEdit] emitting memberUpdated to room',
-      projectId,
-      'for user',
-      userId,
-    );
+  /**
+   * Link revocado: los sockets que entraron con él (en todas las
+   * instancias) pierden el rol y salen de la sala con `shareLinkRevoked`.
+   */
+  revokeShareLink(projectId: string, linkId: string) {
+    this.evictLocalShareLink(projectId, linkId);
+    try {
+      this.server.serverSideEmit(SHARE_LINK_REVOKED_EVENT, {
+        projectId,
+        linkId,
+      });
+    } catch {
+      // adapter en memoria (sin Redis): no hay otras instancias
+    }
+  }
 
-    this.server.to(projectId).emit('memberUpdated', {
-      projectId,
-      userId,
-      role: role === 'EDITOR' ? 'EDITOR' : 'VIEWER',
-      requestIds: pending.map((r) => r.id),
-    } as {
-      projectId: string;
-      userId: string;
-      role: 'EDITOR' | 'VIEWER';
-      requestIds: string[];
-    });
+  private evictLocalShareLink(projectId: string, linkId: string) {
+    for (const socket of this.server.sockets.values()) {
+      const data = socket.data as any;
+      if (data?.projectId !== projectId || data?.shareLinkId !== linkId) {
+        continue;
+      }
+      socket.emit('shareLinkRevoked', { projectId });
+      void socket.leave(projectId);
+      Object.assign(data, { projectId: null, role: null, shareLinkId: null });
+      const st = this.realtime.removePresence(projectId, socket.id);
+      if (st) this.server.to(projectId).emit('presence:left', st);
+    }
   }
 
   // ===== Y.js sync =====
   @SubscribeMessage('y:sync:pull')
-  async ySyncPull(
+  @RequireSocketCapability('project:view')
+  ySyncPull(
     @MessageBody() data: YSyncPullPayload,
     @ConnectedSocket() client: Socket,
   ) {
     const { projectId } = data;
-    if ((client.data as any)?.projectId !== projectId) return;
     const sync = this.realtime.getSyncUpdate(projectId);
     if (sync) client.emit('y:sync', { updateBase64: toBase64(sync) });
   }
 
   @SubscribeMessage('y:sync:push')
-  async ySyncPush(
+  @RequireSocketCapability('diagram:edit', { deniedEvent: 'editDenied' })
+  ySyncPush(
     @MessageBody() data: YSyncPushPayload,
     @ConnectedSocket() client: Socket,
   ) {
     const { projectId, updateBase64 } = data;
-    if ((client.data as any)?.projectId !== projectId) return;
-    const role = (client.data as any)?.role;
-    if (role !== 'EDITOR' && role !== 'OWNER') {
-      client.emit('editDenied', {
-        reason: (client.data as any)?.userId
-          ? 'no_permission'
-          : 'login_required',
-      });
+    const update = fromBase64(updateBase64);
+    const { issues, revert } = this.realtime.applyRemoteUpdate(
+      projectId,
+      update,
+      (client.data as any)?.userId ?? null,
+    );
+    if (!revert) {
+      client.to(projectId).emit('y:update', { updateBase64 });
       return;
     }
-    const update = fromBase64(updateBase64);
-    this.realtime.applyRemoteUpdate(projectId, update);
-    client.to(projectId).emit('y:update', { updateBase64 });
+    // Contenido inválido: todos (incluido el autor) reciben la reversión
+    this.server
+      .to(projectId)
+      .emit('y:update', { updateBase64: toBase64(revert) });
+    client.emit('y:rejected', {
+      message: snapshotIssuesMessage(issues),
+      issues,
+    });
+  }
+
+  // ===== Comandos de modelo (bots, asistente, scripts) =====
+  @SubscribeMessage('diagram:command')
+  @RequireSocketCapability('diagram:edit', { deniedEvent: 'editDenied' })
+  async diagramCommand(
+    @MessageBody() data: DiagramCommandPayload,
+    @ConnectedSocket() client: Socket,
+  ) {
+    const { projectId, commands, requestId } = data;
+    try {
+      const results = await this.applyCommands(
+        projectId,
+        commands,
+        (client.data as any)?.userId ?? null,
+      );
+      client.emit('diagram:command:applied', { requestId, results });
+    } catch (e) {
+      if (!(e instanceof HttpException)) throw e;
+      const body = e.getResponse();
+      client.emit('diagram:command:rejected', {
+        requestId,
+        ...(typeof body === 'string' ? { message: body } : body),
+      });
+    }
+  }
+
+  /**
+   * Aplica comandos de modelo en la sala y difunde el resultado a todos los
+   * sockets conectados. Lanza 400 si algún comando no se puede aplicar.
+   */
+  async applyCommands(
+    projectId: string,
+    commands: unknown,
+    authorId: string | null,
+  ) {
+    const { update, results } = await this.realtime.applyCommands(
+      projectId,
+      commands,
+      authorId,
+    );
+    this.server
+      .to(projectId)
+      .emit('y:update', { updateBase64: toBase64(update) });
+    return results;
+  }
+
+  /** Vuelca el guardado pendiente de la sala; false si no hay sala abierta */
+  flushRoom(projectId: string) {
+    return this.realtime.flush(projectId);
+  }
+
+  /**
+   * Reemplaza el diagrama de la sala desde el servidor (restaurar versión)
+   * y difunde el update a todos los sockets conectados, incluido quien restaura.
+   * Con `expectedRevision` devuelve false (sin tocar nada) si no coincide.
+   */
+  async broadcastSnapshot(
+    projectId: string,
+    snapshot: { nodes: any[]; edges: any[] },
+    expectedRevision?: number,
+  ) {
+    const update = await this.realtime.replaceSnapshot(
+      projectId,
+      snapshot,
+      expectedRevision,
+    );
+    if (!update) return false;
+    this.server
+      .to(projectId)
+      .emit('y:update', { updateBase64: toBase64(update) });
+    return true;
+  }
+
+  /** Nueva solicitud de edición → salas personales de owner y admins */
+  async notifyEditRequest(request: EditRequestNotice) {
+    const project = await this.prisma.project.findUnique({
+      where: { id: request.projectId },
+      select: {
+        ownerId: true,
+        members: {
+          where: { role: { in: rolesWith('members:manage') } },
+          select: { userId: true },
+        },
+        workspace: {
+          select: {
+            members: {
+              where: { role: { in: WORKSPACE_MANAGER_ROLES } },
+              select: { userId: true },
+            },
+          },
+        },
+      },
+    });
+    if (!project) return;
+    const rooms = new Set([
+      project.ownerId,
+      ...project.members.map((m) => m.userId),
+      ...(project.workspace?.members ?? []).map((m) => m.userId),
+    ]);
+    this.server
+      .to([...rooms].map((id) => `user:${id}`))
+      .emit('editRequest', { ...request, requestId: request.id });
+    await this.pushNotifications(
+      [...rooms].map((userId) => ({
+        userId,
+        type: 'EDIT_REQUEST',
+        projectId: request.projectId,
+        actorId: request.requesterId,
+        data: { requestId: request.id, message: request.message },
+      })),
+    );
+  }
+
+  /** Solicitud rechazada → sala personal del solicitante */
+  async notifyEditRequestRejected(
+    request: EditRequestNotice,
+    actorId: string | null = null,
+  ) {
+    this.server
+      .to(`user:${request.requesterId}`)
+      .emit('editRequestRejected', { ...request, requestId: request.id });
+    await this.pushNotifications([
+      {
+        userId: request.requesterId,
+        type: 'EDIT_REQUEST_REJECTED',
+        projectId: request.projectId,
+        actorId,
+        data: { requestId: request.id, reason: request.reason },
+      },
+    ]);
+  }
+
+  /** Solicitud aprobada → notificación al solicitante (el rol va por pushMemberRole) */
+  async notifyEditRequestApproved(
+    { projectId, userId, role }: MemberRoleChange,
+    actorId: string,
+    requestIds: string[],
+  ) {
+    await this.pushNotifications([
+      {
+        userId,
+        type: 'EDIT_REQUEST_APPROVED',
+        projectId,
+        actorId,
+        data: { role, requestIds },
+      },
+    ]);
+  }
+
+  /**
+   * Persiste notificaciones y las empuja con `notification` a la sala
+   * personal de cada destinatario (si está desconectado, las ve al listar).
+   */
+  async pushNotifications(inputs: NotificationInput[]) {
+    const created = await this.notifications.create(inputs);
+    for (const n of created) {
+      this.server.to(`user:${n.userId}`).emit('notification', n);
+    }
+  }
+
+  /**
+   * Transferencia de propiedad: solicitada/cancelada/rechazada solo le
+   * interesa a las dos partes; la aceptada se avisa también a la sala.
+   */
+  notifyOwnershipTransfer(
+    event:
+      | 'ownershipTransferRequested'
+      | 'ownershipTransferUpdated'
+      | 'ownershipTransferred',
+    transfer: OwnershipTransferNotice,
+  ) {
+    const rooms = [`user:${transfer.fromUserId}`, `user:${transfer.toUserId}`];
+    if (event === 'ownershipTransferred') rooms.push(transfer.projectId);
+    this.server.to(rooms).emit(event, transfer);
+  }
+
+  /**
+   * Proyecto enviado a la papelera: avisa y saca a todos de la sala. Como
+   * al quitar un miembro, los sockets pierden proyecto y rol (el guard WS
+   * solo mira client.data) y la sala se cierra en todas las instancias.
+   */
+  async notifyProjectDeleted(projectId: string) {
+    this.server.to(projectId).emit('projectDeleted', { projectId });
+    try {
+      this.server.serverSideEmit(PROJECT_DELETED_EVENT, projectId);
+    } catch {
+      // adapter en memoria (sin Redis): no hay otras instancias
+    }
+    await this.closeLocalRoom(projectId);
+  }
+
+  private async closeLocalRoom(projectId: string) {
+    for (const socket of this.server.sockets.values()) {
+      const data = socket.data;
+      if (data?.projectId !== projectId) continue;
+      void socket.leave(projectId);
+      Object.assign(data, { projectId: null, role: null, shareLinkId: null });
+    }
+    await this.realtime.disposeRoom(projectId);
   }
 
   // ===== Awareness =====
   @SubscribeMessage('awareness:update')
-  async awarenessUpdate(
+  @RequireSocketCapability('project:view')
+  awarenessUpdate(
     @MessageBody() data: AwarenessUpdatePayload,
     @ConnectedSocket() client: Socket,
   ) {
     const { projectId, states } = data;
-    if ((client.data as any)?.projectId !== projectId) return;
     client.to(projectId).emit('awareness:remote', { states, from: client.id });
   }
 
@@ -405,13 +731,17 @@ export class DiagramGateway implements OnGatewayInit {
         return undefined;
       })();
 
-    this.parseUserIdFromToken(authToken).then((userId) => {
-      if (userId) {
-        client.join(`user:${userId}`);
-        (client.data as any) = { ...(client.data as any), userId };
-        console.log('[handleConnection] socket', client.id, 'userId', userId);
-      }
-    });
+    this.parseUserIdFromToken(authToken)
+      .then(async (userId) => {
+        if (userId) {
+          await client.join(`user:${userId}`);
+          (client.data as any) = { ...(client.data as any), userId };
+          console.log('[handleConnection] socket', client.id, 'userId', userId);
+        }
+      })
+      .catch((e) =>
+        console.error('[handleConnection] socket', client.id, 'sin sala', e),
+      );
   }
 
   handleDisconnect(client: Socket) {
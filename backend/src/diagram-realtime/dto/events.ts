@@ -5,6 +5,7 @@ export type JoinPayload = {
   projectId: string;
   shareToken?: string;
   authToken?: string;
+  sharePassword?: string; // links protegidos con contraseña
 };
 
 export type Patch = unknown;
@@ -20,10 +21,55 @@ export type ApproveEditPayload = {
   role?: 'EDITOR' | 'VIEWER';
 };
 
+// ---- Solicitud de edición (editRequest al owner, editRequestRejected al solicitante) ----
+export type EditRequestNotice = {
+  id: string;
+  projectId: string;
+  projectName: string;
+  requesterId: string;
+  requesterName: string | null;
+  requesterEmail: string;
+  message: string | null;
+  status: 'PENDING' | 'APPROVED' | 'REJECTED' | 'EXPIRED';
+  reason: string | null;
+  createdAt: Date;
+  expiresAt: Date | null;
+};
+
+// ---- Cambio de membresía (REST de miembros o approveEdit) ----
+export type MemberRoleChange = {
+  projectId: string;
+  userId: string;
+  role: 'OWNER' | 'ADMIN' | 'EDITOR' | 'VIEWER' | null; // null = removido
+};
+
+// ---- Transferencia de propiedad ----
+export type OwnershipTransferNotice = {
+  id: string;
+  projectId: string;
+  projectName: string;
+  fromUserId: string;
+  fromUserName: string;
+  toUserId: string;
+  toUserName: string;
+  status: 'PENDING' | 'ACCEPTED' | 'DECLINED' | 'CANCELLED';
+  createdAt: Date;
+  decidedAt: Date | null;
+};
+
 // ---- Y.js sync ----
 export type YSyncPullPayload = { projectId: string };
 export type YSyncPushPayload = { projectId: string; updateBase64: Base64 };
 
+// ---- Comandos de modelo (ver diagrams/diagram-commands) ----
+// Respuesta: diagram:command:applied { requestId, results } o
+// diagram:command:rejected { requestId, message, index? }
+export type DiagramCommandPayload = {
+  projectId: string;
+  commands: unknown[];
+  requestId?: string;
+};
+
 // ---- Awareness (cursores, selección, nombre/color, etc.) ----
 export type AwarenessUpdatePayload = {
   projectId: string;
@@ -35,7 +81,7 @@ export type PresenceState = {
   socketId: string;
   userId: string | null; // null si vino por share link (anon)
   name: string; // mostrar en UI
-  role: 'VIEWER' | 'EDITOR' | 'OWNER';
+  role: 'VIEWER' | 'EDITOR' | 'ADMIN' | 'OWNER';
   color: string; // color asignado (cursores, avatares)
   lastSeen: number; // epoch ms
 };
@@ -1,13 +1,23 @@
 import { Inject, Injectable, OnModuleInit } from '@nestjs/common';
 import { Prisma } from '@prisma/client';
 import { PrismaService } from '../common/prisma.service';
+import { ActivityService } from '../activity/activity.service';
 import * as Y from 'yjs';
 import { encodeStateAsUpdate, applyUpdate } from 'yjs';
 import { toBase64, fromBase64 } from 'lib0/buffer';
 import debounce from 'lodash.debounce';
+import type { DebouncedFunc } from 'lodash';
 import type { PresenceState } from './dto/events';
 import type { Redis } from 'ioredis';
-import { randomUUID } from 'crypto';
+import { createHash, randomUUID } from 'crypto';
+import {
+  SNAPSHOT_SCHEMA_VERSION,
+  type SnapshotIssue,
+  migrateSnapshot,
+  prepareSnapshot,
+  validateSnapshot,
+} from '../diagrams/snapshot-schema';
+import { applyDiagramCommands } from '../diagrams/diagram-commands';
 
 // Snapshot “visible” + estado Y compactado en $y (base64)
 export type DiagramSnapshot = {
@@ -15,6 +25,7 @@ export type DiagramSnapshot = {
   edges: any[];
   updatedAt: string; // ISO
   $y?: string; // base64 del update completo de Y.Doc
+  schemaVersion?: number; // ver diagrams/snapshot-schema
 };
 
 const EMPTY_SNAPSHOT: DiagramSnapshot = {
@@ -37,7 +48,13 @@ function coerceSnapshot(obj: Record<string, unknown>): DiagramSnapshot {
     typeof (obj as any).$y === 'string' && (obj as any).$y
       ? (obj as any).$y
       : undefined;
-  return { nodes, edges, updatedAt, $y };
+  return migrateSnapshot({
+    nodes,
+    edges,
+    updatedAt,
+    $y,
+    schemaVersion: (obj as any).schemaVersion,
+  });
 }
 function toSnapshot(
   value: Prisma.JsonValue | null | undefined,
@@ -57,13 +74,87 @@ function toSnapshot(
 type RoomState = {
   ydoc: Y.Doc;
   snapshot: DiagramSnapshot;
-  debouncedSave: () => void;
+  debouncedSave: DebouncedFunc<() => Promise<void>>;
+
+  // Último usuario que empujó un update (autor de los checkpoints AUTO).
+  // Solo la instancia que recibió la edición genera el checkpoint.
+  lastEditorId: string | null;
+  hasLocalEdits: boolean;
+  // Hay cambios en el Y.Doc que todavía no llegaron a la BD
+  unsaved: boolean;
+  lastCheckpointAt: number;
+  lastCheckpointHash: string | null;
+  // Quienes empujaron updates desde el último guardado (registro de actividad)
+  pendingEditors: Set<string>;
 
   // Presencia
   presenceBySocket: Map<string, PresenceState>;
   presenceByUser: Map<string, PresenceState[]>;
 };
 
+// Intervalo mínimo entre checkpoints automáticos del historial
+const AUTO_VERSION_INTERVAL_MS =
+  Number(process.env.DIAGRAM_AUTO_VERSION_MINUTES ?? 10) * 60_000;
+
+/**
+ * El editor publica el diagrama visible en el mapa Y `diagram`
+ * (`snapshotBase64` = btoa(JSON) + `version`). Lo decodificamos para
+ * persistir lo mismo que ven los clientes.
+ */
+function readVisibleSnapshot(
+  doc: Y.Doc,
+): { nodes: any[]; edges: any[] } | null {
+  const parsed = decodeVisible(doc);
+  if (!parsed) return null;
+  return {
+    nodes: Array.isArray(parsed.nodes) ? parsed.nodes : [],
+    edges: Array.isArray(parsed.edges) ? parsed.edges : [],
+  };
+}
+
+/** JSON publicado en `snapshotBase64`, tal cual (null si falta o no decodifica) */
+function decodeVisible(doc: Y.Doc): Record<string, unknown> | null {
+  const b64 = doc.getMap<any>('diagram').get('snapshotBase64');
+  if (typeof b64 !== 'string' || !b64.length) return null;
+  try {
+    const parsed = JSON.parse(Buffer.from(b64, 'base64').toString('latin1'));
+    return isRecord(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+// Claves del mapa `diagram` que escribe el editor; el resto del Y.Doc
+// (p.ej. `root`, que se persiste si falta snapshotBase64) es del servidor
+const CLIENT_DIAGRAM_KEYS = new Set(['snapshotBase64', 'version']);
+
+// Origen de la transacción de un update de cliente (para poder deshacerlo)
+const CLIENT_UPDATE_ORIGIN = { source: 'client' };
+
+/** Base64 publicado en el mapa Y `diagram` (para detectar si cambió) */
+function visibleBase64(doc: Y.Doc): unknown {
+  return doc.getMap<any>('diagram').get('snapshotBase64');
+}
+
+/** Publica `snap` como contenido visible, igual que lo hace el editor */
+function writeVisibleSnapshot(
+  doc: Y.Doc,
+  snap: { nodes: any[]; edges: any[] },
+) {
+  const map = doc.getMap<any>('diagram');
+  const json = JSON.stringify({ nodes: snap.nodes, edges: snap.edges });
+  Y.transact(doc, () => {
+    map.set('snapshotBase64', Buffer.from(json, 'latin1').toString('base64'));
+    map.set('version', Date.now());
+  });
+}
+
+function hashContent(snap: { nodes: any[]; edges: any[] }) {
+  return createHash('sha1')
+    .update(JSON.stringify({ nodes: snap.nodes, edges: snap.edges }))
+    .digest('hex');
+}
+
 const COLORS = [
   '#1f77b4',
   '#ff7f0e',
@@ -87,6 +178,7 @@ export class RealtimeService implements OnModuleInit {
     private prisma: PrismaService,
     @Inject('REDIS_PUB') private pub: Redis,
     @Inject('REDIS_SUB') private sub: Redis,
+    private activity: ActivityService,
   ) {}
 
   async onModuleInit() {
@@ -101,10 +193,19 @@ export class RealtimeService implements OnModuleInit {
           const { projectId, updateBase64 } = payload;
           const update = fromBase64(updateBase64);
           // Asegura room y aplica
-          this.ensureRoom(projectId).then(() => {
-            applyUpdate(this.rooms.get(projectId)!.ydoc, update);
-            this.rooms.get(projectId)!.debouncedSave();
-          });
+          this.ensureRoom(projectId)
+            .then((room) => {
+              applyUpdate(room.ydoc, update);
+              room.unsaved = true;
+              void room.debouncedSave();
+            })
+            .catch((e) =>
+              console.error(
+                '[realtime] update remoto descartado',
+                projectId,
+                e,
+              ),
+            );
         } else if (channel === 'diagram:presence') {
           const {
             type,
@@ -178,14 +279,29 @@ export class RealtimeService implements OnModuleInit {
   }
 
   private snapshotFromDoc(doc: Y.Doc, prev: DiagramSnapshot): DiagramSnapshot {
+    const visible = readVisibleSnapshot(doc);
     const yRoot = doc.getMap('root');
     const nodes =
-      (yRoot.get('nodes') as Y.Array<any>)?.toArray?.() ?? prev.nodes ?? [];
+      visible?.nodes ??
+      (yRoot.get('nodes') as Y.Array<any>)?.toArray?.() ??
+      prev.nodes ??
+      [];
     const edges =
-      (yRoot.get('edges') as Y.Array<any>)?.toArray?.() ?? prev.edges ?? [];
+      visible?.edges ??
+      (yRoot.get('edges') as Y.Array<any>)?.toArray?.() ??
+      prev.edges ??
+      [];
     const fullUpdate = encodeStateAsUpdate(doc);
     const base64 = toBase64(fullUpdate);
-    return { nodes, edges, updatedAt: new Date().toISOString(), $y: base64 };
+    // El Y.Doc no lleva versión: lo que publica un cliente viejo se migra acá
+    const current = migrateSnapshot({ nodes, edges });
+    return {
+      nodes: current.nodes,
+      edges: current.edges,
+      updatedAt: new Date().toISOString(),
+      $y: base64,
+      schemaVersion: SNAPSHOT_SCHEMA_VERSION,
+    };
   }
 
   async loadInitial(projectId: string): Promise<DiagramSnapshot> {
@@ -194,7 +310,10 @@ export class RealtimeService implements OnModuleInit {
       select: { snapshot: true },
     });
     if (!diagram) {
-      const fresh = { ...EMPTY_SNAPSHOT };
+      const fresh = {
+        ...EMPTY_SNAPSHOT,
+        schemaVersion: SNAPSHOT_SCHEMA_VERSION,
+      };
       await this.prisma.diagram.create({
         data: {
           projectId,
@@ -214,20 +333,55 @@ export class RealtimeService implements OnModuleInit {
     if (this.rooms.has(projectId)) return this.rooms.get(projectId)!;
     const snapshot = await this.loadInitial(projectId);
     const ydoc = this.createDocFromSnapshot(snapshot);
+    // Se dispara sin await: un error de BD (proyecto purgado, conexión
+    // caída) se registra acá en vez de quedar como rechazo sin manejar
     const debouncedSave = debounce(async () => {
       const room = this.rooms.get(projectId);
       if (!room) return;
-      const toSave = this.snapshotFromDoc(room.ydoc, room.snapshot);
-      await this.prisma.diagram.update({
-        where: { projectId },
-        data: { snapshot: toSave as unknown as Prisma.InputJsonValue },
-      });
-      room.snapshot = toSave;
+      // Lo que llegue mientras se guarda vuelve a marcar la sala
+      room.unsaved = false;
+      try {
+        const toSave = this.snapshotFromDoc(room.ydoc, room.snapshot);
+        // Lo que se persiste puede no venir de snapshotBase64 (ver
+        // snapshotFromDoc): se valida igual que en el PUT
+        const issues = validateSnapshot(toSave);
+        if (issues.length) {
+          console.warn(
+            '[realtime] guardado descartado: snapshot inválido',
+            projectId,
+            issues,
+          );
+          return;
+        }
+        await this.prisma.diagram.update({
+          where: { projectId },
+          data: {
+            snapshot: toSave as unknown as Prisma.InputJsonValue,
+            revision: { increment: 1 },
+          },
+        });
+        room.snapshot = toSave;
+        await this.maybeCheckpoint(projectId, room);
+        const editors = [...room.pendingEditors];
+        room.pendingEditors.clear();
+        for (const userId of editors) {
+          await this.activity.recordDiagramSave(projectId, userId, 'realtime');
+        }
+      } catch (e) {
+        room.unsaved = true;
+        console.error('[realtime] no se pudo guardar la sala', projectId, e);
+      }
     }, 700);
     const state: RoomState = {
       ydoc,
       snapshot,
       debouncedSave,
+      lastEditorId: null,
+      hasLocalEdits: false,
+      unsaved: false,
+      lastCheckpointAt: Date.now(),
+      lastCheckpointHash: hashContent(snapshot),
+      pendingEditors: new Set(),
       presenceBySocket: new Map(),
       presenceByUser: new Map(),
     };
@@ -235,6 +389,29 @@ export class RealtimeService implements OnModuleInit {
     return state;
   }
 
+  /**
+   * Persiste ya lo que la sala tenga pendiente del guardado diferido.
+   * Devuelve false si el proyecto no tiene sala abierta en esta instancia.
+   */
+  async flush(projectId: string): Promise<boolean> {
+    const room = this.rooms.get(projectId);
+    if (!room) return false;
+    await room.debouncedSave.flush();
+    return true;
+  }
+
+  /**
+   * Cierra la sala (proyecto a la papelera): guarda lo pendiente y la
+   * olvida, así no quedan guardados diferidos sobre un proyecto purgado.
+   */
+  async disposeRoom(projectId: string) {
+    const room = this.rooms.get(projectId);
+    if (!room) return;
+    await room.debouncedSave.flush();
+    room.debouncedSave.cancel();
+    this.rooms.delete(projectId);
+  }
+
   // --- API Y.js ---
   getSyncUpdate(projectId: string): Uint8Array | null {
     const room = this.rooms.get(projectId);
@@ -242,18 +419,215 @@ export class RealtimeService implements OnModuleInit {
     return encodeStateAsUpdate(room.ydoc);
   }
 
-  applyRemoteUpdate(projectId: string, update: Uint8Array) {
+  /**
+   * Aplica el update de un cliente. Si deja el diagrama visible inválido
+   * (ver validateSnapshot), borra o corrompe `snapshotBase64` o toca algo
+   * que el editor no escribe (`root`, otras claves de `diagram`), se
+   * deshace: el update no se puede descartar sin desincronizar el Y.Doc
+   * del cliente. En ese caso devuelve los problemas y el update a difundir
+   * a todos (el del cliente más la reversión).
+   */
+  applyRemoteUpdate(
+    projectId: string,
+    update: Uint8Array,
+    authorId: string | null = null,
+  ): { issues: SnapshotIssue[]; revert: Uint8Array | null } {
     const room = this.rooms.get(projectId);
-    if (!room) return;
-    applyUpdate(room.ydoc, update);
-    room.debouncedSave();
+    if (!room) return { issues: [], revert: null };
+    const doc = room.ydoc;
+    const diagram = doc.getMap<any>('diagram');
+    const root = doc.getMap<any>('root');
+    const before = Y.encodeStateVector(doc);
+    const previousB64 = visibleBase64(doc);
+
+    const undo = new Y.UndoManager([diagram, root], {
+      trackedOrigins: new Set([CLIENT_UPDATE_ORIGIN]),
+      captureTimeout: 0,
+    });
+    let rootChanged = false;
+    const changedKeys = new Set<string>();
+    const onRoot = () => {
+      rootChanged = true;
+    };
+    const onDiagram = (e: Y.YMapEvent<any>) =>
+      e.changes.keys.forEach((_, k) => changedKeys.add(k));
+    root.observeDeep(onRoot);
+    diagram.observe(onDiagram);
+    try {
+      applyUpdate(doc, update, CLIENT_UPDATE_ORIGIN);
+    } finally {
+      root.unobserveDeep(onRoot);
+      diagram.unobserve(onDiagram);
+    }
+
+    const issues = this.checkClientUpdate(
+      doc,
+      rootChanged,
+      changedKeys,
+      visibleBase64(doc) !== previousB64,
+    );
+    let revert: Uint8Array | null = null;
+    if (issues.length) {
+      undo.undo();
+      revert = encodeStateAsUpdate(doc, before);
+    } else {
+      if (authorId) {
+        room.lastEditorId = authorId;
+        room.pendingEditors.add(authorId);
+      }
+      room.hasLocalEdits = true;
+      room.unsaved = true;
+      void room.debouncedSave();
+    }
+    undo.destroy();
     // publica para otras instancias
-    const msg = JSON.stringify({
-      sourceId: this.instanceId,
+    this.publishUpdate(projectId, revert ?? update);
+    return { issues, revert };
+  }
+
+  /** Problemas de lo que dejó un update de cliente (vacío = se acepta) */
+  private checkClientUpdate(
+    doc: Y.Doc,
+    rootChanged: boolean,
+    changedKeys: Set<string>,
+    visibleChanged: boolean,
+  ): SnapshotIssue[] {
+    if (rootChanged) {
+      return [{ path: 'root', message: 'no se puede modificar' }];
+    }
+    const foreign = [...changedKeys].find((k) => !CLIENT_DIAGRAM_KEYS.has(k));
+    if (foreign !== undefined) {
+      return [{ path: `diagram.${foreign}`, message: 'no se puede modificar' }];
+    }
+    if (!visibleChanged) return [];
+    const raw = decodeVisible(doc);
+    if (!raw) {
+      return [{ path: 'snapshotBase64', message: 'falta o no se puede leer' }];
+    }
+    const { nodes, edges } = raw;
+    if (!Array.isArray(nodes) || !Array.isArray(edges)) {
+      return validateSnapshot({ nodes, edges });
+    }
+    return validateSnapshot(migrateSnapshot({ nodes, edges }));
+  }
+
+  /**
+   * Reemplaza el contenido visible de la sala (p.ej. al restaurar una versión).
+   * Escribe en el mapa Y `diagram` igual que lo hace el editor, persiste y
+   * devuelve el update incremental para difundirlo a los sockets conectados.
+   * Con `expectedRevision` (If-Match del PUT) devuelve null si la revisión
+   * persistida no coincide o la sala tiene ediciones sin guardar.
+   * Lanza InvalidSnapshotException si el contenido no pasa la validación.
+   */
+  async replaceSnapshot(
+    projectId: string,
+    snapshot: { nodes: any[]; edges: any[]; schemaVersion?: number },
+    expectedRevision?: number,
+  ): Promise<Uint8Array | null> {
+    const next = prepareSnapshot(snapshot);
+    const room = await this.ensureRoom(projectId);
+    if (expectedRevision !== undefined) {
+      await room.debouncedSave.flush();
+      const { revision } = await this.prisma.diagram.findUniqueOrThrow({
+        where: { projectId },
+        select: { revision: true },
+      });
+      // Sin await entre esta comparación y la escritura en el Y.Doc: un
+      // update que llegue durante la lectura deja la sala en `unsaved`
+      if (room.unsaved || revision !== expectedRevision) return null;
+    }
+    const before = Y.encodeStateVector(room.ydoc);
+    writeVisibleSnapshot(room.ydoc, next);
+    const update = encodeStateAsUpdate(room.ydoc, before);
+
+    const toSave = this.snapshotFromDoc(room.ydoc, room.snapshot);
+    await this.prisma.diagram.update({
+      where: { projectId },
+      data: {
+        snapshot: toSave as unknown as Prisma.InputJsonValue,
+        revision: { increment: 1 },
+      },
+    });
+    room.snapshot = toSave;
+    // El contenido restaurado ya está versionado: no generar un AUTO encima
+    room.lastCheckpointHash = hashContent(toSave);
+
+    this.publishUpdate(projectId, update);
+    return update;
+  }
+
+  /**
+   * Aplica un lote de comandos de modelo (ver diagrams/diagram-commands)
+   * sobre lo que ven los clientes, todo o nada. Se guarda enseguida como
+   * una edición de `authorId` y devuelve el update para difundirlo.
+   */
+  async applyCommands(
+    projectId: string,
+    commands: unknown,
+    authorId: string | null,
+  ) {
+    const room = await this.ensureRoom(projectId);
+    const current = migrateSnapshot(
+      readVisibleSnapshot(room.ydoc) ?? room.snapshot,
+    );
+    const { results, ...cells } = applyDiagramCommands(current, commands);
+    const next = prepareSnapshot(cells);
+
+    const before = Y.encodeStateVector(room.ydoc);
+    writeVisibleSnapshot(room.ydoc, next);
+    const update = encodeStateAsUpdate(room.ydoc, before);
+    if (authorId) {
+      room.lastEditorId = authorId;
+      room.pendingEditors.add(authorId);
+    }
+    room.hasLocalEdits = true;
+    room.unsaved = true;
+    void room.debouncedSave();
+    await room.debouncedSave.flush();
+
+    this.publishUpdate(projectId, update);
+    return { update, results };
+  }
+
+  private publishUpdate(projectId: string, update: Uint8Array) {
+    this.publish('diagram:yupdate', {
       projectId,
       updateBase64: toBase64(update),
     });
-    this.pub.publish('diagram:yupdate', msg);
+  }
+
+  /** Aviso a las otras instancias; si Redis falla, esta sigue andando */
+  private publish(channel: string, payload: Record<string, unknown>) {
+    this.pub
+      .publish(
+        channel,
+        JSON.stringify({ sourceId: this.instanceId, ...payload }),
+      )
+      .catch((e) =>
+        console.error('[realtime] no se pudo publicar', channel, e),
+      );
+  }
+
+  /** Checkpoint AUTO del historial, como mucho uno por intervalo y sala */
+  private async maybeCheckpoint(projectId: string, room: RoomState) {
+    if (!room.hasLocalEdits) return;
+    const now = Date.now();
+    if (now - room.lastCheckpointAt < AUTO_VERSION_INTERVAL_MS) return;
+    const hash = hashContent(room.snapshot);
+    if (hash === room.lastCheckpointHash) return;
+
+    room.hasLocalEdits = false;
+    room.lastCheckpointAt = now;
+    room.lastCheckpointHash = hash;
+    const { nodes, edges, updatedAt } = room.snapshot;
+    await this.prisma.diagramVersion.create({
+      data: {
+        projectId,
+        authorId: room.lastEditorId,
+        kind: 'AUTO',
+        snapshot: { nodes, edges, updatedAt } as Prisma.InputJsonValue,
+      },
+    });
   }
 
   // --- Presencia ---
@@ -299,15 +673,7 @@ export class RealtimeService implements OnModuleInit {
       room.presenceByUser.set(userId, arr);
     }
     // publica join
-    this.pub.publish(
-      'diagram:presence',
-      JSON.stringify({
-        sourceId: this.instanceId,
-        type: 'join',
-        projectId,
-        ...state,
-      }),
-    );
+    this.publish('diagram:presence', { type: 'join', projectId, ...state });
     return state;
   }
 
@@ -318,15 +684,7 @@ export class RealtimeService implements OnModuleInit {
     if (!st) return null;
     st.lastSeen = Date.now();
     // publica heartbeat
-    this.pub.publish(
-      'diagram:presence',
-      JSON.stringify({
-        sourceId: this.instanceId,
-        type: 'heartbeat',
-        projectId,
-        ...st,
-      }),
-    );
+    this.publish('diagram:presence', { type: 'heartbeat', projectId, ...st });
     return st;
   }
 
@@ -343,15 +701,7 @@ export class RealtimeService implements OnModuleInit {
       else room.presenceByUser.delete(st.userId);
     }
     // publica leave
-    this.pub.publish(
-      'diagram:presence',
-      JSON.stringify({
-        sourceId: this.instanceId,
-        type: 'leave',
-        projectId,
-        ...st,
-      }),
-    );
+    this.publish('diagram:presence', { type: 'leave', projectId, ...st });
     return st;
   }
 
@@ -374,15 +724,7 @@ export class RealtimeService implements OnModuleInit {
             else room.presenceByUser.delete(p.userId);
           }
           // publica expiración como leave
-          this.pub.publish(
-            'diagram:presence',
-            JSON.stringify({
-              sourceId: this.instanceId,
-              type: 'leave',
-              projectId,
-              ...p,
-            }),
-          );
+          this.publish('diagram:presence', { type: 'leave', projectId, ...p });
         }
       }
     }
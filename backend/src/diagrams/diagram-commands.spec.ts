@@ -0,0 +1,141 @@
+import {
+  InvalidCommandException,
+  applyDiagramCommands,
+} from './diagram-commands';
+import { validateSnapshot } from './snapshot-schema';
+import { toUmlModel } from './uml-model';
+import { cls } from './fixtures/cells';
+
+const base = () => ({
+  nodes: [
+    cls('c1', 'Cliente', { attributes: ['id: Long', 'nombre: String'] }),
+    cls('c2', 'Pedido'),
+  ],
+  edges: [
+    {
+      id: 'e1',
+      shape: 'edge',
+      source: { cell: 'c1' },
+      target: { cell: 'c2' },
+      data: { multSource: '1', multTarget: '*' },
+    },
+  ],
+});
+
+const ids = () => {
+  let n = 0;
+  return () => `n${++n}`;
+};
+
+describe('diagram-commands', () => {
+  it('agrega clases y relaciones por nombre', () => {
+    const snap = base();
+    const res = applyDiagramCommands(
+      snap,
+      [
+        { op: 'addClass', name: 'Producto', attributes: ['precio: Double'] },
+        {
+          op: 'addRelation',
+          source: 'pedido',
+          target: 'Producto',
+          kind: 'comp',
+          multTarget: '1..*',
+        },
+      ],
+      ids(),
+    );
+
+    expect(res.results).toEqual([
+      { op: 'addClass', id: 'n1' },
+      { op: 'addRelation', id: 'n2' },
+    ]);
+    expect(snap.nodes).toHaveLength(2);
+    expect(validateSnapshot(res)).toEqual([]);
+
+    const model = toUmlModel(res);
+    expect(model.classes[2]).toMatchObject({
+      id: 'n1',
+      name: 'Producto',
+      attributes: [{ name: 'precio', type: 'Double' }],
+    });
+    expect(model.relations[1]).toMatchObject({
+      kind: 'comp',
+      source: { classId: 'c2' },
+      target: { classId: 'n1', multiplicityText: '1..*' },
+    });
+  });
+
+  it('edita nombre, atributos y multiplicidades', () => {
+    const res = applyDiagramCommands(base(), [
+      { op: 'renameClass', class: 'c1', name: 'Persona' },
+      { op: 'addAttribute', class: 'Persona', attribute: 'email: String' },
+      { op: 'removeAttribute', class: 'Persona', attribute: 'nombre' },
+      { op: 'setMultiplicity', relation: 'e1', target: '0..*' },
+    ]);
+
+    const [persona] = res.nodes;
+    expect(persona.data).toMatchObject({
+      name: 'Persona',
+      attributes: ['id: Long', 'email: String'],
+    });
+    // El texto que pinta el editor sigue a data
+    expect(persona.attrs.name.text).toBe('Persona');
+    expect(persona.attrs.attrs.text).toBe('id: Long\nemail: String');
+    expect(res.edges[0].data).toEqual({ multSource: '1', multTarget: '0..*' });
+  });
+
+  it('al borrar una clase se lleva sus relaciones', () => {
+    const res = applyDiagramCommands(base(), [
+      { op: 'deleteElement', id: 'c2' },
+    ]);
+    expect(res.nodes.map((n) => n.id)).toEqual(['c1']);
+    expect(res.edges).toEqual([]);
+
+    expect(
+      applyDiagramCommands(base(), [{ op: 'deleteElement', id: 'e1' }]).edges,
+    ).toEqual([]);
+  });
+
+  it('es todo o nada e indica qué comando falló', () => {
+    const snap = base();
+    const run = (commands: unknown) => {
+      try {
+        applyDiagramCommands(snap, commands);
+      } catch (e) {
+        return (e as InvalidCommandException).getResponse();
+      }
+    };
+
+    expect(
+      run([
+        { op: 'addClass', name: 'Producto' },
+        { op: 'addClass', name: 'cliente' },
+      ]),
+    ).toMatchObject({
+      message: 'Comando 2 (addClass): ya existe una clase "cliente"',
+      index: 1,
+    });
+    expect(
+      run([{ op: 'addAttribute', class: 'c1', attribute: 'id' }]),
+    ).toMatchObject({
+      index: 0,
+    });
+    expect(
+      run([{ op: 'setMultiplicity', relation: 'e1', source: 'uno' }]),
+    ).toMatchObject({
+      message:
+        'Comando 1 (setMultiplicity): "uno" no es una multiplicidad válida',
+    });
+    expect(
+      run([{ op: 'addRelation', source: 'c1', target: 'c2', kind: 'nav' }]),
+    ).toMatchObject({
+      index: 0,
+    });
+    expect(run([{ op: 'deleteElement', id: 'x' }])).toMatchObject({ index: 0 });
+    expect(run([{ op: 'moverClase' }])).toMatchObject({
+      message: 'Comando 1 (moverClase): operación desconocida',
+    });
+    expect(run([])).toMatchObject({ statusCode: 400 });
+    expect(snap).toEqual(base());
+  });
+});
@@ -0,0 +1,446 @@
+// src/diagrams/diagram-commands.ts
+/**
+ * Operaciones de modelo sobre el snapshot X6 (bots, asistente IA, scripts).
+ *
+ * Cada comando referencia clases por id o por nombre y relaciones por id.
+ * `applyDiagramCommands` trabaja sobre una copia y es todo o nada: si un
+ * comando falla se lanza InvalidCommandException y no se aplica ninguno.
+ *
+ * Las celdas nuevas llevan lo mínimo que el editor necesita para pintarlas
+ * (al renderizar recalcula alto, puertos y etiquetas), con el mismo formato
+ * que generan handleAddClassFromAI / handleAddRelationFromAI.
+ */
+import { BadRequestException } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import {
+  endpointId,
+  parseAttribute,
+  parseMultiplicity,
+  readClassText,
+  relationType,
+} from './uml-model';
+
+/** Id o nombre de una clase */
+export type ClassRef = string;
+
+export type CommandRelationKind =
+  | 'assoc'
+  | 'assoc_direct'
+  | 'aggr'
+  | 'comp'
+  | 'dep'
+  | 'inherit';
+
+export type DiagramCommand =
+  | {
+      op: 'addClass';
+      name: string;
+      attributes?: string[];
+      methods?: string[];
+      isAbstract?: boolean;
+      isInterface?: boolean;
+      position?: { x: number; y: number };
+    }
+  | { op: 'renameClass'; class: ClassRef; name: string }
+  | { op: 'addAttribute'; class: ClassRef; attribute: string }
+  /** `attribute` es el nombre del atributo (o la línea completa) */
+  | { op: 'removeAttribute'; class: ClassRef; attribute: string }
+  | {
+      op: 'addRelation';
+      source: ClassRef;
+      target: ClassRef;
+      kind?: CommandRelationKind;
+      name?: string;
+      multSource?: string;
+      multTarget?: string;
+      navigationProperty?: string;
+    }
+  /** Lo que no venga queda igual; '' borra la multiplicidad */
+  | {
+      op: 'setMultiplicity';
+      relation: string;
+      source?: string;
+      target?: string;
+    }
+  /** Clase (con sus relaciones) o relación */
+  | { op: 'deleteElement'; id: string };
+
+export type CommandOp = DiagramCommand['op'];
+
+/** Por comando, la celda creada o afectada */
+export type CommandResult = { op: CommandOp; id: string };
+
+export const MAX_COMMANDS = 100;
+
+/** 400 del lote: qué comando falló (base 0 en `index`) */
+export class InvalidCommandException extends BadRequestException {
+  constructor(index: number, op: unknown, message: string) {
+    super({
+      statusCode: 400,
+      message: `Comando ${index + 1} (${String(op)}): ${message}`,
+      index,
+    });
+  }
+}
+
+/** Error de un comando; applyDiagramCommands le agrega la posición */
+class CommandError extends Error {}
+
+/* ===================== Celdas ===================== */
+
+// Mismo tamaño inicial y grilla que el editor (CLASS_SIZES, handleAddClassFromAI)
+export const CLASS_WIDTH = 160;
+export const CLASS_HEIGHT = 100;
+export const GRID = { startX: 200, startY: 150, spacing: 250 };
+
+// Mismos trazos que EDGE_STYLE del editor. Los marcadores van siempre
+// (null incluido): la forma 'edge' de X6 trae una flecha por defecto.
+const EDGE_LINE: Record<CommandRelationKind, Record<string, unknown>> = {
+  assoc: { stroke: '#374151', strokeWidth: 1.5 },
+  assoc_direct: {
+    stroke: '#374151',
+    strokeWidth: 1.5,
+    targetMarker: { name: 'block', width: 12, height: 9 },
+  },
+  aggr: {
+    stroke: '#111827',
+    strokeWidth: 1.6,
+    targetMarker: { name: 'diamond', width: 14, height: 12, fill: '#ffffff' },
+  },
+  comp: {
+    stroke: '#111827',
+    strokeWidth: 1.8,
+    targetMarker: { name: 'diamond', width: 14, height: 12, fill: '#111827' },
+  },
+  dep: {
+    stroke: '#6B7280',
+    strokeWidth: 1.2,
+    strokeDasharray: 4,
+    targetMarker: { name: 'classic', width: 12, height: 9 },
+  },
+  inherit: {
+    stroke: '#111827',
+    strokeWidth: 1.6,
+    targetMarker: { name: 'classic', width: 16, height: 10, fill: 'none' },
+  },
+};
+
+const RELATION_KINDS = Object.keys(EDGE_LINE) as CommandRelationKind[];
+
+/** Posición libre siguiente en la grilla (como el asistente del editor) */
+function nextPosition(nodes: any[]) {
+  const count = nodes.length;
+  const cols = Math.ceil(Math.sqrt(count + 1));
+  return {
+    x: GRID.startX + (count % cols) * GRID.spacing,
+    y: GRID.startY + Math.floor(count / cols) * GRID.spacing,
+  };
+}
+
+type ClassContent = { name: string; attributes: string[]; methods: string[] };
+
+/** data y textos de la clase siempre juntos */
+function writeClass(node: any, content: ClassContent) {
+  node.data = { ...(node.data ?? {}), ...content };
+  node.attrs = {
+    ...(node.attrs ?? {}),
+    name: { ...(node.attrs?.name ?? {}), text: content.name },
+    attrs: {
+      ...(node.attrs?.attrs ?? {}),
+      text: content.attributes.join('\n'),
+    },
+    methods: {
+      ...(node.attrs?.methods ?? {}),
+      text: content.methods.join('\n'),
+    },
+  };
+}
+
+/** Clase nueva con el tamaño inicial del editor */
+export function createClassNode(
+  id: string,
+  position: { x: number; y: number },
+  content: ClassContent,
+  flags: { isAbstract?: boolean; isInterface?: boolean } = {},
+) {
+  const node: any = {
+    id,
+    shape: 'uml-class',
+    position,
+    size: { width: CLASS_WIDTH, height: CLASS_HEIGHT },
+    zIndex: 2,
+  };
+  writeClass(node, content);
+  if (flags.isAbstract) node.data.isAbstract = true;
+  if (flags.isInterface) node.data.isInterface = true;
+  return node;
+}
+
+/** Relación nueva con el trazo de su tipo; `data` se suma al de base */
+export function createRelationEdge(
+  id: string,
+  sourceId: string,
+  targetId: string,
+  kind: CommandRelationKind,
+  data: Record<string, unknown> = {},
+) {
+  return {
+    id,
+    shape: 'edge',
+    source: { cell: sourceId },
+    target: { cell: targetId },
+    attrs: {
+      line: { sourceMarker: null, targetMarker: null, ...EDGE_LINE[kind] },
+    },
+    zIndex: 1000,
+    data: {
+      name: '',
+      multSource: '',
+      multTarget: '',
+      type: kind,
+      routerType: 'orth',
+      connectorType: 'rounded',
+      ...data,
+    },
+  };
+}
+
+/* ===================== Lectura de argumentos ===================== */
+
+function text(cmd: any, key: string): string {
+  const v = cmd[key];
+  if (typeof v !== 'string' || !v.trim()) {
+    throw new CommandError(`"${key}" es obligatorio`);
+  }
+  return v.trim();
+}
+
+function optionalText(cmd: any, key: string): string | undefined {
+  const v = cmd[key];
+  if (v === undefined || v === null) return undefined;
+  if (typeof v !== 'string') throw new CommandError(`"${key}" debe ser texto`);
+  return v.trim();
+}
+
+function lines(cmd: any, key: string): string[] {
+  const v = cmd[key];
+  if (v === undefined) return [];
+  if (!Array.isArray(v) || v.some((l) => typeof l !== 'string')) {
+    throw new CommandError(`"${key}" debe ser una lista de textos`);
+  }
+  return (v as string[]).map((l) => l.trim()).filter(Boolean);
+}
+
+function multiplicity(cmd: any, key: string): string | undefined {
+  const v = optionalText(cmd, key);
+  if (v && !parseMultiplicity(v)) {
+    throw new CommandError(`"${v}" no es una multiplicidad válida`);
+  }
+  return v;
+}
+
+/* ===================== Aplicación ===================== */
+
+type Cells = { nodes: any[]; edges: any[] };
+
+const sameName = (a: string, b: string) =>
+  a.trim().toLowerCase() === b.trim().toLowerCase();
+
+function findClass(cells: Cells, ref: string) {
+  const classes = cells.nodes.filter((n) => n?.shape === 'uml-class');
+  const byId = classes.find((n) => n.id === ref);
+  if (byId) return byId;
+  const byName = classes.filter((n) => sameName(readClassText(n).name, ref));
+  if (byName.length > 1) {
+    throw new CommandError(`hay ${byName.length} clases llamadas "${ref}"`);
+  }
+  if (!byName.length) throw new CommandError(`no existe la clase "${ref}"`);
+  return byName[0];
+}
+
+function findRelation(cells: Cells, id: string) {
+  const edge = cells.edges.find((e) => e?.id === id);
+  if (!edge) throw new CommandError(`no existe la relación "${id}"`);
+  return edge;
+}
+
+function assertFreeName(cells: Cells, name: string, except?: any) {
+  const taken = cells.nodes.some(
+    (n) =>
+      n?.shape === 'uml-class' &&
+      n !== except &&
+      sameName(readClassText(n).name, name),
+  );
+  if (taken) throw new CommandError(`ya existe una clase "${name}"`);
+}
+
+function applyOne(cells: Cells, cmd: any, newId: () => string): string {
+  switch (cmd.op as CommandOp) {
+    case 'addClass': {
+      const name = text(cmd, 'name');
+      assertFreeName(cells, name);
+      const { position } = cmd;
+      const valid =
+        Number.isFinite(position?.x) && Number.isFinite(position?.y);
+      if (position !== undefined && !valid) {
+        throw new CommandError('"position" debe tener x e y numéricos');
+      }
+      const node = createClassNode(
+        newId(),
+        valid ? { x: position.x, y: position.y } : nextPosition(cells.nodes),
+        {
+          name,
+          attributes: lines(cmd, 'attributes'),
+          methods: lines(cmd, 'methods'),
+        },
+        {
+          isAbstract: cmd.isAbstract === true,
+          isInterface: cmd.isInterface === true,
+        },
+      );
+      cells.nodes.push(node);
+      return node.id;
+    }
+
+    case 'renameClass': {
+      const node = findClass(cells, text(cmd, 'class'));
+      const name = text(cmd, 'name');
+      assertFreeName(cells, name, node);
+      writeClass(node, { ...readClassText(node), name });
+      return node.id;
+    }
+
+    case 'addAttribute': {
+      const node = findClass(cells, text(cmd, 'class'));
+      const line = text(cmd, 'attribute');
+      const { name } = parseAttribute(line);
+      const current = readClassText(node);
+      if (current.attributes.some((a) => parseAttribute(a).name === name)) {
+        throw new CommandError(`la clase ya tiene el atributo "${name}"`);
+      }
+      writeClass(node, {
+        ...current,
+        attributes: [...current.attributes, line],
+      });
+      return node.id;
+    }
+
+    case 'removeAttribute': {
+      const node = findClass(cells, text(cmd, 'class'));
+      const { name } = parseAttribute(text(cmd, 'attribute'));
+      const current = readClassText(node);
+      const attributes = current.attributes.filter(
+        (a) => parseAttribute(a).name !== name,
+      );
+      if (attributes.length === current.attributes.length) {
+        throw new CommandError(`la clase no tiene el atributo "${name}"`);
+      }
+      writeClass(node, { ...current, attributes });
+      return node.id;
+    }
+
+    case 'addRelation': {
+      const source = findClass(cells, text(cmd, 'source'));
+      const target = findClass(cells, text(cmd, 'target'));
+      const kind = (cmd.kind ?? 'assoc') as CommandRelationKind;
+      if (!RELATION_KINDS.includes(kind)) {
+        throw new CommandError(`"${String(kind)}" no es un tipo de relación`);
+      }
+      const data: Record<string, unknown> = {
+        name: optionalText(cmd, 'name') ?? '',
+        multSource: multiplicity(cmd, 'multSource') ?? '',
+        multTarget: multiplicity(cmd, 'multTarget') ?? '',
+      };
+      const role = optionalText(cmd, 'navigationProperty');
+      if (role) data.navigationProperty = role;
+      const edge = createRelationEdge(
+        newId(),
+        source.id,
+        target.id,
+        kind,
+        data,
+      );
+      cells.edges.push(edge);
+      return edge.id;
+    }
+
+    case 'setMultiplicity': {
+      const edge = findRelation(cells, text(cmd, 'relation'));
+      if (relationType(edge) === 'inherit') {
+        throw new CommandError('la herencia no tiene multiplicidades');
+      }
+      const source = multiplicity(cmd, 'source');
+      const target = multiplicity(cmd, 'target');
+      if (source === undefined && target === undefined) {
+        throw new CommandError('indica "source" o "target"');
+      }
+      edge.data = {
+        ...(edge.data ?? {}),
+        ...(source !== undefined && { multSource: source }),
+        ...(target !== undefined && { multTarget: target }),
+      };
+      return edge.id;
+    }
+
+    case 'deleteElement': {
+      const id = text(cmd, 'id');
+      const edgeIdx = cells.edges.findIndex((e) => e?.id === id);
+      if (edgeIdx >= 0) {
+        cells.edges.splice(edgeIdx, 1);
+        return id;
+      }
+      const node = cells.nodes.find(
+        (n) => n?.id === id && n.shape === 'uml-class',
+      );
+      if (!node) throw new CommandError(`no existe el elemento "${id}"`);
+      cells.nodes = cells.nodes.filter((n) => n !== node);
+      // Sin extremos colgando
+      cells.edges = cells.edges.filter(
+        (e) => endpointId(e?.source) !== id && endpointId(e?.target) !== id,
+      );
+      return id;
+    }
+
+    default:
+      throw new CommandError('operación desconocida');
+  }
+}
+
+/**
+ * Aplica el lote sobre una copia de `snapshot` y devuelve las celdas
+ * resultantes con un resultado por comando.
+ */
+export function applyDiagramCommands(
+  snapshot: Cells,
+  commands: unknown,
+  newId: () => string = randomUUID,
+): Cells & { results: CommandResult[] } {
+  if (!Array.isArray(commands) || !commands.length) {
+    throw new BadRequestException('commands debe ser una lista no vacía');
+  }
+  if (commands.length > MAX_COMMANDS) {
+    throw new BadRequestException(
+      `Como máximo ${MAX_COMMANDS} comandos por pedido`,
+    );
+  }
+
+  const cells = structuredClone({
+    nodes: snapshot.nodes,
+    edges: snapshot.edges,
+  });
+  const results = commands.map((cmd: any, index) => {
+    const op = cmd?.op;
+    try {
+      if (!cmd || typeof cmd !== 'object') {
+        throw new CommandError('debe ser un objeto');
+      }
+      return { op, id: applyOne(cells, cmd, newId) } as CommandResult;
+    } catch (e) {
+      if (e instanceof CommandError) {
+        throw new InvalidCommandException(index, op, e.message);
+      }
+      throw e;
+    }
+  });
+  return { ...cells, results };
+}
@@ -0,0 +1,132 @@
+import { diffSnapshots } from './diagram-diff';
+import { cls, rel } from './fixtures/cells';
+
+describe('diffSnapshots', () => {
+  it('ignora posiciones, puertos y attrs visuales', () => {
+    const a = {
+      nodes: [cls('c1', 'Cliente', { attributes: ['id: Long'] })],
+      edges: [rel('e1', 'c1', 'c1')],
+    };
+    const b = {
+      nodes: [
+        cls(
+          'c1',
+          'Cliente',
+          { attributes: ['id: Long'] },
+          { position: { x: 300, y: 80 } },
+        ),
+      ],
+      edges: [
+        {
+          ...rel('e1', 'c1', 'c1'),
+          source: { cell: 'c1', port: 't0' },
+          attrs: { line: { stroke: '#f00' } },
+        },
+      ],
+    };
+    const d = diffSnapshots(a, b);
+    expect(d.summary).toEqual([]);
+    expect(d.cells).toEqual({});
+  });
+
+  it('detecta clases agregadas, eliminadas y renombradas', () => {
+    const a = {
+      nodes: [cls('c1', 'Cliente'), cls('c2', 'Factura')],
+      edges: [],
+    };
+    const b = {
+      nodes: [cls('c1', 'Customer'), cls('c3', 'Pedido')],
+      edges: [],
+    };
+    const d = diffSnapshots(a, b);
+
+    expect(d.classes.added).toEqual([{ id: 'c3', name: 'Pedido' }]);
+    expect(d.classes.removed.map((c) => c.name)).toEqual(['Factura']);
+    expect(d.classes.removed[0].bbox).toEqual({
+      x: 0,
+      y: 0,
+      width: 180,
+      height: 100,
+    });
+    expect(d.classes.changed[0]).toMatchObject({
+      id: 'c1',
+      name: 'Customer',
+      renamedFrom: 'Cliente',
+    });
+    expect(d.cells).toEqual({ c1: 'changed', c2: 'removed', c3: 'added' });
+  });
+
+  it('compara atributos y métodos por nombre', () => {
+    const a = {
+      nodes: [
+        cls('c1', 'Cliente', {
+          attributes: ['id: Long', 'nombre: String'],
+          methods: ['pagar(): void'],
+        }),
+      ],
+      edges: [],
+    };
+    const b = {
+      nodes: [
+        cls('c1', 'Cliente', {
+          attributes: ['id: Long', 'nombre: Text', 'email: String'],
+        }),
+      ],
+      edges: [],
+    };
+    const [change] = diffSnapshots(a, b).classes.changed;
+
+    expect(change.attributes).toEqual({
+      added: ['email: String'],
+      removed: [],
+      changed: [{ name: 'nombre', from: 'nombre: String', to: 'nombre: Text' }],
+    });
+    expect(change.methods.removed).toEqual(['pagar(): void']);
+  });
+
+  it('detecta cambios de tipo y multiplicidad en relaciones', () => {
+    const nodes = [cls('c1', 'Cliente'), cls('c2', 'Pedido')];
+    const a = {
+      nodes,
+      edges: [rel('e1', 'c1', 'c2', { type: 'assoc', multSource: '1' })],
+    };
+    const b = {
+      nodes,
+      edges: [
+        rel('e1', 'c1', 'c2', {
+          type: 'comp',
+          sourceMultiplicity: undefined,
+          multSource: '1',
+          multTarget: '0..*',
+        }),
+      ],
+    };
+    const d = diffSnapshots(a, b);
+
+    expect(d.relations.changed).toEqual([
+      {
+        id: 'e1',
+        source: 'Cliente',
+        target: 'Pedido',
+        type: 'comp',
+        changes: {
+          type: { from: 'assoc', to: 'comp' },
+          multTarget: { from: '', to: '0..*' },
+        },
+      },
+    ]);
+    expect(d.cells.e1).toBe('changed');
+  });
+
+  it('infiere el tipo de relación desde los marcadores cuando no hay data.type', () => {
+    const nodes = [cls('c1', 'Animal'), cls('c2', 'Perro')];
+    const inherit = {
+      ...rel('e1', 'c2', 'c1'),
+      attrs: { line: { targetMarker: { name: 'block', fill: '#ffffff' } } },
+    };
+    const d = diffSnapshots({ nodes, edges: [] }, { nodes, edges: [inherit] });
+    expect(d.relations.added).toEqual([
+      { id: 'e1', source: 'Perro', target: 'Animal', type: 'inherit' },
+    ]);
+  });
+});
@@ -0,0 +1,301 @@
+// src/diagrams/diagram-diff.ts
+/**
+ * Diff semántico (nivel UML) entre dos snapshots X6.
+ * Solo compara lo que importa al modelo: nombres de clase, atributos,
+ * métodos y relaciones (tipo + multiplicidades). Posiciones, puertos,
+ * routers y attrs visuales se ignoran.
+ */
+import {
+  endpointId,
+  readClassText,
+  relationType,
+  type Snapshot,
+} from './uml-model';
+
+export type { Snapshot };
+
+export type DiffStatus = 'added' | 'removed' | 'changed';
+
+export type BBox = { x: number; y: number; width: number; height: number };
+
+export type UmlClass = {
+  id: string;
+  name: string;
+  attributes: string[];
+  methods: string[];
+  bbox: BBox | null;
+};
+
+export type UmlRelation = {
+  id: string;
+  source: string | null;
+  target: string | null;
+  type: string;
+  name: string;
+  multSource: string;
+  multTarget: string;
+};
+
+export type MemberChanges = {
+  added: string[];
+  removed: string[];
+  changed: { name: string; from: string; to: string }[];
+};
+
+export type ClassChange = {
+  id: string;
+  name: string;
+  renamedFrom?: string;
+  attributes: MemberChanges;
+  methods: MemberChanges;
+};
+
+export type RelationRef = {
+  id: string;
+  source: string;
+  target: string;
+  type: string;
+};
+
+export type RelationChange = RelationRef & {
+  changes: Partial<
+    Record<
+      'type' | 'name' | 'multSource' | 'multTarget',
+      { from: string; to: string }
+    >
+  >;
+};
+
+export type DiagramDiff = {
+  classes: {
+    added: { id: string; name: string }[];
+    removed: { id: string; name: string; bbox: BBox | null }[];
+    changed: ClassChange[];
+  };
+  relations: {
+    added: RelationRef[];
+    removed: RelationRef[];
+    changed: RelationChange[];
+  };
+  /** Estado por id de celda, para pintar el overlay en el editor */
+  cells: Record<string, DiffStatus>;
+  /** Lista legible de cambios (en orden: clases y luego relaciones) */
+  summary: string[];
+};
+
+/* ===================== Extracción ===================== */
+
+export function readClass(node: any): UmlClass {
+  const pos = node?.position;
+  const size = node?.size;
+  return {
+    id: String(node?.id),
+    ...readClassText(node),
+    bbox:
+      pos && size
+        ? { x: pos.x, y: pos.y, width: size.width, height: size.height }
+        : null,
+  };
+}
+
+export function readRelation(edge: any): UmlRelation {
+  const data = edge?.data ?? {};
+  return {
+    id: String(edge?.id),
+    source: endpointId(edge?.source),
+    target: endpointId(edge?.target),
+    type: relationType(edge),
+    name: String(data.name ?? '').trim(),
+    multSource: String(data.multSource ?? data.sourceMultiplicity ?? '').trim(),
+    multTarget: String(data.multTarget ?? data.targetMultiplicity ?? '').trim(),
+  };
+}
+
+/* ===================== Comparación ===================== */
+
+/** "nombre: tipo" → "nombre";  "metodo(a: int): void" → "metodo" */
+export function memberKey(line: string) {
+  return line
+    .replace(/^[+\-#~]\s*/, '')
+    .split(/[:(]/)[0]
+    .trim()
+    .toLowerCase();
+}
+
+function diffMembers(before: string[], after: string[]): MemberChanges {
+  const byKey = (arr: string[]) => {
+    const m = new Map<string, string>();
+    arr.forEach((l) => m.set(memberKey(l) || l, l));
+    return m;
+  };
+  const a = byKey(before);
+  const b = byKey(after);
+  const res: MemberChanges = { added: [], removed: [], changed: [] };
+  for (const [k, line] of b) {
+    const prev = a.get(k);
+    if (prev === undefined) res.added.push(line);
+    else if (prev !== line) res.changed.push({ name: k, from: prev, to: line });
+  }
+  for (const [k, line] of a) if (!b.has(k)) res.removed.push(line);
+  return res;
+}
+
+function isEmptyMembers(m: MemberChanges) {
+  return !m.added.length && !m.removed.length && !m.changed.length;
+}
+
+/**
+ * Empareja clases por id; las que quedan sueltas se emparejan por nombre
+ * (p.ej. una clase borrada y vuelta a crear con el mismo nombre).
+ */
+function matchClasses(before: UmlClass[], after: UmlClass[]) {
+  const pairs: [UmlClass, UmlClass][] = [];
+  const afterById = new Map(after.map((c) => [c.id, c]));
+  const leftBefore: UmlClass[] = [];
+  const usedAfter = new Set<string>();
+
+  for (const c of before) {
+    const m = afterById.get(c.id);
+    if (m) {
+      pairs.push([c, m]);
+      usedAfter.add(m.id);
+    } else leftBefore.push(c);
+  }
+  const removed: UmlClass[] = [];
+  for (const c of leftBefore) {
+    const m = after.find(
+      (x) => !usedAfter.has(x.id) && x.name && x.name === c.name,
+    );
+    if (m) {
+      pairs.push([c, m]);
+      usedAfter.add(m.id);
+    } else removed.push(c);
+  }
+  const added = after.filter((c) => !usedAfter.has(c.id));
+  return { pairs, added, removed };
+}
+
+export function diffSnapshots(
+  beforeSnap: Snapshot,
+  afterSnap: Snapshot,
+): DiagramDiff {
+  const before = (beforeSnap?.nodes ?? []).map(readClass);
+  const after = (afterSnap?.nodes ?? []).map(readClass);
+  const { pairs, added, removed } = matchClasses(before, after);
+
+  const diff: DiagramDiff = {
+    classes: { added: [], removed: [], changed: [] },
+    relations: { added: [], removed: [], changed: [] },
+    cells: {},
+    summary: [],
+  };
+
+  // id (antes) → id (después), para reconocer relaciones entre clases re-creadas
+  const idMap = new Map<string, string>(pairs.map(([a, b]) => [a.id, b.id]));
+  const nameBefore = new Map(before.map((c) => [c.id, c.name]));
+  const nameAfter = new Map(after.map((c) => [c.id, c.name]));
+
+  for (const c of added) {
+    diff.classes.added.push({ id: c.id, name: c.name });
+    diff.cells[c.id] = 'added';
+    diff.summary.push(`Clase agregada: ${c.name}`);
+  }
+  for (const c of removed) {
+    diff.classes.removed.push({ id: c.id, name: c.name, bbox: c.bbox });
+    diff.cells[c.id] = 'removed';
+    diff.summary.push(`Clase eliminada: ${c.name}`);
+  }
+  for (const [a, b] of pairs) {
+    const attributes = diffMembers(a.attributes, b.attributes);
+    const methods = diffMembers(a.methods, b.methods);
+    const renamed = a.name !== b.name;
+    if (!renamed && isEmptyMembers(attributes) && isEmptyMembers(methods)) {
+      continue;
+    }
+    diff.classes.changed.push({
+      id: b.id,
+      name: b.name,
+      ...(renamed ? { renamedFrom: a.name } : {}),
+      attributes,
+      methods,
+    });
+    diff.cells[b.id] = 'changed';
+    if (renamed) diff.summary.push(`Clase renombrada: ${a.name} → ${b.name}`);
+    const describe = (what: string, m: MemberChanges) => {
+      m.added.forEach((l) =>
+        diff.summary.push(`${b.name}: ${what} agregado ${l}`),
+      );
+      m.removed.forEach((l) =>
+        diff.summary.push(`${b.name}: ${what} eliminado ${l}`),
+      );
+      m.changed.forEach((c) =>
+        diff.summary.push(`${b.name}: ${what} ${c.from} → ${c.to}`),
+      );
+    };
+    describe('atributo', attributes);
+    describe('método', methods);
+  }
+
+  // ----- Relaciones -----
+  const relBefore = (beforeSnap?.edges ?? []).map(readRelation);
+  const relAfter = (afterSnap?.edges ?? []).map(readRelation);
+  const afterRelById = new Map(relAfter.map((r) => [r.id, r]));
+  const endsKey = (s: string | null, t: string | null) => `${s}→${t}`;
+  const usedRel = new Set<string>();
+
+  const ref = (r: UmlRelation, names: Map<string, string>): RelationRef => ({
+    id: r.id,
+    source: names.get(r.source ?? '') ?? r.source ?? '?',
+    target: names.get(r.target ?? '') ?? r.target ?? '?',
+    type: r.type,
+  });
+
+  for (const r of relBefore) {
+    let m = afterRelById.get(r.id);
+    if (!m) {
+      const s = r.source ? (idMap.get(r.source) ?? r.source) : null;
+      const t = r.target ? (idMap.get(r.target) ?? r.target) : null;
+      m = relAfter.find(
+        (x) =>
+          !usedRel.has(x.id) &&
+          !relBefore.some((y) => y.id === x.id) &&
+          endsKey(x.source, x.target) === endsKey(s, t),
+      );
+    }
+    if (!m) {
+      const rr = ref(r, nameBefore);
+      diff.relations.removed.push(rr);
+      diff.cells[r.id] = 'removed';
+      diff.summary.push(
+        `Relación eliminada: ${rr.source} → ${rr.target} (${rr.type})`,
+      );
+      continue;
+    }
+    usedRel.add(m.id);
+    const changes: RelationChange['changes'] = {};
+    for (const k of ['type', 'name', 'multSource', 'multTarget'] as const) {
+      if (r[k] !== m[k]) changes[k] = { from: r[k], to: m[k] };
+    }
+    if (!Object.keys(changes).length) continue;
+    const rr = ref(m, nameAfter);
+    diff.relations.changed.push({ ...rr, changes });
+    diff.cells[m.id] = 'changed';
+    const parts = Object.entries(changes).map(
+      ([k, v]) => `${k}: ${v.from || '∅'} → ${v.to || '∅'}`,
+    );
+    diff.summary.push(
+      `Relación ${rr.source} → ${rr.target} modificada (${parts.join(', ')})`,
+    );
+  }
+  for (const r of relAfter) {
+    if (usedRel.has(r.id)) continue;
+    const rr = ref(r, nameAfter);
+    diff.relations.added.push(rr);
+    diff.cells[r.id] = 'added';
+    diff.summary.push(
+      `Relación agregada: ${rr.source} → ${rr.target} (${rr.type})`,
+    );
+  }
+
+  return diff;
+}
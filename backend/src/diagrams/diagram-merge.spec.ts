@@ -0,0 +1,143 @@
+import { mergeSnapshots } from './diagram-merge';
+import { cls, rel } from './fixtures/cells';
+
+describe('mergeSnapshots', () => {
+  const base = {
+    nodes: [
+      cls('c1', 'Cliente', { attributes: ['id: Long', 'nombre: String'] }),
+      cls('c2', 'Pedido', { attributes: ['id: Long'] }),
+    ],
+    edges: [rel('e1', 'c1', 'c2', { multTarget: '*' })],
+  };
+
+  it('fusiona cambios independientes de ambos lados', () => {
+    const upstream = {
+      nodes: [
+        cls('c1', 'Cliente', {
+          attributes: ['id: Long', 'nombre: String', 'email: String'],
+        }),
+        cls(
+          'c2',
+          'Pedido',
+          { attributes: ['id: Long'] },
+          { position: { x: 400, y: 0 } },
+        ),
+      ],
+      edges: base.edges,
+    };
+    const fork = {
+      nodes: [
+        cls('c1', 'Cliente', { attributes: ['id: Long', 'nombre: Text'] }),
+        cls('c2', 'Orden', { attributes: ['id: Long'] }),
+        cls('c3', 'Producto'),
+      ],
+      edges: [
+        rel('e1', 'c1', 'c2', { multTarget: '0..*' }),
+        rel('e2', 'c2', 'c3'),
+      ],
+    };
+
+    const res = mergeSnapshots(base, upstream, fork);
+
+    expect(res.conflicts).toEqual([]);
+    const [c1, c2, c3] = res.snapshot.nodes;
+    expect(c1.data.attributes).toEqual([
+      'id: Long',
+      'nombre: Text',
+      'email: String',
+    ]);
+    expect(c1.attrs.attrs.text).toBe('id: Long\nnombre: Text\nemail: String');
+    expect(c2.data.name).toBe('Orden');
+    expect(c2.position).toEqual({ x: 400, y: 0 });
+    expect(c3.id).toBe('c3');
+    expect(res.snapshot.edges.map((e) => e.id)).toEqual(['e1', 'e2']);
+    expect(res.snapshot.edges[0].data.multTarget).toBe('0..*');
+    expect(res.summary).toContain('Clase modificada: Orden');
+  });
+
+  it('devuelve conflictos cuando ambos lados tocan lo mismo', () => {
+    const upstream = {
+      nodes: [
+        cls('c1', 'Customer', { attributes: ['id: Long', 'nombre: Varchar'] }),
+        base.nodes[1],
+      ],
+      edges: [rel('e1', 'c1', 'c2', { type: 'comp', multTarget: '*' })],
+    };
+    const fork = {
+      nodes: [
+        cls('c1', 'Client', { attributes: ['id: Long', 'nombre: Text'] }),
+        base.nodes[1],
+      ],
+      edges: [rel('e1', 'c1', 'c2', { type: 'aggr', multTarget: '*' })],
+    };
+
+    const res = mergeSnapshots(base, upstream, fork);
+
+    expect(res.conflicts.map((c) => c.id)).toEqual([
+      'name:c1',
+      'attribute:c1:nombre',
+      'relation:e1',
+    ]);
+    expect(res.conflicts[1]).toMatchObject({
+      reason: 'both-modified',
+      base: 'nombre: String',
+      upstream: 'nombre: Varchar',
+      fork: 'nombre: Text',
+    });
+    // Sin resolver se deja el upstream
+    expect(res.snapshot.nodes[0].data.name).toBe('Customer');
+  });
+
+  it('aplica las resoluciones elegidas', () => {
+    const upstream = {
+      nodes: [
+        cls('c1', 'Customer', { attributes: base.nodes[0].data.attributes }),
+        base.nodes[1],
+      ],
+      edges: base.edges,
+    };
+    const fork = {
+      nodes: [
+        cls('c1', 'Client', { attributes: base.nodes[0].data.attributes }),
+        base.nodes[1],
+      ],
+      edges: base.edges,
+    };
+
+    const res = mergeSnapshots(base, upstream, fork, { 'name:c1': 'fork' });
+
+    expect(res.conflicts).toEqual([]);
+    expect(res.resolved).toBe(1);
+    expect(res.snapshot.nodes[0].data.name).toBe('Client');
+    expect(res.snapshot.nodes[0].attrs.name.text).toBe('Client');
+  });
+
+  it('eliminar vs modificar es conflicto; eliminar sin cambios se fusiona', () => {
+    const upstream = {
+      nodes: [base.nodes[0]],
+      edges: [],
+    };
+    const fork = {
+      nodes: [
+        base.nodes[0],
+        cls('c2', 'Pedido', { attributes: ['id: Long', 'total: Double'] }),
+      ],
+      edges: base.edges,
+    };
+
+    const res = mergeSnapshots(base, upstream, fork);
+    expect(res.conflicts).toHaveLength(1);
+    expect(res.conflicts[0]).toMatchObject({
+      id: 'class:c2',
+      reason: 'deleted-upstream',
+      upstream: null,
+    });
+    // Clase eliminada arriba → la relación queda colgando y se descarta
+    expect(res.snapshot.nodes.map((n) => n.id)).toEqual(['c1']);
+    expect(res.snapshot.edges).toEqual([]);
+
+    const kept = mergeSnapshots(base, upstream, fork, { 'class:c2': 'fork' });
+    expect(kept.snapshot.nodes.map((n) => n.id)).toEqual(['c1', 'c2']);
+    expect(kept.snapshot.edges.map((e) => e.id)).toEqual([]);
+  });
+});
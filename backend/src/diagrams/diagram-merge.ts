@@ -0,0 +1,367 @@
+// src/diagrams/diagram-merge.ts
+/**
+ * Merge de 3 vías entre snapshots X6: ancestro común (base), diagrama
+ * original (upstream) y fork. Igual que el diff, trabaja a nivel UML:
+ * clases (nombre, atributos y métodos por nombre) y relaciones completas.
+ * Lo que no choca se fusiona solo; lo demás vuelve como conflicto para que
+ * el usuario elija un lado.
+ */
+import {
+  memberKey,
+  readClass,
+  readRelation,
+  Snapshot,
+  UmlClass,
+  UmlRelation,
+} from './diagram-diff';
+
+export type MergeSide = 'upstream' | 'fork';
+
+export type MergeConflict = {
+  /** Clave estable: se usa para enviar la resolución */
+  id: string;
+  kind: 'class' | 'name' | 'attribute' | 'method' | 'relation';
+  cellId: string;
+  /** Clase afectada (o "A → B" en relaciones) */
+  label: string;
+  reason: 'both-modified' | 'deleted-upstream' | 'deleted-in-fork';
+  /** Representación legible de cada lado; null = no existe en ese lado */
+  base: string | null;
+  upstream: string | null;
+  fork: string | null;
+};
+
+export type MergeResult = {
+  snapshot: { nodes: any[]; edges: any[]; updatedAt: string };
+  /** Conflictos sin resolver (en el snapshot se dejó el lado upstream) */
+  conflicts: MergeConflict[];
+  /** Cuántos conflictos se resolvieron con `resolutions` */
+  resolved: number;
+  /** Cambios traídos desde el fork */
+  summary: string[];
+};
+
+type Entry<T> = { raw: any; model: T };
+
+/* ===================== Helpers ===================== */
+
+/**
+ * Decide qué lado gana comparando firmas (undefined = no existe).
+ * Si solo un lado cambió respecto de la base, gana ese lado.
+ */
+function choose(
+  base: string | undefined,
+  upstream: string | undefined,
+  fork: string | undefined,
+): MergeSide | 'conflict' {
+  if (upstream === fork) return 'upstream';
+  if (base === upstream) return 'fork';
+  if (base === fork) return 'upstream';
+  return 'conflict';
+}
+
+function reasonOf(upstream: unknown, fork: unknown): MergeConflict['reason'] {
+  if (upstream === undefined) return 'deleted-upstream';
+  if (fork === undefined) return 'deleted-in-fork';
+  return 'both-modified';
+}
+
+function indexBy<T extends { id: string }>(
+  cells: any[] | undefined,
+  read: (raw: any) => T,
+) {
+  const m = new Map<string, Entry<T>>();
+  for (const raw of cells ?? []) {
+    const model = read(raw);
+    m.set(model.id, { raw, model });
+  }
+  return m;
+}
+
+/** Ids en orden: primero los del upstream, luego los nuevos del fork */
+function orderedIds(up: Map<string, unknown>, fork: Map<string, unknown>) {
+  return [...up.keys(), ...[...fork.keys()].filter((id) => !up.has(id))];
+}
+
+const classSig = (c?: UmlClass) =>
+  c ? JSON.stringify([c.name, c.attributes, c.methods]) : undefined;
+
+const relationSig = (r?: UmlRelation) =>
+  r
+    ? JSON.stringify([
+        r.source,
+        r.target,
+        r.type,
+        r.name,
+        r.multSource,
+        r.multTarget,
+      ])
+    : undefined;
+
+const describeClass = (c?: UmlClass) =>
+  c
+    ? `${c.name} { ${c.attributes.join('; ')} | ${c.methods.join('; ')} }`
+    : null;
+
+const samePos = (a: any, b: any) =>
+  JSON.stringify([a?.position, a?.size]) ===
+  JSON.stringify([b?.position, b?.size]);
+
+/** Escribe nombre/atributos/métodos en data y en los textos del nodo */
+function writeClass(raw: any, c: UmlClass) {
+  const node = structuredClone(raw);
+  node.data = {
+    ...(node.data ?? {}),
+    name: c.name,
+    attributes: c.attributes,
+    methods: c.methods,
+  };
+  node.attrs = {
+    ...(node.attrs ?? {}),
+    name: { ...(node.attrs?.name ?? {}), text: c.name },
+    attrs: { ...(node.attrs?.attrs ?? {}), text: c.attributes.join('\n') },
+    methods: { ...(node.attrs?.methods ?? {}), text: c.methods.join('\n') },
+  };
+  return node;
+}
+
+/* ===================== Merge ===================== */
+
+export function mergeSnapshots(
+  baseSnap: Snapshot,
+  upstreamSnap: Snapshot,
+  forkSnap: Snapshot,
+  resolutions: Record<string, MergeSide> = {},
+): MergeResult {
+  const conflicts: MergeConflict[] = [];
+  const summary: string[] = [];
+  let resolved = 0;
+
+  /** Resolución pedida por el usuario; si no hay, queda como conflicto */
+  const decide = (c: MergeConflict): MergeSide => {
+    const r = resolutions[c.id];
+    if (r === 'upstream' || r === 'fork') {
+      resolved++;
+      return r;
+    }
+    conflicts.push(c);
+    return 'upstream';
+  };
+
+  const base = indexBy(baseSnap?.nodes, readClass);
+  const up = indexBy(upstreamSnap?.nodes, readClass);
+  const fork = indexBy(forkSnap?.nodes, readClass);
+
+  /** Atributos o métodos: 3 vías por nombre de miembro */
+  const mergeMembers = (
+    kind: 'attribute' | 'method',
+    cellId: string,
+    className: string,
+    b: string[],
+    u: string[],
+    f: string[],
+  ) => {
+    const byKey = (arr: string[]) =>
+      new Map(arr.map((l) => [memberKey(l) || l, l] as const));
+    const bm = byKey(b);
+    const um = byKey(u);
+    const fm = byKey(f);
+    const what = kind === 'attribute' ? 'atributo' : 'método';
+    const out: string[] = [];
+    for (const key of orderedIds(um, fm)) {
+      const [bl, ul, fl] = [bm.get(key), um.get(key), fm.get(key)];
+      let side = choose(bl, ul, fl);
+      if (side === 'conflict') {
+        side = decide({
+          id: `${kind}:${cellId}:${key}`,
+          kind,
+          cellId,
+          label: className,
+          reason: reasonOf(ul, fl),
+          base: bl ?? null,
+          upstream: ul ?? null,
+          fork: fl ?? null,
+        });
+      } else if (side === 'fork' && ul !== fl) {
+        summary.push(
+          fl === undefined
+            ? `${className}: ${what} eliminado ${ul}`
+            : ul === undefined
+              ? `${className}: ${what} agregado ${fl}`
+              : `${className}: ${what} ${ul} → ${fl}`,
+        );
+      }
+      const line = side === 'fork' ? fl : ul;
+      if (line !== undefined) out.push(line);
+    }
+    return out;
+  };
+
+  /** Clase presente en ambos lados y modificada en los dos */
+  const mergeClass = (
+    b: UmlClass | undefined,
+    u: UmlClass,
+    f: UmlClass,
+  ): UmlClass => {
+    let name = u.name;
+    const side = choose(b?.name, u.name, f.name);
+    const pickedName =
+      side === 'conflict'
+        ? decide({
+            id: `name:${u.id}`,
+            kind: 'name',
+            cellId: u.id,
+            label: u.name,
+            reason: 'both-modified',
+            base: b?.name ?? null,
+            upstream: u.name,
+            fork: f.name,
+          })
+        : side;
+    if (pickedName === 'fork' && f.name !== u.name) {
+      name = f.name;
+      if (side !== 'conflict') {
+        summary.push(`Clase renombrada: ${u.name} → ${f.name}`);
+      }
+    }
+    return {
+      ...u,
+      name,
+      attributes: mergeMembers(
+        'attribute',
+        u.id,
+        name,
+        b?.attributes ?? [],
+        u.attributes,
+        f.attributes,
+      ),
+      methods: mergeMembers(
+        'method',
+        u.id,
+        name,
+        b?.methods ?? [],
+        u.methods,
+        f.methods,
+      ),
+    };
+  };
+
+  // ----- Clases -----
+  const nodes: any[] = [];
+  for (const id of orderedIds(up, fork)) {
+    const [b, u, f] = [base.get(id), up.get(id), fork.get(id)];
+    const side = choose(
+      classSig(b?.model),
+      classSig(u?.model),
+      classSig(f?.model),
+    );
+
+    if (u && f) {
+      let raw = u.raw;
+      if (side === 'fork') {
+        raw = writeClass(u.raw, f.model);
+        summary.push(`Clase modificada: ${f.model.name}`);
+      } else if (side === 'conflict') {
+        raw = writeClass(u.raw, mergeClass(b?.model, u.model, f.model));
+      }
+      // Posición: si solo se movió en el fork, se respeta
+      if (b && samePos(b.raw, u.raw) && !samePos(b.raw, f.raw)) {
+        raw = { ...raw, position: f.raw.position, size: f.raw.size };
+      }
+      nodes.push(raw);
+      continue;
+    }
+
+    // Existe de un solo lado: agregada, eliminada o conflicto eliminar/editar
+    let picked = side;
+    if (side === 'conflict') {
+      picked = decide({
+        id: `class:${id}`,
+        kind: 'class',
+        cellId: id,
+        label: (u ?? f)!.model.name,
+        reason: reasonOf(u, f),
+        base: describeClass(b?.model),
+        upstream: describeClass(u?.model),
+        fork: describeClass(f?.model),
+      });
+    } else if (side === 'fork') {
+      summary.push(
+        f
+          ? `Clase agregada: ${f.model.name}`
+          : `Clase eliminada: ${u!.model.name}`,
+      );
+    }
+    const chosen = picked === 'fork' ? f : u;
+    if (chosen) nodes.push(chosen.raw);
+  }
+
+  // ----- Relaciones -----
+  const names = new Map<string, string>();
+  for (const m of [base, fork, up]) {
+    for (const [id, e] of m) names.set(id, e.model.name);
+  }
+  const nameOf = (id: string | null) => (id && names.get(id)) || '?';
+  const describeRel = (r?: UmlRelation) =>
+    r
+      ? `${nameOf(r.source)} → ${nameOf(r.target)} (${r.type})` +
+        `${r.name ? ` "${r.name}"` : ''} [${r.multSource || '∅'} / ${
+          r.multTarget || '∅'
+        }]`
+      : null;
+
+  const baseRel = indexBy(baseSnap?.edges, readRelation);
+  const upRel = indexBy(upstreamSnap?.edges, readRelation);
+  const forkRel = indexBy(forkSnap?.edges, readRelation);
+  const nodeIds = new Set(nodes.map((n) => String(n?.id)));
+
+  const edges: any[] = [];
+  for (const id of orderedIds(upRel, forkRel)) {
+    const [b, u, f] = [baseRel.get(id), upRel.get(id), forkRel.get(id)];
+    let side = choose(
+      relationSig(b?.model),
+      relationSig(u?.model),
+      relationSig(f?.model),
+    );
+    const ref = (u ?? f)!.model;
+    if (side === 'conflict') {
+      side = decide({
+        id: `relation:${id}`,
+        kind: 'relation',
+        cellId: id,
+        label: `${nameOf(ref.source)} → ${nameOf(ref.target)}`,
+        reason: reasonOf(u, f),
+        base: describeRel(b?.model),
+        upstream: describeRel(u?.model),
+        fork: describeRel(f?.model),
+      });
+    } else if (side === 'fork') {
+      summary.push(
+        !f
+          ? `Relación eliminada: ${describeRel(u?.model)}`
+          : !u
+            ? `Relación agregada: ${describeRel(f.model)}`
+            : `Relación modificada: ${describeRel(f.model)}`,
+      );
+    }
+    const chosen = side === 'fork' ? f : u;
+    if (!chosen) continue;
+
+    // Relación que quedó colgando (su clase se eliminó del otro lado)
+    const ends = [chosen.model.source, chosen.model.target];
+    if (ends.some((e) => e && !nodeIds.has(e))) {
+      summary.push(
+        `Relación descartada (clase eliminada): ${describeRel(chosen.model)}`,
+      );
+      continue;
+    }
+    edges.push(chosen.raw);
+  }
+
+  return {
+    snapshot: { nodes, edges, updatedAt: new Date().toISOString() },
+    conflicts,
+    resolved,
+    summary,
+  };
+}
@@ -0,0 +1,27 @@
+// src/diagrams/diagram-model.controller.ts
+import { Controller, Get, Param, Req, Res, UseGuards } from '@nestjs/common';
+import type { Response } from 'express';
+import { JwtAuthGuard } from '../auth/jwt.guard';
+import { RequireCapability } from '../policy/require-capability.decorator';
+import { DiagramsService } from './diagrams.service';
+
+@UseGuards(JwtAuthGuard)
+@Controller('projects/:projectId/model')
+export class DiagramModelController {
+  constructor(private readonly diagrams: DiagramsService) {}
+
+  // GET /api/projects/:projectId/model
+  @Get()
+  @RequireCapability('project:view', { accessToken: true })
+  async get(
+    @Req() req: any,
+    @Res({ passthrough: true }) res: Response,
+    @Param('projectId') projectId: string,
+  ) {
+    const userId: string = req.user.id;
+    const model = await this.diagrams.getModelForUser(userId, projectId);
+    // Misma revisión que el ETag del diagrama
+    res.setHeader('ETag', `"${model.revision}"`);
+    return model;
+  }
+}
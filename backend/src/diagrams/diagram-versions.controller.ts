@@ -0,0 +1,66 @@
+// src/diagrams/diagram-versions.controller.ts
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  Post,
+  Query,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import { JwtAuthGuard } from '../auth/jwt.guard';
+import { RequireCapability } from '../policy/require-capability.decorator';
+import { DiagramVersionsService } from './diagram-versions.service';
+import { CreateDiagramVersionDto } from './dto/create-diagram-version.dto';
+
+@UseGuards(JwtAuthGuard)
+@Controller('projects/:projectId/diagram/versions')
+export class DiagramVersionsController {
+  constructor(private readonly versions: DiagramVersionsService) {}
+
+  // GET /api/projects/:projectId/diagram/versions?limit=50
+  @Get()
+  @RequireCapability('project:view', { accessToken: true })
+  async list(
+    @Req() req: any,
+    @Param('projectId') projectId: string,
+    @Query('limit') limit?: string,
+  ) {
+    const userId: string = req.user.id;
+    return this.versions.list(userId, projectId, Number(limit) || undefined);
+  }
+
+  @Post()
+  @RequireCapability('diagram:edit')
+  async create(
+    @Req() req: any,
+    @Param('projectId') projectId: string,
+    @Body() dto: CreateDiagramVersionDto,
+  ) {
+    const userId: string = req.user.id;
+    return this.versions.create(userId, projectId, dto.label);
+  }
+
+  @Get(':id')
+  @RequireCapability('project:view', { accessToken: true })
+  async getOne(
+    @Req() req: any,
+    @Param('projectId') projectId: string,
+    @Param('id') id: string,
+  ) {
+    const userId: string = req.user.id;
+    return this.versions.get(userId, projectId, id);
+  }
+
+  @Post(':id/restore')
+  @RequireCapability('diagram:edit')
+  async restore(
+    @Req() req: any,
+    @Param('projectId') projectId: string,
+    @Param('id') id: string,
+  ) {
+    const userId: string = req.user.id;
+    return this.versions.restore(userId, projectId, id);
+  }
+}
@@ -0,0 +1,161 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { NotFoundException } from '@nestjs/common';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { DiagramVersionsService } from './diagram-versions.service';
+import { DiagramsService } from './diagrams.service';
+import { PrismaService } from '../common/prisma.service';
+import { DiagramGateway } from '../diagram-realtime/diagram.gateway';
+import { SNAPSHOT_SCHEMA_VERSION } from './snapshot-schema';
+import { InvalidXmiException } from './xmi';
+
+describe('DiagramVersionsService', () => {
+  let service: DiagramVersionsService;
+  const prisma = {
+    diagramVersion: {
+      create: jest.fn(),
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+    },
+  };
+  const diagrams = {
+    assertProjectAccess: jest.fn(),
+    assertCanEdit: jest.fn(),
+    getSnapshot: jest.fn(),
+  };
+  const gateway = { broadcastSnapshot: jest.fn(), flushRoom: jest.fn() };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DiagramVersionsService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: DiagramsService, useValue: diagrams },
+        { provide: DiagramGateway, useValue: gateway },
+      ],
+    }).compile();
+
+    service = module.get<DiagramVersionsService>(DiagramVersionsService);
+  });
+
+  it('guarda una versión manual sin el estado Y compactado', async () => {
+    diagrams.getSnapshot.mockResolvedValue({
+      nodes: [{ id: 'a' }],
+      edges: [],
+      updatedAt: '2025-01-01T00:00:00.000Z',
+      $y: 'AAAA',
+    });
+    prisma.diagramVersion.create.mockResolvedValue({ id: 'v1' });
+
+    await service.create('u1', 'p1', '  Entrega 1 ');
+
+    expect(diagrams.assertCanEdit).toHaveBeenCalledWith('u1', 'p1');
+    // Lo pendiente de la sala entra en la versión
+    expect(gateway.flushRoom.mock.invocationCallOrder[0]).toBeLessThan(
+      diagrams.getSnapshot.mock.invocationCallOrder[0],
+    );
+    const { data } = prisma.diagramVersion.create.mock.calls[0][0];
+    expect(data).toMatchObject({
+      projectId: 'p1',
+      authorId: 'u1',
+      kind: 'MANUAL',
+      label: 'Entrega 1',
+    });
+    expect(data.snapshot).toEqual({
+      nodes: [{ id: 'a' }],
+      edges: [],
+      updatedAt: '2025-01-01T00:00:00.000Z',
+      schemaVersion: SNAPSHOT_SCHEMA_VERSION,
+    });
+  });
+
+  it('al restaurar respalda el estado actual y lo difunde a la sala', async () => {
+    const snapshot = { nodes: [{ id: 'old' }], edges: [], updatedAt: 'x' };
+    prisma.diagramVersion.findFirst.mockResolvedValue({
+      id: 'v1',
+      label: 'Entrega 1',
+      createdAt: new Date(),
+      snapshot,
+    });
+    diagrams.getSnapshot.mockResolvedValue({ nodes: [], edges: [] });
+    prisma.diagramVersion.create.mockResolvedValue({ id: 'backup' });
+
+    const res = await service.restore('u1', 'p1', 'v1');
+
+    expect(gateway.flushRoom).toHaveBeenCalledWith('p1');
+    expect(gateway.flushRoom.mock.invocationCallOrder[0]).toBeLessThan(
+      diagrams.getSnapshot.mock.invocationCallOrder[0],
+    );
+
+    expect(prisma.diagramVersion.create.mock.calls[0][0].data.kind).toBe(
+      'RESTORE',
+    );
+    expect(gateway.broadcastSnapshot).toHaveBeenCalledWith('p1', {
+      ...snapshot,
+      schemaVersion: SNAPSHOT_SCHEMA_VERSION,
+    });
+    expect(res.restoredFrom).toBe('v1');
+  });
+
+  it('importa un XMI sumándolo al diagrama y respalda lo anterior', async () => {
+    const xml = readFileSync(
+      join(__dirname, 'fixtures', 'papyrus-ventas.xmi'),
+      'utf8',
+    );
+    const pedido = {
+      id: 'x',
+      shape: 'uml-class',
+      position: { x: 0, y: 0 },
+      data: { name: 'Pedido', attributes: [], methods: [] },
+    };
+    diagrams.getSnapshot.mockResolvedValue({ nodes: [pedido], edges: [] });
+    prisma.diagramVersion.create.mockResolvedValue({ id: 'backup' });
+
+    const res = await service.importXmi('u1', 'p1', xml, 'append');
+
+    expect(gateway.flushRoom).toHaveBeenCalledWith('p1');
+    expect(prisma.diagramVersion.create.mock.calls[0][0].data).toMatchObject({
+      kind: 'RESTORE',
+      label: 'Antes de importar XMI',
+    });
+    const [, sent] = gateway.broadcastSnapshot.mock.calls[0];
+    expect(sent.nodes).toHaveLength(7);
+    expect(sent.nodes[0]).toEqual(pedido);
+    expect(res).toMatchObject({
+      snapshot: sent,
+      classes: 6,
+      relations: 6,
+      backup: { id: 'backup' },
+    });
+  });
+
+  it('un XMI inválido no deja versiones ni toca la sala', async () => {
+    await expect(
+      service.importXmi('u1', 'p1', '<uml:Model/>'),
+    ).rejects.toBeInstanceOf(InvalidXmiException);
+    expect(prisma.diagramVersion.create).not.toHaveBeenCalled();
+    expect(gateway.broadcastSnapshot).not.toHaveBeenCalled();
+  });
+
+  it('el diff contra el estado actual incluye lo que la sala no guardó', async () => {
+    prisma.diagramVersion.findFirst.mockResolvedValue({
+      snapshot: { nodes: [], edges: [] },
+    });
+    diagrams.getSnapshot.mockResolvedValue({ nodes: [], edges: [] });
+
+    await service.diff('u1', 'p1', 'v1');
+
+    expect(gateway.flushRoom).toHaveBeenCalledWith('p1');
+    expect(gateway.flushRoom.mock.invocationCallOrder[0]).toBeLessThan(
+      diagrams.getSnapshot.mock.invocationCallOrder[0],
+    );
+  });
+
+  it('rechaza versiones de otro proyecto', async () => {
+    prisma.diagramVersion.findFirst.mockResolvedValue(null);
+    await expect(service.get('u1', 'p1', 'v9')).rejects.toBeInstanceOf(
+      NotFoundException,
+    );
+  });
+});
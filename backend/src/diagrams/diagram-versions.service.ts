@@ -0,0 +1,200 @@
+// src/diagrams/diagram-versions.service.ts
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { DiagramVersionKind, Prisma } from '@prisma/client';
+import { PrismaService } from '../common/prisma.service';
+import { DiagramGateway } from '../diagram-realtime/diagram.gateway';
+import { DiagramsService } from './diagrams.service';
+import { diffSnapshots } from './diagram-diff';
+import { migrateSnapshot, prepareSnapshot } from './snapshot-schema';
+import { importXmi } from './xmi';
+
+type Snapshot = { nodes: any[]; edges: any[]; updatedAt?: string };
+
+/** Campos de listado (sin el snapshot, que puede ser pesado) */
+const VERSION_SUMMARY = {
+  id: true,
+  label: true,
+  kind: true,
+  createdAt: true,
+  author: { select: { id: true, name: true, email: true } },
+} satisfies Prisma.DiagramVersionSelect;
+
+@Injectable()
+export class DiagramVersionsService {
+  constructor(
+    private prisma: PrismaService,
+    private diagrams: DiagramsService,
+    private gateway: DiagramGateway, // propaga la restauración a la sala Y.Doc
+  ) {}
+
+  /**
+   * Quita el estado Y compactado ($y): el historial guarda solo lo visible.
+   * Las versiones viejas salen migradas al esquema actual.
+   */
+  private stripSnapshot(value: unknown): Snapshot {
+    const s = (value ?? {}) as Record<string, any>;
+    return migrateSnapshot({
+      nodes: Array.isArray(s.nodes) ? s.nodes : [],
+      edges: Array.isArray(s.edges) ? s.edges : [],
+      updatedAt:
+        typeof s.updatedAt === 'string'
+          ? s.updatedAt
+          : new Date().toISOString(),
+      schemaVersion: s.schemaVersion,
+    });
+  }
+
+  private async createFromCurrent(
+    projectId: string,
+    authorId: string,
+    kind: DiagramVersionKind,
+    label?: string | null,
+  ) {
+    const current = await this.diagrams.getSnapshot(projectId);
+    return this.prisma.diagramVersion.create({
+      data: {
+        projectId,
+        authorId,
+        kind,
+        label: label?.trim() || null,
+        snapshot: this.stripSnapshot(current) as Prisma.InputJsonValue,
+      },
+      select: VERSION_SUMMARY,
+    });
+  }
+
+  async list(userId: string, projectId: string, limit = 50) {
+    await this.diagrams.assertProjectAccess(userId, projectId);
+    return this.prisma.diagramVersion.findMany({
+      where: { projectId },
+      orderBy: { createdAt: 'desc' },
+      take: Math.min(Math.max(limit, 1), 200),
+      select: VERSION_SUMMARY,
+    });
+  }
+
+  async get(userId: string, projectId: string, versionId: string) {
+    await this.diagrams.assertProjectAccess(userId, projectId);
+    const v = await this.prisma.diagramVersion.findFirst({
+      where: { id: versionId, projectId },
+      select: { ...VERSION_SUMMARY, snapshot: true },
+    });
+    if (!v) throw new NotFoundException('Versión no encontrada');
+    return v;
+  }
+
+  /** "Guardar versión" manual desde el editor */
+  async create(userId: string, projectId: string, label?: string) {
+    await this.diagrams.assertCanEdit(userId, projectId);
+    await this.gateway.flushRoom(projectId);
+    return this.createFromCurrent(projectId, userId, 'MANUAL', label);
+  }
+
+  /**
+   * Restaura una versión: guarda antes el estado actual (kind RESTORE) para
+   * poder deshacer, y reemplaza el diagrama en la sala en vivo.
+   */
+  async restore(userId: string, projectId: string, versionId: string) {
+    await this.diagrams.assertCanEdit(userId, projectId);
+    const v = await this.prisma.diagramVersion.findFirst({
+      where: { id: versionId, projectId },
+      select: { id: true, label: true, createdAt: true, snapshot: true },
+    });
+    if (!v) throw new NotFoundException('Versión no encontrada');
+
+    // El respaldo tiene que incluir lo que la sala aún no guardó
+    await this.gateway.flushRoom(projectId);
+    const snapshot = this.stripSnapshot(v.snapshot);
+    const backup = await this.replaceCurrent(
+      userId,
+      projectId,
+      snapshot,
+      `Antes de restaurar ${v.label ?? v.createdAt.toISOString()}`,
+    );
+
+    return { snapshot, restoredFrom: v.id, backup };
+  }
+
+  /**
+   * Reemplaza el diagrama vivo (restaurar, merge de un fork): respalda el
+   * estado actual como RESTORE y difunde el nuevo snapshot a la sala.
+   * El control de acceso queda a cargo del llamador.
+   */
+  async replaceCurrent(
+    authorId: string,
+    projectId: string,
+    snapshot: Snapshot,
+    backupLabel: string,
+  ) {
+    const backup = await this.createFromCurrent(
+      projectId,
+      authorId,
+      'RESTORE',
+      backupLabel,
+    );
+    await this.gateway.broadcastSnapshot(projectId, snapshot);
+    return backup;
+  }
+
+  /**
+   * Importa un XMI al diagrama: `replace` lo reemplaza entero y `append`
+   * suma lo que no estaba (las clases con el mismo nombre se reutilizan).
+   * Como al restaurar, lo anterior queda respaldado como versión.
+   */
+  async importXmi(
+    userId: string,
+    projectId: string,
+    xml: string,
+    mode: 'replace' | 'append' = 'replace',
+  ) {
+    await this.diagrams.assertCanEdit(userId, projectId);
+    // Que el respaldo (y lo que se suma) incluya lo último de la sala
+    await this.gateway.flushRoom(projectId);
+    const into =
+      mode === 'append' ? await this.resolveSnapshot(projectId) : undefined;
+    const { nodes, edges, classes, relations } = importXmi(xml, { into });
+    // Se valida antes de respaldar: un archivo inválido no deja versiones
+    const snapshot = prepareSnapshot({
+      nodes,
+      edges,
+      updatedAt: new Date().toISOString(),
+    });
+    const backup = await this.replaceCurrent(
+      userId,
+      projectId,
+      snapshot,
+      'Antes de importar XMI',
+    );
+    return { snapshot, classes, relations, backup };
+  }
+
+  /** Snapshot visible de una versión, o del diagrama actual ('current') */
+  async resolveSnapshot(projectId: string, ref = 'current') {
+    if (ref === 'current') {
+      return this.stripSnapshot(await this.diagrams.getSnapshot(projectId));
+    }
+    const v = await this.prisma.diagramVersion.findFirst({
+      where: { id: ref, projectId },
+      select: { snapshot: true },
+    });
+    if (!v) throw new NotFoundException('Versión no encontrada');
+    return this.stripSnapshot(v.snapshot);
+  }
+
+  /**
+   * Diff semántico entre dos versiones, o entre una versión y el diagrama
+   * actual (`to` = 'current', por defecto).
+   */
+  async diff(userId: string, projectId: string, from: string, to = 'current') {
+    await this.diagrams.assertProjectAccess(userId, projectId);
+    // 'current' tiene que incluir lo que la sala todavía no guardó
+    if (from === 'current' || to === 'current') {
+      await this.gateway.flushRoom(projectId);
+    }
+    const [before, after] = await Promise.all([
+      this.resolveSnapshot(projectId, from),
+      this.resolveSnapshot(projectId, to),
+    ]);
+    return { from, to, ...diffSnapshots(before, after) };
+  }
+}
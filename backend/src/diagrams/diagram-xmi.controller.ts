@@ -0,0 +1,78 @@
+// src/diagrams/diagram-xmi.controller.ts
+import {
+  BadRequestException,
+  Controller,
+  Get,
+  Param,
+  Post,
+  Query,
+  Req,
+  Res,
+  UploadedFile,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import type { Response } from 'express';
+import { JwtAuthGuard } from '../auth/jwt.guard';
+import { RequireCapability } from '../policy/require-capability.decorator';
+import { DiagramsService } from './diagrams.service';
+import { DiagramVersionsService } from './diagram-versions.service';
+import { XMI_MAX_BYTES, readXmiUpload } from './xmi';
+
+const IMPORT_MODES = ['replace', 'append'] as const;
+
+@UseGuards(JwtAuthGuard)
+@Controller('projects/:projectId/xmi')
+export class DiagramXmiController {
+  constructor(
+    private readonly diagrams: DiagramsService,
+    private readonly versions: DiagramVersionsService,
+  ) {}
+
+  // GET /api/projects/:projectId/xmi  → descarga <proyecto>.xmi
+  @Get()
+  @RequireCapability('project:view', { accessToken: true })
+  async export(
+    @Req() req: any,
+    @Res({ passthrough: true }) res: Response,
+    @Param('projectId') projectId: string,
+  ) {
+    const userId: string = req.user.id;
+    const { name, xmi } = await this.diagrams.exportXmiForUser(
+      userId,
+      projectId,
+    );
+    const ascii = name.replace(/[^\w.-]+/g, '_') || 'modelo';
+    res.setHeader('Content-Type', 'application/xml; charset=utf-8');
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="${ascii}.xmi"; filename*=UTF-8''${encodeURIComponent(name)}.xmi`,
+    );
+    return xmi;
+  }
+
+  // POST /api/projects/:projectId/xmi?mode=replace|append  (multipart: file)
+  @Post()
+  @RequireCapability('diagram:edit', { accessToken: true })
+  @UseInterceptors(
+    FileInterceptor('file', { limits: { fileSize: XMI_MAX_BYTES } }),
+  )
+  async import(
+    @Req() req: any,
+    @Param('projectId') projectId: string,
+    @UploadedFile() file?: Express.Multer.File,
+    @Query('mode') mode = 'replace',
+  ) {
+    const userId: string = req.user.id;
+    if (!IMPORT_MODES.includes(mode as any)) {
+      throw new BadRequestException('mode debe ser replace o append');
+    }
+    return this.versions.importXmi(
+      userId,
+      projectId,
+      readXmiUpload(file),
+      mode as (typeof IMPORT_MODES)[number],
+    );
+  }
+}
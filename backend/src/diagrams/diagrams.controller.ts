@@ -4,13 +4,20 @@ import {
   Body,
   Controller,
   Get,
+  Headers,
   Param,
+  Post,
   Put,
+  Query,
   Req,
+  Res,
   UseGuards,
 } from '@nestjs/common';
+import type { Response } from 'express';
 import { JwtAuthGuard } from '../auth/jwt.guard';
+import { RequireCapability } from '../policy/require-capability.decorator';
 import { DiagramsService } from './diagrams.service';
+import { DiagramVersionsService } from './diagram-versions.service';
 
 type PayloadA = {
   snapshot?: { nodes?: any[]; edges?: any[] };
@@ -39,27 +46,97 @@ function normalize(body: PayloadA | PayloadB) {
   return { nodes, edges, updatedAt };
 }
 
+/** La revisión del diagrama viaja como ETag fuerte: "12" */
+const etag = (revision: number) => `"${revision}"`;
+
+/** If-Match → revisión esperada (sin header o `*` = escritura incondicional) */
+function parseIfMatch(header?: string): number | undefined {
+  const value = header?.trim();
+  if (!value || value === '*') return undefined;
+  const m = /^(?:W\/)?"(\d+)"$/.exec(value);
+  if (!m) throw new BadRequestException('If-Match inválido');
+  return Number(m[1]);
+}
+
 @UseGuards(JwtAuthGuard)
 @Controller('projects/:projectId/diagram')
 export class DiagramsController {
-  constructor(private readonly diagrams: DiagramsService) {}
+  constructor(
+    private readonly diagrams: DiagramsService,
+    private readonly versions: DiagramVersionsService,
+  ) {}
 
   @Get()
-  async get(@Req() req: any, @Param('projectId') projectId: string) {
+  @RequireCapability('project:view', { accessToken: true })
+  async get(
+    @Req() req: any,
+    @Res({ passthrough: true }) res: Response,
+    @Param('projectId') projectId: string,
+  ) {
     const userId: string = req.user.id;
+    const { snapshot, revision } = await this.diagrams.getOrInitForUser(
+      userId,
+      projectId,
+    );
+    res.setHeader('ETag', etag(revision));
     // Devuelve SIEMPRE el snapshot (objeto con nodes, edges, updatedAt)
-    return this.diagrams.getOrInitForUser(userId, projectId);
+    return snapshot;
   }
 
   @Put()
+  @RequireCapability('diagram:edit', { accessToken: true })
   async put(
     @Req() req: any,
+    @Res({ passthrough: true }) res: Response,
     @Param('projectId') projectId: string,
     @Body() body: PayloadA | PayloadB,
+    @Headers('if-match') ifMatch?: string,
   ) {
     const userId: string = req.user.id;
     const payload = normalize(body);
+    // Con If-Match: 409 (con el snapshot del servidor) si alguien escribió antes
+    const { snapshot, revision } = await this.diagrams.upsertForUser(
+      userId,
+      projectId,
+      payload,
+      parseIfMatch(ifMatch),
+    );
+    res.setHeader('ETag', etag(revision));
     // Devuelve el snapshot actualizado (útil para confirmar desde el front)
-    return this.diagrams.upsertForUser(userId, projectId, payload);
+    return snapshot;
+  }
+
+  // POST /api/projects/:projectId/diagram/commands
+  // Body: { commands: [{ op: 'addClass', name: 'Cliente' }, ...] }
+  @Post('commands')
+  @RequireCapability('diagram:edit', { accessToken: true })
+  async commands(
+    @Req() req: any,
+    @Res({ passthrough: true }) res: Response,
+    @Param('projectId') projectId: string,
+    @Body() body: { commands?: unknown },
+  ) {
+    const userId: string = req.user.id;
+    const result = await this.diagrams.applyCommandsForUser(
+      userId,
+      projectId,
+      body?.commands,
+    );
+    res.setHeader('ETag', etag(result.revision));
+    return result;
+  }
+
+  // GET /api/projects/:projectId/diagram/diff?from=<versionId>&to=<versionId|current>
+  @Get('diff')
+  @RequireCapability('project:view')
+  async diff(
+    @Req() req: any,
+    @Param('projectId') projectId: string,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+  ) {
+    const userId: string = req.user.id;
+    if (!from) throw new BadRequestException('Parámetro from requerido');
+    return this.versions.diff(userId, projectId, from, to || 'current');
   }
 }
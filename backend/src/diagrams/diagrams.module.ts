@@ -1,13 +1,24 @@
 import { Module } from '@nestjs/common';
 import { DiagramsService } from './diagrams.service';
 import { DiagramsController } from './diagrams.controller';
+import { DiagramModelController } from './diagram-model.controller';
+import { DiagramXmiController } from './diagram-xmi.controller';
+import { DiagramVersionsService } from './diagram-versions.service';
+import { DiagramVersionsController } from './diagram-versions.controller';
 import { PrismaService } from '../common/prisma.service';
+import { DiagramRealtimeModule } from '../diagram-realtime/diagram-realtime.module';
 
 @Module({
-  controllers: [DiagramsController],
-  providers: [DiagramsService, PrismaService],
+  imports: [DiagramRealtimeModule],
+  controllers: [
+    DiagramsController,
+    DiagramVersionsController,
+    DiagramModelController,
+    DiagramXmiController,
+  ],
+  providers: [DiagramsService, DiagramVersionsService, PrismaService],
   // 👇 ¡Clave! Exporta el servicio para que otros módulos (ProjectsModule)
   // puedan inyectarlo en sus controllers.
-  exports: [DiagramsService],
+  exports: [DiagramsService, DiagramVersionsService],
 })
 export class DiagramsModule {}
@@ -1,18 +1,221 @@
 import { Test, TestingModule } from '@nestjs/testing';
-import { DiagramsService } from './diagrams.service';
+import { DiagramConflictException, DiagramsService } from './diagrams.service';
+import { PrismaService } from '../common/prisma.service';
+import { PolicyService } from '../policy/policy.service';
+import { ActivityService } from '../activity/activity.service';
+import { DiagramGateway } from '../diagram-realtime/diagram.gateway';
+import {
+  InvalidSnapshotException,
+  SNAPSHOT_SCHEMA_VERSION,
+} from './snapshot-schema';
 
 describe('DiagramsService', () => {
   let service: DiagramsService;
+  const prisma = {
+    diagram: {
+      findUnique: jest.fn(),
+      create: jest.fn(),
+      upsert: jest.fn(),
+      updateMany: jest.fn(),
+    },
+  };
+  const policy = { assert: jest.fn() };
+  const activity = { recordDiagramSave: jest.fn() };
+  const gateway = {
+    flushRoom: jest.fn(),
+    broadcastSnapshot: jest.fn(),
+    applyCommands: jest.fn(),
+  };
+
+  const cls = (id: string, name: string) => ({
+    id,
+    shape: 'uml-class',
+    data: { name, attributes: [], methods: [] },
+  });
+  const payload = { nodes: [cls('a', 'Cliente')], edges: [] };
+  const server = { nodes: [cls('b', 'Pedido')], edges: [], updatedAt: 'x' };
 
   beforeEach(async () => {
+    jest.resetAllMocks();
     const module: TestingModule = await Test.createTestingModule({
-      providers: [DiagramsService],
+      providers: [
+        DiagramsService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: PolicyService, useValue: policy },
+        { provide: ActivityService, useValue: activity },
+        { provide: DiagramGateway, useValue: gateway },
+      ],
     }).compile();
 
     service = module.get<DiagramsService>(DiagramsService);
+    gateway.flushRoom.mockResolvedValue(false);
   });
 
   it('should be defined', () => {
     expect(service).toBeDefined();
   });
+
+  describe('PUT sin sala abierta', () => {
+    it('con la revisión vigente escribe y la incrementa', async () => {
+      prisma.diagram.updateMany.mockResolvedValue({ count: 1 });
+
+      const res = await service.upsertForUser('u1', 'p1', payload, 4);
+
+      expect(prisma.diagram.updateMany).toHaveBeenCalledWith({
+        where: { projectId: 'p1', revision: 4 },
+        data: {
+          snapshot: expect.objectContaining(payload),
+          revision: { increment: 1 },
+        },
+      });
+      expect(res.revision).toBe(5);
+      expect(activity.recordDiagramSave).toHaveBeenCalledWith(
+        'p1',
+        'u1',
+        'rest',
+      );
+    });
+
+    it('con una revisión vieja responde 409 con el snapshot del servidor', async () => {
+      prisma.diagram.updateMany.mockResolvedValue({ count: 0 });
+      prisma.diagram.findUnique.mockResolvedValue({
+        snapshot: server,
+        revision: 7,
+      });
+
+      const err = await service
+        .upsertForUser('u1', 'p1', payload, 4)
+        .catch((e: unknown) => e);
+
+      expect(err).toBeInstanceOf(DiagramConflictException);
+      expect((err as DiagramConflictException).getResponse()).toMatchObject({
+        statusCode: 409,
+        snapshot: server,
+        revision: 7,
+      });
+      expect(activity.recordDiagramSave).not.toHaveBeenCalled();
+    });
+
+    it('sin If-Match la escritura es incondicional', async () => {
+      prisma.diagram.upsert.mockResolvedValue({ snapshot: {}, revision: 1 });
+      await service.upsertForUser('u1', 'p1', payload);
+      expect(prisma.diagram.updateMany).not.toHaveBeenCalled();
+      expect(prisma.diagram.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          update: expect.objectContaining({ revision: { increment: 1 } }),
+        }),
+      );
+    });
+
+    it('rechaza con 400 un diagrama inválido sin escribir nada', async () => {
+      const err = await service
+        .upsertForUser('u1', 'p1', {
+          nodes: [cls('a', '<script>alert(1)</script>')],
+          edges: [],
+        })
+        .catch((e: unknown) => e);
+
+      expect(err).toBeInstanceOf(InvalidSnapshotException);
+      expect(prisma.diagram.upsert).not.toHaveBeenCalled();
+      expect(gateway.broadcastSnapshot).not.toHaveBeenCalled();
+    });
+
+    it('migra el payload y guarda la versión del esquema', async () => {
+      prisma.diagram.upsert.mockResolvedValue({ snapshot: {}, revision: 1 });
+      await service.upsertForUser('u1', 'p1', {
+        nodes: [cls('a', 'Cliente'), cls('b', 'Pedido')],
+        edges: [
+          {
+            id: 'e1',
+            shape: 'edge',
+            source: { cell: 'a' },
+            target: { cell: 'b' },
+            data: { type: 'nav', sourceMultiplicity: '1' },
+          },
+        ],
+      });
+
+      const { update } = prisma.diagram.upsert.mock.calls[0][0];
+      expect(update.snapshot.schemaVersion).toBe(SNAPSHOT_SCHEMA_VERSION);
+      expect(update.snapshot.edges[0].data).toEqual({
+        type: 'assoc_direct',
+        multSource: '1',
+      });
+    });
+  });
+
+  describe('PUT con sala en tiempo real', () => {
+    beforeEach(() => gateway.flushRoom.mockResolvedValue(true));
+
+    it('escribe a través del Y.Doc si nadie escribió antes', async () => {
+      gateway.broadcastSnapshot.mockResolvedValue(true);
+      prisma.diagram.findUnique.mockResolvedValueOnce({
+        snapshot: payload,
+        revision: 4,
+      });
+
+      const res = await service.upsertForUser('u1', 'p1', payload, 3);
+
+      // La comparación con If-Match la hace la sala, junto con la escritura
+      expect(gateway.broadcastSnapshot).toHaveBeenCalledWith(
+        'p1',
+        expect.objectContaining(payload),
+        3,
+      );
+      expect(prisma.diagram.updateMany).not.toHaveBeenCalled();
+      expect(res.revision).toBe(4);
+    });
+
+    it('si la sala rechaza la revisión responde 409 con lo actual', async () => {
+      gateway.broadcastSnapshot.mockResolvedValue(false);
+      prisma.diagram.findUnique.mockResolvedValue({
+        snapshot: server,
+        revision: 4,
+      });
+
+      const err = await service
+        .upsertForUser('u1', 'p1', payload, 3)
+        .catch((e: unknown) => e);
+      expect(err).toBeInstanceOf(DiagramConflictException);
+      expect((err as DiagramConflictException).getResponse()).toMatchObject({
+        revision: 4,
+      });
+      expect(gateway.flushRoom).toHaveBeenCalledWith('p1');
+    });
+
+    it('el GET vuelca antes la sala', async () => {
+      prisma.diagram.findUnique.mockResolvedValue({
+        snapshot: server,
+        revision: 5,
+      });
+
+      const res = await service.getOrInitForUser('u1', 'p1');
+
+      expect(gateway.flushRoom).toHaveBeenCalledWith('p1');
+      expect(gateway.flushRoom.mock.invocationCallOrder[0]).toBeLessThan(
+        prisma.diagram.findUnique.mock.invocationCallOrder[0],
+      );
+      expect(res.revision).toBe(5);
+    });
+  });
+
+  describe('comandos de modelo', () => {
+    it('se aplican en la sala a nombre del usuario', async () => {
+      const commands = [{ op: 'addClass', name: 'Producto' }];
+      gateway.applyCommands.mockResolvedValue([{ op: 'addClass', id: 'n1' }]);
+      prisma.diagram.findUnique.mockResolvedValue({
+        snapshot: server,
+        revision: 8,
+      });
+
+      const res = await service.applyCommandsForUser('u1', 'p1', commands);
+
+      expect(policy.assert).toHaveBeenCalledWith('u1', 'p1', 'diagram:edit');
+      expect(gateway.applyCommands).toHaveBeenCalledWith('p1', commands, 'u1');
+      expect(res).toEqual({
+        revision: 8,
+        results: [{ op: 'addClass', id: 'n1' }],
+      });
+    });
+  });
 });
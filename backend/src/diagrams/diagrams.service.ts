@@ -1,31 +1,55 @@
-import {
-  Injectable,
-  NotFoundException,
-  ForbiddenException,
-} from '@nestjs/common';
+import { ConflictException, Injectable } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
 import { PrismaService } from '../common/prisma.service';
+import { PolicyService } from '../policy/policy.service';
+import { ActivityService } from '../activity/activity.service';
+import { DiagramGateway } from '../diagram-realtime/diagram.gateway';
+import { Snapshot, toUmlModel, validateUmlModel } from './uml-model';
+import {
+  SNAPSHOT_SCHEMA_VERSION,
+  prepareSnapshot,
+  upgradeSnapshot,
+} from './snapshot-schema';
+import { exportXmi } from './xmi';
+
+type DiagramPayload = { nodes: any[]; edges: any[]; updatedAt?: string };
+
+/** 409 del PUT: trae lo que hay en el servidor para resolver el conflicto */
+export class DiagramConflictException extends ConflictException {
+  constructor(snapshot: Prisma.JsonValue, revision: number) {
+    super({
+      statusCode: 409,
+      message: 'El diagrama cambió en el servidor desde tu última carga',
+      snapshot,
+      revision,
+    });
+  }
+}
 
 @Injectable()
 export class DiagramsService {
-  constructor(private prisma: PrismaService) {}
-
-  /** Verifica si el usuario puede ver/editar el proyecto */
-  private async assertProjectAccess(userId: string, projectId: string) {
-    const p = await this.prisma.project.findUnique({
-      where: { id: projectId },
-      select: {
-        ownerId: true,
-        members: { where: { userId }, select: { id: true }, take: 1 },
-      },
-    });
-    if (!p) throw new NotFoundException('Proyecto no encontrado');
-    const isMember = p.ownerId === userId || p.members.length > 0;
-    if (!isMember) throw new ForbiddenException('Sin acceso a este proyecto');
+  constructor(
+    private prisma: PrismaService,
+    private policy: PolicyService,
+    private activity: ActivityService,
+    private gateway: DiagramGateway,
+  ) {}
+
+  /** Verifica si el usuario puede ver el proyecto */
+  async assertProjectAccess(userId: string, projectId: string) {
+    await this.policy.assert(userId, projectId, 'project:view');
   }
 
-  /** Interno: obtiene o crea el snapshot vacío */
-  private async getOrInit(projectId: string) {
-    let d = await this.prisma.diagram.findUnique({ where: { projectId } });
+  /**
+   * Interno: obtiene o crea el snapshot vacío (con su revisión). Lo guardado
+   * con un esquema anterior se devuelve ya migrado.
+   */
+  private async getOrInitRow(projectId: string) {
+    const select = { snapshot: true, revision: true } as const;
+    let d = await this.prisma.diagram.findUnique({
+      where: { projectId },
+      select,
+    });
     if (!d) {
       d = await this.prisma.diagram.create({
         data: {
@@ -34,64 +58,155 @@ export class DiagramsService {
             nodes: [],
             edges: [],
             updatedAt: new Date().toISOString(),
+            schemaVersion: SNAPSHOT_SCHEMA_VERSION,
           },
         },
+        select,
       });
     }
-    return d.snapshot;
+    return { ...d, snapshot: upgradeSnapshot(d.snapshot) };
   }
 
-  /** Interno: upsert del snapshot */
+  private async getOrInit(projectId: string) {
+    return (await this.getOrInitRow(projectId)).snapshot;
+  }
+
+  /**
+   * Interno: escribe el snapshot. Con `expectedRevision` la escritura es
+   * condicional (update con la revisión en el where): si otro escribió
+   * antes, 409 con el estado actual.
+   */
   private async upsert(
     projectId: string,
-    payload: { nodes: any[]; edges: any[]; updatedAt?: string },
+    payload: DiagramPayload,
+    expectedRevision?: number,
   ) {
     const snapshot = {
       nodes: payload.nodes ?? [],
       edges: payload.edges ?? [],
       updatedAt: payload.updatedAt ?? new Date().toISOString(),
+      schemaVersion: SNAPSHOT_SCHEMA_VERSION,
     };
 
-    const d = await this.prisma.diagram.upsert({
-      where: { projectId },
-      update: { snapshot },
-      create: { projectId, snapshot },
-      select: { snapshot: true },
+    if (expectedRevision === undefined) {
+      return this.prisma.diagram.upsert({
+        where: { projectId },
+        update: { snapshot, revision: { increment: 1 } },
+        create: { projectId, snapshot },
+        select: { snapshot: true, revision: true },
+      });
+    }
+
+    const { count } = await this.prisma.diagram.updateMany({
+      where: { projectId, revision: expectedRevision },
+      data: { snapshot, revision: { increment: 1 } },
     });
+    if (!count) await this.throwConflict(projectId);
+    return { snapshot, revision: expectedRevision + 1 };
+  }
 
-    return d.snapshot;
+  private async throwConflict(projectId: string): Promise<never> {
+    const current = await this.getOrInitRow(projectId);
+    throw new DiagramConflictException(current.snapshot, current.revision);
+  }
+
+  /** Snapshot persistido sin control de acceso (historial, share público) */
+  async getSnapshot(projectId: string) {
+    return this.getOrInit(projectId);
   }
 
   // ===== Públicos para el controller (con control de acceso) =====
 
+  /** GET del diagrama: vuelca antes la sala, así la revisión es la vigente */
   async getOrInitForUser(userId: string, projectId: string) {
     await this.assertProjectAccess(userId, projectId);
-    return this.getOrInit(projectId);
+    await this.gateway.flushRoom(projectId);
+    return this.getOrInitRow(projectId);
+  }
+
+  /**
+   * Modelo UML canónico del diagrama más los problemas de validación.
+   * Vuelca antes el guardado pendiente de la sala para no leer atrasado.
+   */
+  async getModelForUser(userId: string, projectId: string) {
+    await this.assertProjectAccess(userId, projectId);
+    await this.gateway.flushRoom(projectId);
+    const { snapshot, revision } = await this.getOrInitRow(projectId);
+    const model = toUmlModel(snapshot as Snapshot);
+    return { revision, ...model, issues: validateUmlModel(model) };
   }
 
+  /** XMI 2.5.1 del modelo; el uml:Model lleva el nombre del proyecto */
+  async exportXmiForUser(userId: string, projectId: string) {
+    await this.assertProjectAccess(userId, projectId);
+    await this.gateway.flushRoom(projectId);
+    const [{ snapshot }, project] = await Promise.all([
+      this.getOrInitRow(projectId),
+      this.prisma.project.findUnique({
+        where: { id: projectId },
+        select: { name: true },
+      }),
+    ]);
+    const name = project?.name ?? 'Modelo';
+    return { name, xmi: exportXmi(toUmlModel(snapshot as Snapshot), name) };
+  }
+
+  /**
+   * PUT del diagrama. Si el proyecto tiene sala en tiempo real, primero se
+   * vuelca su guardado pendiente (esas ediciones cuentan como una revisión
+   * más) y se escribe a través del Y.Doc: los clientes conectados lo reciben
+   * y el guardado diferido de la sala no lo revierte. El If-Match se compara
+   * ahí mismo (ver RealtimeService.replaceSnapshot).
+   * El payload se migra al esquema actual y se valida (400 si no pasa).
+   */
   async upsertForUser(
     userId: string,
     projectId: string,
-    payload: { nodes: any[]; edges: any[]; updatedAt?: string },
+    body: DiagramPayload,
+    expectedRevision?: number,
   ) {
     await this.assertCanEdit(userId, projectId);
-    return this.upsert(projectId, payload);
-  }
+    const payload = prepareSnapshot(body);
 
-  private async assertCanEdit(userId: string, projectId: string) {
-    const p = await this.prisma.project.findUnique({
-      where: { id: projectId },
-      select: {
-        ownerId: true,
-        members: { where: { userId }, select: { role: true }, take: 1 },
-      },
-    });
-    if (!p) throw new NotFoundException('Proyecto no encontrado');
-    const role = p.ownerId === userId ? 'OWNER' : (p.members[0]?.role ?? null);
-    if (!role || (role !== 'OWNER' && role !== 'ADMIN' && role !== 'EDITOR')) {
-      throw new ForbiddenException(
-        'No tenés permisos para editar este proyecto',
+    let result: { snapshot: Prisma.JsonValue; revision: number };
+    if (await this.gateway.flushRoom(projectId)) {
+      // La sala compara la revisión y escribe sin await de por medio
+      const replaced = await this.gateway.broadcastSnapshot(
+        projectId,
+        payload,
+        expectedRevision,
       );
+      if (!replaced) await this.throwConflict(projectId);
+      result = await this.getOrInitRow(projectId);
+    } else {
+      result = await this.upsert(projectId, payload, expectedRevision);
     }
+
+    await this.activity.recordDiagramSave(projectId, userId, 'rest');
+    return result;
+  }
+
+  /**
+   * Comandos de modelo (addClass, addRelation, …). Se aplican siempre a
+   * través de la sala en tiempo real, así los editores conectados los ven
+   * al instante y la edición queda a nombre del usuario.
+   */
+  async applyCommandsForUser(
+    userId: string,
+    projectId: string,
+    commands: unknown,
+  ) {
+    await this.assertCanEdit(userId, projectId);
+    const results = await this.gateway.applyCommands(
+      projectId,
+      commands,
+      userId,
+    );
+    const { revision } = await this.getOrInitRow(projectId);
+    return { revision, results };
+  }
+
+  async assertCanEdit(userId: string, projectId: string) {
+    await this.policy.assert(userId, projectId, 'diagram:edit');
   }
 }
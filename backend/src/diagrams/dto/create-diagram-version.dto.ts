@@ -0,0 +1,8 @@
+import { IsOptional, IsString, MaxLength } from 'class-validator';
+
+export class CreateDiagramVersionDto {
+  @IsOptional()
+  @IsString()
+  @MaxLength(120)
+  label?: string;
+}
@@ -0,0 +1,36 @@
+// src/diagrams/fixtures/cells.ts
+/**
+ * Celdas X6 como las guarda el editor, para los specs de diagrams.
+ * `data` se mezcla con el data por defecto; `cell` pisa el resto de la celda
+ * (position, attrs, markup...).
+ */
+
+export const cls = (
+  id: string,
+  name: string,
+  data: Record<string, any> = {},
+  cell: Record<string, any> = {},
+) => ({
+  id,
+  shape: 'uml-class',
+  position: { x: 0, y: 0 },
+  size: { width: 180, height: 100 },
+  attrs: { name: { text: name } },
+  data: { name, attributes: [], methods: [], ...data },
+  ...cell,
+});
+
+export const rel = (
+  id: string,
+  source: string,
+  target: string,
+  data: Record<string, any> = {},
+  cell: Record<string, any> = {},
+) => ({
+  id,
+  shape: 'edge',
+  source: { cell: source, port: 'r2' },
+  target: { cell: target, port: 'l2' },
+  data,
+  ...cell,
+});
@@ -0,0 +1,194 @@
+import {
+  InvalidSnapshotException,
+  SNAPSHOT_LIMITS,
+  SNAPSHOT_SCHEMA_VERSION,
+  migrateSnapshot,
+  prepareSnapshot,
+  validateSnapshot,
+} from './snapshot-schema';
+import { cls, rel } from './fixtures/cells';
+
+const paths = (snap: { nodes: any[]; edges: any[] }) =>
+  validateSnapshot(snap).map((i) => i.path);
+
+describe('snapshot-schema', () => {
+  it('migra un snapshot v1 sin tocar el original', () => {
+    const v1 = {
+      nodes: [
+        {
+          ...cls('a', 'Cliente'),
+          data: { name: 'Cliente', attributes: 'id: Long\n\nnombre: String' },
+        },
+      ],
+      edges: [
+        rel('e1', 'a', 'b', {
+          type: 'nav',
+          sourceMultiplicity: '1',
+          targetMultiplicity: '0..*',
+          multTarget: '*',
+        }),
+      ],
+    };
+
+    const v2 = migrateSnapshot(v1);
+
+    expect(v2.schemaVersion).toBe(SNAPSHOT_SCHEMA_VERSION);
+    expect(v2.nodes[0].data.attributes).toEqual(['id: Long', 'nombre: String']);
+    // Si ya estaba el campo nuevo, gana sobre el alias
+    expect(v2.edges[0].data).toEqual({
+      type: 'assoc_direct',
+      multSource: '1',
+      multTarget: '*',
+    });
+    expect(v1.edges[0].data.type).toBe('nav');
+    expect(validateSnapshot(v2)).toEqual([]);
+  });
+
+  it('no vuelve a migrar lo que ya está en la versión actual', () => {
+    const snap = {
+      nodes: [],
+      edges: [rel('e1', 'a', 'b', { type: 'nav' })],
+      schemaVersion: SNAPSHOT_SCHEMA_VERSION,
+    };
+    expect(migrateSnapshot(snap).edges[0].data.type).toBe('nav');
+  });
+
+  it('rechaza scripts, handlers y markup propio', () => {
+    expect(
+      paths({
+        nodes: [
+          cls('a', '<script>alert(1)</script>'),
+          cls(
+            'b',
+            'Pedido',
+            {},
+            { attrs: { body: { onclick: 'alert(1)' }, link: { href: 'x' } } },
+          ),
+          cls('c', 'Item', {}, { markup: [{ tagName: 'foreignObject' }] }),
+        ],
+        edges: [
+          rel('e1', 'a', 'b', { name: 'javascript:alert(1)' }),
+          {
+            ...rel('e2', 'a', 'b'),
+            labels: [{ attrs: { text: { text: 'ok', onMouseOver: 'x' } } }],
+          },
+        ],
+      }),
+    ).toEqual([
+      'nodes[0].attrs.name.text',
+      'nodes[0].data.name',
+      'nodes[1].attrs.body.onclick',
+      'nodes[2].markup',
+      'edges[0].data.name',
+      'edges[1].labels[0].attrs.text.onMouseOver',
+    ]);
+  });
+
+  it('acepta tipos genéricos con nombres de tags', () => {
+    const attributes = [
+      'items: List<Object>',
+      'tags: Set<Style>',
+      'links: List<Link>',
+      'porClave: Map<String, List<Link>>',
+    ];
+    expect(
+      validateSnapshot({
+        nodes: [cls('a', 'Pedido', { attributes })],
+        edges: [],
+      }),
+    ).toEqual([]);
+    // Con atributos o cerrado sí es markup
+    expect(
+      paths({
+        nodes: [
+          cls('b', 'Item', {
+            attributes: ['<img src=x onerror=alert(1)>', 'a: <svg/onload=x>'],
+            methods: ['ver(): <style>b{}</style>'],
+          }),
+        ],
+        edges: [],
+      }),
+    ).toEqual([
+      'nodes[0].data.attributes[0]',
+      'nodes[0].data.attributes[1]',
+      'nodes[0].data.methods[0]',
+    ]);
+  });
+
+  it('exige la forma de las celdas y los campos de data', () => {
+    expect(
+      paths({
+        nodes: [
+          cls('a', 'Cliente'),
+          cls('a', 'Repetida'),
+          { id: 'b', shape: 'uml-class', data: { attributes: 'id: Long' } },
+          { id: 'c', shape: 'html' },
+          'nodo',
+        ],
+        edges: [
+          rel('e1', 'a', 'b', { type: 'hereda', multSource: 1 }),
+          { id: 'e2', shape: 'edge', target: 'a' },
+        ],
+      }),
+    ).toEqual([
+      'nodes[1].id',
+      'nodes[2].data.name',
+      'nodes[2].data.attributes',
+      'nodes[3].shape',
+      'nodes[4]',
+      'edges[0].data.multSource',
+      'edges[0].data.type',
+      'edges[1].source',
+    ]);
+  });
+
+  it('aplica los límites de tamaño', () => {
+    const long = 'x'.repeat(SNAPSHOT_LIMITS.maxMemberLength + 1);
+    expect(
+      paths({
+        nodes: [
+          {
+            ...cls('a', 'Cliente'),
+            data: {
+              name: 'C'.repeat(SNAPSHOT_LIMITS.maxNameLength + 1),
+              attributes: [long],
+              methods: Array(SNAPSHOT_LIMITS.maxMembers + 1).fill('m()'),
+            },
+          },
+        ],
+        edges: [],
+      }),
+    ).toEqual([
+      'nodes[0].data.name',
+      'nodes[0].data.attributes[0]',
+      'nodes[0].data.methods',
+    ]);
+
+    const huge = 'y'.repeat(SNAPSHOT_LIMITS.maxBytes);
+    expect(paths({ nodes: [cls('a', huge)], edges: [] })).toEqual(['snapshot']);
+  });
+
+  it('prepareSnapshot migra y lanza 400 con los problemas', () => {
+    expect(
+      prepareSnapshot({
+        nodes: [],
+        edges: [rel('e1', 'a', 'b', { type: 'nav' })],
+      }).edges[0].data.type,
+    ).toBe('assoc_direct');
+
+    let error: unknown;
+    try {
+      prepareSnapshot({ nodes: [cls('a', '<img src=x>')], edges: [] });
+    } catch (e) {
+      error = e;
+    }
+    expect(error).toBeInstanceOf(InvalidSnapshotException);
+    expect((error as InvalidSnapshotException).getResponse()).toMatchObject({
+      statusCode: 400,
+      issues: [
+        { path: 'nodes[0].attrs.name.text' },
+        { path: 'nodes[0].data.name' },
+      ],
+    });
+  });
+});
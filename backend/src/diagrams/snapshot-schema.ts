@@ -0,0 +1,336 @@
+// src/diagrams/snapshot-schema.ts
+/**
+ * Esquema versionado de los snapshots X6 que se persisten (REST y Y.Doc).
+ *
+ * - `migrateSnapshot` sube un snapshot viejo a la versión actual; se aplica
+ *   al leer (filas guardadas antes de una migración) y antes de escribir
+ *   (clientes viejos que todavía mandan el formato anterior).
+ * - `validateSnapshot` revisa la forma de las celdas, los campos de `data`
+ *   que usa el modelo UML, los límites de tamaño y que no viaje contenido
+ *   ejecutable (handlers `on*` en attrs, markup propio, <script>…) que el
+ *   visor público terminaría pintando.
+ */
+import { BadRequestException } from '@nestjs/common';
+import { toLines } from './uml-model';
+
+export const SNAPSHOT_SCHEMA_VERSION = 2;
+
+export const SNAPSHOT_LIMITS = {
+  /** JSON de nodes + edges */
+  maxBytes: Number(process.env.DIAGRAM_MAX_SNAPSHOT_KB ?? 2048) * 1024,
+  maxNodes: 1000,
+  maxEdges: 3000,
+  maxIdLength: 100,
+  /** Nombres de clase/relación y multiplicidades */
+  maxNameLength: 200,
+  /** Cada línea de atributo o método */
+  maxMemberLength: 500,
+  maxMembers: 200,
+  maxDepth: 20,
+};
+
+const isObject = (v: unknown): v is Record<string, any> =>
+  !!v && typeof v === 'object' && !Array.isArray(v);
+
+type SnapshotBody = { nodes: any[]; edges: any[]; schemaVersion?: number };
+
+export type SnapshotIssue = { path: string; message: string };
+
+/** Mensaje para el usuario: el primer problema (el resto va en `issues`) */
+export function snapshotIssuesMessage(issues: SnapshotIssue[]) {
+  const [first] = issues;
+  return `Diagrama inválido: ${first.path} ${first.message}`;
+}
+
+/** 400 con la lista de problemas */
+export class InvalidSnapshotException extends BadRequestException {
+  constructor(issues: SnapshotIssue[]) {
+    super({
+      statusCode: 400,
+      message: snapshotIssuesMessage(issues),
+      issues,
+    });
+  }
+}
+
+/* ===================== Migraciones ===================== */
+
+/** Migración de la versión N a la N+1 (trabaja sobre una copia) */
+type Migration = (snap: SnapshotBody) => void;
+
+const MIGRATIONS: Record<number, Migration> = {
+  /**
+   * v1 → v2: un solo nombre por campo. Multiplicidades en multSource /
+   * multTarget (como las edita el editor), 'nav' pasa a 'assoc_direct' y
+   * atributos/métodos guardados como texto pasan a arrays de líneas.
+   */
+  1: (snap) => {
+    for (const node of snap.nodes) {
+      const data = node?.data;
+      if (!data || typeof data !== 'object') continue;
+      for (const key of ['attributes', 'methods']) {
+        if (typeof data[key] === 'string') data[key] = toLines(data[key]);
+      }
+    }
+    for (const edge of snap.edges) {
+      const data = edge?.data;
+      if (!data || typeof data !== 'object') continue;
+      for (const [alias, field] of [
+        ['sourceMultiplicity', 'multSource'],
+        ['targetMultiplicity', 'multTarget'],
+      ]) {
+        if (!(alias in data)) continue;
+        if (!data[field]) data[field] = data[alias];
+        delete data[alias];
+      }
+      if (data.type === 'nav') data.type = 'assoc_direct';
+    }
+  },
+};
+
+export function snapshotVersion(snap: { schemaVersion?: unknown }) {
+  const v = snap?.schemaVersion;
+  return typeof v === 'number' && Number.isInteger(v) && v > 0 ? v : 1;
+}
+
+/**
+ * Lleva el snapshot a SNAPSHOT_SCHEMA_VERSION. Sin `schemaVersion` es v1.
+ * Nunca modifica el original: si hay que migrar trabaja sobre una copia.
+ */
+export function migrateSnapshot<T extends SnapshotBody>(
+  snap: T,
+): T & { schemaVersion: number } {
+  let version = snapshotVersion(snap);
+  if (version >= SNAPSHOT_SCHEMA_VERSION) {
+    return { ...snap, schemaVersion: version };
+  }
+  const next = structuredClone(snap);
+  while (version < SNAPSHOT_SCHEMA_VERSION) {
+    MIGRATIONS[version](next);
+    version += 1;
+  }
+  return { ...next, schemaVersion: version };
+}
+
+/** Para lo leído de la DB: migra si tiene forma de snapshot; si no, igual */
+export function upgradeSnapshot<T>(value: T): T {
+  const snap = value as any;
+  if (!isObject(snap) || !Array.isArray(snap.nodes)) return value;
+  if (!Array.isArray(snap.edges)) return value;
+  return migrateSnapshot(snap as SnapshotBody) as T;
+}
+
+/* ===================== Validación ===================== */
+
+const NODE_SHAPES = ['uml-class', 'circle'];
+const EDGE_SHAPES = ['edge'];
+const EDGE_TYPES = [
+  'assoc',
+  'assoc_direct',
+  'aggr',
+  'comp',
+  'dep',
+  'inherit',
+  'many-to-many',
+];
+
+/**
+ * Tags que no tienen nada que hacer en un texto de UML. Solo cuenta como
+ * markup una apertura con atributos o `/` (`<img src=…>`, `<svg/onload=…>`)
+ * o un cierre: `List<Link>` o `Set<Style>` son tipos genéricos.
+ */
+const UNSAFE_TAG =
+  'script|iframe|object|embed|foreignobject|style|link|meta|img|svg';
+const UNSAFE_TEXT = new RegExp(
+  `<\\s*(${UNSAFE_TAG})[\\s/]|<\\s*/\\s*(${UNSAFE_TAG})\\s*>|javascript\\s*:`,
+  'i',
+);
+
+class IssueCollector {
+  // Con esto alcanza para corregir; el resto sería ruido
+  private static readonly MAX = 20;
+  readonly issues: SnapshotIssue[] = [];
+
+  add(path: string, message: string) {
+    if (this.issues.length < IssueCollector.MAX) {
+      this.issues.push({ path, message });
+    }
+  }
+
+  get full() {
+    return this.issues.length >= IssueCollector.MAX;
+  }
+}
+
+/** Recorre todo el valor: textos peligrosos, handlers en attrs, profundidad */
+function scanValue(
+  value: unknown,
+  path: string,
+  out: IssueCollector,
+  inAttrs = false,
+  depth = 0,
+) {
+  if (out.full) return;
+  if (depth > SNAPSHOT_LIMITS.maxDepth) {
+    out.add(path, 'tiene demasiados niveles de anidamiento');
+    return;
+  }
+  if (typeof value === 'string') {
+    if (UNSAFE_TEXT.test(value)) out.add(path, 'contiene código o HTML');
+    return;
+  }
+  if (Array.isArray(value)) {
+    value.forEach((v, i) =>
+      scanValue(v, `${path}[${i}]`, out, inAttrs, depth + 1),
+    );
+    return;
+  }
+  if (!isObject(value)) return;
+  for (const [key, v] of Object.entries(value)) {
+    // En attrs cada clave termina como atributo SVG: onclick=... se ejecuta
+    if (inAttrs && /^on/i.test(key)) {
+      out.add(`${path}.${key}`, 'no se permiten handlers de eventos');
+      continue;
+    }
+    scanValue(v, `${path}.${key}`, out, inAttrs || key === 'attrs', depth + 1);
+  }
+}
+
+function checkText(
+  value: unknown,
+  path: string,
+  max: number,
+  out: IssueCollector,
+) {
+  if (value === undefined) return;
+  if (typeof value !== 'string') out.add(path, 'debe ser texto');
+  else if (value.length > max) out.add(path, `supera ${max} caracteres`);
+}
+
+function checkLines(value: unknown, path: string, out: IssueCollector) {
+  if (value === undefined) return;
+  if (!Array.isArray(value)) {
+    out.add(path, 'debe ser una lista de líneas');
+    return;
+  }
+  if (value.length > SNAPSHOT_LIMITS.maxMembers) {
+    out.add(path, `supera ${SNAPSHOT_LIMITS.maxMembers} elementos`);
+  }
+  value.forEach((line, i) =>
+    checkText(line, `${path}[${i}]`, SNAPSHOT_LIMITS.maxMemberLength, out),
+  );
+}
+
+function checkCell(
+  cell: unknown,
+  path: string,
+  shapes: string[],
+  ids: Set<string>,
+  out: IssueCollector,
+) {
+  if (!isObject(cell)) {
+    out.add(path, 'debe ser un objeto');
+    return null;
+  }
+  const { id, shape } = cell;
+  if (typeof id !== 'string' || !id) out.add(`${path}.id`, 'es obligatorio');
+  else if (id.length > SNAPSHOT_LIMITS.maxIdLength) {
+    out.add(`${path}.id`, `supera ${SNAPSHOT_LIMITS.maxIdLength} caracteres`);
+  } else if (ids.has(id)) out.add(`${path}.id`, `"${id}" está repetido`);
+  else ids.add(id);
+
+  if (!shapes.includes(shape)) {
+    out.add(`${path}.shape`, `"${String(shape)}" no es una forma conocida`);
+  }
+  // La forma registrada define el markup; uno propio puede traer cualquier tag
+  if ('markup' in cell) out.add(`${path}.markup`, 'no se permite');
+  if (cell.data !== undefined && !isObject(cell.data)) {
+    out.add(`${path}.data`, 'debe ser un objeto');
+    return null;
+  }
+  scanValue(cell, path, out);
+  return cell;
+}
+
+/** Problemas del snapshot (vacío = válido). Espera la versión actual. */
+export function validateSnapshot(snap: {
+  nodes: unknown;
+  edges: unknown;
+}): SnapshotIssue[] {
+  const out = new IssueCollector();
+  const { nodes, edges } = snap;
+  if (!Array.isArray(nodes) || !Array.isArray(edges)) {
+    out.add('snapshot', 'nodes y edges deben ser arrays');
+    return out.issues;
+  }
+  const bytes = Buffer.byteLength(JSON.stringify({ nodes, edges }));
+  if (bytes > SNAPSHOT_LIMITS.maxBytes) {
+    out.add(
+      'snapshot',
+      `pesa ${Math.ceil(bytes / 1024)} KB (máximo ${SNAPSHOT_LIMITS.maxBytes / 1024} KB)`,
+    );
+    return out.issues;
+  }
+  if (nodes.length > SNAPSHOT_LIMITS.maxNodes) {
+    out.add('nodes', `supera ${SNAPSHOT_LIMITS.maxNodes} elementos`);
+  }
+  if (edges.length > SNAPSHOT_LIMITS.maxEdges) {
+    out.add('edges', `supera ${SNAPSHOT_LIMITS.maxEdges} elementos`);
+  }
+
+  const ids = new Set<string>();
+  nodes.forEach((raw, i) => {
+    const path = `nodes[${i}]`;
+    const node = checkCell(raw, path, NODE_SHAPES, ids, out);
+    if (!node || node.shape !== 'uml-class') return;
+    if (!isObject(node.data)) {
+      out.add(`${path}.data`, 'es obligatorio en una clase');
+      return;
+    }
+    const { name, attributes, methods } = node.data;
+    if (typeof name !== 'string')
+      out.add(`${path}.data.name`, 'es obligatorio');
+    checkText(name, `${path}.data.name`, SNAPSHOT_LIMITS.maxNameLength, out);
+    checkLines(attributes, `${path}.data.attributes`, out);
+    checkLines(methods, `${path}.data.methods`, out);
+  });
+
+  edges.forEach((raw, i) => {
+    const path = `edges[${i}]`;
+    const edge = checkCell(raw, path, EDGE_SHAPES, ids, out);
+    if (!edge) return;
+    for (const end of ['source', 'target']) {
+      const v = edge[end];
+      if (typeof v !== 'string' && !isObject(v)) {
+        out.add(`${path}.${end}`, 'es obligatorio');
+      }
+    }
+    const data = edge.data ?? {};
+    for (const key of ['name', 'multSource', 'multTarget']) {
+      checkText(
+        data[key],
+        `${path}.data.${key}`,
+        SNAPSHOT_LIMITS.maxNameLength,
+        out,
+      );
+    }
+    if (data.type !== undefined && !EDGE_TYPES.includes(data.type)) {
+      out.add(
+        `${path}.data.type`,
+        `"${String(data.type)}" no es un tipo de relación`,
+      );
+    }
+  });
+  return out.issues;
+}
+
+/**
+ * Lo que se guarda: migrado a la versión actual y validado.
+ * Lanza InvalidSnapshotException si no pasa la validación.
+ */
+export function prepareSnapshot<T extends SnapshotBody>(snap: T) {
+  const next = migrateSnapshot(snap);
+  const issues = validateSnapshot(next);
+  if (issues.length) throw new InvalidSnapshotException(issues);
+  return next;
+}
@@ -0,0 +1,167 @@
+import {
+  formatAttribute,
+  formatMethod,
+  parseAttribute,
+  parseMethod,
+  parseMultiplicity,
+  toUmlModel,
+  validateUmlModel,
+} from './uml-model';
+import { cls, rel } from './fixtures/cells';
+
+describe('uml-model', () => {
+  it('parsea atributos con visibilidad, multiplicidad y valor por defecto', () => {
+    expect(parseAttribute('- tags: String[0..*] = vacio')).toEqual({
+      name: 'tags',
+      type: 'String',
+      visibility: 'private',
+      multiplicity: { lower: 0, upper: null },
+      defaultValue: 'vacio',
+    });
+    expect(parseAttribute('Long id')).toMatchObject({
+      name: 'id',
+      type: 'Long',
+    });
+    // "int[]" es un tipo, no una multiplicidad
+    expect(parseAttribute('datos: int[]')).toMatchObject({
+      type: 'int[]',
+      multiplicity: null,
+    });
+    expect(parseAttribute('nombre')).toMatchObject({ type: null });
+  });
+
+  it('parsea métodos con parámetros y tipo de retorno', () => {
+    const m = parseMethod('+ pagar(monto: Double, Long cuenta): boolean');
+    expect(m).toEqual({
+      name: 'pagar',
+      visibility: 'public',
+      parameters: [
+        { name: 'monto', type: 'Double' },
+        { name: 'cuenta', type: 'Long' },
+      ],
+      returnType: 'boolean',
+    });
+    expect(formatMethod(m)).toBe(
+      '+ pagar(monto: Double, cuenta: Long): boolean',
+    );
+    expect(parseMethod('listar()')).toMatchObject({
+      parameters: [],
+      returnType: null,
+    });
+  });
+
+  it('interpreta multiplicidades y rechaza las inválidas', () => {
+    expect(parseMultiplicity('1')).toEqual({ lower: 1, upper: 1 });
+    expect(parseMultiplicity('*')).toEqual({ lower: 0, upper: null });
+    expect(parseMultiplicity('1..n')).toEqual({ lower: 1, upper: null });
+    expect(parseMultiplicity('')).toBeNull();
+    expect(parseMultiplicity('3..1')).toBeNull();
+    expect(parseMultiplicity('uno')).toBeNull();
+  });
+
+  it('unifica nombres y alias de las celdas', () => {
+    const model = toUmlModel({
+      nodes: [
+        cls('c1', 'Cliente', { attributes: 'id: Long\nnombre: String' }),
+        // Sin data.name: el nombre sale de attrs
+        {
+          id: 'c2',
+          shape: 'uml-class',
+          attrs: { name: { text: 'Pedido' }, attrs: { text: 'total: Double' } },
+        },
+      ],
+      edges: [
+        rel('e1', 'c1', 'c2', {
+          type: 'nav',
+          sourceMultiplicity: '1',
+          multTarget: '0..*',
+          navigationProperty: 'pedidos',
+        }),
+      ],
+    });
+
+    expect(model.classes.map((c) => c.name)).toEqual(['Cliente', 'Pedido']);
+    expect(model.classes[0].attributes.map(formatAttribute)).toEqual([
+      'id: Long',
+      'nombre: String',
+    ]);
+    expect(model.classes[1].attributes[0].type).toBe('Double');
+    expect(model.relations[0]).toMatchObject({
+      kind: 'assoc_direct',
+      source: { classId: 'c1', multiplicityText: '1', navigable: false },
+      target: {
+        classId: 'c2',
+        role: 'pedidos',
+        multiplicity: { lower: 0, upper: null },
+        navigable: true,
+      },
+    });
+  });
+
+  it('separa la herencia y descarta los auxiliares del muchos a muchos', () => {
+    const model = toUmlModel({
+      nodes: [
+        cls('a', 'Animal'),
+        cls('p', 'Perro'),
+        cls('ab', 'AlumnoCurso', { isManyToManyTable: true }),
+        { id: 'dot', shape: 'circle', data: { isConnectionNode: true } },
+      ],
+      edges: [
+        rel('g', 'p', 'a', { type: 'inherit' }),
+        rel('m', 'a', 'p', {
+          isManyToManyRelation: true,
+          intermediateNodeId: 'ab',
+          multSource: '*',
+          multTarget: '*',
+        }),
+        rel('x', 'dot', 'ab', { isPerpendicularEdge: true }),
+        {
+          ...rel('c', 'a', 'p'),
+          attrs: { line: { targetMarker: { name: 'diamond', fill: '#111' } } },
+        },
+      ],
+    });
+
+    expect(model.classes).toHaveLength(3);
+    expect(model.generalizations).toEqual([
+      { id: 'g', childId: 'p', parentId: 'a' },
+    ]);
+    expect(model.relations.map((r) => [r.id, r.kind])).toEqual([
+      ['m', 'many-to-many'],
+      ['c', 'comp'],
+    ]);
+    expect(model.relations[0].associationClassId).toBe('ab');
+    expect(model.relations[1].target.aggregation).toBe('composite');
+  });
+
+  it('valida nombres, miembros, extremos, multiplicidades y ciclos', () => {
+    const model = toUmlModel({
+      nodes: [
+        cls('c1', 'Cliente', { attributes: ['id: Long', 'ID: Long', 'alias'] }),
+        cls('c2', 'cliente'),
+        cls('c3', ''),
+      ],
+      edges: [
+        rel('e1', 'c1', 'c2', { multSource: 'muchos' }),
+        rel('e2', 'c1', 'borrada'),
+        rel('g1', 'c1', 'c2', { type: 'inherit' }),
+        rel('g2', 'c2', 'c1', { type: 'inherit' }),
+      ],
+    });
+
+    const issues = validateUmlModel(model);
+    expect(issues.map((i) => [i.code, i.elementId])).toEqual([
+      ['member-duplicate', 'c1'],
+      ['attribute-type-missing', 'c1'],
+      ['class-name-duplicate', 'c2'],
+      ['class-name-empty', 'c3'],
+      ['multiplicity-invalid', 'e1'],
+      ['relation-dangling', 'e2'],
+      ['generalization-cycle', 'g1'],
+      ['generalization-cycle', 'g2'],
+    ]);
+    expect(issues.find((i) => i.code === 'attribute-type-missing')).toEqual(
+      expect.objectContaining({ severity: 'warning' }),
+    );
+  });
+});
@@ -0,0 +1,512 @@
+// src/diagrams/uml-model.ts
+/**
+ * Modelo UML canónico extraído de un snapshot X6. Es la única lectura de
+ * las celdas: nombres con fallback a attrs, atributos/métodos parseados,
+ * tipos de relación (data.type, shape o marcadores) y multiplicidades con
+ * sus alias (multSource | sourceMultiplicity). Codegen, asistente IA y
+ * validación trabajan sobre esto y no sobre las celdas.
+ *
+ * El frontend importa este mismo módulo (frontend/src/uml/model.ts): no
+ * puede depender de Nest ni de Prisma.
+ */
+
+export type Snapshot = { nodes?: any[]; edges?: any[] };
+
+export type Visibility = 'public' | 'private' | 'protected' | 'package';
+
+/** upper null = sin límite (*) */
+export type Multiplicity = { lower: number; upper: number | null };
+
+export type ModelAttribute = {
+  name: string;
+  type: string | null;
+  visibility: Visibility | null;
+  multiplicity: Multiplicity | null;
+  defaultValue: string | null;
+};
+
+export type ModelParameter = { name: string; type: string | null };
+
+export type ModelMethod = {
+  name: string;
+  visibility: Visibility | null;
+  parameters: ModelParameter[];
+  returnType: string | null;
+};
+
+export type ModelClass = {
+  id: string;
+  name: string;
+  isAbstract: boolean;
+  isInterface: boolean;
+  attributes: ModelAttribute[];
+  methods: ModelMethod[];
+};
+
+export type RelationKind =
+  | 'assoc'
+  | 'assoc_direct'
+  | 'aggr'
+  | 'comp'
+  | 'dep'
+  | 'many-to-many';
+
+export type RelationEnd = {
+  classId: string | null;
+  role: string;
+  /** Texto tal cual en el diagrama ("1..*"); '' = sin especificar */
+  multiplicityText: string;
+  /** null si está vacía o no se pudo interpretar */
+  multiplicity: Multiplicity | null;
+  navigable: boolean;
+  /** Lo lleva el extremo del todo (el del rombo) */
+  aggregation: 'none' | 'shared' | 'composite';
+};
+
+export type ModelRelation = {
+  id: string;
+  kind: RelationKind;
+  name: string;
+  source: RelationEnd;
+  target: RelationEnd;
+  /** Clase intermedia de un muchos a muchos */
+  associationClassId: string | null;
+};
+
+/** child hereda de parent (flecha de generalización child → parent) */
+export type Generalization = {
+  id: string;
+  childId: string | null;
+  parentId: string | null;
+};
+
+export type UmlModel = {
+  classes: ModelClass[];
+  relations: ModelRelation[];
+  generalizations: Generalization[];
+};
+
+export type ModelIssue = {
+  severity: 'error' | 'warning';
+  code:
+    | 'class-name-empty'
+    | 'class-name-duplicate'
+    | 'member-duplicate'
+    | 'attribute-type-missing'
+    | 'relation-dangling'
+    | 'multiplicity-invalid'
+    | 'generalization-cycle';
+  message: string;
+  /** Celda afectada (clase o arista) */
+  elementId: string;
+};
+
+/* ===================== Lectura de celdas ===================== */
+
+export function toLines(v: unknown): string[] {
+  if (Array.isArray(v))
+    return v.map((s) => String(s ?? '').trim()).filter(Boolean);
+  return (typeof v === 'string' ? v : '')
+    .split('\n')
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+/** Nombre y líneas de una clase: data primero, attrs de texto como respaldo */
+export function readClassText(node: any) {
+  const data = node?.data ?? {};
+  const name =
+    data.name ?? node?.attrs?.name?.text ?? node?.attrs?.label?.text ?? '';
+  return {
+    name: String(name).trim(),
+    attributes: toLines(data.attributes ?? node?.attrs?.attrs?.text),
+    methods: toLines(data.methods ?? node?.attrs?.methods?.text),
+  };
+}
+
+/** Tipo de relación: data.type > shape propio > marcadores de la línea */
+export function relationType(edge: any): string {
+  const data = edge?.data ?? {};
+  if (typeof data.type === 'string' && data.type) return data.type;
+  if (typeof edge?.shape === 'string' && edge.shape !== 'edge') {
+    return edge.shape;
+  }
+  const line = edge?.attrs?.line ?? {};
+  const marker = line.targetMarker;
+  const markerName = typeof marker === 'string' ? marker : marker?.name;
+  if (line.strokeDasharray) return 'dep';
+  if (markerName === 'diamond' || markerName === 'path') {
+    return marker?.fill && marker.fill !== '#ffffff' && marker.fill !== 'none'
+      ? 'comp'
+      : 'aggr';
+  }
+  if (markerName === 'block' || markerName === 'classic') {
+    // triángulo hueco = generalización; flecha rellena = asociación directa
+    const hollow = ['none', '#ffffff', '#fff', 'white'].includes(marker?.fill);
+    return hollow ? 'inherit' : 'assoc_direct';
+  }
+  return 'assoc';
+}
+
+export function endpointId(end: any): string | null {
+  if (!end) return null;
+  if (typeof end === 'string') return end;
+  return end.cell ? String(end.cell) : null;
+}
+
+/** Puntos y conectores invisibles del muchos a muchos: no son parte del modelo */
+const isHelperNode = (node: any) =>
+  !!(node?.data?.isConnectionNode || node?.data?.isMidPointMarker);
+const isHelperEdge = (edge: any) => !!edge?.data?.isPerpendicularEdge;
+
+/* ===================== Parseo de miembros ===================== */
+
+const VISIBILITY: Record<string, Visibility> = {
+  '+': 'public',
+  '-': 'private',
+  '#': 'protected',
+  '~': 'package',
+};
+
+function splitVisibility(line: string) {
+  const m = /^([+\-#~])\s*/.exec(line);
+  return m
+    ? { visibility: VISIBILITY[m[1]], rest: line.slice(m[0].length) }
+    : { visibility: null, rest: line };
+}
+
+/** "1", "0..1", "1..*", "*", "n", "0..n" → { lower, upper } */
+export function parseMultiplicity(text: string): Multiplicity | null {
+  const t = text.trim();
+  if (!t) return null;
+  const bound = (s: string) =>
+    /^(\*|n|N|many)$/.test(s) ? null : /^\d+$/.test(s) ? Number(s) : NaN;
+  const [lo, hi, ...extra] = t.split('..').map((s) => s.trim());
+  if (extra.length) return null;
+  if (hi === undefined) {
+    const b = bound(lo);
+    if (Number.isNaN(b)) return null;
+    return b === null ? { lower: 0, upper: null } : { lower: b, upper: b };
+  }
+  const lower = bound(lo);
+  const upper = bound(hi);
+  if (lower === null || Number.isNaN(lower) || Number.isNaN(upper)) {
+    return null;
+  }
+  if (upper !== null && upper < lower) return null;
+  return { lower, upper };
+}
+
+export function formatMultiplicity(m: Multiplicity) {
+  const upper = m.upper === null ? '*' : String(m.upper);
+  if (m.lower === m.upper) return upper;
+  if (m.lower === 0 && m.upper === null) return '*';
+  return `${m.lower}..${upper}`;
+}
+
+/** "tags: String[0..*]" → tipo "String" + multiplicidad; "int[]" queda igual */
+function splitTypeMultiplicity(type: string) {
+  const m = /^(.*?)\s*\[([^\]]+)\]$/.exec(type);
+  const multiplicity = m ? parseMultiplicity(m[2]) : null;
+  return multiplicity
+    ? { type: m![1].trim() || null, multiplicity }
+    : { type: type || null, multiplicity: null };
+}
+
+/** "nombre: Tipo", "Tipo nombre" o "nombre" (+ visibilidad y "= valor") */
+export function parseAttribute(line: string): ModelAttribute {
+  const { visibility, rest } = splitVisibility(line.trim());
+  const eq = rest.indexOf('=');
+  const decl = (eq >= 0 ? rest.slice(0, eq) : rest).trim();
+  const defaultValue = eq >= 0 ? rest.slice(eq + 1).trim() || null : null;
+
+  let name = decl;
+  let type = '';
+  const colon = decl.indexOf(':');
+  if (colon >= 0) {
+    name = decl.slice(0, colon).trim();
+    type = decl.slice(colon + 1).trim();
+  } else {
+    const parts = decl.split(/\s+/);
+    if (parts.length === 2) [type, name] = parts;
+  }
+  return { name, ...splitTypeMultiplicity(type), visibility, defaultValue };
+}
+
+function parseParameter(raw: string): ModelParameter {
+  const p = raw.trim();
+  const colon = p.indexOf(':');
+  if (colon >= 0) {
+    return {
+      name: p.slice(0, colon).trim(),
+      type: p.slice(colon + 1).trim() || null,
+    };
+  }
+  const parts = p.split(/\s+/);
+  return parts.length === 2
+    ? { name: parts[1], type: parts[0] }
+    : { name: p, type: null };
+}
+
+/** "+ metodo(a: int, b: String): void"; sin paréntesis es solo el nombre */
+export function parseMethod(line: string): ModelMethod {
+  const { visibility, rest } = splitVisibility(line.trim());
+  const m = /^([^(]*)\((.*)\)\s*(?::\s*(.+))?$/.exec(rest);
+  if (!m) {
+    const [name, returnType] = rest.split(':').map((s) => s.trim());
+    return { name, visibility, parameters: [], returnType: returnType || null };
+  }
+  return {
+    name: m[1].trim(),
+    visibility,
+    parameters: m[2].trim() ? m[2].split(',').map(parseParameter) : [],
+    returnType: m[3]?.trim() || null,
+  };
+}
+
+/* ===================== Conversión ===================== */
+
+const RELATION_KINDS: RelationKind[] = [
+  'assoc',
+  'assoc_direct',
+  'aggr',
+  'comp',
+  'dep',
+  'many-to-many',
+];
+
+/** 'nav' es el nombre viejo de la asociación directa */
+function relationKind(edge: any): RelationKind | 'inherit' {
+  if (edge?.data?.isManyToManyRelation) return 'many-to-many';
+  const type = relationType(edge);
+  if (type === 'inherit') return 'inherit';
+  if (type === 'nav') return 'assoc_direct';
+  return RELATION_KINDS.includes(type as RelationKind)
+    ? (type as RelationKind)
+    : 'assoc';
+}
+
+export function readModelClass(node: any): ModelClass {
+  const data = node?.data ?? {};
+  const text = readClassText(node);
+  return {
+    id: String(node?.id),
+    name: text.name,
+    isAbstract: !!data.isAbstract,
+    isInterface: !!data.isInterface,
+    attributes: text.attributes.map(parseAttribute),
+    methods: text.methods.map(parseMethod),
+  };
+}
+
+function relationEnd(
+  classId: string | null,
+  role: string | number | undefined,
+  multiplicityText: string | number | undefined,
+): RelationEnd {
+  const text = String(multiplicityText ?? '').trim();
+  return {
+    classId,
+    role: String(role ?? '').trim(),
+    multiplicityText: text,
+    multiplicity: parseMultiplicity(text),
+    navigable: true,
+    aggregation: 'none',
+  };
+}
+
+export function readModelRelation(
+  edge: any,
+  kind: RelationKind = 'assoc',
+): ModelRelation {
+  const data = edge?.data ?? {};
+  const source = relationEnd(
+    endpointId(edge?.source),
+    data.sourceRole,
+    data.multSource ?? data.sourceMultiplicity,
+  );
+  const target = relationEnd(
+    endpointId(edge?.target),
+    data.targetRole ?? data.navigationProperty,
+    data.multTarget ?? data.targetMultiplicity,
+  );
+  // Se navega de source a target (así lo genera el codegen desde siempre);
+  // bidirectional habilita también la vuelta
+  source.navigable = !!data.bidirectional;
+  // El rombo se dibuja en el target: ese extremo es el todo
+  if (kind === 'aggr') target.aggregation = 'shared';
+  if (kind === 'comp') target.aggregation = 'composite';
+  return {
+    id: String(edge?.id),
+    kind,
+    name: String(data.name ?? '').trim(),
+    source,
+    target,
+    associationClassId: data.intermediateNodeId
+      ? String(data.intermediateNodeId)
+      : null,
+  };
+}
+
+export function toUmlModel(snapshot: Snapshot | null | undefined): UmlModel {
+  const classes = (snapshot?.nodes ?? [])
+    .filter((n) => n && !isHelperNode(n))
+    .map(readModelClass);
+  const relations: ModelRelation[] = [];
+  const generalizations: Generalization[] = [];
+
+  for (const edge of snapshot?.edges ?? []) {
+    if (!edge || isHelperEdge(edge)) continue;
+    const kind = relationKind(edge);
+    if (kind === 'inherit') {
+      generalizations.push({
+        id: String(edge.id),
+        childId: endpointId(edge.source),
+        parentId: endpointId(edge.target),
+      });
+    } else {
+      relations.push(readModelRelation(edge, kind));
+    }
+  }
+  return { classes, relations, generalizations };
+}
+
+/* ===================== Texto ===================== */
+
+const VISIBILITY_SYMBOL: Record<Visibility, string> = {
+  public: '+',
+  private: '-',
+  protected: '#',
+  package: '~',
+};
+
+/** Vuelve a la línea "nombre: Tipo[mult] = valor" que usa el editor */
+export function formatAttribute(a: ModelAttribute) {
+  const vis = a.visibility ? `${VISIBILITY_SYMBOL[a.visibility]} ` : '';
+  const mult = a.multiplicity ? `[${formatMultiplicity(a.multiplicity)}]` : '';
+  const type = a.type ? `: ${a.type}${mult}` : mult;
+  const value = a.defaultValue ? ` = ${a.defaultValue}` : '';
+  return `${vis}${a.name}${type}${value}`;
+}
+
+export function formatMethod(m: ModelMethod) {
+  const vis = m.visibility ? `${VISIBILITY_SYMBOL[m.visibility]} ` : '';
+  const params = m.parameters
+    .map((p) => (p.type ? `${p.name}: ${p.type}` : p.name))
+    .join(', ');
+  return `${vis}${m.name}(${params})${m.returnType ? `: ${m.returnType}` : ''}`;
+}
+
+/* ===================== Validación ===================== */
+
+const lower = (s: string) => s.trim().toLowerCase();
+
+/**
+ * Problemas del modelo. Los `error` rompen lo que se genere a partir de él
+ * (código que no compila o relaciones sin clase); los `warning` no.
+ */
+export function validateUmlModel(model: UmlModel): ModelIssue[] {
+  const issues: ModelIssue[] = [];
+  const byId = new Map(model.classes.map((c) => [c.id, c]));
+  const label = (id: string | null) =>
+    (id && byId.get(id)?.name) || '(sin clase)';
+
+  const seen = new Map<string, ModelClass>();
+  for (const c of model.classes) {
+    if (!c.name) {
+      issues.push({
+        severity: 'error',
+        code: 'class-name-empty',
+        message: 'Hay una clase sin nombre',
+        elementId: c.id,
+      });
+    } else if (seen.has(lower(c.name))) {
+      issues.push({
+        severity: 'error',
+        code: 'class-name-duplicate',
+        message: `La clase "${c.name}" está repetida`,
+        elementId: c.id,
+      });
+    } else seen.set(lower(c.name), c);
+
+    const members = new Set<string>();
+    for (const a of c.attributes) {
+      if (members.has(lower(a.name))) {
+        issues.push({
+          severity: 'error',
+          code: 'member-duplicate',
+          message: `${c.name || 'La clase'} repite el atributo "${a.name}"`,
+          elementId: c.id,
+        });
+      }
+      members.add(lower(a.name));
+      if (!a.type) {
+        issues.push({
+          severity: 'warning',
+          code: 'attribute-type-missing',
+          message: `${c.name || 'La clase'}.${a.name} no tiene tipo`,
+          elementId: c.id,
+        });
+      }
+    }
+  }
+
+  for (const r of model.relations) {
+    const name = `${label(r.source.classId)} → ${label(r.target.classId)}`;
+    const ends = [r.source.classId, r.target.classId];
+    if (ends.some((id) => !id || !byId.has(id))) {
+      issues.push({
+        severity: 'error',
+        code: 'relation-dangling',
+        message: `La relación ${name} no une dos clases`,
+        elementId: r.id,
+      });
+    }
+    for (const end of [r.source, r.target]) {
+      if (end.multiplicityText && !end.multiplicity) {
+        issues.push({
+          severity: 'error',
+          code: 'multiplicity-invalid',
+          message: `Multiplicidad inválida "${end.multiplicityText}" en ${name}`,
+          elementId: r.id,
+        });
+      }
+    }
+  }
+
+  const parents = new Map<string, string[]>();
+  for (const g of model.generalizations) {
+    if (!g.childId || !g.parentId || !byId.has(g.childId)) {
+      issues.push({
+        severity: 'error',
+        code: 'relation-dangling',
+        message: `La generalización ${label(g.childId)} → ${label(g.parentId)} no une dos clases`,
+        elementId: g.id,
+      });
+      continue;
+    }
+    parents.set(g.childId, [...(parents.get(g.childId) ?? []), g.parentId]);
+  }
+  // Cada generalización que forma parte de un ciclo queda marcada
+  for (const g of model.generalizations) {
+    if (!g.childId || !g.parentId) continue;
+    const stack = [g.parentId];
+    const visited = new Set<string>();
+    while (stack.length) {
+      const id = stack.pop()!;
+      if (id === g.childId) {
+        issues.push({
+          severity: 'error',
+          code: 'generalization-cycle',
+          message: `${label(g.childId)} termina heredando de sí misma`,
+          elementId: g.id,
+        });
+        break;
+      }
+      if (visited.has(id)) continue;
+      visited.add(id);
+      stack.push(...(parents.get(id) ?? []));
+    }
+  }
+  return issues;
+}
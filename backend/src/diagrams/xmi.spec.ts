@@ -0,0 +1,351 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { validateSnapshot } from './snapshot-schema';
+import { RelationEnd, UmlModel, toUmlModel } from './uml-model';
+import { InvalidXmiException, exportXmi, importXmi } from './xmi';
+import { decodeXml, parseXml } from './xml';
+import { cls, rel } from './fixtures/cells';
+
+const fixture = (name: string) =>
+  decodeXml(readFileSync(join(__dirname, 'fixtures', name)));
+
+const ids = () => {
+  let n = 0;
+  return () => `n${++n}`;
+};
+
+const omit = <T extends object>(obj: T, ...keys: (keyof T)[]) => {
+  const copy: Partial<T> = { ...obj };
+  for (const key of keys) delete copy[key];
+  return copy;
+};
+
+/** Modelo sin ids (cambian al importar): clases por nombre */
+function normalize(model: UmlModel) {
+  const names = new Map(model.classes.map((c) => [c.id, c.name]));
+  const end = (e: RelationEnd) => ({
+    ...omit(e, 'classId', 'multiplicityText'),
+    class: names.get(e.classId!),
+  });
+  return {
+    classes: model.classes.map((c) => omit(c, 'id')),
+    relations: model.relations.map((r) => ({
+      ...omit(r, 'id', 'associationClassId'),
+      source: end(r.source),
+      target: end(r.target),
+    })),
+    generalizations: model.generalizations.map((g) => [
+      names.get(g.childId!),
+      names.get(g.parentId!),
+    ]),
+  };
+}
+
+const roundTrip = (model: UmlModel) =>
+  toUmlModel(importXmi(exportXmi(model, 'Modelo')));
+
+describe('xmi', () => {
+  it('importa un XMI 2.5 de Papyrus con paquetes y librerías de tipos', () => {
+    const res = importXmi(fixture('papyrus-ventas.xmi'), { newId: ids() });
+
+    expect(res).toMatchObject({ name: 'Ventas', classes: 7, relations: 6 });
+    expect(validateSnapshot(res)).toEqual([]);
+    expect(res.nodes.map((n) => n.data)).toEqual([
+      {
+        name: 'Persona',
+        attributes: ['# nombre: String', '# email: String[0..1]'],
+        methods: [],
+        isAbstract: true,
+      },
+      {
+        name: 'Cliente',
+        attributes: ['- id: Long'],
+        methods: ['+ totalComprado(desde: Date): Real'],
+      },
+      {
+        name: 'Pedido',
+        attributes: [
+          'numero: Long',
+          'estado: EstadoPedido = EstadoPedido.NUEVO',
+        ],
+        methods: [],
+      },
+      { name: 'LineaPedido', attributes: ['cantidad: Integer'], methods: [] },
+      {
+        name: 'Facturable',
+        attributes: [],
+        methods: ['calcularTotal(): Real'],
+        isInterface: true,
+      },
+      {
+        name: 'EstadoPedido',
+        attributes: ['NUEVO', 'PAGADO', 'ENVIADO'],
+        methods: [],
+      },
+      {
+        name: 'Producto',
+        attributes: ['nombre: String', 'precio: Real'],
+        methods: [],
+      },
+    ]);
+
+    const { relations, generalizations } = normalize(toUmlModel(res));
+    expect(generalizations).toEqual([
+      ['Cliente', 'Persona'],
+      ['Pedido', 'Facturable'],
+    ]);
+    // El extremo navegable queda como target; el compuesto (la parte) como source
+    expect(relations).toMatchObject([
+      {
+        kind: 'assoc_direct',
+        source: { class: 'Cliente', role: 'cliente', navigable: false },
+        target: {
+          class: 'Pedido',
+          role: 'pedidos',
+          multiplicity: { lower: 0, upper: null },
+        },
+      },
+      {
+        kind: 'comp',
+        source: { class: 'LineaPedido', role: 'lineas', navigable: true },
+        target: { class: 'Pedido', aggregation: 'composite' },
+      },
+      {
+        kind: 'assoc_direct',
+        source: { class: 'LineaPedido' },
+        target: { class: 'Producto', role: 'producto', multiplicity: null },
+      },
+      {
+        kind: 'dep',
+        source: { class: 'Pedido' },
+        target: { class: 'Producto' },
+      },
+    ]);
+
+    // Padres arriba de los hijos y ninguna clase encima de otra
+    const pos = new Map(res.nodes.map((n) => [n.data.name, n.position]));
+    expect(pos.get('Persona').y).toBeLessThan(pos.get('Cliente').y);
+    expect(pos.get('Facturable').y).toBeLessThan(pos.get('Pedido').y);
+    const spots = res.nodes.map((n) => `${n.position.x},${n.position.y}`);
+    expect(new Set(spots).size).toBe(spots.length);
+  });
+
+  it('importa el XMI 2.1 de Enterprise Architect', () => {
+    const res = importXmi(fixture('ea-biblioteca.xmi'));
+    expect(validateSnapshot(res)).toEqual([]);
+
+    const model = normalize(toUmlModel(res));
+    expect(model.classes.map((c) => c.name)).toEqual([
+      'Persona',
+      'Socio',
+      'Autor',
+      'Prestable',
+      'Libro',
+      'Ejemplar',
+    ]);
+    // EA escribe [1..1] en todo y declara sus primitivos como EAJava_*
+    expect(
+      res.nodes.find((n) => n.data.name === 'Autor').data.attributes,
+    ).toEqual(['- país: String = "Bolivia"']);
+    expect(model.classes[4]).toMatchObject({
+      attributes: [
+        { name: 'isbn', type: 'String', multiplicity: null },
+        { name: 'año', type: 'int' },
+      ],
+      methods: [
+        {
+          name: 'prestar',
+          parameters: [{ name: 'socio', type: 'Socio' }],
+          returnType: 'boolean',
+        },
+      ],
+    });
+    expect(model.generalizations).toEqual([
+      ['Socio', 'Persona'],
+      ['Autor', 'Persona'],
+      ['Ejemplar', 'Prestable'],
+    ]);
+    expect(model.relations).toMatchObject([
+      {
+        kind: 'comp',
+        source: { class: 'Ejemplar', role: 'ejemplares', navigable: false },
+        target: { class: 'Libro', multiplicity: { lower: 1, upper: 1 } },
+      },
+      {
+        kind: 'aggr',
+        name: 'escribe',
+        source: { class: 'Autor', multiplicity: { lower: 1, upper: null } },
+        target: { class: 'Libro', aggregation: 'shared' },
+      },
+      {
+        kind: 'assoc_direct',
+        source: { class: 'Socio', multiplicity: { lower: 0, upper: 1 } },
+        target: { class: 'Ejemplar', role: 'prestamos' },
+      },
+      { kind: 'dep', name: 'consulta', source: { class: 'Socio' } },
+    ]);
+  });
+
+  it.each(['papyrus-ventas.xmi', 'ea-biblioteca.xmi'])(
+    'exportar e importar %s conserva el modelo',
+    (file) => {
+      const model = toUmlModel(importXmi(fixture(file)));
+      expect(normalize(roundTrip(model))).toEqual(normalize(model));
+    },
+  );
+
+  it('exportar e importar un diagrama del editor conserva el modelo', () => {
+    const snapshot = {
+      nodes: [
+        cls('a', 'Vehiculo', {
+          isAbstract: true,
+          attributes: ['- id: Long', '# tags: String[0..*]', 'activo = true'],
+          methods: ['+ mover(x: int, y: int): void', 'detener()'],
+        }),
+        cls('b', 'Auto', { attributes: ['puertas: Integer = 4'] }),
+        cls('c', 'Motor'),
+        cls('d', 'Rueda'),
+        cls('e', 'Conductor', { attributes: ['licencia: Licencia'] }),
+        cls('f', 'Licencia'),
+        cls('g', 'Asegurable', {
+          isInterface: true,
+          methods: ['+ prima(): Double'],
+        }),
+        cls('h', 'Taller'),
+      ],
+      edges: [
+        rel('e1', 'b', 'a', { type: 'inherit' }),
+        rel('e2', 'b', 'g', { type: 'inherit' }),
+        rel('e3', 'c', 'b', { type: 'comp', multSource: '1', multTarget: '1' }),
+        rel('e4', 'd', 'b', {
+          type: 'aggr',
+          multSource: '4',
+          multTarget: '0..1',
+          bidirectional: true,
+        }),
+        rel('e5', 'e', 'b', {
+          type: 'assoc',
+          name: 'maneja',
+          multSource: '1..*',
+          multTarget: '*',
+        }),
+        rel('e6', 'e', 'f', {
+          type: 'assoc',
+          multSource: '1',
+          multTarget: '1',
+          bidirectional: true,
+          sourceRole: 'titular',
+          navigationProperty: 'licencia',
+        }),
+        rel('e7', 'h', 'b', {
+          type: 'assoc_direct',
+          multTarget: '0..*',
+          navigationProperty: 'autos',
+        }),
+        rel('e8', 'h', 'c', { type: 'dep', name: 'repara' }),
+      ],
+    };
+    const model = toUmlModel(snapshot);
+    const back = roundTrip(model);
+
+    expect(normalize(back)).toEqual(normalize(model));
+    // Mismas líneas que en el editor salvo la forma de escribir "*"
+    expect(back.classes[0].attributes.map((a) => a.multiplicity)).toEqual([
+      null,
+      { lower: 0, upper: null },
+      null,
+    ]);
+  });
+
+  it('escribe los extremos y la agregación como UML', () => {
+    const model = toUmlModel({
+      nodes: [cls('1', 'Pedido'), cls('2', 'Linea')],
+      edges: [
+        rel('r', '2', '1', {
+          type: 'comp',
+          multSource: '1..*',
+          multTarget: '1',
+        }),
+      ],
+    });
+    const xml = exportXmi(model, 'Ventas & Co');
+    const root = parseXml(xml);
+
+    expect(root.attributes).toMatchObject({
+      'xmi:version': '2.5.1',
+      'xmlns:uml': 'http://www.omg.org/spec/UML/20161101',
+    });
+    const [umlModel] = root.children;
+    expect(umlModel.attributes.name).toBe('Ventas & Co');
+    const [pedido, linea, assoc] = umlModel.children;
+
+    // La parte navega al todo: ese extremo es propiedad de Linea
+    expect(linea.children[0].attributes).toMatchObject({
+      type: '_1',
+      association: '_r',
+    });
+    expect(pedido.children).toEqual([]);
+    // El de la parte lleva composite; como no es navegable, es de la asociación
+    expect(assoc.attributes.memberEnd).toBe('_r-source _r-target');
+    expect(assoc.children[0]).toMatchObject({
+      name: 'ownedEnd',
+      attributes: { type: '_2', aggregation: 'composite' },
+    });
+    expect(assoc.children[0].children.map((c) => c.attributes.value)).toEqual([
+      '1',
+      '*',
+    ]);
+  });
+
+  it('suma a un diagrama existente sin duplicar clases', () => {
+    const into = {
+      nodes: [
+        {
+          ...cls('x', 'pedido'),
+          position: { x: 200, y: 500 },
+          size: { width: 160, height: 300 },
+        },
+      ],
+      edges: [],
+    };
+    const res = importXmi(fixture('papyrus-ventas.xmi'), {
+      into,
+      newId: ids(),
+    });
+
+    expect(res.classes).toBe(6);
+    expect(res.nodes).toHaveLength(7);
+    expect(res.nodes[0]).toEqual(into.nodes[0]);
+    // Las relaciones de Pedido van a la clase que ya estaba
+    expect(
+      res.edges.filter((e) => e.target.cell === 'x' || e.source.cell === 'x'),
+    ).toHaveLength(4);
+    expect(
+      Math.min(...res.nodes.slice(1).map((n) => n.position.y)),
+    ).toBeGreaterThan(800);
+  });
+
+  it('rechaza archivos que no son XMI de clases', () => {
+    const message = (xml: string) => {
+      try {
+        importXmi(xml);
+      } catch (e) {
+        expect(e).toBeInstanceOf(InvalidXmiException);
+        return (e as InvalidXmiException).message;
+      }
+    };
+
+    expect(message('<xmi:XMI>\n  <uml:Model>\n</xmi:XMI>')).toBe(
+      'XMI inválido: línea 3: se esperaba </uml:Model>',
+    );
+    expect(message('<uml:Model name="Vacío"/>')).toBe(
+      'XMI inválido: el archivo no tiene clases UML',
+    );
+    // Las entidades del DOCTYPE no se expanden
+    const res = importXmi(
+      '<!DOCTYPE m [<!ENTITY x SYSTEM "file:///etc/passwd">]>' +
+        '<m><packagedElement xmi:type="uml:Class" xmi:id="a" name="A&x;&amp;B"/></m>',
+    );
+    expect(res.nodes[0].data.name).toBe('A&x;&B');
+  });
+});
@@ -0,0 +1,766 @@
+// src/diagrams/xmi.ts
+/**
+ * Intercambio XMI 2.5.1 con Enterprise Architect, Papyrus, StarUML y
+ * compañía.
+ *
+ * - `exportXmi` escribe el modelo canónico (uml-model): clases e
+ *   interfaces con atributos y operaciones, generalizaciones, asociaciones
+ *   con sus dos extremos y dependencias.
+ * - `importXmi` lee lo mismo desde cualquier paquete del archivo (también
+ *   el XMI 2.1 de EA) y arma celdas con la forma de diagram-commands,
+ *   acomodadas en filas por nivel de herencia.
+ *
+ * Los extremos de asociación siguen a UML: el navegable es un ownedAttribute
+ * de la clase opuesta y el otro un ownedEnd de la asociación. La agregación
+ * la lleva el extremo de la parte (nuestro source); el rombo se dibuja del
+ * otro lado, en el todo.
+ */
+import { BadRequestException } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import {
+  CLASS_HEIGHT,
+  CLASS_WIDTH,
+  CommandRelationKind,
+  GRID,
+  createClassNode,
+  createRelationEdge,
+} from './diagram-commands';
+import {
+  ModelAttribute,
+  ModelClass,
+  ModelMethod,
+  ModelParameter,
+  Multiplicity,
+  RelationEnd,
+  UmlModel,
+  Visibility,
+  formatAttribute,
+  formatMethod,
+  formatMultiplicity,
+  readClassText,
+} from './uml-model';
+import {
+  XmlElement,
+  XmlParseError,
+  decodeXml,
+  parseXml,
+  serializeXml,
+  xmlElement,
+} from './xml';
+
+export const XMI_NAMESPACE = 'http://www.omg.org/spec/XMI/20131001';
+export const UML_NAMESPACE = 'http://www.omg.org/spec/UML/20161101';
+const PRIMITIVE_TYPES = `${UML_NAMESPACE}/PrimitiveTypes.xmi`;
+const UML_PRIMITIVES = [
+  'Boolean',
+  'Integer',
+  'Real',
+  'String',
+  'UnlimitedNatural',
+];
+
+/** Tamaño máximo del archivo subido (EA agrega mucho en xmi:Extension) */
+export const XMI_MAX_BYTES = 10 * 1024 * 1024;
+
+/** 400 de la importación */
+export class InvalidXmiException extends BadRequestException {
+  constructor(message: string) {
+    super(`XMI inválido: ${message}`);
+  }
+}
+
+/** Texto del archivo subido en el campo `file` */
+export function readXmiUpload(file?: { buffer?: Buffer }) {
+  if (!file?.buffer?.length) {
+    throw new BadRequestException('Falta el archivo XMI (campo file)');
+  }
+  return decodeXml(file.buffer);
+}
+
+/* ===================== Exportación ===================== */
+
+/** xmi:id tiene que ser un NCName: los UUID pueden empezar con dígito */
+const xmiId = (id: string) => `_${id.replace(/[^\w.-]/g, '_')}`;
+
+function multiplicityValues(id: string, m: Multiplicity | null) {
+  if (!m) return [];
+  return [
+    xmlElement('lowerValue', {
+      'xmi:type': 'uml:LiteralInteger',
+      'xmi:id': `${id}-lower`,
+      value: m.lower,
+    }),
+    xmlElement('upperValue', {
+      'xmi:type': 'uml:LiteralUnlimitedNatural',
+      'xmi:id': `${id}-upper`,
+      value: m.upper === null ? '*' : m.upper,
+    }),
+  ];
+}
+
+/**
+ * XMI del modelo dentro de un uml:Model llamado `name`. Los tipos que no son
+ * clases del modelo ni primitivos de UML (Long, Date, List<String>…) se
+ * declaran como uml:PrimitiveType propios para no perder el nombre.
+ */
+export function exportXmi(model: UmlModel, name: string): string {
+  const classes = new Map(model.classes.map((c) => [c.id, c]));
+  const classIdByName = new Map(model.classes.map((c) => [c.name, c.id]));
+  const localTypes = new Map<string, XmlElement>();
+
+  /** `type="…"` o `<type href="…"/>` según de dónde salga el tipo */
+  const typeRef = (type: string | null) => {
+    if (!type) return { attr: undefined, children: [] };
+    const classId = classIdByName.get(type);
+    if (classId) return { attr: xmiId(classId), children: [] };
+    if (UML_PRIMITIVES.includes(type)) {
+      const href = `${PRIMITIVE_TYPES}#${type}`;
+      return { attr: undefined, children: [xmlElement('type', { href })] };
+    }
+    let local = localTypes.get(type);
+    if (!local) {
+      local = xmlElement('packagedElement', {
+        'xmi:type': 'uml:PrimitiveType',
+        'xmi:id': `_type${localTypes.size + 1}`,
+        name: type,
+      });
+      localTypes.set(type, local);
+    }
+    return { attr: local.attributes['xmi:id'], children: [] };
+  };
+
+  const attribute = (id: string, a: ModelAttribute) => {
+    const type = typeRef(a.type);
+    const defaultValue = a.defaultValue
+      ? [
+          xmlElement(
+            'defaultValue',
+            { 'xmi:type': 'uml:OpaqueExpression', 'xmi:id': `${id}-default` },
+            [xmlElement('body', {}, [], a.defaultValue)],
+          ),
+        ]
+      : [];
+    return xmlElement(
+      'ownedAttribute',
+      {
+        'xmi:type': 'uml:Property',
+        'xmi:id': id,
+        name: a.name,
+        visibility: a.visibility,
+        type: type.attr,
+      },
+      [
+        ...type.children,
+        ...multiplicityValues(id, a.multiplicity),
+        ...defaultValue,
+      ],
+    );
+  };
+
+  const parameter = (
+    id: string,
+    p: ModelParameter | null,
+    returnType?: string,
+  ) => {
+    const type = typeRef(p ? p.type : (returnType ?? null));
+    return xmlElement(
+      'ownedParameter',
+      {
+        'xmi:type': 'uml:Parameter',
+        'xmi:id': id,
+        name: p?.name,
+        direction: p ? undefined : 'return',
+        type: type.attr,
+      },
+      type.children,
+    );
+  };
+
+  const operation = (id: string, m: ModelMethod) =>
+    xmlElement(
+      'ownedOperation',
+      {
+        'xmi:type': 'uml:Operation',
+        'xmi:id': id,
+        name: m.name,
+        visibility: m.visibility,
+      },
+      [
+        ...m.parameters.map((p, i) => parameter(`${id}-p${i}`, p)),
+        ...(m.returnType
+          ? [parameter(`${id}-return`, null, m.returnType)]
+          : []),
+      ],
+    );
+
+  // Lo que cada clase recibe de generalizaciones y asociaciones
+  const extra = new Map(
+    model.classes.map((c) => [
+      c.id,
+      {
+        generalizations: [] as XmlElement[],
+        ends: [] as XmlElement[],
+        realizations: [] as XmlElement[],
+      },
+    ]),
+  );
+
+  for (const g of model.generalizations) {
+    const child = g.childId ? classes.get(g.childId) : undefined;
+    const parent = g.parentId ? classes.get(g.parentId) : undefined;
+    if (!child || !parent) continue;
+    const id = xmiId(g.id);
+    if (parent.isInterface && !child.isInterface) {
+      extra.get(child.id)!.realizations.push(
+        xmlElement('interfaceRealization', {
+          'xmi:type': 'uml:InterfaceRealization',
+          'xmi:id': id,
+          client: xmiId(child.id),
+          supplier: xmiId(parent.id),
+          contract: xmiId(parent.id),
+        }),
+      );
+    } else {
+      extra.get(child.id)!.generalizations.push(
+        xmlElement('generalization', {
+          'xmi:type': 'uml:Generalization',
+          'xmi:id': id,
+          general: xmiId(parent.id),
+        }),
+      );
+    }
+  }
+
+  const relations: XmlElement[] = [];
+  for (const r of model.relations) {
+    const source = r.source.classId ? classes.get(r.source.classId) : null;
+    const target = r.target.classId ? classes.get(r.target.classId) : null;
+    if (!source || !target) continue;
+    const id = xmiId(r.id);
+
+    if (r.kind === 'dep') {
+      relations.push(
+        xmlElement('packagedElement', {
+          'xmi:type': 'uml:Dependency',
+          'xmi:id': id,
+          name: r.name || undefined,
+          client: xmiId(source.id),
+          supplier: xmiId(target.id),
+        }),
+      );
+      continue;
+    }
+
+    // Sin flecha ni rombo: navegable en los dos sentidos (bidireccional) o
+    // en ninguno; con flecha o rombo el target siempre lo es
+    const plain = r.kind === 'assoc' || r.kind === 'many-to-many';
+    const end = (
+      suffix: string,
+      e: RelationEnd,
+      type: ModelClass,
+      aggregation: RelationEnd['aggregation'],
+      navigable: boolean,
+    ) => {
+      const endId = `${id}-${suffix}`;
+      return xmlElement(
+        navigable ? 'ownedAttribute' : 'ownedEnd',
+        {
+          'xmi:type': 'uml:Property',
+          'xmi:id': endId,
+          name: e.role || undefined,
+          type: xmiId(type.id),
+          association: id,
+          aggregation: aggregation === 'none' ? undefined : aggregation,
+        },
+        multiplicityValues(endId, e.multiplicity),
+      );
+    };
+    const atSource = end(
+      'source',
+      r.source,
+      source,
+      r.target.aggregation,
+      r.source.navigable,
+    );
+    const atTarget = end(
+      'target',
+      r.target,
+      target,
+      'none',
+      plain ? r.source.navigable : r.target.navigable,
+    );
+    // El extremo navegable hacia X es propiedad de la clase del otro lado
+    const owned: XmlElement[] = [];
+    for (const [prop, owner] of [
+      [atSource, target],
+      [atTarget, source],
+    ] as const) {
+      if (prop.name === 'ownedAttribute') extra.get(owner.id)!.ends.push(prop);
+      else owned.push(prop);
+    }
+    relations.push(
+      xmlElement(
+        'packagedElement',
+        {
+          'xmi:type': 'uml:Association',
+          'xmi:id': id,
+          name: r.name || undefined,
+          memberEnd: `${id}-source ${id}-target`,
+        },
+        owned,
+      ),
+    );
+  }
+
+  const classElements = model.classes.map((c) => {
+    const cid = xmiId(c.id);
+    const { generalizations, ends, realizations } = extra.get(c.id)!;
+    return xmlElement(
+      'packagedElement',
+      {
+        'xmi:type': c.isInterface ? 'uml:Interface' : 'uml:Class',
+        'xmi:id': cid,
+        name: c.name,
+        isAbstract: c.isAbstract ? 'true' : undefined,
+      },
+      [
+        ...generalizations,
+        ...c.attributes.map((a, i) => attribute(`${cid}-attr${i}`, a)),
+        ...ends,
+        ...c.methods.map((m, i) => operation(`${cid}-op${i}`, m)),
+        ...realizations,
+      ],
+    );
+  });
+
+  const root = xmlElement(
+    'xmi:XMI',
+    {
+      'xmi:version': '2.5.1',
+      'xmlns:xmi': XMI_NAMESPACE,
+      'xmlns:uml': UML_NAMESPACE,
+    },
+    [
+      xmlElement('uml:Model', { 'xmi:id': '_model', name }, [
+        ...classElements,
+        ...relations,
+        ...localTypes.values(),
+      ]),
+    ],
+  );
+  return serializeXml(root);
+}
+
+/* ===================== Importación ===================== */
+
+type Cells = { nodes: any[]; edges: any[] };
+
+export type XmiImport = Cells & {
+  /** Nombre del uml:Model (para un proyecto nuevo) */
+  name: string | null;
+  /** Clases y relaciones agregadas */
+  classes: number;
+  relations: number;
+};
+
+const localName = (name: string) => name.slice(name.lastIndexOf(':') + 1);
+
+/** xmi:id, xmi:type… con el prefijo que use el archivo */
+function xmiAttr(el: XmlElement, name: string) {
+  const direct = el.attributes[`xmi:${name}`];
+  if (direct !== undefined) return direct;
+  const key = Object.keys(el.attributes).find(
+    (k) => k.includes(':') && !k.startsWith('xmlns') && localName(k) === name,
+  );
+  return key ? el.attributes[key] : undefined;
+}
+
+/** Tipo UML: xmi:type o el nombre de la etiqueta (uml:Model) */
+function umlType(el: XmlElement) {
+  const type = xmiAttr(el, 'type') ?? (el.name.includes(':') ? el.name : '');
+  return localName(type);
+}
+
+const childrenNamed = (el: XmlElement, name: string) =>
+  el.children.filter((c) => localName(c.name) === name);
+
+/** Ids de un atributo ("a b") o de hijos <name xmi:idref="…"/> */
+function refs(el: XmlElement, name: string) {
+  const ids = (el.attributes[name] ?? '').split(/\s+/).filter(Boolean);
+  for (const child of childrenNamed(el, name)) {
+    const id = xmiAttr(child, 'idref');
+    if (id) ids.push(id);
+  }
+  return ids;
+}
+
+const VISIBILITIES: Visibility[] = [
+  'public',
+  'private',
+  'protected',
+  'package',
+];
+
+function readVisibility(el: XmlElement): Visibility | null {
+  const v = el.attributes.visibility as Visibility;
+  return VISIBILITIES.includes(v) ? v : null;
+}
+
+/** Sin límite inferior vale 1, como en UML; -1 es la forma vieja de "*" */
+function readMultiplicity(el: XmlElement): Multiplicity | null {
+  const [lowerValue] = childrenNamed(el, 'lowerValue');
+  const [upperValue] = childrenNamed(el, 'upperValue');
+  if (!lowerValue && !upperValue) return null;
+  const bound = (v: XmlElement | undefined) => {
+    if (!v) return 1;
+    const raw = (v.attributes.value ?? '0').trim();
+    if (raw === '*' || raw === '-1') return null;
+    const n = Number(raw);
+    return Number.isInteger(n) && n >= 0 ? n : 1;
+  };
+  const lower = bound(lowerValue) ?? 0;
+  const upper = bound(upperValue);
+  return upper !== null && upper < lower ? null : { lower, upper };
+}
+
+function readDefault(el: XmlElement) {
+  const [value] = childrenNamed(el, 'defaultValue');
+  if (!value) return null;
+  const [body] = childrenNamed(value, 'body');
+  return (value.attributes.value ?? body?.text ?? '').trim() || null;
+}
+
+type Index = Map<string, XmlElement>;
+
+/** Tipo por referencia (clase, PrimitiveType) o por href a una librería */
+function readType(el: XmlElement, index: Index) {
+  const [ref] = refs(el, 'type');
+  if (ref) {
+    const target = index.get(ref);
+    // EA referencia sus primitivos sin declararlos: EAJava_String
+    if (!target) return ref.replace(/^EA[A-Za-z]*_/, '') || null;
+    return target.attributes.name?.trim() || null;
+  }
+  const href = childrenNamed(el, 'type')[0]?.attributes.href ?? '';
+  return href.slice(href.lastIndexOf('#') + 1) || null;
+}
+
+function readAttribute(el: XmlElement, index: Index): ModelAttribute {
+  const multiplicity = readMultiplicity(el);
+  return {
+    name: el.attributes.name?.trim() ?? '',
+    type: readType(el, index),
+    visibility: readVisibility(el),
+    // [1] es lo que UML asume y EA lo escribe siempre: no aporta nada
+    multiplicity:
+      multiplicity?.lower === 1 && multiplicity.upper === 1
+        ? null
+        : multiplicity,
+    defaultValue: readDefault(el),
+  };
+}
+
+function readOperation(el: XmlElement, index: Index): ModelMethod {
+  const params = childrenNamed(el, 'ownedParameter');
+  const result = params.find((p) => p.attributes.direction === 'return');
+  return {
+    name: el.attributes.name?.trim() ?? '',
+    visibility: readVisibility(el),
+    parameters: params
+      .filter((p) => p !== result)
+      .map((p) => ({
+        name: p.attributes.name?.trim() ?? '',
+        type: readType(p, index),
+      })),
+    returnType: result ? readType(result, index) : null,
+  };
+}
+
+const CLASSIFIERS = ['Class', 'Interface', 'Enumeration', 'AssociationClass'];
+const ASSOCIATIONS = ['Association', 'AssociationClass'];
+const DEPENDENCIES = ['Dependency', 'Usage'];
+const REALIZATIONS = ['Realization', 'InterfaceRealization'];
+
+/** Tamaño aproximado para no encimar clases (el editor recalcula el alto) */
+function estimateSize(lines: string[]) {
+  const longest = Math.max(0, ...lines.map((l) => l.length));
+  return {
+    width: Math.max(CLASS_WIDTH, longest * 7 + 24),
+    height: Math.max(CLASS_HEIGHT, 56 + (lines.length - 1) * 18),
+  };
+}
+
+/**
+ * Una fila por nivel de herencia (padres arriba) que corta al llenar las
+ * columnas de una grilla cuadrada. Devuelve la posición de cada clave.
+ */
+function layoutClasses(
+  items: { key: string; lines: string[] }[],
+  parentsOf: Map<string, string[]>,
+  top: number,
+) {
+  const keys = new Set(items.map((i) => i.key));
+  const depth = new Map<string, number>();
+  const level = (key: string, seen: Set<string>): number => {
+    const known = depth.get(key);
+    if (known !== undefined) return known;
+    if (seen.has(key)) return 0; // ciclo de herencia
+    seen.add(key);
+    const parents = (parentsOf.get(key) ?? []).filter((p) => keys.has(p));
+    const d = parents.length
+      ? 1 + Math.max(...parents.map((p) => level(p, seen)))
+      : 0;
+    depth.set(key, d);
+    return d;
+  };
+  const sorted = items
+    .map((item, order) => ({
+      ...item,
+      order,
+      depth: level(item.key, new Set()),
+    }))
+    .sort((a, b) => a.depth - b.depth || a.order - b.order);
+
+  const sizes = sorted.map((i) => estimateSize(i.lines));
+  const cols = Math.ceil(Math.sqrt(items.length));
+  const colWidth = Math.max(0, ...sizes.map((s) => s.width)) + 90;
+  const positions = new Map<string, { x: number; y: number }>();
+  let rowTop = top;
+  let rowHeight = 0;
+  let col = 0;
+  sorted.forEach((item, i) => {
+    const newLevel = i > 0 && item.depth !== sorted[i - 1].depth;
+    if (i > 0 && (col === cols || newLevel)) {
+      rowTop += rowHeight + 90;
+      rowHeight = 0;
+      col = 0;
+    }
+    positions.set(item.key, { x: GRID.startX + col * colWidth, y: rowTop });
+    rowHeight = Math.max(rowHeight, sizes[i].height);
+    col++;
+  });
+  return positions;
+}
+
+const sameName = (a: string, b: string) =>
+  a.trim().toLowerCase() === b.trim().toLowerCase();
+
+/**
+ * Celdas a partir de un XMI. Con `into` se suman a un diagrama existente:
+ * las clases que ya están (mismo nombre) se reutilizan y las nuevas van
+ * debajo de lo que hay. Lanza InvalidXmiException si el archivo no es XML
+ * o no trae ninguna clase.
+ */
+export function importXmi(
+  xml: string,
+  options: { into?: Cells; newId?: () => string } = {},
+): XmiImport {
+  const newId = options.newId ?? randomUUID;
+  let root: XmlElement;
+  try {
+    root = parseXml(xml);
+  } catch (e) {
+    if (e instanceof XmlParseError) throw new InvalidXmiException(e.message);
+    throw e;
+  }
+
+  const index: Index = new Map();
+  const owners = new Map<XmlElement, XmlElement>();
+  const all: XmlElement[] = [];
+  const walk = (el: XmlElement) => {
+    // Datos propios de cada herramienta (diagramas, estilos de EA…)
+    if (localName(el.name) === 'Extension') return;
+    all.push(el);
+    const id = xmiAttr(el, 'id');
+    if (id) index.set(id, el);
+    for (const child of el.children) {
+      owners.set(child, el);
+      walk(child);
+    }
+  };
+  walk(root);
+
+  const classifiers = all.filter(
+    (el) =>
+      CLASSIFIERS.includes(umlType(el)) &&
+      xmiAttr(el, 'id') &&
+      el.attributes.name?.trim(),
+  );
+  if (!classifiers.length) {
+    throw new InvalidXmiException('el archivo no tiene clases UML');
+  }
+
+  const cells = structuredClone({
+    nodes: options.into?.nodes ?? [],
+    edges: options.into?.edges ?? [],
+  });
+  const existing = cells.nodes.filter((n) => n?.shape === 'uml-class');
+  /** xmi:id → id de la celda */
+  const cellIds = new Map<string, string>();
+  const created: {
+    key: string;
+    content: { name: string; attributes: string[]; methods: string[] };
+    flags: { isAbstract: boolean; isInterface: boolean };
+  }[] = [];
+
+  for (const el of classifiers) {
+    const key = xmiAttr(el, 'id')!;
+    const name = el.attributes.name.trim();
+    const match = existing.find((n) => sameName(readClassText(n).name, name));
+    if (match) {
+      cellIds.set(key, String(match.id));
+      continue;
+    }
+    const attributes =
+      umlType(el) === 'Enumeration'
+        ? childrenNamed(el, 'ownedLiteral').map((l) => l.attributes.name ?? '')
+        : childrenNamed(el, 'ownedAttribute')
+            // Los extremos de asociación salen como relaciones
+            .filter((a) => !a.attributes.association)
+            .map((a) => formatAttribute(readAttribute(a, index)));
+    const methods = childrenNamed(el, 'ownedOperation').map((o) =>
+      formatMethod(readOperation(o, index)),
+    );
+    cellIds.set(key, newId());
+    created.push({
+      key,
+      content: {
+        name,
+        attributes: attributes.filter((l) => l.trim()),
+        methods,
+      },
+      flags: {
+        isAbstract: el.attributes.isAbstract === 'true',
+        isInterface: umlType(el) === 'Interface',
+      },
+    });
+  }
+
+  const edges: any[] = [];
+  const link = (
+    from: string | undefined,
+    to: string | undefined,
+    kind: CommandRelationKind,
+    data: Record<string, unknown> = {},
+  ) => {
+    const source = from && cellIds.get(from);
+    const target = to && cellIds.get(to);
+    if (!source || !target) return;
+    edges.push(createRelationEdge(newId(), source, target, kind, data));
+  };
+
+  // child → padres, también para acomodar por niveles
+  const parentsOf = new Map<string, string[]>();
+  for (const el of classifiers) {
+    const key = xmiAttr(el, 'id')!;
+    const parents = [
+      ...childrenNamed(el, 'generalization').map((g) => refs(g, 'general')[0]),
+      ...childrenNamed(el, 'interfaceRealization').map(
+        (r) => refs(r, 'contract')[0] ?? refs(r, 'supplier')[0],
+      ),
+    ].filter((id): id is string => !!id);
+    parentsOf.set(key, parents);
+    for (const parent of parents) link(key, parent, 'inherit');
+  }
+
+  for (const el of all) {
+    const type = umlType(el);
+    if (DEPENDENCIES.includes(type) || REALIZATIONS.includes(type)) {
+      // Las realizaciones de cada clase ya se leyeron arriba
+      if (localName(el.name) === 'interfaceRealization') continue;
+      link(
+        refs(el, 'client')[0],
+        refs(el, 'supplier')[0],
+        DEPENDENCIES.includes(type) ? 'dep' : 'inherit',
+        DEPENDENCIES.includes(type)
+          ? { name: el.attributes.name?.trim() ?? '' }
+          : {},
+      );
+      continue;
+    }
+    if (!ASSOCIATIONS.includes(type)) continue;
+
+    let endIds = refs(el, 'memberEnd');
+    if (!endIds.length) {
+      endIds = childrenNamed(el, 'ownedEnd').map((e) => xmiAttr(e, 'id')!);
+    }
+    const navigableOwned = refs(el, 'navigableOwnedEnd');
+    const ends = endIds.map((id) => {
+      const prop = index.get(id);
+      if (!prop) return null;
+      return {
+        type: refs(prop, 'type')[0],
+        role: prop.attributes.name?.trim() ?? '',
+        multiplicity: readMultiplicity(prop),
+        aggregation: prop.attributes.aggregation,
+        navigable: owners.get(prop) !== el || navigableOwned.includes(id),
+      };
+    });
+    // Solo asociaciones binarias entre clases importadas
+    if (ends.length !== 2 || ends.some((e) => !e)) continue;
+    let [source, target] = ends as NonNullable<(typeof ends)[number]>[];
+
+    let kind: CommandRelationKind = 'assoc';
+    let bidirectional = false;
+    const whole = ['shared', 'composite'];
+    if (
+      whole.includes(target.aggregation) &&
+      !whole.includes(source.aggregation)
+    ) {
+      [source, target] = [target, source];
+    }
+    if (whole.includes(source.aggregation)) {
+      kind = source.aggregation === 'composite' ? 'comp' : 'aggr';
+      bidirectional = source.navigable;
+    } else if (source.navigable !== target.navigable) {
+      kind = 'assoc_direct';
+      if (source.navigable) [source, target] = [target, source];
+    } else {
+      bidirectional = source.navigable;
+    }
+
+    const mult = (m: Multiplicity | null) => (m ? formatMultiplicity(m) : '');
+    link(source.type, target.type, kind, {
+      name: el.attributes.name?.trim() ?? '',
+      multSource: mult(source.multiplicity),
+      multTarget: mult(target.multiplicity),
+      ...(source.role && { sourceRole: source.role }),
+      ...(target.role && { navigationProperty: target.role }),
+      ...(bidirectional && { bidirectional: true }),
+    });
+  }
+
+  // Lo nuevo va debajo de lo que ya hay en el diagrama
+  const bottom = Math.max(
+    ...cells.nodes.map(
+      (n) => (n?.position?.y ?? 0) + (n?.size?.height ?? CLASS_HEIGHT),
+    ),
+  );
+  const positions = layoutClasses(
+    created.map((c) => ({
+      key: c.key,
+      lines: [c.content.name, ...c.content.attributes, ...c.content.methods],
+    })),
+    parentsOf,
+    cells.nodes.length ? bottom + GRID.spacing / 2 : GRID.startY,
+  );
+  for (const c of created) {
+    cells.nodes.push(
+      createClassNode(
+        cellIds.get(c.key)!,
+        positions.get(c.key)!,
+        c.content,
+        c.flags,
+      ),
+    );
+  }
+  cells.edges.push(...edges);
+
+  const model = all.find((el) => umlType(el) === 'Model') ?? root;
+  return {
+    ...cells,
+    name: model.attributes.name?.trim() || null,
+    classes: created.length,
+    relations: edges.length,
+  };
+}
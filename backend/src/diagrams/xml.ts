@@ -0,0 +1,210 @@
+// src/diagrams/xml.ts
+/**
+ * Lector y escritor XML mínimo para el intercambio XMI: elementos,
+ * atributos, texto, CDATA y comentarios. Las declaraciones DOCTYPE se
+ * saltean sin resolver entidades propias ni externas: un archivo subido no
+ * puede leer archivos del servidor ni expandirse sin límite.
+ */
+
+export type XmlElement = {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  /** Texto directo del elemento (sin el de sus hijos) */
+  text: string;
+};
+
+export class XmlParseError extends Error {
+  constructor(
+    message: string,
+    readonly line: number,
+  ) {
+    super(`línea ${line}: ${message}`);
+  }
+}
+
+const ENTITIES: Record<string, string> = {
+  lt: '<',
+  gt: '>',
+  amp: '&',
+  quot: '"',
+  apos: "'",
+};
+
+const NAME = /[A-Za-z_][\w:.-]*/y;
+const ATTRIBUTE = /\s+([A-Za-z_][\w:.-]*)\s*=\s*(?:"([^"<]*)"|'([^'<]*)')/y;
+const MAX_DEPTH = 200;
+
+/** Entidades predefinidas y referencias numéricas; el resto queda tal cual */
+function decode(raw: string) {
+  return raw.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, ref: string) => {
+    if (ref[0] !== '#') return ENTITIES[ref] ?? match;
+    const hex = ref[1] === 'x' || ref[1] === 'X';
+    const code = parseInt(ref.slice(hex ? 2 : 1), hex ? 16 : 10);
+    return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+  });
+}
+
+/**
+ * Texto de un archivo subido según el encoding de su declaración (EA
+ * exporta en windows-1252); sin declaración o desconocido, UTF-8.
+ */
+export function decodeXml(buffer: Buffer) {
+  const head = buffer.subarray(0, 200).toString('latin1');
+  const declared = /^\s*<\?xml[^>]*encoding\s*=\s*["']([\w.:-]+)["']/.exec(
+    head,
+  );
+  try {
+    return new TextDecoder(declared?.[1] ?? 'utf-8').decode(buffer);
+  } catch {
+    return new TextDecoder().decode(buffer);
+  }
+}
+
+export function parseXml(source: string): XmlElement {
+  const stack: XmlElement[] = [];
+  let root: XmlElement | null = null;
+  let pos = source.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  const fail = (message: string, at = pos): never => {
+    throw new XmlParseError(message, source.slice(0, at).split('\n').length);
+  };
+  const skipTo = (token: string, from: number, what: string) => {
+    const end = source.indexOf(token, from);
+    if (end < 0) fail(`${what} sin cerrar`);
+    return end;
+  };
+  const addText = (raw: string) => {
+    const top = stack[stack.length - 1];
+    if (top) top.text += raw;
+    else if (raw.trim()) fail('hay texto fuera del elemento raíz');
+  };
+  const readName = (at: number) => {
+    NAME.lastIndex = at;
+    const m = NAME.exec(source);
+    if (!m) fail('nombre de elemento inválido', at);
+    return m![0];
+  };
+
+  while (pos < source.length) {
+    const lt = source.indexOf('<', pos);
+    if (lt < 0) {
+      addText(decode(source.slice(pos)));
+      break;
+    }
+    if (lt > pos) addText(decode(source.slice(pos, lt)));
+    pos = lt;
+
+    if (source.startsWith('<!--', pos)) {
+      pos = skipTo('-->', pos + 4, 'comentario') + 3;
+    } else if (source.startsWith('<![CDATA[', pos)) {
+      const end = skipTo(']]>', pos + 9, 'CDATA');
+      addText(source.slice(pos + 9, end));
+      pos = end + 3;
+    } else if (source.startsWith('<?', pos)) {
+      pos = skipTo('?>', pos + 2, 'instrucción') + 2;
+    } else if (source.startsWith('<!', pos)) {
+      // DOCTYPE, con su subconjunto interno [ ... ] si lo trae
+      let depth = 0;
+      let i = pos + 2;
+      for (; i < source.length; i++) {
+        const c = source[i];
+        if (c === '[') depth++;
+        else if (c === ']') depth--;
+        else if (c === '>' && depth <= 0) break;
+      }
+      if (i >= source.length) fail('declaración sin cerrar');
+      pos = i + 1;
+    } else if (source[pos + 1] === '/') {
+      const name = readName(pos + 2);
+      const top = stack.pop();
+      if (!top) fail(`</${name}> no tiene apertura`);
+      if (top!.name !== name) fail(`se esperaba </${top!.name}>`);
+      const end = skipTo('>', pos, 'etiqueta');
+      if (source.slice(pos + 2 + name.length, end).trim()) {
+        fail(`</${name}> mal formada`);
+      }
+      pos = end + 1;
+    } else {
+      const name = readName(pos + 1);
+      const el: XmlElement = { name, attributes: {}, children: [], text: '' };
+      let i = pos + 1 + name.length;
+      for (;;) {
+        ATTRIBUTE.lastIndex = i;
+        const m = ATTRIBUTE.exec(source);
+        if (!m) break;
+        if (m[1] in el.attributes) fail(`atributo ${m[1]} repetido`, i);
+        // Los saltos de línea sin escapar valen como espacios
+        el.attributes[m[1]] = decode((m[2] ?? m[3]).replace(/[\t\n\r]/g, ' '));
+        i = ATTRIBUTE.lastIndex;
+      }
+      while (/\s/.test(source[i] ?? '')) i++;
+      const selfClosing = source.startsWith('/>', i);
+      if (!selfClosing && source[i] !== '>') fail(`<${name}> mal formada`, i);
+
+      const parent = stack[stack.length - 1];
+      if (parent) parent.children.push(el);
+      else if (root) fail('hay más de un elemento raíz');
+      else root = el;
+      if (!selfClosing) {
+        if (stack.length >= MAX_DEPTH) fail('demasiados niveles anidados');
+        stack.push(el);
+      }
+      pos = i + (selfClosing ? 2 : 1);
+    }
+  }
+
+  if (stack.length) fail(`falta cerrar <${stack[stack.length - 1].name}>`);
+  if (!root) fail('no hay elemento raíz');
+  return root!;
+}
+
+/* ===================== Escritura ===================== */
+
+const ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&apos;',
+  '\n': '&#10;',
+  '\r': '&#13;',
+  '\t': '&#9;',
+};
+
+/** En texto los saltos de línea quedan; en atributos se escapan */
+export function escapeXml(value: string, attribute = false) {
+  const special = attribute ? /[&<>"'\n\r\t]/g : /[&<>]/g;
+  return value.replace(special, (c) => ESCAPES[c]);
+}
+
+/** Atributos null/undefined no se escriben */
+export function xmlElement(
+  name: string,
+  attributes: Record<string, string | number | boolean | null | undefined>,
+  children: XmlElement[] = [],
+  text = '',
+): XmlElement {
+  const attrs: Record<string, string> = {};
+  for (const [key, value] of Object.entries(attributes)) {
+    if (value !== null && value !== undefined) attrs[key] = String(value);
+  }
+  return { name, attributes: attrs, children, text };
+}
+
+function writeElement(el: XmlElement, indent: string): string {
+  const attrs = Object.entries(el.attributes)
+    .map(([key, value]) => ` ${key}="${escapeXml(value, true)}"`)
+    .join('');
+  const open = `${indent}<${el.name}${attrs}`;
+  if (!el.children.length && !el.text) return `${open}/>`;
+  if (!el.children.length) {
+    return `${open}>${escapeXml(el.text)}</${el.name}>`;
+  }
+  const inner = el.children.map((c) => writeElement(c, `${indent}  `));
+  return [`${open}>`, ...inner, `${indent}</${el.name}>`].join('\n');
+}
+
+export function serializeXml(root: XmlElement) {
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${writeElement(root, '')}\n`;
+}
@@ -0,0 +1,41 @@
+// src/mail/mail-transport.ts
+import { Injectable } from '@nestjs/common';
+import { PrismaService } from '../common/prisma.service';
+
+export type MailMessage = {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+};
+
+/** Transporte enchufable del mailer (outbox, consola, SMTP/proveedor…) */
+export interface MailTransport {
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+export const MAIL_TRANSPORT = Symbol('MAIL_TRANSPORT');
+
+/**
+ * Outbox: guarda los mails en la tabla MailOutbox en vez de enviarlos.
+ * Pensado para desarrollo y tests (los links se leen de ahí).
+ */
+@Injectable()
+export class OutboxMailTransport implements MailTransport {
+  constructor(private prisma: PrismaService) {}
+
+  async send({ to, subject, text, html }: MailMessage & { from: string }) {
+    await this.prisma.mailOutbox.create({
+      data: { to, subject, text, html: html ?? null },
+    });
+  }
+}
+
+/** Consola: útil cuando no hay BD a mano o para ver el link al instante */
+@Injectable()
+export class ConsoleMailTransport implements MailTransport {
+  send({ from, to, subject, text }: MailMessage & { from: string }) {
+    console.log(`[mail] ${from} → ${to} · ${subject}\n${text}`);
+    return Promise.resolve();
+  }
+}
@@ -0,0 +1,30 @@
+// src/mail/mail.module.ts
+import { Global, Module } from '@nestjs/common';
+import {
+  ConsoleMailTransport,
+  MAIL_TRANSPORT,
+  OutboxMailTransport,
+} from './mail-transport';
+import { MailerService } from './mailer.service';
+
+// MAIL_TRANSPORT=outbox (default) | console
+const TRANSPORT = process.env.MAIL_TRANSPORT ?? 'outbox';
+
+@Global()
+@Module({
+  providers: [
+    OutboxMailTransport,
+    ConsoleMailTransport,
+    {
+      provide: MAIL_TRANSPORT,
+      useFactory: (
+        outbox: OutboxMailTransport,
+        console: ConsoleMailTransport,
+      ) => (TRANSPORT === 'console' ? console : outbox),
+      inject: [OutboxMailTransport, ConsoleMailTransport],
+    },
+    MailerService,
+  ],
+  exports: [MailerService],
+})
+export class MailModule {}
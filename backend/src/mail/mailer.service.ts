@@ -0,0 +1,28 @@
+// src/mail/mailer.service.ts
+import { Inject, Injectable } from '@nestjs/common';
+import { MAIL_TRANSPORT } from './mail-transport';
+import type { MailMessage, MailTransport } from './mail-transport';
+
+export const MAIL_FROM =
+  process.env.MAIL_FROM ?? 'UML Editor <no-reply@localhost>';
+
+// Base de los links que van en los mails (el frontend)
+export const APP_URL = (
+  process.env.APP_URL ??
+  process.env.CORS_ORIGIN ??
+  'http://localhost:5173'
+).replace(/\/+$/, '');
+
+@Injectable()
+export class MailerService {
+  constructor(@Inject(MAIL_TRANSPORT) private transport: MailTransport) {}
+
+  /** URL absoluta del frontend para incluir en un mail */
+  link(path: string) {
+    return `${APP_URL}${path.startsWith('/') ? path : `/${path}`}`;
+  }
+
+  async send(message: MailMessage) {
+    await this.transport.send({ ...message, from: MAIL_FROM });
+  }
+}
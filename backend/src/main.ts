@@ -9,6 +9,8 @@ async function bootstrap() {
   app.enableCors({
     origin: ['http://localhost:5173', 'http://127.0.0.1:5173'],
     credentials: true,
+    // El editor lee la revisión del diagrama para el If-Match
+    exposedHeaders: ['ETag'],
   });
 
   app.setGlobalPrefix('api');
@@ -0,0 +1,48 @@
+// src/notifications/notifications.controller.ts
+import {
+  Controller,
+  Get,
+  Param,
+  Post,
+  Query,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import { JwtAuthGuard } from '../auth/jwt.guard';
+import { NotificationsService } from './notifications.service';
+
+@UseGuards(JwtAuthGuard)
+@Controller('notifications')
+export class NotificationsController {
+  constructor(private readonly notifications: NotificationsService) {}
+
+  // GET /api/notifications?unread=true&cursor=<id>&limit=20
+  @Get()
+  async list(
+    @Req() req: any,
+    @Query('unread') unread?: string,
+    @Query('cursor') cursor?: string,
+    @Query('limit') limit?: string,
+  ) {
+    const userId: string = req.user.id;
+    return this.notifications.list(userId, {
+      unread: unread === 'true',
+      cursor: cursor || undefined,
+      limit: limit ? Number(limit) || undefined : undefined,
+    });
+  }
+
+  // POST /api/notifications/read-all
+  @Post('read-all')
+  async markAllRead(@Req() req: any) {
+    const userId: string = req.user.id;
+    return this.notifications.markAllRead(userId);
+  }
+
+  // POST /api/notifications/:id/read
+  @Post(':id/read')
+  async markRead(@Req() req: any, @Param('id') id: string) {
+    const userId: string = req.user.id;
+    return this.notifications.markRead(userId, id);
+  }
+}
@@ -0,0 +1,13 @@
+// src/notifications/notifications.module.ts
+import { Global, Module } from '@nestjs/common';
+import { NotificationsController } from './notifications.controller';
+import { NotificationsService } from './notifications.service';
+
+// Global: el gateway persiste cada notificación antes de empujarla
+@Global()
+@Module({
+  controllers: [NotificationsController],
+  providers: [NotificationsService],
+  exports: [NotificationsService],
+})
+export class NotificationsModule {}
@@ -0,0 +1,86 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { NotFoundException } from '@nestjs/common';
+import { NotificationsService } from './notifications.service';
+import { PrismaService } from '../common/prisma.service';
+
+describe('NotificationsService', () => {
+  let service: NotificationsService;
+  const prisma = {
+    notification: {
+      create: jest.fn(),
+      findMany: jest.fn(),
+      findFirst: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+      count: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  };
+
+  const row = (id: string) => ({
+    id,
+    userId: 'u1',
+    type: 'EDIT_REQUEST',
+    data: null,
+    readAt: null,
+    createdAt: new Date(),
+    project: { id: 'p1', name: 'Tienda' },
+    actor: null,
+  });
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        NotificationsService,
+        { provide: PrismaService, useValue: prisma },
+      ],
+    }).compile();
+
+    service = module.get<NotificationsService>(NotificationsService);
+    prisma.$transaction.mockImplementation((ops: Promise<unknown>[]) =>
+      Promise.all(ops),
+    );
+  });
+
+  it('lista paginado con cursor y cuenta las no leídas', async () => {
+    prisma.notification.findMany.mockResolvedValue([
+      row('n3'),
+      row('n2'),
+      row('n1'),
+    ]);
+    prisma.notification.count.mockResolvedValue(5);
+
+    const page = await service.list('u1', { limit: 2, unread: true });
+
+    expect(page.items.map((n) => n.id)).toEqual(['n3', 'n2']);
+    expect(page.nextCursor).toBe('n2');
+    expect(page.unreadCount).toBe(5);
+    expect(prisma.notification.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { userId: 'u1', readAt: null },
+        take: 3,
+      }),
+    );
+  });
+
+  it('no deja marcar como leída una notificación ajena', async () => {
+    prisma.notification.findFirst.mockResolvedValue(null);
+    await expect(service.markRead('u1', 'n9')).rejects.toThrow(
+      NotFoundException,
+    );
+    expect(prisma.notification.findFirst).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { id: 'n9', userId: 'u1' } }),
+    );
+  });
+
+  it('un fallo al crear no rompe la acción que notifica', async () => {
+    prisma.$transaction.mockRejectedValue(new Error('db caída'));
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    await expect(
+      service.create([{ userId: 'u1', type: 'EDIT_REQUEST' }]),
+    ).resolves.toEqual([]);
+    warn.mockRestore();
+  });
+});
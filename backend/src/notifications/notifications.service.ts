@@ -0,0 +1,113 @@
+// src/notifications/notifications.service.ts
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { NotificationType, Prisma } from '@prisma/client';
+import { PrismaService } from '../common/prisma.service';
+
+export const NOTIFICATIONS_PAGE_SIZE = 20;
+
+export type NotificationInput = {
+  userId: string;
+  type: NotificationType;
+  projectId?: string;
+  actorId?: string | null;
+  data?: Prisma.InputJsonObject;
+};
+
+const NOTIFICATION_SELECT = {
+  id: true,
+  userId: true,
+  type: true,
+  data: true,
+  readAt: true,
+  createdAt: true,
+  project: { select: { id: true, name: true } },
+  actor: { select: { id: true, name: true, email: true } },
+} satisfies Prisma.NotificationSelect;
+
+export type NotificationView = Prisma.NotificationGetPayload<{
+  select: typeof NOTIFICATION_SELECT;
+}>;
+
+/**
+ * Notificaciones persistidas por usuario. La entrega en vivo la hace
+ * DiagramGateway.pushNotifications; acá solo se guardan y se consultan.
+ * Crear nunca hace fallar la acción que notifica.
+ */
+@Injectable()
+export class NotificationsService {
+  constructor(private prisma: PrismaService) {}
+
+  async create(inputs: NotificationInput[]): Promise<NotificationView[]> {
+    if (!inputs.length) return [];
+    try {
+      return await this.prisma.$transaction(
+        inputs.map((data) =>
+          this.prisma.notification.create({
+            data,
+            select: NOTIFICATION_SELECT,
+          }),
+        ),
+      );
+    } catch (e) {
+      console.warn('[notifications] no se pudo crear', inputs[0].type, e);
+      return [];
+    }
+  }
+
+  /** Página de notificaciones (más reciente primero) + cantidad sin leer */
+  async list(
+    userId: string,
+    {
+      cursor,
+      limit = NOTIFICATIONS_PAGE_SIZE,
+      unread = false,
+    }: { cursor?: string; limit?: number; unread?: boolean },
+  ) {
+    const take = Math.min(Math.max(limit, 1), 100);
+    const [rows, unreadCount] = await Promise.all([
+      this.prisma.notification.findMany({
+        where: { userId, ...(unread && { readAt: null }) },
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        take: take + 1,
+        ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+        select: NOTIFICATION_SELECT,
+      }),
+      this.unreadCount(userId),
+    ]);
+    const items = rows.slice(0, take);
+    return {
+      items,
+      nextCursor: rows.length > take ? items[items.length - 1].id : null,
+      unreadCount,
+    };
+  }
+
+  unreadCount(userId: string) {
+    return this.prisma.notification.count({
+      where: { userId, readAt: null },
+    });
+  }
+
+  async markRead(userId: string, id: string) {
+    const n = await this.prisma.notification.findFirst({
+      where: { id, userId },
+      select: { id: true, readAt: true },
+    });
+    if (!n) throw new NotFoundException('Notificación no encontrada');
+    if (!n.readAt) {
+      await this.prisma.notification.update({
+        where: { id },
+        data: { readAt: new Date() },
+      });
+    }
+    return { unreadCount: await this.unreadCount(userId) };
+  }
+
+  async markAllRead(userId: string) {
+    await this.prisma.notification.updateMany({
+      where: { userId, readAt: null },
+      data: { readAt: new Date() },
+    });
+    return { unreadCount: 0 };
+  }
+}
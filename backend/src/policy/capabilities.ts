@@ -0,0 +1,151 @@
+// src/policy/capabilities.ts
+import { AccessTokenScope, ProjectRole, WorkspaceRole } from '@prisma/client';
+
+/** Acciones sobre un proyecto que dependen del rol del usuario */
+export const CAPABILITIES = [
+  'project:view', // ver proyecto, diagrama, historial y miembros
+  'diagram:edit', // editar el diagrama (REST, y:sync, versiones, merge)
+  'code:generate', // generar código a partir del modelo
+  'members:manage', // roles, quitar miembros y resolver solicitudes de edición
+  'share:manage', // links para compartir
+  'project:edit', // nombre, descripción y configuración de generación
+  'project:delete', // papelera (eliminar / restaurar)
+  'project:transfer', // ceder la propiedad a otro miembro
+] as const;
+
+export type Capability = (typeof CAPABILITIES)[number];
+
+/** Metadata que dejan RequireCapability / RequireSocketCapability */
+export const CAPABILITY_KEY = 'policy:capability';
+
+export type CapabilityRequirement = {
+  capability: Capability;
+  /** Param de la ruta con el id del proyecto (REST) */
+  param?: string;
+  includeDeleted?: boolean;
+  /** Evento que se emite al socket si se deniega (WS) */
+  deniedEvent?: string;
+  /** La ruta acepta tokens de acceso personal además de la sesión (REST) */
+  accessToken?: boolean;
+};
+
+/** Matriz rol → capacidades (única fuente de verdad, REST y socket) */
+export const ROLE_CAPABILITIES: Record<ProjectRole, readonly Capability[]> = {
+  VIEWER: ['project:view', 'code:generate'],
+  EDITOR: ['project:view', 'code:generate', 'diagram:edit'],
+  ADMIN: [
+    'project:view',
+    'code:generate',
+    'diagram:edit',
+    'members:manage',
+    'share:manage',
+    'project:edit',
+  ],
+  OWNER: CAPABILITIES,
+};
+
+/** Mensaje del 403 cuando al rol no le alcanza */
+export const DENIED_MESSAGE: Record<Capability, string> = {
+  'project:view': 'Sin acceso a este proyecto',
+  'diagram:edit': 'No tenés permisos para editar este proyecto',
+  'code:generate': 'No tenés permisos para generar código de este proyecto',
+  'members:manage': 'Solo el owner o un admin pueden gestionar miembros',
+  'share:manage': 'Solo el owner o un admin pueden administrar los links',
+  'project:edit': 'Solo el owner o un admin pueden editar el proyecto',
+  'project:delete': 'Solo el owner puede eliminar o restaurar el proyecto',
+  'project:transfer': 'Solo el owner puede transferir el proyecto',
+};
+
+export function can(
+  role: ProjectRole | null | undefined,
+  capability: Capability,
+): boolean {
+  return !!role && ROLE_CAPABILITIES[role].includes(capability);
+}
+
+/** Roles que tienen la capacidad (para filtros de Prisma) */
+export function rolesWith(capability: Capability): ProjectRole[] {
+  return (Object.keys(ROLE_CAPABILITIES) as ProjectRole[]).filter((r) =>
+    can(r, capability),
+  );
+}
+
+const ROLE_RANK: Record<ProjectRole, number> = {
+  VIEWER: 0,
+  EDITOR: 1,
+  ADMIN: 2,
+  OWNER: 3,
+};
+
+/** El rol más alto de los dados (null si no hay ninguno) */
+export function highestRole(
+  ...roles: (ProjectRole | null | undefined)[]
+): ProjectRole | null {
+  return roles.reduce<ProjectRole | null>(
+    (best, r) => (r && (!best || ROLE_RANK[r] > ROLE_RANK[best]) ? r : best),
+    null,
+  );
+}
+
+/** Roles del workspace que administran (y cuentan como owner de sus proyectos) */
+export const WORKSPACE_MANAGER_ROLES: WorkspaceRole[] = ['OWNER', 'ADMIN'];
+
+/**
+ * Rol que da pertenecer al workspace del proyecto: sus admins cuentan como
+ * owner; el resto hereda el rol por defecto del workspace.
+ */
+export function inheritedProjectRole(
+  workspaceRole: WorkspaceRole,
+  defaultProjectRole: ProjectRole,
+): ProjectRole {
+  return WORKSPACE_MANAGER_ROLES.includes(workspaceRole)
+    ? 'OWNER'
+    : defaultProjectRole;
+}
+
+/** Lo que hace falta leer de un proyecto para resolver el rol de un usuario */
+export type ProjectRoleSources = {
+  ownerId: string;
+  members: { role: ProjectRole }[];
+  workspace?: {
+    defaultProjectRole: ProjectRole;
+    members: { role: WorkspaceRole }[];
+  } | null;
+};
+
+/** Rol efectivo: el mayor entre owner, membresía directa y workspace */
+export function resolveProjectRole(
+  userId: string,
+  p: ProjectRoleSources,
+): ProjectRole | null {
+  const ws = p.workspace;
+  return highestRole(
+    p.ownerId === userId ? 'OWNER' : null,
+    p.members[0]?.role,
+    ws?.members[0]
+      ? inheritedProjectRole(ws.members[0].role, ws.defaultProjectRole)
+      : null,
+  );
+}
+
+/** Capacidad que habilita cada alcance de un token de acceso personal */
+export const ACCESS_TOKEN_SCOPE_CAPABILITY: Record<
+  AccessTokenScope,
+  Capability
+> = {
+  DIAGRAM_READ: 'project:view',
+  CODE_GENERATE: 'code:generate',
+  DIAGRAM_WRITE: 'diagram:edit',
+};
+
+export function scopesAllow(
+  scopes: readonly AccessTokenScope[],
+  capability: Capability,
+): boolean {
+  return scopes.some((s) => ACCESS_TOKEN_SCOPE_CAPABILITY[s] === capability);
+}
+
+/** Un link de compartir da como mucho EDITOR: no administra nada */
+export function shareLinkRole(role: ProjectRole): ProjectRole {
+  return can(role, 'diagram:edit') ? 'EDITOR' : 'VIEWER';
+}
@@ -0,0 +1,142 @@
+import { ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { ProjectCapabilityGuard } from './project-capability.guard';
+import { WsCapabilityGuard } from './ws-capability.guard';
+import { PolicyService } from './policy.service';
+import { CAPABILITY_KEY, CapabilityRequirement } from './capabilities';
+
+const handler = () => undefined;
+
+function withRequirement(req: CapabilityRequirement) {
+  Reflect.defineMetadata(CAPABILITY_KEY, req, handler);
+}
+
+function httpContext(request: any): ExecutionContext {
+  return {
+    getHandler: () => handler,
+    getClass: () => class {},
+    switchToHttp: () => ({ getRequest: () => request }),
+  } as unknown as ExecutionContext;
+}
+
+function wsContext(client: any, data: any): ExecutionContext {
+  return {
+    getHandler: () => handler,
+    getClass: () => class {},
+    switchToWs: () => ({ getClient: () => client, getData: () => data }),
+  } as unknown as ExecutionContext;
+}
+
+describe('ProjectCapabilityGuard', () => {
+  const policy = { assert: jest.fn() };
+  const guard = new ProjectCapabilityGuard(
+    new Reflector(),
+    policy as unknown as PolicyService,
+  );
+
+  beforeEach(() => jest.resetAllMocks());
+
+  it('consulta la política con el param de la ruta y deja el rol en req', async () => {
+    withRequirement({ capability: 'project:delete', param: 'id' });
+    policy.assert.mockResolvedValue('OWNER');
+    const req = { user: { id: 'u1' }, params: { id: 'p1' } };
+
+    await expect(guard.canActivate(httpContext(req))).resolves.toBe(true);
+    expect(policy.assert).toHaveBeenCalledWith('u1', 'p1', 'project:delete', {
+      includeDeleted: undefined,
+    });
+    expect((req as any).projectRole).toBe('OWNER');
+  });
+
+  it('propaga el 403 de la política', async () => {
+    withRequirement({ capability: 'diagram:edit' });
+    policy.assert.mockRejectedValue(new ForbiddenException());
+    const req = { user: { id: 'u1' }, params: { projectId: 'p1' } };
+
+    await expect(guard.canActivate(httpContext(req))).rejects.toBeInstanceOf(
+      ForbiddenException,
+    );
+  });
+});
+
+describe('ProjectCapabilityGuard · tokens de acceso personal', () => {
+  const policy = { assert: jest.fn() };
+  const guard = new ProjectCapabilityGuard(
+    new Reflector(),
+    policy as unknown as PolicyService,
+  );
+  const tokenRequest = (projectId: string) => ({
+    user: {
+      id: 'u1',
+      accessToken: { id: 't1', projectId: 'p1', scopes: ['DIAGRAM_READ'] },
+    },
+    params: { projectId },
+  });
+
+  beforeEach(() => jest.resetAllMocks());
+
+  it('deja leer su proyecto si la ruta acepta tokens', async () => {
+    withRequirement({ capability: 'project:view', accessToken: true });
+    policy.assert.mockResolvedValue('VIEWER');
+
+    await expect(
+      guard.canActivate(httpContext(tokenRequest('p1'))),
+    ).resolves.toBe(true);
+    expect(policy.assert).toHaveBeenCalled();
+  });
+
+  it('rechaza otro proyecto, otro alcance o una ruta sin tokens', async () => {
+    withRequirement({ capability: 'project:view', accessToken: true });
+    await expect(
+      guard.canActivate(httpContext(tokenRequest('p2'))),
+    ).rejects.toBeInstanceOf(ForbiddenException);
+
+    withRequirement({ capability: 'diagram:edit', accessToken: true });
+    await expect(
+      guard.canActivate(httpContext(tokenRequest('p1'))),
+    ).rejects.toBeInstanceOf(ForbiddenException);
+
+    withRequirement({ capability: 'project:view' });
+    await expect(
+      guard.canActivate(httpContext(tokenRequest('p1'))),
+    ).rejects.toBeInstanceOf(ForbiddenException);
+    expect(policy.assert).not.toHaveBeenCalled();
+  });
+});
+
+describe('WsCapabilityGuard', () => {
+  const guard = new WsCapabilityGuard(new Reflector());
+  const client = (data: any) => ({ data, emit: jest.fn() });
+
+  it('un EDITOR en la sala puede hacer push', () => {
+    withRequirement({ capability: 'diagram:edit', deniedEvent: 'editDenied' });
+    const c = client({ projectId: 'p1', userId: 'u1', role: 'EDITOR' });
+    expect(guard.canActivate(wsContext(c, { projectId: 'p1' }))).toBe(true);
+  });
+
+  it('un VIEWER recibe editDenied; fuera de la sala se ignora', () => {
+    withRequirement({ capability: 'diagram:edit', deniedEvent: 'editDenied' });
+    const viewer = client({ projectId: 'p1', userId: 'u1', role: 'VIEWER' });
+    expect(guard.canActivate(wsContext(viewer, { projectId: 'p1' }))).toBe(
+      false,
+    );
+    expect(viewer.emit).toHaveBeenCalledWith('editDenied', {
+      reason: 'no_permission',
+    });
+
+    const other = client({ projectId: 'p2', userId: 'u1', role: 'OWNER' });
+    expect(guard.canActivate(wsContext(other, { projectId: 'p1' }))).toBe(
+      false,
+    );
+    expect(other.emit).not.toHaveBeenCalled();
+  });
+
+  it('un invitado anónimo sin permiso recibe login_required', () => {
+    withRequirement({ capability: 'diagram:edit', deniedEvent: 'editDenied' });
+    const anon = client({ projectId: 'p1', userId: null, role: 'VIEWER' });
+    guard.canActivate(wsContext(anon, { projectId: 'p1' }));
+    expect(anon.emit).toHaveBeenCalledWith('editDenied', {
+      reason: 'login_required',
+    });
+  });
+});
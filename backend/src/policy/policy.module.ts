@@ -0,0 +1,13 @@
+// src/policy/policy.module.ts
+import { Global, Module } from '@nestjs/common';
+import { PolicyService } from './policy.service';
+import { ProjectCapabilityGuard } from './project-capability.guard';
+import { WsCapabilityGuard } from './ws-capability.guard';
+
+// Global: cualquier controller o gateway puede usar los guards de capacidad
+@Global()
+@Module({
+  providers: [PolicyService, ProjectCapabilityGuard, WsCapabilityGuard],
+  exports: [PolicyService, ProjectCapabilityGuard, WsCapabilityGuard],
+})
+export class PolicyModule {}
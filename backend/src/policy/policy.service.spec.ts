@@ -0,0 +1,119 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ForbiddenException, NotFoundException } from '@nestjs/common';
+import { ProjectRole } from '@prisma/client';
+import { PolicyService } from './policy.service';
+import { PrismaService } from '../common/prisma.service';
+import { CAPABILITIES, Capability, shareLinkRole } from './capabilities';
+
+// Matriz esperada escrita a mano (no derivada de ROLE_CAPABILITIES)
+const EXPECTED: Record<Capability, ProjectRole[]> = {
+  'project:view': ['VIEWER', 'EDITOR', 'ADMIN', 'OWNER'],
+  'diagram:edit': ['EDITOR', 'ADMIN', 'OWNER'],
+  'code:generate': ['VIEWER', 'EDITOR', 'ADMIN', 'OWNER'],
+  'members:manage': ['ADMIN', 'OWNER'],
+  'share:manage': ['ADMIN', 'OWNER'],
+  'project:edit': ['ADMIN', 'OWNER'],
+  'project:delete': ['OWNER'],
+  'project:transfer': ['OWNER'],
+};
+
+const ROLES: ProjectRole[] = ['VIEWER', 'EDITOR', 'ADMIN', 'OWNER'];
+
+describe('PolicyService', () => {
+  let policy: PolicyService;
+  const prisma = { project: { findUnique: jest.fn() } };
+
+  // Proyecto p1 visto por u1 con el rol dado (OWNER = dueño del proyecto)
+  const as = (role: ProjectRole | null, deletedAt: Date | null = null) =>
+    prisma.project.findUnique.mockResolvedValue({
+      ownerId: role === 'OWNER' ? 'u1' : 'owner',
+      deletedAt,
+      members: role && role !== 'OWNER' ? [{ role }] : [],
+    });
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [PolicyService, { provide: PrismaService, useValue: prisma }],
+    }).compile();
+
+    policy = module.get<PolicyService>(PolicyService);
+  });
+
+  it('la matriz cubre todas las capacidades', () => {
+    expect(Object.keys(EXPECTED).sort()).toEqual([...CAPABILITIES].sort());
+  });
+
+  describe.each(ROLES)('%s', (role) => {
+    it.each(CAPABILITIES)('%s', async (capability) => {
+      as(role);
+      if (EXPECTED[capability].includes(role)) {
+        await expect(policy.assert('u1', 'p1', capability)).resolves.toBe(role);
+      } else {
+        await expect(
+          policy.assert('u1', 'p1', capability),
+        ).rejects.toBeInstanceOf(ForbiddenException);
+      }
+    });
+  });
+
+  it('un no miembro no tiene ninguna capacidad', async () => {
+    as(null);
+    expect(await policy.getRole('u1', 'p1')).toBeNull();
+    await expect(
+      policy.assert('u1', 'p1', 'project:view'),
+    ).rejects.toBeInstanceOf(ForbiddenException);
+  });
+
+  it('proyecto inexistente o en la papelera → 404 (salvo includeDeleted)', async () => {
+    prisma.project.findUnique.mockResolvedValue(null);
+    await expect(
+      policy.assert('u1', 'p1', 'project:view'),
+    ).rejects.toBeInstanceOf(NotFoundException);
+
+    as('OWNER', new Date());
+    await expect(
+      policy.assert('u1', 'p1', 'project:delete'),
+    ).rejects.toBeInstanceOf(NotFoundException);
+    expect(await policy.can('u1', 'p1', 'project:view')).toBe(false);
+    await expect(
+      policy.assert('u1', 'p1', 'project:delete', { includeDeleted: true }),
+    ).resolves.toBe('OWNER');
+  });
+
+  it('en un workspace los admins son OWNER y los miembros heredan el rol por defecto', async () => {
+    const inWorkspace = (
+      wsRole: 'OWNER' | 'ADMIN' | 'MEMBER',
+      direct: ProjectRole | null = null,
+    ) =>
+      prisma.project.findUnique.mockResolvedValue({
+        ownerId: 'owner',
+        deletedAt: null,
+        members: direct ? [{ role: direct }] : [],
+        workspace: {
+          defaultProjectRole: 'VIEWER',
+          members: [{ role: wsRole }],
+        },
+      });
+
+    inWorkspace('ADMIN');
+    expect(await policy.getRole('u1', 'p1')).toBe('OWNER');
+    await expect(policy.assert('u1', 'p1', 'project:delete')).resolves.toBe(
+      'OWNER',
+    );
+
+    inWorkspace('MEMBER');
+    expect(await policy.getRole('u1', 'p1')).toBe('VIEWER');
+
+    // Gana el rol más alto entre el directo y el heredado
+    inWorkspace('MEMBER', 'EDITOR');
+    expect(await policy.getRole('u1', 'p1')).toBe('EDITOR');
+  });
+
+  it('un link de compartir da como mucho EDITOR', () => {
+    expect(shareLinkRole('VIEWER')).toBe('VIEWER');
+    expect(shareLinkRole('EDITOR')).toBe('EDITOR');
+    expect(shareLinkRole('ADMIN')).toBe('EDITOR');
+    expect(shareLinkRole('OWNER')).toBe('EDITOR');
+  });
+});
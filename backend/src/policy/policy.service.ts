@@ -0,0 +1,93 @@
+// src/policy/policy.service.ts
+import {
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { ProjectRole } from '@prisma/client';
+import { PrismaService } from '../common/prisma.service';
+import {
+  Capability,
+  DENIED_MESSAGE,
+  can,
+  resolveProjectRole,
+} from './capabilities';
+
+export type PolicyOptions = {
+  /** Permite proyectos en la papelera (restaurar) */
+  includeDeleted?: boolean;
+};
+
+/** Select de Prisma con lo necesario para resolveProjectRole */
+export const projectRoleSelect = (userId: string) =>
+  ({
+    ownerId: true,
+    members: { where: { userId }, select: { role: true }, take: 1 },
+    workspace: {
+      select: {
+        defaultProjectRole: true,
+        members: { where: { userId }, select: { role: true }, take: 1 },
+      },
+    },
+  }) as const;
+
+/**
+ * Permisos por proyecto. Resuelve el rol efectivo del usuario (el owner
+ * siempre es OWNER; en proyectos de un workspace también sus admins, y sus
+ * miembros heredan el rol por defecto) y lo contrasta con ROLE_CAPABILITIES.
+ */
+@Injectable()
+export class PolicyService {
+  constructor(private prisma: PrismaService) {}
+
+  private async load(userId: string, projectId: string) {
+    const p = await this.prisma.project.findUnique({
+      where: { id: projectId },
+      select: { ...projectRoleSelect(userId), deletedAt: true },
+    });
+    if (!p) return null;
+    return { deleted: !!p.deletedAt, role: resolveProjectRole(userId, p) };
+  }
+
+  /** Rol del usuario; null si no es miembro o el proyecto no está disponible */
+  async getRole(
+    userId: string,
+    projectId: string,
+    { includeDeleted = false }: PolicyOptions = {},
+  ): Promise<ProjectRole | null> {
+    const p = await this.load(userId, projectId);
+    if (!p || (p.deleted && !includeDeleted)) return null;
+    return p.role;
+  }
+
+  async can(
+    userId: string,
+    projectId: string,
+    capability: Capability,
+    options?: PolicyOptions,
+  ) {
+    return can(await this.getRole(userId, projectId, options), capability);
+  }
+
+  /**
+   * Exige la capacidad y devuelve el rol.
+   * 404 si el proyecto no existe (o está en la papelera), 403 si no es
+   * miembro o si a su rol no le alcanza.
+   */
+  async assert(
+    userId: string,
+    projectId: string,
+    capability: Capability,
+    { includeDeleted = false }: PolicyOptions = {},
+  ): Promise<ProjectRole> {
+    const p = await this.load(userId, projectId);
+    if (!p || (p.deleted && !includeDeleted)) {
+      throw new NotFoundException('Proyecto no encontrado');
+    }
+    if (!p.role) throw new ForbiddenException('Sin acceso a este proyecto');
+    if (!can(p.role, capability)) {
+      throw new ForbiddenException(DENIED_MESSAGE[capability]);
+    }
+    return p.role;
+  }
+}
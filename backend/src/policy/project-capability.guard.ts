@@ -0,0 +1,57 @@
+// src/policy/project-capability.guard.ts
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import {
+  CAPABILITY_KEY,
+  CapabilityRequirement,
+  scopesAllow,
+} from './capabilities';
+import { PolicyService } from './policy.service';
+
+@Injectable()
+export class ProjectCapabilityGuard implements CanActivate {
+  constructor(
+    private reflector: Reflector,
+    private policy: PolicyService,
+  ) {}
+
+  async canActivate(ctx: ExecutionContext) {
+    const req = this.reflector.getAllAndOverride<CapabilityRequirement>(
+      CAPABILITY_KEY,
+      [ctx.getHandler(), ctx.getClass()],
+    );
+    if (!req) return true;
+
+    const http = ctx.switchToHttp().getRequest();
+    const userId: string | undefined = http.user?.id;
+    if (!userId) throw new UnauthorizedException();
+
+    const projectId: string = http.params?.[req.param ?? 'projectId'];
+
+    // Token de acceso personal: solo su proyecto y sus alcances; además
+    // sigue valiendo el rol actual del usuario (abajo)
+    const token = http.user.accessToken;
+    if (token) {
+      if (!req.accessToken || token.projectId !== projectId) {
+        throw new ForbiddenException('El token no da acceso a este recurso');
+      }
+      if (!scopesAllow(token.scopes, req.capability)) {
+        throw new ForbiddenException('El token no tiene el alcance necesario');
+      }
+    }
+
+    http.projectRole = await this.policy.assert(
+      userId,
+      projectId,
+      req.capability,
+      { includeDeleted: req.includeDeleted },
+    );
+    return true;
+  }
+}
@@ -0,0 +1,35 @@
+// src/policy/require-capability.decorator.ts
+import { SetMetadata, UseGuards, applyDecorators } from '@nestjs/common';
+import {
+  CAPABILITY_KEY,
+  Capability,
+  CapabilityRequirement,
+} from './capabilities';
+import { ProjectCapabilityGuard } from './project-capability.guard';
+import { WsCapabilityGuard } from './ws-capability.guard';
+
+/**
+ * REST: exige la capacidad sobre el proyecto de `:projectId` (o `param`).
+ * Va después de JwtAuthGuard; deja el rol en `req.projectRole`.
+ */
+export const RequireCapability = (
+  capability: Capability,
+  options: Omit<CapabilityRequirement, 'capability' | 'deniedEvent'> = {},
+) =>
+  applyDecorators(
+    SetMetadata(CAPABILITY_KEY, { capability, ...options }),
+    UseGuards(ProjectCapabilityGuard),
+  );
+
+/**
+ * Socket: exige que el cliente esté en la sala del `projectId` del mensaje
+ * y que su rol (client.data.role, fijado en join) tenga la capacidad.
+ */
+export const RequireSocketCapability = (
+  capability: Capability,
+  options: Pick<CapabilityRequirement, 'deniedEvent'> = {},
+) =>
+  applyDecorators(
+    SetMetadata(CAPABILITY_KEY, { capability, ...options }),
+    UseGuards(WsCapabilityGuard),
+  );
@@ -0,0 +1,37 @@
+// src/policy/ws-capability.guard.ts
+import { CanActivate, ExecutionContext, Injectable } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { CAPABILITY_KEY, CapabilityRequirement, can } from './capabilities';
+import type { Socket } from 'socket.io';
+
+/**
+ * El rol del socket se resuelve una vez en `join` (y se actualiza con
+ * memberUpdated), así que acá no se consulta la BD.
+ */
+@Injectable()
+export class WsCapabilityGuard implements CanActivate {
+  constructor(private reflector: Reflector) {}
+
+  canActivate(ctx: ExecutionContext) {
+    const req = this.reflector.getAllAndOverride<CapabilityRequirement>(
+      CAPABILITY_KEY,
+      [ctx.getHandler(), ctx.getClass()],
+    );
+    if (!req) return true;
+
+    const client = ctx.switchToWs().getClient<Socket>();
+    const data = ctx.switchToWs().getData<{ projectId?: string }>();
+    const state = client.data as any;
+
+    // No está en la sala de ese proyecto: se ignora
+    if (!data?.projectId || state?.projectId !== data.projectId) return false;
+    if (can(state?.role, req.capability)) return true;
+
+    if (req.deniedEvent) {
+      client.emit(req.deniedEvent, {
+        reason: state?.userId ? 'no_permission' : 'login_required',
+      });
+    }
+    return false;
+  }
+}
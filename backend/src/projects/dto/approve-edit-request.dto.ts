@@ -0,0 +1,9 @@
+// src/projects/dto/approve-edit-request.dto.ts
+import { IsIn, IsOptional } from 'class-validator';
+import { ASSIGNABLE_ROLES } from './update-member.dto';
+
+export class ApproveEditRequestDto {
+  @IsOptional()
+  @IsIn(ASSIGNABLE_ROLES)
+  role?: (typeof ASSIGNABLE_ROLES)[number];
+}
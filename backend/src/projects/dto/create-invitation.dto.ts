@@ -0,0 +1,12 @@
+// src/projects/dto/create-invitation.dto.ts
+import { IsEmail, IsIn, IsOptional } from 'class-validator';
+import { ASSIGNABLE_ROLES } from './update-member.dto';
+
+export class CreateInvitationDto {
+  @IsEmail({}, { message: 'Email inválido' })
+  email: string;
+
+  @IsOptional()
+  @IsIn(ASSIGNABLE_ROLES)
+  role?: (typeof ASSIGNABLE_ROLES)[number]; // default EDITOR
+}
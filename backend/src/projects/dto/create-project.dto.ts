@@ -10,4 +10,8 @@ export class CreateProjectDto {
   @IsOptional()
   @MaxLength(500)
   description?: string;
+
+  @IsString()
+  @IsOptional()
+  workspaceId?: string; // sin workspace = proyecto personal
 }
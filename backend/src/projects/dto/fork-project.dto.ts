@@ -0,0 +1,14 @@
+// src/projects/dto/fork-project.dto.ts
+import { IsOptional, IsString, MaxLength } from 'class-validator';
+
+export class ForkProjectDto {
+  @IsOptional()
+  @IsString()
+  @MaxLength(120)
+  name?: string;
+
+  /** Versión del historial a copiar; si falta, se copia el estado actual */
+  @IsOptional()
+  @IsString()
+  versionId?: string;
+}
@@ -0,0 +1,20 @@
+// src/projects/dto/import-xmi-project.dto.ts
+import { IsOptional, IsString, MaxLength } from 'class-validator';
+
+/** Campos de texto del multipart; el archivo va en `file` */
+export class ImportXmiProjectDto {
+  /** Si falta, el nombre del modelo del XMI */
+  @IsOptional()
+  @IsString()
+  @MaxLength(120)
+  name?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  description?: string;
+
+  @IsOptional()
+  @IsString()
+  workspaceId?: string;
+}
@@ -0,0 +1,53 @@
+import {
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+
+// owned = soy el owner; shared = me dieron acceso (miembro o workspace)
+export const PROJECT_SCOPES = ['all', 'owned', 'shared'] as const;
+export const PROJECT_SORTS = ['updated', 'created', 'name'] as const;
+
+export type ProjectScope = (typeof PROJECT_SCOPES)[number];
+export type ProjectSort = (typeof PROJECT_SORTS)[number];
+
+// GET /api/projects?q=&scope=&starred=&tag=&sort=&cursor=&limit=
+export class ListProjectsQueryDto {
+  @IsOptional()
+  @IsString()
+  @MaxLength(120)
+  q?: string;
+
+  @IsOptional()
+  @IsIn(PROJECT_SCOPES)
+  scope?: ProjectScope;
+
+  @IsOptional()
+  @Transform(({ value }) => value === true || value === 'true')
+  starred?: boolean;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(30)
+  tag?: string;
+
+  @IsOptional()
+  @IsIn(PROJECT_SORTS)
+  sort?: ProjectSort;
+
+  @IsOptional()
+  @IsString()
+  cursor?: string;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number;
+}
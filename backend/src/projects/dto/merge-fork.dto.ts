@@ -0,0 +1,15 @@
+// src/projects/dto/merge-fork.dto.ts
+import { IsBoolean, IsObject, IsOptional } from 'class-validator';
+import type { MergeSide } from '../../diagrams/diagram-merge';
+
+export class MergeForkDto {
+  /** id de conflicto → lado elegido ('upstream' | 'fork') */
+  @IsOptional()
+  @IsObject()
+  resolutions?: Record<string, MergeSide>;
+
+  /** Solo calcula el resultado y los conflictos, sin aplicar */
+  @IsOptional()
+  @IsBoolean()
+  dryRun?: boolean;
+}
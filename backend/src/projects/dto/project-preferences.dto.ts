@@ -0,0 +1,24 @@
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsBoolean,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+
+export const MAX_PROJECT_TAGS = 10;
+
+// PUT /api/projects/:id/preferences  { starred?, tags? }
+export class ProjectPreferencesDto {
+  @IsOptional()
+  @IsBoolean()
+  starred?: boolean;
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(MAX_PROJECT_TAGS)
+  @IsString({ each: true })
+  @MaxLength(30, { each: true })
+  tags?: string[];
+}
@@ -0,0 +1,9 @@
+// src/projects/dto/reject-edit-request.dto.ts
+import { IsOptional, IsString, MaxLength } from 'class-validator';
+
+export class RejectEditRequestDto {
+  @IsOptional()
+  @IsString()
+  @MaxLength(300)
+  reason?: string;
+}
@@ -0,0 +1,8 @@
+// src/projects/dto/transfer-ownership.dto.ts
+import { IsNotEmpty, IsString } from 'class-validator';
+
+export class TransferOwnershipDto {
+  @IsString()
+  @IsNotEmpty()
+  userId: string; // miembro que recibe el proyecto
+}
@@ -0,0 +1,10 @@
+// src/projects/dto/update-member.dto.ts
+import { IsIn } from 'class-validator';
+
+// OWNER no se asigna por acá (ver transferencia de ownership)
+export const ASSIGNABLE_ROLES = ['VIEWER', 'EDITOR', 'ADMIN'] as const;
+
+export class UpdateMemberDto {
+  @IsIn(ASSIGNABLE_ROLES)
+  role: (typeof ASSIGNABLE_ROLES)[number];
+}
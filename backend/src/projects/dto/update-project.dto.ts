@@ -0,0 +1,86 @@
+import {
+  IsIn,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUrl,
+  Matches,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { DatabaseVendor } from '@prisma/client';
+
+// com.example / com.acme.app: segmentos en minúscula separados por punto
+const PACKAGE_RE = /^[a-z][a-z0-9_]*(\.[a-z][a-z0-9_]*)*$/;
+const PACKAGE_MSG = 'debe ser un paquete válido (ej: com.example)';
+
+export const JAVA_VERSIONS = ['17', '21'] as const;
+
+export class ProjectSettingsDto {
+  @IsOptional()
+  @Matches(PACKAGE_RE, { message: `javaPackage ${PACKAGE_MSG}` })
+  @MaxLength(120)
+  javaPackage?: string;
+
+  @IsOptional()
+  @Matches(PACKAGE_RE, { message: `groupId ${PACKAGE_MSG}` })
+  @MaxLength(120)
+  groupId?: string;
+
+  @IsOptional()
+  @Matches(/^[a-z][a-z0-9-]*$/, {
+    message: 'artifactId solo admite minúsculas, números y guiones',
+  })
+  @MaxLength(80)
+  artifactId?: string;
+
+  @IsOptional()
+  @Matches(/^\d+\.\d+\.\d+$/, {
+    message: 'springBootVersion debe tener formato X.Y.Z',
+  })
+  springBootVersion?: string;
+
+  @IsOptional()
+  @IsIn(JAVA_VERSIONS)
+  javaVersion?: (typeof JAVA_VERSIONS)[number];
+
+  @IsOptional()
+  @IsIn(Object.values(DatabaseVendor))
+  database?: DatabaseVendor;
+
+  @IsOptional()
+  @Matches(/^[A-Za-z][A-Za-z0-9_]*$/, {
+    message: 'flutterAppName solo admite letras, números y guion bajo',
+  })
+  @MaxLength(60)
+  flutterAppName?: string;
+
+  @IsOptional()
+  @Matches(PACKAGE_RE, { message: `flutterPackage ${PACKAGE_MSG}` })
+  @MaxLength(120)
+  flutterPackage?: string;
+
+  @IsOptional()
+  @IsUrl({ require_tld: false, require_protocol: true })
+  @MaxLength(200)
+  apiBaseUrl?: string;
+}
+
+export class UpdateProjectDto {
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(120)
+  name?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  description?: string | null;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => ProjectSettingsDto)
+  settings?: ProjectSettingsDto;
+}
@@ -0,0 +1,36 @@
+// src/projects/edit-request-expiry.scheduler.ts
+import { Injectable, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { ProjectsService } from './projects.service';
+
+// Cada cuánto se vencen las solicitudes de edición viejas (updateMany
+// idempotente; los listados también vencen al vuelo antes de responder)
+const EXPIRY_INTERVAL_MS =
+  Number(process.env.EDIT_REQUEST_EXPIRY_INTERVAL_MINUTES ?? 60) * 60_000;
+
+@Injectable()
+export class EditRequestExpiryScheduler
+  implements OnModuleInit, OnModuleDestroy
+{
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(private projects: ProjectsService) {}
+
+  onModuleInit() {
+    this.timer = setInterval(() => void this.expire(), EXPIRY_INTERVAL_MS);
+    this.timer.unref();
+  }
+
+  onModuleDestroy() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  async expire() {
+    try {
+      const count = await this.projects.expireStaleEditRequests();
+      if (count) console.log('[edit-requests] solicitudes vencidas:', count);
+    } catch (e) {
+      console.warn('[edit-requests] error al vencer solicitudes', e);
+    }
+  }
+}
@@ -1,30 +1,36 @@
 // src/projects/edit-requests.controller.ts
 import {
+  BadRequestException,
   Body,
   Controller,
+  Get,
   Param,
   Post,
+  Query,
   Req,
   UseGuards,
-  NotFoundException,
 } from '@nestjs/common';
+import { EditRequestStatus } from '@prisma/client';
 import { JwtAuthGuard } from '../auth/jwt.guard';
+import { RequireCapability } from '../policy/require-capability.decorator';
 import { ProjectsService } from './projects.service';
-import { PrismaService } from '../common/prisma.service';
 import { DiagramGateway } from '../diagram-realtime/diagram.gateway';
 import { RequestEditDto } from './dto/request-edit.dto';
+import { RejectEditRequestDto } from './dto/reject-edit-request.dto';
+import { ApproveEditRequestDto } from './dto/approve-edit-request.dto';
+
+const STATUS_FILTERS = [...Object.values(EditRequestStatus), 'ALL'] as const;
 
 @UseGuards(JwtAuthGuard)
-@Controller('projects/:projectId')
+@Controller()
 export class EditRequestsController {
   constructor(
     private readonly projects: ProjectsService,
-    private readonly prisma: PrismaService,
-    private readonly gateway: DiagramGateway, // emitimos al owner por socket
+    private readonly gateway: DiagramGateway, // avisos en vivo por socket
   ) {}
 
   // POST /api/projects/:projectId/request-edit
-  @Post('request-edit')
+  @Post('projects/:projectId/request-edit')
   async requestEdit(
     @Req() req: any,
     @Param('projectId') projectId: string,
@@ -32,30 +38,94 @@ export class EditRequestsController {
   ) {
     const requesterId: string = req.user.id;
 
-    // Crea (o asegura) la solicitud en BD
+    // Crea (o reabre) la solicitud en BD
     const result = await this.projects.createEditRequest(
       requesterId,
       projectId,
       dto?.message,
     );
 
-    // Verifica proyecto y obtiene owner
-    const proj = await this.prisma.project.findUnique({
-      where: { id: projectId },
-      select: { ownerId: true },
-    });
-    if (!proj) throw new NotFoundException('Proyecto no encontrado');
-
-    // Notifica al owner en su sala "user:<ownerId>"
-    // (el gateway mete al socket en esa sala en handleConnection)
-    const ns: any = (this.gateway as any).server; // Namespace
-    ns?.to?.(`user:${proj.ownerId}`)?.emit?.('editRequest', {
-      requestId: result.request?.id,
-      projectId,
-      requesterId,
-      message: dto?.message ?? null,
-    });
+    // Notifica al owner en su sala "user:<ownerId>" si está conectado;
+    // si no, la ve al listar las pendientes
+    if (result.request) await this.gateway.notifyEditRequest(result.request);
 
     return result; // { ok: true, request, skipped? }
   }
+
+  // GET /api/projects/:projectId/edit-requests?status=PENDING|APPROVED|REJECTED|EXPIRED|ALL
+  @Get('projects/:projectId/edit-requests')
+  @RequireCapability('members:manage')
+  async list(
+    @Req() req: any,
+    @Param('projectId') projectId: string,
+    @Query('status') status?: string,
+  ) {
+    const userId: string = req.user.id;
+    if (status && !(STATUS_FILTERS as readonly string[]).includes(status)) {
+      throw new BadRequestException('Estado de solicitud inválido');
+    }
+    return this.projects.listEditRequests(
+      userId,
+      projectId,
+      status as EditRequestStatus | 'ALL' | undefined,
+    );
+  }
+
+  // POST /api/projects/:projectId/edit-requests/:requestId/approve  { role? }
+  @Post('projects/:projectId/edit-requests/:requestId/approve')
+  @RequireCapability('members:manage')
+  async approve(
+    @Req() req: any,
+    @Param('projectId') projectId: string,
+    @Param('requestId') requestId: string,
+    @Body() dto: ApproveEditRequestDto,
+  ) {
+    const userId: string = req.user.id;
+    const res = await this.projects.approveEditRequestById(
+      userId,
+      projectId,
+      requestId,
+      dto.role,
+    );
+    const change = { projectId, userId: res.requesterId, role: res.role };
+    this.gateway.pushMemberRole(change, { requestIds: [res.requestId] });
+    await this.gateway.notifyEditRequestApproved(change, userId, [
+      res.requestId,
+    ]);
+    return res;
+  }
+
+  // POST /api/projects/:projectId/edit-requests/:requestId/reject  { reason? }
+  @Post('projects/:projectId/edit-requests/:requestId/reject')
+  @RequireCapability('members:manage')
+  async reject(
+    @Req() req: any,
+    @Param('projectId') projectId: string,
+    @Param('requestId') requestId: string,
+    @Body() dto: RejectEditRequestDto,
+  ) {
+    const userId: string = req.user.id;
+    const request = await this.projects.rejectEditRequest(
+      userId,
+      projectId,
+      requestId,
+      dto.reason,
+    );
+    await this.gateway.notifyEditRequestRejected(request, userId);
+    return request;
+  }
+
+  // GET /api/edit-requests/incoming  (pendientes de mis proyectos)
+  @Get('edit-requests/incoming')
+  async incoming(@Req() req: any) {
+    const userId: string = req.user.id;
+    return this.projects.listIncomingEditRequests(userId);
+  }
+
+  // GET /api/edit-requests/mine  (las que hice yo, con su estado)
+  @Get('edit-requests/mine')
+  async mine(@Req() req: any) {
+    const userId: string = req.user.id;
+    return this.projects.listMyEditRequests(userId);
+  }
 }
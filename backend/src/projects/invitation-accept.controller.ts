@@ -0,0 +1,24 @@
+// src/projects/invitation-accept.controller.ts
+import { Controller, Get, Param, Post, Req, UseGuards } from '@nestjs/common';
+import { JwtAuthGuard } from '../auth/jwt.guard';
+import { InvitationsService } from './invitations.service';
+
+// Lado del invitado: el token del mail es la credencial
+@Controller('invitations/:token')
+export class InvitationAcceptController {
+  constructor(private readonly invitations: InvitationsService) {}
+
+  // GET /api/invitations/:token  (público: datos para la página de aceptación)
+  @Get()
+  async preview(@Param('token') token: string) {
+    return this.invitations.preview(token);
+  }
+
+  // POST /api/invitations/:token/accept
+  @UseGuards(JwtAuthGuard)
+  @Post('accept')
+  async accept(@Req() req: any, @Param('token') token: string) {
+    const userId: string = req.user.id;
+    return this.invitations.accept(userId, token);
+  }
+}
@@ -0,0 +1,57 @@
+// src/projects/invitations.controller.ts
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import { JwtAuthGuard } from '../auth/jwt.guard';
+import { RequireCapability } from '../policy/require-capability.decorator';
+import { InvitationsService } from './invitations.service';
+import { CreateInvitationDto } from './dto/create-invitation.dto';
+
+@UseGuards(JwtAuthGuard)
+@Controller('projects/:projectId/invitations')
+export class InvitationsController {
+  constructor(private readonly invitations: InvitationsService) {}
+
+  // POST /api/projects/:projectId/invitations  { email, role? }
+  @Post()
+  @RequireCapability('members:manage')
+  async create(
+    @Req() req: any,
+    @Param('projectId') projectId: string,
+    @Body() dto: CreateInvitationDto,
+  ) {
+    const userId: string = req.user.id;
+    return this.invitations.invite(userId, projectId, dto.email, dto.role);
+  }
+
+  // GET /api/projects/:projectId/invitations  (pendientes)
+  @Get()
+  @RequireCapability('members:manage')
+  async list(@Req() req: any, @Param('projectId') projectId: string) {
+    const userId: string = req.user.id;
+    return this.invitations.listPending(userId, projectId);
+  }
+
+  // DELETE /api/projects/:projectId/invitations/:invitationId  (cancelar)
+  @Delete(':invitationId')
+  @RequireCapability('members:manage')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async cancel(
+    @Req() req: any,
+    @Param('projectId') projectId: string,
+    @Param('invitationId') invitationId: string,
+  ) {
+    const userId: string = req.user.id;
+    await this.invitations.cancel(userId, projectId, invitationId);
+    return;
+  }
+}
@@ -0,0 +1,196 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConflictException, GoneException } from '@nestjs/common';
+import { createHash } from 'crypto';
+import { InvitationsService } from './invitations.service';
+import { PrismaService } from '../common/prisma.service';
+import { PolicyService } from '../policy/policy.service';
+import { ActivityService } from '../activity/activity.service';
+import { DiagramGateway } from '../diagram-realtime/diagram.gateway';
+import { MailerService } from '../mail/mailer.service';
+import { MAIL_TRANSPORT, OutboxMailTransport } from '../mail/mail-transport';
+
+describe('InvitationsService', () => {
+  let service: InvitationsService;
+  const prisma = {
+    projectMember: { findFirst: jest.fn(), upsert: jest.fn() },
+    projectInvitation: {
+      create: jest.fn(),
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    mailOutbox: { create: jest.fn() },
+    user: { findFirst: jest.fn() },
+    $transaction: jest.fn(),
+  };
+  const policy = { assert: jest.fn(), getRole: jest.fn() };
+  const activity = { record: jest.fn() };
+  const gateway = { pushMemberRole: jest.fn(), pushNotifications: jest.fn() };
+
+  const invitation = (over: Record<string, unknown> = {}) => ({
+    id: 'i1',
+    projectId: 'p1',
+    email: 'ana@test.com',
+    role: 'EDITOR',
+    status: 'PENDING',
+    createdAt: new Date(),
+    expiresAt: new Date(Date.now() + 86_400_000),
+    acceptedAt: null,
+    invitedBy: { name: 'Owner', email: 'owner@test.com' },
+    project: { name: 'Tienda', deletedAt: null },
+    ...over,
+  });
+
+  /** Token que quedó en el outbox (solo viaja por mail) */
+  const sentToken = () => {
+    const { text } = prisma.mailOutbox.create.mock.calls[0][0].data;
+    return /\/invite\/(\S+)/.exec(text)![1];
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        InvitationsService,
+        MailerService,
+        OutboxMailTransport,
+        { provide: MAIL_TRANSPORT, useExisting: OutboxMailTransport },
+        { provide: PrismaService, useValue: prisma },
+        { provide: PolicyService, useValue: policy },
+        { provide: DiagramGateway, useValue: gateway },
+        { provide: ActivityService, useValue: activity },
+      ],
+    }).compile();
+
+    service = module.get<InvitationsService>(InvitationsService);
+    policy.assert.mockResolvedValue('OWNER');
+    prisma.projectInvitation.updateMany.mockResolvedValue({ count: 1 });
+    prisma.$transaction.mockImplementation((fn: (tx: unknown) => unknown) =>
+      fn(prisma),
+    );
+  });
+
+  it('invita por email, guarda solo el hash y deja el mail en el outbox', async () => {
+    prisma.projectMember.findFirst.mockResolvedValue(null);
+    prisma.projectInvitation.create.mockResolvedValue(invitation());
+
+    const view = await service.invite(
+      'owner',
+      'p1',
+      ' Ana@Test.com ',
+      'EDITOR',
+    );
+
+    expect(view).not.toHaveProperty('project');
+    const { data } = prisma.projectInvitation.create.mock.calls[0][0];
+    expect(data.email).toBe('ana@test.com');
+    expect(prisma.mailOutbox.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        to: 'ana@test.com',
+        subject: expect.stringContaining('Tienda'),
+      }),
+    });
+    const token = sentToken();
+    expect(data.tokenHash).toBe(
+      createHash('sha256').update(token).digest('hex'),
+    );
+    expect(data.tokenHash).not.toBe(token);
+    // Reinvitar cancela la pendiente anterior
+    expect(prisma.projectInvitation.updateMany).toHaveBeenCalledWith({
+      where: { projectId: 'p1', email: 'ana@test.com', status: 'PENDING' },
+      data: { status: 'CANCELLED' },
+    });
+    // Sin cuenta todavía: solo el mail
+    expect(gateway.pushNotifications).not.toHaveBeenCalled();
+  });
+
+  it('si el email ya tiene cuenta, también le deja una notificación', async () => {
+    prisma.projectMember.findFirst.mockResolvedValue(null);
+    prisma.projectInvitation.create.mockResolvedValue(invitation());
+    prisma.user.findFirst.mockResolvedValue({ id: 'ana' });
+
+    await service.invite('owner', 'p1', 'ana@test.com', 'EDITOR');
+
+    expect(gateway.pushNotifications).toHaveBeenCalledWith([
+      {
+        userId: 'ana',
+        type: 'INVITATION',
+        projectId: 'p1',
+        actorId: 'owner',
+        data: { invitationId: 'i1', role: 'EDITOR' },
+      },
+    ]);
+  });
+
+  it('no invita a alguien que ya es miembro', async () => {
+    prisma.projectMember.findFirst.mockResolvedValue({ id: 'm1' });
+    await expect(service.invite('owner', 'p1', 'ana@test.com')).rejects.toThrow(
+      ConflictException,
+    );
+    expect(prisma.mailOutbox.create).not.toHaveBeenCalled();
+  });
+
+  it('al aceptar crea la membresía (aunque la cuenta sea nueva) y avisa en vivo', async () => {
+    prisma.projectInvitation.findUnique.mockResolvedValue(invitation());
+    policy.getRole.mockResolvedValue(null);
+
+    const res = await service.accept('nuevo', 'tok');
+
+    expect(res).toEqual({ projectId: 'p1', role: 'EDITOR' });
+    expect(prisma.projectMember.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        create: { projectId: 'p1', userId: 'nuevo', role: 'EDITOR' },
+      }),
+    );
+    expect(gateway.pushMemberRole).toHaveBeenCalledWith({
+      projectId: 'p1',
+      userId: 'nuevo',
+      role: 'EDITOR',
+    });
+  });
+
+  it('aceptar no degrada a quien ya tiene un rol mayor', async () => {
+    prisma.projectInvitation.findUnique.mockResolvedValue(
+      invitation({ role: 'VIEWER' }),
+    );
+    policy.getRole.mockResolvedValue('ADMIN');
+
+    await expect(service.accept('u2', 'tok')).resolves.toEqual({
+      projectId: 'p1',
+      role: 'ADMIN',
+    });
+    expect(prisma.projectMember.upsert).not.toHaveBeenCalled();
+  });
+
+  it('rechaza invitaciones vencidas, canceladas o ya usadas', async () => {
+    prisma.projectInvitation.findUnique.mockResolvedValue(
+      invitation({ expiresAt: new Date(Date.now() - 1000) }),
+    );
+    await expect(service.accept('u2', 'tok')).rejects.toThrow(GoneException);
+
+    prisma.projectInvitation.findUnique.mockResolvedValue(
+      invitation({ status: 'CANCELLED' }),
+    );
+    await expect(service.accept('u2', 'tok')).rejects.toThrow(GoneException);
+
+    // Carrera: otra aceptación ganó entre la lectura y el update
+    prisma.projectInvitation.findUnique.mockResolvedValue(invitation());
+    prisma.projectInvitation.updateMany.mockResolvedValue({ count: 0 });
+    await expect(service.accept('u2', 'tok')).rejects.toThrow(GoneException);
+    expect(prisma.projectMember.upsert).not.toHaveBeenCalled();
+  });
+
+  it('la vista previa pública no expone el token ni el hash', async () => {
+    prisma.projectInvitation.findUnique.mockResolvedValue(invitation());
+    const preview = await service.preview('tok');
+    expect(preview).toEqual(
+      expect.objectContaining({
+        projectName: 'Tienda',
+        email: 'ana@test.com',
+        invitedBy: 'Owner',
+        status: 'PENDING',
+      }),
+    );
+    expect(preview).not.toHaveProperty('tokenHash');
+  });
+});
@@ -0,0 +1,226 @@
+// src/projects/invitations.service.ts
+import {
+  ConflictException,
+  GoneException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { ProjectRole } from '@prisma/client';
+import { createHash, randomBytes } from 'crypto';
+import { PrismaService } from '../common/prisma.service';
+import { DiagramGateway } from '../diagram-realtime/diagram.gateway';
+import { MailerService } from '../mail/mailer.service';
+import { PolicyService } from '../policy/policy.service';
+import { highestRole } from '../policy/capabilities';
+import { ActivityService } from '../activity/activity.service';
+
+// Días que una invitación puede aceptarse
+export const INVITATION_TTL_MS =
+  Number(process.env.INVITATION_TTL_DAYS ?? 7) * 86_400_000;
+
+const hashToken = (token: string) =>
+  createHash('sha256').update(token).digest('hex');
+
+const INVITATION_SELECT = {
+  id: true,
+  projectId: true,
+  email: true,
+  role: true,
+  status: true,
+  createdAt: true,
+  expiresAt: true,
+  acceptedAt: true,
+  invitedBy: { select: { name: true, email: true } },
+} as const;
+
+/**
+ * Invitaciones por email. El token solo viaja en el mail (en BD queda su
+ * sha256); quien lo tiene puede aceptarlo con la cuenta con la que esté
+ * logueado, aunque la haya creado después de la invitación.
+ */
+@Injectable()
+export class InvitationsService {
+  constructor(
+    private prisma: PrismaService,
+    private policy: PolicyService,
+    private mailer: MailerService,
+    private gateway: DiagramGateway,
+    private activity: ActivityService,
+  ) {}
+
+  /** Vence al vuelo las pendientes viejas (no hay job para esto) */
+  private expireStale(where: { projectId?: string; id?: string }) {
+    return this.prisma.projectInvitation.updateMany({
+      where: { ...where, status: 'PENDING', expiresAt: { lte: new Date() } },
+      data: { status: 'EXPIRED' },
+    });
+  }
+
+  async invite(
+    userId: string,
+    projectId: string,
+    rawEmail: string,
+    role: ProjectRole = 'EDITOR',
+  ) {
+    await this.policy.assert(userId, projectId, 'members:manage');
+    const email = rawEmail.trim().toLowerCase();
+
+    const member = await this.prisma.projectMember.findFirst({
+      where: { projectId, user: { email } },
+      select: { id: true },
+    });
+    if (member) {
+      throw new ConflictException('Ese usuario ya es miembro del proyecto');
+    }
+
+    // Reenviar a un email ya invitado: se cancela la anterior (token nuevo)
+    await this.prisma.projectInvitation.updateMany({
+      where: { projectId, email, status: 'PENDING' },
+      data: { status: 'CANCELLED' },
+    });
+
+    const token = randomBytes(32).toString('base64url');
+    const invitation = await this.prisma.projectInvitation.create({
+      data: {
+        projectId,
+        email,
+        role,
+        tokenHash: hashToken(token),
+        invitedById: userId,
+        expiresAt: new Date(Date.now() + INVITATION_TTL_MS),
+      },
+      select: {
+        ...INVITATION_SELECT,
+        project: { select: { name: true } },
+      },
+    });
+
+    const { project, ...view } = invitation;
+    const inviter = view.invitedBy?.name || view.invitedBy?.email || 'Alguien';
+    const url = this.mailer.link(`/invite/${token}`);
+    await this.mailer.send({
+      to: email,
+      subject: `${inviter} te invitó a "${project.name}"`,
+      text:
+        `${inviter} te invitó a colaborar en el proyecto "${project.name}".\n\n` +
+        `Aceptá la invitación acá (vence el ${view.expiresAt.toISOString().slice(0, 10)}):\n${url}\n\n` +
+        'Si todavía no tenés cuenta, podés crearla desde ese mismo link.',
+    });
+
+    // Si el email ya tiene cuenta, además le llega al centro de notificaciones
+    const invitee = await this.prisma.user.findFirst({
+      where: { email: { equals: email, mode: 'insensitive' } },
+      select: { id: true },
+    });
+    if (invitee) {
+      await this.gateway.pushNotifications([
+        {
+          userId: invitee.id,
+          type: 'INVITATION',
+          projectId,
+          actorId: userId,
+          data: { invitationId: view.id, role: view.role },
+        },
+      ]);
+    }
+
+    return view;
+  }
+
+  async listPending(userId: string, projectId: string) {
+    await this.policy.assert(userId, projectId, 'members:manage');
+    await this.expireStale({ projectId });
+    return this.prisma.projectInvitation.findMany({
+      where: { projectId, status: 'PENDING' },
+      orderBy: { createdAt: 'desc' },
+      select: INVITATION_SELECT,
+    });
+  }
+
+  async cancel(userId: string, projectId: string, invitationId: string) {
+    await this.policy.assert(userId, projectId, 'members:manage');
+    const { count } = await this.prisma.projectInvitation.updateMany({
+      where: { id: invitationId, projectId, status: 'PENDING' },
+      data: { status: 'CANCELLED' },
+    });
+    if (!count) throw new NotFoundException('Invitación no encontrada');
+  }
+
+  private async findByToken(token: string) {
+    const invitation = await this.prisma.projectInvitation.findUnique({
+      where: { tokenHash: hashToken(token) },
+      select: {
+        ...INVITATION_SELECT,
+        project: { select: { name: true, deletedAt: true } },
+      },
+    });
+    if (!invitation || invitation.project.deletedAt) {
+      throw new NotFoundException('Invitación no encontrada');
+    }
+    if (invitation.status === 'PENDING' && invitation.expiresAt <= new Date()) {
+      await this.expireStale({ id: invitation.id });
+      return { ...invitation, status: 'EXPIRED' as const };
+    }
+    return invitation;
+  }
+
+  /** Vista pública para la página de aceptación (sin login) */
+  async preview(token: string) {
+    const { project, ...inv } = await this.findByToken(token);
+    return {
+      projectId: inv.projectId,
+      projectName: project.name,
+      email: inv.email,
+      role: inv.role,
+      status: inv.status,
+      expiresAt: inv.expiresAt,
+      invitedBy: inv.invitedBy?.name || inv.invitedBy?.email || null,
+    };
+  }
+
+  async accept(userId: string, token: string) {
+    const inv = await this.findByToken(token);
+    if (inv.status === 'EXPIRED') {
+      throw new GoneException('La invitación venció');
+    }
+    if (inv.status !== 'PENDING') {
+      throw new GoneException('La invitación ya no está disponible');
+    }
+
+    const current = await this.policy.getRole(userId, inv.projectId);
+    const role = highestRole(current, inv.role)!;
+
+    await this.prisma.$transaction(async (tx) => {
+      // Condicional: dos aceptaciones simultáneas no pisan el estado
+      const { count } = await tx.projectInvitation.updateMany({
+        where: { id: inv.id, status: 'PENDING' },
+        data: {
+          status: 'ACCEPTED',
+          acceptedAt: new Date(),
+          acceptedById: userId,
+        },
+      });
+      if (!count) throw new GoneException('La invitación ya fue usada');
+      if (role !== current) {
+        await tx.projectMember.upsert({
+          where: { projectId_userId: { projectId: inv.projectId, userId } },
+          create: { projectId: inv.projectId, userId, role },
+          update: { role },
+        });
+      }
+    });
+
+    if (role !== current) {
+      this.gateway.pushMemberRole({ projectId: inv.projectId, userId, role });
+    }
+    await this.activity.record({
+      projectId: inv.projectId,
+      actorId: userId,
+      action: 'MEMBER_JOINED',
+      targetType: 'user',
+      targetId: userId,
+      metadata: { role, invitationId: inv.id },
+    });
+    return { projectId: inv.projectId, role };
+  }
+}
@@ -0,0 +1,58 @@
+// src/projects/members.controller.ts
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import { JwtAuthGuard } from '../auth/jwt.guard';
+import { RequireCapability } from '../policy/require-capability.decorator';
+import { MembersService } from './members.service';
+import { UpdateMemberDto } from './dto/update-member.dto';
+
+@UseGuards(JwtAuthGuard)
+@Controller('projects/:projectId/members')
+export class MembersController {
+  constructor(private readonly members: MembersService) {}
+
+  // GET /api/projects/:projectId/members
+  @Get()
+  @RequireCapability('project:view')
+  async list(@Req() req: any, @Param('projectId') projectId: string) {
+    const userId: string = req.user.id;
+    return this.members.list(userId, projectId);
+  }
+
+  // PATCH /api/projects/:projectId/members/:userId  { role }
+  @Patch(':userId')
+  @RequireCapability('members:manage')
+  async update(
+    @Req() req: any,
+    @Param('projectId') projectId: string,
+    @Param('userId') targetId: string,
+    @Body() dto: UpdateMemberDto,
+  ) {
+    const userId: string = req.user.id;
+    return this.members.updateRole(userId, projectId, targetId, dto.role);
+  }
+
+  // DELETE /api/projects/:projectId/members/:userId  (o salir uno mismo)
+  @Delete(':userId')
+  @RequireCapability('project:view')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async remove(
+    @Req() req: any,
+    @Param('projectId') projectId: string,
+    @Param('userId') targetId: string,
+  ) {
+    const userId: string = req.user.id;
+    await this.members.remove(userId, projectId, targetId);
+    return;
+  }
+}
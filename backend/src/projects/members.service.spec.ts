@@ -0,0 +1,136 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ForbiddenException } from '@nestjs/common';
+import { ProjectRole } from '@prisma/client';
+import { MembersService } from './members.service';
+import { PolicyService } from '../policy/policy.service';
+import { ActivityService } from '../activity/activity.service';
+import { Capability, can } from '../policy/capabilities';
+import { PrismaService } from '../common/prisma.service';
+import { DiagramGateway } from '../diagram-realtime/diagram.gateway';
+
+describe('MembersService', () => {
+  let service: MembersService;
+  const prisma = {
+    project: { findUnique: jest.fn() },
+    projectMember: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+    },
+  };
+  const policy = { assert: jest.fn(), getRole: jest.fn() };
+  const activity = { record: jest.fn() };
+  // El actor tiene `role`: assert se comporta como PolicyService
+  const actingAs = (role: ProjectRole) =>
+    policy.assert.mockImplementation(
+      (_u: string, _p: string, capability: Capability) => {
+        if (!can(role, capability)) throw new ForbiddenException();
+        return Promise.resolve(role);
+      },
+    );
+  const gateway = { pushMemberRole: jest.fn() };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MembersService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: PolicyService, useValue: policy },
+        { provide: DiagramGateway, useValue: gateway },
+        { provide: ActivityService, useValue: activity },
+      ],
+    }).compile();
+
+    service = module.get<MembersService>(MembersService);
+    prisma.project.findUnique.mockResolvedValue({ ownerId: 'owner' });
+  });
+
+  it('un ADMIN degrada a un editor y se avisa en vivo', async () => {
+    actingAs('ADMIN');
+    prisma.projectMember.findUnique.mockResolvedValue({
+      id: 'm1',
+      role: 'EDITOR',
+    });
+    prisma.projectMember.update.mockResolvedValue({
+      userId: 'u2',
+      role: 'VIEWER',
+    });
+    policy.getRole.mockResolvedValue('VIEWER');
+
+    await service.updateRole('admin', 'p1', 'u2', 'VIEWER');
+
+    expect(prisma.projectMember.update).toHaveBeenCalledWith(
+      expect.objectContaining({ data: { role: 'VIEWER' } }),
+    );
+    expect(gateway.pushMemberRole).toHaveBeenCalledWith({
+      projectId: 'p1',
+      userId: 'u2',
+      role: 'VIEWER',
+    });
+    expect(activity.record).toHaveBeenCalledWith({
+      projectId: 'p1',
+      actorId: 'admin',
+      action: 'MEMBER_ROLE_CHANGED',
+      targetType: 'user',
+      targetId: 'u2',
+      metadata: { from: 'EDITOR', to: 'VIEWER' },
+    });
+  });
+
+  it('nadie puede modificar ni quitar al owner', async () => {
+    actingAs('ADMIN');
+    prisma.projectMember.findUnique.mockResolvedValue({
+      id: 'm0',
+      role: 'OWNER',
+    });
+
+    await expect(
+      service.updateRole('admin', 'p1', 'owner', 'VIEWER'),
+    ).rejects.toBeInstanceOf(ForbiddenException);
+    await expect(service.remove('admin', 'p1', 'owner')).rejects.toBeInstanceOf(
+      ForbiddenException,
+    );
+    expect(gateway.pushMemberRole).not.toHaveBeenCalled();
+  });
+
+  it('un EDITOR no gestiona miembros, pero puede salir del proyecto', async () => {
+    actingAs('EDITOR');
+    prisma.projectMember.findUnique.mockResolvedValue({
+      id: 'm2',
+      role: 'EDITOR',
+    });
+
+    await expect(service.remove('u2', 'p1', 'u3')).rejects.toBeInstanceOf(
+      ForbiddenException,
+    );
+
+    policy.getRole.mockResolvedValue(null);
+    await service.remove('u2', 'p1', 'u2');
+    expect(prisma.projectMember.delete).toHaveBeenCalledTimes(1);
+    expect(gateway.pushMemberRole).toHaveBeenCalledWith({
+      projectId: 'p1',
+      userId: 'u2',
+      role: null,
+    });
+  });
+
+  it('al quitarlo, un miembro del workspace sigue con el rol heredado', async () => {
+    actingAs('ADMIN');
+    prisma.projectMember.findUnique.mockResolvedValue({
+      id: 'm3',
+      role: 'ADMIN',
+    });
+    policy.getRole.mockResolvedValue('EDITOR');
+
+    await service.remove('admin', 'p1', 'u3');
+
+    expect(policy.getRole).toHaveBeenCalledWith('u3', 'p1');
+    expect(gateway.pushMemberRole).toHaveBeenCalledWith({
+      projectId: 'p1',
+      userId: 'u3',
+      role: 'EDITOR',
+    });
+  });
+});
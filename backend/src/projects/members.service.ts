@@ -0,0 +1,147 @@
+// src/projects/members.service.ts
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { ProjectRole } from '@prisma/client';
+import { PrismaService } from '../common/prisma.service';
+import { DiagramGateway } from '../diagram-realtime/diagram.gateway';
+import { PolicyService } from '../policy/policy.service';
+import { ActivityService } from '../activity/activity.service';
+
+const ROLE_ORDER: Record<ProjectRole, number> = {
+  OWNER: 0,
+  ADMIN: 1,
+  EDITOR: 2,
+  VIEWER: 3,
+};
+
+/**
+ * Miembros de un proyecto. Cualquier miembro puede listar; quien tenga
+ * `members:manage` (OWNER y ADMIN) administra a los demás (el owner no se toca). Cada cambio se empuja en
+ * vivo a los sockets conectados vía DiagramGateway.pushMemberRole.
+ */
+@Injectable()
+export class MembersService {
+  constructor(
+    private prisma: PrismaService,
+    private policy: PolicyService,
+    private gateway: DiagramGateway,
+    private activity: ActivityService,
+  ) {}
+
+  private async assertManager(actorId: string, projectId: string) {
+    await this.policy.assert(actorId, projectId, 'members:manage');
+  }
+
+  /** Membresía del objetivo; el owner del proyecto no se puede modificar */
+  private async getTarget(projectId: string, userId: string) {
+    const [project, member] = await Promise.all([
+      this.prisma.project.findUnique({
+        where: { id: projectId },
+        select: { ownerId: true },
+      }),
+      this.prisma.projectMember.findUnique({
+        where: { projectId_userId: { projectId, userId } },
+        select: { id: true, role: true },
+      }),
+    ]);
+    if (!member) throw new NotFoundException('Miembro no encontrado');
+    if (project?.ownerId === userId || member.role === 'OWNER') {
+      throw new ForbiddenException(
+        'No se puede modificar al owner del proyecto',
+      );
+    }
+    return member;
+  }
+
+  async list(userId: string, projectId: string) {
+    await this.policy.assert(userId, projectId, 'project:view');
+
+    const members = await this.prisma.projectMember.findMany({
+      where: { projectId },
+      select: {
+        role: true,
+        createdAt: true,
+        user: { select: { id: true, name: true, email: true } },
+      },
+    });
+
+    return members
+      .map((m) => ({
+        userId: m.user.id,
+        name: m.user.name,
+        email: m.user.email,
+        role: m.role,
+        joinedAt: m.createdAt,
+      }))
+      .sort(
+        (a, b) =>
+          ROLE_ORDER[a.role] - ROLE_ORDER[b.role] ||
+          a.joinedAt.getTime() - b.joinedAt.getTime(),
+      );
+  }
+
+  async updateRole(
+    actorId: string,
+    projectId: string,
+    userId: string,
+    role: ProjectRole,
+  ) {
+    await this.assertManager(actorId, projectId);
+    if (actorId === userId) {
+      throw new BadRequestException('No podés cambiar tu propio rol');
+    }
+    const target = await this.getTarget(projectId, userId);
+
+    const updated = await this.prisma.projectMember.update({
+      where: { projectId_userId: { projectId, userId } },
+      data: { role },
+      select: { userId: true, role: true },
+    });
+
+    // Rol efectivo: un miembro del workspace puede conservar más acceso
+    this.gateway.pushMemberRole({
+      projectId,
+      userId,
+      role: await this.policy.getRole(userId, projectId),
+    });
+    await this.activity.record({
+      projectId,
+      actorId,
+      action: 'MEMBER_ROLE_CHANGED',
+      targetType: 'user',
+      targetId: userId,
+      metadata: { from: target.role, to: updated.role },
+    });
+    return updated;
+  }
+
+  /** Quitar a un miembro; cualquiera (menos el owner) puede salir por sí mismo */
+  async remove(actorId: string, projectId: string, userId: string) {
+    if (actorId !== userId) await this.assertManager(actorId, projectId);
+    const target = await this.getTarget(projectId, userId);
+
+    await this.prisma.projectMember.delete({
+      where: { projectId_userId: { projectId, userId } },
+    });
+
+    // Si el workspace le da acceso, sigue en la sala con ese rol
+    this.gateway.pushMemberRole({
+      projectId,
+      userId,
+      role: await this.policy.getRole(userId, projectId),
+    });
+    await this.activity.record({
+      projectId,
+      actorId,
+      action: 'MEMBER_REMOVED',
+      targetType: 'user',
+      targetId: userId,
+      metadata: { role: target.role, left: actorId === userId },
+    });
+    return true;
+  }
+}
@@ -0,0 +1,80 @@
+// src/projects/ownership.controller.ts
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Post,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import { JwtAuthGuard } from '../auth/jwt.guard';
+import { RequireCapability } from '../policy/require-capability.decorator';
+import { OwnershipService } from './ownership.service';
+import { TransferOwnershipDto } from './dto/transfer-ownership.dto';
+
+@UseGuards(JwtAuthGuard)
+@Controller()
+export class OwnershipController {
+  constructor(private readonly ownership: OwnershipService) {}
+
+  // POST /api/projects/:projectId/transfer  { userId }  (el owner ofrece)
+  @Post('projects/:projectId/transfer')
+  @RequireCapability('project:transfer')
+  async initiate(
+    @Req() req: any,
+    @Param('projectId') projectId: string,
+    @Body() dto: TransferOwnershipDto,
+  ) {
+    const userId: string = req.user.id;
+    return this.ownership.initiate(userId, projectId, dto.userId);
+  }
+
+  // GET /api/projects/:projectId/transfer  (pendiente o null)
+  @Get('projects/:projectId/transfer')
+  @RequireCapability('project:view')
+  async pending(@Req() req: any, @Param('projectId') projectId: string) {
+    const userId: string = req.user.id;
+    return this.ownership.getPending(userId, projectId);
+  }
+
+  // DELETE /api/projects/:projectId/transfer  (el owner la retira)
+  @Delete('projects/:projectId/transfer')
+  @RequireCapability('project:transfer')
+  async cancel(@Req() req: any, @Param('projectId') projectId: string) {
+    const userId: string = req.user.id;
+    return this.ownership.cancel(userId, projectId);
+  }
+
+  // POST /api/projects/:projectId/transfer/:transferId/accept
+  @Post('projects/:projectId/transfer/:transferId/accept')
+  @RequireCapability('project:view')
+  async accept(
+    @Req() req: any,
+    @Param('projectId') projectId: string,
+    @Param('transferId') transferId: string,
+  ) {
+    const userId: string = req.user.id;
+    return this.ownership.accept(userId, projectId, transferId);
+  }
+
+  // POST /api/projects/:projectId/transfer/:transferId/decline
+  @Post('projects/:projectId/transfer/:transferId/decline')
+  @RequireCapability('project:view')
+  async decline(
+    @Req() req: any,
+    @Param('projectId') projectId: string,
+    @Param('transferId') transferId: string,
+  ) {
+    const userId: string = req.user.id;
+    return this.ownership.decline(userId, projectId, transferId);
+  }
+
+  // GET /api/ownership-transfers/incoming  (ofertas que recibí)
+  @Get('ownership-transfers/incoming')
+  async incoming(@Req() req: any) {
+    const userId: string = req.user.id;
+    return this.ownership.listIncoming(userId);
+  }
+}
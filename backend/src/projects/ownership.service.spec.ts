@@ -0,0 +1,220 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadRequestException,
+  ForbiddenException,
+  GoneException,
+} from '@nestjs/common';
+import { OwnershipService } from './ownership.service';
+import { PrismaService } from '../common/prisma.service';
+import { PolicyService } from '../policy/policy.service';
+import { ActivityService } from '../activity/activity.service';
+import { DiagramGateway } from '../diagram-realtime/diagram.gateway';
+
+describe('OwnershipService', () => {
+  let service: OwnershipService;
+  const prisma = {
+    project: {
+      findUnique: jest.fn(),
+      findUniqueOrThrow: jest.fn(),
+      update: jest.fn(),
+    },
+    projectMember: {
+      findUnique: jest.fn(),
+      update: jest.fn(),
+      upsert: jest.fn(),
+    },
+    ownershipTransfer: {
+      create: jest.fn(),
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+      findUniqueOrThrow: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  };
+  const policy = { assert: jest.fn(), getRole: jest.fn() };
+  const activity = { record: jest.fn() };
+  const gateway = {
+    pushMemberRole: jest.fn(),
+    notifyOwnershipTransfer: jest.fn(),
+  };
+
+  const row = (over: Record<string, unknown> = {}) => ({
+    id: 't1',
+    projectId: 'p1',
+    fromUserId: 'owner',
+    toUserId: 'u2',
+    status: 'PENDING',
+    createdAt: new Date(),
+    decidedAt: null,
+    fromUser: { name: 'Olga', email: 'olga@test.com' },
+    toUser: { name: '', email: 'ana@test.com' },
+    project: { name: 'Tienda' },
+    ...over,
+  });
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        OwnershipService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: PolicyService, useValue: policy },
+        { provide: DiagramGateway, useValue: gateway },
+        { provide: ActivityService, useValue: activity },
+      ],
+    }).compile();
+
+    service = module.get<OwnershipService>(OwnershipService);
+    prisma.project.findUniqueOrThrow.mockResolvedValue({ ownerId: 'owner' });
+    policy.assert.mockResolvedValue('OWNER');
+    prisma.ownershipTransfer.updateMany.mockResolvedValue({ count: 1 });
+    prisma.$transaction.mockImplementation((fn: (tx: unknown) => unknown) =>
+      fn(prisma),
+    );
+  });
+
+  describe('initiate', () => {
+    it('ofrece la propiedad a un miembro y le avisa', async () => {
+      prisma.projectMember.findUnique.mockResolvedValue({ id: 'm2' });
+      prisma.ownershipTransfer.create.mockResolvedValue(row());
+
+      const view = await service.initiate('owner', 'p1', 'u2');
+
+      expect(policy.assert).toHaveBeenCalledWith(
+        'owner',
+        'p1',
+        'project:transfer',
+      );
+      // Reemplaza cualquier oferta anterior
+      expect(prisma.ownershipTransfer.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { projectId: 'p1', status: 'PENDING' },
+        }),
+      );
+      expect(view).toMatchObject({
+        projectName: 'Tienda',
+        fromUserName: 'Olga',
+        toUserName: 'ana@test.com',
+      });
+      expect(gateway.notifyOwnershipTransfer).toHaveBeenCalledWith(
+        'ownershipTransferRequested',
+        view,
+      );
+    });
+
+    it('solo a miembros y no a uno mismo', async () => {
+      await expect(service.initiate('owner', 'p1', 'owner')).rejects.toThrow(
+        BadRequestException,
+      );
+      prisma.projectMember.findUnique.mockResolvedValue(null);
+      await expect(service.initiate('owner', 'p1', 'x')).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(prisma.ownershipTransfer.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('accept', () => {
+    beforeEach(() => {
+      prisma.ownershipTransfer.findFirst.mockResolvedValue(row());
+      prisma.project.findUnique.mockResolvedValue({
+        ownerId: 'owner',
+        deletedAt: null,
+      });
+      prisma.projectMember.findUnique.mockResolvedValue({ role: 'EDITOR' });
+      policy.getRole.mockResolvedValue('EDITOR');
+      prisma.ownershipTransfer.findUniqueOrThrow.mockResolvedValue(
+        row({ status: 'ACCEPTED' }),
+      );
+    });
+
+    it('cambia ownerId, intercambia roles y avisa en vivo', async () => {
+      await service.accept('u2', 'p1', 't1');
+
+      expect(prisma.project.update).toHaveBeenCalledWith({
+        where: { id: 'p1' },
+        data: { ownerId: 'u2' },
+      });
+      expect(prisma.projectMember.update).toHaveBeenCalledWith({
+        where: { projectId_userId: { projectId: 'p1', userId: 'u2' } },
+        data: { role: 'OWNER' },
+      });
+      expect(prisma.projectMember.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({ update: { role: 'EDITOR' } }),
+      );
+      expect(gateway.pushMemberRole).toHaveBeenCalledWith({
+        projectId: 'p1',
+        userId: 'u2',
+        role: 'OWNER',
+      });
+      expect(gateway.pushMemberRole).toHaveBeenCalledWith({
+        projectId: 'p1',
+        userId: 'owner',
+        role: 'EDITOR',
+      });
+      expect(gateway.notifyOwnershipTransfer).toHaveBeenCalledWith(
+        'ownershipTransferred',
+        expect.objectContaining({ status: 'ACCEPTED' }),
+      );
+    });
+
+    it('al owner anterior le llega su rol efectivo (admin del workspace)', async () => {
+      policy.getRole.mockResolvedValue('ADMIN');
+      await service.accept('u2', 'p1', 't1');
+
+      expect(policy.getRole).toHaveBeenCalledWith('owner', 'p1');
+      expect(gateway.pushMemberRole).toHaveBeenCalledWith({
+        projectId: 'p1',
+        userId: 'owner',
+        role: 'ADMIN',
+      });
+    });
+
+    it('solo la acepta el destinatario', async () => {
+      await expect(service.accept('otro', 'p1', 't1')).rejects.toThrow(
+        ForbiddenException,
+      );
+      expect(prisma.project.update).not.toHaveBeenCalled();
+    });
+
+    it('la invalida si el proyecto ya cambió de manos', async () => {
+      prisma.project.findUnique.mockResolvedValue({
+        ownerId: 'alguien',
+        deletedAt: null,
+      });
+      prisma.ownershipTransfer.update.mockResolvedValue(
+        row({ status: 'CANCELLED' }),
+      );
+
+      await expect(service.accept('u2', 'p1', 't1')).rejects.toThrow(
+        GoneException,
+      );
+      expect(prisma.project.update).not.toHaveBeenCalled();
+    });
+
+    it('no se acepta dos veces', async () => {
+      prisma.ownershipTransfer.updateMany.mockResolvedValue({ count: 0 });
+      await expect(service.accept('u2', 'p1', 't1')).rejects.toThrow(
+        GoneException,
+      );
+      expect(prisma.project.update).not.toHaveBeenCalled();
+      expect(gateway.pushMemberRole).not.toHaveBeenCalled();
+    });
+  });
+
+  it('el destinatario puede rechazarla y se le avisa al owner', async () => {
+    prisma.ownershipTransfer.findFirst.mockResolvedValue(row());
+    prisma.ownershipTransfer.update.mockResolvedValue(
+      row({ status: 'DECLINED' }),
+    );
+
+    await service.decline('u2', 'p1', 't1');
+
+    expect(gateway.notifyOwnershipTransfer).toHaveBeenCalledWith(
+      'ownershipTransferUpdated',
+      expect.objectContaining({ status: 'DECLINED' }),
+    );
+  });
+});
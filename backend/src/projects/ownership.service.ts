@@ -0,0 +1,267 @@
+// src/projects/ownership.service.ts
+import {
+  BadRequestException,
+  ForbiddenException,
+  GoneException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { ProjectRole } from '@prisma/client';
+import { PrismaService } from '../common/prisma.service';
+import { DiagramGateway } from '../diagram-realtime/diagram.gateway';
+import type { OwnershipTransferNotice } from '../diagram-realtime/dto/events';
+import { PolicyService } from '../policy/policy.service';
+import { ActivityService } from '../activity/activity.service';
+
+const USER_SELECT = { select: { id: true, name: true, email: true } } as const;
+
+const TRANSFER_SELECT = {
+  id: true,
+  projectId: true,
+  fromUserId: true,
+  toUserId: true,
+  status: true,
+  createdAt: true,
+  decidedAt: true,
+  fromUser: USER_SELECT,
+  toUser: USER_SELECT,
+  project: { select: { name: true } },
+} as const;
+
+type TransferRow = {
+  id: string;
+  projectId: string;
+  fromUserId: string;
+  toUserId: string;
+  status: OwnershipTransferNotice['status'];
+  createdAt: Date;
+  decidedAt: Date | null;
+  fromUser: { name: string; email: string };
+  toUser: { name: string; email: string };
+  project: { name: string };
+};
+
+export function toTransferView({
+  fromUser,
+  toUser,
+  project,
+  ...t
+}: TransferRow): OwnershipTransferNotice {
+  return {
+    ...t,
+    projectName: project.name,
+    fromUserName: fromUser.name || fromUser.email,
+    toUserName: toUser.name || toUser.email,
+  };
+}
+
+/**
+ * Transferencia de propiedad en dos pasos: el owner la ofrece a un miembro
+ * y ese miembro la acepta (o la rechaza). Al aceptar se cambia
+ * `Project.ownerId` y se intercambian los roles de ambos en ProjectMember.
+ * Hay a lo sumo una pendiente por proyecto.
+ */
+@Injectable()
+export class OwnershipService {
+  constructor(
+    private prisma: PrismaService,
+    private policy: PolicyService,
+    private gateway: DiagramGateway,
+    private activity: ActivityService,
+  ) {}
+
+  async initiate(userId: string, projectId: string, toUserId: string) {
+    await this.policy.assert(userId, projectId, 'project:transfer');
+    // Un admin del workspace también puede iniciarla: cede el owner actual
+    const [project, target] = await Promise.all([
+      this.prisma.project.findUniqueOrThrow({
+        where: { id: projectId },
+        select: { ownerId: true },
+      }),
+      this.prisma.projectMember.findUnique({
+        where: { projectId_userId: { projectId, userId: toUserId } },
+        select: { id: true },
+      }),
+    ]);
+    if (toUserId === project.ownerId) {
+      throw new BadRequestException('Ese usuario ya es el owner del proyecto');
+    }
+    if (!target) {
+      throw new BadRequestException(
+        'Solo se puede transferir a un miembro del proyecto',
+      );
+    }
+
+    // Una nueva oferta reemplaza a la anterior
+    await this.prisma.ownershipTransfer.updateMany({
+      where: { projectId, status: 'PENDING' },
+      data: { status: 'CANCELLED', decidedAt: new Date() },
+    });
+    const transfer = toTransferView(
+      await this.prisma.ownershipTransfer.create({
+        data: { projectId, fromUserId: project.ownerId, toUserId },
+        select: TRANSFER_SELECT,
+      }),
+    );
+
+    this.gateway.notifyOwnershipTransfer(
+      'ownershipTransferRequested',
+      transfer,
+    );
+    return transfer;
+  }
+
+  /** Pendiente del proyecto (o null); la ven todos los miembros */
+  async getPending(userId: string, projectId: string) {
+    await this.policy.assert(userId, projectId, 'project:view');
+    const transfer = await this.prisma.ownershipTransfer.findFirst({
+      where: { projectId, status: 'PENDING' },
+      select: TRANSFER_SELECT,
+    });
+    return transfer ? toTransferView(transfer) : null;
+  }
+
+  /** Ofertas que recibió el usuario (proyectos fuera de la papelera) */
+  async listIncoming(userId: string) {
+    const rows = await this.prisma.ownershipTransfer.findMany({
+      where: {
+        toUserId: userId,
+        status: 'PENDING',
+        project: { deletedAt: null },
+      },
+      orderBy: { createdAt: 'desc' },
+      select: TRANSFER_SELECT,
+    });
+    return rows.map(toTransferView);
+  }
+
+  async cancel(userId: string, projectId: string) {
+    await this.policy.assert(userId, projectId, 'project:transfer');
+    const transfer = await this.prisma.ownershipTransfer.findFirst({
+      where: { projectId, status: 'PENDING' },
+      select: { id: true },
+    });
+    if (!transfer)
+      throw new NotFoundException('No hay transferencia pendiente');
+    return this.close(transfer.id, 'CANCELLED');
+  }
+
+  async decline(userId: string, projectId: string, transferId: string) {
+    await this.getOwnPending(userId, projectId, transferId);
+    return this.close(transferId, 'DECLINED');
+  }
+
+  async accept(userId: string, projectId: string, transferId: string) {
+    const transfer = await this.getOwnPending(userId, projectId, transferId);
+
+    const [project, recipient] = await Promise.all([
+      this.prisma.project.findUnique({
+        where: { id: projectId },
+        select: { ownerId: true, deletedAt: true },
+      }),
+      this.prisma.projectMember.findUnique({
+        where: { projectId_userId: { projectId, userId } },
+        select: { role: true },
+      }),
+    ]);
+    if (!project || project.deletedAt) {
+      throw new NotFoundException('Proyecto no encontrado');
+    }
+    // La oferta quedó vieja: el proyecto cambió de manos o ya no es miembro
+    if (project.ownerId !== transfer.fromUserId || !recipient) {
+      await this.close(transferId, 'CANCELLED', false);
+      throw new GoneException('La transferencia ya no es válida');
+    }
+    // El owner saliente se queda con el rol que tenía quien lo recibe
+    const previousRole: ProjectRole =
+      recipient.role === 'OWNER' ? 'ADMIN' : recipient.role;
+
+    const accepted = await this.prisma.$transaction(async (tx) => {
+      const { count } = await tx.ownershipTransfer.updateMany({
+        where: { id: transferId, status: 'PENDING' },
+        data: { status: 'ACCEPTED', decidedAt: new Date() },
+      });
+      if (!count) throw new GoneException('La transferencia ya fue resuelta');
+
+      await tx.project.update({
+        where: { id: projectId },
+        data: { ownerId: userId },
+      });
+      await tx.projectMember.update({
+        where: { projectId_userId: { projectId, userId } },
+        data: { role: 'OWNER' },
+      });
+      await tx.projectMember.upsert({
+        where: {
+          projectId_userId: { projectId, userId: transfer.fromUserId },
+        },
+        create: { projectId, userId: transfer.fromUserId, role: previousRole },
+        update: { role: previousRole },
+      });
+      return tx.ownershipTransfer.findUniqueOrThrow({
+        where: { id: transferId },
+        select: TRANSFER_SELECT,
+      });
+    });
+
+    const view = toTransferView(accepted);
+    this.gateway.pushMemberRole({ projectId, userId, role: 'OWNER' });
+    // El owner anterior puede tener más que previousRole por el workspace
+    this.gateway.pushMemberRole({
+      projectId,
+      userId: view.fromUserId,
+      role: await this.policy.getRole(view.fromUserId, projectId),
+    });
+    this.gateway.notifyOwnershipTransfer('ownershipTransferred', view);
+    await this.activity.record({
+      projectId,
+      actorId: userId,
+      action: 'OWNERSHIP_TRANSFERRED',
+      targetType: 'user',
+      targetId: view.fromUserId,
+      metadata: { transferId: view.id, previousOwnerRole: previousRole },
+    });
+    return view;
+  }
+
+  /** Pendiente dirigida a este usuario (solo el destinatario la resuelve) */
+  private async getOwnPending(
+    userId: string,
+    projectId: string,
+    transferId: string,
+  ) {
+    const transfer = await this.prisma.ownershipTransfer.findFirst({
+      where: { id: transferId, projectId },
+      select: { status: true, fromUserId: true, toUserId: true },
+    });
+    if (!transfer) throw new NotFoundException('Transferencia no encontrada');
+    if (transfer.toUserId !== userId) {
+      throw new ForbiddenException('Esta transferencia no es para vos');
+    }
+    if (transfer.status !== 'PENDING') {
+      throw new GoneException('La transferencia ya fue resuelta');
+    }
+    return transfer;
+  }
+
+  private async close(
+    transferId: string,
+    status: 'DECLINED' | 'CANCELLED',
+    notify = true,
+  ) {
+    const transfer = toTransferView(
+      await this.prisma.ownershipTransfer.update({
+        where: { id: transferId },
+        data: { status, decidedAt: new Date() },
+        select: TRANSFER_SELECT,
+      }),
+    );
+    if (notify) {
+      this.gateway.notifyOwnershipTransfer(
+        'ownershipTransferUpdated',
+        transfer,
+      );
+    }
+    return transfer;
+  }
+}
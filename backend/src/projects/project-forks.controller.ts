@@ -0,0 +1,54 @@
+// src/projects/project-forks.controller.ts
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  Post,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import { JwtAuthGuard } from '../auth/jwt.guard';
+import { RequireCapability } from '../policy/require-capability.decorator';
+import { ProjectForksService } from './project-forks.service';
+import { ForkProjectDto } from './dto/fork-project.dto';
+import { MergeForkDto } from './dto/merge-fork.dto';
+
+@UseGuards(JwtAuthGuard)
+@Controller('projects/:projectId')
+export class ProjectForksController {
+  constructor(private readonly forks: ProjectForksService) {}
+
+  // POST /api/projects/:projectId/fork  { name?, versionId? }
+  @Post('fork')
+  @RequireCapability('project:view')
+  async fork(
+    @Req() req: any,
+    @Param('projectId') projectId: string,
+    @Body() dto: ForkProjectDto,
+  ) {
+    const userId: string = req.user.id;
+    return this.forks.fork(userId, projectId, dto);
+  }
+
+  // GET /api/projects/:projectId/forks
+  @Get('forks')
+  @RequireCapability('project:view')
+  async list(@Req() req: any, @Param('projectId') projectId: string) {
+    const userId: string = req.user.id;
+    return this.forks.listForks(userId, projectId);
+  }
+
+  // POST /api/projects/:projectId/merge  (projectId = fork) { resolutions?, dryRun? }
+  // El permiso de edición sobre el original lo valida el service
+  @Post('merge')
+  @RequireCapability('project:view')
+  async merge(
+    @Req() req: any,
+    @Param('projectId') projectId: string,
+    @Body() dto: MergeForkDto,
+  ) {
+    const userId: string = req.user.id;
+    return this.forks.merge(userId, projectId, dto);
+  }
+}
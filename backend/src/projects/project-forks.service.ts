@@ -0,0 +1,171 @@
+// src/projects/project-forks.service.ts
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../common/prisma.service';
+import { DiagramsService } from '../diagrams/diagrams.service';
+import { DiagramVersionsService } from '../diagrams/diagram-versions.service';
+import { mergeSnapshots } from '../diagrams/diagram-merge';
+import { ForkProjectDto } from './dto/fork-project.dto';
+import { MergeForkDto } from './dto/merge-fork.dto';
+import { ActivityService } from '../activity/activity.service';
+import { DiagramGateway } from '../diagram-realtime/diagram.gateway';
+import { PROJECT_SETTINGS_SELECT } from './projects.service';
+
+type Snapshot = { nodes: any[]; edges: any[] };
+
+/**
+ * Forks: copia independiente del diagrama (desde el estado actual o una
+ * versión) para rediseñar sin tocar la sala en vivo, y merge de 3 vías de
+ * vuelta al proyecto original.
+ */
+@Injectable()
+export class ProjectForksService {
+  constructor(
+    private prisma: PrismaService,
+    private diagrams: DiagramsService,
+    private versions: DiagramVersionsService,
+    private activity: ActivityService,
+    private gateway: DiagramGateway,
+  ) {}
+
+  /* =========================================================
+   * Crear fork (cualquier miembro; el fork es del que lo crea)
+   * =======================================================*/
+
+  async fork(userId: string, projectId: string, dto: ForkProjectDto) {
+    await this.diagrams.assertProjectAccess(userId, projectId);
+    const parent = await this.prisma.project.findUnique({
+      where: { id: projectId },
+      select: {
+        name: true,
+        description: true,
+        settings: { select: PROJECT_SETTINGS_SELECT },
+      },
+    });
+    if (!parent) throw new NotFoundException('Proyecto no encontrado');
+
+    if (!dto.versionId) await this.gateway.flushRoom(projectId);
+    const snapshot = (await this.versions.resolveSnapshot(
+      projectId,
+      dto.versionId ?? 'current',
+    )) as Prisma.InputJsonValue;
+
+    const project = await this.prisma.project.create({
+      data: {
+        name: dto.name?.trim() || `${parent.name} (fork)`,
+        description: parent.description,
+        ownerId: userId,
+        members: { create: { userId, role: 'OWNER' } },
+        diagram: { create: { snapshot } },
+        // El fork genera el mismo código que el original
+        ...(parent.settings && { settings: { create: parent.settings } }),
+        forkedFromId: projectId,
+        forkedFromVersionId: dto.versionId ?? null,
+        forkBase: snapshot,
+        forkedAt: new Date(),
+      },
+      select: {
+        id: true,
+        name: true,
+        description: true,
+        forkedFromId: true,
+        forkedFromVersionId: true,
+        createdAt: true,
+        updatedAt: true,
+      },
+    });
+
+    await this.activity.record({
+      projectId: project.id,
+      actorId: userId,
+      action: 'PROJECT_CREATED',
+      metadata: { name: project.name, forkedFromId: projectId },
+    });
+    return { ...project, role: 'OWNER' as const };
+  }
+
+  /** Forks de un proyecto a los que el usuario tiene acceso */
+  async listForks(userId: string, projectId: string) {
+    await this.diagrams.assertProjectAccess(userId, projectId);
+    return this.prisma.project.findMany({
+      where: {
+        forkedFromId: projectId,
+        OR: [{ ownerId: userId }, { members: { some: { userId } } }],
+      },
+      select: {
+        id: true,
+        name: true,
+        forkedFromVersionId: true,
+        forkedAt: true,
+        updatedAt: true,
+        owner: { select: { id: true, name: true, email: true } },
+      },
+      orderBy: { forkedAt: 'desc' },
+    });
+  }
+
+  /* =========================================================
+   * Merge de 3 vías: fork → original
+   * Con dryRun (o con conflictos sin resolver) no se toca nada.
+   * =======================================================*/
+
+  async merge(userId: string, forkId: string, dto: MergeForkDto) {
+    await this.diagrams.assertProjectAccess(userId, forkId);
+    const fork = await this.prisma.project.findUnique({
+      where: { id: forkId },
+      select: { name: true, forkedFromId: true, forkBase: true },
+    });
+    if (!fork) throw new NotFoundException('Proyecto no encontrado');
+    if (!fork.forkedFromId) {
+      throw new BadRequestException(
+        'El proyecto no es un fork o su original fue eliminado',
+      );
+    }
+    const upstreamId = fork.forkedFromId;
+    await this.diagrams.assertCanEdit(userId, upstreamId);
+
+    // Lo pendiente de guardar en las salas entra al merge y al respaldo
+    await Promise.all([
+      this.gateway.flushRoom(upstreamId),
+      this.gateway.flushRoom(forkId),
+    ]);
+    const [upstream, forkSnap] = await Promise.all([
+      this.versions.resolveSnapshot(upstreamId),
+      this.versions.resolveSnapshot(forkId),
+    ]);
+    const base = (fork.forkBase as Snapshot | null) ?? { nodes: [], edges: [] };
+    const result = mergeSnapshots(
+      base,
+      upstream,
+      forkSnap,
+      dto.resolutions ?? {},
+    );
+
+    if (dto.dryRun) return { upstreamId, applied: false, ...result };
+    if (result.conflicts.length) {
+      throw new ConflictException({
+        message: 'Hay conflictos sin resolver',
+        conflicts: result.conflicts,
+      });
+    }
+
+    const backup = await this.versions.replaceCurrent(
+      userId,
+      upstreamId,
+      result.snapshot,
+      `Antes de fusionar ${fork.name}`,
+    );
+    // Lo fusionado del fork pasa a ser el nuevo ancestro común
+    await this.prisma.project.update({
+      where: { id: forkId },
+      data: { forkBase: forkSnap as Prisma.InputJsonValue },
+    });
+
+    return { upstreamId, applied: true, ...result, backup };
+  }
+}
@@ -0,0 +1,34 @@
+// src/projects/project-trash.scheduler.ts
+import { Injectable, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { ProjectsService } from './projects.service';
+
+// Cada cuánto se purga la papelera (deleteMany idempotente: no importa si
+// corre en varias instancias a la vez)
+const PURGE_INTERVAL_MS =
+  Number(process.env.PROJECT_TRASH_PURGE_INTERVAL_MINUTES ?? 60) * 60_000;
+
+@Injectable()
+export class ProjectTrashScheduler implements OnModuleInit, OnModuleDestroy {
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(private projects: ProjectsService) {}
+
+  onModuleInit() {
+    this.timer = setInterval(() => void this.purge(), PURGE_INTERVAL_MS);
+    this.timer.unref();
+  }
+
+  onModuleDestroy() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  async purge() {
+    try {
+      const count = await this.projects.purgeExpiredTrash();
+      if (count) console.log('[trash] proyectos purgados:', count);
+    } catch (e) {
+      console.warn('[trash] error al purgar la papelera', e);
+    }
+  }
+}
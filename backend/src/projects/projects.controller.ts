@@ -3,21 +3,37 @@ import {
   Controller,
   Get,
   Param,
+  Patch,
   Post,
+  Put,
+  Query,
   Req,
   UseGuards,
   Delete,
   HttpCode,
   HttpStatus,
+  UploadedFile,
+  UseInterceptors,
 } from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
 import { JwtAuthGuard } from '../auth/jwt.guard';
+import { RequireCapability } from '../policy/require-capability.decorator';
+import { DiagramGateway } from '../diagram-realtime/diagram.gateway';
 import { ProjectsService } from './projects.service';
 import { CreateProjectDto } from './dto/create-project.dto';
+import { ImportXmiProjectDto } from './dto/import-xmi-project.dto';
+import { UpdateProjectDto } from './dto/update-project.dto';
+import { ListProjectsQueryDto } from './dto/list-projects.dto';
+import { ProjectPreferencesDto } from './dto/project-preferences.dto';
+import { XMI_MAX_BYTES, readXmiUpload } from '../diagrams/xmi';
 
 @UseGuards(JwtAuthGuard)
 @Controller('projects')
 export class ProjectsController {
-  constructor(private readonly projects: ProjectsService) {}
+  constructor(
+    private readonly projects: ProjectsService,
+    private readonly gateway: DiagramGateway, // saca de la sala al eliminar
+  ) {}
 
   @Post()
   async create(@Req() req: any, @Body() dto: CreateProjectDto) {
@@ -25,23 +41,85 @@ export class ProjectsController {
     return this.projects.create(userId, dto);
   }
 
+  // POST /api/projects/import/xmi  (multipart: file, name?, description?, workspaceId?)
+  @Post('import/xmi')
+  @UseInterceptors(
+    FileInterceptor('file', { limits: { fileSize: XMI_MAX_BYTES } }),
+  )
+  async importXmi(
+    @Req() req: any,
+    @Body() dto: ImportXmiProjectDto,
+    @UploadedFile() file?: Express.Multer.File,
+  ) {
+    const userId: string = req.user.id;
+    return this.projects.createFromXmi(userId, dto, readXmiUpload(file));
+  }
+
+  // GET /api/projects?q=&scope=&starred=&tag=&sort=&cursor=<id>&limit=24
   @Get()
-  async listMine(@Req() req: any) {
+  async listMine(@Req() req: any, @Query() query: ListProjectsQueryDto) {
+    const userId: string = req.user.id;
+    return this.projects.listForUser(userId, query);
+  }
+
+  // Deben ir antes de ':id'
+  @Get('tags')
+  async listTags(@Req() req: any) {
+    const userId: string = req.user.id;
+    return this.projects.listTags(userId);
+  }
+
+  @Get('trash')
+  async listTrash(@Req() req: any) {
     const userId: string = req.user.id;
-    return this.projects.listForUser(userId);
+    return this.projects.listTrash(userId);
   }
 
   @Get(':id')
+  @RequireCapability('project:view', { param: 'id', accessToken: true })
   async getOne(@Req() req: any, @Param('id') id: string) {
     const userId: string = req.user.id;
     return this.projects.getForUser(userId, id);
   }
 
+  // PATCH /api/projects/:id  { name?, description?, settings? }
+  @Patch(':id')
+  @RequireCapability('project:edit', { param: 'id' })
+  async update(
+    @Req() req: any,
+    @Param('id') id: string,
+    @Body() dto: UpdateProjectDto,
+  ) {
+    const userId: string = req.user.id;
+    return this.projects.updateProject(userId, id, dto);
+  }
+
+  // PUT /api/projects/:id/preferences  { starred?, tags? } (solo para mí)
+  @Put(':id/preferences')
+  @RequireCapability('project:view', { param: 'id' })
+  async updatePreferences(
+    @Req() req: any,
+    @Param('id') id: string,
+    @Body() dto: ProjectPreferencesDto,
+  ) {
+    const userId: string = req.user.id;
+    return this.projects.updatePreferences(userId, id, dto);
+  }
+
   @Delete(':id')
+  @RequireCapability('project:delete', { param: 'id' })
   @HttpCode(HttpStatus.NO_CONTENT)
   async remove(@Req() req: any, @Param('id') id: string) {
     const userId: string = req.user.id;
     await this.projects.deleteProject(userId, id);
+    await this.gateway.notifyProjectDeleted(id);
     return;
   }
+
+  @Post(':id/restore')
+  @RequireCapability('project:delete', { param: 'id', includeDeleted: true })
+  async restore(@Req() req: any, @Param('id') id: string) {
+    const userId: string = req.user.id;
+    return this.projects.restoreProject(userId, id);
+  }
 }
@@ -0,0 +1,187 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadRequestException,
+  ForbiddenException,
+  GoneException,
+  NotFoundException,
+} from '@nestjs/common';
+import { ProjectsService } from './projects.service';
+import { PrismaService } from '../common/prisma.service';
+import { ShareService } from '../share/share.service';
+import { PolicyService } from '../policy/policy.service';
+import { ActivityService } from '../activity/activity.service';
+
+describe('ProjectsService · solicitudes de edición', () => {
+  let service: ProjectsService;
+  const prisma = {
+    $transaction: jest.fn(),
+    project: { findUnique: jest.fn() },
+    projectMember: { findUnique: jest.fn(), upsert: jest.fn() },
+    editRequest: {
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+  };
+
+  const row = (over: Record<string, unknown> = {}) => ({
+    id: 'r1',
+    projectId: 'p1',
+    requesterId: 'u2',
+    message: 'quiero ayudar',
+    status: 'PENDING',
+    reason: null,
+    createdAt: new Date('2026-10-01T00:00:00Z'),
+    expiresAt: new Date(Date.now() + 86_400_000),
+    decidedAt: null,
+    requester: { name: 'Ana', email: 'ana@test.com' },
+    project: { name: 'Tienda' },
+    ...over,
+  });
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ProjectsService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: ShareService, useValue: {} },
+        { provide: ActivityService, useValue: { record: jest.fn() } },
+        PolicyService,
+      ],
+    }).compile();
+
+    service = module.get<ProjectsService>(ProjectsService);
+    prisma.project.findUnique.mockResolvedValue({
+      ownerId: 'owner',
+      deletedAt: null,
+      members: [],
+    });
+    prisma.editRequest.updateMany.mockResolvedValue({ count: 0 });
+    prisma.$transaction.mockImplementation((fn: (tx: unknown) => unknown) =>
+      fn(prisma),
+    );
+  });
+
+  it('lista las pendientes con nombre y email del solicitante', async () => {
+    prisma.editRequest.findMany.mockResolvedValue([row()]);
+
+    const list = await service.listEditRequests('owner', 'p1');
+
+    expect(prisma.editRequest.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { projectId: 'p1', status: 'PENDING' },
+      }),
+    );
+    expect(list[0]).toMatchObject({
+      id: 'r1',
+      projectName: 'Tienda',
+      requesterName: 'Ana',
+      requesterEmail: 'ana@test.com',
+    });
+    // Antes de listar se vencen las viejas
+    expect(prisma.editRequest.updateMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({ status: 'EXPIRED' }),
+      }),
+    );
+  });
+
+  it('un no miembro no lista ni rechaza', async () => {
+    await expect(service.listEditRequests('u3', 'p1')).rejects.toBeInstanceOf(
+      ForbiddenException,
+    );
+    await expect(
+      service.rejectEditRequest('u3', 'p1', 'r1'),
+    ).rejects.toBeInstanceOf(ForbiddenException);
+  });
+
+  it('rechaza con motivo; vencidas o ya resueltas no se pueden rechazar', async () => {
+    prisma.editRequest.findFirst.mockResolvedValueOnce(row());
+    prisma.editRequest.update.mockResolvedValue(
+      row({ status: 'REJECTED', reason: 'No por ahora' }),
+    );
+
+    const res = await service.rejectEditRequest(
+      'owner',
+      'p1',
+      'r1',
+      '  No por ahora ',
+    );
+    expect(prisma.editRequest.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { id: 'r1' },
+        data: expect.objectContaining({
+          status: 'REJECTED',
+          reason: 'No por ahora',
+        }),
+      }),
+    );
+    expect(res).toMatchObject({ status: 'REJECTED', requesterId: 'u2' });
+
+    prisma.editRequest.findFirst.mockResolvedValueOnce(
+      row({ expiresAt: new Date(Date.now() - 1000) }),
+    );
+    await expect(
+      service.rejectEditRequest('owner', 'p1', 'r1'),
+    ).rejects.toBeInstanceOf(GoneException);
+
+    prisma.editRequest.findFirst.mockResolvedValueOnce(
+      row({ status: 'APPROVED' }),
+    );
+    await expect(
+      service.rejectEditRequest('owner', 'p1', 'r1'),
+    ).rejects.toBeInstanceOf(BadRequestException);
+  });
+
+  it('aprobar exige una solicitud vigente y la cierra con decidedAt', async () => {
+    prisma.editRequest.findFirst.mockResolvedValueOnce(row());
+    prisma.editRequest.updateMany.mockResolvedValueOnce({ count: 1 });
+
+    const res = await service.approveEditRequest('owner', 'p1', 'u2');
+
+    expect(prisma.editRequest.findFirst).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { requesterId: 'u2', projectId: 'p1' },
+      }),
+    );
+    expect(prisma.editRequest.updateMany).toHaveBeenCalledWith({
+      where: { id: 'r1', status: 'PENDING' },
+      data: { status: 'APPROVED', decidedAt: expect.any(Date) },
+    });
+    expect(prisma.projectMember.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({ update: { role: 'EDITOR' } }),
+    );
+    expect(res).toEqual({ requestId: 'r1', requesterId: 'u2', role: 'EDITOR' });
+
+    prisma.editRequest.findFirst.mockResolvedValueOnce(null);
+    await expect(
+      service.approveEditRequest('owner', 'p1', 'u2'),
+    ).rejects.toBeInstanceOf(NotFoundException);
+
+    prisma.editRequest.findFirst.mockResolvedValueOnce(
+      row({ expiresAt: new Date(Date.now() - 1000) }),
+    );
+    await expect(
+      service.approveEditRequest('owner', 'p1', 'u2'),
+    ).rejects.toBeInstanceOf(GoneException);
+    expect(prisma.projectMember.upsert).toHaveBeenCalledTimes(1);
+  });
+
+  it('una solicitud no cambia el rol del owner ni de un admin', async () => {
+    for (const target of [
+      { requesterId: 'owner', member: { role: 'OWNER' } },
+      { requesterId: 'u2', member: { role: 'ADMIN' } },
+    ]) {
+      prisma.editRequest.findFirst.mockResolvedValueOnce(
+        row({ requesterId: target.requesterId }),
+      );
+      prisma.projectMember.findUnique.mockResolvedValueOnce(target.member);
+      await expect(
+        service.approveEditRequest('owner', 'p1', target.requesterId, 'VIEWER'),
+      ).rejects.toBeInstanceOf(ForbiddenException);
+    }
+    expect(prisma.projectMember.upsert).not.toHaveBeenCalled();
+  });
+});
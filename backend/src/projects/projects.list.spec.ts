@@ -0,0 +1,150 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ForbiddenException } from '@nestjs/common';
+import { ProjectsService } from './projects.service';
+import { PrismaService } from '../common/prisma.service';
+import { ShareService } from '../share/share.service';
+import { PolicyService } from '../policy/policy.service';
+import { ActivityService } from '../activity/activity.service';
+
+describe('ProjectsService · listado del Dashboard', () => {
+  let service: ProjectsService;
+  const prisma = {
+    project: { findMany: jest.fn(), findUnique: jest.fn() },
+    projectPreference: { upsert: jest.fn(), findMany: jest.fn() },
+  };
+
+  const row = (id: string, over: Record<string, unknown> = {}) => ({
+    id,
+    name: `Proyecto ${id}`,
+    description: null,
+    forkedFromId: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ownerId: 'u1',
+    members: [],
+    workspace: null,
+    preferences: [],
+    ...over,
+  });
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ProjectsService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: ShareService, useValue: {} },
+        { provide: ActivityService, useValue: {} },
+        PolicyService,
+      ],
+    }).compile();
+
+    service = module.get<ProjectsService>(ProjectsService);
+  });
+
+  it('pagina con cursor y devuelve favoritos y etiquetas propios', async () => {
+    prisma.project.findMany.mockResolvedValue([
+      row('a', { preferences: [{ starred: true, tags: ['parcial'] }] }),
+      row('b', { ownerId: 'otro', members: [{ role: 'EDITOR' }] }),
+      row('c'),
+    ]);
+
+    const page = await service.listForUser('u1', { limit: 2, cursor: 'z' });
+
+    expect(prisma.project.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        take: 3,
+        cursor: { id: 'z' },
+        skip: 1,
+        orderBy: [{ updatedAt: 'desc' }, { id: 'asc' }],
+      }),
+    );
+    expect(page.items).toHaveLength(2);
+    expect(page.items[0]).toEqual(
+      expect.objectContaining({
+        role: 'OWNER',
+        starred: true,
+        tags: ['parcial'],
+      }),
+    );
+    expect(page.items[1]).toEqual(
+      expect.objectContaining({ role: 'EDITOR', starred: false, tags: [] }),
+    );
+    expect(page.nextCursor).toBe('b');
+  });
+
+  it('combina búsqueda, alcance, favoritos y etiqueta en el where', async () => {
+    prisma.project.findMany.mockResolvedValue([]);
+
+    const page = await service.listForUser('u1', {
+      q: ' ventas ',
+      scope: 'shared',
+      starred: true,
+      tag: 'parcial',
+      sort: 'name',
+    });
+
+    const { where, orderBy } = prisma.project.findMany.mock.calls[0][0];
+    expect(where.deletedAt).toBeNull();
+    expect(where.AND).toEqual([
+      { NOT: { ownerId: 'u1' } },
+      {
+        OR: [
+          { name: { contains: 'ventas', mode: 'insensitive' } },
+          { description: { contains: 'ventas', mode: 'insensitive' } },
+        ],
+      },
+      {
+        preferences: {
+          some: { userId: 'u1', starred: true, tags: { has: 'parcial' } },
+        },
+      },
+    ]);
+    expect(orderBy[0]).toEqual({ name: 'asc' });
+    expect(page).toEqual({ items: [], nextCursor: null });
+  });
+
+  it('guarda etiquetas sin vacíos ni repetidos', async () => {
+    prisma.project.findUnique.mockResolvedValue({
+      ownerId: 'otro',
+      deletedAt: null,
+      members: [{ role: 'VIEWER' }],
+    });
+    prisma.projectPreference.upsert.mockResolvedValue({});
+
+    await service.updatePreferences('u1', 'p1', {
+      tags: [' Parcial ', 'parcial', '', 'UML'],
+    });
+
+    expect(prisma.projectPreference.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { userId_projectId: { userId: 'u1', projectId: 'p1' } },
+        create: { userId: 'u1', projectId: 'p1', tags: ['Parcial', 'UML'] },
+        update: { tags: ['Parcial', 'UML'] },
+      }),
+    );
+  });
+
+  it('no deja marcar proyectos a los que no tengo acceso', async () => {
+    prisma.project.findUnique.mockResolvedValue({
+      ownerId: 'otro',
+      deletedAt: null,
+      members: [],
+      workspace: null,
+    });
+
+    await expect(
+      service.updatePreferences('u1', 'p1', { starred: true }),
+    ).rejects.toThrow(ForbiddenException);
+    expect(prisma.projectPreference.upsert).not.toHaveBeenCalled();
+  });
+
+  it('lista mis etiquetas una sola vez y ordenadas', async () => {
+    prisma.projectPreference.findMany.mockResolvedValue([
+      { tags: ['UML', 'parcial'] },
+      { tags: ['parcial'] },
+    ]);
+
+    await expect(service.listTags('u1')).resolves.toEqual(['parcial', 'UML']);
+  });
+});
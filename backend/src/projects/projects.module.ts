@@ -1,11 +1,23 @@
-import { Module } from '@nestjs/common';
+import { Module, forwardRef } from '@nestjs/common';
 import { ProjectsService } from './projects.service';
 import { ProjectsController } from './projects.controller';
 import { PublicDiagramController } from './public-diagram.controller';
 import { EditRequestsController } from './edit-requests.controller';
+import { ProjectForksController } from './project-forks.controller';
+import { ProjectForksService } from './project-forks.service';
+import { ProjectTrashScheduler } from './project-trash.scheduler';
+import { EditRequestExpiryScheduler } from './edit-request-expiry.scheduler';
+import { MembersController } from './members.controller';
+import { MembersService } from './members.service';
+import { InvitationsController } from './invitations.controller';
+import { InvitationsService } from './invitations.service';
+import { InvitationAcceptController } from './invitation-accept.controller';
+import { OwnershipController } from './ownership.controller';
+import { OwnershipService } from './ownership.service';
 
 import { PrismaService } from '../common/prisma.service';
 import { ShareModule } from '../share/share.module';
+import { ShareController } from '../share/share.controller';
 import { DiagramRealtimeModule } from '../diagram-realtime/diagram-realtime.module';
 
 // ✅ Importamos el módulo de diagrams para reutilizar su service (misma fuente de verdad)
@@ -14,15 +26,30 @@ import { DiagramsModule } from '../diagrams/diagrams.module';
 @Module({
   imports: [
     ShareModule,
-    DiagramRealtimeModule,
+    forwardRef(() => DiagramRealtimeModule),
     DiagramsModule, // <- clave para poder inyectar DiagramsService en el controller público
   ],
   controllers: [
     ProjectsController,
     PublicDiagramController,
     EditRequestsController,
+    ProjectForksController,
+    MembersController,
+    InvitationsController,
+    InvitationAcceptController,
+    OwnershipController,
+    ShareController,
+  ],
+  providers: [
+    ProjectsService,
+    ProjectForksService,
+    ProjectTrashScheduler,
+    EditRequestExpiryScheduler,
+    MembersService,
+    InvitationsService,
+    OwnershipService,
+    PrismaService,
   ],
-  providers: [ProjectsService, PrismaService],
   exports: [ProjectsService],
 })
 export class ProjectsModule {}
@@ -1,34 +1,166 @@
 // src/projects/projects.service.ts
 import {
+  BadRequestException,
   ForbiddenException,
+  GoneException,
   Injectable,
   NotFoundException,
 } from '@nestjs/common';
 import { PrismaService } from '../common/prisma.service';
 import { ShareService } from '../share/share.service';
 import { CreateProjectDto } from './dto/create-project.dto';
-import { ProjectRole } from '@prisma/client';
+import { ImportXmiProjectDto } from './dto/import-xmi-project.dto';
+import { UpdateProjectDto } from './dto/update-project.dto';
+import { ListProjectsQueryDto, ProjectSort } from './dto/list-projects.dto';
+import { ProjectPreferencesDto } from './dto/project-preferences.dto';
+import { EditRequestStatus, Prisma, ProjectRole } from '@prisma/client';
+import { PolicyService, projectRoleSelect } from '../policy/policy.service';
+import { ActivityService } from '../activity/activity.service';
+import {
+  ROLE_CAPABILITIES,
+  WORKSPACE_MANAGER_ROLES,
+  resolveProjectRole,
+  rolesWith,
+} from '../policy/capabilities';
+import { prepareSnapshot } from '../diagrams/snapshot-schema';
+import { importXmi } from '../diagrams/xmi';
 
 type Snapshot = { nodes: any[]; edges: any[] };
 
+// Días que un proyecto eliminado queda en la papelera antes de purgarse
+export const TRASH_RETENTION_MS =
+  Number(process.env.PROJECT_TRASH_RETENTION_DAYS ?? 30) * 86_400_000;
+
+// Días que una solicitud de edición queda PENDING antes de vencer
+export const EDIT_REQUEST_TTL_MS =
+  Number(process.env.EDIT_REQUEST_TTL_DAYS ?? 7) * 86_400_000;
+
+export const PROJECT_PAGE_SIZE = 24;
+
+const PROJECT_ORDER: Record<
+  ProjectSort,
+  Prisma.ProjectOrderByWithRelationInput
+> = {
+  updated: { updatedAt: 'desc' },
+  created: { createdAt: 'desc' },
+  name: { name: 'asc' },
+};
+
+// Configuración de generación mientras el proyecto no guardó la suya
+// (mismos defaults que el modelo ProjectSettings)
+export const DEFAULT_PROJECT_SETTINGS = {
+  javaPackage: 'com.example',
+  groupId: 'com.example',
+  artifactId: 'spring-boot-project',
+  springBootVersion: '3.2.0',
+  javaVersion: '17',
+  database: 'POSTGRESQL',
+  flutterAppName: 'UmlCrudApp',
+  flutterPackage: 'com.example.umlcrud',
+  apiBaseUrl: 'http://localhost:8080',
+} as const satisfies Omit<
+  Prisma.ProjectSettingsUncheckedCreateInput,
+  'projectId'
+>;
+
+export const PROJECT_SETTINGS_SELECT = {
+  javaPackage: true,
+  groupId: true,
+  artifactId: true,
+  springBootVersion: true,
+  javaVersion: true,
+  database: true,
+  flutterAppName: true,
+  flutterPackage: true,
+  apiBaseUrl: true,
+} as const;
+
+// Datos de una solicitud que ven owner y solicitante
+export const EDIT_REQUEST_SELECT = {
+  id: true,
+  projectId: true,
+  requesterId: true,
+  message: true,
+  status: true,
+  reason: true,
+  createdAt: true,
+  expiresAt: true,
+  decidedAt: true,
+  requester: { select: { name: true, email: true } },
+  project: { select: { name: true } },
+} as const;
+
+type EditRequestRow = Prisma.EditRequestGetPayload<{
+  select: typeof EDIT_REQUEST_SELECT;
+}>;
+
+/** Campos para crear o reabrir una solicitud (también lo usa el gateway) */
+export function pendingEditRequestData(message?: string | null) {
+  const now = new Date();
+  return {
+    status: 'PENDING' as const,
+    message: message ?? null,
+    reason: null,
+    decidedAt: null,
+    createdAt: now,
+    expiresAt: new Date(now.getTime() + EDIT_REQUEST_TTL_MS),
+  };
+}
+
+const isExpired = (expiresAt: Date | null) =>
+  !!expiresAt && expiresAt.getTime() <= Date.now();
+
+export function toEditRequestView({
+  requester,
+  project,
+  ...req
+}: EditRequestRow) {
+  return {
+    ...req,
+    projectName: project.name,
+    requesterName: requester.name,
+    requesterEmail: requester.email,
+  };
+}
+
 @Injectable()
 export class ProjectsService {
   constructor(
     private prisma: PrismaService,
     private share: ShareService,
+    private policy: PolicyService,
+    private activity: ActivityService,
   ) {}
 
   /* =========================================================
    * Proyectos
    * =======================================================*/
 
-  async create(ownerId: string, dto: CreateProjectDto) {
-    // Crea proyecto + membresía OWNER + Diagram vacío
+  async create(
+    ownerId: string,
+    dto: CreateProjectDto,
+    snapshot: Snapshot = { nodes: [], edges: [] },
+  ) {
+    // En un workspace solo crean sus miembros
+    if (dto.workspaceId) {
+      const wsMember = await this.prisma.workspaceMember.findUnique({
+        where: {
+          workspaceId_userId: { workspaceId: dto.workspaceId, userId: ownerId },
+        },
+        select: { id: true },
+      });
+      if (!wsMember) {
+        throw new ForbiddenException('No sos miembro de ese workspace');
+      }
+    }
+
+    // Crea proyecto + membresía OWNER + Diagram (vacío salvo al importar)
     const project = await this.prisma.project.create({
       data: {
         name: dto.name,
         description: dto.description,
         ownerId,
+        workspaceId: dto.workspaceId ?? null,
         members: {
           create: {
             userId: ownerId,
@@ -37,7 +169,7 @@ export class ProjectsService {
         },
         diagram: {
           create: {
-            snapshot: { nodes: [], edges: [] },
+            snapshot: snapshot as Prisma.InputJsonValue,
           },
         },
       },
@@ -47,95 +179,274 @@ export class ProjectsService {
         description: true,
         createdAt: true,
         updatedAt: true,
+        workspace: { select: { id: true, name: true } },
       },
     });
 
+    await this.activity.record({
+      projectId: project.id,
+      actorId: ownerId,
+      action: 'PROJECT_CREATED',
+      metadata: { name: project.name },
+    });
     return { ...project, role: 'OWNER' as const };
   }
 
-  async listForUser(userId: string) {
-    // Proyectos donde soy owner o miembro
-    const projects = await this.prisma.project.findMany({
-      where: {
-        OR: [{ ownerId: userId }, { members: { some: { userId } } }],
+  /** Proyecto nuevo con las clases y relaciones de un archivo XMI */
+  async createFromXmi(ownerId: string, dto: ImportXmiProjectDto, xml: string) {
+    const { nodes, edges, name, classes, relations } = importXmi(xml);
+    const snapshot = prepareSnapshot({ nodes, edges });
+    const project = await this.create(
+      ownerId,
+      {
+        ...dto,
+        name: (dto.name?.trim() || name || 'Modelo importado').slice(0, 120),
       },
+      snapshot,
+    );
+    return { ...project, imported: { classes, relations } };
+  }
+
+  /**
+   * Proyectos donde soy owner, miembro o miembro de su workspace, paginados
+   * con cursor (`cursor` = id del último visto). `workspace` null = personal
+   * (el Dashboard agrupa por ese campo); `starred` y `tags` son míos.
+   */
+  async listForUser(
+    userId: string,
+    {
+      q,
+      scope = 'all',
+      starred,
+      tag,
+      sort = 'updated',
+      cursor,
+      limit = PROJECT_PAGE_SIZE,
+    }: ListProjectsQueryDto = {},
+  ) {
+    const take = Math.min(Math.max(limit, 1), 100);
+    const search = q?.trim();
+    const where: Prisma.ProjectWhereInput = {
+      deletedAt: null,
+      OR: [
+        { ownerId: userId },
+        { members: { some: { userId } } },
+        { workspace: { members: { some: { userId } } } },
+      ],
+      AND: [
+        ...(scope === 'owned' ? [{ ownerId: userId }] : []),
+        ...(scope === 'shared' ? [{ NOT: { ownerId: userId } }] : []),
+        ...(search
+          ? [
+              {
+                OR: [
+                  { name: { contains: search, mode: 'insensitive' as const } },
+                  {
+                    description: {
+                      contains: search,
+                      mode: 'insensitive' as const,
+                    },
+                  },
+                ],
+              },
+            ]
+          : []),
+        ...(starred || tag
+          ? [
+              {
+                preferences: {
+                  some: {
+                    userId,
+                    ...(starred && { starred: true }),
+                    ...(tag && { tags: { has: tag.trim() } }),
+                  },
+                },
+              },
+            ]
+          : []),
+      ],
+    };
+
+    const rows = await this.prisma.project.findMany({
+      where,
       select: {
         id: true,
         name: true,
         description: true,
-        ownerId: true,
+        forkedFromId: true,
         createdAt: true,
         updatedAt: true,
-        members: {
+        ...projectRoleSelect(userId),
+        workspace: {
+          select: {
+            id: true,
+            name: true,
+            ...projectRoleSelect(userId).workspace.select,
+          },
+        },
+        preferences: {
           where: { userId },
-          select: { role: true },
-          take: 1,
+          select: { starred: true, tags: true },
         },
       },
-      orderBy: { updatedAt: 'desc' },
+      // id desempata para que el cursor sea estable
+      orderBy: [PROJECT_ORDER[sort], { id: 'asc' }],
+      take: take + 1,
+      ...(cursor && { cursor: { id: cursor }, skip: 1 }),
     });
+    const page = rows.slice(0, take);
 
-    return projects.map((p) => ({
-      id: p.id,
-      name: p.name,
-      description: p.description,
-      createdAt: p.createdAt,
-      updatedAt: p.updatedAt,
-      role: p.ownerId === userId ? 'OWNER' : (p.members[0]?.role ?? 'VIEWER'),
-    }));
+    return {
+      items: page.map((p) => ({
+        id: p.id,
+        name: p.name,
+        description: p.description,
+        forkedFromId: p.forkedFromId,
+        createdAt: p.createdAt,
+        updatedAt: p.updatedAt,
+        workspace: p.workspace
+          ? { id: p.workspace.id, name: p.workspace.name }
+          : null,
+        role: resolveProjectRole(userId, p) ?? 'VIEWER',
+        starred: p.preferences[0]?.starred ?? false,
+        tags: p.preferences[0]?.tags ?? [],
+      })),
+      nextCursor: rows.length > take ? page[page.length - 1].id : null,
+    };
+  }
+
+  /** Marca como favorito o etiqueta un proyecto (solo para mí) */
+  async updatePreferences(
+    userId: string,
+    projectId: string,
+    dto: ProjectPreferencesDto,
+  ) {
+    await this.policy.assert(userId, projectId, 'project:view');
+    // Sin vacíos ni repetidos (sin distinguir mayúsculas)
+    const tags = dto.tags?.reduce<string[]>((acc, raw) => {
+      const t = raw.trim();
+      if (t && !acc.some((x) => x.toLowerCase() === t.toLowerCase())) {
+        acc.push(t);
+      }
+      return acc;
+    }, []);
+    const data = {
+      ...(dto.starred !== undefined && { starred: dto.starred }),
+      ...(tags && { tags }),
+    };
+    return this.prisma.projectPreference.upsert({
+      where: { userId_projectId: { userId, projectId } },
+      create: { userId, projectId, ...data },
+      update: data,
+      select: { projectId: true, starred: true, tags: true },
+    });
+  }
+
+  /** Etiquetas que usé en proyectos que todavía veo (filtro del Dashboard) */
+  async listTags(userId: string) {
+    const prefs = await this.prisma.projectPreference.findMany({
+      where: {
+        userId,
+        project: { deletedAt: null },
+        NOT: { tags: { isEmpty: true } },
+      },
+      select: { tags: true },
+    });
+    return [...new Set(prefs.flatMap((p) => p.tags))].sort((a, b) =>
+      a.localeCompare(b),
+    );
   }
 
   async getForUser(userId: string, projectId: string) {
-    const p = await this.prisma.project.findUnique({
+    const role = await this.policy.assert(userId, projectId, 'project:view');
+    const p = await this.prisma.project.findUniqueOrThrow({
       where: { id: projectId },
       select: {
         id: true,
         name: true,
         description: true,
-        ownerId: true,
+        forkedFromVersionId: true,
+        forkedAt: true,
+        forkedFrom: { select: { id: true, name: true } },
+        workspace: { select: { id: true, name: true } },
+        settings: { select: PROJECT_SETTINGS_SELECT },
         createdAt: true,
         updatedAt: true,
-        members: {
-          where: { userId },
-          select: { role: true },
-          take: 1,
-        },
       },
     });
 
-    if (!p) throw new NotFoundException('Proyecto no encontrado');
-
-    const isMember = p.ownerId === userId || p.members.length > 0;
-    if (!isMember) throw new ForbiddenException('Sin acceso a este proyecto');
-
     return {
       id: p.id,
       name: p.name,
       description: p.description,
+      workspace: p.workspace,
+      settings: p.settings ?? DEFAULT_PROJECT_SETTINGS,
+      forkedFrom: p.forkedFrom,
+      forkedFromVersionId: p.forkedFromVersionId,
+      forkedAt: p.forkedAt,
       createdAt: p.createdAt,
       updatedAt: p.updatedAt,
-      role: p.ownerId === userId ? 'OWNER' : (p.members[0]?.role ?? 'VIEWER'),
+      role,
+      capabilities: ROLE_CAPABILITIES[role],
     };
   }
 
-  /* =========================================================
-   * Helpers de rol / acceso (usados por gateway y servicios)
-   * =======================================================*/
-
-  async getUserRoleInProject(
+  /**
+   * Renombrar, cambiar la descripción o la configuración de generación.
+   * Los settings se guardan parciales: lo que no viene conserva su valor.
+   */
+  async updateProject(
     userId: string,
     projectId: string,
-  ): Promise<ProjectRole | null> {
-    const proj = await this.prisma.project.findUnique({
+    dto: UpdateProjectDto,
+  ) {
+    await this.policy.assert(userId, projectId, 'project:edit');
+    const { settings, ...fields } = dto;
+    const name = fields.name?.trim();
+    if (fields.name !== undefined && !name) {
+      throw new BadRequestException('El nombre no puede quedar vacío');
+    }
+
+    const project = await this.prisma.project.update({
       where: { id: projectId },
+      data: {
+        ...(name && { name }),
+        ...(fields.description !== undefined && {
+          description: fields.description?.trim() || null,
+        }),
+        ...(settings && {
+          settings: {
+            upsert: { create: settings, update: settings },
+          },
+        }),
+      },
       select: {
-        ownerId: true,
-        members: { where: { userId }, select: { role: true }, take: 1 },
+        id: true,
+        name: true,
+        description: true,
+        updatedAt: true,
+        settings: { select: PROJECT_SETTINGS_SELECT },
       },
     });
-    if (!proj) return null;
-    if (proj.ownerId === userId) return 'OWNER';
-    return proj.members[0]?.role ?? null;
+
+    const changed = [
+      ...Object.keys(fields).filter(
+        (k) => fields[k as keyof typeof fields] !== undefined,
+      ),
+      ...(settings ? Object.keys(settings).map((k) => `settings.${k}`) : []),
+    ];
+    if (changed.length) {
+      await this.activity.record({
+        projectId,
+        actorId: userId,
+        action: 'PROJECT_UPDATED',
+        metadata: { fields: changed, name: project.name },
+      });
+    }
+    return {
+      ...project,
+      settings: project.settings ?? DEFAULT_PROJECT_SETTINGS,
+    };
   }
 
   /* =========================================================
@@ -171,91 +482,315 @@ export class ProjectsService {
     // Validar existencia de proyecto
     const exists = await this.prisma.project.findUnique({
       where: { id: projectId },
-      select: { id: true, ownerId: true },
+      select: { id: true, ownerId: true, deletedAt: true },
     });
-    if (!exists) throw new NotFoundException('Proyecto no encontrado');
+    if (!exists || exists.deletedAt) {
+      throw new NotFoundException('Proyecto no encontrado');
+    }
 
-    // Si ya es EDITOR+ no tiene sentido pedir
-    const existingMembership = await this.prisma.projectMember.findUnique({
-      where: { projectId_userId: { projectId, userId: requesterId } },
-      select: { role: true },
-    });
-    if (
-      existingMembership &&
-      (existingMembership.role === 'OWNER' ||
-        existingMembership.role === 'ADMIN' ||
-        existingMembership.role === 'EDITOR')
-    ) {
+    // Si ya puede editar no tiene sentido pedir
+    if (await this.policy.can(requesterId, projectId, 'diagram:edit')) {
       return { ok: true, skipped: true };
     }
 
-    // Crear (o actualizar a PENDING si ya existía)
+    // Crear (o reabrir como PENDING si ya existía: vuelve a correr el plazo)
     const req = await this.prisma.editRequest.upsert({
       where: { projectId_requesterId: { projectId, requesterId } },
-      update: { status: 'PENDING', message: message ?? null },
-      create: {
-        projectId,
-        requesterId,
-        message: message ?? null,
+      update: pendingEditRequestData(message),
+      create: { projectId, requesterId, ...pendingEditRequestData(message) },
+      select: EDIT_REQUEST_SELECT,
+    });
+
+    return { ok: true, request: toEditRequestView(req) };
+  }
+
+  /** Solicitudes de un proyecto (owner/admin); por defecto las pendientes */
+  async listEditRequests(
+    userId: string,
+    projectId: string,
+    status: EditRequestStatus | 'ALL' = 'PENDING',
+  ) {
+    await this.policy.assert(userId, projectId, 'members:manage');
+    await this.expireStaleEditRequests();
+
+    const rows = await this.prisma.editRequest.findMany({
+      where: { projectId, ...(status === 'ALL' ? {} : { status }) },
+      orderBy: { createdAt: 'desc' },
+      select: EDIT_REQUEST_SELECT,
+    });
+    return rows.map(toEditRequestView);
+  }
+
+  /** Pendientes de los proyectos que administro (bandeja del Dashboard) */
+  async listIncomingEditRequests(userId: string) {
+    await this.expireStaleEditRequests();
+
+    const rows = await this.prisma.editRequest.findMany({
+      where: {
+        status: 'PENDING',
+        project: {
+          deletedAt: null,
+          OR: [
+            { ownerId: userId },
+            {
+              members: {
+                some: { userId, role: { in: rolesWith('members:manage') } },
+              },
+            },
+            {
+              workspace: {
+                members: {
+                  some: { userId, role: { in: WORKSPACE_MANAGER_ROLES } },
+                },
+              },
+            },
+          ],
+        },
       },
-      select: {
-        id: true,
-        projectId: true,
-        requesterId: true,
-        status: true,
-        createdAt: true,
+      orderBy: { createdAt: 'desc' },
+      select: EDIT_REQUEST_SELECT,
+    });
+    return rows.map(toEditRequestView);
+  }
+
+  /** Historial de solicitudes hechas por el usuario */
+  async listMyEditRequests(requesterId: string) {
+    await this.expireStaleEditRequests();
+
+    const rows = await this.prisma.editRequest.findMany({
+      where: { requesterId, project: { deletedAt: null } },
+      orderBy: { createdAt: 'desc' },
+      select: EDIT_REQUEST_SELECT,
+    });
+    return rows.map(toEditRequestView);
+  }
+
+  /**
+   * Solicitud PENDING del proyecto, por id o por solicitante (hay a lo sumo
+   * una por usuario); 404 si no existe, 410 si venció, 400 si ya se resolvió
+   */
+  private async getPendingEditRequest(
+    projectId: string,
+    by: { id: string } | { requesterId: string },
+  ) {
+    const req = await this.prisma.editRequest.findFirst({
+      where: { ...by, projectId },
+      select: { id: true, requesterId: true, status: true, expiresAt: true },
+    });
+    if (!req) throw new NotFoundException('Solicitud no encontrada');
+    if (req.status === 'PENDING' && isExpired(req.expiresAt)) {
+      await this.expireStaleEditRequests();
+      throw new GoneException('La solicitud ya venció');
+    }
+    if (req.status !== 'PENDING') {
+      throw new BadRequestException('La solicitud ya fue resuelta');
+    }
+    return req;
+  }
+
+  /** Aprueba por id de solicitud (REST); devuelve a quién se le dio el rol */
+  async approveEditRequestById(
+    userId: string,
+    projectId: string,
+    requestId: string,
+    role: ProjectRole = 'EDITOR',
+  ) {
+    const req = await this.getPendingEditRequest(projectId, { id: requestId });
+    return this.approveEditRequest(userId, projectId, req.requesterId, role);
+  }
+
+  async rejectEditRequest(
+    userId: string,
+    projectId: string,
+    requestId: string,
+    reason?: string,
+  ) {
+    await this.policy.assert(userId, projectId, 'members:manage');
+    await this.getPendingEditRequest(projectId, { id: requestId });
+
+    const req = await this.prisma.editRequest.update({
+      where: { id: requestId },
+      data: {
+        status: 'REJECTED',
+        reason: reason?.trim() || null,
+        decidedAt: new Date(),
       },
+      select: EDIT_REQUEST_SELECT,
     });
+    await this.activity.record({
+      projectId,
+      actorId: userId,
+      action: 'EDIT_REQUEST_REJECTED',
+      targetType: 'user',
+      targetId: req.requesterId,
+      metadata: { requestId: req.id, reason: req.reason },
+    });
+    return toEditRequestView(req);
+  }
 
-    return { ok: true, request: req };
+  /** Marca como EXPIRED las pendientes vencidas (idempotente) */
+  async expireStaleEditRequests() {
+    const now = new Date();
+    const { count } = await this.prisma.editRequest.updateMany({
+      where: { status: 'PENDING', expiresAt: { lte: now } },
+      data: { status: 'EXPIRED', decidedAt: now },
+    });
+    return count;
   }
 
   /**
-   * Aprueba una solicitud: valida que ownerId sea owner del proyecto,
-   * crea/actualiza la membership con el rol dado y marca la solicitud como APPROVED.
+   * Aprueba la solicitud pendiente de targetUserId (REST y socket): valida
+   * que userId pueda gestionar miembros, que la solicitud siga vigente y que
+   * el solicitante no sea owner ni admin (una solicitud no degrada a nadie);
+   * crea/actualiza la membership con el rol dado y la marca como APPROVED.
    */
   async approveEditRequest(
-    ownerId: string,
+    userId: string,
     projectId: string,
     targetUserId: string,
     role: ProjectRole = 'EDITOR',
-  ): Promise<boolean> {
-    const proj = await this.prisma.project.findUnique({
-      where: { id: projectId },
-      select: { id: true, ownerId: true },
+  ) {
+    await this.policy.assert(userId, projectId, 'members:manage');
+    const req = await this.getPendingEditRequest(projectId, {
+      requesterId: targetUserId,
     });
-    if (!proj) throw new NotFoundException('Proyecto no encontrado');
-    if (proj.ownerId !== ownerId) throw new ForbiddenException('No autorizado');
+    const [project, member] = await Promise.all([
+      this.prisma.project.findUnique({
+        where: { id: projectId },
+        select: { ownerId: true },
+      }),
+      this.prisma.projectMember.findUnique({
+        where: { projectId_userId: { projectId, userId: targetUserId } },
+        select: { role: true },
+      }),
+    ]);
+    if (
+      project?.ownerId === targetUserId ||
+      member?.role === 'OWNER' ||
+      member?.role === 'ADMIN'
+    ) {
+      throw new ForbiddenException(
+        'No se puede cambiar el rol de un owner o admin con una solicitud',
+      );
+    }
 
-    await this.prisma.projectMember.upsert({
-      where: { projectId_userId: { projectId, userId: targetUserId } },
-      update: { role },
-      create: { projectId, userId: targetUserId, role },
-    });
+    await this.prisma.$transaction(async (tx) => {
+      const { count } = await tx.editRequest.updateMany({
+        where: { id: req.id, status: 'PENDING' },
+        data: { status: 'APPROVED', decidedAt: new Date() },
+      });
+      if (!count) throw new BadRequestException('La solicitud ya fue resuelta');
 
-    await this.prisma.editRequest.updateMany({
-      where: { projectId, requesterId: targetUserId, status: 'PENDING' },
-      data: { status: 'APPROVED' },
+      await tx.projectMember.upsert({
+        where: { projectId_userId: { projectId, userId: targetUserId } },
+        update: { role },
+        create: { projectId, userId: targetUserId, role },
+      });
     });
 
-    return true;
+    await this.activity.record({
+      projectId,
+      actorId: userId,
+      action: 'EDIT_REQUEST_APPROVED',
+      targetType: 'user',
+      targetId: targetUserId,
+      metadata: { requestId: req.id, role },
+    });
+    return { requestId: req.id, requesterId: targetUserId, role };
   }
 
   /* =========================================================
-   * Eliminar proyecto (solo OWNER)
-   * Se elimina en cascada gracias a las reglas de Prisma
+   * Papelera (solo OWNER)
+   * Eliminar marca deletedAt; el proyecto se puede restaurar durante
+   * TRASH_RETENTION_MS y después lo purga ProjectTrashScheduler
+   * (ahí sí borra en cascada gracias a las reglas de Prisma).
    * =======================================================*/
   async deleteProject(ownerId: string, projectId: string) {
-    const proj = await this.prisma.project.findUnique({
+    await this.policy.assert(ownerId, projectId, 'project:delete');
+
+    await this.prisma.project.update({
       where: { id: projectId },
-      select: { id: true, ownerId: true },
+      data: { deletedAt: new Date() },
     });
-    if (!proj) throw new NotFoundException('Proyecto no encontrado');
-    if (proj.ownerId !== ownerId) throw new ForbiddenException('No autorizado');
-
-    // Eliminar proyecto (las relaciones con onDelete: Cascade se encargarán del resto)
-    await this.prisma.project.delete({ where: { id: projectId } });
 
+    await this.activity.record({
+      projectId,
+      actorId: ownerId,
+      action: 'PROJECT_DELETED',
+    });
     return true;
   }
+
+  /** Papelera: mis proyectos y los de workspaces que administro */
+  async listTrash(ownerId: string) {
+    const projects = await this.prisma.project.findMany({
+      where: {
+        deletedAt: { not: null },
+        OR: [
+          { ownerId },
+          {
+            workspace: {
+              members: {
+                some: {
+                  userId: ownerId,
+                  role: { in: WORKSPACE_MANAGER_ROLES },
+                },
+              },
+            },
+          },
+        ],
+      },
+      select: {
+        id: true,
+        name: true,
+        description: true,
+        createdAt: true,
+        deletedAt: true,
+      },
+      orderBy: { deletedAt: 'desc' },
+    });
+
+    return projects.map((p) => ({
+      ...p,
+      purgeAt: new Date(p.deletedAt!.getTime() + TRASH_RETENTION_MS),
+    }));
+  }
+
+  async restoreProject(ownerId: string, projectId: string) {
+    await this.policy.assert(ownerId, projectId, 'project:delete', {
+      includeDeleted: true,
+    });
+    const proj = await this.prisma.project.findUniqueOrThrow({
+      where: { id: projectId },
+      select: { deletedAt: true },
+    });
+    if (!proj.deletedAt) {
+      throw new NotFoundException('El proyecto no está en la papelera');
+    }
+    if (proj.deletedAt.getTime() + TRASH_RETENTION_MS <= Date.now()) {
+      throw new GoneException('El proyecto superó el período de retención');
+    }
+
+    await this.prisma.project.update({
+      where: { id: projectId },
+      data: { deletedAt: null },
+    });
+
+    await this.activity.record({
+      projectId,
+      actorId: ownerId,
+      action: 'PROJECT_RESTORED',
+    });
+    return this.getForUser(ownerId, projectId);
+  }
+
+  /** Borrado definitivo de lo que superó la retención (lo llama el job) */
+  async purgeExpiredTrash(now = new Date()) {
+    const { count } = await this.prisma.project.deleteMany({
+      where: {
+        deletedAt: { lte: new Date(now.getTime() - TRASH_RETENTION_MS) },
+      },
+    });
+    return count;
+  }
 }
@@ -0,0 +1,105 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, ForbiddenException } from '@nestjs/common';
+import { DEFAULT_PROJECT_SETTINGS, ProjectsService } from './projects.service';
+import { PrismaService } from '../common/prisma.service';
+import { ShareService } from '../share/share.service';
+import { PolicyService } from '../policy/policy.service';
+import { ActivityService } from '../activity/activity.service';
+
+describe('ProjectsService · edición y configuración', () => {
+  let service: ProjectsService;
+  const prisma = {
+    project: { findUnique: jest.fn(), update: jest.fn() },
+  };
+  const activity = { record: jest.fn() };
+
+  const as = (role: 'OWNER' | 'ADMIN' | 'EDITOR') =>
+    prisma.project.findUnique.mockResolvedValue({
+      ownerId: role === 'OWNER' ? 'u1' : 'owner',
+      deletedAt: null,
+      members: role === 'OWNER' ? [] : [{ role }],
+    });
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ProjectsService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: ShareService, useValue: {} },
+        { provide: ActivityService, useValue: activity },
+        PolicyService,
+      ],
+    }).compile();
+
+    service = module.get<ProjectsService>(ProjectsService);
+  });
+
+  it('renombra y guarda settings parciales con upsert', async () => {
+    as('ADMIN');
+    prisma.project.update.mockResolvedValue({
+      id: 'p1',
+      name: 'Tienda',
+      description: null,
+      updatedAt: new Date(),
+      settings: { ...DEFAULT_PROJECT_SETTINGS, javaPackage: 'com.acme' },
+    });
+
+    const res = await service.updateProject('u1', 'p1', {
+      name: '  Tienda ',
+      settings: { javaPackage: 'com.acme' },
+    });
+
+    expect(res.settings.javaPackage).toBe('com.acme');
+    expect(prisma.project.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: {
+          name: 'Tienda',
+          settings: {
+            upsert: {
+              create: { javaPackage: 'com.acme' },
+              update: { javaPackage: 'com.acme' },
+            },
+          },
+        },
+      }),
+    );
+    expect(activity.record).toHaveBeenCalledWith(
+      expect.objectContaining({
+        action: 'PROJECT_UPDATED',
+        metadata: { fields: ['name', 'settings.javaPackage'], name: 'Tienda' },
+      }),
+    );
+  });
+
+  it('sin settings guardados devuelve los defaults', async () => {
+    as('OWNER');
+    prisma.project.update.mockResolvedValue({
+      id: 'p1',
+      name: 'Tienda',
+      description: 'Nueva',
+      updatedAt: new Date(),
+      settings: null,
+    });
+
+    const res = await service.updateProject('u1', 'p1', {
+      description: 'Nueva',
+    });
+    expect(res.settings).toEqual(DEFAULT_PROJECT_SETTINGS);
+  });
+
+  it('un editor no puede cambiar el proyecto', async () => {
+    as('EDITOR');
+    await expect(
+      service.updateProject('u1', 'p1', { name: 'Otro' }),
+    ).rejects.toThrow(ForbiddenException);
+    expect(prisma.project.update).not.toHaveBeenCalled();
+  });
+
+  it('no deja el nombre vacío', async () => {
+    as('OWNER');
+    await expect(
+      service.updateProject('u1', 'p1', { name: '   ' }),
+    ).rejects.toThrow(BadRequestException);
+  });
+});
@@ -1,13 +1,20 @@
 import {
   BadRequestException,
   Controller,
+  ForbiddenException,
   Get,
+  GoneException,
+  Headers,
+  Ip,
   NotFoundException,
   Param,
   Query,
+  Res,
 } from '@nestjs/common';
-import { PrismaService } from '../common/prisma.service';
+import type { Response } from 'express';
+import { TooManyAttemptsException } from '../common/attempt-throttle';
 import { DiagramsService } from '../diagrams/diagrams.service';
+import { ShareService } from '../share/share.service';
 
 /**
  * Endpoint público para leer diagramas por share token.
@@ -15,69 +22,68 @@ import { DiagramsService } from '../diagrams/diagrams.service';
  * tabla `diagram` (campo JSON `snapshot`), vía `DiagramsService`.
  *
  * GET /api/public/projects/:projectId/diagram?share=TOKEN
- * Respuesta: { snapshot: { nodes, edges, updatedAt } }
+ *   Header opcional `x-share-password` (o ?password=) para links protegidos.
+ * Respuesta: { snapshot: { nodes, edges, updatedAt }, role }
+ *
+ * Cada respuesta OK cuenta como un uso del link (accessCount / maxUses);
+ * el join por socket de la misma visita no suma otro (ver ShareService).
+ * Contraseña faltante/incorrecta → 403 con `code` (no 401: el frontend
+ * interpreta 401 como sesión vencida); demasiadas incorrectas → 429.
  */
 @Controller('public/projects/:projectId/diagram')
 export class PublicDiagramController {
   constructor(
-    private readonly prisma: PrismaService,
     private readonly diagrams: DiagramsService,
+    private readonly share: ShareService,
   ) {}
 
   @Get()
   async getDiagramPublic(
     @Param('projectId') projectId: string,
+    @Ip() ip: string,
+    @Res({ passthrough: true }) response: Response,
     @Query('share') shareToken?: string,
+    @Query('password') passwordQuery?: string,
+    @Headers('x-share-password') passwordHeader?: string,
   ) {
     if (!shareToken) {
       throw new BadRequestException('Token de compartir requerido (share)');
     }
 
-    // 1) Validar que el token pertenece al proyecto (usa TU modelo real)
-    const share = await this.prisma.projectShareLink.findFirst({
-      where: {
-        projectId,
-        token: shareToken,
-        // ⚠️ No usamos revokedAt porque tu modelo no lo tiene.
-        // Si tu modelo tuviera flags/campos de estado, haremos checks abajo.
-      },
-      // Traemos lo justo; si querés, añade más campos según tus necesidades
-      select: {
-        id: true,
-        // Campos opcionales que podrían existir en TU esquema:
-        // expiresAt: true,
-        // disabledAt: true,
-        // deletedAt: true,
-        // revoked: true,
-      } as any,
+    const res = await this.share.checkLink(projectId, shareToken, {
+      password: passwordHeader || passwordQuery,
+      consume: true,
+      ip,
     });
 
-    if (!share) {
-      throw new NotFoundException(
-        'Proyecto no encontrado o token de compartir inválido',
-      );
-    }
-
-    // 2) Chequeos genéricos de estado (opcionales y tolerantes al esquema)
-    const now = new Date();
-    const s: any = share;
-    if (
-      (s.expiresAt && new Date(s.expiresAt) < now) || // expirado
-      s.disabledAt || // deshabilitado
-      s.deletedAt || // borrado
-      s.revoked === true // revocado (boolean)
-    ) {
-      throw new NotFoundException(
-        'Token de compartir inválido o no vigente para este proyecto',
-      );
+    if (!res.ok) {
+      switch (res.reason) {
+        case 'password_required':
+          throw new ForbiddenException({
+            code: 'share_password_required',
+            message: 'Este link requiere contraseña',
+          });
+        case 'wrong_password':
+          throw new ForbiddenException({
+            code: 'share_password_invalid',
+            message: 'Contraseña incorrecta',
+          });
+        case 'locked':
+          response.setHeader('Retry-After', String(res.retryAfter));
+          throw new TooManyAttemptsException(
+            res.retryAfter,
+            'share_password_locked',
+          );
+        case 'exhausted':
+          throw new GoneException('Este link alcanzó su límite de accesos');
+        default:
+          throw new NotFoundException(
+            'Token de compartir inválido o no vigente para este proyecto',
+          );
+      }
     }
 
-    // 3) Devolver SIEMPRE lo que hay persistido en `diagram.snapshot`
-    //    (misma fuente que el endpoint privado).
-    //    Si getOrInit es private, exponé un wrapper público en el service;
-    //    aquí usamos indexado para no tocar tu service.
-    const snapshot = await (this.diagrams as any)['getOrInit'](projectId);
-
-    return { snapshot };
+    const snapshot = await this.diagrams.getSnapshot(projectId);
+    return { snapshot, role: res.role };
   }
 }
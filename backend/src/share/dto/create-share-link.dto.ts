@@ -1,12 +1,39 @@
 // src/share/dto/create-share-link.dto.ts
-import { IsEnum, IsISO8601, IsOptional } from 'class-validator';
-import { ProjectRole } from '@prisma/client';
+import {
+  IsIn,
+  IsISO8601,
+  IsInt,
+  IsOptional,
+  IsString,
+  MaxLength,
+  Min,
+  MinLength,
+} from 'class-validator';
+
+// Un link nunca da permisos de administración (ver shareLinkRole)
+export const SHARE_LINK_ROLES = ['VIEWER', 'EDITOR'] as const;
 
 export class CreateShareLinkDto {
-  @IsEnum(ProjectRole, { message: 'role inválido' })
-  role!: ProjectRole; // normalmente VIEWER
+  @IsOptional()
+  @IsString()
+  @MaxLength(80)
+  name?: string; // ej: "Cliente", "Equipo QA"
+
+  @IsIn(SHARE_LINK_ROLES, { message: 'role inválido' })
+  role!: (typeof SHARE_LINK_ROLES)[number]; // normalmente VIEWER
 
   @IsOptional()
   @IsISO8601({ strict: true }, { message: 'expiresAt debe ser ISO8601' })
   expiresAt?: string; // opcional, ej: "2025-12-31T23:59:59.000Z"
+
+  @IsOptional()
+  @IsString()
+  @MinLength(4)
+  @MaxLength(100)
+  password?: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  maxUses?: number;
 }
@@ -0,0 +1,67 @@
+// src/share/share-throttle.service.ts
+import { Inject, Injectable } from '@nestjs/common';
+import type Redis from 'ioredis';
+import {
+  AttemptThrottle,
+  type ThrottleScope,
+} from '../common/attempt-throttle';
+
+// Contraseñas incorrectas libres antes de bloquear (por link y por IP)
+const MAX_ATTEMPTS = Number(process.env.SHARE_PASSWORD_MAX_ATTEMPTS ?? 10);
+const IP_MAX_ATTEMPTS = Number(
+  process.env.SHARE_PASSWORD_IP_MAX_ATTEMPTS ?? 20,
+);
+// Aperturas desde la misma IP dentro de esta ventana son una sola visita
+const VISIT_WINDOW_MS =
+  Number(process.env.SHARE_VISIT_WINDOW_MINUTES ?? 10) * 60_000;
+
+/**
+ * Frena la fuerza bruta sobre contraseñas de links (REST y socket) y
+ * agrupa las aperturas de una misma visita: el editor lee el diagrama por
+ * REST y después se une por socket, y eso cuenta como un solo uso.
+ */
+@Injectable()
+export class ShareThrottleService extends AttemptThrottle {
+  constructor(@Inject('REDIS_PUB') redis: Redis) {
+    super(redis, {
+      baseMs: 30_000,
+      maxMs: 15 * 60_000,
+      windowMs: 60 * 60_000,
+    });
+  }
+
+  /** Segundos de bloqueo que quedan para el link o la IP (0 = puede probar) */
+  async lockedFor(linkId: string, ip?: string | null) {
+    return Math.ceil((await this.remaining(this.scopes(linkId, ip))) / 1000);
+  }
+
+  /** Suma una contraseña incorrecta; devuelve el bloqueo que dispara (s) */
+  async recordFailure(linkId: string, ip?: string | null) {
+    return Math.ceil((await this.fail(this.scopes(linkId, ip))) / 1000);
+  }
+
+  async recordSuccess(linkId: string) {
+    await this.reset(this.linkKey(linkId));
+  }
+
+  /** Esta IP ya tiene una visita en curso con el link (ya contó su uso) */
+  async visiting(linkId: string, ip?: string | null) {
+    return !!ip && this.claimed(this.visitKey(linkId, ip));
+  }
+
+  /** Abre una visita; false si otra apertura de la misma IP ganó la carrera */
+  async startVisit(linkId: string, ip?: string | null) {
+    return !ip || this.claim(this.visitKey(linkId, ip), VISIT_WINDOW_MS);
+  }
+
+  private linkKey = (linkId: string) => `share:link:${linkId}`;
+
+  private visitKey = (linkId: string, ip: string) =>
+    `share:visit:${linkId}:${ip}`;
+
+  private scopes(linkId: string, ip?: string | null): ThrottleScope[] {
+    const scopes = [{ key: this.linkKey(linkId), max: MAX_ATTEMPTS }];
+    if (ip) scopes.push({ key: `share:ip:${ip}`, max: IP_MAX_ATTEMPTS });
+    return scopes;
+  }
+}
@@ -11,28 +11,45 @@ import {
 import { ShareService } from './share.service';
 import { CreateShareLinkDto } from './dto/create-share-link.dto';
 import { JwtAuthGuard } from '../auth/jwt.guard'; // ajusta el path a tu guard real
+import { RequireCapability } from '../policy/require-capability.decorator';
+import { DiagramGateway } from '../diagram-realtime/diagram.gateway';
 
 @UseGuards(JwtAuthGuard)
 @Controller('projects/:projectId/share')
 export class ShareController {
-  constructor(private share: ShareService) {}
+  constructor(
+    private share: ShareService,
+    private gateway: DiagramGateway, // corta a quienes entraron por el link
+  ) {}
 
+  // GET /api/projects/:projectId/share  (todos los links, con estado y uso)
   @Get()
-  async getLink(@Req() req: any, @Param('projectId') projectId: string) {
-    return this.share.getLink(req.user.id, projectId);
+  @RequireCapability('share:manage')
+  async list(@Req() req: any, @Param('projectId') projectId: string) {
+    return this.share.listLinks(req.user.id, projectId);
   }
 
+  // POST /api/projects/:projectId/share  { name?, role, expiresAt?, password?, maxUses? }
   @Post()
+  @RequireCapability('share:manage')
   async create(
     @Req() req: any,
     @Param('projectId') projectId: string,
     @Body() dto: CreateShareLinkDto,
   ) {
-    return this.share.createLink(
-      req.user.id,
-      projectId,
-      dto.role,
-      dto.expiresAt,
-    );
+    return this.share.createLink(req.user.id, projectId, dto);
+  }
+
+  // POST /api/projects/:projectId/share/:linkId/revoke
+  @Post(':linkId/revoke')
+  @RequireCapability('share:manage')
+  async revoke(
+    @Req() req: any,
+    @Param('projectId') projectId: string,
+    @Param('linkId') linkId: string,
+  ) {
+    const link = await this.share.revokeLink(req.user.id, projectId, linkId);
+    this.gateway.revokeShareLink(projectId, link.id);
+    return link;
   }
 }
@@ -1,12 +1,15 @@
 // src/share/share.module.ts
 import { Module } from '@nestjs/common';
-import { ShareController } from './share.controller';
 import { ShareService } from './share.service';
+import { ShareThrottleService } from './share-throttle.service';
 import { PrismaService } from '../common/prisma.service';
+import { RedisModule } from '../redis/redis.module';
 
+// ShareController se registra en ProjectsModule: usa DiagramGateway, que a
+// su vez depende de ShareService
 @Module({
-  controllers: [ShareController],
-  providers: [ShareService, PrismaService],
+  imports: [RedisModule],
+  providers: [ShareService, ShareThrottleService, PrismaService],
   exports: [ShareService], // <-- IMPORTANTE
 })
 export class ShareModule {}
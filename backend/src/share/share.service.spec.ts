@@ -0,0 +1,235 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { NotFoundException } from '@nestjs/common';
+import * as bcrypt from 'bcrypt';
+import { ShareService } from './share.service';
+import { ShareThrottleService } from './share-throttle.service';
+import { PrismaService } from '../common/prisma.service';
+import { PolicyService } from '../policy/policy.service';
+import { ActivityService } from '../activity/activity.service';
+
+describe('ShareService', () => {
+  let service: ShareService;
+  const prisma = {
+    projectShareLink: {
+      create: jest.fn(),
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+  };
+  const policy = { assert: jest.fn() };
+  const activity = { record: jest.fn() };
+
+  const link = (over: Record<string, unknown> = {}) => ({
+    id: 'l1',
+    name: 'Cliente',
+    token: 'tok',
+    role: 'VIEWER',
+    expiresAt: null,
+    passwordHash: null,
+    maxUses: null,
+    accessCount: 0,
+    lastUsedAt: null,
+    revokedAt: null,
+    createdAt: new Date('2026-10-01T00:00:00Z'),
+    project: { deletedAt: null },
+    ...over,
+  });
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ShareService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: PolicyService, useValue: policy },
+        { provide: ActivityService, useValue: activity },
+        // Sin Redis listo el throttle usa memoria (una instancia por test)
+        {
+          provide: ShareThrottleService,
+          useValue: new ShareThrottleService({ status: 'end' } as never),
+        },
+      ],
+    }).compile();
+
+    service = module.get<ShareService>(ShareService);
+    policy.assert.mockResolvedValue('OWNER');
+    prisma.projectShareLink.updateMany.mockResolvedValue({ count: 1 });
+  });
+
+  describe('checkLink', () => {
+    it('acepta un link vigente y cuenta el uso', async () => {
+      prisma.projectShareLink.findFirst.mockResolvedValue(link());
+
+      const res = await service.checkLink('p1', 'tok', { consume: true });
+
+      expect(res).toEqual({ ok: true, linkId: 'l1', role: 'VIEWER' });
+      expect(prisma.projectShareLink.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({ accessCount: { increment: 1 } }),
+        }),
+      );
+    });
+
+    it('rechaza links revocados, vencidos o de proyectos en la papelera', async () => {
+      for (const over of [
+        { revokedAt: new Date() },
+        { expiresAt: new Date(Date.now() - 1000) },
+        { project: { deletedAt: new Date() } },
+      ]) {
+        prisma.projectShareLink.findFirst.mockResolvedValue(link(over));
+        await expect(service.checkLink('p1', 'tok')).resolves.toEqual({
+          ok: false,
+          reason: 'invalid',
+        });
+      }
+    });
+
+    it('pide y verifica la contraseña', async () => {
+      const passwordHash = await bcrypt.hash('secreto', 4);
+      prisma.projectShareLink.findFirst.mockResolvedValue(
+        link({ passwordHash }),
+      );
+
+      await expect(service.checkLink('p1', 'tok')).resolves.toEqual({
+        ok: false,
+        reason: 'password_required',
+      });
+      await expect(
+        service.checkLink('p1', 'tok', { password: 'otra' }),
+      ).resolves.toEqual({ ok: false, reason: 'wrong_password' });
+      await expect(
+        service.checkLink('p1', 'tok', { password: 'secreto' }),
+      ).resolves.toMatchObject({ ok: true });
+    });
+
+    it('un link agotado no abre ni por socket', async () => {
+      prisma.projectShareLink.findFirst.mockResolvedValue(
+        link({ maxUses: 2, accessCount: 2 }),
+      );
+
+      await expect(
+        service.checkLink('p1', 'tok', { consume: true }),
+      ).resolves.toEqual({ ok: false, reason: 'exhausted' });
+      await expect(service.validateShareToken('p1', 'tok')).resolves.toBe(null);
+      expect(prisma.projectShareLink.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('el GET y el join de la misma visita cuentan un solo uso', async () => {
+      prisma.projectShareLink.findFirst.mockResolvedValue(
+        link({ maxUses: 1, accessCount: 0 }),
+      );
+      await expect(
+        service.checkLink('p1', 'tok', { consume: true, ip: '1.1.1.1' }),
+      ).resolves.toMatchObject({ ok: true });
+
+      // El GET gastó el único uso: el join de esa IP entra igual, sin contar
+      prisma.projectShareLink.findFirst.mockResolvedValue(
+        link({ maxUses: 1, accessCount: 1 }),
+      );
+      await expect(
+        service.checkLink('p1', 'tok', { consume: true, ip: '1.1.1.1' }),
+      ).resolves.toMatchObject({ ok: true });
+      expect(prisma.projectShareLink.updateMany).toHaveBeenCalledTimes(1);
+
+      await expect(
+        service.checkLink('p1', 'tok', { consume: true, ip: '2.2.2.2' }),
+      ).resolves.toEqual({ ok: false, reason: 'exhausted' });
+    });
+
+    it('bloquea el link tras varias contraseñas incorrectas', async () => {
+      const passwordHash = await bcrypt.hash('secreto', 4);
+      prisma.projectShareLink.findFirst.mockResolvedValue(
+        link({ passwordHash }),
+      );
+      const attempt = (password: string) =>
+        service.checkLink('p1', 'tok', { password, ip: '1.1.1.1' });
+
+      for (let i = 0; i < 9; i++) {
+        await expect(attempt('otra')).resolves.toEqual({
+          ok: false,
+          reason: 'wrong_password',
+        });
+      }
+      await expect(attempt('otra')).resolves.toEqual({
+        ok: false,
+        reason: 'locked',
+        retryAfter: 30,
+      });
+      // Bloqueado: ni la correcta se prueba hasta que venza
+      await expect(attempt('secreto')).resolves.toMatchObject({
+        reason: 'locked',
+      });
+    });
+
+    it('no supera maxUses con aperturas concurrentes', async () => {
+      prisma.projectShareLink.findFirst.mockResolvedValue(
+        link({ maxUses: 1, accessCount: 0 }),
+      );
+      prisma.projectShareLink.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(
+        service.checkLink('p1', 'tok', { consume: true }),
+      ).resolves.toEqual({ ok: false, reason: 'exhausted' });
+    });
+  });
+
+  it('crea el link con la contraseña hasheada y no la expone', async () => {
+    prisma.projectShareLink.create.mockImplementation(({ data }) =>
+      Promise.resolve(link({ ...data, project: undefined })),
+    );
+
+    const view = await service.createLink('u1', 'p1', {
+      name: 'QA',
+      role: 'EDITOR',
+      password: 'secreto',
+      maxUses: 5,
+    });
+
+    const data = prisma.projectShareLink.create.mock.calls[0][0].data;
+    expect(await bcrypt.compare('secreto', data.passwordHash)).toBe(true);
+    expect(view).not.toHaveProperty('passwordHash');
+    expect(view).toMatchObject({
+      name: 'QA',
+      role: 'EDITOR',
+      hasPassword: true,
+      maxUses: 5,
+      status: 'active',
+    });
+    expect(policy.assert).toHaveBeenCalledWith('u1', 'p1', 'share:manage');
+  });
+
+  it('lista primero los activos y marca el estado de cada link', async () => {
+    prisma.projectShareLink.findMany.mockResolvedValue([
+      link({ id: 'rev', revokedAt: new Date() }),
+      link({ id: 'full', maxUses: 1, accessCount: 1 }),
+      link({ id: 'ok' }),
+    ]);
+
+    const list = await service.listLinks('u1', 'p1');
+
+    expect(list.map((l) => [l.id, l.status])).toEqual([
+      ['ok', 'active'],
+      ['rev', 'revoked'],
+      ['full', 'exhausted'],
+    ]);
+  });
+
+  it('revoca solo links del proyecto', async () => {
+    prisma.projectShareLink.findFirst.mockResolvedValue(null);
+    await expect(service.revokeLink('u1', 'p1', 'x')).rejects.toThrow(
+      NotFoundException,
+    );
+
+    prisma.projectShareLink.findFirst.mockResolvedValue({
+      id: 'l1',
+      revokedAt: null,
+    });
+    prisma.projectShareLink.update.mockImplementation(({ data }) =>
+      Promise.resolve(link(data)),
+    );
+    const view = await service.revokeLink('u1', 'p1', 'l1');
+    expect(view.status).toBe('revoked');
+  });
+});
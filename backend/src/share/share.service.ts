@@ -1,68 +1,226 @@
 // src/share/share.service.ts
-import {
-  Injectable,
-  ForbiddenException,
-  NotFoundException,
-} from '@nestjs/common';
+import { Injectable, NotFoundException } from '@nestjs/common';
 import { PrismaService } from '../common/prisma.service';
+import { PolicyService } from '../policy/policy.service';
 import { ProjectRole } from '@prisma/client';
 import { randomUUID } from 'crypto';
+import * as bcrypt from 'bcrypt';
+import { CreateShareLinkDto } from './dto/create-share-link.dto';
+import { ActivityService } from '../activity/activity.service';
+import { ShareThrottleService } from './share-throttle.service';
+
+export type ShareLinkStatus = 'active' | 'revoked' | 'expired' | 'exhausted';
+
+export type ShareLinkCheck =
+  | { ok: true; linkId: string; role: ProjectRole }
+  | {
+      ok: false;
+      reason: 'invalid' | 'password_required' | 'wrong_password' | 'exhausted';
+    }
+  // Demasiadas contraseñas incorrectas: segundos hasta poder reintentar
+  | { ok: false; reason: 'locked'; retryAfter: number };
+
+const LINK_SELECT = {
+  id: true,
+  name: true,
+  token: true,
+  role: true,
+  expiresAt: true,
+  passwordHash: true,
+  maxUses: true,
+  accessCount: true,
+  lastUsedAt: true,
+  revokedAt: true,
+  createdAt: true,
+} as const;
+
+type LinkRow = {
+  passwordHash: string | null;
+  expiresAt: Date | null;
+  revokedAt: Date | null;
+  maxUses: number | null;
+  accessCount: number;
+};
+
+function linkStatus(link: LinkRow, now = new Date()): ShareLinkStatus {
+  if (link.revokedAt) return 'revoked';
+  if (link.expiresAt && link.expiresAt <= now) return 'expired';
+  if (link.maxUses !== null && link.accessCount >= link.maxUses) {
+    return 'exhausted';
+  }
+  return 'active';
+}
+
+/** Lo que ve quien administra los links (nunca el hash) */
+function toView<T extends LinkRow>({ passwordHash, ...link }: T) {
+  return {
+    ...link,
+    hasPassword: !!passwordHash,
+    status: linkStatus({ passwordHash, ...link }),
+  };
+}
 
 @Injectable()
 export class ShareService {
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    private prisma: PrismaService,
+    private policy: PolicyService,
+    private activity: ActivityService,
+    private throttle: ShareThrottleService,
+  ) {}
 
-  private async ensureOwner(userId: string, projectId: string) {
-    const p = await this.prisma.project.findUnique({
-      where: { id: projectId },
-      select: { ownerId: true },
-    });
-    if (!p) throw new NotFoundException('Proyecto no encontrado');
-    if (p.ownerId !== userId)
-      throw new ForbiddenException('Solo el owner puede administrar el link');
+  private async ensureManager(userId: string, projectId: string) {
+    await this.policy.assert(userId, projectId, 'share:manage');
   }
 
-  async createLink(
-    userId: string,
-    projectId: string,
-    role: ProjectRole,
-    expiresAt?: string,
-  ) {
-    await this.ensureOwner(userId, projectId);
-    const token = randomUUID();
-    return this.prisma.projectShareLink.create({
+  async createLink(userId: string, projectId: string, dto: CreateShareLinkDto) {
+    await this.ensureManager(userId, projectId);
+    const link = await this.prisma.projectShareLink.create({
       data: {
         projectId,
-        token,
-        role,
-        expiresAt: expiresAt ? new Date(expiresAt) : null,
+        token: randomUUID(),
+        name: dto.name?.trim() || null,
+        role: dto.role,
+        expiresAt: dto.expiresAt ? new Date(dto.expiresAt) : null,
+        passwordHash: dto.password ? await bcrypt.hash(dto.password, 10) : null,
+        maxUses: dto.maxUses ?? null,
+      },
+      select: LINK_SELECT,
+    });
+    await this.activity.record({
+      projectId,
+      actorId: userId,
+      action: 'SHARE_LINK_CREATED',
+      targetType: 'shareLink',
+      targetId: link.id,
+      metadata: {
+        name: link.name,
+        role: link.role,
+        hasPassword: !!link.passwordHash,
       },
-      select: { token: true, role: true, expiresAt: true },
     });
+    return toView(link);
   }
 
-  async getLink(userId: string, projectId: string) {
-    await this.ensureOwner(userId, projectId);
-    const now = new Date();
-    const link = await this.prisma.projectShareLink.findFirst({
-      where: {
-        projectId,
-        OR: [{ expiresAt: null }, { expiresAt: { gt: now } }],
-      },
+  /** Todos los links del proyecto (activos primero, después el historial) */
+  async listLinks(userId: string, projectId: string) {
+    await this.ensureManager(userId, projectId);
+    const links = await this.prisma.projectShareLink.findMany({
+      where: { projectId },
       orderBy: { createdAt: 'desc' },
-      select: { token: true, role: true, expiresAt: true },
+      select: LINK_SELECT,
     });
-    return link || null;
+    const views = links.map((l) => toView(l));
+    return [
+      ...views.filter((l) => l.status === 'active'),
+      ...views.filter((l) => l.status !== 'active'),
+    ];
   }
 
-  // Usado por el gateway para validar el acceso por token (viewer)
-  async validateShareToken(projectId: string, token: string) {
+  async revokeLink(userId: string, projectId: string, linkId: string) {
+    await this.ensureManager(userId, projectId);
+    const link = await this.prisma.projectShareLink.findFirst({
+      where: { id: linkId, projectId },
+      select: { id: true, revokedAt: true },
+    });
+    if (!link) throw new NotFoundException('Link no encontrado');
+
+    const updated = await this.prisma.projectShareLink.update({
+      where: { id: link.id },
+      data: { revokedAt: link.revokedAt ?? new Date() },
+      select: LINK_SELECT,
+    });
+    if (!link.revokedAt) {
+      await this.activity.record({
+        projectId,
+        actorId: userId,
+        action: 'SHARE_LINK_REVOKED',
+        targetType: 'shareLink',
+        targetId: link.id,
+        metadata: { name: updated.name },
+      });
+    }
+    return toView(updated);
+  }
+
+  /**
+   * Valida token (+ contraseña) de un link del proyecto.
+   * `consume` cuenta un uso (GET público y primer join de cada socket) y
+   * respeta maxUses; las aperturas de una misma IP dentro de la ventana de
+   * visita (ver ShareThrottleService) cuentan una sola vez, así el join que
+   * sigue al GET del editor no gasta otro uso ni choca con el límite.
+   * Las contraseñas incorrectas se frenan por link y por IP.
+   * Los proyectos en la papelera no se comparten.
+   */
+  async checkLink(
+    projectId: string,
+    token: string,
+    {
+      password,
+      consume = false,
+      ip,
+    }: { password?: string; consume?: boolean; ip?: string | null } = {},
+  ): Promise<ShareLinkCheck> {
     const link = await this.prisma.projectShareLink.findFirst({
       where: { projectId, token },
-      select: { role: true, expiresAt: true },
+      select: {
+        ...LINK_SELECT,
+        project: { select: { deletedAt: true } },
+      },
     });
-    if (!link) return null;
-    if (link.expiresAt && link.expiresAt <= new Date()) return null;
-    return link.role; // ProjectRole
+    if (!link || link.project.deletedAt)
+      return { ok: false, reason: 'invalid' };
+
+    const status = linkStatus(link);
+    if (status === 'revoked' || status === 'expired') {
+      return { ok: false, reason: 'invalid' };
+    }
+    const revisit = await this.throttle.visiting(link.id, ip);
+    if (status === 'exhausted' && !revisit) {
+      return { ok: false, reason: 'exhausted' };
+    }
+    if (link.passwordHash) {
+      if (!password) return { ok: false, reason: 'password_required' };
+      const wait = await this.throttle.lockedFor(link.id, ip);
+      if (wait > 0) return { ok: false, reason: 'locked', retryAfter: wait };
+      if (!(await bcrypt.compare(password, link.passwordHash))) {
+        const lock = await this.throttle.recordFailure(link.id, ip);
+        return lock > 0
+          ? { ok: false, reason: 'locked', retryAfter: lock }
+          : { ok: false, reason: 'wrong_password' };
+      }
+      await this.throttle.recordSuccess(link.id);
+    }
+
+    const now = new Date();
+    if (consume && !revisit && (await this.throttle.startVisit(link.id, ip))) {
+      // Condicional: dos aperturas simultáneas no superan maxUses
+      const { count } = await this.prisma.projectShareLink.updateMany({
+        where: {
+          id: link.id,
+          ...(link.maxUses !== null && {
+            accessCount: { lt: link.maxUses },
+          }),
+        },
+        data: { accessCount: { increment: 1 }, lastUsedAt: now },
+      });
+      if (!count) return { ok: false, reason: 'exhausted' };
+    } else {
+      await this.prisma.projectShareLink.update({
+        where: { id: link.id },
+        data: { lastUsedAt: now },
+      });
+    }
+    return { ok: true, linkId: link.id, role: link.role };
+  }
+
+  // Usado por el gateway para validar el acceso por token
+  async validateShareToken(
+    projectId: string,
+    token: string,
+    password?: string,
+  ) {
+    const res = await this.checkLink(projectId, token, { password });
+    return res.ok ? res.role : null; // ProjectRole
   }
 }
@@ -0,0 +1,176 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import * as bcrypt from 'bcrypt';
+import { createHash } from 'crypto';
+import { AccountService } from './account.service';
+import { PrismaService } from '../common/prisma.service';
+import { MailerService } from '../mail/mailer.service';
+import { MAIL_TRANSPORT, OutboxMailTransport } from '../mail/mail-transport';
+
+const hash = (t: string) => createHash('sha256').update(t).digest('hex');
+
+describe('AccountService', () => {
+  let service: AccountService;
+  const prisma = {
+    user: {
+      findUnique: jest.fn(),
+      findFirst: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    accountToken: {
+      create: jest.fn(),
+      deleteMany: jest.fn(),
+      findUnique: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    authSession: { updateMany: jest.fn() },
+    mailOutbox: { create: jest.fn() },
+  };
+  const user = {
+    id: 'u1',
+    email: 'ana@test.com',
+    name: 'Ana',
+    emailVerifiedAt: null,
+    passwordHash: bcrypt.hashSync('secreto1', 4),
+  };
+
+  /** Token que quedó en el outbox (solo viaja por mail) */
+  const sentToken = () => {
+    const { text } = prisma.mailOutbox.create.mock.calls[0][0].data;
+    return /token=(\S+)/.exec(text)![1];
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AccountService,
+        MailerService,
+        OutboxMailTransport,
+        { provide: MAIL_TRANSPORT, useExisting: OutboxMailTransport },
+        { provide: PrismaService, useValue: prisma },
+      ],
+    }).compile();
+
+    service = module.get(AccountService);
+    prisma.user.findUnique.mockResolvedValue(user);
+    prisma.accountToken.updateMany.mockResolvedValue({ count: 1 });
+  });
+
+  it('manda el link de reseteo por mail y guarda solo el hash', async () => {
+    prisma.user.findFirst.mockResolvedValue(user);
+
+    await service.requestPasswordReset(' Ana@Test.com ');
+
+    expect(prisma.accountToken.deleteMany).toHaveBeenCalledWith({
+      where: { userId: 'u1', type: 'RESET_PASSWORD', usedAt: null },
+    });
+    const token = sentToken();
+    expect(prisma.mailOutbox.create.mock.calls[0][0].data.text).toContain(
+      '/reset-password?token=',
+    );
+    expect(prisma.accountToken.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        userId: 'u1',
+        type: 'RESET_PASSWORD',
+        tokenHash: hash(token),
+      }),
+    });
+  });
+
+  it('no revela si el email no tiene cuenta', async () => {
+    prisma.user.findFirst.mockResolvedValue(null);
+
+    await expect(
+      service.requestPasswordReset('nadie@test.com'),
+    ).resolves.toBeUndefined();
+    expect(prisma.accountToken.create).not.toHaveBeenCalled();
+    expect(prisma.mailOutbox.create).not.toHaveBeenCalled();
+  });
+
+  it('resetea con un token de un solo uso y cierra todas las sesiones', async () => {
+    prisma.accountToken.findUnique.mockResolvedValue({
+      id: 't1',
+      userId: 'u1',
+      type: 'RESET_PASSWORD',
+    });
+
+    await service.resetPassword('tok', 'nueva-clave');
+
+    expect(prisma.accountToken.findUnique).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { tokenHash: hash('tok') } }),
+    );
+    expect(prisma.accountToken.updateMany.mock.calls[0][0].where).toMatchObject(
+      { id: 't1', usedAt: null },
+    );
+    const { passwordHash } = prisma.user.update.mock.calls[0][0].data;
+    expect(await bcrypt.compare('nueva-clave', passwordHash)).toBe(true);
+    expect(prisma.authSession.updateMany).toHaveBeenCalledWith({
+      where: { userId: 'u1', revokedAt: null },
+      data: { revokedAt: expect.any(Date) },
+    });
+
+    // Segundo uso (o vencido): el update condicional no encuentra nada
+    prisma.accountToken.updateMany.mockResolvedValue({ count: 0 });
+    await expect(service.resetPassword('tok', 'otra-clave')).rejects.toThrow(
+      BadRequestException,
+    );
+  });
+
+  it('no acepta un token de verificación para resetear la contraseña', async () => {
+    prisma.accountToken.findUnique.mockResolvedValue({
+      id: 't1',
+      userId: 'u1',
+      type: 'VERIFY_EMAIL',
+    });
+
+    await expect(service.resetPassword('tok', 'nueva-clave')).rejects.toThrow(
+      BadRequestException,
+    );
+    expect(prisma.user.update).not.toHaveBeenCalled();
+  });
+
+  it('cambia la contraseña con la actual y deja abierta la sesión del pedido', async () => {
+    await expect(
+      service.changePassword('u1', 'incorrecta', 'nueva-clave', 's1'),
+    ).rejects.toThrow(BadRequestException);
+    expect(prisma.user.update).not.toHaveBeenCalled();
+
+    await service.changePassword('u1', 'secreto1', 'nueva-clave', 's1');
+
+    expect(prisma.authSession.updateMany).toHaveBeenCalledWith({
+      where: { userId: 'u1', revokedAt: null, id: { not: 's1' } },
+      data: { revokedAt: expect.any(Date) },
+    });
+  });
+
+  it('verifica el email con el link del mail', async () => {
+    await service.sendEmailVerification('u1');
+    const token = sentToken();
+    prisma.accountToken.findUnique.mockResolvedValue({
+      id: 't1',
+      userId: 'u1',
+      type: 'VERIFY_EMAIL',
+    });
+
+    await service.verifyEmail(token);
+
+    expect(prisma.user.updateMany).toHaveBeenCalledWith({
+      where: { id: 'u1', emailVerifiedAt: null },
+      data: { emailVerifiedAt: expect.any(Date) },
+    });
+  });
+
+  it('no reenvía la verificación a un email ya verificado', async () => {
+    prisma.user.findUnique.mockResolvedValue({
+      ...user,
+      emailVerifiedAt: new Date(),
+    });
+
+    await expect(service.sendEmailVerification('u1')).rejects.toThrow(
+      BadRequestException,
+    );
+    expect(prisma.mailOutbox.create).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,208 @@
+// src/users/account.service.ts
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { AccountTokenType } from '@prisma/client';
+import * as bcrypt from 'bcrypt';
+import { createHash, randomBytes } from 'crypto';
+import { PrismaService } from '../common/prisma.service';
+import { MailerService } from '../mail/mailer.service';
+import { USER_SELECT } from './users.service';
+
+// Horas que sirve el link de verificación de email
+export const EMAIL_VERIFICATION_TTL_MS =
+  Number(process.env.EMAIL_VERIFICATION_TTL_HOURS ?? 48) * 3_600_000;
+
+// Minutos que sirve el link para resetear la contraseña
+export const PASSWORD_RESET_TTL_MS =
+  Number(process.env.PASSWORD_RESET_TTL_MINUTES ?? 60) * 60_000;
+
+const hashToken = (token: string) =>
+  createHash('sha256').update(token).digest('hex');
+
+const INVALID_LINK = 'El link no es válido o ya venció';
+
+@Injectable()
+export class AccountService {
+  constructor(
+    private prisma: PrismaService,
+    private mailer: MailerService,
+  ) {}
+
+  async updateProfile(userId: string, name: string) {
+    return this.prisma.user.update({
+      where: { id: userId },
+      data: { name: name.trim() },
+      select: USER_SELECT,
+    });
+  }
+
+  /**
+   * Cambia la contraseña conociendo la actual. Las demás sesiones se cierran
+   * (la del pedido sigue abierta) y los links de reseteo pendientes caducan.
+   */
+  async changePassword(
+    userId: string,
+    currentPassword: string,
+    newPassword: string,
+    currentSessionId?: string,
+  ) {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { passwordHash: true },
+    });
+    if (!user) throw new NotFoundException('Usuario no encontrado');
+    const ok = await bcrypt.compare(currentPassword, user.passwordHash);
+    // 400: un 401 con sesión válida dispara la renovación del token y el logout
+    if (!ok) throw new BadRequestException('La contraseña actual no coincide');
+
+    await this.setPassword(userId, newPassword, currentSessionId);
+  }
+
+  /** Manda (o reenvía) el link de verificación; el anterior deja de servir */
+  async sendEmailVerification(userId: string) {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { email: true, name: true, emailVerifiedAt: true },
+    });
+    if (!user) throw new NotFoundException('Usuario no encontrado');
+    if (user.emailVerifiedAt) {
+      throw new BadRequestException('El email ya está verificado');
+    }
+
+    const token = await this.issueToken(
+      userId,
+      'VERIFY_EMAIL',
+      EMAIL_VERIFICATION_TTL_MS,
+    );
+    const url = this.mailer.link(`/verify-email?token=${token}`);
+    await this.mailer.send({
+      to: user.email,
+      subject: 'Confirmá tu email',
+      text:
+        `Hola ${user.name}, confirmá tu email entrando a este link:\n${url}\n\n` +
+        'Si no creaste una cuenta, ignorá este mensaje.',
+    });
+  }
+
+  async verifyEmail(token: string) {
+    const userId = await this.consumeToken(token, 'VERIFY_EMAIL');
+    // Un link viejo de un email ya verificado no cambia la fecha
+    await this.prisma.user.updateMany({
+      where: { id: userId, emailVerifiedAt: null },
+      data: { emailVerifiedAt: new Date() },
+    });
+    return this.prisma.user.findUnique({
+      where: { id: userId },
+      select: USER_SELECT,
+    });
+  }
+
+  /**
+   * Link de reseteo por mail. Responde igual exista o no la cuenta, para no
+   * revelar qué emails están registrados.
+   */
+  async requestPasswordReset(rawEmail: string) {
+    const email = rawEmail.trim();
+    const user = await this.prisma.user.findFirst({
+      where: { email: { equals: email, mode: 'insensitive' } },
+      select: { id: true, email: true, name: true },
+    });
+    if (!user) return;
+
+    const token = await this.issueToken(
+      user.id,
+      'RESET_PASSWORD',
+      PASSWORD_RESET_TTL_MS,
+    );
+    const url = this.mailer.link(`/reset-password?token=${token}`);
+    const minutes = Math.round(PASSWORD_RESET_TTL_MS / 60_000);
+    await this.mailer.send({
+      to: user.email,
+      subject: 'Restablecer tu contraseña',
+      text:
+        `Hola ${user.name}, pediste restablecer tu contraseña.\n\n` +
+        `Elegí una nueva acá (el link sirve una sola vez y vence en ${minutes} minutos):\n${url}\n\n` +
+        'Si no fuiste vos, ignorá este mensaje: tu contraseña sigue igual.',
+    });
+  }
+
+  /** Nueva contraseña con el link del mail; cierra todas las sesiones */
+  async resetPassword(token: string, password: string) {
+    const userId = await this.consumeToken(token, 'RESET_PASSWORD');
+    await this.setPassword(userId, password);
+    // El link llegó a su casilla: el email queda verificado
+    await this.prisma.user.updateMany({
+      where: { id: userId, emailVerifiedAt: null },
+      data: { emailVerifiedAt: new Date() },
+    });
+  }
+
+  private async setPassword(
+    userId: string,
+    password: string,
+    keepSessionId?: string,
+  ) {
+    const now = new Date();
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: { passwordHash: await bcrypt.hash(password, 10) },
+    });
+    await this.prisma.accountToken.updateMany({
+      where: { userId, type: 'RESET_PASSWORD', usedAt: null },
+      data: { usedAt: now },
+    });
+    // Revocar la sesión corta también sus access tokens (JwtStrategy)
+    await this.prisma.authSession.updateMany({
+      where: {
+        userId,
+        revokedAt: null,
+        ...(keepSessionId && { id: { not: keepSessionId } }),
+      },
+      data: { revokedAt: now },
+    });
+  }
+
+  /** Token nuevo en claro (solo viaja por mail); invalida los pendientes */
+  private async issueToken(
+    userId: string,
+    type: AccountTokenType,
+    ttlMs: number,
+  ) {
+    await this.prisma.accountToken.deleteMany({
+      where: { userId, type, usedAt: null },
+    });
+    const token = randomBytes(32).toString('base64url');
+    await this.prisma.accountToken.create({
+      data: {
+        userId,
+        type,
+        tokenHash: hashToken(token),
+        expiresAt: new Date(Date.now() + ttlMs),
+      },
+    });
+    return token;
+  }
+
+  /**
+   * Marca el token como usado y devuelve su usuario. El update es condicional
+   * a `usedAt: null`: si el link se usa dos veces a la vez, gana uno.
+   */
+  private async consumeToken(token: string, type: AccountTokenType) {
+    const now = new Date();
+    const row = await this.prisma.accountToken.findUnique({
+      where: { tokenHash: hashToken(token) },
+      select: { id: true, userId: true, type: true },
+    });
+    if (!row || row.type !== type) throw new BadRequestException(INVALID_LINK);
+
+    const { count } = await this.prisma.accountToken.updateMany({
+      where: { id: row.id, usedAt: null, expiresAt: { gt: now } },
+      data: { usedAt: now },
+    });
+    if (!count) throw new BadRequestException(INVALID_LINK);
+    return row.userId;
+  }
+}
@@ -0,0 +1,36 @@
+import {
+  IsEmail,
+  IsNotEmpty,
+  IsString,
+  IsStrongPassword,
+  MaxLength,
+} from 'class-validator';
+import {
+  PASSWORD_STRENGTH,
+  PASSWORD_STRENGTH_MESSAGE,
+} from './create-user.dto';
+
+// POST /api/users/verify-email  { token }
+export class VerifyEmailDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(200)
+  token: string;
+}
+
+// POST /api/users/forgot-password  { email }
+export class ForgotPasswordDto {
+  @IsEmail()
+  email: string;
+}
+
+// POST /api/users/reset-password  { token, password }
+export class ResetPasswordDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(200)
+  token: string;
+
+  @IsStrongPassword(PASSWORD_STRENGTH, { message: PASSWORD_STRENGTH_MESSAGE })
+  password: string;
+}
@@ -0,0 +1,15 @@
+import { IsNotEmpty, IsString, IsStrongPassword } from 'class-validator';
+import {
+  PASSWORD_STRENGTH,
+  PASSWORD_STRENGTH_MESSAGE,
+} from './create-user.dto';
+
+// POST /api/users/me/password  { currentPassword, newPassword }
+export class ChangePasswordDto {
+  @IsString()
+  @IsNotEmpty()
+  currentPassword: string;
+
+  @IsStrongPassword(PASSWORD_STRENGTH, { message: PASSWORD_STRENGTH_MESSAGE })
+  newPassword: string;
+}
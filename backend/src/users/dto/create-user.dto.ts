@@ -1,4 +1,16 @@
-import { IsEmail, IsNotEmpty, MinLength } from 'class-validator';
+import { IsEmail, IsNotEmpty, IsStrongPassword } from 'class-validator';
+
+// Mínimo exigido a las contraseñas nuevas (registro, cambio y reseteo).
+// El login sigue aceptando las que se crearon antes con 6 caracteres
+export const PASSWORD_STRENGTH = {
+  minLength: 8,
+  minLowercase: 1,
+  minUppercase: 0,
+  minNumbers: 1,
+  minSymbols: 0,
+};
+export const PASSWORD_STRENGTH_MESSAGE =
+  'La contraseña debe tener al menos 8 caracteres, con minúsculas y números';
 
 export class CreateUserDto {
   @IsEmail()
@@ -7,6 +19,6 @@ export class CreateUserDto {
   @IsNotEmpty()
   name: string;
 
-  @MinLength(6)
+  @IsStrongPassword(PASSWORD_STRENGTH, { message: PASSWORD_STRENGTH_MESSAGE })
   password: string;
 }
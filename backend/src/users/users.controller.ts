@@ -1,11 +1,33 @@
-import { Body, Controller, Get, Post, Req, UseGuards } from '@nestjs/common';
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  NotFoundException,
+  Patch,
+  Post,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
 import { UsersService } from './users.service';
+import { AccountService } from './account.service';
 import { CreateUserDto } from './dto/create-user.dto';
+import { UpdateProfileDto } from './dto/update-profile.dto';
+import { ChangePasswordDto } from './dto/change-password.dto';
+import {
+  ForgotPasswordDto,
+  ResetPasswordDto,
+  VerifyEmailDto,
+} from './dto/account-token.dto';
 import { JwtAuthGuard } from '../auth/jwt.guard';
 
 @Controller('users')
 export class UsersController {
-  constructor(private readonly usersService: UsersService) {}
+  constructor(
+    private readonly usersService: UsersService,
+    private readonly account: AccountService,
+  ) {}
 
   @Post('register')
   async register(@Body() dto: CreateUserDto) {
@@ -14,12 +36,68 @@ export class UsersController {
       dto.name,
       dto.password,
     );
+    await this.account.sendEmailVerification(user.id);
     return { message: 'Usuario creado', user };
   }
 
   @UseGuards(JwtAuthGuard)
   @Get('me')
   async me(@Req() req: any) {
-    return req.user; // viene del JwtStrategy (payload “sub”, “email”, etc.)
+    const userId: string = req.user.id;
+    const user = await this.usersService.findById(userId);
+    if (!user) throw new NotFoundException('Usuario no encontrado');
+    return user;
+  }
+
+  // PATCH /api/users/me  { name }
+  @UseGuards(JwtAuthGuard)
+  @Patch('me')
+  async updateMe(@Req() req: any, @Body() dto: UpdateProfileDto) {
+    const userId: string = req.user.id;
+    return this.account.updateProfile(userId, dto.name);
+  }
+
+  // POST /api/users/me/password  { currentPassword, newPassword }
+  @UseGuards(JwtAuthGuard)
+  @Post('me/password')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async changePassword(@Req() req: any, @Body() dto: ChangePasswordDto) {
+    const userId: string = req.user.id;
+    await this.account.changePassword(
+      userId,
+      dto.currentPassword,
+      dto.newPassword,
+      req.user.sessionId,
+    );
+  }
+
+  // POST /api/users/me/verify-email → reenvía el link de verificación
+  @UseGuards(JwtAuthGuard)
+  @Post('me/verify-email')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async resendVerification(@Req() req: any) {
+    const userId: string = req.user.id;
+    await this.account.sendEmailVerification(userId);
+  }
+
+  // POST /api/users/verify-email  { token } (link del mail)
+  @Post('verify-email')
+  @HttpCode(HttpStatus.OK)
+  async verifyEmail(@Body() dto: VerifyEmailDto) {
+    return this.account.verifyEmail(dto.token);
+  }
+
+  // POST /api/users/forgot-password  { email }
+  @Post('forgot-password')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async forgotPassword(@Body() dto: ForgotPasswordDto) {
+    await this.account.requestPasswordReset(dto.email);
+  }
+
+  // POST /api/users/reset-password  { token, password }
+  @Post('reset-password')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async resetPassword(@Body() dto: ResetPasswordDto) {
+    await this.account.resetPassword(dto.token, dto.password);
   }
 }
@@ -2,6 +2,16 @@ import { BadRequestException, Injectable } from '@nestjs/common';
 import { PrismaService } from '../common/prisma.service';
 import * as bcrypt from 'bcrypt';
 
+/** Datos públicos de la cuenta (nunca el hash de la contraseña) */
+export const USER_SELECT = {
+  id: true,
+  email: true,
+  name: true,
+  role: true,
+  emailVerifiedAt: true,
+  createdAt: true,
+} as const;
+
 @Injectable()
 export class UsersService {
   constructor(private prisma: PrismaService) {}
@@ -13,13 +23,7 @@ export class UsersService {
     const passwordHash = await bcrypt.hash(password, 10);
     const user = await this.prisma.user.create({
       data: { email, name, passwordHash },
-      select: {
-        id: true,
-        email: true,
-        name: true,
-        role: true,
-        createdAt: true,
-      },
+      select: USER_SELECT,
     });
     return user;
   }
@@ -31,13 +35,7 @@ export class UsersService {
   async findById(id: string) {
     return this.prisma.user.findUnique({
       where: { id },
-      select: {
-        id: true,
-        email: true,
-        name: true,
-        role: true,
-        createdAt: true,
-      },
+      select: USER_SELECT,
     });
   }
 }
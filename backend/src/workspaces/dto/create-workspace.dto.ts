@@ -0,0 +1,21 @@
+// src/workspaces/dto/create-workspace.dto.ts
+import {
+  IsIn,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { ASSIGNABLE_ROLES } from '../../projects/dto/update-member.dto';
+
+export class CreateWorkspaceDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(80)
+  name: string;
+
+  // Rol que heredan los miembros en los proyectos (default EDITOR)
+  @IsOptional()
+  @IsIn(ASSIGNABLE_ROLES)
+  defaultProjectRole?: (typeof ASSIGNABLE_ROLES)[number];
+}
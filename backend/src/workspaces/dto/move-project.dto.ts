@@ -0,0 +1,8 @@
+// src/workspaces/dto/move-project.dto.ts
+import { IsOptional, IsString } from 'class-validator';
+
+export class MoveProjectDto {
+  @IsOptional()
+  @IsString()
+  workspaceId?: string | null; // null/ausente = volver a personal
+}
@@ -0,0 +1,21 @@
+// src/workspaces/dto/update-workspace.dto.ts
+import {
+  IsIn,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { ASSIGNABLE_ROLES } from '../../projects/dto/update-member.dto';
+
+export class UpdateWorkspaceDto {
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(80)
+  name?: string;
+
+  @IsOptional()
+  @IsIn(ASSIGNABLE_ROLES)
+  defaultProjectRole?: (typeof ASSIGNABLE_ROLES)[number];
+}
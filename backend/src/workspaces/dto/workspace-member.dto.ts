@@ -0,0 +1,19 @@
+// src/workspaces/dto/workspace-member.dto.ts
+import { IsEmail, IsIn, IsOptional } from 'class-validator';
+
+// OWNER es quien creó el workspace; no se asigna por acá
+export const ASSIGNABLE_WORKSPACE_ROLES = ['MEMBER', 'ADMIN'] as const;
+
+export class AddWorkspaceMemberDto {
+  @IsEmail({}, { message: 'Email inválido' })
+  email: string;
+
+  @IsOptional()
+  @IsIn(ASSIGNABLE_WORKSPACE_ROLES)
+  role?: (typeof ASSIGNABLE_WORKSPACE_ROLES)[number]; // default MEMBER
+}
+
+export class UpdateWorkspaceMemberDto {
+  @IsIn(ASSIGNABLE_WORKSPACE_ROLES)
+  role: (typeof ASSIGNABLE_WORKSPACE_ROLES)[number];
+}
@@ -0,0 +1,125 @@
+// src/workspaces/workspaces.controller.ts
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Patch,
+  Post,
+  Put,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import { JwtAuthGuard } from '../auth/jwt.guard';
+import { RequireCapability } from '../policy/require-capability.decorator';
+import { WorkspacesService } from './workspaces.service';
+import { CreateWorkspaceDto } from './dto/create-workspace.dto';
+import { UpdateWorkspaceDto } from './dto/update-workspace.dto';
+import {
+  AddWorkspaceMemberDto,
+  UpdateWorkspaceMemberDto,
+} from './dto/workspace-member.dto';
+import { MoveProjectDto } from './dto/move-project.dto';
+
+@UseGuards(JwtAuthGuard)
+@Controller()
+export class WorkspacesController {
+  constructor(private readonly workspaces: WorkspacesService) {}
+
+  // POST /api/workspaces  { name, defaultProjectRole? }
+  @Post('workspaces')
+  async create(@Req() req: any, @Body() dto: CreateWorkspaceDto) {
+    const userId: string = req.user.id;
+    return this.workspaces.create(userId, dto);
+  }
+
+  // GET /api/workspaces  (los míos, con mi rol)
+  @Get('workspaces')
+  async list(@Req() req: any) {
+    const userId: string = req.user.id;
+    return this.workspaces.listForUser(userId);
+  }
+
+  // GET /api/workspaces/:workspaceId  (detalle + miembros)
+  @Get('workspaces/:workspaceId')
+  async get(@Req() req: any, @Param('workspaceId') workspaceId: string) {
+    const userId: string = req.user.id;
+    return this.workspaces.get(userId, workspaceId);
+  }
+
+  // PATCH /api/workspaces/:workspaceId  { name?, defaultProjectRole? }
+  @Patch('workspaces/:workspaceId')
+  async update(
+    @Req() req: any,
+    @Param('workspaceId') workspaceId: string,
+    @Body() dto: UpdateWorkspaceDto,
+  ) {
+    const userId: string = req.user.id;
+    return this.workspaces.update(userId, workspaceId, dto);
+  }
+
+  // DELETE /api/workspaces/:workspaceId  (solo el owner)
+  @Delete('workspaces/:workspaceId')
+  async remove(@Req() req: any, @Param('workspaceId') workspaceId: string) {
+    const userId: string = req.user.id;
+    await this.workspaces.remove(userId, workspaceId);
+    return { ok: true };
+  }
+
+  // POST /api/workspaces/:workspaceId/members  { email, role? }
+  @Post('workspaces/:workspaceId/members')
+  async addMember(
+    @Req() req: any,
+    @Param('workspaceId') workspaceId: string,
+    @Body() dto: AddWorkspaceMemberDto,
+  ) {
+    const userId: string = req.user.id;
+    return this.workspaces.addMember(userId, workspaceId, dto.email, dto.role);
+  }
+
+  // PATCH /api/workspaces/:workspaceId/members/:userId  { role }
+  @Patch('workspaces/:workspaceId/members/:userId')
+  async updateMember(
+    @Req() req: any,
+    @Param('workspaceId') workspaceId: string,
+    @Param('userId') targetId: string,
+    @Body() dto: UpdateWorkspaceMemberDto,
+  ) {
+    const userId: string = req.user.id;
+    return this.workspaces.updateMember(
+      userId,
+      workspaceId,
+      targetId,
+      dto.role,
+    );
+  }
+
+  // DELETE /api/workspaces/:workspaceId/members/:userId  (o salir uno mismo)
+  @Delete('workspaces/:workspaceId/members/:userId')
+  async removeMember(
+    @Req() req: any,
+    @Param('workspaceId') workspaceId: string,
+    @Param('userId') targetId: string,
+  ) {
+    const userId: string = req.user.id;
+    await this.workspaces.removeMember(userId, workspaceId, targetId);
+    return { ok: true };
+  }
+
+  // PUT /api/projects/:projectId/workspace  { workspaceId | null }
+  @Put('projects/:projectId/workspace')
+  @RequireCapability('project:transfer')
+  async moveProject(
+    @Req() req: any,
+    @Param('projectId') projectId: string,
+    @Body() dto: MoveProjectDto,
+  ) {
+    const userId: string = req.user.id;
+    return this.workspaces.moveProject(
+      userId,
+      projectId,
+      dto.workspaceId ?? null,
+    );
+  }
+}
@@ -0,0 +1,13 @@
+// src/workspaces/workspaces.module.ts
+import { Module } from '@nestjs/common';
+import { WorkspacesController } from './workspaces.controller';
+import { WorkspacesService } from './workspaces.service';
+import { PrismaService } from '../common/prisma.service';
+import { DiagramRealtimeModule } from '../diagram-realtime/diagram-realtime.module';
+
+@Module({
+  imports: [DiagramRealtimeModule],
+  controllers: [WorkspacesController],
+  providers: [WorkspacesService, PrismaService],
+})
+export class WorkspacesModule {}
@@ -0,0 +1,243 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import { WorkspacesService } from './workspaces.service';
+import { PrismaService } from '../common/prisma.service';
+import { PolicyService } from '../policy/policy.service';
+import { DiagramGateway } from '../diagram-realtime/diagram.gateway';
+
+describe('WorkspacesService', () => {
+  let service: WorkspacesService;
+  const prisma = {
+    workspace: {
+      create: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+    },
+    workspaceMember: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+    },
+    project: {
+      findMany: jest.fn(),
+      findUniqueOrThrow: jest.fn(),
+      update: jest.fn(),
+    },
+    projectMember: { findMany: jest.fn() },
+    user: { findFirst: jest.fn() },
+  };
+  const policy = { assert: jest.fn() };
+  const gateway = { pushMemberRole: jest.fn() };
+
+  // Rol en el workspace de cada usuario (undefined = no es miembro)
+  const wsRoles = (roles: Record<string, string>) =>
+    prisma.workspaceMember.findUnique.mockImplementation(
+      ({ where }: { where: { workspaceId_userId: { userId: string } } }) => {
+        const role = roles[where.workspaceId_userId.userId];
+        return Promise.resolve(role ? { role } : null);
+      },
+    );
+
+  // Filas que lee effectiveRoles (los proyectos son de boss)
+  const projectRow = (id: string, workspaceId: string | null = 'w1') => ({
+    id,
+    ownerId: 'boss',
+    deletedAt: null,
+    workspaceId,
+    workspace: workspaceId ? { defaultProjectRole: 'EDITOR' } : null,
+  });
+  const wsMember = (userId: string, role: string) => ({
+    workspaceId: 'w1',
+    userId,
+    role,
+  });
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WorkspacesService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: PolicyService, useValue: policy },
+        { provide: DiagramGateway, useValue: gateway },
+      ],
+    }).compile();
+
+    service = module.get<WorkspacesService>(WorkspacesService);
+    prisma.project.findMany.mockResolvedValue([
+      projectRow('p1'),
+      projectRow('p2'),
+    ]);
+    prisma.projectMember.findMany.mockResolvedValue([]);
+    prisma.workspaceMember.findMany.mockResolvedValue([
+      wsMember('boss', 'OWNER'),
+      wsMember('u2', 'MEMBER'),
+    ]);
+  });
+
+  it('quien crea el workspace queda como OWNER', async () => {
+    prisma.workspace.create.mockResolvedValue({
+      id: 'w1',
+      name: 'Curso',
+      defaultProjectRole: 'EDITOR',
+      createdAt: new Date(),
+    });
+
+    const ws = await service.create('boss', { name: ' Curso ' });
+
+    expect(prisma.workspace.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: {
+          name: 'Curso',
+          defaultProjectRole: 'EDITOR',
+          members: { create: { userId: 'boss', role: 'OWNER' } },
+        },
+      }),
+    );
+    expect(ws).toMatchObject({ role: 'OWNER', memberCount: 1 });
+  });
+
+  describe('miembros', () => {
+    it('al sumar a alguien le avisa el rol heredado en cada proyecto', async () => {
+      wsRoles({ boss: 'OWNER' });
+      prisma.user.findFirst.mockResolvedValue({
+        id: 'u3',
+        name: 'Ana',
+        email: 'ana@test.com',
+      });
+      prisma.workspaceMember.create.mockResolvedValue({
+        role: 'MEMBER',
+        createdAt: new Date(),
+      });
+      // En p2 ya era EDITOR directo; en p1 hereda EDITOR al sumarse
+      prisma.projectMember.findMany.mockResolvedValue([
+        { projectId: 'p2', userId: 'u3', role: 'EDITOR' },
+      ]);
+      prisma.workspaceMember.findMany.mockImplementation(() =>
+        Promise.resolve(
+          prisma.workspaceMember.create.mock.calls.length
+            ? [wsMember('u3', 'MEMBER')]
+            : [],
+        ),
+      );
+
+      const member = await service.addMember('boss', 'w1', 'Ana@Test.com');
+
+      expect(member).toMatchObject({ userId: 'u3', role: 'MEMBER' });
+      // Una consulta por fuente antes y otra después, no una por proyecto
+      expect(prisma.projectMember.findMany).toHaveBeenCalledTimes(2);
+      expect(prisma.workspaceMember.findMany).toHaveBeenCalledTimes(2);
+      expect(gateway.pushMemberRole).toHaveBeenCalledTimes(1);
+      expect(gateway.pushMemberRole).toHaveBeenCalledWith({
+        projectId: 'p1',
+        userId: 'u3',
+        role: 'EDITOR',
+      });
+    });
+
+    it('solo los admins gestionan miembros', async () => {
+      wsRoles({ u2: 'MEMBER' });
+      await expect(
+        service.addMember('u2', 'w1', 'ana@test.com'),
+      ).rejects.toBeInstanceOf(ForbiddenException);
+
+      wsRoles({});
+      await expect(
+        service.addMember('u9', 'w1', 'ana@test.com'),
+      ).rejects.toBeInstanceOf(NotFoundException);
+    });
+
+    it('no duplica miembros', async () => {
+      wsRoles({ boss: 'OWNER', u2: 'MEMBER' });
+      prisma.user.findFirst.mockResolvedValue({ id: 'u2' });
+      await expect(
+        service.addMember('boss', 'w1', 'u2@test.com'),
+      ).rejects.toBeInstanceOf(ConflictException);
+    });
+
+    it('el owner del workspace no se puede quitar ni degradar', async () => {
+      wsRoles({ boss: 'OWNER', adm: 'ADMIN' });
+      await expect(
+        service.removeMember('adm', 'w1', 'boss'),
+      ).rejects.toBeInstanceOf(BadRequestException);
+      await expect(
+        service.updateMember('adm', 'w1', 'boss', 'MEMBER'),
+      ).rejects.toBeInstanceOf(BadRequestException);
+    });
+
+    it('un miembro puede irse y pierde el acceso en vivo', async () => {
+      wsRoles({ u2: 'MEMBER' });
+      prisma.workspaceMember.findMany.mockImplementation(() =>
+        Promise.resolve(
+          prisma.workspaceMember.delete.mock.calls.length
+            ? []
+            : [wsMember('u2', 'MEMBER')],
+        ),
+      );
+
+      await service.removeMember('u2', 'w1', 'u2');
+
+      expect(prisma.workspaceMember.delete).toHaveBeenCalled();
+      expect(gateway.pushMemberRole).toHaveBeenCalledWith({
+        projectId: 'p1',
+        userId: 'u2',
+        role: null,
+      });
+      expect(gateway.pushMemberRole).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('moveProject', () => {
+    it('exige pertenecer al workspace destino', async () => {
+      policy.assert.mockResolvedValue('OWNER');
+      wsRoles({});
+      await expect(
+        service.moveProject('boss', 'p1', 'w2'),
+      ).rejects.toBeInstanceOf(NotFoundException);
+      expect(prisma.project.update).not.toHaveBeenCalled();
+    });
+
+    it('mueve el proyecto y sincroniza a los miembros del workspace', async () => {
+      policy.assert.mockResolvedValue('OWNER');
+      wsRoles({ boss: 'OWNER' });
+      prisma.project.findUniqueOrThrow.mockResolvedValue({ workspaceId: null });
+      // Era personal de boss; al moverlo u2 hereda EDITOR del workspace
+      prisma.project.findMany.mockImplementation(() =>
+        Promise.resolve([
+          projectRow(
+            'p1',
+            prisma.project.update.mock.calls.length ? 'w1' : null,
+          ),
+        ]),
+      );
+
+      await expect(service.moveProject('boss', 'p1', 'w1')).resolves.toEqual({
+        projectId: 'p1',
+        workspaceId: 'w1',
+      });
+
+      expect(policy.assert).toHaveBeenCalledWith(
+        'boss',
+        'p1',
+        'project:transfer',
+      );
+      expect(prisma.project.update).toHaveBeenCalledWith({
+        where: { id: 'p1' },
+        data: { workspaceId: 'w1' },
+      });
+      expect(gateway.pushMemberRole).toHaveBeenCalledTimes(1);
+      expect(gateway.pushMemberRole).toHaveBeenCalledWith({
+        projectId: 'p1',
+        userId: 'u2',
+        role: 'EDITOR',
+      });
+    });
+  });
+});
@@ -0,0 +1,415 @@
+// src/workspaces/workspaces.service.ts
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { ProjectRole, WorkspaceRole } from '@prisma/client';
+import { PrismaService } from '../common/prisma.service';
+import { DiagramGateway } from '../diagram-realtime/diagram.gateway';
+import { PolicyService } from '../policy/policy.service';
+import {
+  WORKSPACE_MANAGER_ROLES,
+  resolveProjectRole,
+} from '../policy/capabilities';
+import { CreateWorkspaceDto } from './dto/create-workspace.dto';
+import { UpdateWorkspaceDto } from './dto/update-workspace.dto';
+
+const ROLE_ORDER: Record<WorkspaceRole, number> = {
+  OWNER: 0,
+  ADMIN: 1,
+  MEMBER: 2,
+};
+
+/**
+ * Workspaces (clase, equipo, empresa): agrupan proyectos y miembros.
+ * Pertenecer a un workspace da acceso a todos sus proyectos (ver
+ * resolveProjectRole); por eso cada cambio de miembros, de rol por defecto o
+ * de proyectos se re-empuja a los sockets con DiagramGateway.pushMemberRole.
+ */
+@Injectable()
+export class WorkspacesService {
+  constructor(
+    private prisma: PrismaService,
+    private policy: PolicyService,
+    private gateway: DiagramGateway,
+  ) {}
+
+  /** Exige pertenecer al workspace (y uno de `roles`, si se pasan) */
+  private async assertRole(
+    userId: string,
+    workspaceId: string,
+    roles?: WorkspaceRole[],
+  ) {
+    const member = await this.prisma.workspaceMember.findUnique({
+      where: { workspaceId_userId: { workspaceId, userId } },
+      select: { role: true },
+    });
+    if (!member) throw new NotFoundException('Workspace no encontrado');
+    if (roles && !roles.includes(member.role)) {
+      throw new ForbiddenException(
+        'Solo los admins del workspace pueden hacer esto',
+      );
+    }
+    return member.role;
+  }
+
+  /* =========================================================
+   * Sincronización de roles efectivos con los sockets
+   * =======================================================*/
+
+  /**
+   * Rol efectivo de cada par proyecto/usuario (clave `projectId:userId`),
+   * resuelto en memoria con tres consultas en vez de una por par.
+   * Proyectos borrados o inexistentes dan null, igual que PolicyService.
+   */
+  private async effectiveRoles(projectIds: string[], userIds: string[]) {
+    const [projects, members] = await Promise.all([
+      this.prisma.project.findMany({
+        where: { id: { in: projectIds } },
+        select: {
+          id: true,
+          ownerId: true,
+          deletedAt: true,
+          workspaceId: true,
+          workspace: { select: { defaultProjectRole: true } },
+        },
+      }),
+      this.prisma.projectMember.findMany({
+        where: { projectId: { in: projectIds }, userId: { in: userIds } },
+        select: { projectId: true, userId: true, role: true },
+      }),
+    ]);
+    const workspaceIds = [
+      ...new Set(projects.flatMap((p) => p.workspaceId ?? [])),
+    ];
+    const wsMembers = workspaceIds.length
+      ? await this.prisma.workspaceMember.findMany({
+          where: { workspaceId: { in: workspaceIds }, userId: { in: userIds } },
+          select: { workspaceId: true, userId: true, role: true },
+        })
+      : [];
+
+    const byId = new Map(projects.map((p) => [p.id, p]));
+    const roles = new Map<string, ProjectRole | null>();
+    for (const projectId of projectIds) {
+      const p = byId.get(projectId);
+      for (const userId of userIds) {
+        const key = `${projectId}:${userId}`;
+        if (!p || p.deletedAt) {
+          roles.set(key, null);
+          continue;
+        }
+        const wsMember = wsMembers.find(
+          (m) => m.workspaceId === p.workspaceId && m.userId === userId,
+        );
+        roles.set(
+          key,
+          resolveProjectRole(userId, {
+            ownerId: p.ownerId,
+            members: members.filter(
+              (m) => m.projectId === projectId && m.userId === userId,
+            ),
+            workspace: p.workspace && {
+              defaultProjectRole: p.workspace.defaultProjectRole,
+              members: wsMember ? [wsMember] : [],
+            },
+          }),
+        );
+      }
+    }
+    return roles;
+  }
+
+  /**
+   * Corre `change` y avisa en vivo a quienes les cambió el rol efectivo en
+   * alguno de los proyectos (null = perdió el acceso).
+   */
+  private async withRoleSync<T>(
+    projectIds: string[],
+    userIds: string[],
+    change: () => Promise<T>,
+  ): Promise<T> {
+    const before = await this.effectiveRoles(projectIds, userIds);
+    const result = await change();
+    const after = await this.effectiveRoles(projectIds, userIds);
+    for (const [key, role] of after) {
+      if (before.get(key) === role) continue;
+      const [projectId, userId] = key.split(':');
+      this.gateway.pushMemberRole({ projectId, userId, role });
+    }
+    return result;
+  }
+
+  private async projectIds(workspaceId: string) {
+    const projects = await this.prisma.project.findMany({
+      where: { workspaceId, deletedAt: null },
+      select: { id: true },
+    });
+    return projects.map((p) => p.id);
+  }
+
+  private async memberIds(workspaceId: string) {
+    const members = await this.prisma.workspaceMember.findMany({
+      where: { workspaceId },
+      select: { userId: true },
+    });
+    return members.map((m) => m.userId);
+  }
+
+  /* =========================================================
+   * Workspaces
+   * =======================================================*/
+
+  async create(userId: string, dto: CreateWorkspaceDto) {
+    const ws = await this.prisma.workspace.create({
+      data: {
+        name: dto.name.trim(),
+        defaultProjectRole: dto.defaultProjectRole ?? 'EDITOR',
+        members: { create: { userId, role: 'OWNER' } },
+      },
+      select: {
+        id: true,
+        name: true,
+        defaultProjectRole: true,
+        createdAt: true,
+      },
+    });
+    return { ...ws, role: 'OWNER' as const, memberCount: 1, projectCount: 0 };
+  }
+
+  /** Mis workspaces con mi rol */
+  async listForUser(userId: string) {
+    const memberships = await this.prisma.workspaceMember.findMany({
+      where: { userId },
+      select: {
+        role: true,
+        workspace: {
+          select: {
+            id: true,
+            name: true,
+            defaultProjectRole: true,
+            createdAt: true,
+            _count: {
+              select: {
+                members: true,
+                projects: { where: { deletedAt: null } },
+              },
+            },
+          },
+        },
+      },
+      orderBy: { workspace: { name: 'asc' } },
+    });
+
+    return memberships.map(({ role, workspace: { _count, ...ws } }) => ({
+      ...ws,
+      role,
+      memberCount: _count.members,
+      projectCount: _count.projects,
+    }));
+  }
+
+  async get(userId: string, workspaceId: string) {
+    const role = await this.assertRole(userId, workspaceId);
+    const ws = await this.prisma.workspace.findUniqueOrThrow({
+      where: { id: workspaceId },
+      select: {
+        id: true,
+        name: true,
+        defaultProjectRole: true,
+        createdAt: true,
+        members: {
+          select: {
+            role: true,
+            createdAt: true,
+            user: { select: { id: true, name: true, email: true } },
+          },
+        },
+      },
+    });
+
+    return {
+      ...ws,
+      role,
+      members: ws.members
+        .map((m) => ({
+          userId: m.user.id,
+          name: m.user.name,
+          email: m.user.email,
+          role: m.role,
+          joinedAt: m.createdAt,
+        }))
+        .sort(
+          (a, b) =>
+            ROLE_ORDER[a.role] - ROLE_ORDER[b.role] ||
+            (a.name || a.email).localeCompare(b.name || b.email),
+        ),
+    };
+  }
+
+  async update(userId: string, workspaceId: string, dto: UpdateWorkspaceDto) {
+    await this.assertRole(userId, workspaceId, WORKSPACE_MANAGER_ROLES);
+    const apply = () =>
+      this.prisma.workspace.update({
+        where: { id: workspaceId },
+        data: {
+          ...(dto.name !== undefined && { name: dto.name.trim() }),
+          ...(dto.defaultProjectRole && {
+            defaultProjectRole: dto.defaultProjectRole,
+          }),
+        },
+        select: { id: true, name: true, defaultProjectRole: true },
+      });
+
+    // El rol por defecto cambia el acceso de todos los MEMBER
+    if (!dto.defaultProjectRole) return apply();
+    return this.withRoleSync(
+      await this.projectIds(workspaceId),
+      await this.memberIds(workspaceId),
+      apply,
+    );
+  }
+
+  /** Borra el workspace; sus proyectos vuelven a ser personales del owner */
+  async remove(userId: string, workspaceId: string) {
+    await this.assertRole(userId, workspaceId, ['OWNER']);
+    await this.withRoleSync(
+      await this.projectIds(workspaceId),
+      await this.memberIds(workspaceId),
+      () => this.prisma.workspace.delete({ where: { id: workspaceId } }),
+    );
+  }
+
+  /* =========================================================
+   * Miembros
+   * =======================================================*/
+
+  async addMember(
+    userId: string,
+    workspaceId: string,
+    email: string,
+    role: WorkspaceRole = 'MEMBER',
+  ) {
+    await this.assertRole(userId, workspaceId, WORKSPACE_MANAGER_ROLES);
+    const user = await this.prisma.user.findFirst({
+      where: { email: { equals: email.trim(), mode: 'insensitive' } },
+      select: { id: true, name: true, email: true },
+    });
+    if (!user) {
+      throw new NotFoundException('No existe un usuario con ese email');
+    }
+    const exists = await this.prisma.workspaceMember.findUnique({
+      where: { workspaceId_userId: { workspaceId, userId: user.id } },
+      select: { id: true },
+    });
+    if (exists) throw new ConflictException('Ya es miembro del workspace');
+
+    const member = await this.withRoleSync(
+      await this.projectIds(workspaceId),
+      [user.id],
+      () =>
+        this.prisma.workspaceMember.create({
+          data: { workspaceId, userId: user.id, role },
+          select: { role: true, createdAt: true },
+        }),
+    );
+    return {
+      userId: user.id,
+      name: user.name,
+      email: user.email,
+      role: member.role,
+      joinedAt: member.createdAt,
+    };
+  }
+
+  async updateMember(
+    userId: string,
+    workspaceId: string,
+    targetId: string,
+    role: WorkspaceRole,
+  ) {
+    await this.assertRole(userId, workspaceId, WORKSPACE_MANAGER_ROLES);
+    await this.getTarget(workspaceId, targetId);
+    return this.withRoleSync(
+      await this.projectIds(workspaceId),
+      [targetId],
+      () =>
+        this.prisma.workspaceMember.update({
+          where: { workspaceId_userId: { workspaceId, userId: targetId } },
+          data: { role },
+          select: { userId: true, role: true },
+        }),
+    );
+  }
+
+  /** Quitar a alguien (admins) o salir uno mismo */
+  async removeMember(userId: string, workspaceId: string, targetId: string) {
+    if (userId !== targetId) {
+      await this.assertRole(userId, workspaceId, WORKSPACE_MANAGER_ROLES);
+    }
+    await this.getTarget(workspaceId, targetId);
+    await this.withRoleSync(
+      await this.projectIds(workspaceId),
+      [targetId],
+      () =>
+        this.prisma.workspaceMember.delete({
+          where: { workspaceId_userId: { workspaceId, userId: targetId } },
+        }),
+    );
+  }
+
+  /** Membresía del objetivo; el OWNER del workspace no se toca */
+  private async getTarget(workspaceId: string, userId: string) {
+    const member = await this.prisma.workspaceMember.findUnique({
+      where: { workspaceId_userId: { workspaceId, userId } },
+      select: { role: true },
+    });
+    if (!member) throw new NotFoundException('Miembro no encontrado');
+    if (member.role === 'OWNER') {
+      throw new BadRequestException(
+        'No se puede modificar al owner del workspace',
+      );
+    }
+    return member;
+  }
+
+  /* =========================================================
+   * Proyectos
+   * =======================================================*/
+
+  /**
+   * Mueve un proyecto a un workspace (o de vuelta a personal con null).
+   * Lo hace quien puede transferir el proyecto y pertenece al destino.
+   */
+  async moveProject(
+    userId: string,
+    projectId: string,
+    workspaceId: string | null,
+  ) {
+    await this.policy.assert(userId, projectId, 'project:transfer');
+    if (workspaceId) await this.assertRole(userId, workspaceId);
+
+    const project = await this.prisma.project.findUniqueOrThrow({
+      where: { id: projectId },
+      select: { workspaceId: true },
+    });
+    if (project.workspaceId === workspaceId) {
+      return { projectId, workspaceId };
+    }
+
+    const affected = new Set<string>();
+    for (const wsId of [project.workspaceId, workspaceId]) {
+      if (wsId) (await this.memberIds(wsId)).forEach((id) => affected.add(id));
+    }
+    await this.withRoleSync([projectId], [...affected], () =>
+      this.prisma.project.update({
+        where: { id: projectId },
+        data: { workspaceId },
+      }),
+    );
+    return { projectId, workspaceId };
+  }
+}
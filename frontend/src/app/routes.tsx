@@ -4,6 +4,13 @@ import Register from "../pages/Register";
 import Login from "../pages/Login";
 import Dashboard from "../pages/Dashboard";
 import Editor from "../pages/Editor";
+import AcceptInvite from "../pages/AcceptInvite";
+import Sessions from "../pages/Sessions";
+import Account from "../pages/Account";
+import AccessTokens from "../pages/AccessTokens";
+import ForgotPassword from "../pages/ForgotPassword";
+import ResetPassword from "../pages/ResetPassword";
+import VerifyEmail from "../pages/VerifyEmail";
 import NotFound from "../uml/ui/NotFound";
 import RootErrorBoundary from "../uml/ui/RootErrorBoundary";
 import { projectLoader } from "./projectLoader";
@@ -12,8 +19,15 @@ export const router = createBrowserRouter([
   { path: "/", element: <Navigate to="/login" /> },
   { path: "/register", element: <Register /> },
   { path: "/login", element: <Login /> },
+  { path: "/forgot-password", element: <ForgotPassword /> },
+  { path: "/reset-password", element: <ResetPassword /> },
+  { path: "/verify-email", element: <VerifyEmail /> },
   { path: "/app", element: <Dashboard /> },
   { path: "/app/projects/:id", element: <Editor /> },
+  { path: "/app/sessions", element: <Sessions /> },
+  { path: "/app/account", element: <Account /> },
+  { path: "/app/tokens", element: <AccessTokens /> },
+  { path: "/invite/:token", element: <AcceptInvite /> },
 
   {
     path: "/project/:projectId",
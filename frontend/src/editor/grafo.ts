@@ -3,6 +3,7 @@ import { Graph } from "@antv/x6";
 import { Selection } from "@antv/x6-plugin-selection";
 import { CLASS_SIZES } from "../uml/tokens";
 import { registerShapesOnce } from "../uml/shapes";
+import { readClassText } from "../uml/model";
 import type {
   ClassFormValues,
   RelationFormValues,
@@ -537,34 +538,12 @@ export function addClassAt(graph: Graph, x: number, y: number) {
   resizeUmlClass(node);
 }
 export function readNodeToForm(node: any): ClassFormValues {
-  const data = node.getData?.() ?? {};
-  const name =
-    data?.name ??
-    node.getAttrByPath?.("name/text") ??
-    node.attr?.("name/text") ??
-    "Class";
-  const attrsText =
-    data?.attributes ??
-    node.getAttrByPath?.("attrs/text") ??
-    node.attr?.("attrs/text") ??
-    "";
-  const methodsText =
-    data?.methods ??
-    node.getAttrByPath?.("methods/text") ??
-    node.attr?.("methods/text") ??
-    "";
-  const toLines = (v: any) =>
-    Array.isArray(v)
-      ? (v as string[])
-      : String(v || "")
-          .split("\n")
-          .map((s) => s.trim())
-          .filter(Boolean);
-  return {
-    name: String(name || "Class"),
-    attributes: toLines(attrsText),
-    methods: toLines(methodsText),
-  };
+  // Misma lectura que el modelo UML (data primero, attrs de texto si falta)
+  const { name, attributes, methods } = readClassText({
+    data: node.getData?.(),
+    attrs: node.getAttrs?.(),
+  });
+  return { name: name || "Class", attributes, methods };
 }
 export function writeFormToNode(node: any, form: ClassFormValues) {
   node.setAttrs?.(
@@ -1,5 +1,5 @@
 // src/lib/api.ts
-import axios from "axios";
+import axios, { type InternalAxiosRequestConfig } from "axios";
 
 export const api = axios.create({
   baseURL: import.meta.env.VITE_API_URL ?? "/api", // ✅ fallback al proxy de Vite
@@ -18,3 +18,129 @@ export const getErrorMessage = (e: unknown) => {
   }
   return "Error inesperado";
 };
+
+/* ===================== Tokens de sesión ===================== */
+// El access token dura poco; el refresh token rota en cada renovación
+const ACCESS_KEY = "token";
+const REFRESH_KEY = "refreshToken";
+
+export type AuthTokens = { access_token: string; refresh_token?: string };
+
+export const getAccessToken = () => localStorage.getItem(ACCESS_KEY);
+export const getRefreshToken = () => localStorage.getItem(REFRESH_KEY);
+
+const listeners = new Set<(token: string | null) => void>();
+
+/** Avisa cada vez que cambia el access token (renovación, login o logout) */
+export function onAccessTokenChange(fn: (token: string | null) => void) {
+  listeners.add(fn);
+  return () => {
+    listeners.delete(fn);
+  };
+}
+
+export function storeTokens(tokens: AuthTokens | null) {
+  if (tokens) {
+    localStorage.setItem(ACCESS_KEY, tokens.access_token);
+    if (tokens.refresh_token) {
+      localStorage.setItem(REFRESH_KEY, tokens.refresh_token);
+    }
+    api.defaults.headers.common["Authorization"] =
+      `Bearer ${tokens.access_token}`;
+  } else {
+    localStorage.removeItem(ACCESS_KEY);
+    localStorage.removeItem(REFRESH_KEY);
+    delete api.defaults.headers.common["Authorization"];
+  }
+  const token = tokens?.access_token ?? null;
+  listeners.forEach((fn) => fn(token));
+}
+
+// Una sola renovación a la vez: los 401 simultáneos esperan la misma
+let refreshing: Promise<string | null> | null = null;
+
+/** Renueva el access token; null si la sesión ya no es válida */
+export function refreshAccessToken(): Promise<string | null> {
+  if (refreshing) return refreshing;
+  const refreshToken = getRefreshToken();
+  if (!refreshToken) return Promise.resolve(null);
+
+  refreshing = axios
+    .post<AuthTokens>(`${api.defaults.baseURL}/auth/refresh`, {
+      refreshToken,
+    })
+    .then(({ data }) => {
+      storeTokens(data);
+      return data.access_token;
+    })
+    .catch(() => {
+      // Otra pestaña pudo rotarlo primero: si dejó uno nuevo, sirve ese
+      const current = getRefreshToken();
+      return current && current !== refreshToken ? getAccessToken() : null;
+    })
+    .finally(() => {
+      refreshing = null;
+    });
+  return refreshing;
+}
+
+/** Segundos que le quedan al JWT (Infinity si no se puede leer `exp`) */
+function secondsLeft(token: string) {
+  try {
+    const payload = JSON.parse(
+      atob(token.split(".")[1].replace(/-/g, "+").replace(/_/g, "/"))
+    );
+    return typeof payload.exp === "number"
+      ? payload.exp - Date.now() / 1000
+      : Infinity;
+  } catch {
+    return Infinity;
+  }
+}
+
+/**
+ * Access token listo para usar fuera de axios (handshake y join del socket):
+ * si está por vencer, lo renueva antes.
+ */
+export async function getFreshAccessToken(): Promise<string | null> {
+  const token = getAccessToken();
+  if (!token) return null;
+  if (secondsLeft(token) > 30) return token;
+  return (await refreshAccessToken()) ?? token;
+}
+
+const isAuthCall = (url?: string) =>
+  !!url && /\/auth\/(login|refresh|logout)/.test(url);
+
+// Algunas pantallas pasan el header a mano: siempre va el token vigente
+api.interceptors.request.use((config) => {
+  const current = getAccessToken();
+  const auth = config.headers?.Authorization;
+  if (current && typeof auth === "string" && auth.startsWith("Bearer ")) {
+    config.headers.Authorization = `Bearer ${current}`;
+  }
+  return config;
+});
+
+// 401 → renovar y reintentar una vez; si no se puede, sigue el 401
+api.interceptors.response.use(
+  (res) => res,
+  async (err) => {
+    const config = err?.config as
+      | (InternalAxiosRequestConfig & { _retried?: boolean })
+      | undefined;
+    if (
+      err?.response?.status !== 401 ||
+      !config ||
+      config._retried ||
+      isAuthCall(config.url)
+    ) {
+      return Promise.reject(err);
+    }
+    const token = await refreshAccessToken();
+    if (!token) return Promise.reject(err);
+    config._retried = true;
+    config.headers.Authorization = `Bearer ${token}`;
+    return api(config);
+  }
+);
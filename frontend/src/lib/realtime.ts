@@ -1,6 +1,7 @@
 // src/lib/realtime.ts
 import { io, Socket } from "socket.io-client";
 import type { DiagramSnapshot } from "../uml/snapshot";
+import { getFreshAccessToken, onAccessTokenChange } from "./api";
 
 type Role = "VIEWER" | "EDITOR" | "OWNER";
 type Patch = { type: "full-replace"; snapshot: DiagramSnapshot };
@@ -30,22 +31,34 @@ export class RealtimeClient {
   private opts: RealtimeOptions;
   private socket: Socket;
   private projectId: string;
+  private offTokenChange: () => void;
 
   constructor(opts: RealtimeOptions) {
     this.opts = opts;
     this.projectId = opts.projectId;
 
-    const token = opts.authToken ? opts.authToken : "";
     this.socket = io(`${opts.baseUrl}/diagram`, {
       transports: ["polling", "websocket"],
       path: (import.meta as any).env?.VITE_SOCKET_PATH || "/socket.io",
-      auth: { token },
+      // Cada (re)conexión usa el token vigente, renovado si está por vencer
+      auth: (cb) => {
+        this.currentToken().then((token) => cb({ token: token ?? "" }));
+      },
     });
 
     this.socket.on("connect_error", (e) => {
       console.error("Socket connect_error", e);
     });
 
+    // Token renovado: el socket se vuelve a identificar con el nuevo
+    this.offTokenChange = onAccessTokenChange((token) => {
+      if (!this.opts.authToken || !token) return;
+      this.opts.authToken = token;
+      if (this.socket.connected) {
+        this.socket.emit("joinOwner", { authToken: token });
+      }
+    });
+
     // joined
     if (opts.onJoined) {
       this.socket.on("joined", (data: JoinResult) => {
@@ -112,10 +125,16 @@ export class RealtimeClient {
     }
   }
 
-  join() {
+  /** Token de la sesión (si el cliente se creó con uno) */
+  private async currentToken() {
+    if (!this.opts.authToken) return null;
+    return (await getFreshAccessToken()) ?? this.opts.authToken;
+  }
+
+  async join() {
     this.socket.emit("join", {
       projectId: this.projectId,
-      authToken: this.opts.authToken || undefined,
+      authToken: (await this.currentToken()) || undefined,
       shareToken: this.opts.shareToken || undefined,
     });
   }
@@ -138,6 +157,7 @@ export class RealtimeClient {
   }
 
   disconnect() {
+    this.offTokenChange();
     this.socket.disconnect();
   }
 }
@@ -1,9 +1,16 @@
 import { z } from "zod";
 
+// Igual que PASSWORD_STRENGTH del backend (registro, cambio y reseteo)
+const newPassword = z
+  .string()
+  .min(8, "Mínimo 8 caracteres")
+  .regex(/[a-z]/, "Incluye al menos una minúscula")
+  .regex(/[0-9]/, "Incluye al menos un número");
+
 export const RegisterSchema = z.object({
   name: z.string().min(2, "Nombre demasiado corto"),
   email: z.string().email("Email inválido"),
-  password: z.string().min(6, "Mínimo 6 caracteres"),
+  password: newPassword,
 });
 
 export type RegisterInput = z.infer<typeof RegisterSchema>;
@@ -13,3 +20,36 @@ export const LoginSchema = z.object({
   password: z.string().min(6, "Mínimo 6 caracteres"),
 });
 export type LoginInput = z.infer<typeof LoginSchema>;
+
+export const ForgotPasswordSchema = z.object({
+  email: z.string().email("Email inválido"),
+});
+export type ForgotPasswordInput = z.infer<typeof ForgotPasswordSchema>;
+
+export const ResetPasswordSchema = z
+  .object({
+    password: newPassword,
+    confirm: z.string(),
+  })
+  .refine((v) => v.password === v.confirm, {
+    message: "Las contraseñas no coinciden",
+    path: ["confirm"],
+  });
+export type ResetPasswordInput = z.infer<typeof ResetPasswordSchema>;
+
+export const ProfileSchema = z.object({
+  name: z.string().trim().min(2, "Nombre demasiado corto").max(80),
+});
+export type ProfileInput = z.infer<typeof ProfileSchema>;
+
+export const ChangePasswordSchema = z
+  .object({
+    currentPassword: z.string().min(1, "Ingresa tu contraseña actual"),
+    newPassword,
+    confirm: z.string(),
+  })
+  .refine((v) => v.newPassword === v.confirm, {
+    message: "Las contraseñas no coinciden",
+    path: ["confirm"],
+  });
+export type ChangePasswordInput = z.infer<typeof ChangePasswordSchema>;
@@ -0,0 +1,136 @@
+// src/pages/AcceptInvite.tsx
+import { useEffect, useState } from "react";
+import { Link, useNavigate, useParams } from "react-router-dom";
+import { Mail } from "lucide-react";
+import { api, getErrorMessage } from "../lib/api";
+import { useAuth } from "../state/AuthContext";
+
+type InvitationPreview = {
+  projectId: string;
+  projectName: string;
+  email: string;
+  role: "OWNER" | "ADMIN" | "EDITOR" | "VIEWER";
+  status: "PENDING" | "ACCEPTED" | "CANCELLED" | "EXPIRED";
+  expiresAt: string;
+  invitedBy: string | null;
+};
+
+const ROLE_LABEL: Record<InvitationPreview["role"], string> = {
+  OWNER: "Owner",
+  ADMIN: "Admin",
+  EDITOR: "Editor",
+  VIEWER: "Lector",
+};
+
+const STATUS_MESSAGE: Record<
+  Exclude<InvitationPreview["status"], "PENDING">,
+  string
+> = {
+  ACCEPTED: "Esta invitación ya fue aceptada.",
+  CANCELLED: "Esta invitación fue cancelada.",
+  EXPIRED: "Esta invitación venció. Pedí que te inviten de nuevo.",
+};
+
+export default function AcceptInvite() {
+  const { token = "" } = useParams();
+  const navigate = useNavigate();
+  const { user } = useAuth();
+
+  const [invite, setInvite] = useState<InvitationPreview | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [accepting, setAccepting] = useState(false);
+
+  useEffect(() => {
+    api
+      .get<InvitationPreview>(`/invitations/${encodeURIComponent(token)}`)
+      .then(({ data }) => setInvite(data))
+      .catch((e) => setError(getErrorMessage(e)));
+  }, [token]);
+
+  const next = encodeURIComponent(`/invite/${token}`);
+
+  const accept = async () => {
+    setAccepting(true);
+    setError(null);
+    try {
+      const { data } = await api.post<{ projectId: string }>(
+        `/invitations/${encodeURIComponent(token)}/accept`
+      );
+      navigate(`/app/projects/${data.projectId}`, { replace: true });
+    } catch (e) {
+      setError(getErrorMessage(e));
+      setAccepting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 flex items-center justify-center px-4 py-10">
+      <div className="w-full max-w-md rounded-2xl border border-slate-200 bg-white/90 p-6 shadow-xl md:p-8">
+        <div className="mb-5 flex items-center gap-2 text-lg font-semibold text-slate-800">
+          <Mail className="h-5 w-5 text-indigo-600" />
+          Invitación a un proyecto
+        </div>
+
+        {!invite && !error && (
+          <div className="text-sm text-slate-500">Cargando…</div>
+        )}
+
+        {invite && (
+          <div className="space-y-4 text-sm text-slate-700">
+            <p>
+              {invite.invitedBy ?? "Alguien"} te invitó a{" "}
+              <span className="font-semibold">“{invite.projectName}”</span> como{" "}
+              <span className="font-medium">{ROLE_LABEL[invite.role]}</span>.
+            </p>
+            <p className="text-xs text-slate-500">
+              Enviada a {invite.email} · vence el{" "}
+              {new Date(invite.expiresAt).toLocaleDateString()}
+            </p>
+
+            {invite.status !== "PENDING" ? (
+              <div className="rounded-lg bg-amber-50 px-3 py-2 text-amber-800">
+                {STATUS_MESSAGE[invite.status]}
+              </div>
+            ) : user ? (
+              <div className="space-y-2">
+                {user.email.toLowerCase() !== invite.email && (
+                  <p className="text-xs text-slate-500">
+                    Vas a aceptarla con tu cuenta {user.email}.
+                  </p>
+                )}
+                <button
+                  onClick={accept}
+                  disabled={accepting}
+                  className="w-full rounded-xl bg-indigo-600 px-4 py-2 font-medium text-white hover:bg-indigo-700 disabled:opacity-60"
+                >
+                  {accepting ? "Aceptando…" : "Aceptar invitación"}
+                </button>
+              </div>
+            ) : (
+              <div className="grid grid-cols-2 gap-2">
+                <Link
+                  to={`/login?next=${next}`}
+                  className="rounded-xl bg-indigo-600 px-4 py-2 text-center font-medium text-white hover:bg-indigo-700"
+                >
+                  Iniciar sesión
+                </Link>
+                <Link
+                  to={`/register?next=${next}`}
+                  className="rounded-xl border border-slate-200 px-4 py-2 text-center font-medium text-slate-700 hover:bg-slate-50"
+                >
+                  Crear cuenta
+                </Link>
+              </div>
+            )}
+          </div>
+        )}
+
+        {error && (
+          <div className="mt-4 rounded-lg bg-red-50 px-3 py-2 text-sm text-red-700">
+            {error}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
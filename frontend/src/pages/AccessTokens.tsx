@@ -0,0 +1,371 @@
+// src/pages/AccessTokens.tsx
+import { useEffect, useState } from "react";
+import { Link, Navigate } from "react-router-dom";
+import { ArrowLeft, Copy, KeyRound } from "lucide-react";
+import { api, getErrorMessage } from "../lib/api";
+import { useAuth } from "../state/AuthContext";
+
+type Scope = "DIAGRAM_READ" | "CODE_GENERATE" | "DIAGRAM_WRITE";
+
+type AccessToken = {
+  id: string;
+  name: string;
+  scopes: Scope[];
+  prefix: string;
+  createdAt: string;
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  expired: boolean;
+  project: { id: string; name: string };
+};
+
+type ProjectOption = { id: string; name: string; role?: string };
+
+const SCOPES: { value: Scope; label: string; hint: string }[] = [
+  {
+    value: "DIAGRAM_READ",
+    label: "Leer diagrama",
+    hint: "GET del diagrama y sus versiones",
+  },
+  {
+    value: "CODE_GENERATE",
+    label: "Generar código",
+    hint: "Registrar generaciones en la actividad",
+  },
+  {
+    value: "DIAGRAM_WRITE",
+    label: "Escribir diagrama",
+    hint: "Reemplazar el diagrama (PUT)",
+  },
+];
+
+const SCOPE_LABEL = Object.fromEntries(
+  SCOPES.map((s) => [s.value, s.label])
+) as Record<Scope, string>;
+
+// Un VIEWER no edita: no puede pedir un token de escritura
+const canWrite = (role?: string) => role !== "VIEWER";
+
+const EXPIRY_OPTIONS = [
+  { days: 30, label: "30 días" },
+  { days: 90, label: "90 días" },
+  { days: 365, label: "1 año" },
+  { days: 0, label: "Sin vencimiento" },
+];
+
+const inputCls =
+  "w-full rounded-lg border border-gray-200 px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-indigo-500";
+
+export default function AccessTokens() {
+  const { user } = useAuth();
+  const [tokens, setTokens] = useState<AccessToken[] | null>(null);
+  const [projects, setProjects] = useState<ProjectOption[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const [name, setName] = useState("");
+  const [projectId, setProjectId] = useState("");
+  const [scopes, setScopes] = useState<Scope[]>([
+    "DIAGRAM_READ",
+    "CODE_GENERATE",
+  ]);
+  const [expiresInDays, setExpiresInDays] = useState(90);
+  const [creating, setCreating] = useState(false);
+  // Token recién creado: es la única vez que se ve en claro
+  const [created, setCreated] = useState<{
+    name: string;
+    projectId: string;
+    token: string;
+  } | null>(null);
+
+  const load = async () => {
+    try {
+      const [t, p] = await Promise.all([
+        api.get<AccessToken[]>("/access-tokens"),
+        api.get<{ items: ProjectOption[] }>("/projects", {
+          params: { sort: "name", limit: 100 },
+        }),
+      ]);
+      setTokens(t.data);
+      setProjects(p.data.items);
+    } catch (e) {
+      setError(getErrorMessage(e));
+      setTokens([]);
+    }
+  };
+
+  useEffect(() => {
+    if (user) load();
+  }, [user]);
+
+  if (!user) return <Navigate to="/login?next=/app/tokens" replace />;
+
+  const project = projects.find((p) => p.id === projectId);
+
+  const selectProject = (id: string) => {
+    setProjectId(id);
+    const role = projects.find((p) => p.id === id)?.role;
+    if (!canWrite(role)) {
+      setScopes((prev) => prev.filter((s) => s !== "DIAGRAM_WRITE"));
+    }
+  };
+
+  const toggleScope = (scope: Scope) =>
+    setScopes((prev) =>
+      prev.includes(scope) ? prev.filter((s) => s !== scope) : [...prev, scope]
+    );
+
+  const create = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setCreating(true);
+    setError(null);
+    try {
+      const { data } = await api.post<AccessToken & { token: string }>(
+        "/access-tokens",
+        {
+          name: name.trim(),
+          projectId,
+          scopes,
+          expiresInDays: expiresInDays || undefined,
+        }
+      );
+      const { token, ...row } = data;
+      setCreated({ name: row.name, projectId: row.project.id, token });
+      setTokens((prev) => [row, ...(prev ?? [])]);
+      setName("");
+    } catch (e) {
+      setError(getErrorMessage(e));
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const revoke = async (t: AccessToken) => {
+    if (
+      !window.confirm(
+        `¿Revocar "${t.name}"? Lo que lo use dejará de tener acceso.`
+      )
+    )
+      return;
+    setBusyId(t.id);
+    setError(null);
+    try {
+      await api.delete(`/access-tokens/${t.id}`);
+      setTokens((prev) => prev?.filter((x) => x.id !== t.id) ?? prev);
+    } catch (e) {
+      setError(getErrorMessage(e));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  // baseURL puede ser relativa ("/api", proxy de Vite)
+  const apiBase = new URL(
+    api.defaults.baseURL ?? "/api",
+    window.location.origin
+  ).href.replace(/\/$/, "");
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <main className="mx-auto max-w-2xl px-6 py-10">
+        <Link
+          to="/app/account"
+          className="inline-flex items-center gap-1.5 text-sm text-gray-500 hover:text-gray-700"
+        >
+          <ArrowLeft className="h-4 w-4" /> Volver a mi cuenta
+        </Link>
+        <h1 className="mt-4 text-xl font-semibold text-gray-900">
+          Tokens de acceso
+        </h1>
+        <p className="mt-1 text-sm text-gray-500">
+          Para scripts y pipelines de CI: cada token sirve para un solo proyecto
+          y solo para lo que marques. Nunca puede más que tu rol en el proyecto.
+        </p>
+
+        {error && (
+          <div className="mt-4 rounded-2xl bg-red-50 p-3 text-sm text-red-700">
+            {error}
+          </div>
+        )}
+
+        {created && (
+          <div className="mt-6 space-y-3 rounded-2xl border border-green-100 bg-green-50 p-5 text-sm">
+            <div className="font-medium text-green-800">
+              Token "{created.name}" creado. Cópialo ahora: no se vuelve a
+              mostrar.
+            </div>
+            <div className="flex items-center gap-2">
+              <code className="min-w-0 flex-1 truncate rounded-lg bg-white px-3 py-2 font-mono text-gray-800 select-all">
+                {created.token}
+              </code>
+              <button
+                onClick={() => navigator.clipboard?.writeText(created.token)}
+                className="inline-flex shrink-0 items-center gap-1.5 rounded-lg border border-green-200 bg-white px-3 py-2 text-gray-700 hover:bg-gray-50"
+              >
+                <Copy className="h-4 w-4" /> Copiar
+              </button>
+            </div>
+            <pre className="overflow-x-auto rounded-lg bg-white p-3 text-xs text-gray-600">
+              {`curl -H "Authorization: Bearer $UML_TOKEN" \\\n  ${apiBase}/projects/${created.projectId}/diagram`}
+            </pre>
+            <div className="flex justify-end">
+              <button
+                onClick={() => setCreated(null)}
+                className="rounded-lg px-3 py-1.5 text-green-800 hover:bg-green-100"
+              >
+                Listo
+              </button>
+            </div>
+          </div>
+        )}
+
+        <form
+          onSubmit={create}
+          className="mt-6 space-y-4 rounded-2xl border border-gray-100 bg-white p-5 shadow-sm"
+        >
+          <h2 className="font-semibold text-gray-800">Nuevo token</h2>
+          <div className="grid gap-3 sm:grid-cols-2">
+            <label className="block space-y-1">
+              <span className="text-xs text-gray-500">Nombre</span>
+              <input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="CI backend"
+                maxLength={80}
+                className={inputCls}
+              />
+            </label>
+            <label className="block space-y-1">
+              <span className="text-xs text-gray-500">Proyecto</span>
+              <select
+                value={projectId}
+                onChange={(e) => selectProject(e.target.value)}
+                className={inputCls}
+              >
+                <option value="">Elige un proyecto…</option>
+                {projects.map((p) => (
+                  <option key={p.id} value={p.id}>
+                    {p.name}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          <fieldset className="space-y-2">
+            <legend className="text-xs text-gray-500">Permisos</legend>
+            {SCOPES.map((s) => {
+              const disabled =
+                s.value === "DIAGRAM_WRITE" &&
+                !!project &&
+                !canWrite(project.role);
+              return (
+                <label
+                  key={s.value}
+                  className={`flex items-start gap-2 text-sm ${
+                    disabled ? "opacity-50" : ""
+                  }`}
+                >
+                  <input
+                    type="checkbox"
+                    checked={scopes.includes(s.value)}
+                    onChange={() => toggleScope(s.value)}
+                    disabled={disabled}
+                    className="mt-0.5"
+                  />
+                  <span>
+                    <span className="text-gray-800">{s.label}</span>
+                    <span className="block text-xs text-gray-500">
+                      {disabled ? "Tu rol en el proyecto no edita" : s.hint}
+                    </span>
+                  </span>
+                </label>
+              );
+            })}
+          </fieldset>
+
+          <div className="flex flex-wrap items-end justify-between gap-3">
+            <label className="block space-y-1">
+              <span className="text-xs text-gray-500">Vencimiento</span>
+              <select
+                value={expiresInDays}
+                onChange={(e) => setExpiresInDays(Number(e.target.value))}
+                className={inputCls}
+              >
+                {EXPIRY_OPTIONS.map((o) => (
+                  <option key={o.days} value={o.days}>
+                    {o.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <button
+              type="submit"
+              disabled={
+                creating || !name.trim() || !projectId || scopes.length === 0
+              }
+              className="rounded-xl bg-indigo-600 px-4 py-2 text-sm text-white hover:bg-indigo-700 disabled:opacity-60"
+            >
+              {creating ? "Creando…" : "Crear token"}
+            </button>
+          </div>
+        </form>
+
+        <div className="mt-6 divide-y divide-gray-100 rounded-2xl border border-gray-100 bg-white shadow-sm">
+          {tokens === null ? (
+            <div className="p-4 text-sm text-gray-500">Cargando…</div>
+          ) : tokens.length === 0 ? (
+            <div className="p-4 text-sm text-gray-500">
+              Todavía no creaste tokens
+            </div>
+          ) : (
+            tokens.map((t) => (
+              <div
+                key={t.id}
+                className="flex items-center justify-between gap-3 p-4"
+              >
+                <div className="flex min-w-0 items-center gap-3">
+                  <div className="rounded-xl bg-indigo-50 p-2 text-indigo-600">
+                    <KeyRound className="h-5 w-5" />
+                  </div>
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2 font-medium text-gray-800">
+                      <span className="truncate">{t.name}</span>
+                      {t.expired && (
+                        <span className="rounded-full bg-amber-50 px-2 py-0.5 text-xs font-medium text-amber-700">
+                          Vencido
+                        </span>
+                      )}
+                    </div>
+                    <div className="mt-0.5 text-xs text-gray-500">
+                      <span className="font-mono">{t.prefix}…</span> ·{" "}
+                      {t.project.name} ·{" "}
+                      {t.scopes.map((s) => SCOPE_LABEL[s]).join(", ")}
+                    </div>
+                    <div className="mt-0.5 text-xs text-gray-500">
+                      Último uso:{" "}
+                      {t.lastUsedAt
+                        ? new Date(t.lastUsedAt).toLocaleString()
+                        : "nunca"}{" "}
+                      · Vence:{" "}
+                      {t.expiresAt
+                        ? new Date(t.expiresAt).toLocaleDateString()
+                        : "nunca"}
+                    </div>
+                  </div>
+                </div>
+                <button
+                  onClick={() => revoke(t)}
+                  disabled={busyId === t.id}
+                  className="shrink-0 rounded-lg px-3 py-1.5 text-sm text-red-600 hover:bg-red-50 disabled:opacity-60"
+                >
+                  Revocar
+                </button>
+              </div>
+            ))
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
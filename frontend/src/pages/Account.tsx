@@ -0,0 +1,305 @@
+// src/pages/Account.tsx
+import { useEffect, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Link, Navigate } from "react-router-dom";
+import { ArrowLeft, BadgeCheck, ChevronRight, MailWarning } from "lucide-react";
+import {
+  ChangePasswordSchema,
+  ProfileSchema,
+  type ChangePasswordInput,
+  type ProfileInput,
+} from "../lib/zodSchemas";
+import { api, getErrorMessage } from "../lib/api";
+import { useAuth } from "../state/AuthContext";
+import TwoFactorSettings from "../uml/ui/TwoFactorSettings";
+
+type Me = {
+  id: string;
+  email: string;
+  name: string;
+  role: string;
+  emailVerifiedAt: string | null;
+  createdAt: string;
+};
+
+type Status = { ok: boolean; text: string } | null;
+
+const inputCls =
+  "w-full rounded-lg border border-gray-200 px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-indigo-500";
+
+function StatusLine({ status }: { status: Status }) {
+  if (!status) return null;
+  return (
+    <div
+      className={`rounded-xl px-3 py-2 text-sm ${
+        status.ok ? "bg-green-50 text-green-700" : "bg-red-50 text-red-700"
+      }`}
+    >
+      {status.text}
+    </div>
+  );
+}
+
+export default function Account() {
+  const { user, updateUser } = useAuth();
+  const [me, setMe] = useState<Me | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [profileStatus, setProfileStatus] = useState<Status>(null);
+  const [passwordStatus, setPasswordStatus] = useState<Status>(null);
+  const [verifyStatus, setVerifyStatus] = useState<Status>(null);
+  const [resending, setResending] = useState(false);
+
+  const profileForm = useForm<ProfileInput>({
+    resolver: zodResolver(ProfileSchema),
+  });
+  const passwordForm = useForm<ChangePasswordInput>({
+    resolver: zodResolver(ChangePasswordSchema),
+  });
+
+  useEffect(() => {
+    if (!user) return;
+    api
+      .get<Me>("/users/me")
+      .then(({ data }) => {
+        setMe(data);
+        profileForm.reset({ name: data.name });
+      })
+      .catch((e) => setLoadError(getErrorMessage(e)));
+  }, [user?.id]);
+
+  if (!user) return <Navigate to="/login?next=/app/account" replace />;
+
+  const saveProfile = async (values: ProfileInput) => {
+    setProfileStatus(null);
+    try {
+      const { data } = await api.patch<Me>("/users/me", values);
+      setMe(data);
+      updateUser({ ...user, name: data.name });
+      profileForm.reset({ name: data.name });
+      setProfileStatus({ ok: true, text: "Perfil actualizado" });
+    } catch (e) {
+      setProfileStatus({ ok: false, text: getErrorMessage(e) });
+    }
+  };
+
+  const changePassword = async (values: ChangePasswordInput) => {
+    setPasswordStatus(null);
+    try {
+      await api.post("/users/me/password", {
+        currentPassword: values.currentPassword,
+        newPassword: values.newPassword,
+      });
+      passwordForm.reset();
+      setPasswordStatus({
+        ok: true,
+        text: "Contraseña actualizada. Cerramos tus sesiones en los demás dispositivos.",
+      });
+    } catch (e) {
+      setPasswordStatus({ ok: false, text: getErrorMessage(e) });
+    }
+  };
+
+  const resendVerification = async () => {
+    setResending(true);
+    setVerifyStatus(null);
+    try {
+      await api.post("/users/me/verify-email");
+      setVerifyStatus({
+        ok: true,
+        text: `Te enviamos un link nuevo a ${me?.email}`,
+      });
+    } catch (e) {
+      setVerifyStatus({ ok: false, text: getErrorMessage(e) });
+    } finally {
+      setResending(false);
+    }
+  };
+
+  const pErrors = passwordForm.formState.errors;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <main className="mx-auto max-w-2xl px-6 py-10">
+        <Link
+          to="/app"
+          className="inline-flex items-center gap-1.5 text-sm text-gray-500 hover:text-gray-700"
+        >
+          <ArrowLeft className="h-4 w-4" /> Volver a mis proyectos
+        </Link>
+        <h1 className="mt-4 text-xl font-semibold text-gray-900">Mi cuenta</h1>
+
+        {loadError && (
+          <div className="mt-4 rounded-2xl bg-red-50 p-3 text-sm text-red-700">
+            {loadError}
+          </div>
+        )}
+
+        {/* Perfil */}
+        <section className="mt-6 space-y-4 rounded-2xl border border-gray-100 bg-white p-5 shadow-sm">
+          <h2 className="font-semibold text-gray-800">Perfil</h2>
+
+          <div className="space-y-1 text-sm">
+            <div className="text-xs text-gray-500">Email</div>
+            <div className="flex flex-wrap items-center gap-2 text-gray-800">
+              {me?.email ?? user.email}
+              {me &&
+                (me.emailVerifiedAt ? (
+                  <span className="inline-flex items-center gap-1 rounded-full bg-green-50 px-2 py-0.5 text-xs font-medium text-green-700">
+                    <BadgeCheck className="h-3.5 w-3.5" /> Verificado
+                  </span>
+                ) : (
+                  <span className="inline-flex items-center gap-1 rounded-full bg-amber-50 px-2 py-0.5 text-xs font-medium text-amber-700">
+                    <MailWarning className="h-3.5 w-3.5" /> Sin verificar
+                  </span>
+                ))}
+            </div>
+            {me && !me.emailVerifiedAt && (
+              <button
+                onClick={resendVerification}
+                disabled={resending}
+                className="text-xs font-medium text-indigo-600 hover:underline disabled:opacity-60"
+              >
+                {resending ? "Enviando…" : "Reenviar link de verificación"}
+              </button>
+            )}
+          </div>
+          <StatusLine status={verifyStatus} />
+
+          <form
+            onSubmit={profileForm.handleSubmit(saveProfile)}
+            className="space-y-3"
+          >
+            <label className="block space-y-1">
+              <span className="text-xs text-gray-500">Nombre</span>
+              <input
+                {...profileForm.register("name")}
+                className={inputCls}
+                autoComplete="name"
+              />
+            </label>
+            {profileForm.formState.errors.name && (
+              <p className="text-xs text-red-600">
+                {profileForm.formState.errors.name.message}
+              </p>
+            )}
+            <StatusLine status={profileStatus} />
+            <div className="flex justify-end">
+              <button
+                disabled={
+                  !me ||
+                  !profileForm.formState.isDirty ||
+                  profileForm.formState.isSubmitting
+                }
+                className="rounded-xl bg-indigo-600 px-3 py-1.5 text-sm text-white hover:bg-indigo-700 disabled:opacity-60"
+              >
+                {profileForm.formState.isSubmitting ? "Guardando…" : "Guardar"}
+              </button>
+            </div>
+          </form>
+        </section>
+
+        {/* Contraseña */}
+        <section className="mt-6 rounded-2xl border border-gray-100 bg-white p-5 shadow-sm">
+          <h2 className="font-semibold text-gray-800">Cambiar contraseña</h2>
+          <form
+            onSubmit={passwordForm.handleSubmit(changePassword)}
+            className="mt-4 space-y-3"
+          >
+            <label className="block space-y-1">
+              <span className="text-xs text-gray-500">Contraseña actual</span>
+              <input
+                type="password"
+                {...passwordForm.register("currentPassword")}
+                className={inputCls}
+                autoComplete="current-password"
+              />
+              {pErrors.currentPassword && (
+                <p className="text-xs text-red-600">
+                  {pErrors.currentPassword.message}
+                </p>
+              )}
+            </label>
+            <div className="grid grid-cols-1 gap-3 md:grid-cols-2">
+              <label className="block space-y-1">
+                <span className="text-xs text-gray-500">Contraseña nueva</span>
+                <input
+                  type="password"
+                  {...passwordForm.register("newPassword")}
+                  className={inputCls}
+                  autoComplete="new-password"
+                />
+                {pErrors.newPassword && (
+                  <p className="text-xs text-red-600">
+                    {pErrors.newPassword.message}
+                  </p>
+                )}
+              </label>
+              <label className="block space-y-1">
+                <span className="text-xs text-gray-500">
+                  Repetir contraseña
+                </span>
+                <input
+                  type="password"
+                  {...passwordForm.register("confirm")}
+                  className={inputCls}
+                  autoComplete="new-password"
+                />
+                {pErrors.confirm && (
+                  <p className="text-xs text-red-600">
+                    {pErrors.confirm.message}
+                  </p>
+                )}
+              </label>
+            </div>
+            <StatusLine status={passwordStatus} />
+            <div className="flex items-center justify-between">
+              <Link
+                to="/forgot-password"
+                className="text-xs text-gray-500 hover:text-gray-700"
+              >
+                ¿Olvidaste tu contraseña?
+              </Link>
+              <button
+                disabled={passwordForm.formState.isSubmitting}
+                className="rounded-xl bg-indigo-600 px-3 py-1.5 text-sm text-white hover:bg-indigo-700 disabled:opacity-60"
+              >
+                {passwordForm.formState.isSubmitting
+                  ? "Guardando…"
+                  : "Cambiar contraseña"}
+              </button>
+            </div>
+          </form>
+        </section>
+
+        <TwoFactorSettings />
+
+        <Link
+          to="/app/sessions"
+          className="mt-6 flex items-center justify-between rounded-2xl border border-gray-100 bg-white p-5 shadow-sm hover:bg-gray-50"
+        >
+          <div>
+            <div className="font-semibold text-gray-800">Sesiones abiertas</div>
+            <div className="mt-0.5 text-sm text-gray-500">
+              Revisa y cierra los dispositivos conectados a tu cuenta
+            </div>
+          </div>
+          <ChevronRight className="h-5 w-5 text-gray-400" />
+        </Link>
+
+        <Link
+          to="/app/tokens"
+          className="mt-4 flex items-center justify-between rounded-2xl border border-gray-100 bg-white p-5 shadow-sm hover:bg-gray-50"
+        >
+          <div>
+            <div className="font-semibold text-gray-800">Tokens de acceso</div>
+            <div className="mt-0.5 text-sm text-gray-500">
+              Acceso por API para scripts y CI, limitado a un proyecto
+            </div>
+          </div>
+          <ChevronRight className="h-5 w-5 text-gray-400" />
+        </Link>
+      </main>
+    </div>
+  );
+}
@@ -1,9 +1,17 @@
 // src/pages/Dashboard.tsx
 import React, { useEffect, useMemo, useRef, useState } from "react";
-import { useNavigate } from "react-router-dom";
-import { api } from "../lib/api";
+import { Link, useNavigate, useSearchParams } from "react-router-dom";
+import { Toaster, toast } from "react-hot-toast";
+import {
+  api,
+  getErrorMessage,
+  getFreshAccessToken,
+  onAccessTokenChange,
+} from "../lib/api";
 import { useAuth } from "../state/AuthContext";
 import { io, Socket } from "socket.io-client";
+import WorkspacesDialog, { type Workspace } from "../uml/ui/WorkspacesDialog";
+import NotificationBell from "../uml/ui/NotificationBell";
 
 /* ===================== Types ===================== */
 type Project = {
@@ -13,16 +21,106 @@ type Project = {
   createdAt: string;
   updatedAt: string;
   role?: "OWNER" | "ADMIN" | "EDITOR" | "VIEWER" | string;
+  forkedFromId?: string | null;
+  workspace?: { id: string; name: string } | null;
+  /** Favorito y etiquetas: son solo míos */
+  starred?: boolean;
+  tags?: string[];
 };
 
+type ProjectPage = { items: Project[]; nextCursor: string | null };
+
+type ProjectScope = "all" | "owned" | "shared";
+type ProjectSort = "updated" | "created" | "name";
+
+/** Filtros del listado; viven en la URL (?q=&scope=&starred=&tag=&sort=) */
+type ProjectFilters = {
+  q: string;
+  scope: ProjectScope;
+  starred: boolean;
+  tag: string;
+  sort: ProjectSort;
+};
+
+const SCOPE_LABEL: Record<ProjectScope, string> = {
+  all: "Todos",
+  owned: "Míos",
+  shared: "Compartidos conmigo",
+};
+
+const SORT_LABEL: Record<ProjectSort, string> = {
+  updated: "Última modificación",
+  created: "Fecha de creación",
+  name: "Nombre",
+};
+
+function readFilters(params: URLSearchParams): ProjectFilters {
+  const scope = params.get("scope") as ProjectScope;
+  const sort = params.get("sort") as ProjectSort;
+  return {
+    q: params.get("q") ?? "",
+    scope: scope in SCOPE_LABEL ? scope : "all",
+    starred: params.get("starred") === "true",
+    tag: params.get("tag") ?? "",
+    sort: sort in SORT_LABEL ? sort : "updated",
+  };
+}
+
+/** Solo lo que difiere de los defaults, para URLs cortas */
+function filtersToParams(f: ProjectFilters) {
+  const params: Record<string, string> = {};
+  if (f.q.trim()) params.q = f.q.trim();
+  if (f.scope !== "all") params.scope = f.scope;
+  if (f.starred) params.starred = "true";
+  if (f.tag) params.tag = f.tag;
+  if (f.sort !== "updated") params.sort = f.sort;
+  return params;
+}
+
+type TrashedProject = {
+  id: string;
+  name: string;
+  description?: string | null;
+  deletedAt: string;
+  /** Fecha a partir de la cual el job lo borra definitivamente */
+  purgeAt: string;
+};
+
+type EditRequestStatus = "PENDING" | "APPROVED" | "REJECTED" | "EXPIRED";
+
+/** Solicitud de edición tal como la devuelve el backend (REST y socket) */
 type EditRequestNotif = {
   requestId: string;
   projectId: string;
+  projectName?: string;
   requesterId: string;
   message?: string | null;
   requesterName?: string | null;
+  requesterEmail?: string;
+  status?: EditRequestStatus;
+  reason?: string | null;
+  createdAt?: string;
+  expiresAt?: string | null;
 };
 
+type EditRequestDto = Omit<EditRequestNotif, "requestId"> & { id: string };
+
+/** Oferta de propiedad recibida (ownershipTransferRequested / incoming) */
+type OwnershipTransfer = {
+  id: string;
+  projectId: string;
+  projectName: string;
+  fromUserName: string;
+  toUserId: string;
+  status: "PENDING" | "ACCEPTED" | "DECLINED" | "CANCELLED";
+  createdAt: string;
+};
+
+const toNotif = (r: EditRequestDto): EditRequestNotif => ({
+  ...r,
+  requestId: r.id,
+});
+
 /* ===================== Helpers ===================== */
 /** Obtiene token desde varias claves comunes (para sobrevivir reload/F5) */
 function getAuthToken(fallback?: string | null): string | null {
@@ -151,18 +249,78 @@ function IconTrash(props: React.SVGProps<SVGSVGElement>) {
   );
 }
 
+function IconRestore(props: React.SVGProps<SVGSVGElement>) {
+  return (
+    <svg
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth="2"
+      {...props}
+    >
+      <path
+        strokeLinecap="round"
+        strokeLinejoin="round"
+        d="M3 12a9 9 0 1 0 3-6.7L3 8M3 3v5h5"
+      />
+    </svg>
+  );
+}
+
+function IconStar({
+  filled,
+  ...props
+}: React.SVGProps<SVGSVGElement> & { filled?: boolean }) {
+  return (
+    <svg
+      viewBox="0 0 24 24"
+      fill={filled ? "currentColor" : "none"}
+      stroke="currentColor"
+      strokeWidth="2"
+      {...props}
+    >
+      <path
+        strokeLinecap="round"
+        strokeLinejoin="round"
+        d="M12 3l2.8 5.7 6.2.9-4.5 4.4 1.1 6.2L12 17.3 6.4 20.2l1.1-6.2L3 9.6l6.2-.9L12 3z"
+      />
+    </svg>
+  );
+}
+
+function IconTag(props: React.SVGProps<SVGSVGElement>) {
+  return (
+    <svg
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth="2"
+      {...props}
+    >
+      <path
+        strokeLinecap="round"
+        strokeLinejoin="round"
+        d="M20.6 13.4l-7.2 7.2a2 2 0 0 1-2.8 0L3 13V3h10l7.6 7.6a2 2 0 0 1 0 2.8zM7.5 7.5h.01"
+      />
+    </svg>
+  );
+}
+
 /* ===================== Create Project Modal ===================== */
 function CreateProjectModal({
   open,
+  workspaces,
   onClose,
   onCreated,
 }: {
   open: boolean;
+  workspaces: Workspace[];
   onClose: () => void;
   onCreated: (p: Project) => void;
 }) {
   const [name, setName] = useState("");
   const [description, setDescription] = useState("");
+  const [workspaceId, setWorkspaceId] = useState("");
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -170,6 +328,7 @@ function CreateProjectModal({
     if (open) {
       setName("");
       setDescription("");
+      setWorkspaceId("");
       setError(null);
       setLoading(false);
     }
@@ -187,6 +346,7 @@ function CreateProjectModal({
       const { data } = await api.post<Project>("/projects", {
         name,
         description,
+        workspaceId: workspaceId || undefined,
       });
       onCreated(data);
       onClose();
@@ -230,6 +390,25 @@ function CreateProjectModal({
               onChange={(e) => setDescription(e.target.value)}
             />
           </div>
+          {workspaces.length > 0 && (
+            <div>
+              <label className="text-sm font-medium text-gray-700">
+                Espacio de trabajo
+              </label>
+              <select
+                className="mt-1 w-full rounded-xl border border-gray-200 px-3 py-2 outline-none focus:ring-2 focus:ring-indigo-500"
+                value={workspaceId}
+                onChange={(e) => setWorkspaceId(e.target.value)}
+              >
+                <option value="">Personal</option>
+                {workspaces.map((w) => (
+                  <option key={w.id} value={w.id}>
+                    {w.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
           {error && (
             <div className="rounded-2xl bg-red-50 p-3 text-sm text-red-700">
               {error}
@@ -259,12 +438,22 @@ function CreateProjectModal({
 /* ===================== Project Card ===================== */
 function ProjectCard({
   p,
+  workspaces,
   onOpen,
   onDelete,
+  onMove,
+  onToggleStar,
+  onEditTags,
+  onTagClick,
 }: {
   p: Project;
+  workspaces: Workspace[];
   onOpen: (id: string) => void;
   onDelete: (id: string) => void;
+  onMove: (id: string, workspaceId: string | null) => void;
+  onToggleStar: (p: Project) => void;
+  onEditTags: (p: Project) => void;
+  onTagClick: (tag: string) => void;
 }) {
   return (
     <div className="group relative rounded-2xl border border-gray-100 bg-white p-5 shadow-sm ring-1 ring-transparent transition hover:shadow-md hover:ring-indigo-100">
@@ -282,15 +471,69 @@ function ProjectCard({
             </p>
           </div>
         </div>
-        {p.role && (
-          <span className="rounded-full bg-gray-100 px-2.5 py-1 text-xs font-medium text-gray-700">
-            {p.role}
-          </span>
-        )}
+        <div className="flex items-center gap-1.5">
+          <button
+            onClick={() => onToggleStar(p)}
+            title={p.starred ? "Quitar de favoritos" : "Marcar como favorito"}
+            className={`rounded-lg p-1 hover:bg-amber-50 ${
+              p.starred
+                ? "text-amber-500"
+                : "text-gray-300 hover:text-amber-500"
+            }`}
+          >
+            <IconStar filled={p.starred} className="h-4 w-4" />
+          </button>
+          {p.forkedFromId && (
+            <span className="rounded-full bg-amber-50 px-2.5 py-1 text-xs font-medium text-amber-700">
+              Fork
+            </span>
+          )}
+          {p.role && (
+            <span className="rounded-full bg-gray-100 px-2.5 py-1 text-xs font-medium text-gray-700">
+              {p.role}
+            </span>
+          )}
+        </div>
       </div>
+      {!!p.tags?.length && (
+        <div className="mt-3 flex flex-wrap gap-1">
+          {p.tags.map((t) => (
+            <button
+              key={t}
+              onClick={() => onTagClick(t)}
+              title="Filtrar por esta etiqueta"
+              className="rounded-full bg-indigo-50 px-2 py-0.5 text-xs text-indigo-700 hover:bg-indigo-100"
+            >
+              {t}
+            </button>
+          ))}
+        </div>
+      )}
       <div className="mt-4 flex items-center justify-between text-xs text-gray-500">
         <span>Creado: {new Date(p.createdAt).toLocaleDateString()}</span>
         <div className="flex items-center gap-2">
+          {p.role === "OWNER" && workspaces.length > 0 && (
+            <select
+              value={p.workspace?.id ?? ""}
+              onChange={(e) => onMove(p.id, e.target.value || null)}
+              title="Mover a un espacio de trabajo"
+              className="max-w-[8rem] rounded-lg border border-gray-200 bg-white px-1.5 py-1 text-xs text-gray-600 outline-none focus:ring-2 focus:ring-indigo-500"
+            >
+              <option value="">Personal</option>
+              {workspaces.map((w) => (
+                <option key={w.id} value={w.id}>
+                  {w.name}
+                </option>
+              ))}
+            </select>
+          )}
+          <button
+            onClick={() => onEditTags(p)}
+            title="Editar etiquetas"
+            className="rounded-lg px-2 py-1.5 text-gray-500 hover:bg-gray-100"
+          >
+            <IconTag className="h-4 w-4" />
+          </button>
           <button
             onClick={() => onOpen(p.id)}
             className="rounded-lg px-3 py-1.5 text-indigo-600 hover:bg-indigo-50"
@@ -310,6 +553,125 @@ function ProjectCard({
   );
 }
 
+/* ===================== Trash ===================== */
+function TrashSection({
+  items,
+  onRestore,
+}: {
+  items: TrashedProject[] | null;
+  onRestore: (id: string) => void;
+}) {
+  if (items === null) {
+    return <div className="text-sm text-gray-500">Cargando papelera…</div>;
+  }
+  if (items.length === 0) {
+    return (
+      <div className="rounded-2xl bg-white p-4 text-sm text-gray-500 shadow-sm">
+        La papelera está vacía
+      </div>
+    );
+  }
+  return (
+    <div className="divide-y divide-gray-100 rounded-2xl border border-gray-100 bg-white shadow-sm">
+      {items.map((p) => (
+        <div key={p.id} className="flex items-center justify-between gap-3 p-4">
+          <div className="min-w-0">
+            <div className="line-clamp-1 font-medium text-gray-800">
+              {p.name}
+            </div>
+            <div className="mt-0.5 text-xs text-gray-500">
+              Eliminado: {new Date(p.deletedAt).toLocaleDateString()} · Se borra
+              definitivamente el {new Date(p.purgeAt).toLocaleDateString()}
+            </div>
+          </div>
+          <button
+            onClick={() => onRestore(p.id)}
+            className="inline-flex shrink-0 items-center gap-1.5 rounded-lg px-3 py-1.5 text-sm text-indigo-600 hover:bg-indigo-50"
+          >
+            <IconRestore className="h-4 w-4" /> Restaurar
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/* ===================== Mis solicitudes ===================== */
+const REQUEST_STATUS: Record<
+  EditRequestStatus,
+  { label: string; className: string }
+> = {
+  PENDING: { label: "Pendiente", className: "bg-amber-50 text-amber-700" },
+  APPROVED: { label: "Aprobada", className: "bg-green-50 text-green-700" },
+  REJECTED: { label: "Rechazada", className: "bg-red-50 text-red-700" },
+  EXPIRED: { label: "Vencida", className: "bg-gray-100 text-gray-600" },
+};
+
+function MyRequestsSection({
+  items,
+  onOpen,
+}: {
+  items: EditRequestNotif[] | null;
+  onOpen: (projectId: string) => void;
+}) {
+  if (items === null) {
+    return <div className="text-sm text-gray-500">Cargando solicitudes…</div>;
+  }
+  if (items.length === 0) {
+    return (
+      <div className="rounded-2xl bg-white p-4 text-sm text-gray-500 shadow-sm">
+        No enviaste solicitudes de edición
+      </div>
+    );
+  }
+  return (
+    <div className="divide-y divide-gray-100 rounded-2xl border border-gray-100 bg-white shadow-sm">
+      {items.map((r) => {
+        const st = REQUEST_STATUS[r.status ?? "PENDING"];
+        return (
+          <div
+            key={r.requestId}
+            className="flex items-center justify-between gap-3 p-4"
+          >
+            <div className="min-w-0">
+              <div className="line-clamp-1 font-medium text-gray-800">
+                {r.projectName ?? r.projectId}
+              </div>
+              <div className="mt-0.5 text-xs text-gray-500">
+                Enviada:{" "}
+                {r.createdAt ? new Date(r.createdAt).toLocaleDateString() : "—"}
+                {r.status === "PENDING" && r.expiresAt && (
+                  <> · Vence el {new Date(r.expiresAt).toLocaleDateString()}</>
+                )}
+              </div>
+              {r.status === "REJECTED" && r.reason && (
+                <div className="mt-1 text-xs italic text-gray-500">
+                  Motivo: “{r.reason}”
+                </div>
+              )}
+            </div>
+            <div className="flex shrink-0 items-center gap-2">
+              <span
+                className={`rounded-full px-2 py-0.5 text-xs font-medium ${st.className}`}
+              >
+                {st.label}
+              </span>
+              {r.status === "APPROVED" && (
+                <button
+                  onClick={() => onOpen(r.projectId)}
+                  className="rounded-lg px-3 py-1.5 text-sm text-indigo-600 hover:bg-indigo-50"
+                >
+                  Abrir
+                </button>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
 /* ===================== Empty State ===================== */
 function EmptyProjects({ onCreate }: { onCreate: () => void }) {
   return (
@@ -333,18 +695,35 @@ function EmptyProjects({ onCreate }: { onCreate: () => void }) {
 }
 
 export default function Dashboard() {
-  const { user, token } = useAuth();
+  const { user, token, logout } = useAuth();
   const navigate = useNavigate();
 
-  const [query, setQuery] = useState("");
+  const [searchParams, setSearchParams] = useSearchParams();
+  const filters = useMemo(() => readFilters(searchParams), [searchParams]);
+  // El buscador escribe en la URL con un pequeño debounce
+  const [query, setQuery] = useState(filters.q);
   const [projects, setProjects] = useState<Project[] | null>(null);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [tags, setTags] = useState<string[]>([]);
   const [error, setError] = useState<string | null>(null);
   const [creating, setCreating] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const xmiInputRef = useRef<HTMLInputElement | null>(null);
+  const [trashOpen, setTrashOpen] = useState(false);
+  const [trash, setTrash] = useState<TrashedProject[] | null>(null);
+  const [myRequestsOpen, setMyRequestsOpen] = useState(false);
+  const [myRequests, setMyRequests] = useState<EditRequestNotif[] | null>(null);
+
+  const [transfers, setTransfers] = useState<OwnershipTransfer[]>([]);
+
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+  const [workspacesOpen, setWorkspacesOpen] = useState(false);
 
-  const [notifOpen, setNotifOpen] = useState(false);
   const [requests, setRequests] = useState<EditRequestNotif[]>([]);
-  const notifRef = useRef<HTMLDivElement | null>(null);
   const socketRef = useRef<Socket | null>(null);
+  // Copia en estado para que la campanita se suscriba al conectarse
+  const [socket, setSocket] = useState<Socket | null>(null);
   const createdSocketOnce = useRef(false);
 
   /** Token efectivo (AuthContext o localStorage) */
@@ -355,27 +734,74 @@ export default function Dashboard() {
     applyAxiosAuthHeader(effectiveToken);
   }, [effectiveToken]);
 
-  const filtered = useMemo(() => {
-    if (!projects) return [] as Project[];
-    const q = query.trim().toLowerCase();
-    if (!q) return projects;
-    return projects.filter(
-      (p) =>
-        p.name.toLowerCase().includes(q) ||
-        (p.description || "").toLowerCase().includes(q)
-    );
-  }, [projects, query]);
+  // Los listeners del socket se crean una vez: leen los filtros de acá
+  const filtersRef = useRef(filters);
+  filtersRef.current = filters;
+  // Descarta respuestas viejas si los filtros cambian rápido
+  const loadSeq = useRef(0);
+
+  const hasFilters =
+    !!filters.q || filters.scope !== "all" || filters.starred || !!filters.tag;
+
+  const updateFilters = (patch: Partial<ProjectFilters>) =>
+    setSearchParams(filtersToParams({ ...filtersRef.current, ...patch }), {
+      replace: true,
+    });
+
+  useEffect(() => {
+    if (query.trim() === filters.q) return;
+    const t = window.setTimeout(() => updateFilters({ q: query }), 300);
+    return () => window.clearTimeout(t);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [query]);
+
+  // Navegación (atrás/adelante) que cambia ?q= desde afuera del input
+  useEffect(() => {
+    setQuery((prev) => (prev.trim() === filters.q ? prev : filters.q));
+  }, [filters.q]);
 
-  async function loadProjects() {
+  /** Personales primero y después uno por workspace (solo los que tienen) */
+  const groups = useMemo(() => {
+    const byWorkspace = new Map<string, { title: string; items: Project[] }>();
+    const personal: Project[] = [];
+    for (const p of projects ?? []) {
+      if (!p.workspace) {
+        personal.push(p);
+        continue;
+      }
+      const g = byWorkspace.get(p.workspace.id) ?? {
+        title: p.workspace.name,
+        items: [],
+      };
+      g.items.push(p);
+      byWorkspace.set(p.workspace.id, g);
+    }
+    const rest = [...byWorkspace.entries()]
+      .map(([id, g]) => ({ id, ...g }))
+      .sort((a, b) => a.title.localeCompare(b.title));
+    return personal.length
+      ? [{ id: "personal", title: "Personales", items: personal }, ...rest]
+      : rest;
+  }, [projects]);
+
+  /** Primera página con los filtros actuales; con `cursor`, la siguiente */
+  async function loadProjects(cursor?: string) {
+    const seq = ++loadSeq.current;
     setError(null);
     try {
-      const { data } = await api.get<Project[]>("/projects", {
+      const { data } = await api.get<ProjectPage>("/projects", {
+        params: { ...filtersToParams(filtersRef.current), cursor },
         headers: effectiveToken
           ? { Authorization: `Bearer ${effectiveToken}` }
           : undefined,
       });
-      setProjects(data);
+      if (seq !== loadSeq.current) return;
+      setProjects((prev) =>
+        cursor ? [...(prev ?? []), ...data.items] : data.items
+      );
+      setNextCursor(data.nextCursor);
     } catch (err: any) {
+      if (seq !== loadSeq.current) return;
       const status = err?.response?.status;
       if (status === 401) {
         setError("No pudimos validar tu sesión. Reintenta actualizar.");
@@ -386,30 +812,270 @@ export default function Dashboard() {
           "No se pudieron cargar los proyectos";
         setError(msg);
       }
-      setProjects([]);
+      if (!cursor) setProjects([]);
+    }
+  }
+
+  const loadMoreProjects = async () => {
+    if (!nextCursor || loadingMore) return;
+    setLoadingMore(true);
+    await loadProjects(nextCursor);
+    setLoadingMore(false);
+  };
+
+  async function loadTags() {
+    try {
+      const { data } = await api.get<string[]>("/projects/tags", {
+        headers: effectiveToken
+          ? { Authorization: `Bearer ${effectiveToken}` }
+          : undefined,
+      });
+      setTags(data);
+    } catch {
+      setTags([]);
     }
   }
 
-  // Cargar proyectos cuando hay token efectivo
+  // Cargar proyectos cuando hay token efectivo y cada vez que cambian filtros
   useEffect(() => {
     if (!effectiveToken) {
       setProjects([]);
       setError("No estás autenticado. Por favor inicia sesión.");
       return;
     }
+    setProjects(null);
     loadProjects();
     // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [effectiveToken, searchParams]);
+
+  useEffect(() => {
+    if (effectiveToken) loadTags();
   }, [effectiveToken]);
 
+  const savePreferences = async (
+    p: Project,
+    prefs: { starred?: boolean; tags?: string[] }
+  ) => {
+    try {
+      const { data } = await api.put<{ starred: boolean; tags: string[] }>(
+        `/projects/${p.id}/preferences`,
+        prefs,
+        {
+          headers: effectiveToken
+            ? { Authorization: `Bearer ${effectiveToken}` }
+            : undefined,
+        }
+      );
+      const f = filtersRef.current;
+      // Si deja de cumplir el filtro activo, sale del listado
+      const keep =
+        (!f.starred || data.starred) && (!f.tag || data.tags.includes(f.tag));
+      setProjects((prev) =>
+        prev
+          ? keep
+            ? prev.map((x) => (x.id === p.id ? { ...x, ...data } : x))
+            : prev.filter((x) => x.id !== p.id)
+          : prev
+      );
+      if (prefs.tags) loadTags();
+    } catch (err) {
+      toast.error(getErrorMessage(err));
+    }
+  };
+
+  const toggleStar = (p: Project) =>
+    savePreferences(p, { starred: !p.starred });
+
+  const editTags = (p: Project) => {
+    const value = window.prompt(
+      "Etiquetas separadas por coma (ej: parcial, práctica 2):",
+      (p.tags ?? []).join(", ")
+    );
+    if (value === null) return;
+    savePreferences(p, {
+      tags: value
+        .split(",")
+        .map((t) => t.trim())
+        .filter(Boolean),
+    });
+  };
+
+  /** Proyecto nuevo desde un XMI (Enterprise Architect, Papyrus, StarUML…) */
+  const importXmiProject = async (file: File) => {
+    const form = new FormData();
+    form.append("file", file);
+    form.append("name", file.name.replace(/\.[^.]+$/, "").slice(0, 120));
+    setImporting(true);
+    try {
+      const { data } = await api.post<
+        Project & { imported: { classes: number; relations: number } }
+      >("/projects/import/xmi", form, {
+        headers: effectiveToken
+          ? { Authorization: `Bearer ${effectiveToken}` }
+          : undefined,
+      });
+      toast.success(
+        `Importadas ${data.imported.classes} clases y ${data.imported.relations} relaciones`
+      );
+      setProjects((prev) => (prev ? [data, ...prev] : [data]));
+      openProject(data.id);
+    } catch (err) {
+      toast.error(getErrorMessage(err));
+    } finally {
+      setImporting(false);
+    }
+  };
+
   const openProject = (id: string) => {
     // bust cache del router para que el Editor siempre monte fresco
     const ts = Date.now();
     navigate(`/app/projects/${id}?t=${ts}`);
   };
 
+  async function loadTrash() {
+    try {
+      const { data } = await api.get<TrashedProject[]>("/projects/trash", {
+        headers: effectiveToken
+          ? { Authorization: `Bearer ${effectiveToken}` }
+          : undefined,
+      });
+      setTrash(data);
+    } catch {
+      setTrash([]);
+    }
+  }
+
+  /** Pendientes de mis proyectos (llegaron aunque no estuviera conectado) */
+  async function loadIncomingRequests() {
+    try {
+      const { data } = await api.get<EditRequestDto[]>(
+        "/edit-requests/incoming",
+        {
+          headers: effectiveToken
+            ? { Authorization: `Bearer ${effectiveToken}` }
+            : undefined,
+        }
+      );
+      setRequests(data.map(toNotif));
+    } catch {
+      // la bandeja igual se llena por socket
+    }
+  }
+
+  async function loadMyRequests() {
+    try {
+      const { data } = await api.get<EditRequestDto[]>("/edit-requests/mine", {
+        headers: effectiveToken
+          ? { Authorization: `Bearer ${effectiveToken}` }
+          : undefined,
+      });
+      setMyRequests(data.map(toNotif));
+    } catch {
+      setMyRequests([]);
+    }
+  }
+
+  /** Proyectos que me ofrecieron transferir */
+  async function loadTransfers() {
+    try {
+      const { data } = await api.get<OwnershipTransfer[]>(
+        "/ownership-transfers/incoming",
+        {
+          headers: effectiveToken
+            ? { Authorization: `Bearer ${effectiveToken}` }
+            : undefined,
+        }
+      );
+      setTransfers(data);
+    } catch {
+      setTransfers([]);
+    }
+  }
+
+  const resolveTransfer = async (
+    t: OwnershipTransfer,
+    action: "accept" | "decline"
+  ) => {
+    try {
+      await api.post(
+        `/projects/${t.projectId}/transfer/${t.id}/${action}`,
+        undefined,
+        {
+          headers: effectiveToken
+            ? { Authorization: `Bearer ${effectiveToken}` }
+            : undefined,
+        }
+      );
+      setTransfers((prev) => prev.filter((x) => x.id !== t.id));
+      if (action === "accept") {
+        toast.success(`Ahora sos owner de "${t.projectName}"`);
+        loadProjects();
+      }
+    } catch (err) {
+      toast.error(getErrorMessage(err));
+      loadTransfers();
+    }
+  };
+
+  useEffect(() => {
+    if (effectiveToken) loadTransfers();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [effectiveToken]);
+
+  async function loadWorkspaces() {
+    try {
+      const { data } = await api.get<Workspace[]>("/workspaces", {
+        headers: effectiveToken
+          ? { Authorization: `Bearer ${effectiveToken}` }
+          : undefined,
+      });
+      setWorkspaces(data);
+    } catch {
+      setWorkspaces([]);
+    }
+  }
+
+  useEffect(() => {
+    if (effectiveToken) loadWorkspaces();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [effectiveToken]);
+
+  const handleMoveProject = async (id: string, workspaceId: string | null) => {
+    try {
+      await api.put(
+        `/projects/${id}/workspace`,
+        { workspaceId },
+        {
+          headers: effectiveToken
+            ? { Authorization: `Bearer ${effectiveToken}` }
+            : undefined,
+        }
+      );
+      loadProjects();
+      loadWorkspaces();
+    } catch (err) {
+      toast.error(getErrorMessage(err));
+    }
+  };
+
+  useEffect(() => {
+    if (effectiveToken) loadIncomingRequests();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [effectiveToken]);
+
+  const toggleMyRequests = () => {
+    if (!myRequestsOpen) loadMyRequests();
+    setMyRequestsOpen((v) => !v);
+  };
+
+  const toggleTrash = () => {
+    if (!trashOpen) loadTrash();
+    setTrashOpen((v) => !v);
+  };
+
   const handleDeleteProject = async (id: string) => {
     const ok = window.confirm(
-      "¿Eliminar este proyecto? Esta acción no se puede deshacer."
+      "¿Mover este proyecto a la papelera? Podrás restaurarlo durante un tiempo antes de que se elimine definitivamente."
     );
     if (!ok) return;
     try {
@@ -419,6 +1085,7 @@ export default function Dashboard() {
           : undefined,
       });
       setProjects((prev) => (prev ? prev.filter((x) => x.id !== id) : []));
+      if (trashOpen) loadTrash();
     } catch (err: any) {
       const msg =
         err?.response?.data?.message ||
@@ -428,6 +1095,28 @@ export default function Dashboard() {
     }
   };
 
+  const handleRestoreProject = async (id: string) => {
+    try {
+      const { data } = await api.post<Project>(
+        `/projects/${id}/restore`,
+        undefined,
+        {
+          headers: effectiveToken
+            ? { Authorization: `Bearer ${effectiveToken}` }
+            : undefined,
+        }
+      );
+      setTrash((prev) => (prev ? prev.filter((x) => x.id !== id) : prev));
+      setProjects((prev) => (prev ? [data, ...prev] : [data]));
+    } catch (err: any) {
+      const msg =
+        err?.response?.data?.message ||
+        err?.message ||
+        "No se pudo restaurar el proyecto";
+      window.alert(msg);
+    }
+  };
+
   // === Socket: notificaciones (owner) ===
   useEffect(() => {
     if (!effectiveToken) return;
@@ -448,19 +1137,28 @@ export default function Dashboard() {
       path: socketPath,
       transports: ["polling", "websocket"],
       withCredentials: true,
-      auth: { token: effectiveToken },
+      // Cada (re)conexión usa el token vigente, renovado si está por vencer
+      auth: (cb) => {
+        getFreshAccessToken().then((t) => cb({ token: t ?? effectiveToken }));
+      },
       reconnection: true,
       reconnectionAttempts: 5,
       reconnectionDelay: 600,
       timeout: 8000,
-      extraHeaders: { Authorization: `Bearer ${effectiveToken}` },
     });
 
     socketRef.current = s;
+    setSocket(s);
 
-    s.on("connect", () => {
+    s.on("connect", async () => {
       // owner se une a un canal global para recibir solicitudes
-      s.emit("joinOwner", { authToken: effectiveToken });
+      const authToken = (await getFreshAccessToken()) ?? effectiveToken;
+      s.emit("joinOwner", { authToken });
+    });
+
+    // Token renovado: el socket se vuelve a identificar con el nuevo
+    const offTokenChange = onAccessTokenChange((t) => {
+      if (t && s.connected) s.emit("joinOwner", { authToken: t });
     });
 
     s.on("connect_error", (err) => {
@@ -476,52 +1174,119 @@ export default function Dashboard() {
     });
 
     // Si el backend también notifica aprobaciones globales, mantenemos limpio
-    s.on("memberUpdated", ({ userId, requesterId }: any) => {
+    s.on("memberUpdated", ({ userId, requesterId, requestIds }: any) => {
       const uid = userId ?? requesterId;
       setRequests((prev) => prev.filter((r) => r.requesterId !== uid));
+      // Con requestIds viene de una aprobación; este socket solo está en
+      // user:<id>, así que es una solicitud mía
+      if (Array.isArray(requestIds) && requestIds.length) {
+        setMyRequests((prev) =>
+          prev
+            ? prev.map((r) =>
+                requestIds.includes(r.requestId)
+                  ? { ...r, status: "APPROVED" }
+                  : r
+              )
+            : prev
+        );
+        toast.success("Te aprobaron una solicitud de edición");
+        loadProjects();
+      } else {
+        // Cambió mi acceso a un proyecto (miembros o workspaces)
+        loadProjects();
+        loadWorkspaces();
+      }
+    });
+
+    // Me rechazaron una solicitud (sala personal user:<id>)
+    s.on("editRequestRejected", (payload: EditRequestNotif) => {
+      setMyRequests((prev) =>
+        prev
+          ? prev.map((r) =>
+              r.requestId === payload.requestId ? { ...r, ...payload } : r
+            )
+          : prev
+      );
+      toast.error(
+        `Rechazaron tu solicitud en "${payload.projectName ?? "un proyecto"}"` +
+          (payload.reason ? `: ${payload.reason}` : "")
+      );
+    });
+
+    // Transferencias de propiedad (sala personal user:<id>)
+    s.on("ownershipTransferRequested", (t: OwnershipTransfer) => {
+      if (t.toUserId !== user?.id) return;
+      setTransfers((prev) => [t, ...prev.filter((x) => x.id !== t.id)]);
+      toast(`${t.fromUserName} te ofrece la propiedad de "${t.projectName}"`);
+    });
+    s.on("ownershipTransferUpdated", (t: OwnershipTransfer) => {
+      setTransfers((prev) => prev.filter((x) => x.id !== t.id));
+    });
+    s.on("ownershipTransferred", (t: OwnershipTransfer) => {
+      setTransfers((prev) => prev.filter((x) => x.id !== t.id));
+      loadProjects();
     });
 
     return () => {
+      offTokenChange();
       try {
         s.removeAllListeners();
         s.disconnect();
       } catch {}
       socketRef.current = null;
+      setSocket(null);
       createdSocketOnce.current = false;
     };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [effectiveToken]);
 
-  // Click fuera para cerrar dropdown
-  useEffect(() => {
-    const onDocClick = (e: MouseEvent) => {
-      if (!notifRef.current) return;
-      if (!notifRef.current.contains(e.target as Node)) setNotifOpen(false);
-    };
-    document.addEventListener("mousedown", onDocClick);
-    return () => document.removeEventListener("mousedown", onDocClick);
-  }, []);
-
-  // Aprobar: emite por socket al backend. El backend debe reenviar al invitado.
-  const approveRequest = (projectId: string, requesterId: string) => {
-    const s = socketRef.current;
-    if (!s) return;
-
-    // 1) Emitimos al servidor para que haga la actualización y BROADCAST al invitado
-    s.emit("approveEdit", { projectId, userId: requesterId, role: "EDITOR" });
-
-    // 2) Limpieza optimista de la bandeja
-    setRequests((prev) =>
-      prev.filter(
-        (r) => !(r.projectId === projectId && r.requesterId === requesterId)
-      )
-    );
+  const dropRequest = (requestId: string) =>
+    setRequests((prev) => prev.filter((r) => r.requestId !== requestId));
 
-    // (Opcional) Si tu backend espera un “ack”:
-    // s.timeout(5000).emit("approveEdit", { projectId, userId: requesterId, role: "EDITOR" }, (err: any, ok: any) => {
-    //   if (err) {
-    //     // si falla, podrías reinsertar la solicitud en la bandeja
-    //   }
-    // });
+  // Aprobar por REST: el backend da el rol y avisa en vivo al invitado
+  const approveRequest = async (r: EditRequestNotif) => {
+    try {
+      await api.post(
+        `/projects/${r.projectId}/edit-requests/${r.requestId}/approve`,
+        { role: "EDITOR" },
+        {
+          headers: effectiveToken
+            ? { Authorization: `Bearer ${effectiveToken}` }
+            : undefined,
+        }
+      );
+      dropRequest(r.requestId);
+    } catch (err: any) {
+      toast.error(getErrorMessage(err));
+      // vencida o ya resuelta: la sacamos igual de la bandeja
+      if ([400, 404, 410].includes(err?.response?.status)) {
+        dropRequest(r.requestId);
+      }
+    }
+  };
+
+  const rejectRequest = async (r: EditRequestNotif) => {
+    const reason = window.prompt(
+      "Motivo del rechazo (opcional, lo verá el solicitante):"
+    );
+    if (reason === null) return;
+    try {
+      await api.post(
+        `/projects/${r.projectId}/edit-requests/${r.requestId}/reject`,
+        { reason: reason.trim() || undefined },
+        {
+          headers: effectiveToken
+            ? { Authorization: `Bearer ${effectiveToken}` }
+            : undefined,
+        }
+      );
+      dropRequest(r.requestId);
+    } catch (err: any) {
+      toast.error(getErrorMessage(err));
+      if ([400, 404, 410].includes(err?.response?.status)) {
+        dropRequest(r.requestId);
+      }
+    }
   };
 
   return (
@@ -543,41 +1308,44 @@ export default function Dashboard() {
             </div>
           </div>
 
-          {/* Campanita de notificaciones */}
-          <div className="relative" ref={notifRef}>
+          <div className="flex items-center gap-2">
+            <Link
+              to="/app/account"
+              className="rounded-xl px-3 py-2 text-sm text-gray-600 hover:bg-gray-50"
+            >
+              Mi cuenta
+            </Link>
+            <Link
+              to="/app/sessions"
+              className="rounded-xl px-3 py-2 text-sm text-gray-600 hover:bg-gray-50"
+            >
+              Sesiones
+            </Link>
             <button
-              onClick={() => setNotifOpen((v) => !v)}
-              className="relative rounded-xl border border-gray-200 bg-white p-2 text-gray-700 hover:bg-gray-50"
-              title="Notificaciones"
+              onClick={() => {
+                logout();
+                navigate("/login", { replace: true });
+              }}
+              className="rounded-xl px-3 py-2 text-sm text-gray-600 hover:bg-gray-50"
             >
-              <IconBell className="h-5 w-5" />
-              {requests.length > 0 && (
-                <span className="absolute -right-1 -top-1 inline-flex h-5 min-w-[20px] items-center justify-center rounded-full bg-red-600 px-1 text-xs font-semibold text-white">
-                  {requests.length}
-                </span>
-              )}
+              Cerrar sesión
             </button>
-
-            {notifOpen && (
-              <div className="absolute right-0 z-50 mt-2 w-96 max-w-[90vw] rounded-2xl border border-gray-200 bg-white p-3 shadow-xl">
-                <div className="mb-2 flex items-center justify-between">
-                  <div className="text-sm font-semibold text-gray-700">
-                    Solicitudes de edición
-                  </div>
-                  <button
-                    onClick={() => setRequests([])}
-                    className="text-xs text-gray-500 hover:text-gray-700"
-                    title="Limpiar"
-                  >
-                    Limpiar
-                  </button>
-                </div>
-
-                {requests.length === 0 ? (
-                  <div className="rounded-xl bg-gray-50 p-3 text-sm text-gray-500">
-                    No hay solicitudes pendientes
+            {/* Campanita: notificaciones + solicitudes de edición pendientes */}
+            <NotificationBell socket={socket} extraCount={requests.length}>
+              {requests.length > 0 && (
+                <div className="mb-3 border-b border-gray-100 pb-3">
+                  <div className="mb-2 flex items-center justify-between">
+                    <div className="text-sm font-semibold text-gray-700">
+                      Solicitudes de edición
+                    </div>
+                    <button
+                      onClick={loadIncomingRequests}
+                      className="text-xs text-gray-500 hover:text-gray-700"
+                      title="Actualizar"
+                    >
+                      Actualizar
+                    </button>
                   </div>
-                ) : (
                   <div className="max-h-80 space-y-2 overflow-auto pr-1">
                     {requests.map((r) => (
                       <div
@@ -586,16 +1354,30 @@ export default function Dashboard() {
                       >
                         <div className="text-sm font-medium text-gray-800">
                           Proyecto:{" "}
-                          <span className="font-mono text-indigo-600">
-                            {r.projectId}
+                          <span className="text-indigo-600">
+                            {r.projectName ?? r.projectId}
                           </span>
                         </div>
                         <div className="mt-0.5 text-xs text-gray-600">
                           Solicitante:{" "}
-                          <span className="font-mono">
-                            {r.requesterName ? r.requesterName : r.requesterId}
+                          <span className="font-medium">
+                            {r.requesterName ||
+                              r.requesterEmail ||
+                              r.requesterId}
                           </span>
+                          {r.requesterName && r.requesterEmail && (
+                            <span className="text-gray-400">
+                              {" "}
+                              · {r.requesterEmail}
+                            </span>
+                          )}
                         </div>
+                        {r.expiresAt && (
+                          <div className="mt-0.5 text-[11px] text-gray-400">
+                            Vence el{" "}
+                            {new Date(r.expiresAt).toLocaleDateString()}
+                          </div>
+                        )}
                         {r.message && (
                           <div className="mt-1 text-xs italic text-gray-500">
                             “{r.message}”
@@ -603,26 +1385,61 @@ export default function Dashboard() {
                         )}
                         <div className="mt-2 flex gap-2">
                           <button
-                            onClick={() =>
-                              approveRequest(r.projectId, r.requesterId)
-                            }
+                            onClick={() => approveRequest(r)}
                             className="rounded-lg bg-green-600 px-3 py-1.5 text-xs font-medium text-white hover:bg-green-700"
                           >
                             Aprobar edición
                           </button>
+                          <button
+                            onClick={() => rejectRequest(r)}
+                            className="rounded-lg border border-gray-200 px-3 py-1.5 text-xs font-medium text-gray-700 hover:bg-gray-50"
+                          >
+                            Rechazar
+                          </button>
                         </div>
                       </div>
                     ))}
                   </div>
-                )}
-              </div>
-            )}
+                </div>
+              )}
+            </NotificationBell>
           </div>
         </div>
       </header>
 
       {/* Content */}
       <main className="mx-auto max-w-7xl px-6 py-8">
+        {transfers.length > 0 && (
+          <section className="mb-6 space-y-2">
+            {transfers.map((t) => (
+              <div
+                key={t.id}
+                className="flex flex-col gap-2 rounded-2xl border border-amber-200 bg-amber-50 p-4 text-sm text-amber-900 md:flex-row md:items-center md:justify-between"
+              >
+                <div>
+                  <span className="font-medium">{t.fromUserName}</span> te
+                  ofrece la propiedad de{" "}
+                  <span className="font-medium">“{t.projectName}”</span>.
+                </div>
+                <div className="flex shrink-0 gap-2">
+                  <button
+                    onClick={() => resolveTransfer(t, "accept")}
+                    className="rounded-lg bg-amber-600 px-3 py-1.5 font-medium text-white hover:bg-amber-700"
+                  >
+                    Aceptar
+                  </button>
+                  <button
+                    onClick={() => resolveTransfer(t, "decline")}
+                    className="rounded-lg px-3 py-1.5 text-amber-800 hover:bg-amber-100"
+                  >
+                    Rechazar
+                  </button>
+                </div>
+              </div>
+            ))}
+          </section>
+        )}
+
         {/* Quick actions & Search */}
         <section className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
           <div className="flex flex-wrap items-center gap-2">
@@ -632,9 +1449,36 @@ export default function Dashboard() {
             >
               <IconPlus className="h-4 w-4" /> Iniciar proyecto
             </button>
-            <button className="rounded-xl border border-gray-200 bg-white px-3 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50">
-              Importar modelo
+            <button
+              onClick={() => setWorkspacesOpen(true)}
+              className="rounded-xl border border-gray-200 bg-white px-3 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50"
+            >
+              Espacios de trabajo
+              {workspaces.length > 0 && (
+                <span className="ml-1.5 rounded-full bg-gray-100 px-2 py-0.5 text-xs text-gray-600">
+                  {workspaces.length}
+                </span>
+              )}
+            </button>
+            <button
+              onClick={() => xmiInputRef.current?.click()}
+              disabled={importing}
+              title="Crear un proyecto desde un archivo XMI"
+              className="rounded-xl border border-gray-200 bg-white px-3 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-60"
+            >
+              {importing ? "Importando…" : "Importar modelo"}
             </button>
+            <input
+              ref={xmiInputRef}
+              type="file"
+              accept=".xmi,.uml,.xml"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                e.target.value = "";
+                if (file) importXmiProject(file);
+              }}
+            />
           </div>
 
           <div className="relative w-full md:w-80">
@@ -655,13 +1499,75 @@ export default function Dashboard() {
               Tus proyectos
             </h2>
             <button
-              onClick={loadProjects}
+              onClick={() => loadProjects()}
               className="text-sm text-indigo-600 hover:underline"
             >
               Actualizar
             </button>
           </div>
 
+          {/* Filtros (sincronizados con la URL) */}
+          <div className="mb-4 flex flex-wrap items-center gap-2 text-sm">
+            <div className="inline-flex rounded-xl border border-gray-200 bg-white p-0.5">
+              {(Object.keys(SCOPE_LABEL) as ProjectScope[]).map((sc) => (
+                <button
+                  key={sc}
+                  onClick={() => updateFilters({ scope: sc })}
+                  className={`rounded-lg px-3 py-1 ${
+                    filters.scope === sc
+                      ? "bg-indigo-50 font-medium text-indigo-700"
+                      : "text-gray-600 hover:bg-gray-50"
+                  }`}
+                >
+                  {SCOPE_LABEL[sc]}
+                </button>
+              ))}
+            </div>
+            <button
+              onClick={() => updateFilters({ starred: !filters.starred })}
+              className={`inline-flex items-center gap-1.5 rounded-xl border px-3 py-1.5 ${
+                filters.starred
+                  ? "border-amber-200 bg-amber-50 text-amber-700"
+                  : "border-gray-200 bg-white text-gray-600 hover:bg-gray-50"
+              }`}
+            >
+              <IconStar filled={filters.starred} className="h-4 w-4" />
+              Favoritos
+            </button>
+            {(tags.length > 0 || filters.tag) && (
+              <select
+                value={filters.tag}
+                onChange={(e) => updateFilters({ tag: e.target.value })}
+                className="rounded-xl border border-gray-200 bg-white px-2 py-1.5 text-gray-700 outline-none focus:ring-2 focus:ring-indigo-500"
+              >
+                <option value="">Todas las etiquetas</option>
+                {[...new Set([...tags, filters.tag])]
+                  .filter(Boolean)
+                  .map((t) => (
+                    <option key={t} value={t}>
+                      {t}
+                    </option>
+                  ))}
+              </select>
+            )}
+            <label className="ml-auto flex items-center gap-2 text-gray-500">
+              Ordenar por
+              <select
+                value={filters.sort}
+                onChange={(e) =>
+                  updateFilters({ sort: e.target.value as ProjectSort })
+                }
+                className="rounded-xl border border-gray-200 bg-white px-2 py-1.5 text-gray-700 outline-none focus:ring-2 focus:ring-indigo-500"
+              >
+                {(Object.keys(SORT_LABEL) as ProjectSort[]).map((so) => (
+                  <option key={so} value={so}>
+                    {SORT_LABEL[so]}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+
           {error && (
             <div className="mb-4 rounded-2xl bg-amber-50 p-3 text-sm text-amber-800">
               {error}
@@ -679,25 +1585,126 @@ export default function Dashboard() {
                 </div>
               ))}
             </div>
-          ) : filtered.length === 0 ? (
+          ) : projects.length === 0 && hasFilters ? (
+            <div className="rounded-2xl bg-white p-6 text-center text-sm text-gray-500 shadow-sm">
+              Ningún proyecto coincide con los filtros.{" "}
+              <button
+                onClick={() => {
+                  setQuery("");
+                  updateFilters({
+                    q: "",
+                    scope: "all",
+                    starred: false,
+                    tag: "",
+                  });
+                }}
+                className="text-indigo-600 hover:underline"
+              >
+                Limpiar filtros
+              </button>
+            </div>
+          ) : projects.length === 0 ? (
             <EmptyProjects onCreate={() => setCreating(true)} />
           ) : (
-            <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-3">
-              {filtered.map((p) => (
-                <ProjectCard
-                  key={p.id}
-                  p={p}
-                  onOpen={openProject}
-                  onDelete={handleDeleteProject}
-                />
+            <div className="space-y-6">
+              {groups.map((g) => (
+                <div key={g.id}>
+                  {(groups.length > 1 || g.id !== "personal") && (
+                    <h3 className="mb-2 text-sm font-medium text-gray-700">
+                      {g.title}
+                      <span className="ml-1.5 text-xs text-gray-400">
+                        {g.items.length}
+                      </span>
+                    </h3>
+                  )}
+                  <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-3">
+                    {g.items.map((p) => (
+                      <ProjectCard
+                        key={p.id}
+                        p={p}
+                        workspaces={workspaces}
+                        onOpen={openProject}
+                        onDelete={handleDeleteProject}
+                        onMove={handleMoveProject}
+                        onToggleStar={toggleStar}
+                        onEditTags={editTags}
+                        onTagClick={(tag) => updateFilters({ tag })}
+                      />
+                    ))}
+                  </div>
+                </div>
               ))}
+              {nextCursor && (
+                <div className="flex justify-center">
+                  <button
+                    onClick={loadMoreProjects}
+                    disabled={loadingMore}
+                    className="rounded-xl border border-gray-200 bg-white px-4 py-2 text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-60"
+                  >
+                    {loadingMore ? "Cargando…" : "Cargar más"}
+                  </button>
+                </div>
+              )}
             </div>
           )}
         </section>
+
+        {/* Mis solicitudes de edición */}
+        <section className="mt-10">
+          <button
+            onClick={toggleMyRequests}
+            className="mb-3 inline-flex items-center gap-2 text-sm font-semibold uppercase tracking-wide text-gray-500 hover:text-gray-700"
+          >
+            <IconBell className="h-4 w-4" />
+            Mis solicitudes
+            <span className="text-xs normal-case">
+              {myRequestsOpen ? "ocultar" : "mostrar"}
+            </span>
+          </button>
+          {myRequestsOpen && (
+            <MyRequestsSection items={myRequests} onOpen={openProject} />
+          )}
+        </section>
+
+        {/* Trash */}
+        <section className="mt-10">
+          <button
+            onClick={toggleTrash}
+            className="mb-3 inline-flex items-center gap-2 text-sm font-semibold uppercase tracking-wide text-gray-500 hover:text-gray-700"
+          >
+            <IconTrash className="h-4 w-4" />
+            Papelera
+            {trash && trash.length > 0 && (
+              <span className="rounded-full bg-gray-100 px-2 py-0.5 text-xs normal-case text-gray-600">
+                {trash.length}
+              </span>
+            )}
+            <span className="text-xs normal-case">
+              {trashOpen ? "ocultar" : "mostrar"}
+            </span>
+          </button>
+          {trashOpen && (
+            <TrashSection items={trash} onRestore={handleRestoreProject} />
+          )}
+        </section>
       </main>
 
+      <Toaster position="bottom-right" />
+
+      <WorkspacesDialog
+        open={workspacesOpen}
+        currentUserId={user?.id}
+        workspaces={workspaces}
+        onClose={() => setWorkspacesOpen(false)}
+        onChanged={() => {
+          loadWorkspaces();
+          loadProjects();
+        }}
+      />
+
       <CreateProjectModal
         open={creating}
+        workspaces={workspaces}
         onClose={() => setCreating(false)}
         onCreated={(p) => {
           setProjects((prev) => (prev ? [p, ...prev] : [p]));
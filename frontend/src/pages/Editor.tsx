@@ -5,7 +5,13 @@ import { Graph } from "@antv/x6";
 import { Selection } from "@antv/x6-plugin-selection";
 import { Toaster, toast } from "react-hot-toast";
 
-import { api } from "../lib/api";
+import {
+  api,
+  getAccessToken,
+  getErrorMessage,
+  getFreshAccessToken,
+  onAccessTokenChange,
+} from "../lib/api";
 import { useAuth } from "../state/AuthContext";
 
 import { registerShapesOnce } from "../uml/shapes";
@@ -13,12 +19,24 @@ import Sidebar from "../uml/ui/Sidebar";
 import type { Tool } from "../uml/ui/Sidebar";
 import AIAssistant from "../uml/ui/AIAssistant";
 
-import { toSnapshot, fromSnapshot } from "../uml/snapshot";
+import { toSnapshot, fromSnapshot, sameDiagramContent } from "../uml/snapshot";
+import { readClassText } from "../uml/model";
 
 import type { NodeKind } from "../uml/actions/nodes";
 import { CLASS_SIZES } from "../uml/tokens";
 import ClassEditorModal from "../uml/ui/ClassEditorModal";
 import DiagramControls from "../uml/ui/DiagramControls";
+import VersionHistoryPanel from "../uml/ui/VersionHistoryPanel";
+import DiffOverlay, { type DiagramDiff } from "../uml/ui/DiffOverlay";
+import MergeForkDialog from "../uml/ui/MergeForkDialog";
+import MembersPanel from "../uml/ui/MembersPanel";
+import ActivityPanel from "../uml/ui/ActivityPanel";
+import ProjectSettingsDialog, {
+  type ProjectMeta,
+} from "../uml/ui/ProjectSettingsDialog";
+import NotificationBell from "../uml/ui/NotificationBell";
+import ShareLinksDialog from "../uml/ui/ShareLinksDialog";
+import SaveConflictDialog from "../uml/ui/SaveConflictDialog";
 
 import { io, Socket } from "socket.io-client";
 
@@ -123,6 +141,9 @@ const EDGE_STYLE: Record<EdgeKind, any> = {
 
 type Side = "top" | "right" | "bottom" | "left";
 
+/** Cuerpo del 409 del PUT: lo que hay en el servidor y su revisión */
+type SaveConflict = { snapshot: any; revision: number };
+
 /* ===================== Formularios ===================== */
 export type ClassFormValues = {
   name: string;
@@ -483,6 +504,10 @@ export default function Editor() {
   const navigate = useNavigate();
   const location = useLocation();
   const shareToken = new URLSearchParams(location.search).get("share");
+  // Contraseña de links protegidos (se pide una vez por pestaña)
+  const sharePasswordKey = `share-pw:${shareToken ?? ""}`;
+  const readSharePassword = () =>
+    (shareToken && sessionStorage.getItem(sharePasswordKey)) || undefined;
 
   const { user, token } = useAuth();
   const effectiveToken = useMemo(() => getAuthToken(token), [token]);
@@ -528,6 +553,18 @@ export default function Editor() {
   const lastAppliedVersionRef = useRef<number>(0);
   const lastEmittedVersionRef = useRef<number>(0);
 
+  // Concurrencia optimista del PUT: ETag de la última carga o guardado REST
+  const revisionRef = useRef<string | null>(null);
+  // Con la sala unida el servidor ya persiste lo que llega por Y.js
+  const joinedRef = useRef(false);
+  // Comandos de modelo enviados al servidor, de a uno y en orden
+  const commandQueueRef = useRef<Promise<void>>(Promise.resolve());
+  const commandSeqRef = useRef(0);
+  // 409 pendiente de resolver (el autosave REST espera mientras tanto)
+  const saveConflictRef = useRef<SaveConflict | null>(null);
+  const [saveConflict, setSaveConflict] = useState<SaveConflict | null>(null);
+  const [resolvingConflict, setResolvingConflict] = useState(false);
+
   // Awareness / cursors
   const [awarenessStates, setAwarenessStates] = useState<Record<string, any>>(
     {}
@@ -693,6 +730,22 @@ export default function Editor() {
     id: string | null;
   }>({ visible: false, x: 0, y: 0, kind: null, id: null });
   const [editorOpen, setEditorOpen] = useState(false);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [membersOpen, setMembersOpen] = useState(false);
+  const [activityOpen, setActivityOpen] = useState(false);
+  const [settingsOpen, setSettingsOpen] = useState(false);
+  const [projectMeta, setProjectMeta] = useState<ProjectMeta | null>(null);
+  const [shareOpen, setShareOpen] = useState(false);
+  const [membersTick, setMembersTick] = useState(0);
+  const [forkedFrom, setForkedFrom] = useState<{
+    id: string;
+    name: string;
+  } | null>(null);
+  const [mergeOpen, setMergeOpen] = useState(false);
+  const [diffView, setDiffView] = useState<{
+    diff: DiagramDiff;
+    title: string;
+  } | null>(null);
   const [editingNodeId, setEditingNodeId] = useState<string | null>(null);
   const [editingEdgeId, setEditingEdgeId] = useState<string | null>(null);
   const [initialClassForm, setInitialClassForm] =
@@ -701,46 +754,91 @@ export default function Editor() {
     useState<RelationFormValues | null>(null);
 
   function readNodeToForm(node: any): ClassFormValues {
-    const data = node.getData?.() ?? {};
-    const name =
-      data?.name ??
-      node.getAttrByPath?.("name/text") ??
-      node.attr?.("name/text") ??
-      "Class";
-    const attrsText =
-      data?.attributes ??
-      node.getAttrByPath?.("attrs/text") ??
-      node.attr?.("attrs/text") ??
-      "";
-    const methodsText =
-      data?.methods ??
-      node.getAttrByPath?.("methods/text") ??
-      node.attr?.("methods/text") ??
-      "";
-    const toLines = (v: any) =>
-      Array.isArray(v)
-        ? (v as string[])
-        : String(v || "")
-            .split("\n")
-            .map((s) => s.trim())
-            .filter(Boolean);
-    return {
-      name: String(name || "Class"),
-      attributes: toLines(attrsText),
-      methods: toLines(methodsText),
-    };
+    // Misma lectura que el modelo UML (data primero, attrs de texto si falta)
+    const { name, attributes, methods } = readClassText({
+      data: node.getData?.(),
+      attrs: node.getAttrs?.(),
+    });
+    return { name: name || "Class", attributes, methods };
   }
 
+  const openSaveConflict = (c: SaveConflict | null) => {
+    saveConflictRef.current = c;
+    setSaveConflict(c);
+  };
+
+  /**
+   * Guardado REST con If-Match. Es el respaldo cuando no hay sala en vivo:
+   * unido a la sala, el server persiste lo que llega por Y.js y un PUT en
+   * paralelo competiría con ese guardado. Un 409 con el mismo contenido solo
+   * actualiza la revisión; si difiere, decide el usuario (SaveConflictDialog).
+   * Devuelve true si el servidor quedó con lo del lienzo.
+   */
+  const persistDiagram = async ({ force = false } = {}) => {
+    // Por link de compartir no hay REST: el server persiste lo que llega por Y.js
+    if (!graphRef.current || shareToken) return false;
+    if (!force && (joinedRef.current || saveConflictRef.current)) return false;
+
+    const snap = toSnapshot(graphRef.current);
+    try {
+      const res = await api.put(
+        `/projects/${pid}/diagram`,
+        {
+          nodes: snap.nodes,
+          edges: snap.edges,
+          updatedAt: new Date().toISOString(),
+        },
+        {
+          headers: revisionRef.current
+            ? { "If-Match": revisionRef.current }
+            : undefined,
+        }
+      );
+      revisionRef.current = res.headers?.etag ?? revisionRef.current;
+      return true;
+    } catch (e: any) {
+      if (e?.response?.status !== 409) throw e;
+      const { snapshot, revision } = e.response.data ?? {};
+      if (sameDiagramContent(snapshot, snap)) {
+        revisionRef.current = `"${revision}"`;
+        return true;
+      }
+      openSaveConflict({ snapshot, revision });
+      return false;
+    }
+  };
+
   const save = async () => {
     if (!graphRef.current) return;
-    const snap = toSnapshot(graphRef.current);
     // Empujar al Y.Doc para RT (manual save)
     pushSnapshotToYDoc();
-    await api.put(`/projects/${pid}/diagram`, {
-      nodes: snap.nodes,
-      edges: snap.edges,
-      updatedAt: new Date().toISOString(),
-    });
+    await persistDiagram();
+  };
+
+  /** 409: descarta lo local y sigue desde lo que hay en el servidor */
+  const useServerVersion = () => {
+    const c = saveConflictRef.current;
+    if (!c) return;
+    revisionRef.current = `"${c.revision}"`;
+    openSaveConflict(null);
+    renderSnapshot(c.snapshot);
+  };
+
+  /** 409: reescribe con lo local tomando como base la revisión del servidor */
+  const keepMyVersion = async () => {
+    const c = saveConflictRef.current;
+    if (!c) return;
+    setResolvingConflict(true);
+    revisionRef.current = `"${c.revision}"`;
+    openSaveConflict(null);
+    try {
+      if (await persistDiagram({ force: true }))
+        toast.success("Diagrama guardado");
+    } catch (e) {
+      toast.error(getErrorMessage(e));
+    } finally {
+      setResolvingConflict(false);
+    }
   };
 
   function writeFormToNode(node: any, form: ClassFormValues) {
@@ -795,7 +893,6 @@ export default function Editor() {
   }
 
   // Permisos UI
-  const isOwner = myRole === "OWNER";
   const canEdit =
     myRole === "OWNER" || myRole === "ADMIN" || myRole === "EDITOR";
   const isReadonly = !canEdit;
@@ -869,9 +966,22 @@ export default function Editor() {
   const handleMemberUpdated = (payload: any, source: string) => {
     if (!payload) return;
     if (payload.projectId !== pid) return;
+    setMembersTick((t) => t + 1);
     const targetId = payload.userId ?? payload.requesterId;
     if (!user?.id || targetId !== user.id) return;
 
+    // Cambios desde el panel de miembros: el rol del servidor manda (puede degradar)
+    if (payload.removed) {
+      toast.error("Ya no sos miembro de este proyecto.");
+      navigate("/app");
+      return;
+    }
+    if (payload.role && !payload.requestIds) {
+      setMyRole(payload.role as UiRole);
+      toast(`Tu rol en el proyecto ahora es ${payload.role}`);
+      return;
+    }
+
     if (payload.role && payload.role !== "VIEWER") {
       onApprovedForMe(payload, source);
     } else if (payload.approved || payload.granted) {
@@ -918,6 +1028,18 @@ export default function Editor() {
       if (version === lastEmittedVersionRef.current) return;
     }
 
+    renderSnapshot(payload);
+
+    if (typeof version === "number") {
+      lastAppliedVersionRef.current = version;
+    }
+  }
+
+  /** Pinta un snapshot completo en el grafo (Y.Doc remoto o restauración) */
+  function renderSnapshot(payload: any) {
+    const graph = graphRef.current;
+    if (!graph) return;
+
     graph.batchUpdate(() => {
       fromSnapshot(graph, payload);
 
@@ -933,10 +1055,6 @@ export default function Editor() {
         reassignEdgePorts(e);
       });
     });
-
-    if (typeof version === "number") {
-      lastAppliedVersionRef.current = version;
-    }
   }
 
   function pushSnapshotToYDoc() {
@@ -978,7 +1096,11 @@ export default function Editor() {
       path: socketPath,
       transports: ["polling", "websocket"],
       withCredentials: true,
-      auth: effectiveToken ? { token: effectiveToken } : {},
+      // Cada (re)conexión usa el token vigente, renovado si está por vencer
+      auth: (cb) => {
+        if (!effectiveToken) return cb({});
+        getFreshAccessToken().then((t) => cb(t ? { token: t } : {}));
+      },
       reconnection: true,
       reconnectionAttempts: 10,
       reconnectionDelay: 700,
@@ -986,23 +1108,35 @@ export default function Editor() {
     });
     socketRef.current = s;
 
-    s.on("connect", () => {
+    s.on("connect", async () => {
       console.log("[Editor] socket connected", s.id);
+      const authToken = effectiveToken ? await getFreshAccessToken() : null;
       s.emit("join", {
         projectId: pid,
-        authToken: effectiveToken,
+        authToken,
         share: shareToken,
         shareToken,
+        sharePassword: readSharePassword(),
       });
     });
 
+    s.on("disconnect", () => {
+      joinedRef.current = false;
+    });
+
     s.on("connect_error", (err) => {
       console.warn("socket connect_error (Editor):", err?.message || err);
     });
 
+    // Token renovado: el socket se vuelve a identificar con el nuevo
+    const offTokenChange = onAccessTokenChange((t) => {
+      if (t && s.connected) s.emit("joinOwner", { authToken: t });
+    });
+
     // join ack
     s.on("joined", (payload: any) => {
       console.log("[Editor] joined", payload);
+      joinedRef.current = true;
       if (payload?.role)
         setMyRole((prev) => promoteRole(prev, payload.role as UiRole));
       if (!shareToken) refreshRole();
@@ -1034,6 +1168,58 @@ export default function Editor() {
       setRequestSent(true);
     });
 
+    // El owner rechazó la solicitud (llega por la sala user:<id>)
+    s.on("editRequestRejected", (p: any) => {
+      if (p?.projectId !== pid) return;
+      toast.error(
+        p?.reason
+          ? `El anfitrión rechazó tu solicitud: ${p.reason}`
+          : "El anfitrión rechazó tu solicitud de edición."
+      );
+      setRequestSent(false);
+    });
+
+    // Proyecto en la papelera (al entrar o mientras está abierto)
+    s.on("joinDenied", (p: any) => {
+      if (p?.reason === "project_deleted")
+        setError("Este proyecto está en la papelera.");
+      else if (p?.reason === "not_found") setError("Proyecto no encontrado.");
+      else if (p?.reason === "no_access")
+        setError("No tenés acceso a este proyecto.");
+      else if (p?.reason === "invalid_share_link")
+        setError("El link de compartir no es válido o venció.");
+      else if (p?.reason === "share_link_exhausted")
+        setError("Este link alcanzó su límite de accesos.");
+      else if (p?.reason === "share_password_locked")
+        setError(
+          `Demasiadas contraseñas incorrectas. Probá de nuevo en ${p.retryAfter} s.`
+        );
+      // share_password_required: la carga REST pide la contraseña y re-hace el join
+    });
+    // Transferencia de propiedad: el rol nuevo llega por memberUpdated
+    s.on("ownershipTransferRequested", (t: any) => {
+      if (t?.projectId !== pid) return;
+      setMembersTick((n) => n + 1);
+      if (t.toUserId === user?.id)
+        toast(`${t.fromUserName} te ofrece la propiedad del proyecto`);
+    });
+    s.on("ownershipTransferUpdated", (t: any) => {
+      if (t?.projectId === pid) setMembersTick((n) => n + 1);
+    });
+    s.on("ownershipTransferred", (t: any) => {
+      if (t?.projectId !== pid) return;
+      setMembersTick((n) => n + 1);
+      toast(`${t.toUserName} es el nuevo owner del proyecto`);
+    });
+    s.on("projectDeleted", () => {
+      toast.error("El proyecto fue movido a la papelera.");
+      navigate("/app");
+    });
+    // El link con el que entramos fue revocado: la sala ya nos sacó
+    s.on("shareLinkRevoked", () => {
+      setError("El link de compartir fue revocado.");
+    });
+
     // ===================== Y.js + Awareness wiring =====================
     const ydoc = new Y.Doc();
     ydocRef.current = ydoc;
@@ -1057,6 +1243,12 @@ export default function Editor() {
       }
     };
 
+    // El servidor no aceptó el cambio (contenido inválido): ya difundió la
+    // reversión por y:update, acá solo se avisa
+    const onYRejected = (p: { message?: string }) => {
+      toast.error(p?.message || "El servidor rechazó el cambio del diagrama.");
+    };
+
     // YDoc local -> socket
     const onLocalYUpdate = (update: Uint8Array) => {
       socketRef.current?.emit("y:sync:push", {
@@ -1109,6 +1301,7 @@ export default function Editor() {
 
     s.on("y:sync", onYSync);
     s.on("y:update", onYUpdate);
+    s.on("y:rejected", onYRejected);
     s.on("awareness:remote", onAwarenessRemote);
 
     const el = containerRef.current;
@@ -1116,10 +1309,12 @@ export default function Editor() {
 
     // Cleanup
     return () => {
+      offTokenChange();
       try {
         el?.removeEventListener("mousemove", handleMouseMove as any);
         s.off("y:sync", onYSync);
         s.off("y:update", onYUpdate);
+        s.off("y:rejected", onYRejected);
         s.off("awareness:remote", onAwarenessRemote);
       } catch {}
       try {
@@ -1459,16 +1654,9 @@ export default function Editor() {
       if (timer) clearTimeout(timer);
       timer = setTimeout(async () => {
         try {
-          const snap = toSnapshot(graphRef.current!);
-
           // Publicar al Y.Doc para RT colaborativo
           pushSnapshotToYDoc();
-
-          await api.put(`/projects/${pid}/diagram`, {
-            nodes: snap.nodes,
-            edges: snap.edges,
-            updatedAt: new Date().toISOString(),
-          });
+          await persistDiagram();
         } catch (e) {
           console.error("Autosave falló", e);
         }
@@ -1495,6 +1683,52 @@ export default function Editor() {
     };
   }, [pid, graphReady, canEdit]);
 
+  /** GET público por link; si está protegido pide la contraseña (null = canceló) */
+  const loadSharedDiagram = async (): Promise<any | null> => {
+    let password = readSharePassword();
+    for (;;) {
+      try {
+        const { data } = await api.get(`/public/projects/${pid}/diagram`, {
+          params: { share: shareToken },
+          headers: password ? { "x-share-password": password } : undefined,
+        });
+        if (password && password !== readSharePassword()) {
+          sessionStorage.setItem(sharePasswordKey, password);
+          socketRef.current?.emit("join", {
+            projectId: pid,
+            authToken: effectiveToken ? getAccessToken() : undefined,
+            shareToken,
+            sharePassword: password,
+          });
+        }
+        return data;
+      } catch (e: any) {
+        const code = e?.response?.data?.code;
+        if (code === "share_password_locked") {
+          sessionStorage.removeItem(sharePasswordKey);
+          setError(e.response.data.message);
+          return null;
+        }
+        if (
+          code !== "share_password_required" &&
+          code !== "share_password_invalid"
+        )
+          throw e;
+        sessionStorage.removeItem(sharePasswordKey);
+        const input = window.prompt(
+          code === "share_password_invalid"
+            ? "Contraseña incorrecta. Probá de nuevo:"
+            : "Este link está protegido. Ingresá la contraseña:"
+        );
+        if (!input) {
+          setError("Se necesita la contraseña para ver este diagrama.");
+          return null;
+        }
+        password = input;
+      }
+    }
+  };
+
   // Cargar snapshot + rol inicial (evitando /projects cuando hay shareToken)
   useEffect(() => {
     (async () => {
@@ -1507,6 +1741,12 @@ export default function Editor() {
             const meta = await api.get(`/projects/${pid}`);
             const fetched: UiRole = (meta?.data?.role as UiRole) || "VIEWER";
             setMyRole((prev) => promoteRole(prev, fetched));
+            setForkedFrom(meta?.data?.forkedFrom ?? null);
+            setProjectMeta({
+              name: meta.data.name,
+              description: meta.data.description ?? null,
+              settings: meta.data.settings,
+            });
           } catch {
             setMyRole((prev) => promoteRole(prev, "VIEWER"));
           }
@@ -1516,12 +1756,13 @@ export default function Editor() {
 
         let snapshotPayload: any = null;
         if (shareToken) {
-          const { data } = await api.get(`/public/projects/${pid}/diagram`, {
-            params: { share: shareToken },
-          });
+          const data = await loadSharedDiagram();
+          if (!data) return;
           snapshotPayload = data?.snapshot ?? { nodes: [], edges: [] };
         } else {
-          const { data } = await api.get(`/projects/${pid}/diagram`);
+          const res = await api.get(`/projects/${pid}/diagram`);
+          revisionRef.current = res.headers?.etag ?? null;
+          const data = res.data;
           snapshotPayload = data?.snapshot ?? data ?? { nodes: [], edges: [] };
         }
 
@@ -1708,7 +1949,8 @@ export default function Editor() {
   };
 
   const toolbarDisabled = !graphReady || loading;
-  const canShare = isOwner;
+  const canShare = myRole === "OWNER" || myRole === "ADMIN";
+  const canEditProject = canShare; // project:edit (mismos roles)
 
   const handleSendEditRequest = async () => {
     try {
@@ -1738,6 +1980,43 @@ export default function Editor() {
     }
   };
 
+  /**
+   * Comandos de modelo por el socket (diagram:command). El servidor los aplica
+   * al Y.Doc, todos los ven por y:update y la edición queda a nombre del
+   * usuario. Van en cola: uno puede depender del anterior (clase → relación).
+   * Devuelve false sin sala en vivo (el llamador aplica el cambio local).
+   */
+  const sendDiagramCommands = (commands: Record<string, unknown>[]) => {
+    const s = socketRef.current;
+    if (!pid || !s?.connected || !joinedRef.current) return false;
+
+    commandQueueRef.current = commandQueueRef.current.then(
+      () =>
+        new Promise<void>((resolve) => {
+          const requestId = String(++commandSeqRef.current);
+          type Reply = { requestId?: string; message?: string } | null;
+          const done = (p: Reply) => {
+            if (p && p.requestId !== requestId) return;
+            s.off("diagram:command:applied", done);
+            s.off("diagram:command:rejected", onRejected);
+            clearTimeout(timer);
+            resolve();
+          };
+          const onRejected = (p: Reply) => {
+            if (p?.requestId !== requestId) return;
+            toast.error(p?.message || "No se pudo aplicar el cambio.");
+            done(p);
+          };
+          // Sin respuesta (desconexión): no trabar la cola
+          const timer = setTimeout(() => done(null), 10_000);
+          s.on("diagram:command:applied", done);
+          s.on("diagram:command:rejected", onRejected);
+          s.emit("diagram:command", { projectId: pid, commands, requestId });
+        })
+    );
+    return true;
+  };
+
   // Handlers básicos para el AIAssistant
   const handleAddClassFromAI = (
     className: string,
@@ -1745,6 +2024,12 @@ export default function Editor() {
     methods: string[]
   ) => {
     if (!graphRef.current) return;
+    if (
+      sendDiagramCommands([
+        { op: "addClass", name: className, attributes, methods },
+      ])
+    )
+      return;
 
     const existing = graphRef.current.getNodes();
     const count = existing.length;
@@ -1784,12 +2069,6 @@ export default function Editor() {
   ) => {
     if (!graphRef.current) return;
 
-    const nodes = graphRef.current.getNodes();
-    const sourceNode = nodes.find((n: any) => n.getData()?.name === from);
-    const targetNode = nodes.find((n: any) => n.getData()?.name === to);
-
-    if (!(sourceNode && targetNode)) return;
-
     const normalizedType = type.toLowerCase();
     const typeMapping: Record<string, EdgeKind> = {
       assoc: "assoc",
@@ -1799,9 +2078,33 @@ export default function Editor() {
       dep: "dep",
       "many-to-many": "many-to-many",
       nav: "nav",
+      assoc_direct: "nav",
     };
 
     const edgeKind: EdgeKind = typeMapping[normalizedType] || "assoc";
+    // El muchos a muchos no es un comando del servidor: se dibuja acá.
+    // Va antes de buscar los nodos: la clase puede estar todavía en la cola.
+    if (
+      edgeKind !== "many-to-many" &&
+      sendDiagramCommands([
+        {
+          op: "addRelation",
+          source: from,
+          target: to,
+          kind: edgeKind === "nav" ? "assoc_direct" : edgeKind,
+          multSource: multiplicity?.source,
+          multTarget: multiplicity?.target,
+        },
+      ])
+    )
+      return;
+
+    const nodes = graphRef.current.getNodes();
+    const sourceNode = nodes.find((n: any) => n.getData()?.name === from);
+    const targetNode = nodes.find((n: any) => n.getData()?.name === to);
+
+    if (!(sourceNode && targetNode)) return;
+
     const edgeStyle = EDGE_STYLE[edgeKind] || EDGE_STYLE.assoc;
 
     const sc = sourceNode.getBBox().center;
@@ -1830,7 +2133,8 @@ export default function Editor() {
         name: "",
         multSource: multiplicity?.source || "",
         multTarget: multiplicity?.target || "",
-        type: edgeKind,
+        // 'nav' es solo la herramienta; el esquema guarda 'assoc_direct'
+        type: edgeKind === "nav" ? "assoc_direct" : edgeKind,
         routerType: "orth",
         connectorType: "rounded",
       },
@@ -1860,10 +2164,23 @@ export default function Editor() {
         onBack={() => navigate("/app")}
         graph={graphRef.current}
         onClassDragStart={handleClassDragStart}
+        projectId={shareToken ? undefined : pid}
+        settings={projectMeta?.settings}
       />
       <div className="relative flex-1">
         <div ref={containerRef} className="absolute inset-0 cursor-default" />
 
+        {/* Comparación con una versión del historial */}
+        {diffView && (
+          <DiffOverlay
+            graph={graphRef.current}
+            diff={diffView.diff}
+            title={diffView.title}
+            transformTick={transformTick}
+            onClose={() => setDiffView(null)}
+          />
+        )}
+
         {/* Cursors remotos */}
         <div className="absolute inset-0 pointer-events-none z-40">
           {/* Forzar rerender con zoom/pan */}
@@ -1987,18 +2304,59 @@ export default function Editor() {
           onSave={canEdit ? save : undefined}
           disabled={toolbarDisabled}
           exportName={`diagram-${pid ?? "unsaved"}`}
+          projectId={pid && !shareToken ? pid : undefined}
+          onXmiImported={
+            canEdit && !shareToken
+              ? (snap) => {
+                  setDiffView(null);
+                  renderSnapshot(snap);
+                }
+              : undefined
+          }
           canShare={canShare}
-          onGetShareLink={
-            canShare
-              ? async () => {
-                  const { data } = await api.post(`/projects/${pid}/share`, {
-                    role: "VIEWER",
-                  });
-                  return `${window.location.origin}/project/${pid}?share=${data.token}`;
+          onOpenHistory={
+            shareToken
+              ? undefined
+              : () => {
+                  setMembersOpen(false);
+                  setActivityOpen(false);
+                  setHistoryOpen(true);
                 }
-              : async () => window.location.href
           }
-        />
+          onOpenMembers={
+            shareToken
+              ? undefined
+              : () => {
+                  setHistoryOpen(false);
+                  setActivityOpen(false);
+                  setMembersOpen(true);
+                }
+          }
+          onOpenActivity={
+            shareToken
+              ? undefined
+              : () => {
+                  setHistoryOpen(false);
+                  setMembersOpen(false);
+                  setActivityOpen(true);
+                }
+          }
+          onOpenShare={
+            canShare && !shareToken ? () => setShareOpen(true) : undefined
+          }
+          onOpenSettings={
+            canEditProject && projectMeta && !shareToken
+              ? () => setSettingsOpen(true)
+              : undefined
+          }
+        >
+          {user && !shareToken && (
+            <NotificationBell
+              socket={socketRef.current}
+              buttonClassName="rounded-xl px-2 py-2 text-gray-700 hover:bg-gray-50"
+            />
+          )}
+        </DiagramControls>
 
         {loading && (
           <div className="pointer-events-none absolute inset-0 flex items-center justify-center bg-white/40">
@@ -2013,6 +2371,21 @@ export default function Editor() {
           </div>
         )}
 
+        {/* Proyecto fork: acceso al merge con el original */}
+        {forkedFrom && !shareToken && (
+          <div className="absolute left-4 top-16 z-20 flex items-center gap-2 rounded-xl border border-amber-200 bg-amber-50 px-3 py-1.5 text-xs text-amber-800 shadow-sm">
+            <span>
+              Fork de <b>{forkedFrom.name}</b>
+            </span>
+            <button
+              onClick={() => setMergeOpen(true)}
+              className="rounded-lg bg-white px-2 py-1 font-medium text-indigo-700 ring-1 ring-indigo-200 hover:bg-indigo-50"
+            >
+              Fusionar con el original
+            </button>
+          </div>
+        )}
+
         {!isReadonly && menu.visible && menu.id && (
           <div
             className="fixed z-50 w-44 rounded-lg border border-gray-200 bg-white/95 shadow-xl backdrop-blur"
@@ -2072,6 +2445,93 @@ export default function Editor() {
           />
         )}
       </div>
+      {!shareToken && (
+        <VersionHistoryPanel
+          projectId={pid}
+          open={historyOpen}
+          canEdit={canEdit}
+          onClose={() => setHistoryOpen(false)}
+          onRestored={(snap) => {
+            setDiffView(null);
+            renderSnapshot(snap);
+          }}
+          onForked={(p) => {
+            setHistoryOpen(false);
+            navigate(`/app/projects/${p.id}?t=${Date.now()}`);
+          }}
+          onCompare={(diff, v) =>
+            setDiffView({
+              diff,
+              title: `Cambios desde ${
+                v.label || new Date(v.createdAt).toLocaleString()
+              }`,
+            })
+          }
+        />
+      )}
+      {!shareToken && (
+        <MembersPanel
+          projectId={pid}
+          open={membersOpen}
+          myUserId={user?.id ?? null}
+          myRole={myRole}
+          refreshKey={membersTick}
+          onClose={() => setMembersOpen(false)}
+          onLeft={() => navigate("/app")}
+        />
+      )}
+      {!shareToken && (
+        <ActivityPanel
+          projectId={pid}
+          open={activityOpen}
+          onClose={() => setActivityOpen(false)}
+        />
+      )}
+      {canShare && !shareToken && (
+        <ShareLinksDialog
+          projectId={pid}
+          open={shareOpen}
+          onClose={() => setShareOpen(false)}
+        />
+      )}
+      {projectMeta && canEditProject && !shareToken && (
+        <ProjectSettingsDialog
+          projectId={pid}
+          open={settingsOpen}
+          project={projectMeta}
+          onClose={() => setSettingsOpen(false)}
+          onSaved={setProjectMeta}
+        />
+      )}
+      {saveConflict && (
+        <SaveConflictDialog
+          open
+          server={{
+            nodes: saveConflict.snapshot?.nodes?.length ?? 0,
+            edges: saveConflict.snapshot?.edges?.length ?? 0,
+          }}
+          local={{
+            nodes: graphRef.current?.getNodes().length ?? 0,
+            edges: graphRef.current?.getEdges().length ?? 0,
+          }}
+          busy={resolvingConflict}
+          onUseServer={useServerVersion}
+          onKeepMine={keepMyVersion}
+        />
+      )}
+      {forkedFrom && !shareToken && (
+        <MergeForkDialog
+          forkId={pid}
+          upstreamName={forkedFrom.name}
+          open={mergeOpen}
+          onClose={() => setMergeOpen(false)}
+          onMerged={(upstreamId) => {
+            if (window.confirm("Fusión aplicada. ¿Abrir el proyecto original?")) {
+              navigate(`/app/projects/${upstreamId}?t=${Date.now()}`);
+            }
+          }}
+        />
+      )}
       {/* AIAssistant con handlers estables */}
       <AIAssistant
         graph={graphRef.current}
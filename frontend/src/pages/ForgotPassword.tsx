@@ -0,0 +1,122 @@
+// src/pages/ForgotPassword.tsx
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Link } from "react-router-dom";
+import { MailCheck } from "lucide-react";
+import {
+  ForgotPasswordSchema,
+  type ForgotPasswordInput,
+} from "../lib/zodSchemas";
+import { api, getErrorMessage } from "../lib/api";
+
+export default function ForgotPassword() {
+  const [sentTo, setSentTo] = useState<string | null>(null);
+  const [serverError, setServerError] = useState<string | null>(null);
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors, isSubmitting },
+  } = useForm<ForgotPasswordInput>({
+    resolver: zodResolver(ForgotPasswordSchema),
+  });
+
+  const onSubmit = async (values: ForgotPasswordInput) => {
+    setServerError(null);
+    try {
+      await api.post("/users/forgot-password", values);
+      setSentTo(values.email);
+    } catch (e) {
+      setServerError(getErrorMessage(e));
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 flex items-center justify-center px-4 py-10">
+      <div className="w-full max-w-md">
+        <div className="rounded-2xl border border-slate-200 bg-white/90 shadow-xl backdrop-blur p-6 md:p-8">
+          <div className="mb-6 text-center">
+            <div className="mx-auto mb-3 h-12 w-12 rounded-2xl bg-slate-900/90 text-white grid place-items-center shadow">
+              <span className="text-lg font-semibold">UML</span>
+            </div>
+            <h1 className="text-xl font-semibold text-slate-900">
+              ¿Olvidaste tu contraseña?
+            </h1>
+            <p className="mt-1 text-sm text-slate-500">
+              Te enviamos un link para elegir una nueva.
+            </p>
+          </div>
+
+          {sentTo ? (
+            <div className="space-y-4 text-sm text-slate-700">
+              <div className="flex items-start gap-3 rounded-xl bg-emerald-50 p-3 text-emerald-800">
+                <MailCheck className="mt-0.5 h-5 w-5 shrink-0" />
+                <p>
+                  Si <span className="font-medium">{sentTo}</span> tiene una
+                  cuenta, en unos minutos te llega el link. Revisa también la
+                  carpeta de spam.
+                </p>
+              </div>
+              <button
+                onClick={() => setSentTo(null)}
+                className="w-full rounded-xl border border-slate-300 px-4 py-2.5 text-sm font-medium text-slate-800 hover:bg-slate-50"
+              >
+                Usar otro email
+              </button>
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit(onSubmit)} className="grid gap-4">
+              <div>
+                <label className="mb-1 block text-sm font-medium text-slate-700">
+                  Email
+                </label>
+                <input
+                  {...register("email")}
+                  placeholder="tucorreo@ejemplo.com"
+                  className={`w-full rounded-xl border px-3 py-2.5 text-sm text-slate-900 placeholder:text-slate-400 outline-none transition
+                  ${
+                    errors.email
+                      ? "border-rose-400 focus:ring-2 focus:ring-rose-200"
+                      : "border-slate-300 focus:ring-2 focus:ring-slate-300"
+                  }`}
+                  autoComplete="email"
+                  inputMode="email"
+                  autoFocus
+                />
+                {errors.email && (
+                  <p className="mt-1 text-xs text-rose-600">
+                    {errors.email.message}
+                  </p>
+                )}
+              </div>
+
+              {serverError && (
+                <div className="rounded-lg border border-rose-200 bg-rose-50 px-3 py-2 text-sm text-rose-700">
+                  {serverError}
+                </div>
+              )}
+
+              <button
+                disabled={isSubmitting}
+                className="inline-flex w-full items-center justify-center rounded-xl bg-slate-900 px-4 py-2.5 text-sm font-semibold text-white shadow transition hover:bg-slate-800 focus:outline-none focus:ring-2 focus:ring-slate-400/50 disabled:opacity-60"
+              >
+                {isSubmitting ? "Enviando…" : "Enviar link"}
+              </button>
+            </form>
+          )}
+
+          <p className="mt-6 text-center text-sm text-slate-600">
+            ¿La recordaste?{" "}
+            <Link
+              to="/login"
+              className="font-medium text-slate-900 hover:underline"
+            >
+              Volver a iniciar sesión
+            </Link>
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -3,10 +3,24 @@ import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { LoginSchema, type LoginInput } from "../lib/zodSchemas";
 import { useAuth } from "../state/AuthContext";
-import { useState } from "react";
+import { useEffect, useState } from "react";
+import axios from "axios";
 import { getErrorMessage } from "../lib/api";
 import { Link, useNavigate, useLocation } from "react-router-dom";
 
+/** Segundos de bloqueo de un 429 del login (body `retryAfter` o header) */
+function getRetryAfter(e: unknown): number | null {
+  if (!axios.isAxiosError(e) || e.response?.status !== 429) return null;
+  const seconds = Number(
+    (e.response.data as { retryAfter?: number })?.retryAfter ??
+      e.response.headers["retry-after"]
+  );
+  return Number.isFinite(seconds) && seconds > 0 ? seconds : null;
+}
+
+const formatCountdown = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+
 function GoogleIcon(props: React.SVGProps<SVGSVGElement>) {
   return (
     <svg viewBox="0 0 24 24" aria-hidden="true" {...props}>
@@ -19,12 +33,35 @@ function GoogleIcon(props: React.SVGProps<SVGSVGElement>) {
 }
 
 export default function Login() {
-  const { login, /* opcional */ loginWithGoogle } = useAuth() as any;
+  const { login, completeTwoFactor, /* opcional */ loginWithGoogle } =
+    useAuth() as any;
   const navigate = useNavigate();
   const location = useLocation();
 
   const [serverError, setServerError] = useState<string | null>(null);
   const [showPass, setShowPass] = useState(false);
+  // Bloqueo por intentos fallidos: hasta cuándo y cuánto falta
+  const [lockedUntil, setLockedUntil] = useState<number | null>(null);
+  const [secondsLeft, setSecondsLeft] = useState(0);
+  // Segundo paso (2FA): challenge del backend y código de la app
+  const [challenge, setChallenge] = useState<string | null>(null);
+  const [code, setCode] = useState("");
+  const [verifying, setVerifying] = useState(false);
+
+  useEffect(() => {
+    if (!lockedUntil) return;
+    const tick = () => {
+      const left = Math.ceil((lockedUntil - Date.now()) / 1000);
+      if (left <= 0) {
+        setLockedUntil(null);
+        setServerError(null);
+      }
+      setSecondsLeft(Math.max(0, left));
+    };
+    tick();
+    const id = window.setInterval(tick, 1000);
+    return () => window.clearInterval(id);
+  }, [lockedUntil]);
 
   const {
     register,
@@ -68,16 +105,58 @@ export default function Login() {
     return "/app";
   }
 
+  const handleError = (e: unknown) => {
+    const retryAfter = getRetryAfter(e);
+    if (retryAfter) setLockedUntil(Date.now() + retryAfter * 1000);
+    setServerError(getErrorMessage(e));
+  };
+
   const onSubmit = async (values: LoginInput) => {
     setServerError(null);
     try {
-      await login(values.email, values.password);
+      const result = await login(values.email, values.password);
+      if (result?.twoFactorRequired) {
+        setChallenge(result.challengeToken);
+        setCode("");
+        return;
+      }
       navigate(getPostLoginRedirect(), { replace: true });
     } catch (e) {
-      setServerError(getErrorMessage(e));
+      handleError(e);
+    }
+  };
+
+  const onSubmitCode = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!challenge || !code.trim()) return;
+    setServerError(null);
+    setVerifying(true);
+    try {
+      await completeTwoFactor(challenge, code.trim());
+      navigate(getPostLoginRedirect(), { replace: true });
+    } catch (err) {
+      handleError(err);
+      setVerifying(false);
     }
   };
 
+  // Error del servidor o cuenta regresiva del bloqueo (ambos pasos)
+  const errorBox = lockedUntil ? (
+    <div className="rounded-lg border border-amber-200 bg-amber-50 px-3 py-2 text-sm text-amber-800">
+      Demasiados intentos fallidos. Podrás volver a intentar en{" "}
+      <span className="font-semibold tabular-nums">
+        {formatCountdown(secondsLeft)}
+      </span>
+      .
+    </div>
+  ) : (
+    serverError && (
+      <div className="rounded-lg border border-rose-200 bg-rose-50 px-3 py-2 text-sm text-rose-700">
+        {serverError}
+      </div>
+    )
+  );
+
   const onGoogle = async () => {
     try {
       // Si tu AuthContext lo soporta, pásale el destino
@@ -113,123 +192,173 @@ export default function Login() {
               Iniciar sesión
             </h1>
             <p className="mt-1 text-sm text-slate-500">
-              Ingresa con tu correo o usa tu cuenta de Google.
+              {challenge
+                ? "Tu cuenta tiene verificación en dos pasos."
+                : "Ingresa con tu correo o usa tu cuenta de Google."}
             </p>
           </div>
 
-          {/* Google */}
-          <button
-            type="button"
-            onClick={onGoogle}
-            className="group mb-5 inline-flex w-full items-center justify-center gap-3 rounded-xl border border-slate-300 bg-white px-4 py-2.5 text-sm font-medium text-slate-800 transition hover:bg-slate-50 focus:outline-none focus:ring-2 focus:ring-slate-400/50 disabled:opacity-60"
-            disabled={isSubmitting}
-          >
-            <GoogleIcon className="h-5 w-5 text-slate-700 group-hover:scale-105 transition" />
-            Continuar con Google
-          </button>
-
-          {/* Divider */}
-          <div className="relative mb-5">
-            <div className="absolute inset-0 flex items-center">
-              <span className="w-full border-t border-slate-200" />
-            </div>
-            <div className="relative flex justify-center">
-              <span className="bg-white px-3 text-xs text-slate-500">
-                o con email
-              </span>
-            </div>
-          </div>
+          {challenge ? (
+            <form onSubmit={onSubmitCode} className="grid gap-4">
+              <div>
+                <label className="mb-1 block text-sm font-medium text-slate-700">
+                  Código de verificación
+                </label>
+                <input
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  placeholder="123456"
+                  className="w-full rounded-xl border border-slate-300 px-3 py-2.5 text-center text-lg tracking-widest text-slate-900 placeholder:text-slate-300 outline-none focus:ring-2 focus:ring-slate-300"
+                  autoComplete="one-time-code"
+                  inputMode="numeric"
+                  autoFocus
+                />
+                <p className="mt-1 text-xs text-slate-500">
+                  Ingresa el código de tu app autenticadora o uno de tus códigos
+                  de respaldo.
+                </p>
+              </div>
+
+              {errorBox}
+
+              <button
+                disabled={verifying || !code.trim() || !!lockedUntil}
+                className="inline-flex w-full items-center justify-center rounded-xl bg-slate-900 px-4 py-2.5 text-sm font-semibold text-white shadow transition hover:bg-slate-800 focus:outline-none focus:ring-2 focus:ring-slate-400/50 disabled:opacity-60"
+              >
+                {verifying
+                  ? "Verificando…"
+                  : lockedUntil
+                    ? `Espera ${formatCountdown(secondsLeft)}`
+                    : "Verificar"}
+              </button>
+              <button
+                type="button"
+                onClick={() => {
+                  setChallenge(null);
+                  setServerError(null);
+                }}
+                className="text-xs text-slate-500 hover:text-slate-700"
+              >
+                Volver a ingresar email y contraseña
+              </button>
+            </form>
+          ) : (
+            <>
+              {/* Google */}
+              <button
+                type="button"
+                onClick={onGoogle}
+                className="group mb-5 inline-flex w-full items-center justify-center gap-3 rounded-xl border border-slate-300 bg-white px-4 py-2.5 text-sm font-medium text-slate-800 transition hover:bg-slate-50 focus:outline-none focus:ring-2 focus:ring-slate-400/50 disabled:opacity-60"
+                disabled={isSubmitting}
+              >
+                <GoogleIcon className="h-5 w-5 text-slate-700 group-hover:scale-105 transition" />
+                Continuar con Google
+              </button>
+
+              {/* Divider */}
+              <div className="relative mb-5">
+                <div className="absolute inset-0 flex items-center">
+                  <span className="w-full border-t border-slate-200" />
+                </div>
+                <div className="relative flex justify-center">
+                  <span className="bg-white px-3 text-xs text-slate-500">
+                    o con email
+                  </span>
+                </div>
+              </div>
 
-          {/* Form */}
-          <form onSubmit={handleSubmit(onSubmit)} className="grid gap-4">
-            <div>
-              <label className="mb-1 block text-sm font-medium text-slate-700">
-                Email
-              </label>
-              <input
-                {...register("email")}
-                placeholder="tucorreo@ejemplo.com"
-                className={`w-full rounded-xl border px-3 py-2.5 text-sm text-slate-900 placeholder:text-slate-400 outline-none transition
+              {/* Form */}
+              <form onSubmit={handleSubmit(onSubmit)} className="grid gap-4">
+                <div>
+                  <label className="mb-1 block text-sm font-medium text-slate-700">
+                    Email
+                  </label>
+                  <input
+                    {...register("email")}
+                    placeholder="tucorreo@ejemplo.com"
+                    className={`w-full rounded-xl border px-3 py-2.5 text-sm text-slate-900 placeholder:text-slate-400 outline-none transition
                 ${
                   errors.email
                     ? "border-rose-400 focus:ring-2 focus:ring-rose-200"
                     : "border-slate-300 focus:ring-2 focus:ring-slate-300"
                 }`}
-                autoComplete="email"
-                inputMode="email"
-              />
-              {errors.email && (
-                <p className="mt-1 text-xs text-rose-600">
-                  {errors.email.message}
-                </p>
-              )}
-            </div>
+                    autoComplete="email"
+                    inputMode="email"
+                  />
+                  {errors.email && (
+                    <p className="mt-1 text-xs text-rose-600">
+                      {errors.email.message}
+                    </p>
+                  )}
+                </div>
 
-            <div>
-              <div className="mb-1 flex items-center justify-between">
-                <label className="block text-sm font-medium text-slate-700">
-                  Contraseña
-                </label>
-                <Link
-                  to="/reset-password"
-                  className="text-xs text-slate-500 hover:text-slate-700"
-                >
-                  ¿Olvidaste tu contraseña?
-                </Link>
-              </div>
+                <div>
+                  <div className="mb-1 flex items-center justify-between">
+                    <label className="block text-sm font-medium text-slate-700">
+                      Contraseña
+                    </label>
+                    <Link
+                      to="/forgot-password"
+                      className="text-xs text-slate-500 hover:text-slate-700"
+                    >
+                      ¿Olvidaste tu contraseña?
+                    </Link>
+                  </div>
 
-              <div
-                className={`relative flex items-stretch rounded-xl border ${
-                  errors.password ? "border-rose-400" : "border-slate-300"
-                }`}
-              >
-                <input
-                  type={showPass ? "text" : "password"}
-                  {...register("password")}
-                  placeholder="••••••••"
-                  className="w-full rounded-xl px-3 py-2.5 pr-10 text-sm text-slate-900 placeholder:text-slate-400 outline-none focus:ring-2 focus:ring-slate-300"
-                  autoComplete="current-password"
-                />
-                <button
-                  type="button"
-                  onClick={() => setShowPass((s) => !s)}
-                  className="absolute right-2 top-1/2 -translate-y-1/2 rounded-lg px-2 py-1 text-xs text-slate-600 hover:bg-slate-100"
-                  aria-label={
-                    showPass ? "Ocultar contraseña" : "Mostrar contraseña"
-                  }
-                >
-                  {showPass ? "Ocultar" : "Mostrar"}
-                </button>
-              </div>
+                  <div
+                    className={`relative flex items-stretch rounded-xl border ${
+                      errors.password ? "border-rose-400" : "border-slate-300"
+                    }`}
+                  >
+                    <input
+                      type={showPass ? "text" : "password"}
+                      {...register("password")}
+                      placeholder="••••••••"
+                      className="w-full rounded-xl px-3 py-2.5 pr-10 text-sm text-slate-900 placeholder:text-slate-400 outline-none focus:ring-2 focus:ring-slate-300"
+                      autoComplete="current-password"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => setShowPass((s) => !s)}
+                      className="absolute right-2 top-1/2 -translate-y-1/2 rounded-lg px-2 py-1 text-xs text-slate-600 hover:bg-slate-100"
+                      aria-label={
+                        showPass ? "Ocultar contraseña" : "Mostrar contraseña"
+                      }
+                    >
+                      {showPass ? "Ocultar" : "Mostrar"}
+                    </button>
+                  </div>
 
-              {errors.password && (
-                <p className="mt-1 text-xs text-rose-600">
-                  {errors.password.message}
-                </p>
-              )}
-            </div>
+                  {errors.password && (
+                    <p className="mt-1 text-xs text-rose-600">
+                      {errors.password.message}
+                    </p>
+                  )}
+                </div>
 
-            {/* Server error */}
-            {serverError && (
-              <div className="rounded-lg border border-rose-200 bg-rose-50 px-3 py-2 text-sm text-rose-700">
-                {serverError}
-              </div>
-            )}
+                {/* Server error / bloqueo */}
+                {errorBox}
 
-            {/* Submit */}
-            <button
-              disabled={isSubmitting}
-              className="mt-2 inline-flex w-full items-center justify-center rounded-xl bg-slate-900 px-4 py-2.5 text-sm font-semibold text-white shadow transition hover:bg-slate-800 focus:outline-none focus:ring-2 focus:ring-slate-400/50 disabled:opacity-60"
-            >
-              {isSubmitting ? "Ingresando…" : "Entrar"}
-            </button>
-          </form>
+                {/* Submit */}
+                <button
+                  disabled={isSubmitting || !!lockedUntil}
+                  className="mt-2 inline-flex w-full items-center justify-center rounded-xl bg-slate-900 px-4 py-2.5 text-sm font-semibold text-white shadow transition hover:bg-slate-800 focus:outline-none focus:ring-2 focus:ring-slate-400/50 disabled:opacity-60"
+                >
+                  {isSubmitting
+                    ? "Ingresando…"
+                    : lockedUntil
+                      ? `Espera ${formatCountdown(secondsLeft)}`
+                      : "Entrar"}
+                </button>
+              </form>
+            </>
+          )}
 
           {/* Footer */}
           <p className="mt-6 text-center text-sm text-slate-600">
             ¿No tienes cuenta?{" "}
             <Link
-              to="/register"
+              to={`/register${location.search}`}
               className="font-medium text-slate-900 hover:underline"
             >
               Regístrate
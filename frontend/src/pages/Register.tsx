@@ -4,7 +4,8 @@ import { RegisterSchema, type RegisterInput } from "../lib/zodSchemas";
 import { api, getErrorMessage } from "../lib/api";
 import { useAuth } from "../state/AuthContext";
 import { useState } from "react";
-import { Link, useNavigate } from "react-router-dom";
+import { Link, useLocation, useNavigate } from "react-router-dom";
+import toast from "react-hot-toast";
 
 function GoogleIcon(props: React.SVGProps<SVGSVGElement>) {
   return (
@@ -20,6 +21,10 @@ function GoogleIcon(props: React.SVGProps<SVGSVGElement>) {
 export default function Register() {
   const { setAuth, /* opcional */ loginWithGoogle } = useAuth() as any;
   const navigate = useNavigate();
+  const location = useLocation();
+  // ?next=/ruta (ej: volver a aceptar una invitación)
+  const next = new URLSearchParams(location.search).get("next");
+  const afterAuth = next && next.startsWith("/") ? next : "/app";
   const [serverError, setServerError] = useState<string | null>(null);
   const [showPass, setShowPass] = useState(false);
 
@@ -39,8 +44,9 @@ export default function Register() {
         email: values.email,
         password: values.password,
       });
-      setAuth(data.access_token, data.user);
-      navigate("/app");
+      setAuth(data.access_token, data.user, data.refresh_token);
+      toast.success(`Te enviamos un mail a ${values.email} para verificarlo`);
+      navigate(afterAuth);
     } catch (e) {
       setServerError(getErrorMessage(e));
     }
@@ -53,7 +59,7 @@ export default function Register() {
         return;
       }
       const base = import.meta.env.VITE_API_URL || "";
-      const redirect = `${window.location.origin}/app`;
+      const redirect = `${window.location.origin}${afterAuth}`;
       const url = `${base.replace(
         /\/$/,
         ""
@@ -205,7 +211,7 @@ export default function Register() {
           <p className="mt-6 text-center text-sm text-slate-600">
             ¿Ya tienes cuenta?{" "}
             <Link
-              to="/login"
+              to={next ? `/login?next=${encodeURIComponent(next)}` : "/login"}
               className="font-medium text-slate-900 hover:underline"
             >
               Inicia sesión
@@ -0,0 +1,162 @@
+// src/pages/ResetPassword.tsx
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Link, useSearchParams } from "react-router-dom";
+import { CheckCircle2 } from "lucide-react";
+import {
+  ResetPasswordSchema,
+  type ResetPasswordInput,
+} from "../lib/zodSchemas";
+import { api, getErrorMessage } from "../lib/api";
+import { useAuth } from "../state/AuthContext";
+
+export default function ResetPassword() {
+  const [params] = useSearchParams();
+  const token = params.get("token");
+  const { user, logout } = useAuth();
+  const [done, setDone] = useState(false);
+  const [serverError, setServerError] = useState<string | null>(null);
+  const [showPass, setShowPass] = useState(false);
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors, isSubmitting },
+  } = useForm<ResetPasswordInput>({
+    resolver: zodResolver(ResetPasswordSchema),
+  });
+
+  const onSubmit = async (values: ResetPasswordInput) => {
+    setServerError(null);
+    try {
+      await api.post("/users/reset-password", {
+        token,
+        password: values.password,
+      });
+      // El backend cerró todas las sesiones, también la de este navegador
+      if (user) logout();
+      setDone(true);
+    } catch (e) {
+      setServerError(getErrorMessage(e));
+    }
+  };
+
+  const inputCls = (invalid: boolean) =>
+    `w-full rounded-xl border px-3 py-2.5 text-sm text-slate-900 placeholder:text-slate-400 outline-none transition ${
+      invalid
+        ? "border-rose-400 focus:ring-2 focus:ring-rose-200"
+        : "border-slate-300 focus:ring-2 focus:ring-slate-300"
+    }`;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 flex items-center justify-center px-4 py-10">
+      <div className="w-full max-w-md">
+        <div className="rounded-2xl border border-slate-200 bg-white/90 shadow-xl backdrop-blur p-6 md:p-8">
+          <div className="mb-6 text-center">
+            <div className="mx-auto mb-3 h-12 w-12 rounded-2xl bg-slate-900/90 text-white grid place-items-center shadow">
+              <span className="text-lg font-semibold">UML</span>
+            </div>
+            <h1 className="text-xl font-semibold text-slate-900">
+              Nueva contraseña
+            </h1>
+          </div>
+
+          {!token ? (
+            <div className="space-y-4 text-sm text-slate-700">
+              <div className="rounded-lg bg-amber-50 px-3 py-2 text-amber-800">
+                Falta el link del correo. Pide uno nuevo para continuar.
+              </div>
+              <Link
+                to="/forgot-password"
+                className="block w-full rounded-xl bg-slate-900 px-4 py-2.5 text-center font-semibold text-white hover:bg-slate-800"
+              >
+                Pedir link
+              </Link>
+            </div>
+          ) : done ? (
+            <div className="space-y-4 text-sm text-slate-700">
+              <div className="flex items-start gap-3 rounded-xl bg-emerald-50 p-3 text-emerald-800">
+                <CheckCircle2 className="mt-0.5 h-5 w-5 shrink-0" />
+                <p>
+                  Listo, tu contraseña cambió. Cerramos las sesiones abiertas en
+                  todos tus dispositivos.
+                </p>
+              </div>
+              <Link
+                to="/login"
+                className="block w-full rounded-xl bg-slate-900 px-4 py-2.5 text-center font-semibold text-white hover:bg-slate-800"
+              >
+                Iniciar sesión
+              </Link>
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit(onSubmit)} className="grid gap-4">
+              <div>
+                <div className="mb-1 flex items-center justify-between">
+                  <label className="block text-sm font-medium text-slate-700">
+                    Contraseña nueva
+                  </label>
+                  <button
+                    type="button"
+                    onClick={() => setShowPass((s) => !s)}
+                    className="text-xs text-slate-500 hover:text-slate-700"
+                  >
+                    {showPass ? "Ocultar" : "Mostrar"}
+                  </button>
+                </div>
+                <input
+                  type={showPass ? "text" : "password"}
+                  {...register("password")}
+                  placeholder="••••••••"
+                  className={inputCls(!!errors.password)}
+                  autoComplete="new-password"
+                  autoFocus
+                />
+                {errors.password && (
+                  <p className="mt-1 text-xs text-rose-600">
+                    {errors.password.message}
+                  </p>
+                )}
+              </div>
+
+              <div>
+                <label className="mb-1 block text-sm font-medium text-slate-700">
+                  Repetir contraseña
+                </label>
+                <input
+                  type={showPass ? "text" : "password"}
+                  {...register("confirm")}
+                  placeholder="••••••••"
+                  className={inputCls(!!errors.confirm)}
+                  autoComplete="new-password"
+                />
+                {errors.confirm && (
+                  <p className="mt-1 text-xs text-rose-600">
+                    {errors.confirm.message}
+                  </p>
+                )}
+              </div>
+
+              {serverError && (
+                <div className="rounded-lg border border-rose-200 bg-rose-50 px-3 py-2 text-sm text-rose-700">
+                  {serverError}{" "}
+                  <Link to="/forgot-password" className="font-medium underline">
+                    Pedir otro link
+                  </Link>
+                </div>
+              )}
+
+              <button
+                disabled={isSubmitting}
+                className="inline-flex w-full items-center justify-center rounded-xl bg-slate-900 px-4 py-2.5 text-sm font-semibold text-white shadow transition hover:bg-slate-800 focus:outline-none focus:ring-2 focus:ring-slate-400/50 disabled:opacity-60"
+              >
+                {isSubmitting ? "Guardando…" : "Guardar contraseña"}
+              </button>
+            </form>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
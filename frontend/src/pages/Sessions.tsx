@@ -0,0 +1,155 @@
+// src/pages/Sessions.tsx
+import { useEffect, useState } from "react";
+import { Link, Navigate } from "react-router-dom";
+import { ArrowLeft, Monitor, Smartphone } from "lucide-react";
+import { api, getErrorMessage } from "../lib/api";
+import { useAuth } from "../state/AuthContext";
+
+type AuthSession = {
+  id: string;
+  userAgent: string | null;
+  ip: string | null;
+  createdAt: string;
+  lastUsedAt: string;
+  expiresAt: string;
+  current: boolean;
+};
+
+const isMobile = (ua: string | null) => !!ua && /Mobi|Android|iPhone/i.test(ua);
+
+/** "Firefox en Windows" a partir del user-agent (lo justo para reconocerlo) */
+function describeDevice(ua: string | null) {
+  if (!ua) return "Dispositivo desconocido";
+  const browser =
+    [
+      ["Edg/", "Edge"],
+      ["OPR/", "Opera"],
+      ["Firefox/", "Firefox"],
+      ["Chrome/", "Chrome"],
+      ["Safari/", "Safari"],
+    ].find(([needle]) => ua.includes(needle))?.[1] ?? "Navegador";
+  const os =
+    [
+      ["Windows", "Windows"],
+      ["Android", "Android"],
+      ["iPhone", "iOS"],
+      ["iPad", "iOS"],
+      ["Mac OS", "macOS"],
+      ["Linux", "Linux"],
+    ].find(([needle]) => ua.includes(needle))?.[1] ?? null;
+  return os ? `${browser} en ${os}` : browser;
+}
+
+export default function Sessions() {
+  const { user, logout } = useAuth();
+  const [sessions, setSessions] = useState<AuthSession[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const load = async () => {
+    try {
+      const { data } = await api.get<AuthSession[]>("/auth/sessions");
+      setSessions(data);
+    } catch (e) {
+      setError(getErrorMessage(e));
+      setSessions([]);
+    }
+  };
+
+  useEffect(() => {
+    if (user) load();
+  }, [user]);
+
+  if (!user) return <Navigate to="/login?next=/app/sessions" replace />;
+
+  const revoke = async (s: AuthSession) => {
+    if (s.current) {
+      if (window.confirm("¿Cerrar la sesión de este dispositivo?")) logout();
+      return;
+    }
+    setBusyId(s.id);
+    setError(null);
+    try {
+      await api.delete(`/auth/sessions/${s.id}`);
+      setSessions((prev) => prev?.filter((x) => x.id !== s.id) ?? prev);
+    } catch (e) {
+      setError(getErrorMessage(e));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <main className="mx-auto max-w-2xl px-6 py-10">
+        <Link
+          to="/app"
+          className="inline-flex items-center gap-1.5 text-sm text-gray-500 hover:text-gray-700"
+        >
+          <ArrowLeft className="h-4 w-4" /> Volver a mis proyectos
+        </Link>
+        <h1 className="mt-4 text-xl font-semibold text-gray-900">
+          Sesiones abiertas
+        </h1>
+        <p className="mt-1 text-sm text-gray-500">
+          Dispositivos donde tu cuenta sigue conectada. Si no reconocés alguno,
+          cerralo.
+        </p>
+
+        {error && (
+          <div className="mt-4 rounded-2xl bg-red-50 p-3 text-sm text-red-700">
+            {error}
+          </div>
+        )}
+
+        <div className="mt-6 divide-y divide-gray-100 rounded-2xl border border-gray-100 bg-white shadow-sm">
+          {sessions === null ? (
+            <div className="p-4 text-sm text-gray-500">Cargando…</div>
+          ) : sessions.length === 0 ? (
+            <div className="p-4 text-sm text-gray-500">
+              No hay sesiones abiertas
+            </div>
+          ) : (
+            sessions.map((s) => {
+              const Icon = isMobile(s.userAgent) ? Smartphone : Monitor;
+              return (
+                <div
+                  key={s.id}
+                  className="flex items-center justify-between gap-3 p-4"
+                >
+                  <div className="flex min-w-0 items-center gap-3">
+                    <div className="rounded-xl bg-indigo-50 p-2 text-indigo-600">
+                      <Icon className="h-5 w-5" />
+                    </div>
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2 font-medium text-gray-800">
+                        {describeDevice(s.userAgent)}
+                        {s.current && (
+                          <span className="rounded-full bg-green-50 px-2 py-0.5 text-xs font-medium text-green-700">
+                            Este dispositivo
+                          </span>
+                        )}
+                      </div>
+                      <div className="mt-0.5 text-xs text-gray-500">
+                        {s.ip ? `${s.ip} · ` : ""}Último uso:{" "}
+                        {new Date(s.lastUsedAt).toLocaleString()} · Inicio:{" "}
+                        {new Date(s.createdAt).toLocaleDateString()}
+                      </div>
+                    </div>
+                  </div>
+                  <button
+                    onClick={() => revoke(s)}
+                    disabled={busyId === s.id}
+                    className="shrink-0 rounded-lg px-3 py-1.5 text-sm text-red-600 hover:bg-red-50 disabled:opacity-60"
+                  >
+                    Cerrar sesión
+                  </button>
+                </div>
+              );
+            })
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+// src/pages/VerifyEmail.tsx
+import { useEffect, useRef, useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { MailCheck } from "lucide-react";
+import { api, getErrorMessage } from "../lib/api";
+import { useAuth } from "../state/AuthContext";
+
+export default function VerifyEmail() {
+  const [params] = useSearchParams();
+  const token = params.get("token");
+  const { user } = useAuth();
+  const [email, setEmail] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(
+    token ? null : "Falta el link del correo."
+  );
+  // El token es de un solo uso: StrictMode no debe mandarlo dos veces
+  const sent = useRef(false);
+
+  useEffect(() => {
+    if (!token || sent.current) return;
+    sent.current = true;
+    api
+      .post<{ email: string }>("/users/verify-email", { token })
+      .then(({ data }) => setEmail(data.email))
+      .catch((e) => setError(getErrorMessage(e)));
+  }, [token]);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 flex items-center justify-center px-4 py-10">
+      <div className="w-full max-w-md rounded-2xl border border-slate-200 bg-white/90 p-6 shadow-xl md:p-8">
+        <div className="mb-5 flex items-center gap-2 text-lg font-semibold text-slate-800">
+          <MailCheck className="h-5 w-5 text-indigo-600" />
+          Verificación de email
+        </div>
+
+        {!email && !error && (
+          <div className="text-sm text-slate-500">Verificando…</div>
+        )}
+
+        {email && (
+          <p className="text-sm text-slate-700">
+            Listo, <span className="font-medium">{email}</span> quedó
+            verificado.
+          </p>
+        )}
+
+        {error && (
+          <div className="space-y-2 text-sm">
+            <div className="rounded-lg bg-red-50 px-3 py-2 text-red-700">
+              {error}
+            </div>
+            <p className="text-xs text-slate-500">
+              Puedes pedir un link nuevo desde “Mi cuenta”.
+            </p>
+          </div>
+        )}
+
+        <Link
+          to={user ? "/app/account" : "/login?next=/app/account"}
+          className="mt-5 block w-full rounded-xl bg-indigo-600 px-4 py-2 text-center text-sm font-medium text-white hover:bg-indigo-700"
+        >
+          {user ? "Ir a mi cuenta" : "Iniciar sesión"}
+        </Link>
+      </div>
+    </div>
+  );
+}
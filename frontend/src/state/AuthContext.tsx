@@ -5,16 +5,22 @@ import React, {
   useMemo,
   useState,
 } from "react";
-import { api } from "../lib/api";
+import { api, getRefreshToken, storeTokens } from "../lib/api";
 
 type User = { id: string; email: string; name: string; role: string };
 
+/** Con 2FA activa el login pide un segundo paso antes de dar los tokens */
+export type LoginResult = { twoFactorRequired: true; challengeToken: string };
+
 type AuthContextType = {
   user: User | null;
   token: string | null;
-  login: (email: string, password: string) => Promise<void>;
+  login: (email: string, password: string) => Promise<LoginResult | null>;
+  completeTwoFactor: (challengeToken: string, code: string) => Promise<void>;
   logout: () => void;
-  setAuth: (token: string, user: User) => void;
+  setAuth: (token: string, user: User, refreshToken?: string) => void;
+  /** Refleja cambios del perfil (p. ej. el nombre) sin tocar los tokens */
+  updateUser: (user: User) => void;
   isAuthenticated: boolean;
   getAuthHeader: () => Record<string, string>;
 };
@@ -41,7 +47,10 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({
     }
   }, [token]);
 
-  // Interceptor 401 → logout automático
+  // Interceptor 401 → logout automático. Corre después del de lib/api, que
+  // ya intentó renovar el token: si llega acá, la sesión terminó.
+  // (`token` no se actualiza en cada renovación para no reconectar los
+  // sockets del Editor; las requests siempre salen con el vigente)
   useEffect(() => {
     const id = api.interceptors.response.use(
       (res) => res,
@@ -55,26 +64,44 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({
     return () => api.interceptors.response.eject(id);
   }, []);
 
-  const setAuth = (t: string, u: User) => {
+  const setAuth = (t: string, u: User, refreshToken?: string) => {
     setToken(t);
     setUser(u);
-    localStorage.setItem("token", t);
+    storeTokens({ access_token: t, refresh_token: refreshToken });
+    localStorage.setItem("user", JSON.stringify(u));
+  };
+
+  const updateUser = (u: User) => {
+    setUser(u);
     localStorage.setItem("user", JSON.stringify(u));
-    api.defaults.headers.common["Authorization"] = `Bearer ${t}`;
   };
 
   const login = async (email: string, password: string) => {
     // ajusta a tu payload real del backend
     const { data } = await api.post("/auth/login", { email, password });
-    setAuth(data.access_token, data.user);
+    if (data.twoFactorRequired) return data as LoginResult;
+    setAuth(data.access_token, data.user, data.refresh_token);
+    return null;
+  };
+
+  const completeTwoFactor = async (challengeToken: string, code: string) => {
+    const { data } = await api.post("/auth/login/2fa", {
+      challengeToken,
+      code,
+    });
+    setAuth(data.access_token, data.user, data.refresh_token);
   };
 
   const logout = () => {
+    // Cierra la sesión en el servidor (si falla, igual vence sola)
+    const refreshToken = getRefreshToken();
+    if (refreshToken) {
+      api.post("/auth/logout", { refreshToken }).catch(() => {});
+    }
     setToken(null);
     setUser(null);
-    localStorage.removeItem("token");
+    storeTokens(null);
     localStorage.removeItem("user");
-    delete api.defaults.headers.common["Authorization"];
   };
 
   const value = useMemo<AuthContextType>(
@@ -82,8 +109,10 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({
       user,
       token,
       login,
+      completeTwoFactor,
       logout,
       setAuth,
+      updateUser,
       isAuthenticated: Boolean(token && user),
       getAuthHeader: (): Record<string, string> => ({
         Authorization: token ? `Bearer ${token}` : "",
@@ -40,7 +40,7 @@ export class FlutterCrudGenerator {
 
   constructor(opts?: {
     appName?: string;
-    packageName?: string; // para Android/iOS bundle id (placeholder)
+    packageName?: string; // bundle id Android/iOS (su prefijo va a --org de flutter create)
     apiBaseUrl?: string; // REST base URL, ej: http://10.0.2.2:8080
   }) {
     this.appName = opts?.appName ?? "UmlCrudApp";
@@ -381,7 +381,7 @@ const String kApiBaseUrl = "http://192.168.1.100:8080";
 
 ### Primera vez (solo si falta soporte web/desktop):
 \`\`\`bash
-flutter create .
+flutter create --org ${this.packageName.split(".").slice(0, -1).join(".") || this.packageName} .
 \`\`\`
 
 ### Instalar dependencias:
@@ -559,8 +559,11 @@ Usa estos logs para diagnosticar problemas.
   private generateConfig(): string {
     return `// ⚠️ CONFIGURACIÓN IMPORTANTE - Selecciona según tu plataforma:
 
+// URL configurada en el proyecto (Configuración → Flutter):
+const String kApiBaseUrl = "${this.apiBaseUrl}";
+
 // Para Flutter Web/Windows/macOS/Linux (mismo PC que backend):
-const String kApiBaseUrl = "http://localhost:8080";
+// const String kApiBaseUrl = "http://localhost:8080";
 
 // Para Android Emulator (descomenta esta línea):
 // const String kApiBaseUrl = "http://10.0.2.2:8080";
@@ -857,7 +860,7 @@ class UmlCrudApp extends StatelessWidget {
   @override
   Widget build(BuildContext context) {
     return MaterialApp(
-      title: 'UML CRUD',
+      title: '${this.appName}',
       theme: ThemeData(
         colorScheme: ColorScheme.fromSeed(seedColor: Colors.indigo),
         useMaterial3: true,
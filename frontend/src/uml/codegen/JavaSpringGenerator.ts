@@ -30,14 +30,90 @@ interface ProcessedRelation {
 
 type ParsedAttr = { type: string; name: string };
 
+export type DatabaseVendor = "POSTGRESQL" | "MYSQL" | "H2";
+
+export interface JavaSpringOptions {
+  packageName: string; // paquete base, ej: com.example
+  groupId: string;
+  artifactId: string;
+  springBootVersion: string;
+  javaVersion: string;
+  database: DatabaseVendor;
+}
+
+// Driver, conexión y dialecto de cada motor soportado
+const DATABASES: Record<
+  DatabaseVendor,
+  {
+    label: string;
+    requirement: string;
+    driverGroupId: string;
+    driverArtifactId: string;
+    url: string;
+    driverClass: string;
+    username: string;
+    password: string;
+    dialect: string;
+  }
+> = {
+  POSTGRESQL: {
+    label: "PostgreSQL",
+    requirement: "PostgreSQL 12+ instalado y corriendo",
+    driverGroupId: "org.postgresql",
+    driverArtifactId: "postgresql",
+    url: "jdbc:postgresql://localhost:5432/uml_crud_db",
+    driverClass: "org.postgresql.Driver",
+    username: "postgres",
+    password: "postgres",
+    dialect: "org.hibernate.dialect.PostgreSQLDialect",
+  },
+  MYSQL: {
+    label: "MySQL",
+    requirement: "MySQL 8+ instalado y corriendo",
+    driverGroupId: "com.mysql",
+    driverArtifactId: "mysql-connector-j",
+    url: "jdbc:mysql://localhost:3306/uml_crud_db?createDatabaseIfNotExist=true",
+    driverClass: "com.mysql.cj.jdbc.Driver",
+    username: "root",
+    password: "root",
+    dialect: "org.hibernate.dialect.MySQLDialect",
+  },
+  H2: {
+    label: "H2",
+    requirement: "Nada más: H2 corre en memoria dentro de la app",
+    driverGroupId: "com.h2database",
+    driverArtifactId: "h2",
+    url: "jdbc:h2:mem:uml_crud_db",
+    driverClass: "org.h2.Driver",
+    username: "sa",
+    password: "",
+    dialect: "org.hibernate.dialect.H2Dialect",
+  },
+};
+
 export class JavaSpringGenerator {
   private classes: ClassDefinition[] = [];
   private relations: RelationDefinition[] = [];
   private processedRelations: ProcessedRelation[] = [];
   private packageName: string;
+  private groupId: string;
+  private artifactId: string;
+  private springBootVersion: string;
+  private javaVersion: string;
+  private database: DatabaseVendor;
+
+  constructor(opts?: Partial<JavaSpringOptions>) {
+    this.packageName = opts?.packageName ?? "com.example";
+    this.groupId = opts?.groupId ?? "com.example";
+    this.artifactId = opts?.artifactId ?? "spring-boot-project";
+    this.springBootVersion = opts?.springBootVersion ?? "3.2.0";
+    this.javaVersion = opts?.javaVersion ?? "17";
+    this.database = opts?.database ?? "POSTGRESQL";
+  }
 
-  constructor(packageName: string = "com.example") {
-    this.packageName = packageName;
+  /** Carpeta de fuentes del paquete base: src/main/java/com/example */
+  private get sourceDir(): string {
+    return `src/main/java/${this.packageName.replace(/\./g, "/")}`;
   }
 
   addClass(cls: ClassDefinition) {
@@ -514,31 +590,33 @@ ${body ? "\n" + body + "\n" : ""}
     result["pom.xml"] = this.generatePomXml();
     result["src/main/resources/application.properties"] =
       this.generateApplicationProperties();
-    result["src/main/java/com/example/Application.java"] =
-      this.generateMainApplication();
-    result["src/main/java/com/example/config/ModelMapperConfig.java"] =
+    const src = this.sourceDir;
+    result[`${src}/Application.java`] = this.generateMainApplication();
+    result[`${src}/config/ModelMapperConfig.java`] =
       this.generateModelMapperConfig();
-    result["src/main/java/com/example/config/CorsConfig.java"] =
-      this.generateCorsConfig();
+    result[`${src}/config/CorsConfig.java`] = this.generateCorsConfig();
     result["README.md"] = this.generateReadme();
-    result["database/setup.sql"] = this.generateDatabaseSetupScript();
-    result["database/README.md"] = this.generateDatabaseReadme();
+    // H2 corre en memoria: no hay base que preparar
+    if (this.database === "POSTGRESQL") {
+      result["database/setup.sql"] = this.generateDatabaseSetupScript();
+      result["database/README.md"] = this.generateDatabaseReadme();
+    } else if (this.database === "MYSQL") {
+      result["database/setup.sql"] =
+        "-- Crear la base de datos (la URL de conexión también la crea si falta)\n" +
+        "CREATE DATABASE IF NOT EXISTS uml_crud_db;\n";
+    }
 
     // Entidades con rutas completas
     this.classes.forEach((cls) => {
       const className = this.toPascal(cls.name);
-      result[`src/main/java/com/example/model/${className}.java`] =
-        this.generateClass(cls);
-      result[`src/main/java/com/example/dto/${className}DTO.java`] =
-        this.generateDTO(cls);
-      result[
-        `src/main/java/com/example/repository/${className}Repository.java`
-      ] = this.generateRepository(cls);
-      result[`src/main/java/com/example/service/${className}Service.java`] =
+      result[`${src}/model/${className}.java`] = this.generateClass(cls);
+      result[`${src}/dto/${className}DTO.java`] = this.generateDTO(cls);
+      result[`${src}/repository/${className}Repository.java`] =
+        this.generateRepository(cls);
+      result[`${src}/service/${className}Service.java`] =
         this.generateService(cls);
-      result[
-        `src/main/java/com/example/controller/${className}Controller.java`
-      ] = this.generateController(cls);
+      result[`${src}/controller/${className}Controller.java`] =
+        this.generateController(cls);
     });
 
     result["POSTMAN_TESTS.md"] = this.generatePostmanTestsGuide();
@@ -547,6 +625,7 @@ ${body ? "\n" + body + "\n" : ""}
   }
 
   private generatePomXml(): string {
+    const db = DATABASES[this.database];
     return `<?xml version="1.0" encoding="UTF-8"?>
 <project xmlns="http://maven.apache.org/POM/4.0.0"
          xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"
@@ -555,17 +634,17 @@ ${body ? "\n" + body + "\n" : ""}
     <parent>
         <groupId>org.springframework.boot</groupId>
         <artifactId>spring-boot-starter-parent</artifactId>
-        <version>3.2.0</version>
+        <version>${this.springBootVersion}</version>
         <relativePath/>
     </parent>
     
-    <groupId>com.example</groupId>
-    <artifactId>spring-boot-project</artifactId>
+    <groupId>${this.groupId}</groupId>
+    <artifactId>${this.artifactId}</artifactId>
     <version>0.0.1-SNAPSHOT</version>
     <name>Generated Spring Boot Project</name>
     
     <properties>
-        <java.version>17</java.version>
+        <java.version>${this.javaVersion}</java.version>
     </properties>
     
     <dependencies>
@@ -578,10 +657,10 @@ ${body ? "\n" + body + "\n" : ""}
             <artifactId>spring-boot-starter-data-jpa</artifactId>
         </dependency>
         
-        <!-- PostgreSQL Driver -->
+        <!-- ${db.label} Driver -->
         <dependency>
-            <groupId>org.postgresql</groupId>
-            <artifactId>postgresql</artifactId>
+            <groupId>${db.driverGroupId}</groupId>
+            <artifactId>${db.driverArtifactId}</artifactId>
             <scope>runtime</scope>
         </dependency>
         
@@ -617,16 +696,17 @@ ${body ? "\n" + body + "\n" : ""}
   }
 
   private generateApplicationProperties(): string {
+    const db = DATABASES[this.database];
     return `# ============================================
-# CONFIGURACIÓN DE BASE DE DATOS POSTGRESQL
+# CONFIGURACIÓN DE BASE DE DATOS ${db.label.toUpperCase()}
 # ============================================
 
-# Conexión a PostgreSQL
-spring.datasource.url=jdbc:postgresql://localhost:5432/uml_crud_db
-spring.datasource.driver-class-name=org.postgresql.Driver
-spring.datasource.username=postgres
-spring.datasource.password=postgres
-
+# Conexión a ${db.label}
+spring.datasource.url=${db.url}
+spring.datasource.driver-class-name=${db.driverClass}
+spring.datasource.username=${db.username}
+spring.datasource.password=${db.password}
+${this.database === "H2" ? "\n# Consola web de H2 en /h2-console\nspring.h2.console.enabled=true\n" : ""}
 # Pool de conexiones (HikariCP)
 spring.datasource.hikari.maximum-pool-size=10
 spring.datasource.hikari.minimum-idle=5
@@ -638,8 +718,8 @@ spring.datasource.hikari.max-lifetime=1800000
 # CONFIGURACIÓN JPA/HIBERNATE
 # ============================================
 
-# Dialecto de PostgreSQL
-spring.jpa.database-platform=org.hibernate.dialect.PostgreSQLDialect
+# Dialecto de ${db.label}
+spring.jpa.database-platform=${db.dialect}
 
 # Estrategia de generación de esquema
 # - create-drop: Crea y elimina al finalizar (ideal para desarrollo)
@@ -687,8 +767,7 @@ logging.level.org.hibernate.SQL=DEBUG
 logging.level.org.hibernate.type.descriptor.sql.BasicBinder=TRACE
 logging.level.org.springframework.context=DEBUG
 logging.level.org.springframework.beans=DEBUG
-logging.level.com.example=DEBUG
-logging.level.org.postgresql=DEBUG
+logging.level.${this.packageName}=DEBUG${this.database === "POSTGRESQL" ? "\nlogging.level.org.postgresql=DEBUG" : ""}
 
 # ============================================
 # CONFIGURACIÓN JACKSON (JSON)
@@ -710,7 +789,7 @@ spring.jpa.properties.hibernate.jdbc.time_zone=UTC
 `;
   }
   private generateMainApplication(): string {
-    return `package com.example;
+    return `package ${this.packageName};
 
 import org.springframework.boot.SpringApplication;
 import org.springframework.boot.autoconfigure.SpringBootApplication;
@@ -724,7 +803,7 @@ public class Application {
   }
 
   private generateModelMapperConfig(): string {
-    return `package com.example.config;
+    return `package ${this.packageName}.config;
 
 import org.modelmapper.ModelMapper;
 import org.springframework.context.annotation.Bean;
@@ -741,7 +820,7 @@ public class ModelMapperConfig {
   }
 
   private generateCorsConfig(): string {
-    return `package com.example.config;
+    return `package ${this.packageName}.config;
 
 import org.springframework.context.annotation.Bean;
 import org.springframework.context.annotation.Configuration;
@@ -989,6 +1068,7 @@ spring.jpa.hibernate.ddl-auto=update       # Mantiene datos
   }
 
   private generateReadme(): string {
+    const db = DATABASES[this.database];
     return `# Proyecto Spring Boot Generado
 
 Proyecto generado automáticamente desde diagrama UML.
@@ -996,28 +1076,11 @@ Proyecto generado automáticamente desde diagrama UML.
 ## 🚀 Instrucciones de Ejecución
 
 ### Requisitos
-- Java 17 o superior
+- Java ${this.javaVersion} o superior
 - Maven 3.6+
-- PostgreSQL 12+ instalado y corriendo
+- ${db.requirement}
 
-### 1. Configurar Base de Datos
-
-Ver instrucciones completas en: \`database/README.md\`
-
-**Opción rápida:**
-\`\`\`bash
-# Crear base de datos
-psql -U postgres -c "CREATE DATABASE uml_crud_db;"
-\`\`\`
-
-### 2. Configurar Credenciales
-
-Editar \`src/main/resources/application.properties\` si tu contraseña es diferente:
-\`\`\`properties
-spring.datasource.password=tu_password_aqui
-\`\`\`
-
-### 3. Ejecutar el proyecto
+${this.generateReadmeDatabaseSetup()}### 3. Ejecutar el proyecto
 
 \`\`\`bash
 mvn spring-boot:run
@@ -1046,7 +1109,80 @@ Todas las entidades tienen los siguientes endpoints:
 - \`PUT /api/{entidades}/{id}\` - Actualizar
 - \`DELETE /api/{entidades}/{id}\` - Eliminar
 
-## 🗄️ Base de Datos PostgreSQL
+${this.database === "POSTGRESQL" ? this.generateReadmePostgresSection() : ""}## 📮 Pruebas en Postman
+
+Se ha generado un archivo con instrucciones para probar la API:
+- **\`POSTMAN_TESTS.md\`** - 📋 Guía paso a paso con todas las peticiones listas para copiar y pegar
+
+### Opción recomendada: Copiar y pegar
+Abre el archivo **\`POSTMAN_TESTS.md\`** y copia las peticiones directamente en Postman. Cada petición incluye método, URL, headers y body de ejemplo.
+
+## ⚙️ CORS
+
+CORS ya está configurado para permitir peticiones desde:
+- localhost (cualquier puerto)
+- 127.0.0.1 (cualquier puerto)
+- 10.0.2.2 (Android Emulator)
+- 192.168.*.* (dispositivos en red local)
+
+Si necesitas agregar más orígenes, edita \`${this.sourceDir}/config/CorsConfig.java\`
+`;
+  }
+
+  /** Pasos 1 y 2 del README (crear la base y credenciales) según el motor */
+  private generateReadmeDatabaseSetup(): string {
+    if (this.database === "H2") {
+      return `### 1. Base de Datos
+
+H2 corre en memoria: no hay nada que instalar y los datos se pierden al reiniciar.
+La consola web queda en **http://localhost:8080/h2-console** (JDBC URL \`jdbc:h2:mem:uml_crud_db\`, usuario \`sa\`, sin contraseña).
+
+### 2. Configurar Credenciales
+
+No hace falta. Para pasar a un motor persistente, cambia el datasource en \`src/main/resources/application.properties\`.
+
+`;
+    }
+    if (this.database === "MYSQL") {
+      return `### 1. Configurar Base de Datos
+
+La URL de conexión crea \`uml_crud_db\` si no existe. Para crearla a mano:
+\`\`\`bash
+mysql -u root -p < database/setup.sql
+\`\`\`
+
+### 2. Configurar Credenciales
+
+Editar \`src/main/resources/application.properties\` si tu usuario o contraseña son diferentes:
+\`\`\`properties
+spring.datasource.username=root
+spring.datasource.password=tu_password_aqui
+\`\`\`
+
+`;
+    }
+    return `### 1. Configurar Base de Datos
+
+Ver instrucciones completas en: \`database/README.md\`
+
+**Opción rápida:**
+\`\`\`bash
+# Crear base de datos
+psql -U postgres -c "CREATE DATABASE uml_crud_db;"
+\`\`\`
+
+### 2. Configurar Credenciales
+
+Editar \`src/main/resources/application.properties\` si tu contraseña es diferente:
+\`\`\`properties
+spring.datasource.password=tu_password_aqui
+\`\`\`
+
+`;
+  }
+
+  private generateReadmePostgresSection(): string {
+    return `## 🗄️ Base de Datos PostgreSQL
 
 ### Configuración Inicial
 
@@ -1100,23 +1236,6 @@ Ver contenido de una tabla:
 SELECT * FROM nombre_tabla;
 \`\`\`
 
-## 📮 Pruebas en Postman
-
-Se ha generado un archivo con instrucciones para probar la API:
-- **\`POSTMAN_TESTS.md\`** - 📋 Guía paso a paso con todas las peticiones listas para copiar y pegar
-
-### Opción recomendada: Copiar y pegar
-Abre el archivo **\`POSTMAN_TESTS.md\`** y copia las peticiones directamente en Postman. Cada petición incluye método, URL, headers y body de ejemplo.
-
-## ⚙️ CORS
-
-CORS ya está configurado para permitir peticiones desde:
-- localhost (cualquier puerto)
-- 127.0.0.1 (cualquier puerto)
-- 10.0.2.2 (Android Emulator)
-- 192.168.*.* (dispositivos en red local)
-
-Si necesitas agregar más orígenes, edita \`src/main/java/com/example/config/CorsConfig.java\`
 `;
   }
 
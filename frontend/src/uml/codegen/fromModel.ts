@@ -0,0 +1,101 @@
+// src/uml/codegen/fromModel.ts
+import type { ModelClass, ModelRelation, UmlModel } from "../model";
+import type {
+  ClassDefinition,
+  RelationDefinition,
+} from "./JavaSpringGenerator";
+
+/* ========= Auxiliares de saneamiento / normalización ========= */
+function sanitizeIdentifier(raw: unknown, fallback: string): string {
+  let s = String(raw ?? "").trim();
+  if (!s) return fallback;
+  // Reemplaza espacios y caracteres no válidos por '_'
+  s = s.replace(/[^\p{L}\p{N}_$]/gu, "_");
+  // No iniciar con dígito
+  if (/^\d/.test(s)) s = "_" + s;
+  return s;
+}
+
+/* ======= Mapeo tipos de relación UML -> JPA ======= */
+function mapearTipoRelacion(
+  tipo: string
+): "ONE_TO_ONE" | "ONE_TO_MANY" | "MANY_TO_ONE" | "MANY_TO_MANY" {
+  switch (tipo) {
+    case "comp":
+      return "ONE_TO_ONE";
+    case "aggr":
+      return "ONE_TO_MANY";
+    case "assoc":
+      return "MANY_TO_MANY";
+    case "dep":
+      return "MANY_TO_ONE";
+    default:
+      return "MANY_TO_ONE";
+  }
+}
+
+export type CodegenClass = ClassDefinition & {
+  isAbstract: boolean;
+  isInterface: boolean;
+};
+
+function toClassDefinition(c: ModelClass, idx: number): CodegenClass {
+  return {
+    name: sanitizeIdentifier(c.name, `Clase_${idx + 1}`),
+    attributes: c.attributes.map(
+      (a, i) =>
+        `${sanitizeIdentifier(a.name, `campo_${i + 1}`)}: ${a.type || "String"}`
+    ),
+    methods: c.methods.map((m) => {
+      const params = m.parameters
+        .map(
+          (p, k) =>
+            `${sanitizeIdentifier(p.name, `p${k + 1}`)}: ${p.type || "String"}`
+        )
+        .join(", ");
+      return `${sanitizeIdentifier(m.name, "metodo")}(${params}): ${
+        m.returnType || "void"
+      }`;
+    }),
+    isAbstract: c.isAbstract,
+    isInterface: c.isInterface,
+  };
+}
+
+/**
+ * Entrada de los generadores (Spring Boot y Flutter) a partir del modelo
+ * canónico. La herencia no se traduce a relaciones JPA, y las relaciones
+ * que no unen dos clases se descartan (validateUmlModel ya las reporta).
+ */
+export function codegenInput(model: UmlModel): {
+  classes: CodegenClass[];
+  relations: RelationDefinition[];
+} {
+  const classes = model.classes.map(toClassDefinition);
+  const nameById = new Map(
+    model.classes.map((c, idx) => [c.id, classes[idx].name])
+  );
+
+  const toRelation = (r: ModelRelation): RelationDefinition | null => {
+    const source = r.source.classId && nameById.get(r.source.classId);
+    const target = r.target.classId && nameById.get(r.target.classId);
+    if (!source || !target) return null;
+    return {
+      source,
+      target,
+      type: mapearTipoRelacion(r.kind),
+      bidirectional: r.source.navigable && r.target.navigable,
+      sourceMultiplicity: r.source.multiplicityText,
+      targetMultiplicity: r.target.multiplicityText,
+      name: r.name,
+      navigationProperty: r.target.role,
+    };
+  };
+
+  return {
+    classes,
+    relations: model.relations
+      .map(toRelation)
+      .filter((r): r is RelationDefinition => r !== null),
+  };
+}
@@ -0,0 +1,28 @@
+// src/uml/codegen/projectSettings.ts
+import type { DatabaseVendor } from "./JavaSpringGenerator";
+
+/** Configuración de generación guardada en el proyecto (PATCH /projects/:id) */
+export type ProjectSettings = {
+  javaPackage: string;
+  groupId: string;
+  artifactId: string;
+  springBootVersion: string;
+  javaVersion: string;
+  database: DatabaseVendor;
+  flutterAppName: string;
+  flutterPackage: string;
+  apiBaseUrl: string;
+};
+
+// Mismos defaults que el backend (proyectos que nunca guardaron la suya)
+export const DEFAULT_PROJECT_SETTINGS: ProjectSettings = {
+  javaPackage: "com.example",
+  groupId: "com.example",
+  artifactId: "spring-boot-project",
+  springBootVersion: "3.2.0",
+  javaVersion: "17",
+  database: "POSTGRESQL",
+  flutterAppName: "UmlCrudApp",
+  flutterPackage: "com.example.umlcrud",
+  apiBaseUrl: "http://localhost:8080",
+};
@@ -0,0 +1,8 @@
+// src/uml/model.ts
+/**
+ * Modelo UML canónico (el de GET /projects/:id/model). No es una copia: se
+ * reexporta el módulo del backend, que no depende de Nest, para que el lienzo
+ * lea las celdas X6 igual que el servidor. Vite lo sirve desde fuera de
+ * `frontend/` (ver `server.fs.allow` en vite.config.ts).
+ */
+export * from "../../../backend/src/diagrams/uml-model";
@@ -65,3 +65,24 @@ export const fromSnapshot = (graph: Graph, snap: DiagramSnapshot) => {
   graph.clearCells();
   graph.fromJSON({ cells });
 };
+
+/** JSON con las claves ordenadas: el jsonb del servidor no conserva el orden */
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`;
+  if (value && typeof value === "object") {
+    const obj = value as Record<string, unknown>;
+    const entries = Object.keys(obj)
+      .sort()
+      .map((k) => `${JSON.stringify(k)}:${stableStringify(obj[k])}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+};
+
+/** Mismo contenido (nodos y aristas), sin importar `updatedAt` */
+export const sameDiagramContent = (
+  a: Pick<DiagramSnapshot, "nodes" | "edges"> | null | undefined,
+  b: Pick<DiagramSnapshot, "nodes" | "edges"> | null | undefined
+) =>
+  stableStringify({ nodes: a?.nodes ?? [], edges: a?.edges ?? [] }) ===
+  stableStringify({ nodes: b?.nodes ?? [], edges: b?.edges ?? [] });
@@ -14,6 +14,8 @@ import { Graph } from "@antv/x6";
 
 // Importa el tipo Tool real desde tu Sidebar
 import type { Tool } from "./Sidebar";
+import { toSnapshot } from "../snapshot";
+import { toUmlModel, type UmlModel } from "../model";
 
 interface AIMessage {
   id: string;
@@ -77,98 +79,49 @@ export default function AIAssistant({
   const [isLoading, setIsLoading] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
+  // -------------------- MODELO DEL DIAGRAMA --------------------
+  // Lo mismo que GET /projects/:id/model, leído del lienzo (incluye lo que
+  // todavía no se guardó)
+  const getDiagramModel = (): UmlModel =>
+    graph
+      ? toUmlModel(toSnapshot(graph))
+      : { classes: [], relations: [], generalizations: [] };
+
   // -------------------- ANALISIS DEL DIAGRAMA --------------------
   const analyzeDiagramState = () => {
-    if (!graph)
-      return {
-        hasClasses: false,
-        classCount: 0,
-        hasRelations: false,
-        relationCount: 0,
-        hasEmptyClasses: false,
-        hasUnconnectedClasses: false,
-        needsMoreDetail: false,
-        isWellStructured: false,
-        classNames: [] as string[],
-      };
-
-    const nodes = graph.getNodes();
-    const edges = graph.getEdges();
+    const { classes, relations, generalizations } = getDiagramModel();
+    const connected = new Set<string | null>([
+      ...relations.flatMap((r) => [r.source.classId, r.target.classId]),
+      ...generalizations.flatMap((g) => [g.childId, g.parentId]),
+    ]);
+    const relationCount = relations.length + generalizations.length;
+
+    const hasEmptyClasses = classes.some(
+      (c) => c.attributes.length === 0 && c.methods.length === 0
+    );
 
-    const hasEmptyClasses = nodes.some((node) => {
-      const data = node.getData();
-      return (
-        (!data?.attributes || data.attributes.length === 0) &&
-        (!data?.methods || data.methods.length === 0)
-      );
-    });
+    const hasUnconnectedClasses = classes.some((c) => !connected.has(c.id));
 
-    const hasUnconnectedClasses = nodes.some(
-      (node) =>
-        !edges.some(
-          (edge) =>
-            edge.getSourceCellId() === node.id ||
-            edge.getTargetCellId() === node.id
-        )
+    const needsMoreDetail = classes.some(
+      (c) => c.attributes.length < 2 && c.methods.length < 1
     );
 
-    const needsMoreDetail = nodes.some((node) => {
-      const d = node.getData() || {};
-      const a = (d.attributes || []) as string[];
-      const m = (d.methods || []) as string[];
-      return a.length < 2 && m.length < 1;
-    });
-
-    const classNames = nodes
-      .map((n) => n.getData()?.name || "Unnamed")
-      .filter(Boolean);
+    const classNames = classes.map((c) => c.name || "Unnamed");
 
     return {
-      hasClasses: nodes.length > 0,
-      classCount: nodes.length,
-      hasRelations: edges.length > 0,
-      relationCount: edges.length,
+      hasClasses: classes.length > 0,
+      classCount: classes.length,
+      hasRelations: relationCount > 0,
+      relationCount,
       hasEmptyClasses,
       hasUnconnectedClasses,
       needsMoreDetail,
       isWellStructured:
-        nodes.length >= 3 && edges.length >= 2 && !hasEmptyClasses,
+        classes.length >= 3 && relationCount >= 2 && !hasEmptyClasses,
       classNames,
     };
   };
 
-  // -------------------- CONTEXTO PARA BACKEND --------------------
-  const getDiagramContext = () => {
-    if (!graph) return { nodes: [], edges: [] };
-
-    const nodes = graph.getNodes().map((node) => {
-      const data = node.getData() || {};
-      return {
-        id: node.id,
-        name: data.name || "Unnamed",
-        attributes: data.attributes || [],
-        methods: data.methods || [],
-        position: node.position(),
-        shape: node.shape,
-      };
-    });
-
-    const edges = graph.getEdges().map((edge) => ({
-      id: edge.id,
-      source: edge.getSourceCellId(),
-      target: edge.getTargetCellId(),
-      // usa el tipo guardado en data; si no, ‘assoc’ por defecto
-      type: edge.getData()?.type || "assoc",
-      labels:
-        edge
-          .getLabels()
-          ?.map((l: any) => l?.attrs?.text?.text)
-          .filter(Boolean) || [],
-    }));
-
-    return { nodes, edges };
-  };
-
   // -------------------- MENSAJE INICIAL --------------------
   const getInitialMessage = (): AIMessage => {
     if (!canEdit) {
@@ -370,14 +323,14 @@ export default function AIAssistant({
     const timeout = setTimeout(() => controller.abort(), 12000);
 
     try {
-      const context = getDiagramContext();
+      const model = getDiagramModel();
       const analysis = analyzeDiagramState();
 
       // 🔍 DEBUG: Ver qué estamos enviando
       console.log("[AIAssistant] Enviando al backend:", {
-        nodeCount: context.nodes.length,
-        edgeCount: context.edges.length,
-        nodeNames: context.nodes.map((n) => n.name),
+        classCount: model.classes.length,
+        relationCount: model.relations.length + model.generalizations.length,
+        classNames: model.classes.map((c) => c.name),
         message: userMessage.content,
       });
 
@@ -386,9 +339,8 @@ export default function AIAssistant({
         headers: { "Content-Type": "application/json" },
         signal: controller.signal,
         body: JSON.stringify({
+          model,
           context: {
-            nodes: context.nodes,
-            edges: context.edges,
             userLevel: "beginner",
             lastAction: currentTool,
           },
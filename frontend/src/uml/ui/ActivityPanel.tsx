@@ -0,0 +1,217 @@
+// src/uml/ui/ActivityPanel.tsx
+import { useEffect, useState } from "react";
+import { Activity, RefreshCw, X } from "lucide-react";
+import toast from "react-hot-toast";
+import { api, getErrorMessage } from "../../lib/api";
+
+type ActivityUser = { id: string; name: string; email: string };
+
+export type ActivityAction =
+  | "PROJECT_CREATED"
+  | "PROJECT_DELETED"
+  | "PROJECT_RESTORED"
+  | "SHARE_LINK_CREATED"
+  | "SHARE_LINK_REVOKED"
+  | "EDIT_REQUEST_APPROVED"
+  | "EDIT_REQUEST_REJECTED"
+  | "MEMBER_JOINED"
+  | "MEMBER_ROLE_CHANGED"
+  | "MEMBER_REMOVED"
+  | "OWNERSHIP_TRANSFERRED"
+  | "DIAGRAM_SAVED"
+  | "CODE_GENERATED"
+  | "PROJECT_UPDATED";
+
+/** Campos que guarda el backend según la acción */
+type ActivityMetadata = {
+  name?: string;
+  role?: string;
+  hasPassword?: boolean;
+  forkedFromId?: string;
+  from?: string;
+  to?: string;
+  left?: boolean;
+  saves?: number;
+  lastSavedAt?: string;
+  generator?: string;
+  fields?: string[];
+};
+
+export type ProjectActivity = {
+  id: string;
+  action: ActivityAction;
+  targetType: string | null;
+  targetId: string | null;
+  metadata: ActivityMetadata | null;
+  createdAt: string;
+  actor: ActivityUser | null;
+  targetUser: ActivityUser | null;
+};
+
+type ActivityPage = { items: ProjectActivity[]; nextCursor: string | null };
+
+type Props = {
+  projectId: string;
+  open: boolean;
+  onClose: () => void;
+};
+
+const ROLE_LABEL: Record<string, string> = {
+  OWNER: "Owner",
+  ADMIN: "Admin",
+  EDITOR: "Editor",
+  VIEWER: "Lector",
+};
+
+const GENERATOR_LABEL: Record<string, string> = {
+  "spring-boot": "Spring Boot",
+  flutter: "Flutter",
+};
+
+const who = (u: ActivityUser | null) => u?.name || u?.email || "Alguien";
+const role = (r: unknown) => ROLE_LABEL[String(r)] ?? String(r ?? "");
+
+/** Frase de la entrada, sin el actor (se muestra aparte) */
+function describe(a: ProjectActivity): string {
+  const m: ActivityMetadata = a.metadata ?? {};
+  const target = who(a.targetUser);
+  switch (a.action) {
+    case "PROJECT_CREATED":
+      return m.forkedFromId ? "creó el proyecto como fork" : "creó el proyecto";
+    case "PROJECT_DELETED":
+      return "movió el proyecto a la papelera";
+    case "PROJECT_RESTORED":
+      return "restauró el proyecto de la papelera";
+    case "SHARE_LINK_CREATED":
+      return `creó el link "${m.name || "sin nombre"}" (${role(m.role)}${
+        m.hasPassword ? ", con contraseña" : ""
+      })`;
+    case "SHARE_LINK_REVOKED":
+      return `revocó el link "${m.name || "sin nombre"}"`;
+    case "EDIT_REQUEST_APPROVED":
+      return `aprobó la solicitud de ${target} como ${role(m.role)}`;
+    case "EDIT_REQUEST_REJECTED":
+      return `rechazó la solicitud de ${target}`;
+    case "MEMBER_JOINED":
+      return `se unió por invitación como ${role(m.role)}`;
+    case "MEMBER_ROLE_CHANGED":
+      return `cambió a ${target} de ${role(m.from)} a ${role(m.to)}`;
+    case "MEMBER_REMOVED":
+      return m.left ? "salió del proyecto" : `quitó a ${target} del proyecto`;
+    case "OWNERSHIP_TRANSFERRED":
+      return `aceptó la propiedad del proyecto (antes de ${target})`;
+    case "DIAGRAM_SAVED":
+      return Number(m.saves) > 1
+        ? `editó el diagrama (${m.saves} guardados)`
+        : "editó el diagrama";
+    case "CODE_GENERATED":
+      return `generó código ${GENERATOR_LABEL[m.generator ?? ""] ?? m.generator}`;
+    case "PROJECT_UPDATED":
+      return m.fields?.includes("name")
+        ? `renombró el proyecto a "${m.name}"`
+        : m.fields?.some((f) => f.startsWith("settings."))
+          ? "actualizó la configuración de generación"
+          : "editó los datos del proyecto";
+    default:
+      return a.action;
+  }
+}
+
+export default function ActivityPanel({ projectId, open, onClose }: Props) {
+  const [items, setItems] = useState<ProjectActivity[] | null>(null);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+
+  const load = async (cursor?: string) => {
+    try {
+      const { data } = await api.get<ActivityPage>(
+        `/projects/${projectId}/activity`,
+        { params: { cursor } }
+      );
+      setItems((prev) =>
+        cursor ? [...(prev ?? []), ...data.items] : data.items
+      );
+      setNextCursor(data.nextCursor);
+    } catch (e) {
+      toast.error(getErrorMessage(e));
+      if (!cursor) setItems([]);
+    }
+  };
+
+  useEffect(() => {
+    if (open) load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open, projectId]);
+
+  const loadMore = async () => {
+    if (!nextCursor || loadingMore) return;
+    setLoadingMore(true);
+    await load(nextCursor);
+    setLoadingMore(false);
+  };
+
+  if (!open) return null;
+  return (
+    <div className="fixed right-0 top-0 z-[70] flex h-full w-96 max-w-[90vw] flex-col border-l border-gray-200 bg-white shadow-xl">
+      <div className="flex items-center justify-between border-b border-gray-100 px-4 py-3">
+        <div className="flex items-center gap-2 font-semibold text-gray-800">
+          <Activity className="h-5 w-5 text-indigo-600" />
+          Actividad
+        </div>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => load()}
+            className="rounded-lg p-1 text-gray-500 hover:bg-gray-100"
+            title="Actualizar"
+          >
+            <RefreshCw className="h-4 w-4" />
+          </button>
+          <button
+            onClick={onClose}
+            className="rounded-lg p-1 text-gray-500 hover:bg-gray-100"
+            title="Cerrar"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-auto px-4 py-3">
+        {items === null ? (
+          <div className="text-sm text-gray-500">Cargando…</div>
+        ) : items.length === 0 ? (
+          <div className="rounded-xl bg-gray-50 p-3 text-sm text-gray-500">
+            Todavía no hay actividad registrada
+          </div>
+        ) : (
+          <ol className="space-y-3">
+            {items.map((a) => (
+              <li key={a.id} className="border-l-2 border-indigo-100 pl-3">
+                <div className="text-sm text-gray-800">
+                  <span className="font-medium">{who(a.actor)}</span>{" "}
+                  {describe(a)}
+                </div>
+                <div className="mt-0.5 text-xs text-gray-500">
+                  {new Date(a.createdAt).toLocaleString()}
+                  {a.action === "DIAGRAM_SAVED" &&
+                    a.metadata?.lastSavedAt &&
+                    ` – ${new Date(a.metadata.lastSavedAt).toLocaleTimeString()}`}
+                </div>
+              </li>
+            ))}
+          </ol>
+        )}
+
+        {nextCursor && (
+          <button
+            onClick={loadMore}
+            disabled={loadingMore}
+            className="mt-4 w-full rounded-xl border border-gray-200 px-3 py-1.5 text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-60"
+          >
+            {loadingMore ? "Cargando…" : "Cargar más"}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,12 +1,30 @@
-import { useLayoutEffect, useEffect, useMemo, useRef, useState } from "react";
+import {
+  useLayoutEffect,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  type ReactNode,
+} from "react";
 import ReactDOM from "react-dom";
 import type { Graph } from "@antv/x6";
 import { MiniMap as X6MiniMap } from "@antv/x6-plugin-minimap";
 import { Export } from "@antv/x6-plugin-export";
 import type { Tool } from "./Sidebar";
 import { IconCenter, IconCursor, IconZoomIn, IconZoomOut } from "../icons";
-import { Save, Share2, Download, ChevronDown } from "lucide-react";
+import {
+  Save,
+  Share2,
+  Download,
+  ChevronDown,
+  History,
+  Users,
+  Activity,
+  Settings,
+} from "lucide-react";
 import toast from "react-hot-toast";
+import { api, getErrorMessage } from "../../lib/api";
+import type { DiagramSnapshot } from "../snapshot";
 
 type Props = {
   graph: Graph | null;
@@ -15,8 +33,19 @@ type Props = {
   onSave?: () => Promise<void>;
   disabled?: boolean;
   exportName?: string;
-  onGetShareLink?: () => Promise<string>;
+  /** Proyecto guardado: habilita el intercambio XMI */
+  projectId?: string;
+  /** Con permiso de edición: importar XMI y pintar el resultado */
+  onXmiImported?: (snapshot: DiagramSnapshot) => void;
+  /** Abre el gestor de links; sin él, el botón copia la URL actual */
+  onOpenShare?: () => void;
   canShare?: boolean;
+  onOpenHistory?: () => void;
+  onOpenMembers?: () => void;
+  onOpenActivity?: () => void;
+  onOpenSettings?: () => void;
+  /** Acciones extra al final de la barra (campanita de notificaciones) */
+  children?: ReactNode;
 };
 
 /** Crea u obtiene un div persistente en body (no se remueve nunca) */
@@ -38,13 +67,21 @@ export default function DiagramControls({
   onSave,
   disabled = false,
   exportName = "diagram",
-  onGetShareLink,
+  projectId,
+  onXmiImported,
+  onOpenShare,
+  onOpenHistory,
+  onOpenMembers,
+  onOpenActivity,
+  onOpenSettings,
+  children,
 }: Props) {
   // ---- Estado mínimo de UI ----
   const [showExportMenu, setShowExportMenu] = useState(false);
-  const [sharing, setSharing] = useState(false);
 
   const exportMenuRef = useRef<HTMLDivElement>(null);
+  const xmiInputRef = useRef<HTMLInputElement>(null);
+  const xmiModeRef = useRef<"replace" | "append">("replace");
 
   // Cerrar menú al click afuera (seguro)
   useEffect(() => {
@@ -224,6 +261,64 @@ export default function DiagramControls({
     }
   };
 
+  const exportXMI = async () => {
+    if (!projectId) return;
+    setShowExportMenu(false);
+    try {
+      const { data } = await api.get<Blob>(`/projects/${projectId}/xmi`, {
+        responseType: "blob",
+      });
+      const url = URL.createObjectURL(data);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `${exportName}.xmi`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+      toast.success("XMI exportado correctamente ✅");
+    } catch (err) {
+      toast.error(getErrorMessage(err));
+    }
+  };
+
+  const pickXMI = (mode: "replace" | "append") => {
+    setShowExportMenu(false);
+    xmiModeRef.current = mode;
+    xmiInputRef.current?.click();
+  };
+
+  /** `replace` reemplaza el diagrama; `append` suma las clases que falten */
+  const importXMI = async (file: File) => {
+    if (!projectId || !onXmiImported) return;
+    const mode = xmiModeRef.current;
+    if (
+      mode === "replace" &&
+      !window.confirm(
+        "¿Reemplazar el diagrama con el del archivo? El estado actual se guardará en el historial."
+      )
+    ) {
+      return;
+    }
+    const form = new FormData();
+    form.append("file", file);
+    toast.loading("Importando XMI...", { id: "import-xmi" });
+    try {
+      const { data } = await api.post<{
+        snapshot: DiagramSnapshot;
+        classes: number;
+        relations: number;
+      }>(`/projects/${projectId}/xmi`, form, { params: { mode } });
+      onXmiImported(data.snapshot);
+      toast.success(
+        `Importadas ${data.classes} clases y ${data.relations} relaciones`,
+        { id: "import-xmi" }
+      );
+    } catch (err) {
+      toast.error(getErrorMessage(err), { id: "import-xmi" });
+    }
+  };
+
   const handleSave = async () => {
     if (!onSave) return;
     try {
@@ -236,26 +331,13 @@ export default function DiagramControls({
   };
 
   const handleShare = async () => {
-    if (sharing || !onGetShareLink) return;
+    if (onOpenShare) return onOpenShare();
+    const url = window.location.href;
     try {
-      setSharing(true);
-      const url = await onGetShareLink();
-      if (typeof url === "string" && url.length > 0) {
-        try {
-          await navigator.clipboard.writeText(url);
-          toast.success("Enlace copiado al portapapeles 🔗");
-        } catch {
-          window.prompt("Copia el enlace:", url);
-          toast.success("Enlace generado. Cópialo desde el cuadro.");
-        }
-      } else {
-        toast.error("No se pudo generar el enlace de compartir.");
-      }
-    } catch (err) {
-      console.error("Compartir enlace error:", err);
-      toast.error("Error al generar el enlace de compartir.");
-    } finally {
-      setSharing(false);
+      await navigator.clipboard.writeText(url);
+      toast.success("Enlace copiado al portapapeles 🔗");
+    } catch {
+      window.prompt("Copia el enlace:", url);
     }
   };
 
@@ -328,6 +410,54 @@ export default function DiagramControls({
           </>
         )}
 
+        {/* Historial de versiones */}
+        {onOpenHistory && (
+          <button
+            onClick={onOpenHistory}
+            disabled={toolbarDisabled}
+            title="Historial de versiones"
+            className="rounded-xl px-2 py-2 text-gray-700 hover:bg-gray-50"
+          >
+            <History className="h-5 w-5" />
+          </button>
+        )}
+
+        {/* Miembros */}
+        {onOpenMembers && (
+          <button
+            onClick={onOpenMembers}
+            disabled={toolbarDisabled}
+            title="Miembros del proyecto"
+            className="rounded-xl px-2 py-2 text-gray-700 hover:bg-gray-50"
+          >
+            <Users className="h-5 w-5" />
+          </button>
+        )}
+
+        {/* Actividad */}
+        {onOpenActivity && (
+          <button
+            onClick={onOpenActivity}
+            disabled={toolbarDisabled}
+            title="Actividad del proyecto"
+            className="rounded-xl px-2 py-2 text-gray-700 hover:bg-gray-50"
+          >
+            <Activity className="h-5 w-5" />
+          </button>
+        )}
+
+        {/* Configuración */}
+        {onOpenSettings && (
+          <button
+            onClick={onOpenSettings}
+            disabled={toolbarDisabled}
+            title="Configuración del proyecto"
+            className="rounded-xl px-2 py-2 text-gray-700 hover:bg-gray-50"
+          >
+            <Settings className="h-5 w-5" />
+          </button>
+        )}
+
         <span className="mx-1 h-6 w-px bg-gray-200" />
 
         {/* Exportar */}
@@ -358,23 +488,70 @@ export default function DiagramControls({
                 <span aria-hidden>📄</span>
                 Exportar PDF
               </button>
+              {projectId && (
+                <button
+                  onClick={exportXMI}
+                  title="Modelo UML para Enterprise Architect, Papyrus, StarUML…"
+                  className="w-full px-3 py-2 text-left text-sm text-gray-700 hover:bg-gray-50 flex items-center gap-2"
+                >
+                  <span aria-hidden>🧩</span>
+                  Exportar XMI
+                </button>
+              )}
+              {projectId && onXmiImported && (
+                <>
+                  <div className="my-1 border-t border-gray-100" />
+                  <button
+                    onClick={() => pickXMI("replace")}
+                    className="w-full px-3 py-2 text-left text-sm text-gray-700 hover:bg-gray-50 flex items-center gap-2"
+                  >
+                    <span aria-hidden>📥</span>
+                    Importar XMI
+                  </button>
+                  <button
+                    onClick={() => pickXMI("append")}
+                    title="Suma las clases del archivo; las que ya están se reutilizan"
+                    className="w-full px-3 py-2 text-left text-sm text-gray-700 hover:bg-gray-50 flex items-center gap-2"
+                  >
+                    <span aria-hidden>➕</span>
+                    Agregar desde XMI
+                  </button>
+                </>
+              )}
             </div>
           )}
+          <input
+            ref={xmiInputRef}
+            type="file"
+            accept=".xmi,.uml,.xml"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              e.target.value = "";
+              if (file) importXMI(file);
+            }}
+          />
         </div>
 
         {/* Compartir */}
-        {onGetShareLink && (
+        <span className="mx-1 h-6 w-px bg-gray-200" />
+        <button
+          onClick={handleShare}
+          title={
+            onOpenShare
+              ? "Administrar links de compartir"
+              : "Copiar enlace del proyecto"
+          }
+          className="rounded-xl px-3 py-2 text-sm text-gray-700 hover:bg-gray-50 flex items-center gap-2"
+        >
+          <Share2 className="h-5 w-5" />
+          Compartir
+        </button>
+
+        {children && (
           <>
             <span className="mx-1 h-6 w-px bg-gray-200" />
-            <button
-              onClick={handleShare}
-              disabled={sharing}
-              title="Compartir enlace del proyecto"
-              className="rounded-xl px-3 py-2 text-sm text-gray-700 hover:bg-gray-50 flex items-center gap-2"
-            >
-              <Share2 className="h-5 w-5" />
-              {sharing ? "Generando..." : "Compartir"}
-            </button>
+            {children}
           </>
         )}
       </div>
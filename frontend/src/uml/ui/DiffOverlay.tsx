@@ -0,0 +1,220 @@
+// src/uml/ui/DiffOverlay.tsx
+import type { Graph } from "@antv/x6";
+import { GitCompare, X } from "lucide-react";
+
+type BBox = { x: number; y: number; width: number; height: number };
+type DiffStatus = "added" | "removed" | "changed";
+type MemberChanges = {
+  added: string[];
+  removed: string[];
+  changed: { name: string; from: string; to: string }[];
+};
+type RelationRef = { id: string; source: string; target: string; type: string };
+
+export type DiagramDiff = {
+  from: string;
+  to: string;
+  classes: {
+    added: { id: string; name: string }[];
+    removed: { id: string; name: string; bbox: BBox | null }[];
+    changed: {
+      id: string;
+      name: string;
+      renamedFrom?: string;
+      attributes: MemberChanges;
+      methods: MemberChanges;
+    }[];
+  };
+  relations: {
+    added: RelationRef[];
+    removed: RelationRef[];
+    changed: (RelationRef & {
+      changes: Record<string, { from: string; to: string }>;
+    })[];
+  };
+  cells: Record<string, DiffStatus>;
+  summary: string[];
+};
+
+type Props = {
+  graph: Graph | null;
+  diff: DiagramDiff;
+  title?: string;
+  onClose: () => void;
+  /** Cambia con zoom/pan para recalcular posiciones */
+  transformTick: number;
+};
+
+const BOX_STYLE: Record<DiffStatus, string> = {
+  added: "border-green-500 bg-green-400/10",
+  removed: "border-red-500 bg-red-400/10 border-dashed",
+  changed: "border-amber-500 bg-amber-400/10",
+};
+
+const TEXT_STYLE: Record<DiffStatus, string> = {
+  added: "text-green-700",
+  removed: "text-red-700",
+  changed: "text-amber-700",
+};
+
+function memberLines(what: string, m: MemberChanges) {
+  return [
+    ...m.added.map((l) => ({
+      status: "added" as const,
+      text: `+ ${what} ${l}`,
+    })),
+    ...m.removed.map((l) => ({
+      status: "removed" as const,
+      text: `− ${what} ${l}`,
+    })),
+    ...m.changed.map((c) => ({
+      status: "changed" as const,
+      text: `~ ${what} ${c.from} → ${c.to}`,
+    })),
+  ];
+}
+
+export default function DiffOverlay({
+  graph,
+  diff,
+  title,
+  onClose,
+  transformTick,
+}: Props) {
+  // Cajas sobre el lienzo: celdas actuales (added/changed) y clases
+  // eliminadas en la posición que tenían en la versión anterior.
+  const boxes: {
+    key: string;
+    status: DiffStatus;
+    rect: BBox;
+    label?: string;
+  }[] = [];
+  if (graph) {
+    for (const [id, status] of Object.entries(diff.cells)) {
+      if (status === "removed") continue;
+      const cell = graph.getCellById(id);
+      if (!cell) continue;
+      const r = graph.localToGraph(cell.getBBox());
+      boxes.push({ key: id, status, rect: r });
+    }
+    for (const c of diff.classes.removed) {
+      if (!c.bbox) continue;
+      const r = graph.localToGraph(
+        c.bbox.x,
+        c.bbox.y,
+        c.bbox.width,
+        c.bbox.height
+      );
+      boxes.push({
+        key: `removed-${c.id}`,
+        status: "removed",
+        rect: r,
+        label: c.name,
+      });
+    }
+  }
+
+  const rows = [
+    ...diff.classes.added.map((c) => ({
+      status: "added" as const,
+      text: `Clase agregada: ${c.name}`,
+      details: [] as { status: DiffStatus; text: string }[],
+    })),
+    ...diff.classes.removed.map((c) => ({
+      status: "removed" as const,
+      text: `Clase eliminada: ${c.name}`,
+      details: [],
+    })),
+    ...diff.classes.changed.map((c) => ({
+      status: "changed" as const,
+      text: c.renamedFrom
+        ? `Clase renombrada: ${c.renamedFrom} → ${c.name}`
+        : `Clase modificada: ${c.name}`,
+      details: [
+        ...memberLines("atributo", c.attributes),
+        ...memberLines("método", c.methods),
+      ],
+    })),
+    ...diff.relations.added.map((r) => ({
+      status: "added" as const,
+      text: `Relación agregada: ${r.source} → ${r.target} (${r.type})`,
+      details: [],
+    })),
+    ...diff.relations.removed.map((r) => ({
+      status: "removed" as const,
+      text: `Relación eliminada: ${r.source} → ${r.target} (${r.type})`,
+      details: [],
+    })),
+    ...diff.relations.changed.map((r) => ({
+      status: "changed" as const,
+      text: `Relación modificada: ${r.source} → ${r.target}`,
+      details: Object.entries(r.changes).map(([k, v]) => ({
+        status: "changed" as const,
+        text: `~ ${k}: ${v.from || "∅"} → ${v.to || "∅"}`,
+      })),
+    })),
+  ];
+
+  return (
+    <>
+      <div className="pointer-events-none absolute inset-0 z-30">
+        <div style={{ display: "none" }}>{transformTick}</div>
+        {boxes.map((b) => (
+          <div
+            key={b.key}
+            className={`absolute rounded-md border-2 ${BOX_STYLE[b.status]}`}
+            style={{
+              left: b.rect.x - 4,
+              top: b.rect.y - 4,
+              width: b.rect.width + 8,
+              height: b.rect.height + 8,
+            }}
+          >
+            {b.label && (
+              <span className="absolute -top-5 left-0 rounded bg-red-600 px-1.5 text-[11px] text-white line-through">
+                {b.label}
+              </span>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="absolute bottom-4 left-4 z-40 flex max-h-[45vh] w-96 max-w-[90vw] flex-col rounded-2xl border border-gray-200 bg-white shadow-xl">
+        <div className="flex items-center justify-between border-b border-gray-100 px-4 py-2">
+          <div className="flex items-center gap-2 text-sm font-semibold text-gray-800">
+            <GitCompare className="h-4 w-4 text-indigo-600" />
+            {title ?? "Cambios"}
+          </div>
+          <button
+            onClick={onClose}
+            className="rounded-lg p-1 text-gray-500 hover:bg-gray-100"
+            title="Cerrar comparación"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+        <div className="space-y-1.5 overflow-auto px-4 py-2 text-xs">
+          {rows.length === 0 ? (
+            <div className="text-gray-500">Sin cambios en el modelo</div>
+          ) : (
+            rows.map((r, i) => (
+              <div key={i}>
+                <div className={`font-medium ${TEXT_STYLE[r.status]}`}>
+                  {r.text}
+                </div>
+                {r.details.map((d, j) => (
+                  <div
+                    key={j}
+                    className={`ml-3 font-mono ${TEXT_STYLE[d.status]}`}
+                  >
+                    {d.text}
+                  </div>
+                ))}
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,432 @@
+// src/uml/ui/MembersPanel.tsx
+import { useEffect, useState } from "react";
+import { Crown, LogOut, Mail, Trash2, Users, X } from "lucide-react";
+import toast from "react-hot-toast";
+import { api, getErrorMessage } from "../../lib/api";
+
+type ProjectRole = "OWNER" | "ADMIN" | "EDITOR" | "VIEWER";
+
+export type ProjectMember = {
+  userId: string;
+  name: string;
+  email: string;
+  role: ProjectRole;
+  joinedAt: string;
+};
+
+export type ProjectInvitation = {
+  id: string;
+  email: string;
+  role: ProjectRole;
+  createdAt: string;
+  expiresAt: string;
+};
+
+type OwnershipTransfer = {
+  id: string;
+  fromUserId: string;
+  toUserId: string;
+  toUserName: string;
+  fromUserName: string;
+};
+
+type Props = {
+  projectId: string;
+  open: boolean;
+  myUserId: string | null;
+  myRole: ProjectRole | null;
+  /** Cambia cuando llega un memberUpdated: recarga la lista */
+  refreshKey?: number;
+  onClose: () => void;
+  /** El usuario actual salió del proyecto */
+  onLeft?: () => void;
+};
+
+const ROLE_LABEL: Record<ProjectRole, string> = {
+  OWNER: "Owner",
+  ADMIN: "Admin",
+  EDITOR: "Editor",
+  VIEWER: "Lector",
+};
+
+const ASSIGNABLE: ProjectRole[] = ["VIEWER", "EDITOR", "ADMIN"];
+
+export default function MembersPanel({
+  projectId,
+  open,
+  myUserId,
+  myRole,
+  refreshKey,
+  onClose,
+  onLeft,
+}: Props) {
+  const [members, setMembers] = useState<ProjectMember[] | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [invitations, setInvitations] = useState<ProjectInvitation[]>([]);
+  const [inviteEmail, setInviteEmail] = useState("");
+  const [inviteRole, setInviteRole] = useState<ProjectRole>("EDITOR");
+  const [inviting, setInviting] = useState(false);
+  const [transfer, setTransfer] = useState<OwnershipTransfer | null>(null);
+  const canManage = myRole === "OWNER" || myRole === "ADMIN";
+
+  const load = async () => {
+    try {
+      const { data } = await api.get<ProjectMember[]>(
+        `/projects/${projectId}/members`
+      );
+      setMembers(data);
+    } catch (e) {
+      toast.error(getErrorMessage(e));
+      setMembers([]);
+    }
+  };
+
+  const loadInvitations = async () => {
+    try {
+      const { data } = await api.get<ProjectInvitation[]>(
+        `/projects/${projectId}/invitations`
+      );
+      setInvitations(data);
+    } catch {
+      setInvitations([]);
+    }
+  };
+
+  const loadTransfer = async () => {
+    try {
+      const { data } = await api.get<OwnershipTransfer | null>(
+        `/projects/${projectId}/transfer`
+      );
+      setTransfer(data || null);
+    } catch {
+      setTransfer(null);
+    }
+  };
+
+  useEffect(() => {
+    if (!open) return;
+    load();
+    loadTransfer();
+    if (canManage) loadInvitations();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open, projectId, refreshKey, canManage]);
+
+  const invite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const email = inviteEmail.trim();
+    if (!email) return;
+    setInviting(true);
+    try {
+      await api.post(`/projects/${projectId}/invitations`, {
+        email,
+        role: inviteRole,
+      });
+      toast.success(`Invitación enviada a ${email}`);
+      setInviteEmail("");
+      loadInvitations();
+    } catch (e) {
+      toast.error(getErrorMessage(e));
+    } finally {
+      setInviting(false);
+    }
+  };
+
+  const offerOwnership = async (m: ProjectMember) => {
+    const ok = window.confirm(
+      `¿Transferir la propiedad del proyecto a ${m.name || m.email}? ` +
+        "Cuando acepte, vas a quedar con su rol actual."
+    );
+    if (!ok) return;
+    setBusyId(m.userId);
+    try {
+      const { data } = await api.post<OwnershipTransfer>(
+        `/projects/${projectId}/transfer`,
+        { userId: m.userId }
+      );
+      setTransfer(data);
+      toast.success(`Se le ofreció la propiedad a ${m.name || m.email}`);
+    } catch (e) {
+      toast.error(getErrorMessage(e));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const resolveTransfer = async (action: "accept" | "decline" | "cancel") => {
+    if (!transfer) return;
+    setBusyId(transfer.id);
+    try {
+      if (action === "cancel") {
+        await api.delete(`/projects/${projectId}/transfer`);
+      } else {
+        await api.post(
+          `/projects/${projectId}/transfer/${transfer.id}/${action}`
+        );
+      }
+      setTransfer(null);
+      if (action === "accept") load();
+    } catch (e) {
+      toast.error(getErrorMessage(e));
+      loadTransfer();
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const cancelInvitation = async (inv: ProjectInvitation) => {
+    setBusyId(inv.id);
+    try {
+      await api.delete(`/projects/${projectId}/invitations/${inv.id}`);
+      setInvitations((prev) => prev.filter((x) => x.id !== inv.id));
+    } catch (e) {
+      toast.error(getErrorMessage(e));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const changeRole = async (m: ProjectMember, role: ProjectRole) => {
+    if (role === m.role) return;
+    setBusyId(m.userId);
+    try {
+      await api.patch(`/projects/${projectId}/members/${m.userId}`, { role });
+      setMembers((prev) =>
+        (prev ?? []).map((x) => (x.userId === m.userId ? { ...x, role } : x))
+      );
+      toast.success(`${m.name || m.email} ahora es ${ROLE_LABEL[role]}`);
+    } catch (e) {
+      toast.error(getErrorMessage(e));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const remove = async (m: ProjectMember) => {
+    const self = m.userId === myUserId;
+    const ok = window.confirm(
+      self
+        ? "¿Salir de este proyecto? Vas a perder el acceso."
+        : `¿Quitar a ${m.name || m.email} del proyecto?`
+    );
+    if (!ok) return;
+    setBusyId(m.userId);
+    try {
+      await api.delete(`/projects/${projectId}/members/${m.userId}`);
+      if (self) {
+        onLeft?.();
+        return;
+      }
+      setMembers((prev) => (prev ?? []).filter((x) => x.userId !== m.userId));
+    } catch (e) {
+      toast.error(getErrorMessage(e));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (!open) return null;
+  return (
+    <div className="fixed right-0 top-0 z-[70] flex h-full w-96 max-w-[90vw] flex-col border-l border-gray-200 bg-white shadow-xl">
+      <div className="flex items-center justify-between border-b border-gray-100 px-4 py-3">
+        <div className="flex items-center gap-2 font-semibold text-gray-800">
+          <Users className="h-5 w-5 text-indigo-600" />
+          Miembros
+        </div>
+        <button
+          onClick={onClose}
+          className="rounded-lg p-1 text-gray-500 hover:bg-gray-100"
+          title="Cerrar"
+        >
+          <X className="h-5 w-5" />
+        </button>
+      </div>
+
+      {canManage && (
+        <form
+          onSubmit={invite}
+          className="space-y-2 border-b border-gray-100 px-4 py-3"
+        >
+          <div className="flex gap-2">
+            <input
+              type="email"
+              value={inviteEmail}
+              onChange={(e) => setInviteEmail(e.target.value)}
+              placeholder="Invitar por email"
+              className="min-w-0 flex-1 rounded-lg border border-gray-200 px-2 py-1.5 text-sm outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+            <select
+              value={inviteRole}
+              onChange={(e) => setInviteRole(e.target.value as ProjectRole)}
+              className="rounded-lg border border-gray-200 px-2 py-1 text-xs outline-none focus:ring-2 focus:ring-indigo-500"
+            >
+              {ASSIGNABLE.map((r) => (
+                <option key={r} value={r}>
+                  {ROLE_LABEL[r]}
+                </option>
+              ))}
+            </select>
+          </div>
+          <button
+            type="submit"
+            disabled={inviting || !inviteEmail.trim()}
+            className="flex w-full items-center justify-center gap-2 rounded-lg bg-indigo-600 px-3 py-1.5 text-sm font-medium text-white hover:bg-indigo-700 disabled:opacity-60"
+          >
+            <Mail className="h-4 w-4" />
+            {inviting ? "Enviando…" : "Enviar invitación"}
+          </button>
+        </form>
+      )}
+
+      <div className="flex-1 space-y-2 overflow-auto px-4 py-3">
+        {transfer &&
+          (transfer.fromUserId === myUserId ||
+            transfer.toUserId === myUserId) && (
+            <div className="space-y-2 rounded-xl border border-amber-200 bg-amber-50 p-3 text-sm text-amber-900">
+              <div className="flex items-center gap-2">
+                <Crown className="h-4 w-4 shrink-0" />
+                {transfer.toUserId === myUserId
+                  ? `${transfer.fromUserName} te ofrece la propiedad del proyecto`
+                  : `Propiedad ofrecida a ${transfer.toUserName}`}
+              </div>
+              <div className="flex justify-end gap-2">
+                {transfer.toUserId === myUserId ? (
+                  <>
+                    <button
+                      onClick={() => resolveTransfer("decline")}
+                      disabled={busyId === transfer.id}
+                      className="rounded-lg px-2 py-1 text-xs hover:bg-amber-100 disabled:opacity-60"
+                    >
+                      Rechazar
+                    </button>
+                    <button
+                      onClick={() => resolveTransfer("accept")}
+                      disabled={busyId === transfer.id}
+                      className="rounded-lg bg-amber-600 px-2 py-1 text-xs font-medium text-white hover:bg-amber-700 disabled:opacity-60"
+                    >
+                      Aceptar
+                    </button>
+                  </>
+                ) : (
+                  <button
+                    onClick={() => resolveTransfer("cancel")}
+                    disabled={busyId === transfer.id}
+                    className="rounded-lg px-2 py-1 text-xs hover:bg-amber-100 disabled:opacity-60"
+                  >
+                    Cancelar
+                  </button>
+                )}
+              </div>
+            </div>
+          )}
+        {canManage && invitations.length > 0 && (
+          <div className="space-y-1 pb-2">
+            <div className="text-xs font-medium uppercase tracking-wide text-gray-400">
+              Invitaciones pendientes
+            </div>
+            {invitations.map((inv) => (
+              <div
+                key={inv.id}
+                className="flex items-center justify-between gap-2 rounded-xl border border-dashed border-gray-200 px-3 py-2"
+              >
+                <div className="min-w-0">
+                  <div className="truncate text-sm text-gray-700">
+                    {inv.email}
+                  </div>
+                  <div className="text-xs text-gray-400">
+                    {ROLE_LABEL[inv.role]} · vence{" "}
+                    {new Date(inv.expiresAt).toLocaleDateString()}
+                  </div>
+                </div>
+                <button
+                  onClick={() => cancelInvitation(inv)}
+                  disabled={busyId === inv.id}
+                  title="Cancelar invitación"
+                  className="rounded-lg p-1.5 text-red-600 hover:bg-red-50 disabled:opacity-60"
+                >
+                  <X className="h-4 w-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+        {members === null ? (
+          <div className="text-sm text-gray-500">Cargando…</div>
+        ) : (
+          members.map((m) => {
+            const self = m.userId === myUserId;
+            const isOwner = m.role === "OWNER";
+            const editable = canManage && !isOwner && !self;
+            return (
+              <div
+                key={m.userId}
+                className="flex items-center justify-between gap-2 rounded-xl border border-gray-100 p-3"
+              >
+                <div className="min-w-0">
+                  <div className="truncate text-sm font-medium text-gray-800">
+                    {m.name || m.email}
+                    {self && <span className="ml-1 text-gray-400">(vos)</span>}
+                  </div>
+                  <div className="truncate text-xs text-gray-500">
+                    {m.email}
+                  </div>
+                </div>
+                <div className="flex shrink-0 items-center gap-1">
+                  {editable ? (
+                    <select
+                      value={m.role}
+                      disabled={busyId === m.userId}
+                      onChange={(e) =>
+                        changeRole(m, e.target.value as ProjectRole)
+                      }
+                      className="rounded-lg border border-gray-200 px-2 py-1 text-xs outline-none focus:ring-2 focus:ring-indigo-500"
+                    >
+                      {ASSIGNABLE.map((r) => (
+                        <option key={r} value={r}>
+                          {ROLE_LABEL[r]}
+                        </option>
+                      ))}
+                    </select>
+                  ) : (
+                    <span className="rounded-full bg-gray-100 px-2 py-0.5 text-[11px] font-medium text-gray-700">
+                      {ROLE_LABEL[m.role]}
+                    </span>
+                  )}
+                  {myRole === "OWNER" && !isOwner && !self && (
+                    <button
+                      onClick={() => offerOwnership(m)}
+                      disabled={busyId === m.userId}
+                      title="Transferir propiedad"
+                      className="rounded-lg p-1.5 text-amber-600 hover:bg-amber-50 disabled:opacity-60"
+                    >
+                      <Crown className="h-4 w-4" />
+                    </button>
+                  )}
+                  {editable && (
+                    <button
+                      onClick={() => remove(m)}
+                      disabled={busyId === m.userId}
+                      title="Quitar del proyecto"
+                      className="rounded-lg p-1.5 text-red-600 hover:bg-red-50 disabled:opacity-60"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  )}
+                  {self && !isOwner && (
+                    <button
+                      onClick={() => remove(m)}
+                      disabled={busyId === m.userId}
+                      title="Salir del proyecto"
+                      className="rounded-lg p-1.5 text-gray-600 hover:bg-gray-100 disabled:opacity-60"
+                    >
+                      <LogOut className="h-4 w-4" />
+                    </button>
+                  )}
+                </div>
+              </div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,221 @@
+// src/uml/ui/MergeForkDialog.tsx
+import { useEffect, useState } from "react";
+import { GitMerge, X } from "lucide-react";
+import toast from "react-hot-toast";
+import { api, getErrorMessage } from "../../lib/api";
+
+type MergeSide = "upstream" | "fork";
+
+export type MergeConflict = {
+  id: string;
+  kind: "class" | "name" | "attribute" | "method" | "relation";
+  cellId: string;
+  label: string;
+  reason: "both-modified" | "deleted-upstream" | "deleted-in-fork";
+  base: string | null;
+  upstream: string | null;
+  fork: string | null;
+};
+
+type MergePreview = {
+  upstreamId: string;
+  applied: boolean;
+  conflicts: MergeConflict[];
+  resolved: number;
+  summary: string[];
+};
+
+type Props = {
+  forkId: string;
+  upstreamName: string;
+  open: boolean;
+  onClose: () => void;
+  onMerged?: (upstreamId: string) => void;
+};
+
+const KIND_LABEL: Record<MergeConflict["kind"], string> = {
+  class: "Clase",
+  name: "Nombre de clase",
+  attribute: "Atributo",
+  method: "Método",
+  relation: "Relación",
+};
+
+const REASON_LABEL: Record<MergeConflict["reason"], string> = {
+  "both-modified": "modificado en ambos",
+  "deleted-upstream": "eliminado en el original",
+  "deleted-in-fork": "eliminado en el fork",
+};
+
+export default function MergeForkDialog({
+  forkId,
+  upstreamName,
+  open,
+  onClose,
+  onMerged,
+}: Props) {
+  const [preview, setPreview] = useState<MergePreview | null>(null);
+  const [conflicts, setConflicts] = useState<MergeConflict[]>([]);
+  const [resolutions, setResolutions] = useState<Record<string, MergeSide>>({});
+  const [applying, setApplying] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setPreview(null);
+    setResolutions({});
+    (async () => {
+      try {
+        const { data } = await api.post<MergePreview>(
+          `/projects/${forkId}/merge`,
+          { dryRun: true }
+        );
+        setPreview(data);
+        setConflicts(data.conflicts);
+      } catch (e) {
+        toast.error(getErrorMessage(e));
+        onClose();
+      }
+    })();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open, forkId]);
+
+  const pending = conflicts.filter((c) => !resolutions[c.id]).length;
+
+  const apply = async () => {
+    if (applying || pending) return;
+    setApplying(true);
+    try {
+      const { data } = await api.post<MergePreview>(
+        `/projects/${forkId}/merge`,
+        { resolutions }
+      );
+      toast.success(`Cambios fusionados en "${upstreamName}"`);
+      onMerged?.(data.upstreamId);
+      onClose();
+    } catch (e) {
+      toast.error(getErrorMessage(e));
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  if (!open) return null;
+  return (
+    <div className="fixed inset-0 z-[80] flex items-center justify-center bg-black/30 p-4">
+      <div className="flex max-h-[85vh] w-full max-w-2xl flex-col rounded-2xl bg-white shadow-2xl">
+        <div className="flex items-center justify-between border-b border-gray-100 px-5 py-3">
+          <div className="flex items-center gap-2 font-semibold text-gray-800">
+            <GitMerge className="h-5 w-5 text-indigo-600" />
+            Fusionar con “{upstreamName}”
+          </div>
+          <button
+            onClick={onClose}
+            className="rounded-lg p-1 text-gray-500 hover:bg-gray-100"
+            title="Cerrar"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 space-y-4 overflow-auto px-5 py-4 text-sm">
+          {preview === null ? (
+            <div className="text-gray-500">Calculando fusión…</div>
+          ) : (
+            <>
+              <section>
+                <h4 className="mb-1 font-medium text-gray-800">
+                  Cambios del fork que se aplicarán
+                </h4>
+                {preview.summary.length === 0 ? (
+                  <div className="text-gray-500">
+                    No hay cambios sin conflicto
+                  </div>
+                ) : (
+                  <ul className="list-inside list-disc space-y-0.5 text-gray-700">
+                    {preview.summary.map((s, i) => (
+                      <li key={i}>{s}</li>
+                    ))}
+                  </ul>
+                )}
+              </section>
+
+              {conflicts.length > 0 && (
+                <section>
+                  <h4 className="mb-2 font-medium text-gray-800">
+                    Conflictos ({conflicts.length - pending}/{conflicts.length}{" "}
+                    resueltos)
+                  </h4>
+                  <div className="space-y-2">
+                    {conflicts.map((c) => (
+                      <div
+                        key={c.id}
+                        className="rounded-xl border border-amber-200 bg-amber-50/40 p-3"
+                      >
+                        <div className="mb-2 text-xs text-gray-600">
+                          <span className="font-medium text-gray-800">
+                            {KIND_LABEL[c.kind]}
+                          </span>{" "}
+                          en {c.label} · {REASON_LABEL[c.reason]}
+                          {c.base && (
+                            <span className="ml-1 font-mono text-gray-400">
+                              (antes: {c.base})
+                            </span>
+                          )}
+                        </div>
+                        <div className="grid grid-cols-2 gap-2">
+                          {(["upstream", "fork"] as const).map((side) => (
+                            <button
+                              key={side}
+                              onClick={() =>
+                                setResolutions((r) => ({
+                                  ...r,
+                                  [c.id]: side,
+                                }))
+                              }
+                              className={`rounded-lg border px-2 py-1.5 text-left text-xs ${
+                                resolutions[c.id] === side
+                                  ? "border-indigo-500 bg-indigo-50"
+                                  : "border-gray-200 bg-white hover:bg-gray-50"
+                              }`}
+                            >
+                              <div className="mb-0.5 font-medium text-gray-700">
+                                {side === "upstream" ? "Original" : "Fork"}
+                              </div>
+                              <div className="break-words font-mono text-gray-600">
+                                {c[side] ?? "(eliminado)"}
+                              </div>
+                            </button>
+                          ))}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </section>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="flex items-center justify-end gap-2 border-t border-gray-100 px-5 py-3">
+          <button
+            onClick={onClose}
+            className="rounded-xl px-3 py-1.5 text-sm text-gray-600 hover:bg-gray-100"
+          >
+            Cancelar
+          </button>
+          <button
+            onClick={apply}
+            disabled={preview === null || pending > 0 || applying}
+            className="rounded-xl bg-indigo-600 px-3 py-1.5 text-sm font-medium text-white hover:bg-indigo-700 disabled:opacity-60"
+          >
+            {applying
+              ? "Fusionando…"
+              : pending > 0
+                ? `Resolvé ${pending} conflicto(s)`
+                : "Aplicar fusión"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
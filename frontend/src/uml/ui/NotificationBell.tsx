@@ -0,0 +1,261 @@
+// src/uml/ui/NotificationBell.tsx
+import { useEffect, useRef, useState, type ReactNode } from "react";
+import { useNavigate } from "react-router-dom";
+import type { Socket } from "socket.io-client";
+import { Bell, CheckCheck } from "lucide-react";
+import toast from "react-hot-toast";
+import { api, getErrorMessage } from "../../lib/api";
+
+export type NotificationType =
+  | "EDIT_REQUEST"
+  | "EDIT_REQUEST_APPROVED"
+  | "EDIT_REQUEST_REJECTED"
+  | "INVITATION";
+
+type NotificationData = {
+  requestId?: string;
+  requestIds?: string[];
+  message?: string | null;
+  reason?: string | null;
+  role?: string;
+  invitationId?: string;
+};
+
+export type AppNotification = {
+  id: string;
+  type: NotificationType;
+  data: NotificationData | null;
+  readAt: string | null;
+  createdAt: string;
+  project: { id: string; name: string } | null;
+  actor: { id: string; name: string; email: string } | null;
+};
+
+type NotificationPage = {
+  items: AppNotification[];
+  nextCursor: string | null;
+  unreadCount: number;
+};
+
+type Props = {
+  /** Socket ya conectado (Dashboard o Editor); escucha `notification` */
+  socket: Socket | null;
+  /** Sección extra arriba del listado (p. ej. solicitudes a resolver) */
+  children?: ReactNode;
+  /** Se suma al contador del botón (lo pendiente de `children`) */
+  extraCount?: number;
+  buttonClassName?: string;
+};
+
+const ROLE_LABEL: Record<string, string> = {
+  OWNER: "Owner",
+  ADMIN: "Admin",
+  EDITOR: "Editor",
+  VIEWER: "Lector",
+};
+
+function describe(n: AppNotification): string {
+  const who = n.actor?.name || n.actor?.email || "Alguien";
+  const project = `"${n.project?.name ?? "un proyecto"}"`;
+  const role = ROLE_LABEL[n.data?.role ?? ""] ?? n.data?.role;
+  switch (n.type) {
+    case "EDIT_REQUEST":
+      return `${who} pidió acceso de edición a ${project}`;
+    case "EDIT_REQUEST_APPROVED":
+      return `${who} aprobó tu solicitud en ${project} (${role})`;
+    case "EDIT_REQUEST_REJECTED":
+      return `Rechazaron tu solicitud en ${project}`;
+    case "INVITATION":
+      return `${who} te invitó a ${project} como ${role}. Revisa tu correo para aceptar.`;
+    default:
+      return n.type;
+  }
+}
+
+/** Texto secundario: mensaje de la solicitud o motivo del rechazo */
+const detail = (n: AppNotification) =>
+  n.type === "EDIT_REQUEST"
+    ? n.data?.message
+    : n.type === "EDIT_REQUEST_REJECTED"
+      ? n.data?.reason
+      : null;
+
+export default function NotificationBell({
+  socket,
+  children,
+  extraCount = 0,
+  buttonClassName = "rounded-xl border border-gray-200 bg-white p-2 text-gray-700 hover:bg-gray-50",
+}: Props) {
+  const navigate = useNavigate();
+  const [open, setOpen] = useState(false);
+  const [items, setItems] = useState<AppNotification[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [unread, setUnread] = useState(0);
+  const ref = useRef<HTMLDivElement | null>(null);
+
+  const load = async (cursor?: string) => {
+    try {
+      const { data } = await api.get<NotificationPage>("/notifications", {
+        params: { cursor },
+      });
+      setItems((prev) => (cursor ? [...prev, ...data.items] : data.items));
+      setNextCursor(data.nextCursor);
+      setUnread(data.unreadCount);
+    } catch (e) {
+      if (cursor) toast.error(getErrorMessage(e));
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  // Entrega en vivo (sala user:<id>)
+  useEffect(() => {
+    if (!socket) return;
+    const onNotification = (n: AppNotification) => {
+      setItems((prev) =>
+        prev.some((x) => x.id === n.id) ? prev : [n, ...prev]
+      );
+      setUnread((c) => c + 1);
+    };
+    socket.on("notification", onNotification);
+    return () => {
+      socket.off("notification", onNotification);
+    };
+  }, [socket]);
+
+  // Click fuera para cerrar
+  useEffect(() => {
+    const onDocClick = (e: MouseEvent) => {
+      if (ref.current && !ref.current.contains(e.target as Node)) {
+        setOpen(false);
+      }
+    };
+    document.addEventListener("mousedown", onDocClick);
+    return () => document.removeEventListener("mousedown", onDocClick);
+  }, []);
+
+  const markRead = async (n: AppNotification) => {
+    if (n.readAt) return;
+    const readAt = new Date().toISOString();
+    setItems((prev) => prev.map((x) => (x.id === n.id ? { ...x, readAt } : x)));
+    try {
+      const { data } = await api.post<{ unreadCount: number }>(
+        `/notifications/${n.id}/read`
+      );
+      setUnread(data.unreadCount);
+    } catch (e) {
+      toast.error(getErrorMessage(e));
+    }
+  };
+
+  const markAllRead = async () => {
+    try {
+      await api.post("/notifications/read-all");
+      const readAt = new Date().toISOString();
+      setItems((prev) =>
+        prev.map((x) => ({ ...x, readAt: x.readAt ?? readAt }))
+      );
+      setUnread(0);
+    } catch (e) {
+      toast.error(getErrorMessage(e));
+    }
+  };
+
+  const openNotification = (n: AppNotification) => {
+    markRead(n);
+    // La invitación se acepta desde el link del mail (todavía no es miembro)
+    if (n.project && n.type !== "INVITATION") {
+      setOpen(false);
+      navigate(`/app/projects/${n.project.id}`);
+    }
+  };
+
+  const badge = unread + extraCount;
+
+  return (
+    <div className="relative" ref={ref}>
+      <button
+        onClick={() => setOpen((v) => !v)}
+        className={`relative ${buttonClassName}`}
+        title="Notificaciones"
+      >
+        <Bell className="h-5 w-5" />
+        {badge > 0 && (
+          <span className="absolute -right-1 -top-1 inline-flex h-5 min-w-[20px] items-center justify-center rounded-full bg-red-600 px-1 text-xs font-semibold text-white">
+            {badge > 99 ? "99+" : badge}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 z-50 mt-2 max-h-[80vh] w-96 max-w-[90vw] overflow-auto rounded-2xl border border-gray-200 bg-white p-3 text-left shadow-xl">
+          {children}
+
+          <div className="mb-2 flex items-center justify-between">
+            <div className="text-sm font-semibold text-gray-700">
+              Notificaciones
+            </div>
+            {unread > 0 && (
+              <button
+                onClick={markAllRead}
+                className="inline-flex items-center gap-1 text-xs text-gray-500 hover:text-gray-700"
+              >
+                <CheckCheck className="h-3.5 w-3.5" /> Marcar todo como leído
+              </button>
+            )}
+          </div>
+
+          {items.length === 0 ? (
+            <div className="rounded-xl bg-gray-50 p-3 text-sm text-gray-500">
+              No tienes notificaciones
+            </div>
+          ) : (
+            <div className="space-y-1">
+              {items.map((n) => {
+                const extra = detail(n);
+                return (
+                  <button
+                    key={n.id}
+                    onClick={() => openNotification(n)}
+                    className={`w-full rounded-xl p-2.5 text-left hover:bg-gray-50 ${
+                      n.readAt ? "" : "bg-indigo-50/60"
+                    }`}
+                  >
+                    <div className="flex items-start gap-2">
+                      {!n.readAt && (
+                        <span className="mt-1.5 h-2 w-2 shrink-0 rounded-full bg-indigo-600" />
+                      )}
+                      <div className="min-w-0">
+                        <div className="text-sm text-gray-800">
+                          {describe(n)}
+                        </div>
+                        {extra && (
+                          <div className="mt-0.5 truncate text-xs italic text-gray-500">
+                            “{extra}”
+                          </div>
+                        )}
+                        <div className="mt-0.5 text-[11px] text-gray-400">
+                          {new Date(n.createdAt).toLocaleString()}
+                        </div>
+                      </div>
+                    </div>
+                  </button>
+                );
+              })}
+              {nextCursor && (
+                <button
+                  onClick={() => load(nextCursor)}
+                  className="mt-1 w-full rounded-xl border border-gray-200 px-3 py-1.5 text-sm text-gray-700 hover:bg-gray-50"
+                >
+                  Cargar más
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
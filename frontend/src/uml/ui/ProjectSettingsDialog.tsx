@@ -0,0 +1,259 @@
+// src/uml/ui/ProjectSettingsDialog.tsx
+import { useEffect, useState } from "react";
+import { Settings, X } from "lucide-react";
+import toast from "react-hot-toast";
+import { api, getErrorMessage } from "../../lib/api";
+import type { ProjectSettings } from "../codegen/projectSettings";
+
+export type ProjectMeta = {
+  name: string;
+  description: string | null;
+  settings: ProjectSettings;
+};
+
+type Props = {
+  projectId: string;
+  open: boolean;
+  project: ProjectMeta;
+  onClose: () => void;
+  onSaved: (project: ProjectMeta) => void;
+};
+
+const DATABASE_LABEL: Record<ProjectSettings["database"], string> = {
+  POSTGRESQL: "PostgreSQL",
+  MYSQL: "MySQL",
+  H2: "H2 (en memoria)",
+};
+
+const JAVA_VERSIONS = ["17", "21"];
+
+const inputCls =
+  "w-full rounded-lg border border-gray-200 px-2 py-1.5 outline-none focus:ring-2 focus:ring-indigo-500";
+
+/** Campo de texto de settings con su etiqueta */
+function Field({
+  label,
+  value,
+  onChange,
+  placeholder,
+}: {
+  label: string;
+  value: string;
+  onChange: (v: string) => void;
+  placeholder?: string;
+}) {
+  return (
+    <label className="block space-y-1">
+      <span className="text-xs text-gray-500">{label}</span>
+      <input
+        value={value}
+        placeholder={placeholder}
+        onChange={(e) => onChange(e.target.value)}
+        className={inputCls}
+      />
+    </label>
+  );
+}
+
+export default function ProjectSettingsDialog({
+  projectId,
+  open,
+  project,
+  onClose,
+  onSaved,
+}: Props) {
+  const [name, setName] = useState(project.name);
+  const [description, setDescription] = useState(project.description ?? "");
+  const [settings, setSettings] = useState(project.settings);
+  const [saving, setSaving] = useState(false);
+
+  // Cada apertura parte de lo guardado
+  useEffect(() => {
+    if (!open) return;
+    setName(project.name);
+    setDescription(project.description ?? "");
+    setSettings(project.settings);
+  }, [open, project]);
+
+  if (!open) return null;
+
+  const set =
+    <K extends keyof ProjectSettings>(key: K) =>
+    (value: ProjectSettings[K]) =>
+      setSettings((s) => ({ ...s, [key]: value }));
+
+  const save = async () => {
+    // Solo viaja lo que cambió (la actividad registra esos campos)
+    const changedSettings = Object.fromEntries(
+      Object.entries(settings)
+        .map(([k, v]) => [k, typeof v === "string" ? v.trim() : v])
+        .filter(([k, v]) => v !== project.settings[k as keyof ProjectSettings])
+    );
+    const body = {
+      ...(name.trim() !== project.name && { name: name.trim() }),
+      ...(description.trim() !== (project.description ?? "") && {
+        description: description.trim() || null,
+      }),
+      ...(Object.keys(changedSettings).length && {
+        settings: changedSettings,
+      }),
+    };
+    if (!Object.keys(body).length) return onClose();
+
+    setSaving(true);
+    try {
+      const { data } = await api.patch<ProjectMeta>(
+        `/projects/${projectId}`,
+        body
+      );
+      toast.success("Proyecto actualizado");
+      onSaved(data);
+      onClose();
+    } catch (e) {
+      toast.error(getErrorMessage(e));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[80] flex items-center justify-center bg-black/30 p-4">
+      <div className="flex max-h-[85vh] w-full max-w-2xl flex-col rounded-2xl bg-white shadow-2xl">
+        <div className="flex items-center justify-between border-b border-gray-100 px-5 py-3">
+          <div className="flex items-center gap-2 font-semibold text-gray-800">
+            <Settings className="h-5 w-5 text-indigo-600" />
+            Configuración del proyecto
+          </div>
+          <button
+            onClick={onClose}
+            className="rounded-lg p-1 text-gray-500 hover:bg-gray-100"
+            title="Cerrar"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="space-y-5 overflow-auto p-5 text-sm">
+          <section className="space-y-3">
+            <label className="block space-y-1">
+              <span className="text-xs text-gray-500">Nombre</span>
+              <input
+                value={name}
+                maxLength={120}
+                onChange={(e) => setName(e.target.value)}
+                className={inputCls}
+              />
+            </label>
+            <label className="block space-y-1">
+              <span className="text-xs text-gray-500">Descripción</span>
+              <textarea
+                value={description}
+                rows={2}
+                onChange={(e) => setDescription(e.target.value)}
+                className={inputCls}
+              />
+            </label>
+          </section>
+
+          <section className="space-y-3">
+            <h4 className="font-semibold text-gray-700">Spring Boot</h4>
+            <div className="grid grid-cols-1 gap-3 md:grid-cols-2">
+              <Field
+                label="Paquete base"
+                value={settings.javaPackage}
+                onChange={set("javaPackage")}
+                placeholder="com.example"
+              />
+              <Field
+                label="groupId"
+                value={settings.groupId}
+                onChange={set("groupId")}
+              />
+              <Field
+                label="artifactId"
+                value={settings.artifactId}
+                onChange={set("artifactId")}
+              />
+              <Field
+                label="Versión de Spring Boot"
+                value={settings.springBootVersion}
+                onChange={set("springBootVersion")}
+                placeholder="3.2.0"
+              />
+              <label className="block space-y-1">
+                <span className="text-xs text-gray-500">Versión de Java</span>
+                <select
+                  value={settings.javaVersion}
+                  onChange={(e) => set("javaVersion")(e.target.value)}
+                  className={inputCls}
+                >
+                  {JAVA_VERSIONS.map((v) => (
+                    <option key={v} value={v}>
+                      Java {v}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="block space-y-1">
+                <span className="text-xs text-gray-500">Base de datos</span>
+                <select
+                  value={settings.database}
+                  onChange={(e) =>
+                    set("database")(
+                      e.target.value as ProjectSettings["database"]
+                    )
+                  }
+                  className={inputCls}
+                >
+                  {Object.entries(DATABASE_LABEL).map(([v, label]) => (
+                    <option key={v} value={v}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+          </section>
+
+          <section className="space-y-3">
+            <h4 className="font-semibold text-gray-700">Flutter</h4>
+            <div className="grid grid-cols-1 gap-3 md:grid-cols-2">
+              <Field
+                label="Nombre de la app"
+                value={settings.flutterAppName}
+                onChange={set("flutterAppName")}
+              />
+              <Field
+                label="Paquete"
+                value={settings.flutterPackage}
+                onChange={set("flutterPackage")}
+              />
+            </div>
+            <Field
+              label="URL del backend"
+              value={settings.apiBaseUrl}
+              onChange={set("apiBaseUrl")}
+              placeholder="http://10.0.2.2:8080"
+            />
+          </section>
+        </div>
+
+        <div className="flex justify-end gap-2 border-t border-gray-100 px-5 py-3">
+          <button
+            onClick={onClose}
+            className="rounded-xl border border-gray-200 px-3 py-1.5 text-sm text-gray-700 hover:bg-gray-50"
+          >
+            Cancelar
+          </button>
+          <button
+            onClick={save}
+            disabled={saving || !name.trim()}
+            className="rounded-xl bg-indigo-600 px-3 py-1.5 text-sm text-white hover:bg-indigo-700 disabled:opacity-60"
+          >
+            {saving ? "Guardando…" : "Guardar"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
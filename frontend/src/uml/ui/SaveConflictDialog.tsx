@@ -0,0 +1,76 @@
+// src/uml/ui/SaveConflictDialog.tsx
+import { AlertTriangle } from "lucide-react";
+
+type Counts = { nodes: number; edges: number };
+
+type Props = {
+  open: boolean;
+  /** Lo que hay en el servidor y lo que tengo en el lienzo */
+  server: Counts;
+  local: Counts;
+  busy?: boolean;
+  onUseServer: () => void;
+  onKeepMine: () => void;
+};
+
+const describe = ({ nodes, edges }: Counts) =>
+  `${nodes} ${nodes === 1 ? "elemento" : "elementos"} · ${edges} ${
+    edges === 1 ? "relación" : "relaciones"
+  }`;
+
+/**
+ * El PUT del diagrama respondió 409: alguien guardó desde la última carga.
+ * No se pisa nada sin que el usuario elija.
+ */
+export default function SaveConflictDialog({
+  open,
+  server,
+  local,
+  busy = false,
+  onUseServer,
+  onKeepMine,
+}: Props) {
+  if (!open) return null;
+  return (
+    <div className="fixed inset-0 z-[80] flex items-center justify-center bg-black/30 p-4">
+      <div className="w-full max-w-md rounded-2xl bg-white shadow-2xl">
+        <div className="flex items-center gap-2 border-b border-gray-100 px-5 py-3 font-semibold text-gray-800">
+          <AlertTriangle className="h-5 w-5 text-amber-500" />
+          El diagrama cambió en el servidor
+        </div>
+        <div className="space-y-3 px-5 py-4 text-sm text-gray-700">
+          <p>
+            Alguien guardó cambios mientras editabas sin conexión en vivo. Tus
+            cambios todavía no se guardaron: elige con qué versión seguir.
+          </p>
+          <div className="grid grid-cols-2 gap-2 text-xs">
+            <div className="rounded-xl border border-gray-200 p-3">
+              <div className="font-medium text-gray-800">En el servidor</div>
+              <div className="mt-0.5 text-gray-500">{describe(server)}</div>
+            </div>
+            <div className="rounded-xl border border-indigo-200 bg-indigo-50/40 p-3">
+              <div className="font-medium text-gray-800">Tu versión</div>
+              <div className="mt-0.5 text-gray-500">{describe(local)}</div>
+            </div>
+          </div>
+        </div>
+        <div className="flex items-center justify-end gap-2 border-t border-gray-100 px-5 py-3">
+          <button
+            onClick={onUseServer}
+            disabled={busy}
+            className="rounded-xl border border-gray-200 px-3 py-1.5 text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-60"
+          >
+            Usar la del servidor
+          </button>
+          <button
+            onClick={onKeepMine}
+            disabled={busy}
+            className="rounded-xl bg-indigo-600 px-3 py-1.5 text-sm text-white hover:bg-indigo-700 disabled:opacity-60"
+          >
+            {busy ? "Guardando…" : "Sobrescribir con la mía"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,304 @@
+// src/uml/ui/ShareLinksDialog.tsx
+import { useEffect, useState } from "react";
+import { Copy, Link2, Lock, Share2, X } from "lucide-react";
+import toast from "react-hot-toast";
+import { api, getErrorMessage } from "../../lib/api";
+
+type LinkRole = "VIEWER" | "EDITOR";
+type LinkStatus = "active" | "revoked" | "expired" | "exhausted";
+
+export type ShareLink = {
+  id: string;
+  name: string | null;
+  token: string;
+  role: LinkRole;
+  expiresAt: string | null;
+  maxUses: number | null;
+  accessCount: number;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+  hasPassword: boolean;
+  status: LinkStatus;
+};
+
+type Props = {
+  projectId: string;
+  open: boolean;
+  onClose: () => void;
+};
+
+const ROLE_LABEL: Record<LinkRole, string> = {
+  VIEWER: "Lector",
+  EDITOR: "Editor",
+};
+
+const STATUS_LABEL: Record<LinkStatus, string> = {
+  active: "Activo",
+  revoked: "Revocado",
+  expired: "Vencido",
+  exhausted: "Sin usos",
+};
+
+const EMPTY_FORM = {
+  name: "",
+  role: "VIEWER" as LinkRole,
+  expiresAt: "",
+  password: "",
+  maxUses: "",
+};
+
+const shareUrl = (projectId: string, token: string) =>
+  `${window.location.origin}/project/${projectId}?share=${token}`;
+
+const fmt = (iso: string | null) =>
+  iso ? new Date(iso).toLocaleString() : "—";
+
+export default function ShareLinksDialog({ projectId, open, onClose }: Props) {
+  const [links, setLinks] = useState<ShareLink[] | null>(null);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [creating, setCreating] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const load = async () => {
+    try {
+      const { data } = await api.get<ShareLink[]>(
+        `/projects/${projectId}/share`
+      );
+      setLinks(data);
+    } catch (e) {
+      toast.error(getErrorMessage(e));
+      setLinks([]);
+    }
+  };
+
+  useEffect(() => {
+    if (open) load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open, projectId]);
+
+  const copy = async (token: string) => {
+    const url = shareUrl(projectId, token);
+    try {
+      await navigator.clipboard.writeText(url);
+      toast.success("Enlace copiado al portapapeles 🔗");
+    } catch {
+      window.prompt("Copia el enlace:", url);
+    }
+  };
+
+  const create = async () => {
+    setCreating(true);
+    try {
+      const { data } = await api.post<ShareLink>(
+        `/projects/${projectId}/share`,
+        {
+          name: form.name.trim() || undefined,
+          role: form.role,
+          expiresAt: form.expiresAt
+            ? new Date(form.expiresAt).toISOString()
+            : undefined,
+          password: form.password || undefined,
+          maxUses: form.maxUses ? Number(form.maxUses) : undefined,
+        }
+      );
+      setLinks((prev) => [data, ...(prev ?? [])]);
+      setForm(EMPTY_FORM);
+      await copy(data.token);
+    } catch (e) {
+      toast.error(getErrorMessage(e));
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const revoke = async (link: ShareLink) => {
+    const ok = window.confirm(
+      `¿Revocar el link "${link.name || "sin nombre"}"? Quien lo tenga pierde el acceso.`
+    );
+    if (!ok) return;
+    setBusyId(link.id);
+    try {
+      const { data } = await api.post<ShareLink>(
+        `/projects/${projectId}/share/${link.id}/revoke`
+      );
+      setLinks((prev) =>
+        (prev ?? []).map((l) => (l.id === link.id ? data : l))
+      );
+    } catch (e) {
+      toast.error(getErrorMessage(e));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (!open) return null;
+  return (
+    <div className="fixed inset-0 z-[80] flex items-center justify-center bg-black/30 p-4">
+      <div className="flex max-h-[85vh] w-full max-w-2xl flex-col rounded-2xl bg-white shadow-2xl">
+        <div className="flex items-center justify-between border-b border-gray-100 px-5 py-3">
+          <div className="flex items-center gap-2 font-semibold text-gray-800">
+            <Share2 className="h-5 w-5 text-indigo-600" />
+            Compartir proyecto
+          </div>
+          <button
+            onClick={onClose}
+            className="rounded-lg p-1 text-gray-500 hover:bg-gray-100"
+            title="Cerrar"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 space-y-4 overflow-auto px-5 py-4 text-sm">
+          <section className="rounded-xl border border-gray-100 p-3">
+            <h4 className="mb-2 font-medium text-gray-800">Nuevo link</h4>
+            <div className="grid grid-cols-2 gap-2">
+              <input
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="Nombre (ej: Cliente)"
+                maxLength={80}
+                className="rounded-lg border border-gray-200 px-2 py-1.5 outline-none focus:ring-2 focus:ring-indigo-500"
+              />
+              <select
+                value={form.role}
+                onChange={(e) =>
+                  setForm({ ...form, role: e.target.value as LinkRole })
+                }
+                className="rounded-lg border border-gray-200 px-2 py-1.5 outline-none focus:ring-2 focus:ring-indigo-500"
+              >
+                {(Object.keys(ROLE_LABEL) as LinkRole[]).map((r) => (
+                  <option key={r} value={r}>
+                    {ROLE_LABEL[r]}
+                  </option>
+                ))}
+              </select>
+              <label className="text-xs text-gray-600">
+                Vence
+                <input
+                  type="datetime-local"
+                  value={form.expiresAt}
+                  onChange={(e) =>
+                    setForm({ ...form, expiresAt: e.target.value })
+                  }
+                  className="mt-0.5 w-full rounded-lg border border-gray-200 px-2 py-1.5 text-sm outline-none focus:ring-2 focus:ring-indigo-500"
+                />
+              </label>
+              <label className="text-xs text-gray-600">
+                Máximo de accesos
+                <input
+                  type="number"
+                  min={1}
+                  value={form.maxUses}
+                  onChange={(e) =>
+                    setForm({ ...form, maxUses: e.target.value })
+                  }
+                  placeholder="Sin límite"
+                  className="mt-0.5 w-full rounded-lg border border-gray-200 px-2 py-1.5 text-sm outline-none focus:ring-2 focus:ring-indigo-500"
+                />
+              </label>
+              <input
+                type="password"
+                value={form.password}
+                onChange={(e) => setForm({ ...form, password: e.target.value })}
+                placeholder="Contraseña (opcional)"
+                autoComplete="new-password"
+                className="rounded-lg border border-gray-200 px-2 py-1.5 outline-none focus:ring-2 focus:ring-indigo-500"
+              />
+              <button
+                onClick={create}
+                disabled={creating}
+                className="rounded-lg bg-indigo-600 px-3 py-1.5 font-medium text-white hover:bg-indigo-700 disabled:opacity-60"
+              >
+                {creating ? "Creando…" : "Crear y copiar"}
+              </button>
+            </div>
+            {form.role === "EDITOR" && (
+              <p className="mt-2 text-xs text-gray-500">
+                Para editar hay que iniciar sesión; sin cuenta el link abre en
+                modo lectura.
+              </p>
+            )}
+          </section>
+
+          <section>
+            <h4 className="mb-2 font-medium text-gray-800">Links</h4>
+            {links === null ? (
+              <div className="text-gray-500">Cargando…</div>
+            ) : links.length === 0 ? (
+              <div className="text-gray-500">Todavía no hay links</div>
+            ) : (
+              <div className="space-y-2">
+                {links.map((l) => {
+                  const active = l.status === "active";
+                  return (
+                    <div
+                      key={l.id}
+                      className={`flex items-center justify-between gap-2 rounded-xl border p-3 ${
+                        active
+                          ? "border-gray-100"
+                          : "border-gray-100 bg-gray-50 opacity-70"
+                      }`}
+                    >
+                      <div className="min-w-0">
+                        <div className="flex items-center gap-1.5 font-medium text-gray-800">
+                          <Link2 className="h-4 w-4 shrink-0 text-gray-400" />
+                          <span className="truncate">
+                            {l.name || "Sin nombre"}
+                          </span>
+                          {l.hasPassword && (
+                            <Lock
+                              className="h-3.5 w-3.5 text-gray-400"
+                              aria-label="Con contraseña"
+                            />
+                          )}
+                          <span className="rounded-full bg-gray-100 px-2 py-0.5 text-[11px] font-medium text-gray-700">
+                            {ROLE_LABEL[l.role]}
+                          </span>
+                          <span
+                            className={`rounded-full px-2 py-0.5 text-[11px] font-medium ${
+                              active
+                                ? "bg-green-100 text-green-700"
+                                : "bg-gray-200 text-gray-600"
+                            }`}
+                          >
+                            {STATUS_LABEL[l.status]}
+                          </span>
+                        </div>
+                        <div className="mt-0.5 text-xs text-gray-500">
+                          {l.accessCount}
+                          {l.maxUses !== null && `/${l.maxUses}`} accesos ·
+                          último uso {fmt(l.lastUsedAt)}
+                          {l.expiresAt && ` · vence ${fmt(l.expiresAt)}`}
+                        </div>
+                      </div>
+                      {active && (
+                        <div className="flex shrink-0 items-center gap-1">
+                          <button
+                            onClick={() => copy(l.token)}
+                            title="Copiar enlace"
+                            className="rounded-lg p-1.5 text-gray-600 hover:bg-gray-100"
+                          >
+                            <Copy className="h-4 w-4" />
+                          </button>
+                          <button
+                            onClick={() => revoke(l)}
+                            disabled={busyId === l.id}
+                            className="rounded-lg px-2 py-1 text-xs text-red-600 hover:bg-red-50 disabled:opacity-60"
+                          >
+                            Revocar
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -7,6 +7,14 @@ import JSZip from "jszip";
 import { startEdgeMode } from "../actions/edges";
 import type { EdgeShape } from "../actions/edges";
 import { FlutterCrudGenerator } from "../codegen/FlutterCrudGenerator";
+import {
+  DEFAULT_PROJECT_SETTINGS,
+  type ProjectSettings,
+} from "../codegen/projectSettings";
+import { api } from "../../lib/api";
+import { toSnapshot } from "../snapshot";
+import { toUmlModel, validateUmlModel } from "../model";
+import { codegenInput } from "../codegen/fromModel";
 
 export type Tool =
   | "cursor"
@@ -30,6 +38,11 @@ type Props = {
 
   // Drag para crear clase
   onClassDragStart?: (e: React.DragEvent) => void;
+
+  /** Proyecto abierto; con él se registra cada generación en la actividad */
+  projectId?: string;
+  /** Configuración de generación del proyecto (paquete, versiones, BD, ...) */
+  settings?: ProjectSettings;
 };
 
 function IconAssociation({ className = "h-4 w-4" }: { className?: string }) {
@@ -168,69 +181,23 @@ function IconManyToMany({ className = "h-4 w-4" }: { className?: string }) {
   );
 }
 
-/* ========= Auxiliares de saneamiento / normalización ========= */
-function sanitizeIdentifier(raw: unknown, fallback: string): string {
-  let s = String(raw ?? "").trim();
-  if (!s) return fallback;
-  // Reemplaza espacios y caracteres no válidos por '_'
-  s = s.replace(/[^\p{L}\p{N}_$]/gu, "_");
-  // No iniciar con dígito
-  if (/^\d/.test(s)) s = "_" + s;
-  return s;
-}
-
-function coerceArrayOfLines(value: unknown): string[] {
-  if (Array.isArray(value)) {
-    return value.map((v) => String(v ?? "").trim()).filter(Boolean);
-  }
-  return String(value ?? "")
-    .split("\n")
-    .map((v) => v.trim())
-    .filter(Boolean);
-}
-
-/* ======= Parseo de métodos (lo mantengo) ======= */
-function parseMethod(methodStr: string) {
-  const regex =
-    /([a-zA-Z_][a-zA-Z0-9_]*)\s*\((.*?)\)\s*:\s*([a-zA-Z_][a-zA-Z0-9_<>]*)/;
-  const match = methodStr.match(regex);
-  if (match) {
-    return {
-      nombre: match[1],
-      parametros: match[2].split(",").map((p) => p.trim()),
-      tipoRetorno: match[3],
-    };
-  }
-  return null;
-}
-
-/* ======= Mapeo tipos de relación UML -> JPA ======= */
-function mapearTipoRelacion(
-  tipo: string
-): "ONE_TO_ONE" | "ONE_TO_MANY" | "MANY_TO_ONE" | "MANY_TO_MANY" {
-  switch (tipo) {
-    case "comp":
-      return "ONE_TO_ONE";
-    case "aggr":
-      return "ONE_TO_MANY";
-    case "assoc":
-      return "MANY_TO_MANY";
-    case "dep":
-      return "MANY_TO_ONE";
-    case "inherit":
-      return "ONE_TO_ONE"; // la herencia se maneja aparte
-    default:
-      return "MANY_TO_ONE";
-  }
-}
-
 export default function Sidebar({
   tool,
   onToolClick,
   onBack,
   graph,
   onClassDragStart,
+  projectId,
+  settings = DEFAULT_PROJECT_SETTINGS,
 }: Props) {
+  /** Best-effort: el zip ya se descargó, un fallo acá no se le muestra al usuario */
+  const reportGenerated = (generator: "spring-boot" | "flutter") => {
+    if (!projectId) return;
+    api
+      .post(`/projects/${projectId}/activity/code-generated`, { generator })
+      .catch(() => {});
+  };
+
   const handleRelationTool = (relationTool: Tool) => {
     if (!graph) return;
 
@@ -695,101 +662,48 @@ export default function Sidebar({
     toast.success(`Relación muchos a muchos creada: ${intermediateName}`);
   }
 
+  /**
+   * Entrada de los generadores desde el modelo canónico del lienzo. Con
+   * errores de validación no se genera: el código saldría roto.
+   */
+  const readCodegenInput = () => {
+    if (!graph) {
+      toast.error("Error: No se pudo acceder al diagrama");
+      return null;
+    }
+    const model = toUmlModel(toSnapshot(graph));
+    if (!model.classes.length) {
+      toast.error("No hay clases en el diagrama");
+      return null;
+    }
+    const errors = validateUmlModel(model).filter(
+      (i) => i.severity === "error"
+    );
+    if (errors.length) {
+      const more = errors.length > 1 ? ` (y ${errors.length - 1} más)` : "";
+      toast.error(
+        `Corrige el diagrama antes de generar: ${errors[0].message}${more}`
+      );
+      return null;
+    }
+    return codegenInput(model);
+  };
+
   const handleGenerateCode = async () => {
     try {
-      if (!graph) {
-        toast.error("Error: No se pudo acceder al diagrama");
-        return;
-      }
-
-      // ===== SOLO extraer datos del diagrama =====
-      const clases = graph.getNodes().map((nodo: any, idx: number) => {
-        const data = nodo.getData?.() ?? {};
-        const rawName = data.name || `Clase_${idx + 1}`;
-        const className = sanitizeIdentifier(rawName, `Clase_${idx + 1}`);
-
-        const rawAttrs = coerceArrayOfLines(data.attributes);
-        const attributes = rawAttrs
-          .map((line, i) => {
-            const [n, t] = String(line).split(":");
-            const nombre = sanitizeIdentifier(n, `campo_${i + 1}`);
-            const tipo = String(t ?? "String").trim() || "String";
-            return `${nombre}: ${tipo}`;
-          })
-          .filter(Boolean);
-
-        const rawMethods = coerceArrayOfLines(data.methods);
-        const methods = rawMethods
-          .map((m) => {
-            const parsed = parseMethod(m);
-            if (parsed) {
-              const metodo = sanitizeIdentifier(parsed.nombre, "metodo");
-              const params = parsed.parametros
-                .map((p, k) => {
-                  const [pn, pt] = p.split(":");
-                  const pName = sanitizeIdentifier(pn, `p${k + 1}`);
-                  const pType = String(pt ?? "String").trim() || "String";
-                  return `${pName}: ${pType}`;
-                })
-                .join(", ");
-              const ret = String(parsed.tipoRetorno || "void").trim();
-              return `${metodo}(${params}): ${ret}`;
-            }
-            return m;
-          })
-          .filter(Boolean);
-
-        return {
-          name: String(className),
-          attributes,
-          methods,
-          isAbstract: !!data.isAbstract,
-          isInterface: !!data.isInterface,
-        };
-      });
-
-      if (!clases.length) {
-        toast.error("No hay clases en el diagrama");
-        return;
-      }
-
-      const relaciones = graph.getEdges().map((edge: any) => {
-        const data = edge.getData?.() ?? {};
-        const source =
-          sanitizeIdentifier(
-            edge.getSourceCell?.()?.getData?.()?.name,
-            "Source"
-          ) || "Source";
-        const target =
-          sanitizeIdentifier(
-            edge.getTargetCell?.()?.getData?.()?.name,
-            "Target"
-          ) || "Target";
-
-        const edgeType = mapearTipoRelacion(edge.shape || data.type);
-
-        // ✅ LEER multSource y multTarget (nombres usados en el Editor)
-        const srcMult = String(
-          data.multSource || data.sourceMultiplicity || ""
-        ).trim();
-        const tgtMult = String(
-          data.multTarget || data.targetMultiplicity || ""
-        ).trim();
-
-        return {
-          source,
-          target,
-          type: edgeType,
-          bidirectional: !!data.bidirectional,
-          sourceMultiplicity: srcMult,
-          targetMultiplicity: tgtMult,
-          name: String(data.name || "").trim(),
-          navigationProperty: String(data.navigationProperty || "").trim(),
-        };
-      });
+      const input = readCodegenInput();
+      if (!input) return;
+      const { classes: clases, relations: relaciones } = input;
 
       // ===== USAR SOLO JavaSpringGenerator =====
-      const generator = new JavaSpringGenerator("com.example");
+      const generator = new JavaSpringGenerator({
+        packageName: settings.javaPackage,
+        groupId: settings.groupId,
+        artifactId: settings.artifactId,
+        springBootVersion: settings.springBootVersion,
+        javaVersion: settings.javaVersion,
+        database: settings.database,
+      });
       clases.forEach((cls) => generator.addClass(cls));
       relaciones.forEach((rel) => generator.addRelation(rel));
 
@@ -810,13 +724,14 @@ export default function Sidebar({
       const url = URL.createObjectURL(blob);
       const a = document.createElement("a");
       a.href = url;
-      a.download = "spring-boot-project.zip";
+      a.download = `${settings.artifactId}.zip`;
       document.body.appendChild(a);
       a.click();
       document.body.removeChild(a);
       URL.revokeObjectURL(url);
 
       toast.success("¡Proyecto Spring Boot generado exitosamente!");
+      reportGenerated("spring-boot");
     } catch (error) {
       console.error("Error:", error);
       toast.error("Error al generar el proyecto");
@@ -825,103 +740,17 @@ export default function Sidebar({
 
   const handleGenerateFlutter = async () => {
     try {
-      if (!graph) {
-        toast.error("Error: No se pudo acceder al diagrama");
-        return;
-      }
-
-      // ===== Extraer clases del diagrama =====
-      const clases = graph.getNodes().map((nodo: any, idx: number) => {
-        const data = nodo.getData?.() ?? {};
-        const rawName = data.name || `Clase_${idx + 1}`;
-        const className = sanitizeIdentifier(rawName, `Clase_${idx + 1}`);
-
-        const rawAttrs = coerceArrayOfLines(data.attributes);
-        const attributes = rawAttrs
-          .map((line, i) => {
-            const [n, t] = String(line).split(":");
-            const nombre = sanitizeIdentifier(n, `campo_${i + 1}`);
-            const tipo = String(t ?? "String").trim() || "String";
-            return `${nombre}: ${tipo}`;
-          })
-          .filter(Boolean);
-
-        const rawMethods = coerceArrayOfLines(data.methods);
-        const methods = rawMethods
-          .map((m) => {
-            const parsed = parseMethod(m);
-            if (parsed) {
-              const metodo = sanitizeIdentifier(parsed.nombre, "metodo");
-              const params = parsed.parametros
-                .map((p, k) => {
-                  const [pn, pt] = p.split(":");
-                  const pName = sanitizeIdentifier(pn, `p${k + 1}`);
-                  const pType = String(pt ?? "String").trim() || "String";
-                  return `${pName}: ${pType}`;
-                })
-                .join(", ");
-              const ret = String(parsed.tipoRetorno || "void").trim();
-              return `${metodo}(${params}): ${ret}`;
-            }
-            return m;
-          })
-          .filter(Boolean);
-
-        return {
-          name: String(className),
-          attributes,
-          methods,
-        };
-      });
-
-      if (!clases.length) {
-        toast.error("No hay clases en el diagrama");
-        return;
-      }
-
-      // ===== Extraer relaciones =====
-      const relaciones = graph.getEdges().map((edge: any) => {
-        const data = edge.getData?.() ?? {};
-        const source =
-          sanitizeIdentifier(
-            edge.getSourceCell?.()?.getData?.()?.name,
-            "Source"
-          ) || "Source";
-        const target =
-          sanitizeIdentifier(
-            edge.getTargetCell?.()?.getData?.()?.name,
-            "Target"
-          ) || "Target";
-
-        const edgeType = mapearTipoRelacion(edge.shape || data.type);
-
-        // ✅ LEER multSource y multTarget (nombres usados en el Editor)
-        const srcMult = String(
-          data.multSource || data.sourceMultiplicity || ""
-        ).trim();
-        const tgtMult = String(
-          data.multTarget || data.targetMultiplicity || ""
-        ).trim();
-
-        return {
-          source,
-          target,
-          type: edgeType,
-          bidirectional: !!data.bidirectional,
-          sourceMultiplicity: srcMult,
-          targetMultiplicity: tgtMult,
-          name: String(data.name || "").trim(),
-          navigationProperty: String(data.navigationProperty || "").trim(),
-        };
-      });
+      const input = readCodegenInput();
+      if (!input) return;
+      const { classes: clases, relations: relaciones } = input;
 
       // ===== Crear generador Flutter =====
-      // Nota: 10.0.2.2 es el host de tu máquina desde el emulador Android;
-      // cámbialo por tu IP/puerto si vas a usar dispositivo físico o iOS.
+      // Nota: desde el emulador Android el host de tu máquina es 10.0.2.2;
+      // la URL se ajusta en la configuración del proyecto.
       const flutterGen = new FlutterCrudGenerator({
-        appName: "UmlCrudApp",
-        packageName: "com.example.umlcrud",
-        apiBaseUrl: "http://10.0.2.2:8080",
+        appName: settings.flutterAppName,
+        packageName: settings.flutterPackage,
+        apiBaseUrl: settings.apiBaseUrl,
       });
 
       clases.forEach((cls) => flutterGen.addClass(cls));
@@ -939,13 +768,14 @@ export default function Sidebar({
       const url = URL.createObjectURL(blob);
       const a = document.createElement("a");
       a.href = url;
-      a.download = "flutter-app.zip";
+      a.download = `${settings.flutterAppName}.zip`;
       document.body.appendChild(a);
       a.click();
       document.body.removeChild(a);
       URL.revokeObjectURL(url);
 
       toast.success("¡App Flutter CRUD generada!");
+      reportGenerated("flutter");
     } catch (error) {
       console.error("Error:", error);
       toast.error("Error al generar la app Flutter");
@@ -0,0 +1,318 @@
+// src/uml/ui/TwoFactorSettings.tsx
+import { useEffect, useState } from "react";
+import { Copy, Download, ShieldCheck, ShieldOff } from "lucide-react";
+import { api, getErrorMessage } from "../../lib/api";
+
+type TwoFactorStatus = {
+  enabled: boolean;
+  enabledAt: string | null;
+  backupCodesLeft: number;
+};
+
+type Setup = { secret: string; otpauthUrl: string };
+
+// idle: estado actual · setup: alta pendiente · codes: mostrar respaldo
+// regenerate/disable: piden código (y contraseña para apagar)
+type Mode = "idle" | "setup" | "codes" | "regenerate" | "disable";
+
+const inputCls =
+  "w-full rounded-lg border border-gray-200 px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-indigo-500";
+
+/** "JBSW Y3DP EHPK 3PXP": más fácil de tipear a mano en la app */
+const groupSecret = (secret: string) => secret.replace(/(.{4})/g, "$1 ").trim();
+
+export default function TwoFactorSettings() {
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [mode, setMode] = useState<Mode>("idle");
+  const [setup, setSetup] = useState<Setup | null>(null);
+  const [backupCodes, setBackupCodes] = useState<string[]>([]);
+  const [code, setCode] = useState("");
+  const [password, setPassword] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = async () => {
+    try {
+      const { data } = await api.get<TwoFactorStatus>("/auth/2fa");
+      setStatus(data);
+    } catch (e) {
+      setError(getErrorMessage(e));
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  const go = (next: Mode) => {
+    setMode(next);
+    setCode("");
+    setPassword("");
+    setError(null);
+  };
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (e) {
+      setError(getErrorMessage(e));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const startSetup = () =>
+    run(async () => {
+      const { data } = await api.post<Setup>("/auth/2fa/setup");
+      setSetup(data);
+      go("setup");
+    });
+
+  const enable = () =>
+    run(async () => {
+      const { data } = await api.post<{ backupCodes: string[] }>(
+        "/auth/2fa/enable",
+        { code: code.trim() }
+      );
+      setBackupCodes(data.backupCodes);
+      setSetup(null);
+      go("codes");
+      await load();
+    });
+
+  const regenerate = () =>
+    run(async () => {
+      const { data } = await api.post<{ backupCodes: string[] }>(
+        "/auth/2fa/backup-codes",
+        { code: code.trim() }
+      );
+      setBackupCodes(data.backupCodes);
+      go("codes");
+      await load();
+    });
+
+  const disable = () =>
+    run(async () => {
+      await api.post("/auth/2fa/disable", { password, code: code.trim() });
+      go("idle");
+      await load();
+    });
+
+  const copyCodes = () =>
+    navigator.clipboard?.writeText(backupCodes.join("\n"));
+
+  const downloadCodes = () => {
+    const blob = new Blob(
+      [
+        "Códigos de respaldo (cada uno sirve una sola vez)\n\n",
+        backupCodes.join("\n"),
+        "\n",
+      ],
+      { type: "text/plain" }
+    );
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = "uml-editor-codigos-respaldo.txt";
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const codeInput = (
+    <label className="block space-y-1">
+      <span className="text-xs text-gray-500">
+        {mode === "setup"
+          ? "Código de 6 dígitos de la app"
+          : "Código de la app o de respaldo"}
+      </span>
+      <input
+        value={code}
+        onChange={(e) => setCode(e.target.value)}
+        className={`${inputCls} tracking-widest`}
+        autoComplete="one-time-code"
+        inputMode={mode === "setup" ? "numeric" : "text"}
+        autoFocus
+      />
+    </label>
+  );
+
+  const actions = (label: string, onConfirm: () => void, danger = false) => (
+    <div className="flex justify-end gap-2">
+      <button
+        onClick={() => go("idle")}
+        className="rounded-xl border border-gray-200 px-3 py-1.5 text-sm text-gray-700 hover:bg-gray-50"
+      >
+        Cancelar
+      </button>
+      <button
+        onClick={onConfirm}
+        disabled={busy || !code.trim() || (mode === "disable" && !password)}
+        className={`rounded-xl px-3 py-1.5 text-sm text-white disabled:opacity-60 ${
+          danger
+            ? "bg-red-600 hover:bg-red-700"
+            : "bg-indigo-600 hover:bg-indigo-700"
+        }`}
+      >
+        {busy ? "Verificando…" : label}
+      </button>
+    </div>
+  );
+
+  return (
+    <section className="mt-6 space-y-4 rounded-2xl border border-gray-100 bg-white p-5 shadow-sm">
+      <div className="flex items-center justify-between gap-3">
+        <div>
+          <h2 className="font-semibold text-gray-800">
+            Verificación en dos pasos
+          </h2>
+          <p className="mt-0.5 text-sm text-gray-500">
+            Además de la contraseña, pide un código de una app autenticadora
+            (Google Authenticator, 1Password, Authy…).
+          </p>
+        </div>
+        {status &&
+          (status.enabled ? (
+            <span className="inline-flex shrink-0 items-center gap-1 rounded-full bg-green-50 px-2 py-0.5 text-xs font-medium text-green-700">
+              <ShieldCheck className="h-3.5 w-3.5" /> Activa
+            </span>
+          ) : (
+            <span className="inline-flex shrink-0 items-center gap-1 rounded-full bg-gray-100 px-2 py-0.5 text-xs font-medium text-gray-600">
+              <ShieldOff className="h-3.5 w-3.5" /> Inactiva
+            </span>
+          ))}
+      </div>
+
+      {mode === "idle" && status && !status.enabled && (
+        <div className="flex justify-end">
+          <button
+            onClick={startSetup}
+            disabled={busy}
+            className="rounded-xl bg-indigo-600 px-3 py-1.5 text-sm text-white hover:bg-indigo-700 disabled:opacity-60"
+          >
+            Activar
+          </button>
+        </div>
+      )}
+
+      {mode === "idle" && status?.enabled && (
+        <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+          <span
+            className={
+              status.backupCodesLeft <= 2 ? "text-amber-700" : "text-gray-600"
+            }
+          >
+            Te quedan {status.backupCodesLeft} códigos de respaldo
+          </span>
+          <div className="flex gap-2">
+            <button
+              onClick={() => go("regenerate")}
+              className="rounded-xl border border-gray-200 px-3 py-1.5 text-gray-700 hover:bg-gray-50"
+            >
+              Generar códigos nuevos
+            </button>
+            <button
+              onClick={() => go("disable")}
+              className="rounded-xl px-3 py-1.5 text-red-600 hover:bg-red-50"
+            >
+              Desactivar
+            </button>
+          </div>
+        </div>
+      )}
+
+      {mode === "setup" && setup && (
+        <div className="space-y-3 text-sm">
+          <ol className="list-decimal space-y-1 pl-5 text-gray-700">
+            <li>
+              En tu app autenticadora agrega una cuenta nueva con esta clave
+              {" · "}
+              <a
+                href={setup.otpauthUrl}
+                className="text-indigo-600 hover:underline"
+              >
+                o ábrela directamente en el celular
+              </a>
+              .
+            </li>
+            <li>Escribe el código de 6 dígitos que te muestra la app.</li>
+          </ol>
+          <div className="rounded-xl bg-gray-50 p-3 text-center font-mono text-base tracking-wider text-gray-800 select-all">
+            {groupSecret(setup.secret)}
+          </div>
+          {codeInput}
+          {actions("Activar", enable)}
+        </div>
+      )}
+
+      {mode === "codes" && (
+        <div className="space-y-3 text-sm">
+          <p className="text-gray-700">
+            Guarda estos códigos de respaldo en un lugar seguro. Cada uno sirve
+            una sola vez para entrar si no tienes la app a mano.{" "}
+            <span className="font-medium">No se vuelven a mostrar.</span>
+          </p>
+          <div className="grid grid-cols-2 gap-2 rounded-xl bg-gray-50 p-3 font-mono text-gray-800">
+            {backupCodes.map((c) => (
+              <div key={c}>{c}</div>
+            ))}
+          </div>
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={copyCodes}
+              className="inline-flex items-center gap-1.5 rounded-xl border border-gray-200 px-3 py-1.5 text-gray-700 hover:bg-gray-50"
+            >
+              <Copy className="h-4 w-4" /> Copiar
+            </button>
+            <button
+              onClick={downloadCodes}
+              className="inline-flex items-center gap-1.5 rounded-xl border border-gray-200 px-3 py-1.5 text-gray-700 hover:bg-gray-50"
+            >
+              <Download className="h-4 w-4" /> Descargar
+            </button>
+            <button
+              onClick={() => go("idle")}
+              className="rounded-xl bg-indigo-600 px-3 py-1.5 text-white hover:bg-indigo-700"
+            >
+              Listo
+            </button>
+          </div>
+        </div>
+      )}
+
+      {mode === "regenerate" && (
+        <div className="space-y-3 text-sm">
+          <p className="text-gray-600">
+            Los códigos de respaldo anteriores dejarán de servir.
+          </p>
+          {codeInput}
+          {actions("Generar", regenerate)}
+        </div>
+      )}
+
+      {mode === "disable" && (
+        <div className="space-y-3 text-sm">
+          <label className="block space-y-1">
+            <span className="text-xs text-gray-500">Contraseña</span>
+            <input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className={inputCls}
+              autoComplete="current-password"
+            />
+          </label>
+          {codeInput}
+          {actions("Desactivar", disable, true)}
+        </div>
+      )}
+
+      {error && (
+        <div className="rounded-xl bg-red-50 px-3 py-2 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+    </section>
+  );
+}
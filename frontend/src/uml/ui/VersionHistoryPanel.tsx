@@ -0,0 +1,273 @@
+// src/uml/ui/VersionHistoryPanel.tsx
+import { useEffect, useState } from "react";
+import type { FormEvent } from "react";
+import { GitCompare, GitFork, History, RotateCcw, X } from "lucide-react";
+import toast from "react-hot-toast";
+import { api, getErrorMessage } from "../../lib/api";
+import type { DiagramSnapshot } from "../snapshot";
+import type { DiagramDiff } from "./DiffOverlay";
+
+export type DiagramVersionSummary = {
+  id: string;
+  label: string | null;
+  kind: "MANUAL" | "AUTO" | "RESTORE";
+  createdAt: string;
+  author: { id: string; name: string; email: string } | null;
+};
+
+type Props = {
+  projectId: string;
+  open: boolean;
+  canEdit: boolean;
+  onClose: () => void;
+  /** Se llama con el snapshot restaurado (la sala RT también lo recibe) */
+  onRestored?: (snapshot: DiagramSnapshot) => void;
+  /** Diff semántico versión → estado actual, para pintarlo en el lienzo */
+  onCompare?: (diff: DiagramDiff, version: DiagramVersionSummary) => void;
+  /** Se llama con el proyecto creado al hacer fork */
+  onForked?: (project: { id: string; name: string }) => void;
+};
+
+const KIND_LABEL: Record<DiagramVersionSummary["kind"], string> = {
+  MANUAL: "Manual",
+  AUTO: "Automática",
+  RESTORE: "Respaldo",
+};
+
+const KIND_STYLE: Record<DiagramVersionSummary["kind"], string> = {
+  MANUAL: "bg-indigo-50 text-indigo-700",
+  AUTO: "bg-gray-100 text-gray-600",
+  RESTORE: "bg-amber-50 text-amber-700",
+};
+
+export default function VersionHistoryPanel({
+  projectId,
+  open,
+  canEdit,
+  onClose,
+  onRestored,
+  onCompare,
+  onForked,
+}: Props) {
+  const [versions, setVersions] = useState<DiagramVersionSummary[] | null>(
+    null
+  );
+  const [label, setLabel] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+  const [comparingId, setComparingId] = useState<string | null>(null);
+  const [forking, setForking] = useState(false);
+
+  const load = async () => {
+    try {
+      const { data } = await api.get<DiagramVersionSummary[]>(
+        `/projects/${projectId}/diagram/versions`
+      );
+      setVersions(data);
+    } catch (e) {
+      toast.error(getErrorMessage(e));
+      setVersions([]);
+    }
+  };
+
+  useEffect(() => {
+    if (open) load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open, projectId]);
+
+  const saveVersion = async (e: FormEvent) => {
+    e.preventDefault();
+    if (saving) return;
+    setSaving(true);
+    try {
+      const { data } = await api.post<DiagramVersionSummary>(
+        `/projects/${projectId}/diagram/versions`,
+        { label: label.trim() || undefined }
+      );
+      setVersions((prev) => [data, ...(prev ?? [])]);
+      setLabel("");
+      toast.success("Versión guardada");
+    } catch (err) {
+      toast.error(getErrorMessage(err));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const restore = async (v: DiagramVersionSummary) => {
+    const ok = window.confirm(
+      "¿Restaurar esta versión? El estado actual se guardará en el historial antes de reemplazarlo."
+    );
+    if (!ok) return;
+    setRestoringId(v.id);
+    try {
+      const { data } = await api.post<{ snapshot: DiagramSnapshot }>(
+        `/projects/${projectId}/diagram/versions/${v.id}/restore`
+      );
+      onRestored?.(data.snapshot);
+      toast.success("Versión restaurada");
+      await load();
+    } catch (err) {
+      toast.error(getErrorMessage(err));
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  const compare = async (v: DiagramVersionSummary) => {
+    if (!onCompare) return;
+    setComparingId(v.id);
+    try {
+      const { data } = await api.get<DiagramDiff>(
+        `/projects/${projectId}/diagram/diff`,
+        { params: { from: v.id, to: "current" } }
+      );
+      onCompare(data, v);
+    } catch (err) {
+      toast.error(getErrorMessage(err));
+    } finally {
+      setComparingId(null);
+    }
+  };
+
+  /** Fork desde una versión o (sin versión) desde el estado actual */
+  const fork = async (v?: DiagramVersionSummary) => {
+    if (!onForked || forking) return;
+    const name = window.prompt("Nombre del fork (opcional)");
+    if (name === null) return;
+    setForking(true);
+    try {
+      const { data } = await api.post<{ id: string; name: string }>(
+        `/projects/${projectId}/fork`,
+        { name: name.trim() || undefined, versionId: v?.id }
+      );
+      toast.success(`Fork creado: ${data.name}`);
+      onForked(data);
+    } catch (err) {
+      toast.error(getErrorMessage(err));
+    } finally {
+      setForking(false);
+    }
+  };
+
+  if (!open) return null;
+  return (
+    <div className="fixed right-0 top-0 z-[70] flex h-full w-96 max-w-[90vw] flex-col border-l border-gray-200 bg-white shadow-xl">
+      <div className="flex items-center justify-between border-b border-gray-100 px-4 py-3">
+        <div className="flex items-center gap-2 font-semibold text-gray-800">
+          <History className="h-5 w-5 text-indigo-600" />
+          Historial de versiones
+        </div>
+        <button
+          onClick={onClose}
+          className="rounded-lg p-1 text-gray-500 hover:bg-gray-100"
+          title="Cerrar"
+        >
+          <X className="h-5 w-5" />
+        </button>
+      </div>
+
+      {canEdit && (
+        <form
+          onSubmit={saveVersion}
+          className="flex gap-2 border-b border-gray-100 px-4 py-3"
+        >
+          <input
+            className="flex-1 rounded-xl border border-gray-200 px-3 py-1.5 text-sm outline-none focus:ring-2 focus:ring-indigo-500"
+            placeholder="Nombre de la versión (opcional)"
+            maxLength={120}
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+          />
+          <button
+            disabled={saving}
+            className="rounded-xl bg-indigo-600 px-3 py-1.5 text-sm font-medium text-white hover:bg-indigo-700 disabled:opacity-60"
+          >
+            {saving ? "Guardando…" : "Guardar versión"}
+          </button>
+        </form>
+      )}
+
+      {onForked && (
+        <div className="border-b border-gray-100 px-4 py-2">
+          <button
+            onClick={() => fork()}
+            disabled={forking}
+            className="inline-flex items-center gap-1 rounded-lg px-2 py-1 text-xs text-gray-600 hover:bg-gray-100 disabled:opacity-60"
+            title="Copia independiente para rediseñar sin afectar la sala en vivo"
+          >
+            <GitFork className="h-3.5 w-3.5" />
+            {forking ? "Creando fork…" : "Fork del estado actual"}
+          </button>
+        </div>
+      )}
+
+      <div className="flex-1 space-y-2 overflow-auto px-4 py-3">
+        {versions === null ? (
+          <div className="text-sm text-gray-500">Cargando…</div>
+        ) : versions.length === 0 ? (
+          <div className="rounded-xl bg-gray-50 p-3 text-sm text-gray-500">
+            Todavía no hay versiones guardadas
+          </div>
+        ) : (
+          versions.map((v) => (
+            <div key={v.id} className="rounded-xl border border-gray-100 p-3">
+              <div className="flex items-start justify-between gap-2">
+                <div>
+                  <div className="text-sm font-medium text-gray-800">
+                    {v.label || new Date(v.createdAt).toLocaleString()}
+                  </div>
+                  <div className="mt-0.5 text-xs text-gray-500">
+                    {v.label && `${new Date(v.createdAt).toLocaleString()} · `}
+                    {v.author?.name || v.author?.email || "Sistema"}
+                  </div>
+                </div>
+                <span
+                  className={`rounded-full px-2 py-0.5 text-[11px] font-medium ${
+                    KIND_STYLE[v.kind]
+                  }`}
+                >
+                  {KIND_LABEL[v.kind]}
+                </span>
+              </div>
+              <div className="mt-2 flex flex-wrap gap-1">
+                {onCompare && (
+                  <button
+                    onClick={() => compare(v)}
+                    disabled={comparingId !== null}
+                    className="inline-flex items-center gap-1 rounded-lg px-2 py-1 text-xs text-gray-600 hover:bg-gray-100 disabled:opacity-60"
+                  >
+                    <GitCompare className="h-3.5 w-3.5" />
+                    {comparingId === v.id
+                      ? "Comparando…"
+                      : "Comparar con actual"}
+                  </button>
+                )}
+                {onForked && (
+                  <button
+                    onClick={() => fork(v)}
+                    disabled={forking}
+                    className="inline-flex items-center gap-1 rounded-lg px-2 py-1 text-xs text-gray-600 hover:bg-gray-100 disabled:opacity-60"
+                  >
+                    <GitFork className="h-3.5 w-3.5" />
+                    Fork
+                  </button>
+                )}
+                {canEdit && (
+                  <button
+                    onClick={() => restore(v)}
+                    disabled={restoringId !== null}
+                    className="inline-flex items-center gap-1 rounded-lg px-2 py-1 text-xs text-indigo-600 hover:bg-indigo-50 disabled:opacity-60"
+                  >
+                    <RotateCcw className="h-3.5 w-3.5" />
+                    {restoringId === v.id ? "Restaurando…" : "Restaurar"}
+                  </button>
+                )}
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,375 @@
+// src/uml/ui/WorkspacesDialog.tsx
+import { useEffect, useState } from "react";
+import { Building2, Plus, Trash2, UserMinus, X } from "lucide-react";
+import toast from "react-hot-toast";
+import { api, getErrorMessage } from "../../lib/api";
+
+type ProjectRole = "ADMIN" | "EDITOR" | "VIEWER";
+export type WorkspaceRole = "OWNER" | "ADMIN" | "MEMBER";
+
+export type Workspace = {
+  id: string;
+  name: string;
+  defaultProjectRole: ProjectRole;
+  role: WorkspaceRole;
+  memberCount: number;
+  projectCount: number;
+};
+
+type WorkspaceMember = {
+  userId: string;
+  name: string | null;
+  email: string;
+  role: WorkspaceRole;
+};
+
+type WorkspaceDetail = Omit<Workspace, "memberCount" | "projectCount"> & {
+  members: WorkspaceMember[];
+};
+
+type Props = {
+  open: boolean;
+  currentUserId?: string;
+  workspaces: Workspace[];
+  onClose: () => void;
+  /** Algo cambió (workspaces o accesos): el Dashboard recarga */
+  onChanged: () => void;
+};
+
+const WS_ROLE_LABEL: Record<WorkspaceRole, string> = {
+  OWNER: "Owner",
+  ADMIN: "Admin",
+  MEMBER: "Miembro",
+};
+
+const PROJECT_ROLE_LABEL: Record<ProjectRole, string> = {
+  ADMIN: "Admin",
+  EDITOR: "Editor",
+  VIEWER: "Lector",
+};
+
+const inputCls =
+  "rounded-lg border border-gray-200 px-2 py-1.5 outline-none focus:ring-2 focus:ring-indigo-500";
+
+export default function WorkspacesDialog({
+  open,
+  currentUserId,
+  workspaces,
+  onClose,
+  onChanged,
+}: Props) {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [detail, setDetail] = useState<WorkspaceDetail | null>(null);
+  const [newName, setNewName] = useState("");
+  const [inviteEmail, setInviteEmail] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setSelectedId((prev) =>
+      prev && workspaces.some((w) => w.id === prev)
+        ? prev
+        : (workspaces[0]?.id ?? null)
+    );
+  }, [open, workspaces]);
+
+  const loadDetail = async (id: string) => {
+    try {
+      const { data } = await api.get<WorkspaceDetail>(`/workspaces/${id}`);
+      setDetail(data);
+    } catch (e) {
+      toast.error(getErrorMessage(e));
+      setDetail(null);
+    }
+  };
+
+  useEffect(() => {
+    setDetail(null);
+    if (open && selectedId) loadDetail(selectedId);
+  }, [open, selectedId]);
+
+  /**
+   * Corre una acción, avisa el error y refresca el Dashboard. Con `leave` el
+   * workspace dejó de ser accesible (salir/eliminar) y se deselecciona.
+   */
+  const run = async (fn: () => Promise<unknown>, leave = false) => {
+    setBusy(true);
+    try {
+      await fn();
+      onChanged();
+      if (leave) setSelectedId(null);
+      else if (selectedId) await loadDetail(selectedId);
+    } catch (e) {
+      toast.error(getErrorMessage(e));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const create = async () => {
+    const name = newName.trim();
+    if (!name) return;
+    setBusy(true);
+    try {
+      const { data } = await api.post<Workspace>("/workspaces", { name });
+      setNewName("");
+      setSelectedId(data.id);
+      onChanged();
+    } catch (e) {
+      toast.error(getErrorMessage(e));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (!open) return null;
+
+  const manager = detail?.role === "OWNER" || detail?.role === "ADMIN";
+  const base = detail ? `/workspaces/${detail.id}` : "";
+
+  const addMember = async () => {
+    const email = inviteEmail.trim();
+    if (!email) return;
+    await run(async () => {
+      await api.post(`${base}/members`, { email });
+      setInviteEmail("");
+    });
+  };
+
+  const removeMember = (m: WorkspaceMember) => {
+    const self = m.userId === currentUserId;
+    const ok = window.confirm(
+      self
+        ? `¿Salir de "${detail?.name}"? Pierdes el acceso a sus proyectos.`
+        : `¿Quitar a ${m.name || m.email} del workspace?`
+    );
+    if (ok) run(() => api.delete(`${base}/members/${m.userId}`), self);
+  };
+
+  const removeWorkspace = () => {
+    const ok = window.confirm(
+      `¿Eliminar "${detail?.name}"? Sus proyectos vuelven a ser personales de sus dueños.`
+    );
+    if (ok) run(() => api.delete(base), true);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[80] flex items-center justify-center bg-black/30 p-4">
+      <div className="flex max-h-[85vh] w-full max-w-3xl flex-col rounded-2xl bg-white shadow-2xl">
+        <div className="flex items-center justify-between border-b border-gray-100 px-5 py-3">
+          <div className="flex items-center gap-2 font-semibold text-gray-800">
+            <Building2 className="h-5 w-5 text-indigo-600" />
+            Espacios de trabajo
+          </div>
+          <button
+            onClick={onClose}
+            className="rounded-lg p-1 text-gray-500 hover:bg-gray-100"
+            title="Cerrar"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="grid flex-1 grid-cols-1 overflow-hidden text-sm md:grid-cols-[220px_1fr]">
+          {/* Lista */}
+          <aside className="space-y-3 overflow-auto border-b border-gray-100 p-4 md:border-b-0 md:border-r">
+            <div className="flex gap-1">
+              <input
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && create()}
+                placeholder="Nuevo workspace"
+                maxLength={80}
+                className={`${inputCls} min-w-0 flex-1`}
+              />
+              <button
+                onClick={create}
+                disabled={busy || !newName.trim()}
+                title="Crear"
+                className="rounded-lg bg-indigo-600 p-1.5 text-white hover:bg-indigo-700 disabled:opacity-60"
+              >
+                <Plus className="h-4 w-4" />
+              </button>
+            </div>
+            {workspaces.length === 0 ? (
+              <p className="text-gray-500">
+                Todavía no perteneces a ningún workspace.
+              </p>
+            ) : (
+              <div className="space-y-1">
+                {workspaces.map((w) => (
+                  <button
+                    key={w.id}
+                    onClick={() => setSelectedId(w.id)}
+                    className={`w-full rounded-lg px-2 py-1.5 text-left ${
+                      w.id === selectedId
+                        ? "bg-indigo-50 text-indigo-700"
+                        : "text-gray-700 hover:bg-gray-50"
+                    }`}
+                  >
+                    <div className="truncate font-medium">{w.name}</div>
+                    <div className="text-xs text-gray-500">
+                      {WS_ROLE_LABEL[w.role]} · {w.memberCount} miembros ·{" "}
+                      {w.projectCount} proyectos
+                    </div>
+                  </button>
+                ))}
+              </div>
+            )}
+          </aside>
+
+          {/* Detalle */}
+          <div className="space-y-4 overflow-auto p-4">
+            {!selectedId ? (
+              <div className="text-gray-500">
+                Crea un workspace para compartir proyectos con tu equipo o
+                clase.
+              </div>
+            ) : !detail ? (
+              <div className="text-gray-500">Cargando…</div>
+            ) : (
+              <>
+                <section className="space-y-2">
+                  {manager ? (
+                    <input
+                      key={detail.id}
+                      defaultValue={detail.name}
+                      maxLength={80}
+                      onBlur={(e) => {
+                        const name = e.target.value.trim();
+                        if (name && name !== detail.name) {
+                          run(() => api.patch(base, { name }));
+                        }
+                      }}
+                      className={`${inputCls} w-full text-base font-semibold`}
+                    />
+                  ) : (
+                    <h4 className="text-base font-semibold text-gray-800">
+                      {detail.name}
+                    </h4>
+                  )}
+                  <label className="flex items-center gap-2 text-gray-600">
+                    Los miembros entran a los proyectos como
+                    <select
+                      value={detail.defaultProjectRole}
+                      disabled={!manager || busy}
+                      onChange={(e) =>
+                        run(() =>
+                          api.patch(base, {
+                            defaultProjectRole: e.target.value,
+                          })
+                        )
+                      }
+                      className={inputCls}
+                    >
+                      {(Object.keys(PROJECT_ROLE_LABEL) as ProjectRole[]).map(
+                        (r) => (
+                          <option key={r} value={r}>
+                            {PROJECT_ROLE_LABEL[r]}
+                          </option>
+                        )
+                      )}
+                    </select>
+                  </label>
+                  <p className="text-xs text-gray-500">
+                    Owner y admins del workspace administran todos sus
+                    proyectos.
+                  </p>
+                </section>
+
+                {manager && (
+                  <section className="flex gap-2">
+                    <input
+                      type="email"
+                      value={inviteEmail}
+                      onChange={(e) => setInviteEmail(e.target.value)}
+                      onKeyDown={(e) => e.key === "Enter" && addMember()}
+                      placeholder="email@ejemplo.com"
+                      className={`${inputCls} flex-1`}
+                    />
+                    <button
+                      onClick={addMember}
+                      disabled={busy || !inviteEmail.trim()}
+                      className="rounded-lg bg-indigo-600 px-3 py-1.5 font-medium text-white hover:bg-indigo-700 disabled:opacity-60"
+                    >
+                      Agregar
+                    </button>
+                  </section>
+                )}
+
+                <section className="divide-y divide-gray-100 rounded-xl border border-gray-100">
+                  {detail.members.map((m) => {
+                    const self = m.userId === currentUserId;
+                    return (
+                      <div
+                        key={m.userId}
+                        className="flex items-center justify-between gap-2 p-3"
+                      >
+                        <div className="min-w-0">
+                          <div className="truncate font-medium text-gray-800">
+                            {m.name || m.email}
+                            {self && (
+                              <span className="text-gray-400"> (tú)</span>
+                            )}
+                          </div>
+                          {m.name && (
+                            <div className="truncate text-xs text-gray-500">
+                              {m.email}
+                            </div>
+                          )}
+                        </div>
+                        <div className="flex shrink-0 items-center gap-1">
+                          {manager && m.role !== "OWNER" ? (
+                            <select
+                              value={m.role}
+                              disabled={busy}
+                              onChange={(e) =>
+                                run(() =>
+                                  api.patch(`${base}/members/${m.userId}`, {
+                                    role: e.target.value,
+                                  })
+                                )
+                              }
+                              className={`${inputCls} text-xs`}
+                            >
+                              <option value="MEMBER">Miembro</option>
+                              <option value="ADMIN">Admin</option>
+                            </select>
+                          ) : (
+                            <span className="rounded-full bg-gray-100 px-2 py-0.5 text-xs font-medium text-gray-700">
+                              {WS_ROLE_LABEL[m.role]}
+                            </span>
+                          )}
+                          {m.role !== "OWNER" && (manager || self) && (
+                            <button
+                              onClick={() => removeMember(m)}
+                              disabled={busy}
+                              title={self ? "Salir" : "Quitar"}
+                              className="rounded-lg p-1.5 text-red-600 hover:bg-red-50 disabled:opacity-60"
+                            >
+                              <UserMinus className="h-4 w-4" />
+                            </button>
+                          )}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </section>
+
+                {detail.role === "OWNER" && (
+                  <button
+                    onClick={removeWorkspace}
+                    disabled={busy}
+                    className="inline-flex items-center gap-1.5 rounded-lg px-3 py-1.5 text-red-600 hover:bg-red-50 disabled:opacity-60"
+                  >
+                    <Trash2 className="h-4 w-4" /> Eliminar workspace
+                  </button>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,11 +1,18 @@
 // vite.config.ts
-import { defineConfig } from "vite";
+import { defineConfig, searchForWorkspaceRoot } from "vite";
 import react from "@vitejs/plugin-react";
 
 export default defineConfig({
   plugins: [react()],
   server: {
     port: 5173,
+    // src/uml/model.ts reexporta el modelo UML del backend
+    fs: {
+      allow: [
+        searchForWorkspaceRoot(process.cwd()),
+        "../backend/src/diagrams/uml-model.ts",
+      ],
+    },
     proxy: {
       "/api": {
         target: "http://localhost:3000",